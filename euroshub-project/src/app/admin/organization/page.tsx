@@ -0,0 +1,46 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import DashboardLayout from '@/components/Dashboard/DashboardLayout';
+import OrganizationManagement from '@/components/Organization/OrganizationManagement';
+import { authAPI, User } from '@/lib/auth';
+import LoadingSpinner from '@/components/Global/LoadingSpinner/LoadingSpinner';
+
+export default function AdminOrganizationPage() {
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadUser = async () => {
+      try {
+        const user = await authAPI.getMe();
+        setCurrentUser(user);
+      } catch (error) {
+        console.error('Failed to load user:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadUser();
+  }, []);
+
+  if (loading) {
+    return <LoadingSpinner isLoading={true} />;
+  }
+
+  if (!currentUser) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout
+      role="admin"
+      title="Organization"
+      showBreadcrumb={true}
+      breadcrumbs={['Dashboard', 'User Management', 'Organization']}
+    >
+      <OrganizationManagement currentUser={currentUser} />
+    </DashboardLayout>
+  );
+}
\ No newline at end of file
@@ -1,4 +1,4 @@
-import BoardView from '@/components/boards/BoardView';
+import ClientBoardView from '@/components/boards/client/ClientBoardView';
 
 interface BoardPageProps {
   params: {
@@ -9,9 +9,8 @@ interface BoardPageProps {
 export default function ClientBoardPage({ params }: BoardPageProps) {
   return (
     <div className="h-screen">
-      <BoardView
+      <ClientBoardView
         boardId={params.boardId}
-        userRole="client"
         baseUrl="/client"
       />
     </div>
@@ -0,0 +1,15 @@
+import DashboardLayout from '@/components/Dashboard/DashboardLayout';
+import MyCalendar from '@/components/boards/calendar/MyCalendar';
+
+export default function ClientCalendarPage() {
+  return (
+    <DashboardLayout
+      role="client"
+      title="My Calendar"
+      showBreadcrumb={true}
+      breadcrumbs={['Dashboard', 'My Calendar']}
+    >
+      <MyCalendar role="client" />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,15 @@
+import DashboardLayout from '@/components/Dashboard/DashboardLayout';
+import NotificationCenter from '@/components/Notifications/NotificationCenter';
+
+export default function ClientNotificationsPage() {
+  return (
+    <DashboardLayout
+      role="client"
+      title="Notifications"
+      showBreadcrumb={true}
+      breadcrumbs={['Dashboard', 'Notifications']}
+    >
+      <NotificationCenter role="client" />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,15 @@
+import DashboardLayout from '@/components/Dashboard/DashboardLayout';
+import MyCalendar from '@/components/boards/calendar/MyCalendar';
+
+export default function EmployeeCalendarPage() {
+  return (
+    <DashboardLayout
+      role="employee"
+      title="My Calendar"
+      showBreadcrumb={true}
+      breadcrumbs={['Dashboard', 'My Calendar']}
+    >
+      <MyCalendar role="employee" />
+    </DashboardLayout>
+  );
+}
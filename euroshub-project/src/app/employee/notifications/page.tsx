@@ -0,0 +1,15 @@
+import DashboardLayout from '@/components/Dashboard/DashboardLayout';
+import NotificationCenter from '@/components/Notifications/NotificationCenter';
+
+export default function EmployeeNotificationsPage() {
+  return (
+    <DashboardLayout
+      role="employee"
+      title="Notifications"
+      showBreadcrumb={true}
+      breadcrumbs={['Dashboard', 'Notifications']}
+    >
+      <NotificationCenter role="employee" />
+    </DashboardLayout>
+  );
+}
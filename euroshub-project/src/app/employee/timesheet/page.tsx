@@ -0,0 +1,15 @@
+import DashboardLayout from '@/components/Dashboard/DashboardLayout';
+import MyTimesheet from '@/components/boards/time/MyTimesheet';
+
+export default function EmployeeTimesheetPage() {
+  return (
+    <DashboardLayout
+      role="employee"
+      title="My Timesheet"
+      showBreadcrumb={true}
+      breadcrumbs={['Dashboard', 'My Timesheet']}
+    >
+      <MyTimesheet role="employee" />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,15 @@
+import DashboardLayout from '@/components/Dashboard/DashboardLayout';
+import MyTimesheet from '@/components/boards/time/MyTimesheet';
+
+export default function HRTimesheetPage() {
+  return (
+    <DashboardLayout
+      role="hr"
+      title="My Timesheet"
+      showBreadcrumb={true}
+      breadcrumbs={['Dashboard', 'My Timesheet']}
+    >
+      <MyTimesheet role="hr" />
+    </DashboardLayout>
+  );
+}
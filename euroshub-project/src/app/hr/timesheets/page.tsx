@@ -0,0 +1,15 @@
+import DashboardLayout from '@/components/Dashboard/DashboardLayout';
+import TeamTimesheets from '@/components/boards/time/TeamTimesheets';
+
+export default function HRTimesheetsPage() {
+  return (
+    <DashboardLayout
+      role="hr"
+      title="Timesheets"
+      showBreadcrumb={true}
+      breadcrumbs={['Dashboard', 'Employee Management', 'Timesheets']}
+    >
+      <TeamTimesheets />
+    </DashboardLayout>
+  );
+}
@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { SocketProvider } from "@/contexts/SocketContext";
 import { BoardStatsProvider } from "@/contexts/BoardStatsContext";
+import { TimerProvider } from "@/contexts/TimerContext";
 import { Toaster } from "react-hot-toast";
 
 const geistSans = Geist({
@@ -83,7 +84,9 @@ export default function RootLayout({
               },
             }}
             />
-            {children}
+            <TimerProvider>
+              {children}
+            </TimerProvider>
           </SocketProvider>
         </BoardStatsProvider>
       </body>
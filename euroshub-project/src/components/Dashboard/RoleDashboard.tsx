@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Clock,
+  LayoutGrid,
+  ListTodo,
+  RefreshCw,
+  UserPlus,
+  Users
+} from 'lucide-react';
+import { dashboardService, DashboardOverview } from '@/lib/dashboardService';
+import { UserRole } from '@/components/Global/Sidebar/SidebarLinks';
+import WidgetPanel from './widgets/WidgetPanel';
+import StatTile from './widgets/StatTile';
+import WorkItemList from './widgets/WorkItemList';
+import TeamWorkloadWidget from './widgets/TeamWorkloadWidget';
+import UserStatsWidget from './widgets/UserStatsWidget';
+import ActivityFeedWidget from './widgets/ActivityFeedWidget';
+
+export type DashboardPanel =
+  | 'personal-stats'
+  | 'team-stats'
+  | 'people-stats'
+  | 'my-tasks'
+  | 'overdue'
+  | 'due-soon'
+  | 'team-workload'
+  | 'user-stats'
+  | 'activity';
+
+type DashboardRole = Exclude<UserRole, 'client'>;
+
+// Panels shown on each role's dashboard, top to bottom
+export const rolePanels: Record<DashboardRole, DashboardPanel[]> = {
+  employee: ['personal-stats', 'my-tasks', 'overdue', 'due-soon', 'activity'],
+  hr: ['people-stats', 'user-stats', 'team-workload', 'my-tasks', 'activity'],
+  admin: ['team-stats', 'team-workload', 'overdue', 'my-tasks', 'activity'],
+  superadmin: ['team-stats', 'people-stats', 'team-workload', 'user-stats', 'overdue', 'activity'],
+};
+
+const overviewTitles: Record<DashboardRole, string> = {
+  employee: 'My Overview',
+  hr: 'HR Overview',
+  admin: 'Admin Overview',
+  superadmin: 'System Overview',
+};
+
+interface RoleDashboardProps {
+  role: DashboardRole;
+}
+
+export default function RoleDashboard({ role }: RoleDashboardProps) {
+  const [overview, setOverview] = useState<DashboardOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/${role}`;
+
+  const loadOverview = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await dashboardService.getOverview();
+      setOverview(data);
+    } catch (err) {
+      console.error('Error loading dashboard:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load dashboard');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
+
+  const summary = overview?.summary;
+  const userStats = overview?.userStats;
+  const display = (value: number | undefined) => (loading || value === undefined ? '—' : value);
+
+  const refreshButton = (
+    <button
+      onClick={loadOverview}
+      disabled={loading}
+      className="p-2 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+      title="Refresh"
+    >
+      <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+    </button>
+  );
+
+  const renderPanel = (panel: DashboardPanel) => {
+    switch (panel) {
+      case 'personal-stats':
+        return (
+          <WidgetPanel title={overviewTitles[role]} action={refreshButton}>
+            <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
+              <StatTile label="My Open Tasks" value={display(summary?.myOpenTasks)} color="blue" icon={<ListTodo className="w-5 h-5" />} />
+              <StatTile label="Overdue" value={display(summary?.overdue)} color="red" icon={<AlertTriangle className="w-5 h-5" />} />
+              <StatTile label="Completed This Week" value={display(summary?.completedThisWeek)} color="green" icon={<CheckCircle2 className="w-5 h-5" />} />
+              <StatTile label="Due Soon" value={display(summary?.dueSoon)} color="yellow" icon={<Clock className="w-5 h-5" />} hint="Next 3 days" />
+            </div>
+          </WidgetPanel>
+        );
+
+      case 'team-stats':
+        return (
+          <WidgetPanel title={overviewTitles[role]} action={refreshButton}>
+            <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
+              <StatTile label="Active Boards" value={display(summary?.boards)} color="purple" icon={<LayoutGrid className="w-5 h-5" />} hint={summary ? `${summary.cards} cards` : undefined} />
+              <StatTile label="Open Tasks" value={display(summary?.openTasks)} color="blue" icon={<ListTodo className="w-5 h-5" />} />
+              <StatTile label="My Overdue Items" value={display(summary?.overdue)} color="red" icon={<AlertTriangle className="w-5 h-5" />} />
+              <StatTile label="My Completions This Week" value={display(summary?.completedThisWeek)} color="green" icon={<CheckCircle2 className="w-5 h-5" />} />
+            </div>
+          </WidgetPanel>
+        );
+
+      case 'people-stats':
+        return (
+          <WidgetPanel title={role === 'hr' ? overviewTitles[role] : 'People Overview'} action={role === 'hr' ? refreshButton : undefined}>
+            <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
+              <StatTile label="Total Users" value={display(userStats?.total)} color="blue" icon={<Users className="w-5 h-5" />} />
+              <StatTile label="Active Users" value={display(userStats?.active)} color="green" icon={<CheckCircle2 className="w-5 h-5" />} hint={userStats ? `${userStats.inactive} inactive` : undefined} />
+              <StatTile label="New This Month" value={display(userStats?.newThisMonth)} color="yellow" icon={<UserPlus className="w-5 h-5" />} />
+              <StatTile label="Departments" value={display(userStats?.byDepartment.length)} color="purple" icon={<LayoutGrid className="w-5 h-5" />} />
+            </div>
+          </WidgetPanel>
+        );
+
+      case 'my-tasks':
+        return (
+          <WidgetPanel
+            title="My Tasks"
+            loading={loading}
+            isEmpty={!overview?.myTasks.length}
+            emptyMessage="You have no open tasks assigned"
+          >
+            <WorkItemList items={overview?.myTasks || []} baseUrl={baseUrl} />
+          </WidgetPanel>
+        );
+
+      case 'overdue':
+        return (
+          <WidgetPanel
+            title="Overdue"
+            loading={loading}
+            isEmpty={!overview?.overdue.length}
+            emptyMessage="Nothing overdue"
+          >
+            <WorkItemList items={overview?.overdue || []} baseUrl={baseUrl} />
+          </WidgetPanel>
+        );
+
+      case 'due-soon':
+        return (
+          <WidgetPanel
+            title="Due Soon"
+            loading={loading}
+            isEmpty={!overview?.dueSoon.length}
+            emptyMessage="Nothing due in the next 3 days"
+          >
+            <WorkItemList items={overview?.dueSoon || []} baseUrl={baseUrl} />
+          </WidgetPanel>
+        );
+
+      case 'team-workload':
+        return <TeamWorkloadWidget workload={overview?.teamWorkload || []} loading={loading} />;
+
+      case 'user-stats':
+        return <UserStatsWidget stats={userStats || null} loading={loading} />;
+
+      case 'activity':
+        return <ActivityFeedWidget activities={overview?.recentActivity || []} loading={loading} />;
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300 flex items-center justify-between">
+          <span>{error}</span>
+          <button onClick={loadOverview} className="font-medium underline">Retry</button>
+        </div>
+      )}
+
+      {rolePanels[role].map(panel => (
+        <React.Fragment key={panel}>{renderPanel(panel)}</React.Fragment>
+      ))}
+    </div>
+  );
+}
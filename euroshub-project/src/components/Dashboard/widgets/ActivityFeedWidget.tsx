@@ -0,0 +1,44 @@
+'use client';
+
+import React from 'react';
+import { DashboardActivity } from '@/lib/dashboardService';
+import WidgetPanel from './WidgetPanel';
+
+interface ActivityFeedWidgetProps {
+  activities: DashboardActivity[];
+  loading?: boolean;
+}
+
+const formatTime = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function ActivityFeedWidget({ activities, loading }: ActivityFeedWidgetProps) {
+  return (
+    <WidgetPanel
+      title="Recent Activity"
+      loading={loading}
+      isEmpty={activities.length === 0}
+      emptyMessage="No recent activity on your boards"
+    >
+      <ul className="space-y-3">
+        {activities.map(activity => (
+          <li key={activity._id} className="flex items-start gap-3">
+            <div className="w-2 h-2 mt-1.5 rounded-full bg-[#0fb8af] flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm text-gray-900 dark:text-white">
+                <span className="font-medium">
+                  {activity.user ? `${activity.user.firstName} ${activity.user.lastName}` : 'Someone'}
+                </span>{' '}
+                {activity.description || activity.type.replace(/_/g, ' ')}
+                {activity.card?.title && (
+                  <span className="text-gray-500 dark:text-gray-400"> · {activity.card.title}</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{formatTime(activity.createdAt)}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </WidgetPanel>
+  );
+}
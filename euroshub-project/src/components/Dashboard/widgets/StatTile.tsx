@@ -0,0 +1,54 @@
+'use client';
+
+import React from 'react';
+
+export type StatTileColor = 'blue' | 'green' | 'yellow' | 'purple' | 'red';
+
+const colorClasses: Record<StatTileColor, { tile: string; icon: string }> = {
+  blue: { tile: 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800', icon: 'bg-blue-600' },
+  green: { tile: 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800', icon: 'bg-green-600' },
+  yellow: { tile: 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800', icon: 'bg-yellow-600' },
+  purple: { tile: 'bg-purple-50 dark:bg-purple-900/20 border-purple-200 dark:border-purple-800', icon: 'bg-purple-600' },
+  red: { tile: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800', icon: 'bg-red-600' },
+};
+
+interface StatTileProps {
+  label: string;
+  value: React.ReactNode;
+  color: StatTileColor;
+  icon?: React.ReactNode;
+  hint?: string;
+}
+
+export default function StatTile({ label, value, color, icon, hint }: StatTileProps) {
+  const classes = colorClasses[color];
+
+  return (
+    <div className={`${classes.tile} border overflow-hidden shadow rounded-lg`}>
+      <div className="p-5">
+        <div className="flex items-center">
+          {icon && (
+            <div className="flex-shrink-0">
+              <div className={`w-8 h-8 ${classes.icon} rounded-md flex items-center justify-center text-white`}>
+                {icon}
+              </div>
+            </div>
+          )}
+          <div className={icon ? 'ml-5 w-0 flex-1' : 'w-full'}>
+            <dl>
+              <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">
+                {label}
+              </dt>
+              <dd className="text-lg font-medium text-gray-900 dark:text-white">
+                {value}
+              </dd>
+              {hint && (
+                <dd className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 truncate">{hint}</dd>
+              )}
+            </dl>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
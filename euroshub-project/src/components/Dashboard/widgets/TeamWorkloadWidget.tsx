@@ -0,0 +1,58 @@
+'use client';
+
+import React from 'react';
+import { TeamWorkloadEntry } from '@/lib/dashboardService';
+import WidgetPanel from './WidgetPanel';
+
+interface TeamWorkloadWidgetProps {
+  workload: TeamWorkloadEntry[];
+  loading?: boolean;
+}
+
+export default function TeamWorkloadWidget({ workload, loading }: TeamWorkloadWidgetProps) {
+  const maxOpen = Math.max(1, ...workload.map(entry => entry.openTasks));
+
+  return (
+    <WidgetPanel
+      title="Team Workload"
+      loading={loading}
+      isEmpty={workload.length === 0}
+      emptyMessage="No tasks are assigned on your boards yet"
+    >
+      <ul className="space-y-4">
+        {workload.map(entry => (
+          <li key={entry.user._id}>
+            <div className="flex items-center justify-between mb-1.5">
+              <div className="flex items-center gap-2 min-w-0">
+                {entry.user.avatar ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={entry.user.avatar} alt="" className="w-6 h-6 rounded-full object-cover" />
+                ) : (
+                  <div className="w-6 h-6 rounded-full bg-[#0fb8af] text-white text-[10px] font-semibold flex items-center justify-center">
+                    {entry.user.firstName?.charAt(0)}{entry.user.lastName?.charAt(0)}
+                  </div>
+                )}
+                <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {entry.user.firstName} {entry.user.lastName}
+                </span>
+              </div>
+              <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                <span>{entry.openTasks} open</span>
+                {entry.overdueTasks > 0 && (
+                  <span className="text-red-600 dark:text-red-400">{entry.overdueTasks} overdue</span>
+                )}
+                <span className="text-green-600 dark:text-green-400">{entry.completedThisWeek} done this week</span>
+              </div>
+            </div>
+            <div className="h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${entry.overdueTasks > 0 ? 'bg-red-500' : 'bg-[#0fb8af]'}`}
+                style={{ width: `${(entry.openTasks / maxOpen) * 100}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </WidgetPanel>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import { DashboardUserStats } from '@/lib/dashboardService';
+import WidgetPanel from './WidgetPanel';
+
+interface UserStatsWidgetProps {
+  stats: DashboardUserStats | null;
+  loading?: boolean;
+}
+
+const roleLabels: Record<string, string> = {
+  superadmin: 'Super Admins',
+  admin: 'Admins',
+  hr: 'HR',
+  employee: 'Employees',
+  client: 'Clients',
+};
+
+export default function UserStatsWidget({ stats, loading }: UserStatsWidgetProps) {
+  return (
+    <WidgetPanel title="People" loading={loading} isEmpty={!stats}>
+      {stats && (
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+          <div>
+            <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">By role</h4>
+            <ul className="space-y-2">
+              {Object.entries(stats.byRole).map(([role, count]) => (
+                <li key={role} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700 dark:text-gray-300">{roleLabels[role] || role}</span>
+                  <span className="font-medium text-gray-900 dark:text-white">{count}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">By department</h4>
+            {stats.byDepartment.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No departments assigned</p>
+            ) : (
+              <ul className="space-y-2">
+                {stats.byDepartment.map(item => (
+                  <li key={item.department} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700 dark:text-gray-300 truncate">{item.department}</span>
+                    <span className="font-medium text-gray-900 dark:text-white">{item.count}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </WidgetPanel>
+  );
+}
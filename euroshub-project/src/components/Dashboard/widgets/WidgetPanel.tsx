@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+
+interface WidgetPanelProps {
+  title: string;
+  action?: React.ReactNode;
+  loading?: boolean;
+  isEmpty?: boolean;
+  emptyMessage?: string;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+export default function WidgetPanel({
+  title,
+  action,
+  loading = false,
+  isEmpty = false,
+  emptyMessage = 'Nothing to show yet',
+  className = '',
+  children
+}: WidgetPanelProps) {
+  return (
+    <div className={`bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 overflow-hidden shadow rounded-lg ${className}`}>
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">
+            {title}
+          </h3>
+          {action}
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[0, 1, 2].map(i => (
+              <div key={i} className="h-12 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : isEmpty ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">{emptyMessage}</p>
+        ) : (
+          children
+        )}
+      </div>
+    </div>
+  );
+}
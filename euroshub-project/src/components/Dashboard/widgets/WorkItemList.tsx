@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Calendar, CheckSquare, CreditCard, Lock } from 'lucide-react';
+import { DashboardWorkItem } from '@/lib/dashboardService';
+
+const priorityClasses: Record<string, string> = {
+  low: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  medium: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  high: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300',
+  urgent: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const formatDueDate = (dueDate: string) =>
+  new Date(dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+interface WorkItemListProps {
+  items: DashboardWorkItem[];
+  baseUrl: string;
+}
+
+export default function WorkItemList({ items, baseUrl }: WorkItemListProps) {
+  return (
+    <ul className="space-y-3">
+      {items.map(item => {
+        const Icon = item.type === 'task' ? CheckSquare : CreditCard;
+        const content = (
+          <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700/60 transition-colors">
+            <div className="flex items-center space-x-3 min-w-0">
+              <Icon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate flex items-center gap-1.5">
+                  {item.isLocked && <Lock className="w-3 h-3 text-gray-400" />}
+                  {item.title}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {item.boardName}
+                  {item.type === 'task' && ` · ${item.cardTitle}`}
+                  {item.listName && ` · ${item.listName}`}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0 ml-3">
+              {item.priority && (
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium capitalize ${priorityClasses[item.priority] || priorityClasses.medium}`}>
+                  {item.priority}
+                </span>
+              )}
+              {item.dueDate && (
+                <span className={`inline-flex items-center gap-1 text-xs font-medium ${item.isOverdue ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                  <Calendar className="w-3 h-3" />
+                  {formatDueDate(item.dueDate)}
+                </span>
+              )}
+            </div>
+          </div>
+        );
+
+        return (
+          <li key={`${item.type}-${item._id}`}>
+            {item.boardId ? (
+              <Link href={`${baseUrl}/boards/${item.boardId}`}>{content}</Link>
+            ) : (
+              content
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
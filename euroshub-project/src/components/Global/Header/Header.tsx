@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect, memo } from 'react';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { 
   Search,
   Bell,
@@ -15,20 +15,18 @@ import {
   RefreshCw,
   HelpCircle,
   Calendar,
-  Clock,
-  X
+  Clock
 } from 'lucide-react';
 import { getRoleInfo, UserRole } from '../Sidebar/SidebarLinks';
 import { useAuth } from '@/hooks/useAuth';
+import { useSocketContext } from '@/contexts/SocketContext';
+import { notificationService, AppNotification } from '@/lib/notificationService';
+import NotificationItem, { getNotificationHref } from '@/components/Notifications/NotificationItem';
+import GlobalSearch from '../Search/GlobalSearch';
+import ActiveTimerIndicator from '@/components/boards/time/ActiveTimerIndicator';
+import toast from 'react-hot-toast';
 
-interface Notification {
-  id: number;
-  title: string;
-  message: string;
-  time: string;
-  type: 'info' | 'success' | 'warning' | 'error';
-  unread: boolean;
-}
+const HEADER_NOTIFICATION_LIMIT = 8;
 
 interface HeaderProps {
   onSidebarToggle?: () => void;
@@ -47,15 +45,17 @@ const Header = memo<HeaderProps>(({
   const [showUserMenu, setShowUserMenu] = useState<boolean>(false);
   const [showNotifications, setShowNotifications] = useState<boolean>(false);
   const [showSearch, setShowSearch] = useState<boolean>(false);
-  const [searchQuery, setSearchQuery] = useState<string>('');
   const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
   const [currentTime, setCurrentTime] = useState<Date>(new Date());
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState<number>(0);
 
   const userMenuRef = useRef<HTMLDivElement>(null);
   const notificationRef = useRef<HTMLDivElement>(null);
-  const searchRef = useRef<HTMLDivElement>(null);
   const pathname = usePathname();
+  const router = useRouter();
   const { user, logout: authLogout } = useAuth();
+  const { onNotification, onNotificationRead } = useSocketContext();
   
   const userRole = user?.role || 'employee';
   const userName = user ? `${user.firstName} ${user.lastName}` : 'Loading...';
@@ -82,44 +82,89 @@ const Header = memo<HeaderProps>(({
       if (notificationRef.current && !notificationRef.current.contains(target)) {
         setShowNotifications(false);
       }
-      if (searchRef.current && !searchRef.current.contains(target)) {
-        setShowSearch(false);
-      }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Mock notifications data
-  const notifications: Notification[] = [
-    {
-      id: 1,
-      title: 'New project assigned',
-      message: 'You have been assigned to Project Alpha',
-      time: '5 min ago',
-      type: 'info',
-      unread: true
-    },
-    {
-      id: 2,
-      title: 'Leave request approved',
-      message: 'Your vacation request has been approved',
-      time: '1 hour ago',
-      type: 'success',
-      unread: true
-    },
-    {
-      id: 3,
-      title: 'Team meeting reminder',
-      message: 'Daily standup in 15 minutes',
-      time: '2 hours ago',
-      type: 'warning',
-      unread: false
+  // Ctrl+K / Cmd+K opens search from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setShowSearch(true);
+        setShowUserMenu(false);
+        setShowNotifications(false);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Load the latest notifications once the user is known
+  useEffect(() => {
+    if (!user) return;
+
+    notificationService.getNotifications({ limit: HEADER_NOTIFICATION_LIMIT })
+      .then(result => {
+        setNotifications(result.notifications);
+        setUnreadCount(result.unreadCount);
+      })
+      .catch(error => console.error('Failed to load notifications:', error));
+  }, [user]);
+
+  // Live delivery over the socket
+  useEffect(() => {
+    const unsubscribeNew = onNotification((notification) => {
+      setNotifications(prev => [notification, ...prev.filter(n => n._id !== notification._id)].slice(0, HEADER_NOTIFICATION_LIMIT));
+      setUnreadCount(prev => prev + 1);
+      toast(notification.title, { icon: '🔔' });
+    });
+
+    const unsubscribeRead = onNotificationRead((notificationId) => {
+      setNotifications(prev => prev.map(n => n._id === notificationId ? { ...n, isRead: true } : n));
+      notificationService.getUnreadCount()
+        .then(setUnreadCount)
+        .catch(error => console.error('Failed to refresh unread count:', error));
+    });
+
+    return () => {
+      unsubscribeNew();
+      unsubscribeRead();
+    };
+  }, [onNotification, onNotificationRead]);
+
+  const handleNotificationClick = useCallback(async (notification: AppNotification) => {
+    setShowNotifications(false);
+
+    if (!notification.isRead) {
+      setNotifications(prev => prev.map(n => n._id === notification._id ? { ...n, isRead: true } : n));
+      setUnreadCount(prev => Math.max(0, prev - 1));
+      notificationService.markAsRead(notification._id)
+        .catch(error => console.error('Failed to mark notification as read:', error));
     }
-  ];
 
-  const unreadCount = notifications.filter(n => n.unread).length;
+    const href = getNotificationHref(notification, userRole);
+    if (href) router.push(href);
+  }, [router, userRole]);
+
+  const handleMarkAllRead = useCallback(async () => {
+    try {
+      await notificationService.markAllAsRead();
+      setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+      toast.error('Failed to mark notifications as read');
+    }
+  }, []);
+
+  const handleViewAllNotifications = useCallback(() => {
+    setShowNotifications(false);
+    router.push(`/${userRole}/notifications`);
+  }, [router, userRole]);
 
   const handleUserMenuToggle = useCallback(() => {
     setShowUserMenu(prev => !prev);
@@ -131,15 +176,15 @@ const Header = memo<HeaderProps>(({
     setShowUserMenu(false);
   }, []);
 
-  const handleSearchToggle = useCallback(() => {
-    setShowSearch(prev => !prev);
-    if (!showSearch) {
-      setTimeout(() => {
-        const input = searchRef.current?.querySelector('input');
-        input?.focus();
-      }, 100);
-    }
-  }, [showSearch]);
+  const handleSearchOpen = useCallback(() => {
+    setShowSearch(true);
+    setShowUserMenu(false);
+    setShowNotifications(false);
+  }, []);
+
+  const handleSearchClose = useCallback(() => {
+    setShowSearch(false);
+  }, []);
 
   const handleLogout = useCallback(() => {
     authLogout();
@@ -220,30 +265,24 @@ const Header = memo<HeaderProps>(({
 
         {/* Center Section - Search */}
         <div className="flex-1 max-w-xl mx-4 hidden md:block">
-          <div className="relative" ref={searchRef}>
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <button
+            onClick={handleSearchOpen}
+            className="relative w-full flex items-center pl-10 pr-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50/50 dark:bg-gray-800/70 hover:border-[#0fb8af] focus:outline-none focus:ring-2 focus:ring-[#0fb8af]/20 focus:border-[#0fb8af] transition-colors text-sm text-gray-400 text-left"
+          >
+            <span className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
               <Search size={16} className="text-gray-400 dark:text-gray-300" />
-            </div>
-            <input
-              type="text"
-              placeholder="Search anything..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50/50 dark:bg-gray-800/70 focus:outline-none focus:ring-2 focus:ring-[#0fb8af]/20 focus:border-[#0fb8af] transition-colors text-sm placeholder-gray-400 dark:placeholder-gray-400 text-gray-900 dark:text-gray-100"
-            />
-            {searchQuery && (
-              <button
-                onClick={() => setSearchQuery('')}
-                className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600 dark:text-gray-300 dark:hover:text-gray-100"
-              >
-                <X size={16} />
-              </button>
-            )}
-          </div>
+            </span>
+            <span className="flex-1">Search anything...</span>
+            <kbd className="hidden lg:inline-block px-1.5 py-0.5 rounded border border-gray-200 dark:border-gray-600 text-[10px] font-sans text-gray-400">
+              Ctrl K
+            </kbd>
+          </button>
         </div>
 
         {/* Right Section */}
         <div className="flex items-center space-x-2">
+          <ActiveTimerIndicator />
+
           {/* Date and Time */}
           <div className="hidden lg:flex items-center space-x-3 px-3 py-2 rounded-lg bg-gray-50/50 dark:bg-gray-800/70 text-sm">
             <div className="flex items-center space-x-2 text-gray-600 dark:text-gray-300">
@@ -258,7 +297,7 @@ const Header = memo<HeaderProps>(({
 
           {/* Mobile search toggle */}
           <button
-            onClick={handleSearchToggle}
+            onClick={handleSearchOpen}
             className="md:hidden flex items-center justify-center w-10 h-10 rounded-lg bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 transition-colors text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
           >
             <Search size={18} />
@@ -301,35 +340,41 @@ const Header = memo<HeaderProps>(({
               {/* Notifications dropdown */}
               {showNotifications && (
                 <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-900 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 py-2 z-50">
-                  <div className="px-4 py-2 border-b border-gray-100 dark:border-gray-800">
-                    <h3 className="font-semibold text-gray-900 dark:text-white">Notifications</h3>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">{unreadCount} unread</p>
+                  <div className="px-4 py-2 border-b border-gray-100 dark:border-gray-800 flex items-start justify-between">
+                    <div>
+                      <h3 className="font-semibold text-gray-900 dark:text-white">Notifications</h3>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{unreadCount} unread</p>
+                    </div>
+                    {unreadCount > 0 && (
+                      <button
+                        onClick={handleMarkAllRead}
+                        className="text-xs text-[#0fb8af] hover:text-[#0a9d96] font-medium"
+                      >
+                        Mark all as read
+                      </button>
+                    )}
                   </div>
                   <div className="max-h-80 overflow-y-auto">
-                    {notifications.map((notification) => (
-                      <div
-                        key={notification.id}
-                        className={`px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer border-l-2 ${
-                          notification.unread 
-                            ? 'border-l-[#0fb8af] bg-blue-50/30' 
-                            : 'border-l-transparent'
-                        }`}
-                      >
-                        <div className="flex justify-between items-start">
-                          <div className="flex-1">
-                            <p className="text-sm font-medium text-gray-900 dark:text-white">{notification.title}</p>
-                            <p className="text-xs text-gray-600 dark:text-gray-300 mt-1">{notification.message}</p>
-                          </div>
-                          {notification.unread && (
-                            <div className="w-2 h-2 bg-[#0fb8af] rounded-full mt-1" />
-                          )}
-                        </div>
-                        <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">{notification.time}</p>
-                      </div>
-                    ))}
+                    {notifications.length === 0 ? (
+                      <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                        You&apos;re all caught up
+                      </p>
+                    ) : (
+                      notifications.map((notification) => (
+                        <NotificationItem
+                          key={notification._id}
+                          notification={notification}
+                          onClick={handleNotificationClick}
+                          compact
+                        />
+                      ))
+                    )}
                   </div>
                   <div className="px-4 py-2 border-t border-gray-100 dark:border-gray-800">
-                    <button className="w-full text-sm text-[#0fb8af] hover:text-[#0a9d96] font-medium">
+                    <button
+                      onClick={handleViewAllNotifications}
+                      className="w-full text-sm text-[#0fb8af] hover:text-[#0a9d96] font-medium"
+                    >
                       View all notifications
                     </button>
                   </div>
@@ -408,30 +453,11 @@ const Header = memo<HeaderProps>(({
         </div>
       </div>
 
-      {/* Mobile search */}
-      {showSearch && (
-        <div className="md:hidden border-t border-gray-200 p-4 bg-white">
-          <div className="relative">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <Search size={16} className="text-gray-400" />
-            </div>
-            <input
-              type="text"
-              placeholder="Search anything..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full pl-10 pr-10 py-2 border border-gray-200 rounded-lg bg-gray-50/50 focus:outline-none focus:ring-2 focus:ring-[#0fb8af]/20 focus:border-[#0fb8af] transition-colors text-sm placeholder-gray-400"
-              autoFocus
-            />
-            <button
-              onClick={handleSearchToggle}
-              className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
-            >
-              <X size={16} />
-            </button>
-          </div>
-        </div>
-      )}
+      <GlobalSearch
+        isOpen={showSearch}
+        onClose={handleSearchClose}
+        userRole={userRole}
+      />
     </header>
   );
 });
@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo, Fragment } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Search,
+  X,
+  Loader2,
+  LayoutGrid,
+  CreditCard,
+  CheckSquare,
+  ListChecks,
+  MessageSquare,
+  Paperclip,
+  CornerDownLeft
+} from 'lucide-react';
+import Portal from '@/components/shared/Portal';
+import {
+  searchService,
+  searchGroupLabels,
+  getSearchResultHref,
+  SearchResponse,
+  SearchResult,
+  SearchResultGroup,
+  SearchResultType,
+  SEARCH_MIN_QUERY_LENGTH
+} from '@/lib/searchService';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const GROUP_ORDER: SearchResultGroup[] = ['boards', 'cards', 'tasks', 'comments', 'files'];
+
+const typeIcons: Record<SearchResultType, typeof Search> = {
+  board: LayoutGrid,
+  card: CreditCard,
+  task: CheckSquare,
+  subtask: ListChecks,
+  comment: MessageSquare,
+  file: Paperclip
+};
+
+interface GlobalSearchProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userRole: string;
+}
+
+// Wrap the matched part of the text so it stands out
+const Highlight = ({ text, query }: { text: string; query: string }) => {
+  const index = query ? text.toLowerCase().indexOf(query.toLowerCase()) : -1;
+  if (index === -1) return <>{text}</>;
+
+  return (
+    <>
+      {text.slice(0, index)}
+      <mark className="bg-[#0fb8af]/20 text-inherit rounded-sm">{text.slice(index, index + query.length)}</mark>
+      {text.slice(index + query.length)}
+    </>
+  );
+};
+
+const getResultContext = (result: SearchResult) => {
+  if (result.type === 'board') return 'Board';
+  if (result.type === 'comment' && result.author) {
+    return `${result.author.firstName} ${result.author.lastName} on ${result.cardTitle} · ${result.boardName}`;
+  }
+  if (result.type === 'card') return result.boardName;
+  return `${result.cardTitle} · ${result.boardName}`;
+};
+
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ isOpen, onClose, userRole }) => {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Start from a clean palette every time it opens
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setResponse(null);
+      setError(null);
+      setActiveIndex(0);
+      setTimeout(() => inputRef.current?.focus(), 50);
+    }
+  }, [isOpen]);
+
+  // Debounced search, cancelling the previous request when the query changes
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < SEARCH_MIN_QUERY_LENGTH) {
+      setResponse(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    const timer = setTimeout(() => {
+      searchService.search(trimmed, { signal: controller.signal })
+        .then(data => {
+          setResponse(data);
+          setError(null);
+          setActiveIndex(0);
+          setIsSearching(false);
+        })
+        .catch(err => {
+          if (controller.signal.aborted) return;
+          console.error('Search failed:', err);
+          setError(err instanceof Error ? err.message : 'Failed to search');
+          setIsSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const flatResults = useMemo(
+    () => (response ? GROUP_ORDER.flatMap(group => response.results[group] || []) : []),
+    [response]
+  );
+
+  // Keep the highlighted result in view while using the arrow keys
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-result-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const openResult = (result: SearchResult) => {
+    onClose();
+    router.push(getSearchResultHref(result, userRole));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown' && flatResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev + 1) % flatResults.length);
+    } else if (e.key === 'ArrowUp' && flatResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev - 1 + flatResults.length) % flatResults.length);
+    } else if (e.key === 'Enter' && flatResults[activeIndex]) {
+      e.preventDefault();
+      openResult(flatResults[activeIndex]);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const trimmedQuery = query.trim();
+  let resultIndex = -1;
+
+  return (
+    <Portal>
+      <div
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-[10vh] animate-in fade-in duration-200"
+        onMouseDown={(e) => e.target === e.currentTarget && onClose()}
+      >
+        <div
+          className="bg-white dark:bg-gray-900 rounded-lg shadow-2xl w-full max-w-2xl overflow-hidden border border-gray-200 dark:border-gray-800 animate-in slide-in-from-top-4 duration-200"
+          onKeyDown={handleKeyDown}
+        >
+          {/* Search input */}
+          <div className="flex items-center gap-3 px-4 border-b border-gray-200 dark:border-gray-800">
+            {isSearching ? (
+              <Loader2 size={18} className="text-[#0fb8af] animate-spin flex-shrink-0" />
+            ) : (
+              <Search size={18} className="text-gray-400 flex-shrink-0" />
+            )}
+            <input
+              ref={inputRef}
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search boards, cards, tasks, comments and files..."
+              maxLength={100}
+              className="flex-1 py-4 bg-transparent text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 focus:outline-none"
+            />
+            <button
+              onClick={onClose}
+              className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              <X size={16} className="text-gray-500 dark:text-gray-400" />
+            </button>
+          </div>
+
+          {/* Results */}
+          <div ref={listRef} className="max-h-[60vh] overflow-y-auto">
+            {trimmedQuery.length < SEARCH_MIN_QUERY_LENGTH ? (
+              <div className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                Type at least {SEARCH_MIN_QUERY_LENGTH} characters to search
+              </div>
+            ) : error ? (
+              <div className="px-4 py-8 text-center text-sm text-red-500">{error}</div>
+            ) : response && response.total === 0 && !isSearching ? (
+              <div className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                No results for &quot;{response.query}&quot;
+              </div>
+            ) : response && (
+              <div className="py-2">
+                {GROUP_ORDER.map(group => {
+                  const groupResults = response.results[group] || [];
+                  if (groupResults.length === 0) return null;
+
+                  return (
+                    <Fragment key={group}>
+                      <div className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500">
+                        {searchGroupLabels[group]}
+                      </div>
+                      {groupResults.map(result => {
+                        resultIndex += 1;
+                        const index = resultIndex;
+                        const Icon = typeIcons[result.type];
+                        const isActive = index === activeIndex;
+
+                        return (
+                          <button
+                            key={`${result.type}-${result.id}`}
+                            data-result-index={index}
+                            onClick={() => openResult(result)}
+                            onMouseMove={() => !isActive && setActiveIndex(index)}
+                            className={`w-full flex items-start gap-3 px-4 py-2.5 text-left transition-colors ${
+                              isActive ? 'bg-gray-100 dark:bg-gray-800' : ''
+                            }`}
+                          >
+                            <div className="flex-shrink-0 w-8 h-8 rounded-lg flex items-center justify-center bg-[#0fb8af]/10 text-[#0fb8af]">
+                              <Icon size={16} />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                                <Highlight text={result.title} query={trimmedQuery} />
+                              </p>
+                              {result.snippet && (
+                                <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2">
+                                  <Highlight text={result.snippet} query={trimmedQuery} />
+                                </p>
+                              )}
+                              <p className="text-xs text-gray-400 dark:text-gray-500 truncate">
+                                {getResultContext(result)}
+                              </p>
+                            </div>
+                            {isActive && (
+                              <CornerDownLeft size={14} className="flex-shrink-0 mt-2 text-gray-400" />
+                            )}
+                          </button>
+                        );
+                      })}
+                    </Fragment>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center gap-4 px-4 py-2 border-t border-gray-200 dark:border-gray-800 text-xs text-gray-400 dark:text-gray-500">
+            <span>↑↓ to navigate</span>
+            <span>Enter to open</span>
+            <span>Esc to close</span>
+          </div>
+        </div>
+      </div>
+    </Portal>
+  );
+};
+
+export default GlobalSearch;
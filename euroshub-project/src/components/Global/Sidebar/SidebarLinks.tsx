@@ -9,6 +9,10 @@ import {
   User,
   FolderKanban,
   Kanban,
+  CalendarDays,
+  Clock,
+  ClipboardCheck,
+  Network,
   LucideIcon
 } from 'lucide-react';
 
@@ -72,7 +76,9 @@ export const navigationLinks: Record<UserRole, NavigationItem[]> = {
       path: '/superadmin/project-management',
       description: 'Manage all projects and tasks',
       subItems: [
-        { title: 'Boards', path: '/superadmin/boards', icon: Kanban }
+        { title: 'Boards', path: '/superadmin/boards', icon: Kanban },
+        { title: 'My Calendar', path: '/superadmin/calendar', icon: CalendarDays },
+        { title: 'My Timesheet', path: '/superadmin/timesheet', icon: Clock }
       ]
     },
     {
@@ -103,6 +109,7 @@ export const navigationLinks: Record<UserRole, NavigationItem[]> = {
       description: 'Manage company users',
       subItems: [
         { title: 'All Users', path: '/admin/user-management', icon: Users },
+        { title: 'Organization', path: '/admin/organization', icon: Network },
       ]
     },
     {
@@ -111,7 +118,9 @@ export const navigationLinks: Record<UserRole, NavigationItem[]> = {
       path: '/admin/project-management',
       description: 'Manage company projects and tasks',
       subItems: [
-        { title: 'Boards', path: '/admin/boards', icon: Kanban }
+        { title: 'Boards', path: '/admin/boards', icon: Kanban },
+        { title: 'My Calendar', path: '/admin/calendar', icon: CalendarDays },
+        { title: 'My Timesheet', path: '/admin/timesheet', icon: Clock }
       ]
     },
     {
@@ -135,7 +144,8 @@ export const navigationLinks: Record<UserRole, NavigationItem[]> = {
       path: '/client/project-management',
       description: 'View and track your projects',
       subItems: [
-        { title: 'Boards', path: '/client/boards', icon: Kanban }
+        { title: 'Boards', path: '/client/boards', icon: Kanban },
+        { title: 'My Calendar', path: '/client/calendar', icon: CalendarDays }
       ]
     },
     {
@@ -160,6 +170,8 @@ export const navigationLinks: Record<UserRole, NavigationItem[]> = {
       description: 'Manage employees',
       subItems: [
         { title: 'All Employees', path: '/hr/user-management', icon: Users },
+        { title: 'Organization', path: '/hr/organization', icon: Network },
+        { title: 'Timesheets', path: '/hr/timesheets', icon: ClipboardCheck },
       ]
     },
     {
@@ -168,7 +180,9 @@ export const navigationLinks: Record<UserRole, NavigationItem[]> = {
       path: '/hr/project-management',
       description: 'Oversee team projects and resource allocation',
       subItems: [
-        { title: 'Boards', path: '/hr/boards', icon: Kanban }
+        { title: 'Boards', path: '/hr/boards', icon: Kanban },
+        { title: 'My Calendar', path: '/hr/calendar', icon: CalendarDays },
+        { title: 'My Timesheet', path: '/hr/timesheet', icon: Clock }
       ]
     },
     {
@@ -192,7 +206,9 @@ export const navigationLinks: Record<UserRole, NavigationItem[]> = {
       path: '/employee/project-management',
       description: 'Manage assigned tasks and projects',
       subItems: [
-        { title: 'Boards', path: '/employee/boards', icon: Kanban }
+        { title: 'Boards', path: '/employee/boards', icon: Kanban },
+        { title: 'My Calendar', path: '/employee/calendar', icon: CalendarDays },
+        { title: 'My Timesheet', path: '/employee/timesheet', icon: Clock }
       ]
     },
     {
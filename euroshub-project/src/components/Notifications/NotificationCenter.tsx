@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Bell, CheckCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useSocketContext } from '@/contexts/SocketContext';
+import {
+  notificationService,
+  notificationTypeLabels,
+  AppNotification,
+  NotificationType
+} from '@/lib/notificationService';
+import { UserRole } from '@/components/Global/Sidebar/SidebarLinks';
+import NotificationItem, { getNotificationHref } from './NotificationItem';
+
+const PAGE_SIZE = 20;
+
+interface NotificationCenterProps {
+  role: UserRole;
+}
+
+export default function NotificationCenter({ role }: NotificationCenterProps) {
+  const router = useRouter();
+  const { onNotification, onNotificationRead } = useSocketContext();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [total, setTotal] = useState(0);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [typeFilter, setTypeFilter] = useState<NotificationType | 'all'>('all');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const loadNotifications = useCallback(async (skip = 0) => {
+    try {
+      if (skip === 0) setLoading(true);
+      else setLoadingMore(true);
+
+      const result = await notificationService.getNotifications({
+        limit: PAGE_SIZE,
+        skip,
+        types: typeFilter === 'all' ? undefined : [typeFilter],
+        unreadOnly
+      });
+
+      setNotifications(prev => (skip === 0 ? result.notifications : [...prev, ...result.notifications]));
+      setTotal(result.total);
+      setUnreadCount(result.unreadCount);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+      toast.error('Failed to load notifications');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [typeFilter, unreadOnly]);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  // Live delivery: prepend new notifications that match the current filter
+  useEffect(() => {
+    const unsubscribeNew = onNotification((notification) => {
+      setUnreadCount(prev => prev + 1);
+      if (typeFilter !== 'all' && notification.type !== typeFilter) return;
+      setNotifications(prev => [notification, ...prev.filter(n => n._id !== notification._id)]);
+      setTotal(prev => prev + 1);
+    });
+
+    const unsubscribeRead = onNotificationRead((notificationId) => {
+      setNotifications(prev => prev.map(n => n._id === notificationId ? { ...n, isRead: true } : n));
+    });
+
+    return () => {
+      unsubscribeNew();
+      unsubscribeRead();
+    };
+  }, [onNotification, onNotificationRead, typeFilter]);
+
+  const handleNotificationClick = async (notification: AppNotification) => {
+    if (!notification.isRead) {
+      try {
+        await notificationService.markAsRead(notification._id);
+        setNotifications(prev => prev.map(n => n._id === notification._id ? { ...n, isRead: true } : n));
+        setUnreadCount(prev => Math.max(0, prev - 1));
+      } catch (error) {
+        console.error('Error marking notification as read:', error);
+      }
+    }
+
+    const href = getNotificationHref(notification, role);
+    if (href) router.push(href);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationService.markAllAsRead();
+      setNotifications(prev => (unreadOnly ? [] : prev.map(n => ({ ...n, isRead: true }))));
+      setUnreadCount(0);
+      toast.success('All notifications marked as read');
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast.error('Failed to mark notifications as read');
+    }
+  };
+
+  const filterButtonClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+      active
+        ? 'bg-[#0fb8af] text-white'
+        : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+    }`;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 overflow-hidden shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6 border-b border-gray-200 dark:border-gray-800">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">All Notifications</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{unreadCount} unread</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setUnreadOnly(prev => !prev)}
+              className={filterButtonClass(unreadOnly)}
+            >
+              Unread only
+            </button>
+            <button
+              onClick={handleMarkAllRead}
+              disabled={unreadCount === 0}
+              className="px-3 py-1.5 rounded-lg text-sm font-medium text-[#0fb8af] hover:bg-[#0fb8af]/10 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5 transition-colors"
+            >
+              <CheckCheck size={16} />
+              Mark all as read
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-4">
+          <button onClick={() => setTypeFilter('all')} className={filterButtonClass(typeFilter === 'all')}>
+            All
+          </button>
+          {(Object.keys(notificationTypeLabels) as NotificationType[]).map(type => (
+            <button key={type} onClick={() => setTypeFilter(type)} className={filterButtonClass(typeFilter === type)}>
+              {notificationTypeLabels[type]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-6 space-y-3">
+          {[0, 1, 2, 3].map(i => (
+            <div key={i} className="h-16 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : notifications.length === 0 ? (
+        <div className="py-16 text-center">
+          <Bell className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-3" />
+          <p className="text-gray-500 dark:text-gray-400">No notifications to show</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100 dark:divide-gray-800">
+          {notifications.map(notification => (
+            <NotificationItem
+              key={notification._id}
+              notification={notification}
+              onClick={handleNotificationClick}
+            />
+          ))}
+        </div>
+      )}
+
+      {!loading && notifications.length < total && (
+        <div className="px-4 py-3 border-t border-gray-100 dark:border-gray-800 text-center">
+          <button
+            onClick={() => loadNotifications(notifications.length)}
+            disabled={loadingMore}
+            className="text-sm text-[#0fb8af] hover:text-[#0a9d96] font-medium disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
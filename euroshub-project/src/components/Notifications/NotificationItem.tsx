@@ -0,0 +1,89 @@
+'use client';
+
+import React from 'react';
+import { AtSign, Bell, CheckSquare, Clock, ClipboardCheck, LayoutGrid, MessageSquareQuote, Unlock, UserPlus } from 'lucide-react';
+import { AppNotification, NotificationType } from '@/lib/notificationService';
+
+const typeIcons: Record<NotificationType, React.ComponentType<{ size?: number; className?: string }>> = {
+  task_assigned: CheckSquare,
+  card_assigned: UserPlus,
+  mention: AtSign,
+  due_soon: Clock,
+  task_unlocked: Unlock,
+  board_invite: LayoutGrid,
+  timesheet_reviewed: ClipboardCheck,
+  client_feedback: MessageSquareQuote,
+};
+
+const typeColors: Record<NotificationType, string> = {
+  task_assigned: 'text-blue-600 bg-blue-50 dark:bg-blue-900/20 dark:text-blue-400',
+  card_assigned: 'text-purple-600 bg-purple-50 dark:bg-purple-900/20 dark:text-purple-400',
+  mention: 'text-[#0fb8af] bg-[#0fb8af]/10',
+  due_soon: 'text-yellow-600 bg-yellow-50 dark:bg-yellow-900/20 dark:text-yellow-400',
+  task_unlocked: 'text-green-600 bg-green-50 dark:bg-green-900/20 dark:text-green-400',
+  board_invite: 'text-gray-600 bg-gray-100 dark:bg-gray-800 dark:text-gray-300',
+  timesheet_reviewed: 'text-teal-600 bg-teal-50 dark:bg-teal-900/20 dark:text-teal-400',
+  client_feedback: 'text-amber-600 bg-amber-50 dark:bg-amber-900/20 dark:text-amber-400',
+};
+
+export const formatNotificationTime = (date: string): string => {
+  const diffMinutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (diffMinutes < 1) return 'Just now';
+  if (diffMinutes < 60) return `${diffMinutes} min ago`;
+  const diffHours = Math.floor(diffMinutes / 60);
+  if (diffHours < 24) return `${diffHours} hour${diffHours === 1 ? '' : 's'} ago`;
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `${diffDays} day${diffDays === 1 ? '' : 's'} ago`;
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+// Where a notification should take the user, relative to their role's area
+export const getNotificationHref = (notification: AppNotification, role: string): string | null => {
+  if (notification.type === 'timesheet_reviewed') return `/${role}/timesheet`;
+  if (!notification.board?._id) return null;
+  return `/${role}/boards/${notification.board._id}`;
+};
+
+interface NotificationItemProps {
+  notification: AppNotification;
+  onClick?: (notification: AppNotification) => void;
+  compact?: boolean;
+}
+
+export default function NotificationItem({ notification, onClick, compact = false }: NotificationItemProps) {
+  const Icon = typeIcons[notification.type] || Bell;
+
+  return (
+    <div
+      onClick={() => onClick?.(notification)}
+      className={`px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer border-l-2 ${
+        !notification.isRead
+          ? 'border-l-[#0fb8af] bg-blue-50/30 dark:bg-blue-900/10'
+          : 'border-l-transparent'
+      }`}
+    >
+      <div className="flex items-start gap-3">
+        <div className={`flex-shrink-0 w-8 h-8 rounded-lg flex items-center justify-center ${typeColors[notification.type]}`}>
+          <Icon size={16} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex justify-between items-start gap-2">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">{notification.title}</p>
+            {!notification.isRead && (
+              <div className="w-2 h-2 bg-[#0fb8af] rounded-full mt-1.5 flex-shrink-0" />
+            )}
+          </div>
+          {notification.message && (
+            <p className={`text-xs text-gray-600 dark:text-gray-300 mt-1 ${compact ? 'line-clamp-2' : ''}`}>
+              {notification.message}
+            </p>
+          )}
+          <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">
+            {formatNotificationTime(notification.createdAt)}
+            {!compact && notification.board?.name && ` · ${notification.board.name}`}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
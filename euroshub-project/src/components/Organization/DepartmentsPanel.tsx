@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Building2, Crown, Edit3, Plus, Trash2, Users, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { organizationService, Department, DepartmentInput, OrgChartPerson } from '@/lib/organizationService';
+
+interface DepartmentsPanelProps {
+  departments: Department[];
+  people: OrgChartPerson[];
+  canManage: boolean;
+  onChange: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-[#17b6b2] focus:border-transparent';
+
+export default function DepartmentsPanel({ departments, people, canManage, onChange }: DepartmentsPanelProps) {
+  // null while closed; 'new' for the create form
+  const [editing, setEditing] = useState<Department | 'new' | null>(null);
+  const [form, setForm] = useState<DepartmentInput>({ name: '', description: '', head: '' });
+  const [saving, setSaving] = useState(false);
+
+  const openForm = (department: Department | 'new') => {
+    setEditing(department);
+    setForm(department === 'new'
+      ? { name: '', description: '', head: '' }
+      : { name: department.name, description: department.description, head: department.head?._id || '' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !form.name.trim()) return;
+
+    setSaving(true);
+    try {
+      const input = { ...form, name: form.name.trim(), head: form.head || null };
+      if (editing === 'new') {
+        await organizationService.createDepartment(input);
+        toast.success('Department created successfully');
+      } else {
+        await organizationService.updateDepartment(editing._id, input);
+        toast.success('Department updated successfully');
+      }
+      setEditing(null);
+      onChange();
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save department');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (department: Department) => {
+    if (!confirm(`Delete the department "${department.name}" and its positions?`)) return;
+
+    try {
+      await organizationService.deleteDepartment(department._id);
+      toast.success('Department deleted successfully');
+      onChange();
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete department');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {departments.length} department{departments.length === 1 ? '' : 's'}. Renaming a department renames it for everyone in it.
+        </p>
+        {canManage && (
+          <button
+            onClick={() => openForm('new')}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-[#17b6b2] text-white font-medium rounded-lg hover:bg-[#15a09d] transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New Department
+          </button>
+        )}
+      </div>
+
+      {departments.length === 0 ? (
+        <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-8 text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-lg flex items-center justify-center border border-gray-200 dark:border-gray-700">
+            <Building2 className="w-8 h-8 text-[#17b6b2]" strokeWidth={1.5} />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No departments yet</h3>
+          <p className="text-gray-600 dark:text-gray-400">Add departments so users can be placed in them.</p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg divide-y divide-gray-200 dark:divide-gray-800">
+          {departments.map(department => (
+            <div key={department._id} className="flex items-center gap-4 p-4">
+              <div className="w-10 h-10 rounded-lg flex items-center justify-center border border-gray-200 dark:border-gray-700 flex-shrink-0">
+                <Building2 className="w-5 h-5 text-[#17b6b2]" strokeWidth={1.5} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 dark:text-white">{department.name}</p>
+                {department.description && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{department.description}</p>
+                )}
+              </div>
+              <div className="hidden sm:flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400 w-48">
+                <Crown className="w-4 h-4 text-amber-500" />
+                {department.head ? `${department.head.firstName} ${department.head.lastName}` : 'No head'}
+              </div>
+              <div className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400 w-20">
+                <Users className="w-4 h-4" />
+                {department.userCount}
+              </div>
+              {canManage && (
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => openForm(department)}
+                    className="p-1.5 text-gray-400 hover:text-[#17b6b2]"
+                    title="Edit department"
+                  >
+                    <Edit3 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(department)}
+                    className="p-1.5 text-gray-400 hover:text-red-600"
+                    title="Delete department"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-900 rounded-lg shadow-xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                {editing === 'new' ? 'New Department' : 'Edit Department'}
+              </h2>
+              <button type="button" onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  maxLength={100}
+                  required
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  maxLength={500}
+                  rows={2}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Head of Department</label>
+                <select
+                  value={form.head || ''}
+                  onChange={(e) => setForm({ ...form, head: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">No head</option>
+                  {people.map(person => (
+                    <option key={person.id} value={person.id}>
+                      {person.firstName} {person.lastName}{person.department ? ` (${person.department})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-800">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                disabled={saving}
+                className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving || !form.name.trim()}
+                className="px-4 py-2 text-sm bg-[#17b6b2] hover:bg-[#15a09d] text-white rounded-lg disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editing === 'new' ? 'Create Department' : 'Save Changes'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
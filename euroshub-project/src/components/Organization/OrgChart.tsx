@@ -0,0 +1,232 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Crown, Network, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { organizationService, OrgChart as OrgChartData, OrgChartPerson } from '@/lib/organizationService';
+import { User as AuthUser } from '@/lib/auth';
+
+interface OrgChartProps {
+  chart: OrgChartData;
+  currentUser: AuthUser;
+  onChartChange: (chart: OrgChartData) => void;
+}
+
+// Same reach as editing users: HR only edits employees, and only superadmins edit superadmins
+const canEditReportingLine = (currentUser: AuthUser, person: OrgChartPerson) => {
+  if (currentUser.role === 'hr') return person.role === 'employee';
+  if (person.role === 'superadmin') return currentUser.role === 'superadmin';
+  return true;
+};
+
+const initials = (person: OrgChartPerson) => `${person.firstName.charAt(0)}${person.lastName.charAt(0)}`;
+
+export default function OrgChart({ chart, currentUser, onChartChange }: OrgChartProps) {
+  const [departmentFilter, setDepartmentFilter] = useState('all');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const headIds = new Set(chart.departments.flatMap(department => (department.head ? [department.head._id] : [])));
+  const people = departmentFilter === 'all'
+    ? chart.people
+    : chart.people.filter(person => (departmentFilter === 'none' ? !person.department : person.department === departmentFilter));
+  const visibleIds = new Set(people.map(person => person.id));
+
+  // Anyone whose manager is outside the current view starts a tree of their own
+  const reportsByManager = people.reduce<Record<string, OrgChartPerson[]>>((groups, person) => {
+    const managerId = person.reportsTo && visibleIds.has(person.reportsTo) ? person.reportsTo : 'root';
+    (groups[managerId] = groups[managerId] || []).push(person);
+    return groups;
+  }, {});
+  const roots = reportsByManager.root || [];
+  const selected = chart.people.find(person => person.id === selectedId) || null;
+
+  const toggleCollapsed = (personId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(personId)) {
+        next.delete(personId);
+      } else {
+        next.add(personId);
+      }
+      return next;
+    });
+  };
+
+  const handleChangeManager = async (person: OrgChartPerson, reportsTo: string | null) => {
+    setSaving(true);
+    try {
+      await organizationService.updateReportsTo(person.id, reportsTo);
+      onChartChange({
+        ...chart,
+        people: chart.people.map(item => (item.id === person.id ? { ...item, reportsTo } : item))
+      });
+      toast.success('Reporting line updated');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update reporting line');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderPerson = (person: OrgChartPerson): React.ReactNode => {
+    const reports = reportsByManager[person.id] || [];
+    const isCollapsed = collapsed.has(person.id);
+
+    return (
+      <div className="flex flex-col items-center">
+        <div
+          onClick={() => setSelectedId(person.id)}
+          className={`relative w-48 p-3 bg-white dark:bg-gray-900 border rounded-lg cursor-pointer transition-colors ${
+            selectedId === person.id
+              ? 'border-[#17b6b2] ring-2 ring-[#17b6b2]/20'
+              : 'border-gray-200 dark:border-gray-700 hover:border-[#17b6b2]/50'
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            <div className="w-9 h-9 rounded-full overflow-hidden flex-shrink-0 bg-gray-200 dark:bg-gray-700 flex items-center justify-center">
+              {person.avatar ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={person.avatar} alt={`${person.firstName} ${person.lastName}`} className="w-full h-full object-cover" />
+              ) : (
+                <span className="text-xs font-semibold text-gray-600 dark:text-gray-300">{initials(person)}</span>
+              )}
+            </div>
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 dark:text-white truncate flex items-center gap-1">
+                {person.firstName} {person.lastName}
+                {headIds.has(person.id) && <Crown className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{person.position || 'No position'}</p>
+            </div>
+          </div>
+          {person.department && (
+            <p className="mt-2 text-[11px] text-[#17b6b2] truncate">{person.department}</p>
+          )}
+          {reports.length > 0 && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleCollapsed(person.id);
+              }}
+              className="absolute -bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-0.5 px-1.5 py-0.5 text-[10px] bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-full text-gray-600 dark:text-gray-300"
+              title={isCollapsed ? 'Show reports' : 'Hide reports'}
+            >
+              {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              {reports.length}
+            </button>
+          )}
+        </div>
+
+        {reports.length > 0 && !isCollapsed && (
+          <>
+            <div className="w-px h-6 bg-gray-300 dark:bg-gray-600" />
+            <div className="flex">
+              {reports.map((report, index) => (
+                <div key={report.id} className="relative flex flex-col items-center px-3 pt-5">
+                  {reports.length > 1 && (
+                    <div
+                      className={`absolute top-0 h-px bg-gray-300 dark:bg-gray-600 ${
+                        index === 0 ? 'left-1/2 right-0' : index === reports.length - 1 ? 'left-0 right-1/2' : 'left-0 right-0'
+                      }`}
+                    />
+                  )}
+                  <div className="absolute top-0 left-1/2 w-px h-5 bg-gray-300 dark:bg-gray-600" />
+                  {renderPerson(report)}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {people.length} {people.length === 1 ? 'person' : 'people'}. Select someone to see their details or change who they report to.
+        </p>
+        <select
+          value={departmentFilter}
+          onChange={(e) => setDepartmentFilter(e.target.value)}
+          className="px-3 py-2 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#17b6b2]"
+        >
+          <option value="all">All Departments</option>
+          {chart.departments.map(department => (
+            <option key={department._id} value={department.name}>{department.name}</option>
+          ))}
+          <option value="none">No Department</option>
+        </select>
+      </div>
+
+      <div className="flex gap-4 items-start">
+        <div className="flex-1 min-w-0 bg-gray-50 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-800 rounded-lg p-6 overflow-auto">
+          {roots.length === 0 ? (
+            <div className="py-10 text-center">
+              <Network className="w-8 h-8 mx-auto text-gray-300 dark:text-gray-600 mb-2" />
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nobody to show</p>
+            </div>
+          ) : (
+            <div className="flex gap-10 w-max mx-auto">
+              {roots.map(root => (
+                <div key={root.id}>{renderPerson(root)}</div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {selected && (
+          <div className="w-72 flex-shrink-0 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-5 space-y-4">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <h3 className="font-semibold text-gray-900 dark:text-white truncate">{selected.firstName} {selected.lastName}</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{selected.email}</p>
+              </div>
+              <button onClick={() => setSelectedId(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <dl className="text-sm space-y-2">
+              <div className="flex justify-between gap-2">
+                <dt className="text-gray-500 dark:text-gray-400">Department</dt>
+                <dd className="text-gray-900 dark:text-white text-right">{selected.department || '—'}</dd>
+              </div>
+              <div className="flex justify-between gap-2">
+                <dt className="text-gray-500 dark:text-gray-400">Position</dt>
+                <dd className="text-gray-900 dark:text-white text-right">{selected.position || '—'}</dd>
+              </div>
+              <div className="flex justify-between gap-2">
+                <dt className="text-gray-500 dark:text-gray-400">Direct reports</dt>
+                <dd className="text-gray-900 dark:text-white">{chart.people.filter(person => person.reportsTo === selected.id).length}</dd>
+              </div>
+            </dl>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Reports to</label>
+              <select
+                value={selected.reportsTo || ''}
+                onChange={(e) => handleChangeManager(selected, e.target.value || null)}
+                disabled={saving || !canEditReportingLine(currentUser, selected)}
+                className="w-full px-3 py-2 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-900 dark:text-white disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-[#17b6b2]"
+              >
+                <option value="">No manager</option>
+                {chart.people.filter(person => person.id !== selected.id).map(person => (
+                  <option key={person.id} value={person.id}>
+                    {person.firstName} {person.lastName}{person.position ? ` (${person.position})` : ''}
+                  </option>
+                ))}
+              </select>
+              {!canEditReportingLine(currentUser, selected) && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">You can&apos;t change this person&apos;s reporting line.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
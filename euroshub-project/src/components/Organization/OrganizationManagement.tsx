@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Network, Building2, Briefcase } from 'lucide-react';
+import { organizationService, Department, Position, OrgChart as OrgChartData } from '@/lib/organizationService';
+import { User as AuthUser } from '@/lib/auth';
+import OrgChart from './OrgChart';
+import DepartmentsPanel from './DepartmentsPanel';
+import PositionsPanel from './PositionsPanel';
+
+interface OrganizationManagementProps {
+  currentUser: AuthUser;
+}
+
+type OrganizationTab = 'chart' | 'departments' | 'positions';
+
+const TABS: Array<{ key: OrganizationTab; label: string; icon: typeof Network }> = [
+  { key: 'chart', label: 'Org Chart', icon: Network },
+  { key: 'departments', label: 'Departments', icon: Building2 },
+  { key: 'positions', label: 'Positions', icon: Briefcase }
+];
+
+export default function OrganizationManagement({ currentUser }: OrganizationManagementProps) {
+  const [activeTab, setActiveTab] = useState<OrganizationTab>('chart');
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [chart, setChart] = useState<OrgChartData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManage = ['superadmin', 'admin', 'hr'].includes(currentUser.role);
+
+  useEffect(() => {
+    loadOrganization();
+  }, []);
+
+  const loadOrganization = async () => {
+    try {
+      setError(null);
+      const [fetchedDepartments, fetchedPositions, fetchedChart] = await Promise.all([
+        organizationService.getDepartments(),
+        organizationService.getPositions(),
+        organizationService.getOrgChart()
+      ]);
+      setDepartments(fetchedDepartments);
+      setPositions(fetchedPositions);
+      setChart(fetchedChart);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load organization');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-2 border-[#17b6b2]/30 border-t-[#17b6b2] rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (error || !chart) {
+    return (
+      <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-8 text-center">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Failed to load organization</h3>
+        <p className="text-gray-600 dark:text-gray-400 mb-4">{error}</p>
+        <button
+          onClick={loadOrganization}
+          className="px-4 py-2 text-sm bg-[#17b6b2] hover:bg-[#15a09d] text-white rounded-lg"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold text-gray-900 dark:text-white mb-1 flex items-center gap-3">
+          <Network className="w-8 h-8 text-[#17b6b2]" strokeWidth={1.5} />
+          Organization
+        </h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          {activeTab === 'chart'
+            ? 'Who reports to whom across the company'
+            : activeTab === 'departments'
+            ? 'Departments and their heads'
+            : 'Job titles users can hold'
+          }
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-1">
+        <nav className="flex gap-1">
+          {TABS.map(tab => (
+            <button
+              key={tab.key}
+              onClick={() => setActiveTab(tab.key)}
+              className={`flex-1 sm:flex-none px-6 py-2.5 rounded-md font-medium text-sm transition-colors flex items-center justify-center gap-2 ${
+                activeTab === tab.key
+                  ? 'bg-[#17b6b2] text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+              }`}
+            >
+              <tab.icon className="w-5 h-5" strokeWidth={1.5} />
+              <span>{tab.label}</span>
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {activeTab === 'chart' && (
+        <OrgChart chart={chart} currentUser={currentUser} onChartChange={setChart} />
+      )}
+
+      {activeTab === 'departments' && (
+        <DepartmentsPanel
+          departments={departments}
+          people={chart.people}
+          canManage={canManage}
+          onChange={loadOrganization}
+        />
+      )}
+
+      {activeTab === 'positions' && (
+        <PositionsPanel
+          positions={positions}
+          departments={departments}
+          canManage={canManage}
+          onChange={loadOrganization}
+        />
+      )}
+    </div>
+  );
+}
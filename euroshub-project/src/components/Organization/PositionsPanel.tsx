@@ -0,0 +1,214 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Briefcase, Edit3, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { organizationService, Department, Position, PositionInput } from '@/lib/organizationService';
+
+interface PositionsPanelProps {
+  positions: Position[];
+  departments: Department[];
+  canManage: boolean;
+  onChange: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-[#17b6b2] focus:border-transparent disabled:opacity-60';
+
+export default function PositionsPanel({ positions, departments, canManage, onChange }: PositionsPanelProps) {
+  // null while closed; 'new' for the create form
+  const [editing, setEditing] = useState<Position | 'new' | null>(null);
+  const [form, setForm] = useState<PositionInput>({ title: '', department: '', description: '' });
+  const [saving, setSaving] = useState(false);
+
+  // Positions open to every department first, then one group per department
+  const groups = [
+    { key: 'any', name: 'Any department', positions: positions.filter(position => !position.department) },
+    ...departments.map(department => ({
+      key: department._id,
+      name: department.name,
+      positions: positions.filter(position => position.department?._id === department._id)
+    }))
+  ].filter(group => group.positions.length > 0);
+
+  const openForm = (position: Position | 'new') => {
+    setEditing(position);
+    setForm(position === 'new'
+      ? { title: '', department: '', description: '' }
+      : { title: position.title, department: position.department?._id || '', description: position.description });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !form.title.trim()) return;
+
+    setSaving(true);
+    try {
+      if (editing === 'new') {
+        await organizationService.createPosition({ ...form, title: form.title.trim(), department: form.department || null });
+        toast.success('Position created successfully');
+      } else {
+        // A position stays in the department it was created for
+        await organizationService.updatePosition(editing._id, { title: form.title.trim(), description: form.description });
+        toast.success('Position updated successfully');
+      }
+      setEditing(null);
+      onChange();
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save position');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (position: Position) => {
+    if (!confirm(`Delete the position "${position.title}"?`)) return;
+
+    try {
+      await organizationService.deletePosition(position._id);
+      toast.success('Position deleted successfully');
+      onChange();
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete position');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {positions.length} position{positions.length === 1 ? '' : 's'}. Users can hold positions of their own department or ones open to any department.
+        </p>
+        {canManage && (
+          <button
+            onClick={() => openForm('new')}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-[#17b6b2] text-white font-medium rounded-lg hover:bg-[#15a09d] transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New Position
+          </button>
+        )}
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-8 text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-lg flex items-center justify-center border border-gray-200 dark:border-gray-700">
+            <Briefcase className="w-8 h-8 text-[#17b6b2]" strokeWidth={1.5} />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No positions yet</h3>
+          <p className="text-gray-600 dark:text-gray-400">Add the job titles users can hold.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {groups.map(group => (
+            <div key={group.key} className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg">
+              <h3 className="px-4 py-3 text-sm font-semibold text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-800">
+                {group.name}
+              </h3>
+              <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+                {group.positions.map(position => (
+                  <li key={position._id} className="flex items-center gap-3 px-4 py-2.5">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 dark:text-white">{position.title}</p>
+                      {position.description && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{position.description}</p>
+                      )}
+                    </div>
+                    {canManage && (
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => openForm(position)}
+                          className="p-1 text-gray-400 hover:text-[#17b6b2]"
+                          title="Edit position"
+                        >
+                          <Edit3 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(position)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete position"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-900 rounded-lg shadow-xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                {editing === 'new' ? 'New Position' : 'Edit Position'}
+              </h2>
+              <button type="button" onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Title</label>
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  maxLength={100}
+                  required
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Department</label>
+                <select
+                  value={form.department || ''}
+                  onChange={(e) => setForm({ ...form, department: e.target.value })}
+                  disabled={editing !== 'new'}
+                  className={inputClass}
+                >
+                  <option value="">Any department</option>
+                  {departments.map(department => (
+                    <option key={department._id} value={department._id}>{department.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  maxLength={500}
+                  rows={2}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-800">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                disabled={saving}
+                className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving || !form.title.trim()}
+                className="px-4 py-2 text-sm bg-[#17b6b2] hover:bg-[#15a09d] text-white rounded-lg disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editing === 'new' ? 'Create Position' : 'Save Changes'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bell, Mail, MessageSquare, Moon, BellOff } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  profileService,
+  NotificationPreferences as Preferences,
+  NotificationChannel,
+  DigestFrequency
+} from '@/lib/profileService';
+import { notificationTypeLabels, NotificationType } from '@/lib/notificationService';
+
+const channels: Array<{ id: NotificationChannel; label: string; icon: typeof Bell }> = [
+  { id: 'inApp', label: 'In-app', icon: Bell },
+  { id: 'email', label: 'Email', icon: Mail },
+  { id: 'slack', label: 'Slack DM', icon: MessageSquare },
+];
+
+const digestOptions: Array<{ id: DigestFrequency; label: string; description: string }> = [
+  { id: 'none', label: 'Never', description: 'No summary emails' },
+  { id: 'daily', label: 'Daily', description: 'Every morning at 9 AM' },
+  { id: 'weekly', label: 'Weekly', description: 'Monday mornings at 9 AM' },
+];
+
+const getTimezones = (): string[] => {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return ['UTC'];
+  }
+};
+
+export default function NotificationPreferences() {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const timezones = useMemo(() => {
+    const zones = getTimezones();
+    return zones.includes('UTC') ? zones : ['UTC', ...zones];
+  }, []);
+
+  useEffect(() => {
+    loadPreferences();
+  }, []);
+
+  const loadPreferences = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await profileService.getNotificationPreferences();
+      setPreferences(data);
+    } catch (err: unknown) {
+      const error = err as { message: string };
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleChannel = (event: NotificationType, channel: NotificationChannel) => {
+    setPreferences(prev => prev && {
+      ...prev,
+      events: {
+        ...prev.events,
+        [event]: { ...prev.events[event], [channel]: !prev.events[event][channel] }
+      }
+    });
+  };
+
+  const muteEvent = (event: NotificationType) => {
+    setPreferences(prev => prev && {
+      ...prev,
+      events: {
+        ...prev.events,
+        [event]: { inApp: false, email: false, slack: false }
+      }
+    });
+  };
+
+  const updateQuietHours = (field: keyof Preferences['quietHours'], value: string | boolean) => {
+    setPreferences(prev => prev && {
+      ...prev,
+      quietHours: { ...prev.quietHours, [field]: value }
+    });
+  };
+
+  const toggleQuietHours = () => {
+    if (!preferences) return;
+    // Default the timezone to the browser's when quiet hours are first switched on
+    const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    setPreferences({
+      ...preferences,
+      quietHours: {
+        ...preferences.quietHours,
+        enabled: !preferences.quietHours.enabled,
+        timezone: !preferences.quietHours.enabled && preferences.quietHours.timezone === 'UTC' && browserTimezone
+          ? browserTimezone
+          : preferences.quietHours.timezone
+      }
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preferences) return;
+
+    setSaving(true);
+    try {
+      const updated = await profileService.updateNotificationPreferences(preferences);
+      setPreferences(updated);
+      toast.success('Notification preferences saved');
+    } catch (err: unknown) {
+      const error = err as { message?: string };
+      toast.error(error.message || 'Failed to save notification preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3 max-w-3xl">
+        {[0, 1, 2, 3].map(i => (
+          <div key={i} className="h-12 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !preferences) {
+    return (
+      <div className="max-w-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded-xl flex items-center justify-between">
+        <span>{error || 'Failed to load notification preferences'}</span>
+        <button onClick={loadPreferences} className="font-medium underline">Retry</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl">
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Notifications</h3>
+        <p className="text-gray-600 dark:text-gray-400">Choose how you hear about activity on your boards and tasks.</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Per-event channels */}
+        <div className="bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="p-6 pb-4">
+            <h4 className="text-md font-semibold text-gray-900 dark:text-white">Delivery Channels</h4>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-y border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+                  <th className="px-6 py-2 text-left font-medium">Event</th>
+                  {channels.map(channel => (
+                    <th key={channel.id} className="px-4 py-2 text-center font-medium">
+                      <span className="inline-flex items-center gap-1.5">
+                        <channel.icon className="w-4 h-4" strokeWidth={1.5} />
+                        {channel.label}
+                      </span>
+                    </th>
+                  ))}
+                  <th className="px-4 py-2 text-center font-medium">None</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {(Object.keys(notificationTypeLabels) as NotificationType[]).map(event => {
+                  const eventChannels = preferences.events[event];
+                  const isMuted = !eventChannels.inApp && !eventChannels.email && !eventChannels.slack;
+                  return (
+                    <tr key={event}>
+                      <td className="px-6 py-3 text-gray-900 dark:text-white">{notificationTypeLabels[event]}</td>
+                      {channels.map(channel => (
+                        <td key={channel.id} className="px-4 py-3 text-center">
+                          <input
+                            type="checkbox"
+                            checked={eventChannels[channel.id]}
+                            onChange={() => toggleChannel(event, channel.id)}
+                            className="w-4 h-4 rounded border-gray-300 text-[#17b6b2] focus:ring-[#17b6b2]"
+                            aria-label={`${notificationTypeLabels[event]} via ${channel.label}`}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 text-center">
+                        <button
+                          type="button"
+                          onClick={() => muteEvent(event)}
+                          disabled={isMuted}
+                          className={`p-1.5 rounded-md transition-colors ${
+                            isMuted
+                              ? 'text-[#17b6b2] bg-[#17b6b2]/10'
+                              : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                          }`}
+                          title={isMuted ? 'Muted' : 'Turn off all channels'}
+                        >
+                          <BellOff className="w-4 h-4" strokeWidth={1.5} />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Quiet hours */}
+        <div className="bg-gray-50 dark:bg-gray-800/50 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h4 className="text-md font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                <Moon className="w-4 h-4 text-[#17b6b2]" strokeWidth={1.5} />
+                Quiet Hours
+              </h4>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                No emails or Slack DMs during this window. In-app notifications are still recorded, and a digest that comes due is sent when it ends.
+              </p>
+            </div>
+            <button
+              type="button"
+              role="switch"
+              aria-checked={preferences.quietHours.enabled}
+              onClick={toggleQuietHours}
+              className={`relative inline-flex h-6 w-11 flex-shrink-0 rounded-full transition-colors ${
+                preferences.quietHours.enabled ? 'bg-[#17b6b2]' : 'bg-gray-300 dark:bg-gray-600'
+              }`}
+            >
+              <span
+                className={`inline-block h-5 w-5 mt-0.5 rounded-full bg-white shadow transform transition-transform ${
+                  preferences.quietHours.enabled ? 'translate-x-5' : 'translate-x-0.5'
+                }`}
+              />
+            </button>
+          </div>
+
+          {preferences.quietHours.enabled && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">From</label>
+                <input
+                  type="time"
+                  value={preferences.quietHours.start}
+                  onChange={(e) => updateQuietHours('start', e.target.value)}
+                  required
+                  className="w-full px-4 py-2.5 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-[#17b6b2] focus:border-[#17b6b2]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Until</label>
+                <input
+                  type="time"
+                  value={preferences.quietHours.end}
+                  onChange={(e) => updateQuietHours('end', e.target.value)}
+                  required
+                  className="w-full px-4 py-2.5 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-[#17b6b2] focus:border-[#17b6b2]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Timezone</label>
+                <select
+                  value={preferences.quietHours.timezone}
+                  onChange={(e) => updateQuietHours('timezone', e.target.value)}
+                  className="w-full px-4 py-2.5 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-[#17b6b2] focus:border-[#17b6b2]"
+                >
+                  {timezones.map(zone => (
+                    <option key={zone} value={zone}>{zone}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Digest */}
+        <div className="bg-gray-50 dark:bg-gray-800/50 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+          <h4 className="text-md font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <Mail className="w-4 h-4 text-[#17b6b2]" strokeWidth={1.5} />
+            Email Digest
+          </h4>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            A summary of unread notifications and upcoming due dates.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-4">
+            {digestOptions.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setPreferences({ ...preferences, digestFrequency: option.id })}
+                className={`text-left px-4 py-3 rounded-lg border transition-colors ${
+                  preferences.digestFrequency === option.id
+                    ? 'border-[#17b6b2] bg-[#17b6b2]/10'
+                    : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-gray-300 dark:hover:border-gray-600'
+                }`}
+              >
+                <span className="block text-sm font-medium text-gray-900 dark:text-white">{option.label}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400 mt-0.5">{option.description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex justify-end pt-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-8 py-2 bg-[#17b6b2] hover:bg-[#15a09d] disabled:bg-gray-400 text-white rounded-lg transition-colors flex items-center disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save Preferences'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
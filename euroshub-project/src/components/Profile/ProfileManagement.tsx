@@ -3,10 +3,11 @@
 import React, { useState, useEffect } from 'react';
 import { User as AuthUser } from '@/lib/auth';
 import { profileService, UserProfile, ProfileUpdateRequest } from '@/lib/profileService';
-import { User, Key, Image, AlertCircle, CheckCircle } from 'lucide-react';
+import { User, Key, Image, Bell, AlertCircle, CheckCircle } from 'lucide-react';
 import ProfileInformation from './ProfileInformation';
 import PasswordChange from './PasswordChange';
 import AvatarUpload from './AvatarUpload';
+import NotificationPreferences from './NotificationPreferences';
 
 interface ProfileManagementProps {
   currentUser: AuthUser;
@@ -17,7 +18,7 @@ export default function ProfileManagement({ currentUser }: ProfileManagementProp
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'avatar'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'avatar' | 'notifications'>('profile');
 
   useEffect(() => {
     loadProfile();
@@ -103,6 +104,7 @@ export default function ProfileManagement({ currentUser }: ProfileManagementProp
     { id: 'profile', label: 'Profile Information', icon: User },
     { id: 'password', label: 'Password & Security', icon: Key },
     { id: 'avatar', label: 'Profile Picture', icon: Image },
+    { id: 'notifications', label: 'Notifications', icon: Bell },
   ] as const;
 
   return (
@@ -119,6 +121,8 @@ export default function ProfileManagement({ currentUser }: ProfileManagementProp
               ? 'Update your personal information and contact details'
               : activeTab === 'password'
               ? 'Change your password and manage security settings'
+              : activeTab === 'notifications'
+              ? 'Choose how and when you are notified'
               : 'Upload and manage your profile picture'
             }
           </p>
@@ -207,6 +211,9 @@ export default function ProfileManagement({ currentUser }: ProfileManagementProp
           onAvatarDelete={handleAvatarDelete}
         />
       )}
+      {activeTab === 'notifications' && (
+        <NotificationPreferences />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -4,16 +4,19 @@ import React, { useState, useEffect } from 'react';
 import { User as AuthUser } from '@/lib/auth';
 import { getAvailableRoles } from '@/lib/permissions';
 import { CreateUserRequest } from '@/lib/userService';
-import { UserPlus, User, Mail, Phone, Briefcase, Building2, BadgeCheck, Shield, Lock, CheckCircle2, AlertCircle } from 'lucide-react';
+import { getPositionsForDepartment, OrgChartPerson } from '@/lib/organizationService';
+import { useOrganization } from '@/hooks/useOrganization';
+import { UserPlus, User, Mail, Phone, Briefcase, Building2, BadgeCheck, Shield, Lock, CheckCircle2, AlertCircle, GitFork } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface CreateUserFormProps {
   currentUser: AuthUser;
+  managers: OrgChartPerson[];
   onCreateUser: (userData: CreateUserRequest) => Promise<void>;
   onCancel: () => void;
 }
 
-export default function CreateUserForm({ currentUser, onCreateUser, onCancel }: CreateUserFormProps) {
+export default function CreateUserForm({ currentUser, managers, onCreateUser, onCancel }: CreateUserFormProps) {
   const [formData, setFormData] = useState<CreateUserRequest>({
     firstName: '',
     lastName: '',
@@ -23,6 +26,7 @@ export default function CreateUserForm({ currentUser, onCreateUser, onCancel }:
     phone: '',
     department: '',
     position: '',
+    reportsTo: '',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
@@ -30,6 +34,8 @@ export default function CreateUserForm({ currentUser, onCreateUser, onCancel }:
   const [formProgress, setFormProgress] = useState(0);
 
   const availableRoles = getAvailableRoles(currentUser.role);
+  const { departments, positions } = useOrganization();
+  const departmentPositions = getPositionsForDepartment(positions, departments, formData.department || '');
 
   useEffect(() => {
     const calculateProgress = () => {
@@ -65,7 +71,9 @@ export default function CreateUserForm({ currentUser, onCreateUser, onCancel }:
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: value
+      [name]: value,
+      // Positions belong to departments, so a new department needs a new position
+      ...(name === 'department' ? { position: '' } : {})
     }));
 
     if (errors[name]) {
@@ -131,6 +139,7 @@ export default function CreateUserForm({ currentUser, onCreateUser, onCancel }:
         phone: formData.phone?.trim() || undefined,
         department: formData.department?.trim() || undefined,
         position: formData.position?.trim() || undefined,
+        reportsTo: formData.reportsTo || undefined,
       };
 
       await onCreateUser(cleanedData);
@@ -145,6 +154,7 @@ export default function CreateUserForm({ currentUser, onCreateUser, onCancel }:
         phone: '',
         department: '',
         position: '',
+        reportsTo: '',
       });
       setErrors({});
     } catch (error: unknown) {
@@ -439,7 +449,7 @@ export default function CreateUserForm({ currentUser, onCreateUser, onCancel }:
           </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="space-y-2">
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
               Employee ID <span className="text-xs text-gray-500 dark:text-gray-400 font-normal">(Optional)</span>
@@ -467,20 +477,23 @@ export default function CreateUserForm({ currentUser, onCreateUser, onCancel }:
             </label>
             <div className="relative">
               <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 dark:text-gray-500" />
-              <input
-                type="text"
+              <select
                 name="department"
                 value={formData.department}
                 onChange={handleInputChange}
                 onFocus={() => handleFocus('department')}
                 onBlur={handleBlur}
-                className={`w-full pl-10 pr-4 py-2.5 bg-gray-50 dark:bg-gray-800 border rounded-lg text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-1 transition-colors ${
+                className={`w-full pl-10 pr-4 py-2.5 bg-gray-50 dark:bg-gray-800 border rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-1 transition-colors ${
                   focusedField === 'department'
                     ? 'border-[#17b6b2] focus:ring-[#17b6b2]'
                     : 'border-gray-200 dark:border-gray-700'
                 }`}
-                placeholder="Engineering"
-              />
+              >
+                <option value="">No department</option>
+                {departments.map(department => (
+                  <option key={department._id} value={department.name}>{department.name}</option>
+                ))}
+              </select>
             </div>
           </div>
 
@@ -488,20 +501,51 @@ export default function CreateUserForm({ currentUser, onCreateUser, onCancel }:
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
               Position <span className="text-xs text-gray-500 dark:text-gray-400 font-normal">(Optional)</span>
             </label>
-            <input
-              type="text"
+            <select
               name="position"
               value={formData.position}
               onChange={handleInputChange}
               onFocus={() => handleFocus('position')}
               onBlur={handleBlur}
-              className={`w-full px-4 py-2.5 bg-gray-50 dark:bg-gray-800 border rounded-lg text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-1 transition-colors ${
+              className={`w-full px-4 py-2.5 bg-gray-50 dark:bg-gray-800 border rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-1 transition-colors ${
                 focusedField === 'position'
                   ? 'border-[#17b6b2] focus:ring-[#17b6b2]'
                   : 'border-gray-200 dark:border-gray-700'
               }`}
-              placeholder="Senior Developer"
-            />
+            >
+              <option value="">No position</option>
+              {departmentPositions.map(position => (
+                <option key={position._id} value={position.title}>{position.title}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Reports To <span className="text-xs text-gray-500 dark:text-gray-400 font-normal">(Optional)</span>
+            </label>
+            <div className="relative">
+              <GitFork className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 dark:text-gray-500" />
+              <select
+                name="reportsTo"
+                value={formData.reportsTo || ''}
+                onChange={handleInputChange}
+                onFocus={() => handleFocus('reportsTo')}
+                onBlur={handleBlur}
+                className={`w-full pl-10 pr-4 py-2.5 bg-gray-50 dark:bg-gray-800 border rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-1 transition-colors ${
+                  focusedField === 'reportsTo'
+                    ? 'border-[#17b6b2] focus:ring-[#17b6b2]'
+                    : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <option value="">No manager</option>
+                {managers.map(user => (
+                  <option key={user.id} value={user.id}>
+                    {user.firstName} {user.lastName}{user.position ? ` (${user.position})` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
       </div>
@@ -5,16 +5,19 @@ import { User } from '@/lib/userService';
 import { User as AuthUser } from '@/lib/auth';
 import { getAvailableRoles, canCreateRole } from '@/lib/permissions';
 import { UpdateUserRequest } from '@/lib/userService';
+import { getPositionsForDepartment, OrgChartPerson } from '@/lib/organizationService';
+import { useOrganization } from '@/hooks/useOrganization';
 import toast from 'react-hot-toast';
 
 interface EditUserModalProps {
   user: User;
   currentUser: AuthUser;
+  managers: OrgChartPerson[];
   onClose: () => void;
   onUpdateUser: (userData: UpdateUserRequest) => Promise<void>;
 }
 
-export default function EditUserModal({ user, currentUser, onClose, onUpdateUser }: EditUserModalProps) {
+export default function EditUserModal({ user, currentUser, managers, onClose, onUpdateUser }: EditUserModalProps) {
   const [formData, setFormData] = useState({
     firstName: user.firstName,
     lastName: user.lastName,
@@ -23,6 +26,7 @@ export default function EditUserModal({ user, currentUser, onClose, onUpdateUser
     phone: user.phone || '',
     department: user.department || '',
     position: user.position || '',
+    reportsTo: user.reportsTo || '',
     isActive: user.isActive,
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -33,6 +37,11 @@ export default function EditUserModal({ user, currentUser, onClose, onUpdateUser
   const availableRoles = getAvailableRoles(currentUser.role);
   const canChangeRole = currentUser.role === 'superadmin' ||
     (currentUser.role !== user.role && canCreateRole(currentUser.role, formData.role));
+  const { departments, positions } = useOrganization();
+  const departmentPositions = getPositionsForDepartment(positions, departments, formData.department);
+  // Values set before departments and positions were managed stay selectable until changed
+  const isLegacyDepartment = Boolean(formData.department) && !departments.some(department => department.name === formData.department);
+  const isLegacyPosition = Boolean(formData.position) && !departmentPositions.some(position => position.title === formData.position);
 
   useEffect(() => {
     const checkChanges = () => {
@@ -44,6 +53,7 @@ export default function EditUserModal({ user, currentUser, onClose, onUpdateUser
         formData.phone !== (user.phone || '') ||
         formData.department !== (user.department || '') ||
         formData.position !== (user.position || '') ||
+        formData.reportsTo !== (user.reportsTo || '') ||
         formData.isActive !== user.isActive;
 
       setHasChanges(hasChanged);
@@ -58,7 +68,9 @@ export default function EditUserModal({ user, currentUser, onClose, onUpdateUser
 
     setFormData(prev => ({
       ...prev,
-      [name]: type === 'checkbox' ? checked : value
+      [name]: type === 'checkbox' ? checked : value,
+      // Positions belong to departments, so a new department needs a new position
+      ...(name === 'department' ? { position: '' } : {})
     }));
 
     // Clear error when user starts typing
@@ -128,8 +140,9 @@ export default function EditUserModal({ user, currentUser, onClose, onUpdateUser
       if (formData.email !== user.email) updateData.email = formData.email.trim().toLowerCase();
       if (formData.role !== user.role && canChangeRole) updateData.role = formData.role;
       if (formData.phone !== (user.phone || '')) updateData.phone = formData.phone.trim() || undefined;
-      if (formData.department !== (user.department || '')) updateData.department = formData.department.trim() || undefined;
-      if (formData.position !== (user.position || '')) updateData.position = formData.position.trim() || undefined;
+      if (formData.department !== (user.department || '')) updateData.department = formData.department.trim();
+      if (formData.position !== (user.position || '')) updateData.position = formData.position.trim();
+      if (formData.reportsTo !== (user.reportsTo || '')) updateData.reportsTo = formData.reportsTo || null;
       if (formData.isActive !== user.isActive) updateData.isActive = formData.isActive;
 
       await onUpdateUser(updateData);
@@ -541,40 +554,77 @@ export default function EditUserModal({ user, currentUser, onClose, onUpdateUser
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                       Department
                     </label>
-                    <input
-                      type="text"
+                    <select
                       name="department"
                       value={formData.department}
                       onChange={handleInputChange}
                       onFocus={() => handleFocus('department')}
                       onBlur={handleBlur}
-                      className={`w-full px-4 py-3 border rounded-lg text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-1 transition-colors ${
+                      className={`w-full px-4 py-3 border rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-1 transition-colors ${
                         focusedField === 'department'
                           ? 'border-[#17b6b2] focus:ring-[#17b6b2] bg-gray-50 dark:bg-gray-800'
                           : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 bg-white dark:bg-gray-800'
                       }`}
-                      placeholder="e.g., Engineering, Marketing"
-                    />
+                    >
+                      <option value="">No department</option>
+                      {isLegacyDepartment && (
+                        <option value={formData.department}>{formData.department} (not a managed department)</option>
+                      )}
+                      {departments.map(department => (
+                        <option key={department._id} value={department.name}>{department.name}</option>
+                      ))}
+                    </select>
                   </div>
 
                   <div className="relative">
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                       Position
                     </label>
-                    <input
-                      type="text"
+                    <select
                       name="position"
                       value={formData.position}
                       onChange={handleInputChange}
                       onFocus={() => handleFocus('position')}
                       onBlur={handleBlur}
-                      className={`w-full px-4 py-3 border rounded-lg text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-1 transition-colors ${
+                      className={`w-full px-4 py-3 border rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-1 transition-colors ${
                         focusedField === 'position'
                           ? 'border-[#17b6b2] focus:ring-[#17b6b2] bg-gray-50 dark:bg-gray-800'
                           : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 bg-white dark:bg-gray-800'
                       }`}
-                      placeholder="e.g., Senior Developer"
-                    />
+                    >
+                      <option value="">No position</option>
+                      {isLegacyPosition && (
+                        <option value={formData.position}>{formData.position} (not a managed position)</option>
+                      )}
+                      {departmentPositions.map(position => (
+                        <option key={position._id} value={position.title}>{position.title}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="relative col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Reports To
+                    </label>
+                    <select
+                      name="reportsTo"
+                      value={formData.reportsTo}
+                      onChange={handleInputChange}
+                      onFocus={() => handleFocus('reportsTo')}
+                      onBlur={handleBlur}
+                      className={`w-full px-4 py-3 border rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-1 transition-colors ${
+                        focusedField === 'reportsTo'
+                          ? 'border-[#17b6b2] focus:ring-[#17b6b2] bg-gray-50 dark:bg-gray-800'
+                          : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 bg-white dark:bg-gray-800'
+                      }`}
+                    >
+                      <option value="">No manager</option>
+                      {managers.filter(manager => manager.id !== user.id).map(manager => (
+                        <option key={manager.id} value={manager.id}>
+                          {manager.firstName} {manager.lastName}{manager.position ? ` (${manager.position})` : ''}
+                        </option>
+                      ))}
+                    </select>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,178 @@
+'use client';
+
+import React, { useState } from 'react';
+import { X, Search } from 'lucide-react';
+import { User } from '@/lib/userService';
+import { Team, TeamInput } from '@/services/trelloBoardsApi';
+
+interface TeamFormModalProps {
+  team: Team | null;
+  users: User[];
+  onClose: () => void;
+  onSave: (team: TeamInput) => Promise<void>;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-[#17b6b2] focus:border-transparent';
+
+export default function TeamFormModal({ team, users, onClose, onSave }: TeamFormModalProps) {
+  const [name, setName] = useState(team?.name || '');
+  const [description, setDescription] = useState(team?.description || '');
+  const [department, setDepartment] = useState(team?.department || '');
+  const [lead, setLead] = useState(team?.lead?._id || '');
+  const [members, setMembers] = useState<string[]>(team?.members.map(member => member._id) || []);
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Inactive users can't be added, but ones already on the team stay listed so they can be taken off
+  const selectableUsers = users.filter(user => user.isActive || members.includes(user.id));
+  const searchLower = search.toLowerCase();
+  const filteredUsers = selectableUsers.filter(user =>
+    `${user.firstName} ${user.lastName}`.toLowerCase().includes(searchLower) ||
+    user.email.toLowerCase().includes(searchLower) ||
+    (user.department || '').toLowerCase().includes(searchLower)
+  );
+
+  const toggleMember = (userId: string) => {
+    setMembers(prev => (prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        name: name.trim(),
+        description: description.trim(),
+        department: department.trim(),
+        lead: lead || null,
+        members: lead && !members.includes(lead) ? [...members, lead] : members
+      });
+    } catch {
+      // Error handling is done in parent component
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-900 rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{team ? 'Edit Team' : 'New Team'}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              required
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={500}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Department</label>
+              <input
+                type="text"
+                value={department}
+                onChange={(e) => setDepartment(e.target.value)}
+                maxLength={100}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Team Lead</label>
+              <select value={lead} onChange={(e) => setLead(e.target.value)} className={inputClass}>
+                <option value="">No lead</option>
+                {selectableUsers.map(user => (
+                  <option key={user.id} value={user.id}>{user.firstName} {user.lastName}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Members ({members.length})
+            </label>
+            <div className="relative mb-2">
+              <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search users..."
+                className={`${inputClass} pl-9`}
+              />
+            </div>
+            <div className="max-h-60 overflow-y-auto border border-gray-200 dark:border-gray-800 rounded-lg divide-y divide-gray-100 dark:divide-gray-800">
+              {filteredUsers.length === 0 ? (
+                <p className="p-4 text-center text-sm text-gray-500 dark:text-gray-400">No users found</p>
+              ) : (
+                filteredUsers.map(user => (
+                  <label key={user.id} className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800">
+                    <input
+                      type="checkbox"
+                      checked={members.includes(user.id) || user.id === lead}
+                      disabled={user.id === lead}
+                      onChange={() => toggleMember(user.id)}
+                      className="w-4 h-4 text-[#17b6b2] border-gray-300 rounded focus:ring-[#17b6b2]"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {user.firstName} {user.lastName}
+                        {!user.isActive && <span className="ml-2 text-xs text-red-500">Inactive</span>}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {[user.department, user.position].filter(Boolean).join(' · ') || user.email}
+                      </p>
+                    </div>
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={saving}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="px-4 py-2 text-sm bg-[#17b6b2] hover:bg-[#15a09d] text-white rounded-lg disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : team ? 'Save Changes' : 'Create Team'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
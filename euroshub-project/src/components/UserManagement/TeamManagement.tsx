@@ -0,0 +1,200 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { UsersRound, Plus, Edit3, Trash2, Crown, LayoutGrid } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { User } from '@/lib/userService';
+import { teamsApi, Team, TeamInput } from '@/services/trelloBoardsApi';
+import TeamFormModal from './TeamFormModal';
+
+interface TeamManagementProps {
+  users: User[];
+  canManage: boolean;
+}
+
+export default function TeamManagement({ users, canManage }: TeamManagementProps) {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // null while closed; 'new' for the create form
+  const [editingTeam, setEditingTeam] = useState<Team | 'new' | null>(null);
+
+  useEffect(() => {
+    loadTeams();
+  }, []);
+
+  const loadTeams = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setTeams(await teamsApi.getTeams());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load teams');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (input: TeamInput) => {
+    try {
+      if (editingTeam && editingTeam !== 'new') {
+        const updated = await teamsApi.updateTeam(editingTeam._id, input);
+        setTeams(prev => prev.map(team => (team._id === updated._id ? updated : team)));
+        toast.success('Team updated successfully');
+      } else {
+        const created = await teamsApi.createTeam(input);
+        setTeams(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+        toast.success('Team created successfully');
+      }
+      setEditingTeam(null);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save team');
+      throw err;
+    }
+  };
+
+  const handleDelete = async (team: Team) => {
+    const boards = team.boardCount > 0
+      ? ` Its members will lose access to ${team.boardCount} board${team.boardCount === 1 ? '' : 's'} unless they were added another way.`
+      : '';
+    if (!confirm(`Delete the team "${team.name}"?${boards}`)) return;
+
+    try {
+      await teamsApi.deleteTeam(team._id);
+      setTeams(prev => prev.filter(item => item._id !== team._id));
+      toast.success('Team deleted successfully');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete team');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-2 border-[#17b6b2]/30 border-t-[#17b6b2] rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-8 text-center">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Failed to load teams</h3>
+        <p className="text-gray-600 dark:text-gray-400 mb-4">{error}</p>
+        <button
+          onClick={loadTeams}
+          className="px-4 py-2 text-sm bg-[#17b6b2] hover:bg-[#15a09d] text-white rounded-lg"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {teams.length} team{teams.length === 1 ? '' : 's'}. Adding a team to a board gives all of its members access.
+        </p>
+        {canManage && (
+          <button
+            onClick={() => setEditingTeam('new')}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-[#17b6b2] text-white font-medium rounded-lg hover:bg-[#15a09d] transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New Team
+          </button>
+        )}
+      </div>
+
+      {teams.length === 0 ? (
+        <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-8 text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-lg flex items-center justify-center border border-gray-200 dark:border-gray-700">
+            <UsersRound className="w-8 h-8 text-[#17b6b2]" strokeWidth={1.5} />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No teams yet</h3>
+          <p className="text-gray-600 dark:text-gray-400">Group users into teams to share boards and assign work to them together.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {teams.map(team => (
+            <div key={team._id} className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-5 flex flex-col">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-gray-900 dark:text-white truncate">{team.name}</h3>
+                  {team.department && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{team.department}</p>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="flex gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => setEditingTeam(team)}
+                      className="p-1.5 text-gray-400 hover:text-[#17b6b2]"
+                      title="Edit team"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(team)}
+                      className="p-1.5 text-gray-400 hover:text-red-600"
+                      title="Delete team"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {team.description && (
+                <p className="mt-2 text-sm text-gray-600 dark:text-gray-400 line-clamp-2">{team.description}</p>
+              )}
+
+              {team.lead && (
+                <p className="mt-3 flex items-center gap-1.5 text-sm text-gray-700 dark:text-gray-300">
+                  <Crown className="w-4 h-4 text-amber-500" />
+                  {team.lead.firstName} {team.lead.lastName}
+                </p>
+              )}
+
+              <div className="mt-3 flex flex-wrap gap-1.5">
+                {team.members.slice(0, 8).map(member => (
+                  <span
+                    key={member._id}
+                    className="px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+                  >
+                    {member.firstName} {member.lastName}
+                  </span>
+                ))}
+                {team.members.length > 8 && (
+                  <span className="px-2 py-0.5 text-xs text-gray-500 dark:text-gray-400">+{team.members.length - 8} more</span>
+                )}
+              </div>
+
+              <div className="mt-auto pt-4 flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+                <span className="flex items-center gap-1">
+                  <UsersRound className="w-3.5 h-3.5" />
+                  {team.members.length} member{team.members.length === 1 ? '' : 's'}
+                </span>
+                <span className="flex items-center gap-1">
+                  <LayoutGrid className="w-3.5 h-3.5" />
+                  {team.boardCount} board{team.boardCount === 1 ? '' : 's'}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingTeam && (
+        <TeamFormModal
+          team={editingTeam === 'new' ? null : editingTeam}
+          users={users}
+          onClose={() => setEditingTeam(null)}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+}
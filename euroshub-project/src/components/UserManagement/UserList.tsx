@@ -17,8 +17,10 @@ export default function UserList({ users, currentUser, onEditUser, onDeleteUser
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [departmentFilter, setDepartmentFilter] = useState<string>('all');
 
   const permissions = getPermissions(currentUser.role);
+  const departments = [...new Set(users.map(user => user.department).filter((name): name is string => Boolean(name)))].sort();
 
   // Filter users based on search and filters
   const filteredUsers = users.filter(user => {
@@ -34,8 +36,10 @@ export default function UserList({ users, currentUser, onEditUser, onDeleteUser
       (statusFilter === 'active' && user.isActive) ||
       (statusFilter === 'inactive' && !user.isActive) ||
       (statusFilter === 'unverified' && !user.isEmailVerified);
+    const matchesDepartment = departmentFilter === 'all' ||
+      (departmentFilter === 'none' ? !user.department : user.department === departmentFilter);
 
-    return matchesSearch && matchesRole && matchesStatus;
+    return matchesSearch && matchesRole && matchesStatus && matchesDepartment;
   });
 
   const getRoleIcon = (role: string) => {
@@ -139,6 +143,20 @@ export default function UserList({ users, currentUser, onEditUser, onDeleteUser
                 <option value="unverified">Unverified</option>
               </select>
             </div>
+            <div className="relative">
+              <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" strokeWidth={1.5} />
+              <select
+                value={departmentFilter}
+                onChange={(e) => setDepartmentFilter(e.target.value)}
+                className="pl-9 pr-8 py-2.5 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#17b6b2] transition-colors appearance-none cursor-pointer"
+              >
+                <option value="all">All Departments</option>
+                {departments.map(department => (
+                  <option key={department} value={department}>{department}</option>
+                ))}
+                <option value="none">No Department</option>
+              </select>
+            </div>
           </div>
         </div>
       </div>
@@ -5,13 +5,15 @@ import { User, CreateUserRequest, UpdateUserRequest } from '@/lib/userService';
 import { getPermissions, hasUserManagementAccess } from '@/lib/permissions';
 import { User as AuthUser } from '@/lib/auth';
 import { userService } from '@/lib/userService';
-import { Users, UserPlus, Key, Shield, CheckCircle, AlertCircle } from 'lucide-react';
+import { organizationService, OrgChartPerson } from '@/lib/organizationService';
+import { Users, UserPlus, Key, Shield, CheckCircle, AlertCircle, UsersRound } from 'lucide-react';
 import toast from 'react-hot-toast';
 import UserList from './UserList';
 import CreateUserForm from './CreateUserForm';
 import EditUserModal from './EditUserModal';
 import DeleteUserModal from './DeleteUserModal';
 import PasswordResetManagement from './PasswordResetManagement';
+import TeamManagement from './TeamManagement';
 
 interface UserManagementProps {
   currentUser: AuthUser;
@@ -19,18 +21,30 @@ interface UserManagementProps {
 
 export default function UserManagement({ currentUser }: UserManagementProps) {
   const [users, setUsers] = useState<User[]>([]);
+  // Everyone who can be picked as a manager; HR only sees employees in `users`
+  const [managers, setManagers] = useState<OrgChartPerson[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [deletingUser, setDeletingUser] = useState<User | null>(null);
-  const [activeTab, setActiveTab] = useState<'users' | 'add-user' | 'password-resets'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'add-user' | 'teams' | 'password-resets'>('users');
 
   const permissions = getPermissions(currentUser.role);
 
   useEffect(() => {
     loadUsers();
+    loadManagers();
   }, []);
 
+  const loadManagers = async () => {
+    try {
+      const chart = await organizationService.getOrgChart();
+      setManagers(chart.people);
+    } catch (err: unknown) {
+      console.error('Error loading managers:', err);
+    }
+  };
+
   const loadUsers = async () => {
     try {
       setLoading(true);
@@ -61,6 +75,8 @@ export default function UserManagement({ currentUser }: UserManagementProps) {
         });
       }
 
+      loadManagers();
+
       // Switch back to users tab after successful creation
       setActiveTab('users');
     } catch (err: unknown) {
@@ -73,6 +89,7 @@ export default function UserManagement({ currentUser }: UserManagementProps) {
       const updatedUser = await userService.updateUser(userData);
       setUsers(users.map(user => user.id === updatedUser.id ? updatedUser : user));
       setEditingUser(null);
+      loadManagers();
       toast.success(`User ${updatedUser.firstName} ${updatedUser.lastName} updated successfully`);
     } catch (err: unknown) {
       throw err; // Let the modal handle the error
@@ -152,6 +169,8 @@ export default function UserManagement({ currentUser }: UserManagementProps) {
               ? 'Manage users and their permissions'
               : activeTab === 'add-user'
               ? 'Create a new user account'
+              : activeTab === 'teams'
+              ? 'Group users into teams for boards and assignments'
               : 'Review and process password reset requests'
             }
           </p>
@@ -198,6 +217,18 @@ export default function UserManagement({ currentUser }: UserManagementProps) {
             </button>
           )}
 
+          <button
+            onClick={() => setActiveTab('teams')}
+            className={`flex-1 sm:flex-none px-6 py-2.5 rounded-md font-medium text-sm transition-colors flex items-center justify-center gap-2 ${
+              activeTab === 'teams'
+                ? 'bg-[#17b6b2] text-white'
+                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+            }`}
+          >
+            <UsersRound className="w-5 h-5" strokeWidth={1.5} />
+            <span>Teams</span>
+          </button>
+
           <button
             onClick={() => setActiveTab('password-resets')}
             className={`flex-1 sm:flex-none px-6 py-2.5 rounded-md font-medium text-sm transition-colors flex items-center justify-center gap-2 ${
@@ -284,11 +315,19 @@ export default function UserManagement({ currentUser }: UserManagementProps) {
       {activeTab === 'add-user' && permissions.canCreateUsers && (
         <CreateUserForm
           currentUser={currentUser}
+          managers={managers}
           onCreateUser={handleCreateUser}
           onCancel={() => setActiveTab('users')}
         />
       )}
 
+      {activeTab === 'teams' && (
+        <TeamManagement
+          users={users}
+          canManage={['superadmin', 'admin', 'hr'].includes(currentUser.role)}
+        />
+      )}
+
       {activeTab === 'password-resets' && (
         <PasswordResetManagement currentUser={currentUser} />
       )}
@@ -298,6 +337,7 @@ export default function UserManagement({ currentUser }: UserManagementProps) {
         <EditUserModal
           user={editingUser}
           currentUser={currentUser}
+          managers={managers}
           onClose={() => setEditingUser(null)}
           onUpdateUser={handleUpdateUser}
         />
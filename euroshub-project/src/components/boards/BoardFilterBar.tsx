@@ -0,0 +1,532 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  Search,
+  Users,
+  Tag,
+  Calendar,
+  GitBranch,
+  AlertCircle,
+  ListTodo,
+  Bookmark,
+  Trash2,
+  Check,
+  ChevronDown,
+  SlidersHorizontal,
+  X
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { BoardLabel, CardLabel, CustomFieldDefinition, filtersApi, SavedBoardFilter } from '@/services/trelloBoardsApi';
+import { Card } from './lists/ListContainer';
+import { getFieldFilterChoices } from './customFields/customFieldUtils';
+import {
+  BoardFilters,
+  getStageName,
+  parseBoardFilters,
+  serializeBoardFilters
+} from './hooks/useBoardFilters';
+
+interface FilterMember {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+}
+
+interface BoardFilterBarProps {
+  boardId: string;
+  members: FilterMember[];
+  cards: Card[];
+  boardLabels?: BoardLabel[];
+  customFields?: CustomFieldDefinition[];
+  filters: BoardFilters;
+  isActive: boolean;
+  matchCount: number;
+  onChange: (filters: BoardFilters) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type FilterMenu = 'members' | 'labels' | 'due' | 'stage' | 'fields' | 'saved';
+
+const KEYWORD_DEBOUNCE_MS = 300;
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 text-sm rounded-lg border transition-colors flex items-center gap-1.5 ${
+    active
+      ? 'border-[#17b6b2] bg-[#17b6b2]/10 text-[#17b6b2]'
+      : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+  }`;
+
+const menuClass = 'absolute left-0 top-full mt-1 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 z-50 min-w-56 max-h-72 overflow-y-auto animate-in fade-in zoom-in-95 duration-150';
+
+const menuItemClass = 'w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors flex items-center gap-2.5';
+
+const BoardFilterBar: React.FC<BoardFilterBarProps> = ({
+  boardId,
+  members,
+  cards,
+  boardLabels = [],
+  customFields = [],
+  filters,
+  isActive,
+  matchCount,
+  onChange,
+  onClear,
+  onClose
+}) => {
+  const [openMenu, setOpenMenu] = useState<FilterMenu | null>(null);
+  const [keyword, setKeyword] = useState(filters.keyword);
+  const [savedFilters, setSavedFilters] = useState<SavedBoardFilter[]>([]);
+  const [newFilterName, setNewFilterName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const barRef = useRef<HTMLDivElement>(null);
+  const pushedKeywordRef = useRef(filters.keyword);
+
+  // The board's palette, then any older labels only found on cards.
+  // Workflow stages come from the cards on the board.
+  const labelOptions = useMemo(() => {
+    const options = new Map<string, CardLabel>();
+    boardLabels.forEach(label => options.set(label.name, label));
+    cards
+      .flatMap(card => card.labels || [])
+      .forEach(label => {
+        if (!options.has(label.name)) options.set(label.name, label);
+      });
+    return [...options.values()];
+  }, [boardLabels, cards]);
+
+  const stageOptions = useMemo(
+    () => [...new Set(cards.flatMap(card =>
+      card.workflowEnabled ? (card.workflowStages || []).map(getStageName) : []
+    ))],
+    [cards]
+  );
+
+  useEffect(() => {
+    const loadSavedFilters = async () => {
+      try {
+        setSavedFilters(await filtersApi.getSavedFilters(boardId));
+      } catch (error) {
+        console.error('Error loading saved filters:', error);
+      }
+    };
+
+    loadSavedFilters();
+  }, [boardId]);
+
+  // Close menus on outside click
+  useEffect(() => {
+    if (!openMenu) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (barRef.current && !barRef.current.contains(e.target as Node)) {
+        setOpenMenu(null);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [openMenu]);
+
+  // Pick up keyword changes that did not come from typing (clear, saved filter, shared link)
+  useEffect(() => {
+    if (filters.keyword !== pushedKeywordRef.current) {
+      pushedKeywordRef.current = filters.keyword;
+      setKeyword(filters.keyword);
+    }
+  }, [filters.keyword]);
+
+  useEffect(() => {
+    // The URL keeps the trimmed keyword, so compare trimmed values
+    if (keyword.trim() === pushedKeywordRef.current) return;
+
+    const timer = setTimeout(() => {
+      pushedKeywordRef.current = keyword.trim();
+      onChange({ ...filters, keyword });
+    }, KEYWORD_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [keyword, filters, onChange]);
+
+  const toggleMenu = (menu: FilterMenu) => {
+    setOpenMenu(prev => (prev === menu ? null : menu));
+  };
+
+  const toggleValue = (key: 'members' | 'labels', value: string) => {
+    const values = filters[key];
+    onChange({
+      ...filters,
+      [key]: values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+    });
+  };
+
+  const toggleFieldChoice = (fieldId: string, choice: string) => {
+    const choices = filters.fields[fieldId] || [];
+    onChange({
+      ...filters,
+      fields: {
+        ...filters.fields,
+        [fieldId]: choices.includes(choice) ? choices.filter(c => c !== choice) : [...choices, choice]
+      }
+    });
+  };
+
+  const handleSaveFilter = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newFilterName.trim() || !isActive) return;
+
+    setIsSaving(true);
+    try {
+      const query = serializeBoardFilters({ ...filters, keyword });
+      setSavedFilters(await filtersApi.saveFilter(boardId, newFilterName.trim(), query));
+      setNewFilterName('');
+      toast.success('Filter saved');
+    } catch (error) {
+      console.error('Error saving filter:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save filter');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApplySavedFilter = (savedFilter: SavedBoardFilter) => {
+    onChange(parseBoardFilters(new URLSearchParams(savedFilter.query)));
+    setOpenMenu(null);
+  };
+
+  const handleDeleteSavedFilter = async (e: React.MouseEvent, savedFilter: SavedBoardFilter) => {
+    e.stopPropagation();
+    try {
+      setSavedFilters(await filtersApi.deleteFilter(boardId, savedFilter._id));
+      toast.success('Filter deleted');
+    } catch (error) {
+      console.error('Error deleting filter:', error);
+      toast.error('Failed to delete filter');
+    }
+  };
+
+  const getMemberLabel = () => {
+    if (filters.members.length === 0) return 'Members';
+    if (filters.members.length === 1) {
+      const member = members.find(m => m._id === filters.members[0]);
+      return member ? `${member.firstName} ${member.lastName}` : '1 member';
+    }
+    return `${filters.members.length} members`;
+  };
+
+  const getDueLabel = () => {
+    if (filters.dueFrom && filters.dueTo) return `${filters.dueFrom} – ${filters.dueTo}`;
+    if (filters.dueFrom) return `From ${filters.dueFrom}`;
+    if (filters.dueTo) return `Until ${filters.dueTo}`;
+    return 'Due date';
+  };
+
+  const activeFieldCount = customFields.filter(field => (filters.fields[field._id] || []).length > 0).length;
+
+  const totalCards = cards.length;
+
+  return (
+    <div
+      ref={barRef}
+      className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800 px-6 py-3 flex flex-wrap items-center gap-2"
+    >
+      {/* Keyword */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          type="text"
+          value={keyword}
+          onChange={(e) => setKeyword(e.target.value)}
+          placeholder="Filter cards..."
+          className="pl-9 pr-3 py-1.5 w-56 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#17b6b2] focus:border-transparent transition-colors"
+        />
+      </div>
+
+      {/* Members */}
+      <div className="relative">
+        <button onClick={() => toggleMenu('members')} className={chipClass(filters.members.length > 0)}>
+          <Users className="w-4 h-4" />
+          {getMemberLabel()}
+          <ChevronDown className="w-3.5 h-3.5" />
+        </button>
+        {openMenu === 'members' && (
+          <div className={menuClass}>
+            {members.length === 0 ? (
+              <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No board members</p>
+            ) : members.map(member => (
+              <button key={member._id} onClick={() => toggleValue('members', member._id)} className={menuItemClass}>
+                <span className="w-4 h-4 flex items-center justify-center">
+                  {filters.members.includes(member._id) && <Check className="w-4 h-4 text-[#17b6b2]" />}
+                </span>
+                {member.avatar ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={member.avatar} alt="" className="w-6 h-6 rounded-full object-cover" />
+                ) : (
+                  <span className="w-6 h-6 rounded-full bg-gray-200 dark:bg-gray-700 flex items-center justify-center text-xs font-medium text-gray-600 dark:text-gray-300">
+                    {member.firstName?.charAt(0)}{member.lastName?.charAt(0)}
+                  </span>
+                )}
+                {member.firstName} {member.lastName}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Labels */}
+      <div className="relative">
+        <button onClick={() => toggleMenu('labels')} className={chipClass(filters.labels.length > 0)}>
+          <Tag className="w-4 h-4" />
+          {filters.labels.length > 0 ? `${filters.labels.length} label${filters.labels.length === 1 ? '' : 's'}` : 'Labels'}
+          <ChevronDown className="w-3.5 h-3.5" />
+        </button>
+        {openMenu === 'labels' && (
+          <div className={menuClass}>
+            {labelOptions.length === 0 ? (
+              <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No labels on this board</p>
+            ) : labelOptions.map(label => (
+              <button key={label.name} onClick={() => toggleValue('labels', label.name)} className={menuItemClass}>
+                <span className="w-4 h-4 flex items-center justify-center">
+                  {filters.labels.includes(label.name) && <Check className="w-4 h-4 text-[#17b6b2]" />}
+                </span>
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: label.color }} />
+                {label.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Due date range */}
+      <div className="relative">
+        <button onClick={() => toggleMenu('due')} className={chipClass(!!filters.dueFrom || !!filters.dueTo)}>
+          <Calendar className="w-4 h-4" />
+          {getDueLabel()}
+          <ChevronDown className="w-3.5 h-3.5" />
+        </button>
+        {openMenu === 'due' && (
+          <div className={`${menuClass} p-3 space-y-3`}>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">From</label>
+              <input
+                type="date"
+                value={filters.dueFrom}
+                max={filters.dueTo || undefined}
+                onChange={(e) => onChange({ ...filters, dueFrom: e.target.value })}
+                className="w-full px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#17b6b2]"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">To</label>
+              <input
+                type="date"
+                value={filters.dueTo}
+                min={filters.dueFrom || undefined}
+                onChange={(e) => onChange({ ...filters, dueTo: e.target.value })}
+                className="w-full px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#17b6b2]"
+              />
+            </div>
+            {(filters.dueFrom || filters.dueTo) && (
+              <button
+                onClick={() => onChange({ ...filters, dueFrom: '', dueTo: '' })}
+                className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+              >
+                Clear dates
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Workflow stage */}
+      {stageOptions.length > 0 && (
+        <div className="relative">
+          <button onClick={() => toggleMenu('stage')} className={chipClass(!!filters.stage)}>
+            <GitBranch className="w-4 h-4" />
+            {filters.stage || 'Stage'}
+            <ChevronDown className="w-3.5 h-3.5" />
+          </button>
+          {openMenu === 'stage' && (
+            <div className={menuClass}>
+              <button
+                onClick={() => {
+                  onChange({ ...filters, stage: '' });
+                  setOpenMenu(null);
+                }}
+                className={menuItemClass}
+              >
+                <span className="w-4 h-4 flex items-center justify-center">
+                  {!filters.stage && <Check className="w-4 h-4 text-[#17b6b2]" />}
+                </span>
+                Any stage
+              </button>
+              {stageOptions.map(stage => (
+                <button
+                  key={stage}
+                  onClick={() => {
+                    onChange({ ...filters, stage });
+                    setOpenMenu(null);
+                  }}
+                  className={menuItemClass}
+                >
+                  <span className="w-4 h-4 flex items-center justify-center">
+                    {filters.stage === stage && <Check className="w-4 h-4 text-[#17b6b2]" />}
+                  </span>
+                  {stage}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Custom fields */}
+      {customFields.length > 0 && (
+        <div className="relative">
+          <button onClick={() => toggleMenu('fields')} className={chipClass(activeFieldCount > 0)}>
+            <SlidersHorizontal className="w-4 h-4" />
+            {activeFieldCount > 0 ? `${activeFieldCount} field${activeFieldCount === 1 ? '' : 's'}` : 'Fields'}
+            <ChevronDown className="w-3.5 h-3.5" />
+          </button>
+          {openMenu === 'fields' && (
+            <div className={menuClass}>
+              {customFields.map(field => (
+                <div key={field._id}>
+                  <p className="px-3 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                    {field.name}
+                  </p>
+                  {getFieldFilterChoices(field).map(choice => (
+                    <button key={choice.id} onClick={() => toggleFieldChoice(field._id, choice.id)} className={menuItemClass}>
+                      <span className="w-4 h-4 flex items-center justify-center">
+                        {(filters.fields[field._id] || []).includes(choice.id) && <Check className="w-4 h-4 text-[#17b6b2]" />}
+                      </span>
+                      {choice.color && <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: choice.color }} />}
+                      {choice.label}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Toggles */}
+      <button onClick={() => onChange({ ...filters, overdue: !filters.overdue })} className={chipClass(filters.overdue)}>
+        <AlertCircle className="w-4 h-4" />
+        Overdue
+      </button>
+      <button
+        onClick={() => onChange({ ...filters, unfinishedTasks: !filters.unfinishedTasks })}
+        className={chipClass(filters.unfinishedTasks)}
+      >
+        <ListTodo className="w-4 h-4" />
+        Unfinished tasks
+      </button>
+
+      <div className="flex-1" />
+
+      {isActive && (
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {matchCount} of {totalCards} cards
+        </span>
+      )}
+
+      {/* Dim or hide non-matching cards */}
+      <div className="flex items-center bg-gray-100 dark:bg-gray-800 rounded-lg p-0.5">
+        {(['dim', 'hide'] as const).map(mode => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...filters, mode })}
+            className={`px-2.5 py-1 text-xs font-medium rounded-md capitalize transition-colors ${
+              filters.mode === mode
+                ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+                : 'text-gray-500 dark:text-gray-400'
+            }`}
+          >
+            {mode}
+          </button>
+        ))}
+      </div>
+
+      {/* Saved filters */}
+      <div className="relative">
+        <button onClick={() => toggleMenu('saved')} className={chipClass(false)}>
+          <Bookmark className="w-4 h-4" />
+          Saved
+          <ChevronDown className="w-3.5 h-3.5" />
+        </button>
+        {openMenu === 'saved' && (
+          <div className={`${menuClass} left-auto right-0 w-72`}>
+            {savedFilters.length === 0 ? (
+              <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No saved filters yet</p>
+            ) : savedFilters.map(savedFilter => (
+              <div
+                key={savedFilter._id}
+                role="button"
+                tabIndex={0}
+                onClick={() => handleApplySavedFilter(savedFilter)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplySavedFilter(savedFilter);
+                }}
+                className={`${menuItemClass} group cursor-pointer`}
+              >
+                <Bookmark className="w-4 h-4 text-gray-400" />
+                <span className="flex-1 truncate">{savedFilter.name}</span>
+                <button
+                  onClick={(e) => handleDeleteSavedFilter(e, savedFilter)}
+                  className="p-1 rounded text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Delete saved filter"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+            <form onSubmit={handleSaveFilter} className="border-t border-gray-100 dark:border-gray-700 mt-1 p-2 flex gap-2">
+              <input
+                type="text"
+                value={newFilterName}
+                onChange={(e) => setNewFilterName(e.target.value)}
+                placeholder={isActive ? 'Name this filter' : 'Set a filter to save it'}
+                maxLength={50}
+                disabled={!isActive}
+                className="flex-1 min-w-0 px-2.5 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#17b6b2] disabled:opacity-60"
+              />
+              <button
+                type="submit"
+                disabled={!isActive || !newFilterName.trim() || isSaving}
+                className="px-3 py-1.5 text-sm bg-[#17b6b2] text-white rounded-lg hover:bg-[#15a09d] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Save
+              </button>
+            </form>
+          </div>
+        )}
+      </div>
+
+      {isActive && (
+        <button
+          onClick={onClear}
+          className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+        >
+          Clear
+        </button>
+      )}
+
+      <button
+        onClick={() => {
+          if (isActive) onClear();
+          onClose();
+        }}
+        className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+        title="Close filters"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default BoardFilterBar;
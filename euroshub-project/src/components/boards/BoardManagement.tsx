@@ -22,10 +22,14 @@ import {
   TrendingUp,
   Filter,
   X,
-  ChevronDown} from 'lucide-react';
+  ChevronDown,
+  LayoutTemplate,
+  CopyPlus} from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
-import { boardsApi } from '@/services/trelloBoardsApi';
+import { boardsApi, templatesApi, BoardLabel, BoardTeam, BoardTemplate, CustomFieldDefinition } from '@/services/trelloBoardsApi';
 import toast from 'react-hot-toast';
+import BoardTemplateGallery from './BoardTemplateGallery';
+import CopyBoardModal from './CopyBoardModal';
 
 // Types for Board Management
 export interface Board {
@@ -45,13 +49,20 @@ export interface Board {
       firstName: string;
       lastName: string;
       avatar?: string;
+      // App role, to tell clients apart from staff
+      role?: string;
     };
-    role: 'owner' | 'admin' | 'member' | 'viewer';
+    role: 'owner' | 'admin' | 'editor' | 'member' | 'viewer';
     joinedAt: Date;
+    direct?: boolean;
+    viaTeams?: Array<{ _id: string; name: string }>;
   }>;
+  teams?: BoardTeam[];
   listsCount?: number;
   cardsCount?: number;
   isStarred?: boolean;
+  labels?: BoardLabel[];
+  customFields?: CustomFieldDefinition[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -68,6 +79,8 @@ interface BoardCardProps {
   onView: (id: string) => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
+  onSaveAsTemplate: (id: string) => void;
+  onCopy: (id: string) => void;
   onArchive: (id: string) => void;
   onStar: (id: string) => void;
   canEdit: boolean;
@@ -86,14 +99,23 @@ interface EditBoardModalProps {
   }) => Promise<void> | void;
 }
 
+// Save As Template Modal Component
+interface SaveAsTemplateModalProps {
+  board: Board;
+  onClose: () => void;
+}
+
 // Create Board Form Component (Non-modal)
 interface CreateBoardFormProps {
   onSubmit: (data: {
     name: string;
     description?: string;
     background?: string;
+    templateId?: string;
   }) => Promise<void> | void;
   onCancel: () => void;
+  currentUserId?: string;
+  canDeleteAllTemplates: boolean;
 }
 
 
@@ -374,13 +396,130 @@ className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-
   );
 };
 
+// Save As Template Modal Component
+const SaveAsTemplateModal: React.FC<SaveAsTemplateModalProps> = ({ board, onClose }) => {
+  const [formData, setFormData] = useState({
+    name: `${board.name} Template`,
+    description: board.description || '',
+    isShared: false
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await templatesApi.saveBoardAsTemplate(board._id, formData);
+      toast.success('Board saved as template');
+      onClose();
+    } catch (error) {
+      console.error('Error saving board as template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-gray-900 rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden border border-gray-200 dark:border-gray-800 animate-in slide-in-from-bottom-4 duration-300">
+        {/* Header */}
+        <div className="border-b border-gray-200 dark:border-gray-800 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Save as Template</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Lists, list settings, labels, card tasks and workflow stages are saved. Members and comments are not.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-5 overflow-y-auto max-h-[calc(90vh-140px)]">
+          {/* Template Name */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Template Name *
+            </label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              maxLength={100}
+              required
+              className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#17b6b2] focus:border-transparent transition-colors"
+            />
+          </div>
+
+          {/* Description */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Description (Optional)
+            </label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="When should this template be used?"
+              maxLength={500}
+              rows={3}
+              className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#17b6b2] focus:border-transparent transition-colors resize-none"
+            />
+          </div>
+
+          {/* Sharing */}
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.isShared}
+              onChange={(e) => setFormData({ ...formData, isShared: e.target.checked })}
+              className="mt-0.5 w-4 h-4 rounded border-gray-300 text-[#17b6b2] focus:ring-[#17b6b2]"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Share with everyone</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                Shared templates appear in every user&apos;s template gallery
+              </span>
+            </span>
+          </label>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-2 border-t border-gray-200 dark:border-gray-800 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-6 py-2.5 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !formData.name.trim()}
+              className="flex-1 px-6 py-2.5 bg-[#17b6b2] text-white font-medium rounded-lg hover:bg-[#15a09d] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSubmitting ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
 // Create Board Form Component (Non-modal)
-const CreateBoardForm: React.FC<CreateBoardFormProps> = ({ onSubmit, onCancel }) => {
+const CreateBoardForm: React.FC<CreateBoardFormProps> = ({ onSubmit, onCancel, currentUserId, canDeleteAllTemplates }) => {
   const [formData, setFormData] = useState({
     name: '',
     description: '',
     background: '#6366f1'
   });
+  const [selectedTemplate, setSelectedTemplate] = useState<BoardTemplate | null>(null);
   const [backgroundType, setBackgroundType] = useState<'color' | 'image'>('color');
   const [, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string>('');
@@ -424,11 +563,19 @@ const CreateBoardForm: React.FC<CreateBoardFormProps> = ({ onSubmit, onCancel })
     }
   };
 
+  // Templates bring their own colour unless the user already uploaded an image
+  const handleTemplateSelect = (template: BoardTemplate | null) => {
+    setSelectedTemplate(template);
+    if (template && backgroundType === 'color') {
+      setFormData(prev => ({ ...prev, background: template.background }));
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
     try {
-      await onSubmit(formData);
+      await onSubmit({ ...formData, templateId: selectedTemplate?._id });
     } catch (error) {
       console.error('Error creating board:', error);
     } finally {
@@ -445,6 +592,14 @@ const CreateBoardForm: React.FC<CreateBoardFormProps> = ({ onSubmit, onCancel })
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Set up a new board to organize your work</p>
         </div>
 
+        {/* Template Gallery */}
+        <BoardTemplateGallery
+          selectedTemplateId={selectedTemplate?._id ?? null}
+          onSelect={handleTemplateSelect}
+          currentUserId={currentUserId}
+          canDeleteAll={canDeleteAllTemplates}
+        />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Left Column - Form Fields */}
           <div className="space-y-5">
@@ -649,6 +804,8 @@ const BoardCard: React.FC<BoardCardProps> = ({
   onView,
   onEdit,
   onDelete,
+  onSaveAsTemplate,
+  onCopy,
   onStar,
   canEdit,
   canDelete}) => {
@@ -902,6 +1059,34 @@ const BoardCard: React.FC<BoardCardProps> = ({
               Edit Details
             </button>
           )}
+          {canEdit && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                e.preventDefault();
+                setShowMenu(false);
+                setTimeout(() => onSaveAsTemplate(board._id), 50);
+              }}
+              className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors flex items-center gap-2.5"
+            >
+              <LayoutTemplate className="w-4 h-4 text-gray-500" strokeWidth={1.5} />
+              Save as Template
+            </button>
+          )}
+          {canEdit && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                e.preventDefault();
+                setShowMenu(false);
+                setTimeout(() => onCopy(board._id), 50);
+              }}
+              className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors flex items-center gap-2.5"
+            >
+              <CopyPlus className="w-4 h-4 text-gray-500" strokeWidth={1.5} />
+              Copy Board
+            </button>
+          )}
           {canDelete && (
             <>
               <div className="my-1 border-t border-gray-100 dark:border-gray-700"></div>
@@ -940,6 +1125,8 @@ const BoardManagement: React.FC<BoardManagementProps> = ({ userRole, baseUrl })
   const [sortBy, setSortBy] = useState<'latest' | 'oldest' | 'name'>('latest');
   const [showFilters, setShowFilters] = useState(false);
   const [editingBoard, setEditingBoard] = useState<Board | null>(null);
+  const [templateBoard, setTemplateBoard] = useState<Board | null>(null);
+  const [copyingBoard, setCopyingBoard] = useState<Board | null>(null);
   const [activeTab, setActiveTab] = useState<'boards' | 'create-board'>('boards');
 
   // Role-based permissions
@@ -1054,6 +1241,7 @@ const BoardManagement: React.FC<BoardManagementProps> = ({ userRole, baseUrl })
     name: string;
     description?: string;
     background?: string;
+    templateId?: string;
   }) => {
     try {
       await boardsApi.createBoard(data);
@@ -1100,6 +1288,25 @@ const BoardManagement: React.FC<BoardManagementProps> = ({ userRole, baseUrl })
     }
   };
 
+  const handleSaveAsTemplate = (boardId: string) => {
+    const board = boards.find(b => b._id === boardId);
+    if (board) {
+      setTemplateBoard(board);
+    }
+  };
+
+  const handleCopyBoard = (boardId: string) => {
+    const board = boards.find(b => b._id === boardId);
+    if (board) {
+      setCopyingBoard(board);
+    }
+  };
+
+  const handleBoardCopied = async () => {
+    setCopyingBoard(null);
+    await loadBoards();
+  };
+
   const handleDeleteBoard = async (boardId: string) => {
     const board = boards.find(b => b._id === boardId);
     const boardName = board?.name || 'this board';
@@ -1461,6 +1668,8 @@ const BoardManagement: React.FC<BoardManagementProps> = ({ userRole, baseUrl })
               onView={handleViewBoard}
               onEdit={handleEditBoard}
               onDelete={handleDeleteBoard}
+              onSaveAsTemplate={handleSaveAsTemplate}
+              onCopy={handleCopyBoard}
               onArchive={handleArchiveBoard}
               onStar={handleStarBoard}
               canEdit={canEditAllBoards || board.createdBy?._id === user?._id}
@@ -1477,6 +1686,8 @@ const BoardManagement: React.FC<BoardManagementProps> = ({ userRole, baseUrl })
         <CreateBoardForm
           onSubmit={handleCreateBoardSubmit}
           onCancel={() => setActiveTab('boards')}
+          currentUserId={user?._id}
+          canDeleteAllTemplates={canEditAllBoards}
         />
       )}
 
@@ -1488,6 +1699,23 @@ const BoardManagement: React.FC<BoardManagementProps> = ({ userRole, baseUrl })
           onSubmit={handleEditBoardSubmit}
         />
       )}
+
+      {/* Save As Template Modal */}
+      {templateBoard && (
+        <SaveAsTemplateModal
+          board={templateBoard}
+          onClose={() => setTemplateBoard(null)}
+        />
+      )}
+
+      {/* Copy Board Modal */}
+      {copyingBoard && (
+        <CopyBoardModal
+          board={copyingBoard}
+          onClose={() => setCopyingBoard(null)}
+          onCopied={handleBoardCopied}
+        />
+      )}
     </div>
   );
 };
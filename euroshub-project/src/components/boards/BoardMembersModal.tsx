@@ -1,9 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, Search, UserPlus, Users, Shield, Eye, Edit, Crown } from 'lucide-react';
+import { X, Search, UserPlus, Users, Shield, Eye, Edit, Crown, UsersRound, UserCheck } from 'lucide-react';
 import Portal from '../shared/Portal';
-import { usersApi, User as FullUser } from '@/services/trelloBoardsApi';
+import { usersApi, teamsApi, User as FullUser, Team, BoardTeamRole } from '@/services/trelloBoardsApi';
 
 // Board member user info (limited fields from backend)
 interface BoardMemberUser {
@@ -17,17 +17,38 @@ interface BoardMember {
   userId: BoardMemberUser;
   role: string;
   joinedAt: Date;
+  direct?: boolean;
+  viaTeams?: Array<{ _id: string; name: string }>;
 }
 
+// A team on the board, with how many people it brings
+export interface BoardMembersTeam {
+  _id: string;
+  name: string;
+  role: BoardTeamRole;
+  memberCount: number;
+}
+
+const TEAM_ROLES: Array<{ value: BoardTeamRole; label: string }> = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'member', label: 'Member' },
+  { value: 'viewer', label: 'Viewer' }
+];
+
 interface BoardMembersModalProps {
   isOpen: boolean;
   onClose: () => void;
   boardId: string;
   boardTitle: string;
   currentMembers: BoardMember[];
+  currentTeams: BoardMembersTeam[];
   onAddMember: (userId: string, role: string) => void;
   onRemoveMember: (userId: string) => void;
   onUpdateMemberRole: (userId: string, newRole: string) => void;
+  onAddTeam: (teamId: string, role: BoardTeamRole) => void;
+  onRemoveTeam: (teamId: string) => void;
+  onUpdateTeamRole: (teamId: string, role: BoardTeamRole) => void;
   currentUserId?: string;
 }
 
@@ -36,14 +57,21 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
   onClose,
   boardTitle,
   currentMembers,
+  currentTeams,
   onAddMember,
   onRemoveMember,
   onUpdateMemberRole,
+  onAddTeam,
+  onRemoveTeam,
+  onUpdateTeamRole,
   currentUserId
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [departmentFilter, setDepartmentFilter] = useState('all');
   const [selectedRole, setSelectedRole] = useState('viewer');
   const [allUsers, setAllUsers] = useState<FullUser[]>([]);
+  const [allTeams, setAllTeams] = useState<Team[]>([]);
+  const [selectedTeamRole, setSelectedTeamRole] = useState<BoardTeamRole>('member');
   const [isLoading, setIsLoading] = useState(false);
 
   // Board-level roles with detailed permissions
@@ -62,7 +90,7 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
       icon: Shield,
       color: 'text-red-600 bg-red-100 border-red-200',
       description: 'Can manage board settings and members',
-      permissions: ['Edit board', 'Manage members', 'Create/delete lists', 'Manage cards']
+      permissions: ['Edit board', 'Manage members', 'Create/delete lists', 'Custom fields and automations']
     },
     {
       value: 'editor',
@@ -70,15 +98,23 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
       icon: Edit,
       color: 'text-blue-600 bg-blue-100 border-blue-200',
       description: 'Can edit board content and manage cards',
-      permissions: ['Edit cards', 'Create lists', 'Move cards', 'Add comments']
+      permissions: ['Create/archive lists', 'Edit and move cards', 'Delete cards', 'Upload files']
+    },
+    {
+      value: 'member',
+      label: 'Member',
+      icon: UserCheck,
+      color: 'text-green-600 bg-green-100 border-green-200',
+      description: 'Can work on cards without changing the board',
+      permissions: ['Create cards', 'Edit and move cards', 'Upload files', 'Add comments']
     },
     {
       value: 'viewer',
       label: 'Viewer',
       icon: Eye,
       color: 'text-gray-600 bg-gray-100 border-gray-200',
-      description: 'Can only view board content',
-      permissions: ['View board', 'View cards', 'Read comments']
+      description: 'Can view board content and comment',
+      permissions: ['View board', 'View cards and files', 'Add comments']
     }
   ];
 
@@ -92,12 +128,14 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
   const fetchAllUsers = async () => {
     setIsLoading(true);
     try {
-      const users = await usersApi.getAllUsers();
+      const [users, teams] = await Promise.all([usersApi.getAllUsers(), teamsApi.getTeams()]);
       setAllUsers(users);
+      setAllTeams(teams);
     } catch (error) {
       console.error('Error fetching users:', error);
       // Fallback to empty array if API fails
       setAllUsers([]);
+      setAllTeams([]);
     } finally {
       setIsLoading(false);
     }
@@ -112,12 +150,17 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
     user._id !== currentUserId
   );
 
+  const departments = [...new Set(allUsers.map(user => user.department).filter((name): name is string => Boolean(name)))].sort();
   const filteredUsers = availableUsers.filter(user =>
-    `${user.firstName} ${user.lastName} ${user.email}`.toLowerCase().includes(searchTerm.toLowerCase())
+    `${user.firstName} ${user.lastName} ${user.email}`.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (departmentFilter === 'all' || user.department === departmentFilter)
   );
 
+  const currentTeamIds = currentTeams.map(team => team._id);
+  const availableTeams = allTeams.filter(team => !currentTeamIds.includes(team._id));
+
   const getRoleInfo = (roleValue: string) => {
-    return boardRoles.find(role => role.value === roleValue) || boardRoles[3]; // Default to viewer
+    return boardRoles.find(role => role.value === roleValue) || boardRoles[boardRoles.length - 1]; // Default to viewer
   };
 
   const handleAddMember = (userId: string) => {
@@ -158,6 +201,49 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
           <div className="flex-1 overflow-hidden flex">
             {/* Current Members Panel */}
             <div className="flex-1 p-6 overflow-y-auto border-r border-gray-200 dark:border-gray-700">
+              {currentTeams.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+                    Teams ({currentTeams.length})
+                  </h3>
+                  <div className="space-y-2">
+                    {currentTeams.map(team => (
+                      <div
+                        key={team._id}
+                        className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 flex items-center gap-3"
+                      >
+                        <div className="w-10 h-10 rounded-full bg-teal-100 dark:bg-teal-900/40 flex items-center justify-center flex-shrink-0">
+                          <UsersRound className="w-5 h-5 text-teal-600 dark:text-teal-400" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <h4 className="font-medium text-gray-900 dark:text-white truncate">{team.name}</h4>
+                          <p className="text-sm text-gray-600 dark:text-gray-400">
+                            {team.memberCount} member{team.memberCount === 1 ? '' : 's'} · joins and leaves follow the team
+                          </p>
+                        </div>
+                        <div className="flex flex-col items-end gap-2">
+                          <select
+                            value={team.role}
+                            onChange={(e) => onUpdateTeamRole(team._id, e.target.value as BoardTeamRole)}
+                            className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                          >
+                            {TEAM_ROLES.map(role => (
+                              <option key={role.value} value={role.value}>{role.label}</option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => onRemoveTeam(team._id)}
+                            className="text-xs text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-200"
+                          >
+                            Remove team
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
                 Current Members ({currentMembers.length})
               </h3>
@@ -178,6 +264,9 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
                     const roleInfo = getRoleInfo(member.role);
                     const isOwner = isCreator(member);
                     const Icon = roleInfo.icon;
+                    const viaTeams = member.viaTeams || [];
+                    // People who are only here through a team leave when they leave the team
+                    const onlyThroughTeams = member.direct === false && viaTeams.length > 0;
 
                     return (
                       <div
@@ -216,6 +305,11 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
                                 <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
                                   Member since {new Date(member.joinedAt).toLocaleDateString()}
                                 </p>
+                                {viaTeams.length > 0 && (
+                                  <p className="text-xs text-teal-600 dark:text-teal-400 truncate">
+                                    Via {viaTeams.map(team => team.name).join(', ')}
+                                  </p>
+                                )}
                               </div>
 
                               {/* Role Controls */}
@@ -236,7 +330,7 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
                                   </select>
                                 </div>
 
-                                {!isOwner && (
+                                {!isOwner && !onlyThroughTeams && (
                                   <button
                                     onClick={() => onRemoveMember(member.userId._id)}
                                     className="text-xs text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-200"
@@ -307,15 +401,29 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
               </div>
 
               {/* Search Users */}
-              <div className="relative mb-4">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
-                <input
-                  type="text"
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  placeholder="Search users..."
-                  className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                />
+              <div className="flex gap-2 mb-4">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <input
+                    type="text"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    placeholder="Search users..."
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </div>
+                {departments.length > 0 && (
+                  <select
+                    value={departmentFilter}
+                    onChange={(e) => setDepartmentFilter(e.target.value)}
+                    className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="all">All departments</option>
+                    {departments.map(department => (
+                      <option key={department} value={department}>{department}</option>
+                    ))}
+                  </select>
+                )}
               </div>
 
               {/* Available Users */}
@@ -362,7 +470,7 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
                           {user.firstName} {user.lastName}
                         </h4>
                         <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
-                          {user.email}
+                          {user.department ? `${user.department} · ${user.email}` : user.email}
                         </p>
                       </div>
 
@@ -377,6 +485,59 @@ const BoardMembersModal: React.FC<BoardMembersModalProps> = ({
                   ))
                 )}
               </div>
+
+              {/* Add Teams */}
+              <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white">Add a Team</h3>
+                  <select
+                    value={selectedTeamRole}
+                    onChange={(e) => setSelectedTeamRole(e.target.value as BoardTeamRole)}
+                    className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    title="Role the team's members get"
+                  >
+                    {TEAM_ROLES.map(role => (
+                      <option key={role.value} value={role.value}>As {role.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                  {isLoading ? (
+                    <div className="text-center py-4 text-gray-500 dark:text-gray-400">
+                      Loading teams...
+                    </div>
+                  ) : availableTeams.length === 0 ? (
+                    <div className="text-center py-4 text-gray-500 dark:text-gray-400">
+                      <p>{allTeams.length === 0 ? 'No teams have been created yet' : 'All teams are already on this board'}</p>
+                    </div>
+                  ) : (
+                    availableTeams.map(team => (
+                      <div
+                        key={team._id}
+                        className="flex items-center gap-3 p-3 border border-gray-200 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                      >
+                        <div className="w-8 h-8 rounded-full bg-teal-100 dark:bg-teal-900/40 flex items-center justify-center flex-shrink-0">
+                          <UsersRound className="w-4 h-4 text-teal-600 dark:text-teal-400" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <h4 className="font-medium text-gray-900 dark:text-white truncate">{team.name}</h4>
+                          <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                            {team.members.length} member{team.members.length === 1 ? '' : 's'}
+                            {team.department && ` · ${team.department}`}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => onAddTeam(team._id, selectedTeamRole)}
+                          className="flex items-center gap-1 px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
+                        >
+                          <UserPlus className="w-4 h-4" />
+                          Add
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
             </div>
           </div>
 
@@ -0,0 +1,166 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { LayoutTemplate, Plus, Trash2, Users, Sparkles } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { templatesApi, BoardTemplate } from '@/services/trelloBoardsApi';
+
+interface BoardTemplateGalleryProps {
+  selectedTemplateId: string | null;
+  onSelect: (template: BoardTemplate | null) => void;
+  currentUserId?: string;
+  canDeleteAll: boolean;
+}
+
+const getBackgroundStyle = (background: string) =>
+  background.startsWith('#')
+    ? { backgroundColor: background }
+    : { backgroundImage: `url(${background})`, backgroundSize: 'cover', backgroundPosition: 'center' };
+
+const BoardTemplateGallery: React.FC<BoardTemplateGalleryProps> = ({
+  selectedTemplateId,
+  onSelect,
+  currentUserId,
+  canDeleteAll
+}) => {
+  const [templates, setTemplates] = useState<BoardTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        setLoading(true);
+        setTemplates(await templatesApi.getTemplates());
+      } catch (error) {
+        console.error('Error loading board templates:', error);
+        toast.error('Failed to load board templates');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTemplates();
+  }, []);
+
+  const handleDelete = async (e: React.SyntheticEvent, template: BoardTemplate) => {
+    e.stopPropagation();
+    if (!confirm(`Delete the template "${template.name}"? Boards created from it are not affected.`)) return;
+
+    try {
+      await templatesApi.deleteTemplate(template._id);
+      setTemplates(prev => prev.filter(t => t._id !== template._id));
+      if (selectedTemplateId === template._id) onSelect(null);
+      toast.success('Template deleted');
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete template');
+    }
+  };
+
+  const tileClass = (selected: boolean) =>
+    `relative text-left rounded-lg border-2 overflow-hidden transition-all hover:shadow-md ${
+      selected
+        ? 'border-[#17b6b2] ring-2 ring-[#17b6b2]/20'
+        : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+    }`;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+        Start From
+      </label>
+
+      {loading ? (
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3">
+          {[0, 1, 2, 3].map(i => (
+            <div key={i} className="h-28 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3">
+          {/* Blank board */}
+          <button type="button" onClick={() => onSelect(null)} className={tileClass(selectedTemplateId === null)}>
+            <div className="h-2 bg-gray-200 dark:bg-gray-700" />
+            <div className="p-3">
+              <div className="flex items-center gap-2 mb-1">
+                <Plus className="w-4 h-4 text-gray-500" strokeWidth={1.5} />
+                <span className="font-medium text-sm text-gray-900 dark:text-white">Blank board</span>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2">
+                To Do, In Progress, Review and Done lists
+              </p>
+            </div>
+          </button>
+
+          {templates.map(template => {
+            const canDelete = !template.isBuiltIn && (canDeleteAll || template.createdBy?._id === currentUserId);
+            return (
+              <button
+                key={template._id}
+                type="button"
+                onClick={() => onSelect(template)}
+                className={`group ${tileClass(selectedTemplateId === template._id)}`}
+              >
+                <div className="h-2" style={getBackgroundStyle(template.background)} />
+                <div className="p-3">
+                  <div className="flex items-center gap-2 mb-1 pr-6">
+                    {template.isBuiltIn ? (
+                      <Sparkles className="w-4 h-4 text-[#17b6b2] flex-shrink-0" strokeWidth={1.5} />
+                    ) : (
+                      <LayoutTemplate className="w-4 h-4 text-gray-500 flex-shrink-0" strokeWidth={1.5} />
+                    )}
+                    <span className="font-medium text-sm text-gray-900 dark:text-white truncate">{template.name}</span>
+                  </div>
+                  {template.description && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2 mb-2">{template.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-1 mb-2">
+                    {template.lists.slice(0, 5).map((list, index) => (
+                      <span
+                        key={`${list.name}-${index}`}
+                        className="px-1.5 py-0.5 rounded text-[10px] font-medium text-white"
+                        style={{ backgroundColor: list.color || '#6B7280' }}
+                      >
+                        {list.name}
+                      </span>
+                    ))}
+                    {template.lists.length > 5 && (
+                      <span className="text-[10px] text-gray-500 dark:text-gray-400">+{template.lists.length - 5}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 text-[11px] text-gray-400 dark:text-gray-500">
+                    <span>{template.cardsCount} {template.cardsCount === 1 ? 'card' : 'cards'}</span>
+                    <span>·</span>
+                    <span>{template.tasksCount} {template.tasksCount === 1 ? 'task' : 'tasks'}</span>
+                    {!template.isBuiltIn && template.isShared && (
+                      <span className="inline-flex items-center gap-0.5 ml-auto" title="Shared with everyone">
+                        <Users className="w-3 h-3" strokeWidth={1.5} />
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                {canDelete && (
+                  <span
+                    role="button"
+                    tabIndex={0}
+                    onClick={(e) => handleDelete(e, template)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleDelete(e, template);
+                    }}
+                    className="absolute top-3 right-2 p-1 rounded-md text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete template"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" strokeWidth={1.5} />
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BoardTemplateGallery;
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import {
   ArrowLeft,
   Star,
@@ -10,7 +10,16 @@ import {
   Trash2,
   Edit,
   Archive,
-  X
+  CopyPlus,
+  Filter,
+  LayoutGrid,
+  CalendarDays,
+  GanttChart,
+  Table2,
+  Zap,
+  Clock,
+  SlidersHorizontal,
+  Tag
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useSocketContext } from '@/contexts/SocketContext';
@@ -18,12 +27,39 @@ import { useBoardStats } from '@/contexts/BoardStatsContext';
 import { ListData, Card } from './lists/ListContainer';
 import SortableListContainer from './lists/SortableListContainer';
 import CreateListForm from './lists/CreateListForm';
-import ProjectModal from './cards/ProjectModal';
+import WipOverrideModal from './lists/WipOverrideModal';
+import ProjectModal, { ProjectModalTab } from './cards/ProjectModal';
 import DragDropProvider from './DragDropProvider';
 import { Board, UserRole } from './BoardManagement';
-import { boardsApi, listsApi, cardsApi } from '@/services/trelloBoardsApi';
+import {
+  boardsApi,
+  listsApi,
+  cardsApi,
+  BoardLabel,
+  BoardLabelChange,
+  BoardTeamRole,
+  CardLabel,
+  CardWorkflow,
+  CustomFieldDefinition
+} from '@/services/trelloBoardsApi';
 import BoardSwitcherDock from './BoardSwitcherDock';
 import BoardMembersModal from './BoardMembersModal';
+import CopyBoardModal from './CopyBoardModal';
+import BoardAutomationsModal from './automations/BoardAutomationsModal';
+import CustomFieldsModal from './customFields/CustomFieldsModal';
+import BoardLabelsModal from './labels/BoardLabelsModal';
+import ArchivedItemsModal from './archive/ArchivedItemsModal';
+import { applyLabelChangeToCards, hasLabel } from './labels/labelUtils';
+import BoardFilterBar from './BoardFilterBar';
+import { useBoardFilters } from './hooks/useBoardFilters';
+import { useBoardPermissions } from './hooks/useBoardPermissions';
+import BoardCalendar from './calendar/BoardCalendar';
+import { CalendarItem } from './calendar/calendarUtils';
+import TimelineView from './timeline/TimelineView';
+import { TimelineRow } from './timeline/timelineUtils';
+import BoardTableView from './table/BoardTableView';
+import ActiveTimerIndicator from './time/ActiveTimerIndicator';
+import BoardTimeReportModal from './time/BoardTimeReportModal';
 import toast from 'react-hot-toast';
 
 // Task interface for socket events
@@ -41,7 +77,7 @@ interface Task {
   priority: 'low' | 'medium' | 'high';
   description?: string;
   createdAt: Date;
-  dependsOn?: string;
+  dependsOn?: string[];
   isLocked?: boolean;
   lockedReason?: string;
   unlockedAt?: Date;
@@ -134,6 +170,22 @@ className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounde
   );
 };
 
+type BoardViewMode = 'board' | 'calendar' | 'timeline' | 'table';
+
+const VIEW_OPTIONS: Array<{ id: BoardViewMode; label: string; icon: typeof LayoutGrid }> = [
+  { id: 'board', label: 'Board', icon: LayoutGrid },
+  { id: 'calendar', label: 'Calendar', icon: CalendarDays },
+  { id: 'timeline', label: 'Timeline', icon: GanttChart },
+  { id: 'table', label: 'Table', icon: Table2 }
+];
+
+// Add a card to the end of a list, unless the list already has it
+const addCardToList = (cards: Record<string, Card[]>, listId: string, card: Card) => {
+  const listCards = cards[listId] || [];
+  if (listCards.some(item => item._id === card._id)) return cards;
+  return { ...cards, [listId]: [...listCards, card] };
+};
+
 interface BoardViewProps {
   boardId: string;
   userRole: UserRole;
@@ -142,6 +194,8 @@ interface BoardViewProps {
 
 const BoardView: React.FC<BoardViewProps> = ({ boardId, userRole, baseUrl }) => {
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const { user } = useAuth();
   const { socket, isConnected } = useSocketContext();
   const { updateBoardStats } = useBoardStats();
@@ -153,28 +207,63 @@ const BoardView: React.FC<BoardViewProps> = ({ boardId, userRole, baseUrl }) =>
   const [showMenu, setShowMenu] = useState(false);
   const [selectedCard, setSelectedCard] = useState<Card | null>(null);
   const [showCardModal, setShowCardModal] = useState(false);
+  const [cardModalTab, setCardModalTab] = useState<ProjectModalTab>('overview');
   const [showMembersModal, setShowMembersModal] = useState(false);
   const [showErrorModal, setShowErrorModal] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [showEditModal, setShowEditModal] = useState(false);
-  const [showArchivedListsModal, setShowArchivedListsModal] = useState(false);
+  const [showCopyModal, setShowCopyModal] = useState(false);
+  const [showAutomationsModal, setShowAutomationsModal] = useState(false);
+  const [showCustomFieldsModal, setShowCustomFieldsModal] = useState(false);
+  const [showLabelsModal, setShowLabelsModal] = useState(false);
+  const [showTimeReport, setShowTimeReport] = useState(false);
+  const [showFilterBar, setShowFilterBar] = useState(false);
+  const { filters, isActive: isFilterActive, setFilters, clearFilters, matchesCard } = useBoardFilters();
+  const [showArchiveModal, setShowArchiveModal] = useState(false);
+  // Move waiting for a board admin to justify going past a blocking WIP limit
+  const [pendingWipOverride, setPendingWipOverride] = useState<{
+    cardId: string;
+    fromListId: string;
+    toListId: string;
+    newPosition: number;
+  } | null>(null);
   const [archivedLists, setArchivedLists] = useState<ListData[]>([]);
 
   // Permission checks
-  const getCurrentUserBoardRole = () => {
-    if (!user || !board) return null;
-const member = board.members?.find(m => m.userId?._id === user.id);    return member?.role || null;
+  const { can } = useBoardPermissions(board, user?.id, userRole);
+
+  const allCards = Object.values(cards).flat();
+  const boardMembers = (board?.members || []).flatMap(member => (member.userId ? [member.userId] : []));
+  // Teams on the board, for managing access and assigning workflow stages and tasks
+  const boardTeams = (board?.teams || []).flatMap(team => (team.teamId ? [{ ...team.teamId, role: team.role }] : []));
+  const boardClients = (board?.members || []).flatMap(member => (member.userId?.role === 'client' ? [member.userId] : []));
+  const customFields = board?.customFields || [];
+
+  const setCustomFields = (fields: CustomFieldDefinition[]) => {
+    setBoard(prev => (prev ? { ...prev, customFields: fields } : prev));
+  };
+
+  const boardLabels = board?.labels || [];
+
+  const setBoardLabels = (labels: BoardLabel[], change?: BoardLabelChange) => {
+    setBoard(prev => (prev ? { ...prev, labels } : prev));
+    if (change) setCards(prev => applyLabelChangeToCards(prev, change));
   };
 
-  const currentUserBoardRole = getCurrentUserBoardRole();
-  const canEditBoard = ['superadmin', 'admin'].includes(userRole) ||
-board?.createdBy?._id === user?.id ||                      ['owner', 'admin', 'editor'].includes(currentUserBoardRole || '');
-  const canDeleteBoard = ['superadmin', 'admin'].includes(userRole) ||
-board?.createdBy?._id === user?.id ||                         currentUserBoardRole === 'owner';
-  const canCreateLists = ['superadmin', 'admin', 'hr', 'employee'].includes(userRole) ||
-                        ['owner', 'admin', 'editor'].includes(currentUserBoardRole || '');
-  const canManageMembers = ['superadmin', 'admin'].includes(userRole) ||
-board?.createdBy?._id === user?.id ||                          ['owner', 'admin'].includes(currentUserBoardRole || '');
+  // Current view is kept in the URL (?view=calendar) so it survives reloads and shared links
+  const viewParam = searchParams.get('view');
+  const viewMode: BoardViewMode = VIEW_OPTIONS.some(option => option.id === viewParam) ? viewParam as BoardViewMode : 'board';
+
+  const handleViewChange = (mode: BoardViewMode) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (mode === 'board') {
+      params.delete('view');
+    } else {
+      params.set('view', mode);
+    }
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
 
   // Load board data
   useEffect(() => {
@@ -182,6 +271,30 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [boardId]);
 
+  // Open the card linked from search (?card=...&tab=...) once the board has loaded
+  useEffect(() => {
+    const linkedCardId = searchParams.get('card');
+    if (!linkedCardId || loading) return;
+
+    const linkedCard = allCards.find(card => card._id === linkedCardId);
+    if (linkedCard) {
+      const tab = searchParams.get('tab') as ProjectModalTab | null;
+      setCardModalTab(tab && ['overview', 'tasks', 'workflow', 'time', 'files', 'comments', 'activity'].includes(tab) ? tab : 'overview');
+      setSelectedCard(linkedCard);
+      setShowCardModal(true);
+    } else {
+      toast.error('Card not found on this board');
+    }
+
+    // Drop the link parameters so closing the card does not open it again
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete('card');
+    params.delete('tab');
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams, loading]);
+
   // Update board stats in context whenever lists or cards change
   useEffect(() => {
     if (lists.length > 0 || Object.keys(cards).length > 0) {
@@ -269,6 +382,69 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
       });
     };
 
+    // Listen for cards moved by a list auto-move rule
+    const handleCardAutoMoved = (data: { cardId: string; fromListId: string; toListId: string }) => {
+      setCards(prev => {
+        const movedCard = Object.values(prev).flat().find(card => card._id === data.cardId);
+        if (!movedCard) return prev;
+
+        const newCards = { ...prev };
+        Object.keys(newCards).forEach(listId => {
+          newCards[listId] = newCards[listId].filter(card => card._id !== data.cardId);
+        });
+        newCards[data.toListId] = [...(newCards[data.toListId] || []), { ...movedCard, listId: data.toListId }];
+        return newCards;
+      });
+    };
+
+    // Listen for board automation runs and reload the card they changed
+    const handleAutomationRan = async (data: { automationId: string; cardId: string; status: string }) => {
+      try {
+        const fetchedCard = await cardsApi.getCard(data.cardId);
+        // The card endpoint populates listId
+        const rawListId = fetchedCard.listId as string | { _id: string };
+        const updatedCard = {
+          ...fetchedCard,
+          listId: typeof rawListId === 'string' ? rawListId : rawListId._id
+        } as unknown as Card;
+        setCards(prev => {
+          if (!Object.values(prev).flat().some(card => card._id === data.cardId)) return prev;
+
+          const newCards = { ...prev };
+          Object.keys(newCards).forEach(listId => {
+            newCards[listId] = newCards[listId].filter(card => card._id !== data.cardId);
+          });
+          newCards[updatedCard.listId] = [...(newCards[updatedCard.listId] || []), updatedCard]
+            .sort((a, b) => a.position - b.position);
+          return newCards;
+        });
+      } catch (error) {
+        console.error('Error refreshing card after automation:', error);
+      }
+    };
+
+    // Listen for workflow changes, which may also move the card to a stage's list
+    const handleCardWorkflowUpdated = (data: { cardId: string; workflow: CardWorkflow }) => {
+      const { listId, ...workflowFields } = data.workflow;
+      setCards(prev => {
+        const currentCard = Object.values(prev).flat().find(card => card._id === data.cardId);
+        if (!currentCard) return prev;
+
+        const updatedCard = { ...currentCard, ...workflowFields, listId } as Card;
+        if (currentCard.listId === listId) {
+          return {
+            ...prev,
+            [listId]: prev[listId].map(card => (card._id === data.cardId ? updatedCard : card))
+          };
+        }
+
+        const newCards = { ...prev };
+        newCards[currentCard.listId] = newCards[currentCard.listId].filter(card => card._id !== data.cardId);
+        newCards[listId] = [...(newCards[listId] || []), updatedCard];
+        return newCards;
+      });
+    };
+
     // Listen for list archiving
     const handleListArchived = (data: { listId: string; isArchived: boolean; list: ListData }) => {
       console.log('📦 List archived - Full data:', data);
@@ -313,20 +489,66 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
       toast.success('List restored successfully');
     };
 
+    // Another admin changed the board's custom fields
+    const handleCustomFieldsUpdated = (data: { boardId: string; customFields: CustomFieldDefinition[] }) => {
+      if (data.boardId !== boardId) return;
+      setBoard(prev => (prev ? { ...prev, customFields: data.customFields } : prev));
+    };
+
+    // The label palette changed; renames and deletions also change the cards
+    const handleLabelsUpdated = (data: { boardId: string; labels: BoardLabel[]; change: BoardLabelChange | null }) => {
+      if (data.boardId !== boardId) return;
+      setBoard(prev => (prev ? { ...prev, labels: data.labels } : prev));
+      if (data.change) {
+        const change = data.change;
+        setCards(prev => applyLabelChangeToCards(prev, change));
+      }
+    };
+
+    // Team changes add and remove people; only the member list is refreshed
+    const handleMembersUpdated = async (data: { boardId: string }) => {
+      if (data.boardId !== boardId) return;
+      try {
+        const boardData = await boardsApi.getBoard(boardId);
+        setBoard(prev => (prev ? { ...prev, members: boardData.members, teams: boardData.teams } : prev));
+      } catch (error) {
+        console.error('Error refreshing board members:', error);
+      }
+    };
+
+    // A card came back from the archive (the restoring client already added it)
+    const handleCardRestored = (data: { listId: string; card: Card }) => {
+      setCards(prev => addCardToList(prev, data.listId, data.card));
+    };
+
     socket.on('card:created', handleCardCreated);
     socket.on('task:created', handleTaskCreated);
     socket.on('task:updated', handleTaskUpdated);
     socket.on('task:deleted', handleTaskDeleted);
+    socket.on('card:auto-moved', handleCardAutoMoved);
+    socket.on('automation:ran', handleAutomationRan);
+    socket.on('card:workflow-updated', handleCardWorkflowUpdated);
     socket.on('list:archived', handleListArchived);
     socket.on('list:unarchived', handleListUnarchived);
+    socket.on('board:custom-fields-updated', handleCustomFieldsUpdated);
+    socket.on('board:labels-updated', handleLabelsUpdated);
+    socket.on('card:restored', handleCardRestored);
+    socket.on('board:members-updated', handleMembersUpdated);
 
     return () => {
       socket.off('card:created', handleCardCreated);
       socket.off('task:created', handleTaskCreated);
       socket.off('task:updated', handleTaskUpdated);
       socket.off('task:deleted', handleTaskDeleted);
+      socket.off('card:auto-moved', handleCardAutoMoved);
+      socket.off('automation:ran', handleAutomationRan);
+      socket.off('card:workflow-updated', handleCardWorkflowUpdated);
       socket.off('list:archived', handleListArchived);
       socket.off('list:unarchived', handleListUnarchived);
+      socket.off('board:custom-fields-updated', handleCustomFieldsUpdated);
+      socket.off('board:labels-updated', handleLabelsUpdated);
+      socket.off('card:restored', handleCardRestored);
+      socket.off('board:members-updated', handleMembersUpdated);
       socket.emit('leave-board', boardId);
       console.log(`📡 Left board room: ${boardId}`);
     };
@@ -640,31 +862,200 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
     }
 
     if (foundCard) {
+      setCardModalTab('overview');
       setSelectedCard(foundCard);
       setShowCardModal(true);
     }
   };
 
+  const openCard = (cardId: string, tab: ProjectModalTab) => {
+    const card = allCards.find(c => c._id === cardId);
+    if (card) {
+      setCardModalTab(tab);
+      setSelectedCard(card);
+      setShowCardModal(true);
+    }
+  };
+
+  // Apply a change to one card wherever it sits in the lists
+  const updateCardInState = (cardId: string, update: (card: Card) => Card) => {
+    setCards(prev => {
+      const newCards = { ...prev };
+      for (const listId in newCards) {
+        newCards[listId] = newCards[listId].map(card => (card._id === cardId ? update(card) : card));
+      }
+      return newCards;
+    });
+  };
+
+  const setCalendarItemDueDate = (item: CalendarItem, dueDate: Date) => {
+    updateCardInState(item.cardId, card => item.type === 'task'
+      ? { ...card, tasks: (card.tasks || []).map(task => (task._id === item.taskId ? { ...task, dueDate } : task)) }
+      : { ...card, dueDate });
+  };
+
+  // Calendar drag and drop: move the due date right away and roll back if the update fails
+  const handleRescheduleCalendarItem = async (item: CalendarItem, dueDate: Date) => {
+    const previousDueDate = item.dueDate;
+    setCalendarItemDueDate(item, dueDate);
+
+    try {
+      if (item.type === 'task' && item.taskId) {
+        await cardsApi.updateTask(item.cardId, item.taskId, { dueDate: dueDate.toISOString() });
+      } else {
+        await cardsApi.updateCard(item.cardId, { dueDate });
+      }
+      toast.success(`"${item.title}" moved to ${dueDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`);
+    } catch (err) {
+      console.error('Error rescheduling item:', err);
+      setCalendarItemDueDate(item, previousDueDate);
+      toast.error(err instanceof Error ? err.message : 'Failed to reschedule');
+    }
+  };
+
+  const setTimelineRowDates = (row: TimelineRow, startDate: Date | null, dueDate: Date | null) => {
+    updateCardInState(row.cardId, card => row.type === 'task'
+      ? { ...card, tasks: (card.tasks || []).map(task => (task._id === row.taskId ? { ...task, startDate, dueDate } : task)) }
+      : { ...card, startDate: startDate || undefined, dueDate: dueDate || undefined });
+  };
+
+  // Timeline drag and resize, saved the same way as calendar moves
+  const handleTimelineDatesChange = async (row: TimelineRow, dates: { startDate: Date; dueDate: Date }) => {
+    setTimelineRowDates(row, dates.startDate, dates.dueDate);
+
+    try {
+      if (row.type === 'task' && row.taskId) {
+        await cardsApi.updateTask(row.cardId, row.taskId, {
+          startDate: dates.startDate.toISOString(),
+          dueDate: dates.dueDate.toISOString()
+        });
+      } else {
+        await cardsApi.updateCard(row.cardId, dates);
+      }
+    } catch (err) {
+      console.error('Error updating dates:', err);
+      setTimelineRowDates(row, row.startDate, row.dueDate);
+      toast.error(err instanceof Error ? err.message : 'Failed to update dates');
+    }
+  };
+
+  // Table view bulk actions: apply to each card in turn and reload once if any of them fails
+  const handleMoveCardsToList = async (cardIds: string[], toListId: string) => {
+    const targetList = lists.find(list => list._id === toListId);
+    const movingIds = cardIds.filter(cardId => allCards.some(card => card._id === cardId && card.listId !== toListId));
+    if (!targetList || movingIds.length === 0) return;
+
+    const wipLimit = targetList.settings.wipLimit;
+    const targetCardCount = cards[toListId]?.length || 0;
+    if (wipLimit?.enabled && wipLimit.mode === 'block' && targetCardCount + movingIds.length > wipLimit.limit) {
+      const room = Math.max(0, wipLimit.limit - targetCardCount);
+      toast.error(`"${targetList.name}" has room for ${room} more card${room === 1 ? '' : 's'} under its WIP limit`);
+      return;
+    }
+
+    setCards(prev => {
+      const newCards: Record<string, Card[]> = {};
+      const moved: Card[] = [];
+      for (const listId in prev) {
+        newCards[listId] = prev[listId].filter(card => {
+          if (!movingIds.includes(card._id)) return true;
+          moved.push({ ...card, listId: toListId });
+          return false;
+        });
+      }
+      newCards[toListId] = [...(newCards[toListId] || []), ...moved];
+      return newCards;
+    });
+
+    try {
+      const startPosition = cards[toListId]?.length || 0;
+      for (const [index, cardId] of movingIds.entries()) {
+        await cardsApi.moveCard(cardId, toListId, startPosition + index);
+      }
+      toast.success(`${movingIds.length} card${movingIds.length === 1 ? '' : 's'} moved to "${targetList.name}"`);
+    } catch (err) {
+      console.error('Error moving cards:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to move cards');
+      await loadBoardData();
+    }
+  };
+
+  const handleBulkUpdateCards = async (cardIds: string[], updates: { dueDate: Date }) => {
+    try {
+      for (const cardId of cardIds) {
+        await cardsApi.updateCard(cardId, updates);
+        updateCardInState(cardId, card => ({ ...card, ...updates }));
+      }
+      toast.success(`${cardIds.length} card${cardIds.length === 1 ? '' : 's'} updated`);
+    } catch (err) {
+      console.error('Error updating cards:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to update cards');
+      await loadBoardData();
+    }
+  };
+
+  // Cards that already carry the label are left alone
+  const handleApplyLabel = async (cardIds: string[], label: CardLabel) => {
+    const targets = allCards.filter(card => cardIds.includes(card._id) && !hasLabel(card.labels, label.name));
+    try {
+      for (const card of targets) {
+        const updatedCard = await cardsApi.updateCard(card._id, { labels: [...(card.labels || []), label] });
+        updateCardInState(card._id, current => ({ ...current, labels: updatedCard.labels }));
+      }
+      toast.success(targets.length > 0
+        ? `Label "${label.name}" added to ${targets.length} card${targets.length === 1 ? '' : 's'}`
+        : `All selected cards already have "${label.name}"`);
+    } catch (err) {
+      console.error('Error applying label:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to apply label');
+      await loadBoardData();
+    }
+  };
+
+  const handleArchiveCards = async (cardIds: string[]) => {
+    try {
+      for (const cardId of cardIds) {
+        await cardsApi.archiveCard(cardId);
+        setCards(prev => {
+          const newCards = { ...prev };
+          for (const listId in newCards) {
+            newCards[listId] = newCards[listId].filter(card => card._id !== cardId);
+          }
+          return newCards;
+        });
+      }
+      toast.success(`${cardIds.length} card${cardIds.length === 1 ? '' : 's'} archived`);
+    } catch (err) {
+      console.error('Error archiving cards:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to archive cards');
+      await loadBoardData();
+    }
+  };
+
+  // Merge saved changes into the card on the board and in the open card modal
+  const applyCardChanges = (cardId: string, changes: Partial<Card>) => {
+    setCards(prev => {
+      const newCards = { ...prev };
+      for (const listId in newCards) {
+        newCards[listId] = newCards[listId].map(card =>
+          card._id === cardId ? { ...card, ...changes } : card
+        );
+      }
+      return newCards;
+    });
+
+    if (selectedCard?._id === cardId) {
+      setSelectedCard({ ...selectedCard, ...changes });
+    }
+  };
+
   const handleUpdateCard = async (cardId: string, updates: Partial<Card>) => {
     try {
       // Call backend API to update the card
       const updatedCard = await cardsApi.updateCard(cardId, updates);
 
       // Update local state with the response from backend
-      setCards(prev => {
-        const newCards = { ...prev };
-        for (const listId in newCards) {
-          newCards[listId] = newCards[listId].map(card =>
-            card._id === cardId ? { ...card, ...updatedCard } : card
-          );
-        }
-        return newCards;
-      });
-
-      // Update selected card if it's the one being updated
-      if (selectedCard?._id === cardId) {
-        setSelectedCard({ ...selectedCard, ...updatedCard });
-      }
+      applyCardChanges(cardId, updatedCard);
 
       console.log('Updated card:', cardId, updatedCard);
       toast.success(`Card "${updates.title || updatedCard.title || 'Card'}" updated successfully`);
@@ -757,7 +1148,7 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
   };
 
   // Drag and Drop handlers
-  const handleMoveCard = async (cardId: string, fromListId: string, toListId: string, newPosition: number) => {
+  const handleMoveCard = async (cardId: string, fromListId: string, toListId: string, newPosition: number, wipOverrideReason?: string) => {
     // Validate input parameters
     if (!cardId || !fromListId || !toListId || newPosition < 0) {
       console.error('Invalid move card parameters:', { cardId, fromListId, toListId, newPosition });
@@ -788,6 +1179,22 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
       return;
     }
 
+    // Warn-mode WIP limits let the card in with a warning. Blocking limits keep it out
+    // unless a board admin overrides them with a reason.
+    const wipLimit = targetList.settings.wipLimit;
+    const targetCardCount = (cards[toListId] || []).filter(card => card._id !== cardId).length;
+    if (fromListId !== toListId && wipLimit?.enabled && targetCardCount >= wipLimit.limit && !wipOverrideReason) {
+      if (wipLimit.mode === 'block') {
+        if (can('override_wip_limit')) {
+          setPendingWipOverride({ cardId, fromListId, toListId, newPosition });
+        } else {
+          toast.error(`"${targetList.name}" has reached its WIP limit of ${wipLimit.limit} cards`, { id: 'wip-limit' });
+        }
+        return;
+      }
+      toast(`"${targetList.name}" is over its WIP limit of ${wipLimit.limit} cards`, { icon: '⚠️', id: 'wip-limit' });
+    }
+
     // Ensure target list cards array exists
     if (!cards[toListId]) {
       setCards(prev => ({ ...prev, [toListId]: [] }));
@@ -843,7 +1250,7 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
 
       // Call API to persist the move
       if (fromListId !== toListId) {
-        await cardsApi.moveCard(cardId, toListId, validPosition);
+        await cardsApi.moveCard(cardId, toListId, validPosition, wipOverrideReason);
       } else {
         await cardsApi.reorderCard(cardId, validPosition);
       }
@@ -1032,7 +1439,7 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
       await loadBoardData();
     } catch (error) {
       console.error('Error removing board member:', error);
-      setError('Failed to remove member from board');
+      toast.error(error instanceof Error ? error.message : 'Failed to remove member from board');
     }
   };
 
@@ -1050,6 +1457,39 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
     }
   };
 
+  const handleAddBoardTeam = async (teamId: string, role: BoardTeamRole) => {
+    try {
+      await boardsApi.addTeam(boardId, teamId, role);
+      await loadBoardData();
+    } catch (error) {
+      console.error('Error adding board team:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add team to board');
+    }
+  };
+
+  const handleRemoveBoardTeam = async (teamId: string) => {
+    const team = board?.teams?.find(item => item.teamId?._id === teamId);
+    if (!confirm(`Remove ${team?.teamId?.name || 'this team'} from the board? Members who are only here through the team will lose access.`)) return;
+
+    try {
+      await boardsApi.removeTeam(boardId, teamId);
+      await loadBoardData();
+    } catch (error) {
+      console.error('Error removing board team:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove team from board');
+    }
+  };
+
+  const handleUpdateBoardTeamRole = async (teamId: string, role: BoardTeamRole) => {
+    try {
+      await boardsApi.updateTeamRole(boardId, teamId, role);
+      await loadBoardData();
+    } catch (error) {
+      console.error('Error updating board team role:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update team role');
+    }
+  };
+
   // Get background style for the board
   const getBackgroundStyle = () => {
     if (!board.background) {
@@ -1264,8 +1704,41 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
               </div>
             )}
 
+            {/* View Switcher */}
+            <div className="flex items-center gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg">
+              {VIEW_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => handleViewChange(option.id)}
+                  title={option.label}
+                  className={`px-2.5 py-1.5 text-sm font-medium rounded-md transition-colors flex items-center gap-1.5 ${
+                    viewMode === option.id
+                      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                >
+                  <option.icon className="w-4 h-4" />
+                  <span className="hidden lg:inline">{option.label}</span>
+                </button>
+              ))}
+            </div>
+
+            <ActiveTimerIndicator />
+
             {/* Action Buttons */}
-            {canManageMembers && (
+            <button
+              onClick={() => setShowFilterBar(!showFilterBar)}
+              className={`px-3 py-2 text-sm rounded-lg transition-colors flex items-center gap-2 ${
+                isFilterActive
+                  ? 'bg-[#17b6b2]/10 text-[#17b6b2]'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              <Filter className="w-4 h-4" />
+              <span className="hidden sm:inline">Filter</span>
+            </button>
+
+            {can('manage_members') && (
               <button
                 onClick={() => setShowMembersModal(true)}
                 className="px-3 py-2 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors flex items-center gap-2"
@@ -1287,7 +1760,7 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
               {/* Dropdown Menu */}
               {showMenu && (
                 <div className="absolute right-0 top-full mt-1 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 z-50 min-w-44 animate-in fade-in zoom-in-95 duration-150">
-                  {canEditBoard && (
+                  {can('edit_board') && (
                     <button
                       onClick={handleEditBoard}
                       className="w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 flex items-center gap-2.5 text-sm text-gray-700 dark:text-gray-300 transition-colors"
@@ -1297,18 +1770,81 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
                     </button>
                   )}
 
+                  {can('edit_cards') && (
+                    <button
+                      onClick={() => {
+                        setShowCopyModal(true);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 flex items-center gap-2.5 text-sm text-gray-700 dark:text-gray-300 transition-colors"
+                    >
+                      <CopyPlus className="w-4 h-4 text-gray-500" />
+                      Copy Board
+                    </button>
+                  )}
+
+                  {can('edit_automations') && (
+                    <button
+                      onClick={() => {
+                        setShowAutomationsModal(true);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 flex items-center gap-2.5 text-sm text-gray-700 dark:text-gray-300 transition-colors"
+                    >
+                      <Zap className="w-4 h-4 text-gray-500" />
+                      Automations
+                    </button>
+                  )}
+
+                  {can('manage_custom_fields') && (
+                    <button
+                      onClick={() => {
+                        setShowCustomFieldsModal(true);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 flex items-center gap-2.5 text-sm text-gray-700 dark:text-gray-300 transition-colors"
+                    >
+                      <SlidersHorizontal className="w-4 h-4 text-gray-500" />
+                      Custom Fields
+                    </button>
+                  )}
+
+                  {can('manage_labels') && (
+                    <button
+                      onClick={() => {
+                        setShowLabelsModal(true);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 flex items-center gap-2.5 text-sm text-gray-700 dark:text-gray-300 transition-colors"
+                    >
+                      <Tag className="w-4 h-4 text-gray-500" />
+                      Labels
+                    </button>
+                  )}
+
                   <button
                     onClick={() => {
-                      setShowArchivedListsModal(true);
+                      setShowTimeReport(true);
+                      setShowMenu(false);
+                    }}
+                    className="w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 flex items-center gap-2.5 text-sm text-gray-700 dark:text-gray-300 transition-colors"
+                  >
+                    <Clock className="w-4 h-4 text-gray-500" />
+                    Time Report
+                  </button>
+
+                  <button
+                    onClick={() => {
+                      setShowArchiveModal(true);
                       setShowMenu(false);
                     }}
                     className="w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 flex items-center gap-2.5 text-sm text-gray-700 dark:text-gray-300 transition-colors"
                   >
                     <Archive className="w-4 h-4 text-gray-500" />
-                    Archived Lists {archivedLists.length > 0 && `(${archivedLists.length})`}
+                    Archived Items
                   </button>
 
-                  {canDeleteBoard && (
+                  {can('delete_board') && (
                     <>
                       <div className="my-1 border-t border-gray-100 dark:border-gray-700"></div>
                       <button
@@ -1327,44 +1863,112 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
         </div>
       </div>
 
+      {/* Card Filter Bar - stays open while a filter (e.g. from a shared link) is active */}
+      {(showFilterBar || isFilterActive) && (
+        <BoardFilterBar
+          boardId={boardId}
+          members={boardMembers}
+          cards={allCards}
+          boardLabels={boardLabels}
+          customFields={customFields}
+          filters={filters}
+          isActive={isFilterActive}
+          matchCount={allCards.filter(matchesCard).length}
+          onChange={setFilters}
+          onClear={clearFilters}
+          onClose={() => setShowFilterBar(false)}
+        />
+      )}
+
+      {/* Board Content - Calendar */}
+      {viewMode === 'calendar' && (
+        <div className="relative flex-1 min-h-0 p-4">
+          <BoardCalendar
+            cards={isFilterActive ? allCards.filter(matchesCard) : allCards}
+            canEdit={can('edit_cards')}
+            onOpenCard={openCard}
+            onReschedule={handleRescheduleCalendarItem}
+          />
+        </div>
+      )}
+
+      {/* Board Content - Timeline */}
+      {viewMode === 'timeline' && (
+        <div className="relative flex-1 min-h-0 p-4">
+          <TimelineView
+            cards={isFilterActive ? allCards.filter(matchesCard) : allCards}
+            canEdit={can('edit_cards')}
+            onOpenCard={openCard}
+            onChangeDates={handleTimelineDatesChange}
+          />
+        </div>
+      )}
+
+      {/* Board Content - Table */}
+      {viewMode === 'table' && (
+        <div className="relative flex-1 min-h-0 p-4">
+          <BoardTableView
+            lists={lists}
+            cards={isFilterActive ? allCards.filter(matchesCard) : allCards}
+            boardLabels={boardLabels}
+            customFields={customFields}
+            canEdit={can('edit_cards')}
+            onOpenCard={(cardId) => openCard(cardId, 'overview')}
+            onUpdateCard={handleUpdateCard}
+            onMoveCards={handleMoveCardsToList}
+            onBulkUpdate={handleBulkUpdateCards}
+            onApplyLabel={handleApplyLabel}
+            onArchiveCards={handleArchiveCards}
+          />
+        </div>
+      )}
 
       {/* Board Content - Lists */}
-      <div className={`relative flex-1 p-4 overflow-x-auto board-scrollbar-${boardId}`}>
-        <DragDropProvider
-          lists={lists}
-          cards={cards}
-          onMoveCard={handleMoveCard}
-          onMoveList={handleMoveList}
-          onReorderCards={handleReorderCards}
-        >
-          <div className="flex gap-5 h-full min-h-0 pb-4">
-            {lists.map((list) => (
-              <SortableListContainer
-                key={list._id}
-                id={list._id}
-                list={list}
-                cards={cards[list._id] || []}
-                onAddCard={handleAddCard}
-                onEditList={handleEditList}
-                onUpdateList={handleUpdateList}
-                onDeleteList={handleDeleteList}
-                onArchiveList={handleArchiveList}
-                onCardClick={handleCardClick}
-                canEdit={canEditBoard}
-                canDelete={canDeleteBoard}
-              />
-            ))}
-
-            {/* Add List Form */}
-            {canCreateLists && (
-              <CreateListForm
-                boardId={boardId}
-                onCreateList={handleCreateList}
-              />
-            )}
-          </div>
-        </DragDropProvider>
-      </div>
+      {viewMode === 'board' && (
+        <div className={`relative flex-1 p-4 overflow-x-auto board-scrollbar-${boardId}`}>
+          <DragDropProvider
+            lists={lists}
+            cards={cards}
+            onMoveCard={handleMoveCard}
+            onMoveList={handleMoveList}
+            onReorderCards={handleReorderCards}
+          >
+            <div className="flex gap-5 h-full min-h-0 pb-4">
+              {lists.map((list) => (
+                <SortableListContainer
+                  key={list._id}
+                  id={list._id}
+                  list={list}
+                  cards={cards[list._id] || []}
+                  onAddCard={handleAddCard}
+                  onEditList={handleEditList}
+                  onUpdateList={handleUpdateList}
+                  onDeleteList={handleDeleteList}
+                  onArchiveList={handleArchiveList}
+                  onCardClick={handleCardClick}
+                  canEdit={can('manage_lists')}
+                  canDelete={can('delete_lists')}
+                  canAddCards={can('create_cards')}
+                  canMoveCards={can('move_cards')}
+                  boardLists={lists}
+                  boardMembers={boardMembers}
+                  customFields={customFields}
+                  matchesFilter={isFilterActive ? matchesCard : undefined}
+                  filterMode={filters.mode}
+                />
+              ))}
+
+              {/* Add List Form */}
+              {can('manage_lists') && (
+                <CreateListForm
+                  boardId={boardId}
+                  onCreateList={handleCreateList}
+                />
+              )}
+            </div>
+          </DragDropProvider>
+        </div>
+      )}
 
       {/* Project Modal */}
       {selectedCard && (
@@ -1374,8 +1978,18 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
           onClose={handleCloseCardModal}
           onUpdateCard={handleUpdateCard}
           onDeleteCard={handleDeleteCard}
-          canEdit={canEditBoard}
-          canDelete={canDeleteBoard}
+          canEdit={can('edit_cards')}
+          canDelete={can('delete_cards')}
+          canComment={can('comment')}
+          canViewFiles={can('view_files')}
+          canUploadFiles={can('upload_files')}
+          initialTab={cardModalTab}
+          boardLists={lists}
+          boardCustomFields={customFields}
+          boardLabels={boardLabels}
+          boardTeams={boardTeams}
+          boardClients={boardClients}
+          onCardChange={applyCardChanges}
        boardMembers={board?.members?.map(member => ({
   _id: member.userId?._id || '',
   firstName: member.userId?.firstName || '',
@@ -1396,11 +2010,22 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
        currentMembers={board.members?.filter(member => member.userId).map(member => ({
   userId: member.userId!,
   role: member.role,
-  joinedAt: member.joinedAt
+  joinedAt: member.joinedAt,
+  direct: member.direct,
+  viaTeams: member.viaTeams
 })) || []}
+          currentTeams={boardTeams.map(team => ({
+            _id: team._id,
+            name: team.name,
+            role: team.role,
+            memberCount: team.members.length
+          }))}
           onAddMember={handleAddBoardMember}
           onRemoveMember={handleRemoveBoardMember}
           onUpdateMemberRole={handleUpdateBoardMemberRole}
+          onAddTeam={handleAddBoardTeam}
+          onRemoveTeam={handleRemoveBoardTeam}
+          onUpdateTeamRole={handleUpdateBoardTeamRole}
           currentUserId={user?.id}
         />
       )}
@@ -1414,6 +2039,66 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
         />
       )}
 
+      {board && showCopyModal && (
+        <CopyBoardModal
+          board={board}
+          onClose={() => setShowCopyModal(false)}
+          onCopied={(copiedBoard) => {
+            setShowCopyModal(false);
+            router.push(`${baseUrl}/boards/${copiedBoard._id}`);
+          }}
+        />
+      )}
+
+      {pendingWipOverride && (
+        <WipOverrideModal
+          listName={lists.find(list => list._id === pendingWipOverride.toListId)?.name || ''}
+          limit={lists.find(list => list._id === pendingWipOverride.toListId)?.settings.wipLimit?.limit || 0}
+          cardTitle={allCards.find(card => card._id === pendingWipOverride.cardId)?.title || ''}
+          onConfirm={(reason) => {
+            const move = pendingWipOverride;
+            setPendingWipOverride(null);
+            handleMoveCard(move.cardId, move.fromListId, move.toListId, move.newPosition, reason);
+          }}
+          onCancel={() => setPendingWipOverride(null)}
+        />
+      )}
+
+      {board && showTimeReport && (
+        <BoardTimeReportModal
+          boardId={board._id}
+          boardName={board.name}
+          onClose={() => setShowTimeReport(false)}
+        />
+      )}
+
+      {board && showAutomationsModal && (
+        <BoardAutomationsModal
+          boardId={board._id}
+          lists={lists}
+          members={boardMembers}
+          onClose={() => setShowAutomationsModal(false)}
+        />
+      )}
+
+      {board && showCustomFieldsModal && (
+        <CustomFieldsModal
+          boardId={board._id}
+          fields={customFields}
+          onFieldsChange={setCustomFields}
+          onClose={() => setShowCustomFieldsModal(false)}
+        />
+      )}
+
+      {board && showLabelsModal && (
+        <BoardLabelsModal
+          boardId={board._id}
+          labels={boardLabels}
+          onLabelsChange={setBoardLabels}
+          onClose={() => setShowLabelsModal(false)}
+        />
+      )}
+
       {/* Error Modal */}
       {showErrorModal && (
         <div
@@ -1482,68 +2167,18 @@ board?.createdBy?._id === user?.id ||                          ['owner', 'admin'
         borderColor={dockColors.border}
       />
 
-      {/* Archived Lists Modal */}
-      {showArchivedListsModal && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <div className="bg-white dark:bg-gray-900 rounded-lg shadow-xl w-full max-w-2xl border border-gray-200 dark:border-gray-800 max-h-[80vh] flex flex-col">
-            {/* Header */}
-            <div className="border-b border-gray-200 dark:border-gray-800 px-6 py-4 flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <Archive className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Archived Lists</h2>
-                <span className="text-sm text-gray-500 dark:text-gray-400">({archivedLists.length})</span>
-              </div>
-              <button
-                onClick={() => setShowArchivedListsModal(false)}
-                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
-              >
-                <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-              </button>
-            </div>
-
-            {/* Content */}
-            <div className="p-6 overflow-y-auto flex-1">
-              {archivedLists.length === 0 ? (
-                <div className="text-center py-12">
-                  <Archive className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-3" />
-                  <p className="text-gray-500 dark:text-gray-400">No archived lists</p>
-                </div>
-              ) : (
-                <div className="space-y-3">
-                  {archivedLists.map((list) => (
-                    <div
-                      key={list._id}
-                      className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
-                      style={{ borderTop: list.color ? `3px solid ${list.color}` : undefined }}
-                    >
-                      <div className="flex-1">
-                        <h3 className="font-medium text-gray-900 dark:text-white mb-1">
-                          {list.name}
-                        </h3>
-                        <p className="text-sm text-gray-500 dark:text-gray-400">
-                          {cards[list._id]?.length || 0} cards
-                        </p>
-                      </div>
-                      <button
-                        onClick={async () => {
-                          try {
-                            await handleArchiveList(list._id);
-                            setShowArchivedListsModal(false);
-                          } catch (err) {
-                            console.error('Error unarchiving list:', err);
-                          }
-                        }}
-                        className="px-4 py-2 bg-[#17b6b2] text-white rounded-lg hover:bg-[#15a09d] transition-colors text-sm font-medium"
-                      >
-                        Restore
-                      </button>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </div>
-          </div>
-        </div>
+      {/* Archived Items Modal */}
+      {showArchiveModal && (
+        <ArchivedItemsModal
+          boardId={boardId}
+          lists={lists}
+          canDeleteCards={can('purge_cards')}
+          canDeleteLists={can('delete_lists')}
+          onCardRestored={(card, listId) => setCards(prev => addCardToList(prev, listId, card))}
+          onRestoreList={handleArchiveList}
+          onListDeleted={(listId) => setArchivedLists(prev => prev.filter(list => list._id !== listId))}
+          onClose={() => setShowArchiveModal(false)}
+        />
       )}
       </div>
     </>
@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { X, CopyPlus, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Portal from '../shared/Portal';
+import { useSocketContext } from '@/contexts/SocketContext';
+import {
+  boardsApi,
+  Board,
+  BoardCopyOptions,
+  BoardCopyProgress
+} from '@/services/trelloBoardsApi';
+
+interface CopyBoardModalProps {
+  board: {
+    _id: string;
+    name: string;
+  };
+  onClose: () => void;
+  onCopied: (board: Board) => void;
+}
+
+const COPY_OPTIONS: Array<{ key: keyof BoardCopyOptions; label: string; description: string }> = [
+  { key: 'includeCards', label: 'Cards', description: 'Cards with their labels, checklists, dates and folders' },
+  { key: 'includeTasks', label: 'Tasks and subtasks', description: 'Including dependencies and workflow stages' },
+  { key: 'includeMembers', label: 'Members', description: 'Board members, card members and task assignees' },
+  { key: 'includeAttachments', label: 'Attachments', description: 'Files are duplicated, so large boards take longer' },
+  { key: 'resetProgress', label: 'Reset progress', description: 'Mark everything as not started in the copy' }
+];
+
+const PHASE_LABELS: Record<BoardCopyProgress['phase'], string> = {
+  board: 'Creating board...',
+  lists: 'Copying lists...',
+  cards: 'Copying cards...',
+  done: 'Finishing up...'
+};
+
+const CopyBoardModal: React.FC<CopyBoardModalProps> = ({ board, onClose, onCopied }) => {
+  const { socket, isConnected } = useSocketContext();
+  const [name, setName] = useState(`${board.name} (Copy)`);
+  const [options, setOptions] = useState<BoardCopyOptions>({
+    includeCards: true,
+    includeTasks: true,
+    includeMembers: false,
+    includeAttachments: false,
+    resetProgress: true
+  });
+  const [isCopying, setIsCopying] = useState(false);
+  const [progress, setProgress] = useState<BoardCopyProgress | null>(null);
+  const copyIdRef = useRef<string | null>(null);
+
+  // Follow progress events for the copy started from this modal
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+
+    const handleProgress = (data: BoardCopyProgress) => {
+      if (data.copyId === copyIdRef.current) {
+        setProgress(data);
+      }
+    };
+
+    socket.on('board:copy-progress', handleProgress);
+    return () => {
+      socket.off('board:copy-progress', handleProgress);
+    };
+  }, [socket, isConnected]);
+
+  const toggleOption = (key: keyof BoardCopyOptions) => {
+    setOptions(prev => {
+      const next = { ...prev, [key]: !prev[key] };
+      // Tasks and attachments live on cards
+      if (key === 'includeCards' && !next.includeCards) {
+        next.includeTasks = false;
+        next.includeAttachments = false;
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    copyIdRef.current = `${board._id}-${Date.now()}`;
+    setProgress(null);
+    setIsCopying(true);
+
+    try {
+      const { board: copiedBoard, summary } = await boardsApi.copyBoard(board._id, {
+        name: name.trim(),
+        copyId: copyIdRef.current,
+        options
+      });
+
+      toast.success(`Board copied: ${summary.lists} lists, ${summary.cards} cards, ${summary.tasks} tasks`);
+      if (summary.skippedAttachments > 0) {
+        toast.error(`${summary.skippedAttachments} attachment(s) could not be copied`);
+      }
+      onCopied(copiedBoard);
+    } catch (error) {
+      console.error('Error copying board:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to copy board');
+      setIsCopying(false);
+    }
+  };
+
+  const percent = progress && progress.total > 0
+    ? Math.round((progress.completed / progress.total) * 100)
+    : null;
+
+  return (
+    <Portal>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden border border-gray-200 dark:border-gray-800 animate-in slide-in-from-bottom-4 duration-300">
+          {/* Header */}
+          <div className="border-b border-gray-200 dark:border-gray-800 px-6 py-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Copy Board</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  Create a copy of &quot;{board.name}&quot;
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                disabled={isCopying}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <form onSubmit={handleSubmit} className="p-6 space-y-5 overflow-y-auto max-h-[calc(90vh-140px)]">
+            {/* Board Name */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Board Name *
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+                disabled={isCopying}
+                className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#17b6b2] focus:border-transparent transition-colors disabled:opacity-60"
+              />
+            </div>
+
+            {/* Options */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Options
+              </label>
+              <div className="space-y-3">
+                {COPY_OPTIONS.map(option => {
+                  const needsCards = (option.key === 'includeTasks' || option.key === 'includeAttachments') && !options.includeCards;
+                  return (
+                    <label
+                      key={option.key}
+                      className={`flex items-start gap-3 ${needsCards || isCopying ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={options[option.key]}
+                        onChange={() => toggleOption(option.key)}
+                        disabled={needsCards || isCopying}
+                        className="mt-0.5 w-4 h-4 rounded border-gray-300 text-[#17b6b2] focus:ring-[#17b6b2]"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">{option.label}</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">{option.description}</span>
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Progress */}
+            {isCopying && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                    <Loader2 className="w-4 h-4 animate-spin text-[#17b6b2]" />
+                    {progress ? PHASE_LABELS[progress.phase] : 'Starting copy...'}
+                  </span>
+                  {progress && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {progress.completed} / {progress.total}
+                    </span>
+                  )}
+                </div>
+                <div className="h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                  {percent !== null ? (
+                    <div
+                      className="h-full bg-[#17b6b2] rounded-full transition-all duration-300"
+                      style={{ width: `${percent}%` }}
+                    />
+                  ) : (
+                    <div className="h-full w-1/3 bg-[#17b6b2] rounded-full animate-pulse" />
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 pt-2 border-t border-gray-200 dark:border-gray-800 mt-6">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isCopying}
+                className="flex-1 px-6 py-2.5 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isCopying || !name.trim()}
+                className="flex-1 px-6 py-2.5 bg-[#17b6b2] text-white font-medium rounded-lg hover:bg-[#15a09d] disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+              >
+                <CopyPlus className="w-4 h-4" />
+                {isCopying ? 'Copying...' : 'Copy Board'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </Portal>
+  );
+};
+
+export default CopyBoardModal;
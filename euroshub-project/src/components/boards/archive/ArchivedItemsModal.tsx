@@ -0,0 +1,348 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { X, Archive, Search, RotateCcw, Trash2, Loader2, Paperclip, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Portal from '../../shared/Portal';
+import {
+  boardsApi,
+  cardsApi,
+  listsApi,
+  ArchivedByUser,
+  ArchivedCardItem,
+  ArchivedItems,
+  Card as ApiCard
+} from '@/services/trelloBoardsApi';
+import { ListData } from '../lists/ListContainer';
+import LabelChip from '../labels/LabelChip';
+
+type ArchiveTab = 'cards' | 'lists';
+
+interface ArchivedItemsModalProps {
+  boardId: string;
+  lists: ListData[];
+  canDeleteCards: boolean;
+  canDeleteLists: boolean;
+  onCardRestored: (card: ApiCard, listId: string) => void;
+  onRestoreList: (listId: string) => Promise<void>;
+  onListDeleted: (listId: string) => void;
+  onClose: () => void;
+}
+
+const formatArchived = (archivedAt: string | null, archivedBy: ArchivedByUser | null) => {
+  const who = archivedBy ? `${archivedBy.firstName} ${archivedBy.lastName}` : null;
+  const when = archivedAt
+    ? new Date(archivedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : null;
+  if (who && when) return `Archived by ${who} on ${when}`;
+  if (who) return `Archived by ${who}`;
+  if (when) return `Archived on ${when}`;
+  return 'Archived';
+};
+
+// A card can go back to its own list only while that list is still open
+const hasOpenList = (card: ArchivedCardItem) => !!card.list && !card.list.isArchived;
+
+/**
+ * Archived cards and lists of a board. Anyone who can edit the board can
+ * restore them; those allowed to delete cards or lists can also delete them
+ * for good, files included.
+ */
+const ArchivedItemsModal: React.FC<ArchivedItemsModalProps> = ({
+  boardId,
+  lists,
+  canDeleteCards,
+  canDeleteLists,
+  onCardRestored,
+  onRestoreList,
+  onListDeleted,
+  onClose
+}) => {
+  const [items, setItems] = useState<ArchivedItems>({ cards: [], lists: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const [tab, setTab] = useState<ArchiveTab>('cards');
+  const [search, setSearch] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadItems = async () => {
+      try {
+        setItems(await boardsApi.getArchivedItems(boardId));
+      } catch (error) {
+        console.error('Error loading archived items:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load archived items');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadItems();
+  }, [boardId]);
+
+  const query = search.trim().toLowerCase();
+
+  const filteredCards = useMemo(() => items.cards.filter(card => !query || [
+    card.title,
+    card.description || '',
+    card.list?.name || '',
+    ...card.labels.map(label => label.name)
+  ].join(' ').toLowerCase().includes(query)), [items.cards, query]);
+
+  const filteredLists = useMemo(
+    () => items.lists.filter(list => !query || list.name.toLowerCase().includes(query)),
+    [items.lists, query]
+  );
+
+  const runAction = async (id: string, action: () => Promise<void>, errorMessage: string) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${errorMessage}:`, error);
+      toast.error(error instanceof Error ? error.message : errorMessage);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestoreCard = (card: ArchivedCardItem, listId?: string) => runAction(card._id, async () => {
+    const restored = await cardsApi.restoreCard(card._id, listId);
+    const targetId = listId || card.list!._id;
+    onCardRestored(restored, targetId);
+    setItems(prev => ({ ...prev, cards: prev.cards.filter(item => item._id !== card._id) }));
+    toast.success(`"${card.title}" restored to ${lists.find(list => list._id === targetId)?.name || 'its list'}`);
+  }, 'Failed to restore card');
+
+  const handleDeleteCard = (card: ArchivedCardItem) => {
+    const fileNote = card.attachmentCount > 0
+      ? ` Its ${card.attachmentCount} attachment${card.attachmentCount === 1 ? '' : 's'} will be deleted too.`
+      : '';
+    if (!confirm(`Permanently delete "${card.title}"? This cannot be undone.${fileNote}`)) return;
+
+    runAction(card._id, async () => {
+      await cardsApi.deleteCardPermanently(card._id);
+      setItems(prev => ({ ...prev, cards: prev.cards.filter(item => item._id !== card._id) }));
+      toast.success('Card permanently deleted');
+    }, 'Failed to delete card');
+  };
+
+  const handleRestoreList = (listId: string) => runAction(listId, async () => {
+    await onRestoreList(listId);
+    setItems(prev => ({
+      cards: prev.cards.map(card => (card.list?._id === listId ? { ...card, list: { ...card.list, isArchived: false } } : card)),
+      lists: prev.lists.filter(list => list._id !== listId)
+    }));
+  }, 'Failed to restore list');
+
+  const handleDeleteList = (listId: string, name: string, cardCount: number) => {
+    const cardNote = cardCount > 0 ? ` Its ${cardCount} card${cardCount === 1 ? '' : 's'} and their files will be deleted too.` : '';
+    if (!confirm(`Permanently delete the list "${name}"? This cannot be undone.${cardNote}`)) return;
+
+    runAction(listId, async () => {
+      await listsApi.deleteListPermanently(listId);
+      onListDeleted(listId);
+      setItems(prev => ({
+        cards: prev.cards.filter(card => card.list?._id !== listId),
+        lists: prev.lists.filter(list => list._id !== listId)
+      }));
+      toast.success('List permanently deleted');
+    }, 'Failed to delete list');
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+      active
+        ? 'bg-[#17b6b2]/10 text-[#17b6b2]'
+        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+    }`;
+
+  const deleteButtonClass = 'p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50';
+
+  const renderCards = () => (
+    filteredCards.length === 0 ? (
+      <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+        {query ? 'No archived cards match your search' : 'No archived cards'}
+      </p>
+    ) : (
+      <div className="space-y-2">
+        {filteredCards.map(card => {
+          const isBusy = busyId === card._id;
+          return (
+            <div
+              key={card._id}
+              className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 flex items-start justify-between gap-3"
+              style={{ borderLeft: card.color ? `3px solid ${card.color}` : undefined }}
+            >
+              <div className="min-w-0 flex-1">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate">{card.title}</h3>
+                {card.labels.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1.5">
+                    {card.labels.map((label, index) => <LabelChip key={index} label={label} />)}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1.5 flex flex-wrap items-center gap-x-2 gap-y-0.5">
+                  <span>
+                    {card.list ? `In ${card.list.name}${card.list.isArchived ? ' (archived)' : ''}` : 'Its list was deleted'}
+                  </span>
+                  <span>·</span>
+                  <span>{formatArchived(card.archivedAt, card.archivedBy)}</span>
+                  {card.attachmentCount > 0 && (
+                    <span className="inline-flex items-center gap-0.5">
+                      <Paperclip className="w-3 h-3" />
+                      {card.attachmentCount}
+                    </span>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {isBusy && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+                {hasOpenList(card) ? (
+                  <button
+                    onClick={() => handleRestoreCard(card)}
+                    disabled={isBusy}
+                    className="px-3 py-1.5 text-sm font-medium bg-[#17b6b2] text-white rounded-lg hover:bg-[#15a09d] disabled:opacity-50 transition-colors flex items-center gap-1.5"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                    Restore
+                  </button>
+                ) : (
+                  <select
+                    value=""
+                    disabled={isBusy || lists.length === 0}
+                    onChange={(e) => e.target.value && handleRestoreCard(card, e.target.value)}
+                    className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30"
+                    title="Its list is gone; choose where to restore it"
+                  >
+                    <option value="">Restore to...</option>
+                    {lists.map(list => (
+                      <option key={list._id} value={list._id}>{list.name}</option>
+                    ))}
+                  </select>
+                )}
+                {canDeleteCards && (
+                  <button
+                    onClick={() => handleDeleteCard(card)}
+                    disabled={isBusy}
+                    className={deleteButtonClass}
+                    title="Delete permanently"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    )
+  );
+
+  const renderLists = () => (
+    filteredLists.length === 0 ? (
+      <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+        {query ? 'No archived lists match your search' : 'No archived lists'}
+      </p>
+    ) : (
+      <div className="space-y-2">
+        {filteredLists.map(list => {
+          const isBusy = busyId === list._id;
+          return (
+            <div
+              key={list._id}
+              className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3"
+              style={{ borderTop: list.color ? `3px solid ${list.color}` : undefined }}
+            >
+              <div className="min-w-0">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate">{list.name}</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {list.cardCount} card{list.cardCount === 1 ? '' : 's'} · {formatArchived(list.archivedAt, list.archivedBy)}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {isBusy && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+                <button
+                  onClick={() => handleRestoreList(list._id)}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 text-sm font-medium bg-[#17b6b2] text-white rounded-lg hover:bg-[#15a09d] disabled:opacity-50 transition-colors flex items-center gap-1.5"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  Restore
+                </button>
+                {canDeleteLists && (
+                  <button
+                    onClick={() => handleDeleteList(list._id, list.name, list.cardCount)}
+                    disabled={isBusy}
+                    className={deleteButtonClass}
+                    title="Delete permanently"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    )
+  );
+
+  return (
+    <Portal>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden border border-gray-200 dark:border-gray-800 animate-in slide-in-from-bottom-4 duration-300">
+          {/* Header */}
+          <div className="border-b border-gray-200 dark:border-gray-800 px-6 py-4 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <Archive className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Archived Items</h2>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => setTab('cards')} className={tabClass(tab === 'cards')}>
+                Cards ({items.cards.length})
+              </button>
+              <button onClick={() => setTab('lists')} className={tabClass(tab === 'lists')}>
+                Lists ({items.lists.length})
+              </button>
+              <div className="relative flex-1 min-w-48">
+                <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder={tab === 'cards' ? 'Search archived cards...' : 'Search archived lists...'}
+                  className="w-full pl-9 pr-3 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30 focus:border-[#17b6b2]"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 overflow-y-auto flex-1">
+            {isLoading ? (
+              <div className="py-12 flex justify-center">
+                <Loader2 className="w-6 h-6 animate-spin text-[#17b6b2]" />
+              </div>
+            ) : tab === 'cards' ? renderCards() : renderLists()}
+          </div>
+
+          {(canDeleteCards || canDeleteLists) && !isLoading && (
+            <div className="border-t border-gray-200 dark:border-gray-800 px-6 py-3 flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <AlertTriangle className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />
+              Permanently deleted cards and lists cannot be recovered, and their files are removed from storage.
+            </div>
+          )}
+        </div>
+      </div>
+    </Portal>
+  );
+};
+
+export default ArchivedItemsModal;
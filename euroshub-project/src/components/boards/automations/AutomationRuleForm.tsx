@@ -0,0 +1,296 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2, Loader2 } from 'lucide-react';
+import { AutomationAction, AutomationActionType, AutomationTriggerType, BoardAutomationInput } from '@/services/trelloBoardsApi';
+import {
+  ACTION_OPTIONS,
+  AutomationList,
+  AutomationMember,
+  SLACK_CHANNEL_OPTIONS,
+  TRIGGER_OPTIONS,
+  createAction
+} from './automationOptions';
+
+interface AutomationRuleFormProps {
+  initial: BoardAutomationInput;
+  lists: AutomationList[];
+  members: AutomationMember[];
+  isSaving: boolean;
+  onSave: (automation: BoardAutomationInput) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30 focus:border-[#17b6b2]';
+
+// Returns an error message for the first incomplete action, or null
+const getActionError = (action: AutomationAction) => {
+  switch (action.type) {
+    case 'move_card':
+      return action.listId ? null : 'Choose a list to move cards to';
+    case 'assign_member':
+      return action.userId ? null : 'Choose a member to add';
+    case 'add_label':
+      return action.label?.name.trim() ? null : 'Enter a label name';
+    case 'post_comment':
+      return action.text?.trim() ? null : 'Enter the comment text';
+    default:
+      return null;
+  }
+};
+
+const AutomationRuleForm: React.FC<AutomationRuleFormProps> = ({
+  initial,
+  lists,
+  members,
+  isSaving,
+  onSave,
+  onCancel
+}) => {
+  const [draft, setDraft] = useState<BoardAutomationInput>(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const setTriggerType = (type: AutomationTriggerType) => {
+    setDraft(prev => ({ ...prev, trigger: { type } }));
+  };
+
+  const updateAction = (index: number, changes: Partial<AutomationAction>) => {
+    setDraft(prev => ({
+      ...prev,
+      actions: prev.actions.map((action, i) => (i === index ? { ...action, ...changes } : action))
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) {
+      setError('Give the automation a name');
+      return;
+    }
+    if (draft.actions.length === 0) {
+      setError('Add at least one action');
+      return;
+    }
+    const actionError = draft.actions.map(getActionError).find(Boolean);
+    if (actionError) {
+      setError(actionError);
+      return;
+    }
+
+    setError(null);
+    onSave({ ...draft, name: draft.name.trim() });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">Name</label>
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="e.g. Ping QA when cards reach Review"
+          maxLength={100}
+          className={inputClass}
+          autoFocus
+        />
+      </div>
+
+      {/* Trigger */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">When</label>
+        <select
+          value={draft.trigger.type}
+          onChange={(e) => setTriggerType(e.target.value as AutomationTriggerType)}
+          className={inputClass}
+        >
+          {TRIGGER_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+
+        {draft.trigger.type === 'card_moved_to_list' && (
+          <select
+            value={draft.trigger.listId || ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, trigger: { ...prev.trigger, listId: e.target.value || undefined } }))}
+            className={inputClass}
+          >
+            <option value="">Any list</option>
+            {lists.map(list => (
+              <option key={list._id} value={list._id}>{list.name}</option>
+            ))}
+          </select>
+        )}
+        {draft.trigger.type === 'label_added' && (
+          <input
+            type="text"
+            value={draft.trigger.label || ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, trigger: { ...prev.trigger, label: e.target.value || undefined } }))}
+            placeholder="Any label"
+            maxLength={50}
+            className={inputClass}
+          />
+        )}
+        {draft.trigger.type === 'member_assigned' && (
+          <select
+            value={draft.trigger.userId || ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, trigger: { ...prev.trigger, userId: e.target.value || undefined } }))}
+            className={inputClass}
+          >
+            <option value="">Any member</option>
+            {members.map(member => (
+              <option key={member._id} value={member._id}>{member.firstName} {member.lastName}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Then</label>
+        {draft.actions.map((action, index) => (
+          <div key={index} className="p-3 space-y-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
+            <div className="flex items-center gap-2">
+              <span className="w-5 text-xs font-semibold text-gray-400">{index + 1}.</span>
+              <select
+                value={action.type}
+                onChange={(e) => setDraft(prev => ({
+                  ...prev,
+                  actions: prev.actions.map((item, i) => (i === index ? createAction(e.target.value as AutomationActionType) : item))
+                }))}
+                className={inputClass}
+              >
+                {ACTION_OPTIONS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => setDraft(prev => ({ ...prev, actions: prev.actions.filter((_, i) => i !== index) }))}
+                className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                title="Remove action"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="pl-7 space-y-2">
+              {action.type === 'move_card' && (
+                <select
+                  value={action.listId || ''}
+                  onChange={(e) => updateAction(index, { listId: e.target.value || undefined })}
+                  className={inputClass}
+                >
+                  <option value="">Select a list...</option>
+                  {lists.map(list => (
+                    <option key={list._id} value={list._id}>{list.name}</option>
+                  ))}
+                </select>
+              )}
+              {action.type === 'assign_member' && (
+                <select
+                  value={action.userId || ''}
+                  onChange={(e) => updateAction(index, { userId: e.target.value || undefined })}
+                  className={inputClass}
+                >
+                  <option value="">Select a member...</option>
+                  {members.map(member => (
+                    <option key={member._id} value={member._id}>{member.firstName} {member.lastName}</option>
+                  ))}
+                </select>
+              )}
+              {action.type === 'add_label' && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={action.label?.name || ''}
+                    onChange={(e) => updateAction(index, { label: { ...action.label, name: e.target.value } })}
+                    placeholder="Label name"
+                    maxLength={50}
+                    className={inputClass}
+                  />
+                  <input
+                    type="color"
+                    value={action.label?.color || '#6B7280'}
+                    onChange={(e) => updateAction(index, { label: { name: action.label?.name || '', color: e.target.value } })}
+                    className="w-10 h-9 rounded-md border border-gray-300 dark:border-gray-700 cursor-pointer"
+                    title="Label color"
+                  />
+                </div>
+              )}
+              {action.type === 'notify_slack' && (
+                <select
+                  value={action.channel || 'boards'}
+                  onChange={(e) => updateAction(index, { channel: e.target.value })}
+                  className={inputClass}
+                >
+                  {SLACK_CHANNEL_OPTIONS.map(channel => (
+                    <option key={channel.id} value={channel.id}>{channel.label} channel</option>
+                  ))}
+                </select>
+              )}
+              {(action.type === 'post_comment' || action.type === 'notify_slack') && (
+                <>
+                  <textarea
+                    value={action.text || ''}
+                    onChange={(e) => updateAction(index, { text: e.target.value })}
+                    placeholder={action.type === 'post_comment' ? 'Comment text' : 'Message (optional)'}
+                    maxLength={1000}
+                    rows={2}
+                    className={`${inputClass} resize-none`}
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Use {'{card}'} for the card title.</p>
+                </>
+              )}
+              {action.type === 'set_due_date' && (
+                <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  <span>Due in</span>
+                  <input
+                    type="number"
+                    min="0"
+                    max="365"
+                    value={action.dueInDays ?? 0}
+                    onChange={(e) => updateAction(index, { dueInDays: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className={`${inputClass} w-20`}
+                  />
+                  <span>days from when it runs</span>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setDraft(prev => ({ ...prev, actions: [...prev.actions, createAction('post_comment')] }))}
+          className="flex items-center gap-1 text-sm font-medium text-[#17b6b2] hover:text-[#15a09d]"
+        >
+          <Plus className="w-4 h-4" />
+          Add action
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-3 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 text-sm font-medium bg-[#17b6b2] text-white rounded-lg hover:bg-[#15a09d] disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save Automation
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AutomationRuleForm;
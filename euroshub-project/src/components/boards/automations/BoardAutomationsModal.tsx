@@ -0,0 +1,307 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { X, Zap, Plus, Pencil, Trash2, History, ArrowLeft, Loader2, CheckCircle2, XCircle, MinusCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Portal from '../../shared/Portal';
+import { automationsApi, AutomationRun, BoardAutomation, BoardAutomationInput } from '@/services/trelloBoardsApi';
+import AutomationRuleForm from './AutomationRuleForm';
+import {
+  AutomationList,
+  AutomationMember,
+  createAutomationDraft,
+  describeAction,
+  describeTrigger
+} from './automationOptions';
+
+interface BoardAutomationsModalProps {
+  boardId: string;
+  lists: AutomationList[];
+  members: AutomationMember[];
+  onClose: () => void;
+}
+
+type PanelView =
+  | { mode: 'list' }
+  | { mode: 'edit'; automation: BoardAutomation | null }
+  | { mode: 'runs'; automation: BoardAutomation };
+
+const RUN_STATUS_ICONS = {
+  success: <CheckCircle2 className="w-4 h-4 text-green-500 flex-shrink-0" />,
+  failed: <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />,
+  skipped: <MinusCircle className="w-4 h-4 text-gray-400 flex-shrink-0" />
+};
+
+const formatRunTime = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const BoardAutomationsModal: React.FC<BoardAutomationsModalProps> = ({ boardId, lists, members, onClose }) => {
+  const [automations, setAutomations] = useState<BoardAutomation[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [view, setView] = useState<PanelView>({ mode: 'list' });
+  const [runs, setRuns] = useState<AutomationRun[]>([]);
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false);
+
+  const loadAutomations = useCallback(async () => {
+    try {
+      const result = await automationsApi.getAutomations(boardId);
+      setAutomations(result.automations);
+      setCanManage(result.canManage);
+    } catch (error) {
+      console.error('Error loading automations:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load automations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [boardId]);
+
+  useEffect(() => {
+    loadAutomations();
+  }, [loadAutomations]);
+
+  const replaceAutomation = (updated: BoardAutomation) => {
+    setAutomations(prev => prev.map(item => (item._id === updated._id ? updated : item)));
+  };
+
+  const handleSave = async (input: BoardAutomationInput) => {
+    if (view.mode !== 'edit') return;
+
+    setIsSaving(true);
+    try {
+      if (view.automation) {
+        replaceAutomation(await automationsApi.updateAutomation(boardId, view.automation._id, input));
+        toast.success('Automation updated');
+      } else {
+        const created = await automationsApi.createAutomation(boardId, input);
+        setAutomations(prev => [...prev, created]);
+        toast.success('Automation created');
+      }
+      setView({ mode: 'list' });
+    } catch (error) {
+      console.error('Error saving automation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save automation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (automation: BoardAutomation) => {
+    // Optimistic update
+    replaceAutomation({ ...automation, enabled: !automation.enabled });
+    try {
+      replaceAutomation(await automationsApi.updateAutomation(boardId, automation._id, { enabled: !automation.enabled }));
+    } catch (error) {
+      console.error('Error toggling automation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update automation');
+      replaceAutomation(automation);
+    }
+  };
+
+  const handleDelete = async (automation: BoardAutomation) => {
+    if (!confirm(`Delete the automation "${automation.name}"?`)) return;
+
+    try {
+      await automationsApi.deleteAutomation(boardId, automation._id);
+      setAutomations(prev => prev.filter(item => item._id !== automation._id));
+      toast.success('Automation deleted');
+    } catch (error) {
+      console.error('Error deleting automation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete automation');
+    }
+  };
+
+  const showRuns = async (automation: BoardAutomation) => {
+    setView({ mode: 'runs', automation });
+    setRuns([]);
+    setIsLoadingRuns(true);
+    try {
+      setRuns(await automationsApi.getRuns(boardId, automation._id));
+    } catch (error) {
+      console.error('Error loading automation runs:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load run history');
+    } finally {
+      setIsLoadingRuns(false);
+    }
+  };
+
+  const title = view.mode === 'edit'
+    ? (view.automation ? 'Edit Automation' : 'New Automation')
+    : view.mode === 'runs' ? view.automation.name : 'Automations';
+
+  return (
+    <Portal>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden border border-gray-200 dark:border-gray-800 animate-in slide-in-from-bottom-4 duration-300">
+          {/* Header */}
+          <div className="border-b border-gray-200 dark:border-gray-800 px-6 py-4">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 min-w-0">
+                {view.mode !== 'list' && (
+                  <button
+                    onClick={() => setView({ mode: 'list' })}
+                    disabled={isSaving}
+                    className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+                    title="Back to automations"
+                  >
+                    <ArrowLeft className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+                  </button>
+                )}
+                <div className="min-w-0">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white truncate">{title}</h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    {view.mode === 'runs' ? 'Most recent runs' : 'When something happens on this board, do something automatically'}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                disabled={isSaving}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 overflow-y-auto max-h-[calc(90vh-100px)]">
+            {view.mode === 'edit' && (
+              <AutomationRuleForm
+                initial={view.automation
+                  ? { name: view.automation.name, enabled: view.automation.enabled, trigger: view.automation.trigger, actions: view.automation.actions }
+                  : createAutomationDraft()}
+                lists={lists}
+                members={members}
+                isSaving={isSaving}
+                onSave={handleSave}
+                onCancel={() => setView({ mode: 'list' })}
+              />
+            )}
+
+            {view.mode === 'runs' && (
+              isLoadingRuns ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-[#17b6b2]" />
+                </div>
+              ) : runs.length === 0 ? (
+                <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">This automation has not run yet</p>
+              ) : (
+                <ul className="space-y-3">
+                  {runs.map(run => (
+                    <li key={run._id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-2 min-w-0">
+                          {RUN_STATUS_ICONS[run.status]}
+                          <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                            {run.cardTitle || 'Deleted card'}
+                          </span>
+                        </div>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{formatRunTime(run.ranAt)}</span>
+                      </div>
+                      <ul className="mt-2 pl-6 space-y-1">
+                        {run.actions.map((action, index) => (
+                          <li key={index} className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                            {RUN_STATUS_ICONS[action.status]}
+                            <span>{action.message || action.type}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+
+            {view.mode === 'list' && (
+              isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-[#17b6b2]" />
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {automations.length === 0 && (
+                    <div className="py-8 text-center">
+                      <Zap className="w-8 h-8 mx-auto text-gray-300 dark:text-gray-600 mb-2" />
+                      <p className="text-sm text-gray-500 dark:text-gray-400">No automations on this board yet</p>
+                    </div>
+                  )}
+
+                  {automations.map(automation => (
+                    <div
+                      key={automation._id}
+                      className={`p-4 rounded-lg border border-gray-200 dark:border-gray-700 ${automation.enabled ? '' : 'opacity-60'}`}
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate">{automation.name}</h3>
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                            {describeTrigger(automation.trigger, lists, members)}, {automation.actions.map(action => describeAction(action, lists, members)).join(', then ')}
+                          </p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {automation.runCount > 0 && automation.lastRunAt
+                              ? `Ran ${automation.runCount} time${automation.runCount === 1 ? '' : 's'}, last ${formatRunTime(automation.lastRunAt)}`
+                              : 'Not run yet'}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <button
+                            onClick={() => showRuns(automation)}
+                            className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                            title="Run history"
+                          >
+                            <History className="w-4 h-4" />
+                          </button>
+                          {canManage && (
+                            <>
+                              <button
+                                onClick={() => setView({ mode: 'edit', automation })}
+                                className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                                title="Edit automation"
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleDelete(automation)}
+                                className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                title="Delete automation"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleToggle(automation)}
+                                className={`relative ml-1 inline-flex h-5 w-9 items-center rounded-full transition-colors ${automation.enabled ? 'bg-[#17b6b2]' : 'bg-gray-300 dark:bg-gray-600'}`}
+                                title={automation.enabled ? 'Disable automation' : 'Enable automation'}
+                              >
+                                <span className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition-transform ${automation.enabled ? 'translate-x-4' : 'translate-x-0.5'}`} />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+
+                  {canManage ? (
+                    <button
+                      onClick={() => setView({ mode: 'edit', automation: null })}
+                      className="w-full flex items-center justify-center gap-2 px-4 py-2.5 border border-dashed border-gray-300 dark:border-gray-700 text-sm font-medium text-[#17b6b2] rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                    >
+                      <Plus className="w-4 h-4" />
+                      New Automation
+                    </button>
+                  ) : (
+                    <p className="text-xs text-center text-gray-500 dark:text-gray-400">Only board admins can change automations</p>
+                  )}
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    </Portal>
+  );
+};
+
+export default BoardAutomationsModal;
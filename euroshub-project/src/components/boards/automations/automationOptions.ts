@@ -0,0 +1,106 @@
+import {
+  AutomationAction,
+  AutomationActionType,
+  AutomationTriggerType,
+  BoardAutomation,
+  BoardAutomationInput
+} from '@/services/trelloBoardsApi';
+
+export interface AutomationMember {
+  _id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface AutomationList {
+  _id: string;
+  name: string;
+}
+
+export const TRIGGER_OPTIONS: Array<{ id: AutomationTriggerType; label: string }> = [
+  { id: 'card_moved_to_list', label: 'A card is moved to a list' },
+  { id: 'all_tasks_completed', label: 'All tasks on a card are completed' },
+  { id: 'due_date_passed', label: 'A card\'s due date passes' },
+  { id: 'label_added', label: 'A label is added to a card' },
+  { id: 'member_assigned', label: 'A member is added to a card' }
+];
+
+export const ACTION_OPTIONS: Array<{ id: AutomationActionType; label: string }> = [
+  { id: 'move_card', label: 'Move the card' },
+  { id: 'assign_member', label: 'Add a member' },
+  { id: 'add_label', label: 'Add a label' },
+  { id: 'post_comment', label: 'Post a comment' },
+  { id: 'notify_slack', label: 'Notify a Slack channel' },
+  { id: 'set_due_date', label: 'Set the due date' }
+];
+
+// Channel types configured on the server (see utils/slackService)
+export const SLACK_CHANNEL_OPTIONS = [
+  { id: 'boards', label: 'Boards' },
+  { id: 'tasks', label: 'Tasks' },
+  { id: 'alerts', label: 'Alerts' },
+  { id: 'default', label: 'Default' }
+];
+
+export const DEFAULT_LABEL_COLOR = '#6B7280';
+
+export const createAction = (type: AutomationActionType): AutomationAction => {
+  switch (type) {
+    case 'add_label':
+      return { type, label: { name: '', color: DEFAULT_LABEL_COLOR } };
+    case 'notify_slack':
+      return { type, channel: 'boards', text: '' };
+    case 'set_due_date':
+      return { type, dueInDays: 3 };
+    default:
+      return { type };
+  }
+};
+
+export const createAutomationDraft = (): BoardAutomationInput => ({
+  name: '',
+  enabled: true,
+  trigger: { type: 'card_moved_to_list' },
+  actions: [createAction('move_card')]
+});
+
+const memberName = (members: AutomationMember[], userId?: string) => {
+  const member = members.find(item => item._id === userId);
+  return member ? `${member.firstName} ${member.lastName}` : 'a removed member';
+};
+
+const listName = (lists: AutomationList[], listId?: string) =>
+  lists.find(list => list._id === listId)?.name || 'a removed list';
+
+// One-line summaries for the automations list
+export const describeTrigger = (trigger: BoardAutomation['trigger'], lists: AutomationList[], members: AutomationMember[]) => {
+  switch (trigger.type) {
+    case 'card_moved_to_list':
+      return trigger.listId ? `When a card is moved to ${listName(lists, trigger.listId)}` : 'When a card is moved to any list';
+    case 'all_tasks_completed':
+      return 'When all tasks on a card are completed';
+    case 'due_date_passed':
+      return 'When a card\'s due date passes';
+    case 'label_added':
+      return trigger.label ? `When the label "${trigger.label}" is added` : 'When any label is added';
+    case 'member_assigned':
+      return trigger.userId ? `When ${memberName(members, trigger.userId)} is added to a card` : 'When a member is added to a card';
+  }
+};
+
+export const describeAction = (action: AutomationAction, lists: AutomationList[], members: AutomationMember[]) => {
+  switch (action.type) {
+    case 'move_card':
+      return `move it to ${listName(lists, action.listId)}`;
+    case 'assign_member':
+      return `add ${memberName(members, action.userId)}`;
+    case 'add_label':
+      return `add the label "${action.label?.name || ''}"`;
+    case 'post_comment':
+      return 'post a comment';
+    case 'notify_slack':
+      return `notify Slack (${action.channel || 'boards'})`;
+    case 'set_due_date':
+      return action.dueInDays ? `set it due in ${action.dueInDays} day${action.dueInDays === 1 ? '' : 's'}` : 'set it due today';
+  }
+};
@@ -0,0 +1,63 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Card } from '../lists/ListContainer';
+import CalendarView from './CalendarView';
+import { CalendarItem } from './calendarUtils';
+
+interface BoardCalendarProps {
+  cards: Card[];
+  canEdit: boolean;
+  onOpenCard: (cardId: string, tab: 'overview' | 'tasks') => void;
+  onReschedule: (item: CalendarItem, dueDate: Date) => Promise<void>;
+}
+
+// Cards and their tasks that have a due date, as calendar items
+export const getBoardCalendarItems = (cards: Card[]): CalendarItem[] =>
+  cards.flatMap(card => {
+    const items: CalendarItem[] = [];
+
+    if (card.dueDate) {
+      items.push({
+        key: `card-${card._id}`,
+        type: 'card',
+        title: card.title,
+        dueDate: new Date(card.dueDate),
+        completed: card.status === 'completed',
+        cardId: card._id,
+        color: card.color
+      });
+    }
+
+    (card.tasks || []).forEach(task => {
+      if (!task.dueDate) return;
+      items.push({
+        key: `task-${task._id}`,
+        type: 'task',
+        title: task.title,
+        dueDate: new Date(task.dueDate),
+        completed: !!task.completed,
+        cardId: card._id,
+        taskId: task._id,
+        cardTitle: card.title,
+        color: card.color
+      });
+    });
+
+    return items;
+  });
+
+const BoardCalendar: React.FC<BoardCalendarProps> = ({ cards, canEdit, onOpenCard, onReschedule }) => {
+  const items = useMemo(() => getBoardCalendarItems(cards), [cards]);
+
+  return (
+    <CalendarView
+      items={items}
+      canReschedule={canEdit}
+      onReschedule={onReschedule}
+      onItemClick={(item) => onOpenCard(item.cardId, item.type === 'task' ? 'tasks' : 'overview')}
+    />
+  );
+};
+
+export default BoardCalendar;
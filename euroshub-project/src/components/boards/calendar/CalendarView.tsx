@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  DndContext,
+  DragEndEvent,
+  DragStartEvent,
+  DragOverlay,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors
+} from '@dnd-kit/core';
+import { ChevronLeft, ChevronRight, CheckSquare, CreditCard, AlertCircle, Loader2 } from 'lucide-react';
+import {
+  CalendarItem,
+  CalendarMode,
+  WEEKDAY_LABELS,
+  addDays,
+  fromDayKey,
+  getPeriodLabel,
+  getVisibleDays,
+  isItemOverdue,
+  isSameDay,
+  moveToDay,
+  shiftPeriod,
+  toDayKey
+} from './calendarUtils';
+
+const MONTH_VISIBLE_ITEMS = 3;
+
+interface CalendarViewProps {
+  items: CalendarItem[];
+  onItemClick: (item: CalendarItem) => void;
+  onReschedule: (item: CalendarItem, dueDate: Date) => Promise<void> | void;
+  canReschedule?: boolean;
+  // Called with the first and last visible instant whenever the visible period changes
+  onRangeChange?: (from: Date, to: Date) => void;
+  showBoardName?: boolean;
+  isLoading?: boolean;
+}
+
+interface CalendarChipContentProps {
+  item: CalendarItem;
+  showBoardName: boolean;
+  className?: string;
+}
+
+const CalendarChipContent: React.FC<CalendarChipContentProps> = ({ item, showBoardName, className = '' }) => {
+  const overdue = isItemOverdue(item);
+  const Icon = item.type === 'task' ? CheckSquare : CreditCard;
+  const subtitle = [item.type === 'task' ? item.cardTitle : null, showBoardName ? item.boardName : null]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <div
+      title={item.title}
+      className={`flex items-start gap-1.5 px-2 py-1 rounded-md text-xs border-l-2 transition-colors ${
+        overdue
+          ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border-l-red-500'
+          : item.completed
+            ? 'bg-gray-50 dark:bg-gray-800 text-gray-400 dark:text-gray-500 line-through border-l-gray-300'
+            : 'bg-[#17b6b2]/10 text-gray-800 dark:text-gray-200 hover:bg-[#17b6b2]/20 border-l-[#17b6b2]'
+      } ${className}`}
+      style={item.color && !overdue && !item.completed ? { borderLeftColor: item.color } : undefined}
+    >
+      {overdue ? (
+        <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+      ) : (
+        <Icon className="w-3 h-3 mt-0.5 flex-shrink-0 opacity-70" />
+      )}
+      <div className="min-w-0">
+        <p className="truncate font-medium">{item.title}</p>
+        {subtitle && <p className="truncate opacity-70">{subtitle}</p>}
+      </div>
+    </div>
+  );
+};
+
+interface CalendarChipProps {
+  item: CalendarItem;
+  showBoardName: boolean;
+  draggable: boolean;
+  onClick: (item: CalendarItem) => void;
+}
+
+const CalendarChip: React.FC<CalendarChipProps> = ({ item, showBoardName, draggable, onClick }) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: item.key,
+    disabled: !draggable
+  });
+
+  return (
+    <div ref={setNodeRef} {...attributes} {...listeners} onClick={() => onClick(item)}>
+      <CalendarChipContent
+        item={item}
+        showBoardName={showBoardName}
+        className={`${draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'} ${isDragging ? 'opacity-40' : ''}`}
+      />
+    </div>
+  );
+};
+
+interface CalendarDayProps {
+  day: Date;
+  items: CalendarItem[];
+  mode: CalendarMode;
+  isCurrentMonth: boolean;
+  showBoardName: boolean;
+  canReschedule: boolean;
+  onItemClick: (item: CalendarItem) => void;
+  onShowMore: (day: Date) => void;
+}
+
+const CalendarDay: React.FC<CalendarDayProps> = ({
+  day,
+  items,
+  mode,
+  isCurrentMonth,
+  showBoardName,
+  canReschedule,
+  onItemClick,
+  onShowMore
+}) => {
+  const { setNodeRef, isOver } = useDroppable({ id: toDayKey(day) });
+  const isToday = isSameDay(day, new Date());
+  const visibleItems = mode === 'month' ? items.slice(0, MONTH_VISIBLE_ITEMS) : items;
+  const hiddenCount = items.length - visibleItems.length;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex flex-col gap-1 p-1.5 border-r border-b border-gray-200 dark:border-gray-800 transition-colors ${
+        mode === 'month' ? 'min-h-[7rem]' : 'min-h-[24rem]'
+      } ${isOver ? 'bg-[#17b6b2]/10' : isCurrentMonth ? 'bg-white dark:bg-gray-900' : 'bg-gray-50 dark:bg-gray-900/60'}`}
+    >
+      <div className="flex justify-end">
+        <span
+          className={`w-6 h-6 flex items-center justify-center rounded-full text-xs font-medium ${
+            isToday
+              ? 'bg-[#17b6b2] text-white'
+              : isCurrentMonth
+                ? 'text-gray-700 dark:text-gray-300'
+                : 'text-gray-400 dark:text-gray-600'
+          }`}
+        >
+          {day.getDate()}
+        </span>
+      </div>
+      {visibleItems.map(item => (
+        <CalendarChip
+          key={item.key}
+          item={item}
+          showBoardName={showBoardName}
+          onClick={onItemClick}
+          draggable={canReschedule}
+        />
+      ))}
+      {hiddenCount > 0 && (
+        <button
+          onClick={() => onShowMore(day)}
+          className="text-left px-2 text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-[#17b6b2]"
+        >
+          +{hiddenCount} more
+        </button>
+      )}
+    </div>
+  );
+};
+
+const CalendarView: React.FC<CalendarViewProps> = ({
+  items,
+  onItemClick,
+  onReschedule,
+  canReschedule = true,
+  onRangeChange,
+  showBoardName = false,
+  isLoading = false
+}) => {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [currentDate, setCurrentDate] = useState(() => new Date());
+  const [activeItem, setActiveItem] = useState<CalendarItem | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      // Small threshold so clicking an item still opens it
+      activationConstraint: { distance: 5 }
+    })
+  );
+
+  const visibleDays = useMemo(() => getVisibleDays(currentDate, mode), [currentDate, mode]);
+  const rangeStart = visibleDays[0];
+  const rangeEnd = visibleDays[visibleDays.length - 1];
+
+  useEffect(() => {
+    onRangeChange?.(rangeStart, new Date(addDays(rangeEnd, 1).getTime() - 1));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [toDayKey(rangeStart), toDayKey(rangeEnd)]);
+
+  const itemsByDay = useMemo(() => {
+    const grouped = new Map<string, CalendarItem[]>();
+    items.forEach(item => {
+      const key = toDayKey(item.dueDate);
+      grouped.set(key, [...(grouped.get(key) || []), item]);
+    });
+    grouped.forEach(dayItems => dayItems.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime()));
+    return grouped;
+  }, [items]);
+
+  const overdueCount = items.filter(item => isItemOverdue(item)).length;
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveItem(items.find(item => item.key === event.active.id) || null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setActiveItem(null);
+    const item = items.find(entry => entry.key === event.active.id);
+    if (!item || !event.over) return;
+
+    const targetDay = fromDayKey(event.over.id as string);
+    if (isSameDay(targetDay, item.dueDate)) return;
+
+    onReschedule(item, moveToDay(item.dueDate, targetDay));
+  };
+
+  const handleShowMore = (day: Date) => {
+    setCurrentDate(day);
+    setMode('week');
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-gray-200 dark:border-gray-800">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setCurrentDate(new Date())}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => setCurrentDate(prev => shiftPeriod(prev, mode, -1))}
+            className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            title="Previous"
+          >
+            <ChevronLeft className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          </button>
+          <button
+            onClick={() => setCurrentDate(prev => shiftPeriod(prev, mode, 1))}
+            className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            title="Next"
+          >
+            <ChevronRight className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          </button>
+          <h2 className="ml-2 text-lg font-semibold text-gray-900 dark:text-white">
+            {getPeriodLabel(currentDate, mode)}
+          </h2>
+          {isLoading && <Loader2 className="w-4 h-4 animate-spin text-[#17b6b2]" />}
+        </div>
+
+        <div className="flex items-center gap-3">
+          {overdueCount > 0 && (
+            <span className="flex items-center gap-1 text-xs font-medium text-red-600 dark:text-red-400">
+              <AlertCircle className="w-3.5 h-3.5" />
+              {overdueCount} overdue
+            </span>
+          )}
+          <div className="flex items-center gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg">
+            {(['month', 'week'] as CalendarMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 text-sm font-medium rounded-md capitalize transition-colors ${
+                  mode === option
+                    ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Grid */}
+      <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => setActiveItem(null)}>
+        <div className="flex-1 overflow-auto">
+          <div className="grid grid-cols-7 border-l border-gray-200 dark:border-gray-800 min-w-[42rem]">
+            {WEEKDAY_LABELS.map((label, index) => (
+              <div
+                key={label}
+                className="px-2 py-2 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 border-r border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50"
+              >
+                {mode === 'week' ? `${label} ${visibleDays[index].getDate()}` : label}
+              </div>
+            ))}
+            {visibleDays.map(day => (
+              <CalendarDay
+                key={toDayKey(day)}
+                day={day}
+                items={itemsByDay.get(toDayKey(day)) || []}
+                mode={mode}
+                isCurrentMonth={mode === 'week' || day.getMonth() === currentDate.getMonth()}
+                showBoardName={showBoardName}
+                canReschedule={canReschedule}
+                onItemClick={onItemClick}
+                onShowMore={handleShowMore}
+              />
+            ))}
+          </div>
+        </div>
+
+        <DragOverlay>
+          {activeItem && (
+            <CalendarChipContent
+              item={activeItem}
+              showBoardName={showBoardName}
+              className="shadow-lg bg-white dark:bg-gray-800 rotate-2 cursor-grabbing"
+            />
+          )}
+        </DragOverlay>
+      </DndContext>
+    </div>
+  );
+};
+
+export default CalendarView;
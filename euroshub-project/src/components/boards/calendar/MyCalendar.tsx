@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { cardsApi, CalendarEntry } from '@/services/trelloBoardsApi';
+import CalendarView from './CalendarView';
+import { CalendarItem } from './calendarUtils';
+
+interface MyCalendarProps {
+  role: string;
+}
+
+const toCalendarItem = (entry: CalendarEntry): CalendarItem => ({
+  key: `${entry.type}-${entry.id}`,
+  type: entry.type,
+  title: entry.title,
+  dueDate: new Date(entry.dueDate),
+  completed: entry.completed,
+  cardId: entry.cardId,
+  taskId: entry.taskId,
+  cardTitle: entry.cardTitle,
+  boardId: entry.boardId,
+  boardName: entry.boardName,
+  color: entry.color
+});
+
+/**
+ * Personal calendar: cards and tasks assigned to the current user on every board
+ */
+const MyCalendar: React.FC<MyCalendarProps> = ({ role }) => {
+  const router = useRouter();
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const requestIdRef = useRef(0);
+
+  const items = useMemo(() => entries.map(toCalendarItem), [entries]);
+
+  const loadRange = useCallback(async (from: Date, to: Date) => {
+    // Ignore responses for a period the user already navigated away from
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+
+    try {
+      const data = await cardsApi.getMyCalendar(from, to);
+      if (requestId === requestIdRef.current) {
+        setEntries(data);
+      }
+    } catch (error) {
+      console.error('Error loading calendar:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load calendar');
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  const setEntryDueDate = (key: string, dueDate: Date) => {
+    setEntries(prev => prev.map(entry =>
+      `${entry.type}-${entry.id}` === key ? { ...entry, dueDate: dueDate.toISOString() } : entry
+    ));
+  };
+
+  const handleReschedule = async (item: CalendarItem, dueDate: Date) => {
+    const previousDueDate = item.dueDate;
+    setEntryDueDate(item.key, dueDate);
+
+    try {
+      if (item.type === 'task' && item.taskId) {
+        await cardsApi.updateTask(item.cardId, item.taskId, { dueDate: dueDate.toISOString() });
+      } else {
+        await cardsApi.updateCard(item.cardId, { dueDate });
+      }
+      toast.success(`"${item.title}" moved to ${dueDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`);
+    } catch (error) {
+      console.error('Error rescheduling item:', error);
+      setEntryDueDate(item.key, previousDueDate);
+      toast.error(error instanceof Error ? error.message : 'Failed to reschedule');
+    }
+  };
+
+  const handleItemClick = (item: CalendarItem) => {
+    const params = new URLSearchParams({ card: item.cardId, tab: item.type === 'task' ? 'tasks' : 'overview' });
+    router.push(`/${role}/boards/${item.boardId}?${params.toString()}`);
+  };
+
+  return (
+    <div className="h-[calc(100vh-10rem)] min-h-[36rem]">
+      <CalendarView
+        items={items}
+        onItemClick={handleItemClick}
+        onReschedule={handleReschedule}
+        onRangeChange={loadRange}
+        isLoading={isLoading}
+        showBoardName
+      />
+    </div>
+  );
+};
+
+export default MyCalendar;
@@ -0,0 +1,77 @@
+export type CalendarMode = 'month' | 'week';
+
+export interface CalendarItem {
+  // Unique across cards and tasks, e.g. `card-<id>` or `task-<id>`
+  key: string;
+  type: 'card' | 'task';
+  title: string;
+  dueDate: Date;
+  completed: boolean;
+  cardId: string;
+  taskId?: string;
+  cardTitle?: string;
+  boardId?: string;
+  boardName?: string;
+  color?: string | null;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+// Local date key, used as the droppable id of a day cell
+export const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const fromDayKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Days shown for the current mode: full weeks (Sunday first) covering the month,
+ * or the single week containing the date
+ */
+export const getVisibleDays = (date: Date, mode: CalendarMode) => {
+  if (mode === 'week') {
+    const weekStart = addDays(startOfDay(date), -date.getDay());
+    return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  }
+
+  const monthStart = new Date(date.getFullYear(), date.getMonth(), 1);
+  const monthEnd = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+  const gridStart = addDays(monthStart, -monthStart.getDay());
+  const gridEnd = addDays(monthEnd, 6 - monthEnd.getDay());
+  const dayCount = Math.round((gridEnd.getTime() - gridStart.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  return Array.from({ length: dayCount }, (_, i) => addDays(gridStart, i));
+};
+
+export const shiftPeriod = (date: Date, mode: CalendarMode, direction: 1 | -1) =>
+  mode === 'week'
+    ? addDays(date, 7 * direction)
+    : new Date(date.getFullYear(), date.getMonth() + direction, 1);
+
+export const getPeriodLabel = (date: Date, mode: CalendarMode) => {
+  if (mode === 'month') {
+    return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+  const [first, , , , , , last] = getVisibleDays(date, 'week');
+  const format = (day: Date) => day.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${format(first)} - ${format(last)}, ${last.getFullYear()}`;
+};
+
+// Move a due date to another day, keeping its time of day
+export const moveToDay = (dueDate: Date, day: Date) => {
+  const moved = new Date(day);
+  moved.setHours(dueDate.getHours(), dueDate.getMinutes(), dueDate.getSeconds(), dueDate.getMilliseconds());
+  return moved;
+};
+
+export const isItemOverdue = (item: CalendarItem, now = new Date()) =>
+  !item.completed && item.dueDate < now;
@@ -2,10 +2,13 @@
 
 import { useState } from 'react';
 import { X, Plus, Trash2, ArrowRight } from 'lucide-react';
+import { BoardLabel, CardLabel } from '@/services/trelloBoardsApi';
+import LabelPicker from '../labels/LabelPicker';
 
 interface CreateCardFormProps {
   listId: string;
   boardMembers?: BoardMember[];
+  boardLabels?: BoardLabel[];
   onCreateCard: (listId: string, cardData: CreateCardData) => Promise<void>;
   onCancel: () => void;
 }
@@ -34,7 +37,7 @@ export interface CreateCardData {
   description?: string;
   coverImage?: string;
   color?: string;
-  labels?: string[];
+  labels?: CardLabel[];
   dueDate?: Date;
   assignedMembers?: string[];
   priority?: 'low' | 'medium' | 'high' | 'urgent';
@@ -47,6 +50,7 @@ export interface CreateCardData {
 const CreateCardForm: React.FC<CreateCardFormProps> = ({
   listId,
   boardMembers = [],
+  boardLabels = [],
   onCreateCard,
   onCancel,
 }) => {
@@ -112,24 +116,6 @@ const CreateCardForm: React.FC<CreateCardFormProps> = ({
     }
   };
 
-  const addLabel = (label: string) => {
-    if (label.trim() && !cardData.labels?.includes(label.trim())) {
-      setCardData(prev => ({
-        ...prev,
-        labels: [...(prev.labels || []), label.trim()]
-      }));
-    }
-  };
-
-  const removeLabel = (labelToRemove: string) => {
-    setCardData(prev => ({
-      ...prev,
-      labels: prev.labels?.filter(label => label !== labelToRemove) || []
-    }));
-  };
-
-  const predefinedLabels = ['Frontend', 'Backend', 'Design', 'Bug', 'Feature', 'Urgent', 'Testing'];
-
   // Workflow functions
   const addWorkflowStage = () => {
     const newStage: WorkflowStage = {
@@ -298,46 +284,12 @@ const CreateCardForm: React.FC<CreateCardFormProps> = ({
                 Labels
               </label>
 
-              {/* Current Labels */}
-              {cardData.labels && cardData.labels.length > 0 && (
-                <div className="flex flex-wrap gap-1 mb-2">
-                  {cardData.labels.map((label, index) => (
-                    <span
-                      key={index}
-                      className="inline-flex items-center px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-xs rounded-full"
-                    >
-                      {label}
-                      <button
-                        type="button"
-                        onClick={() => removeLabel(label)}
-                        className="ml-1 text-blue-500 hover:text-blue-700"
-                        disabled={isLoading}
-                      >
-                        <X className="w-3 h-3" />
-                      </button>
-                    </span>
-                  ))}
-                </div>
-              )}
-
-              {/* Predefined Labels */}
-              <div className="flex flex-wrap gap-1">
-                {predefinedLabels.map((label) => (
-                  <button
-                    key={label}
-                    type="button"
-                    onClick={() => addLabel(label)}
-                    disabled={cardData.labels?.includes(label) || isLoading}
-                    className={`px-2 py-1 text-xs rounded-full border transition-colors ${
-                      cardData.labels?.includes(label)
-                        ? 'bg-gray-200 dark:bg-gray-600 text-gray-400 cursor-not-allowed'
-                        : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
-                    }`}
-                  >
-                    {label}
-                  </button>
-                ))}
-              </div>
+              <LabelPicker
+                boardLabels={boardLabels}
+                selected={cardData.labels || []}
+                onChange={(labels) => setCardData(prev => ({ ...prev, labels }))}
+                disabled={isLoading}
+              />
             </div>
 
             {/* Card Color */}
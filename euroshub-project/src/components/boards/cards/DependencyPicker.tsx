@@ -0,0 +1,87 @@
+'use client';
+
+import { X, Lock } from 'lucide-react';
+
+export interface DependencyOption {
+  _id: string;
+  title: string;
+  completed: boolean;
+  // Set for tasks on other cards
+  cardTitle?: string;
+}
+
+const CURRENT_CARD_GROUP = 'This card';
+
+interface DependencyPickerProps {
+  value: string[];
+  options: DependencyOption[];
+  onChange: (dependsOn: string[]) => void;
+  // The task being edited, which cannot depend on itself
+  excludeId?: string;
+  disabled?: boolean;
+}
+
+// Pick any number of predecessor tasks, grouped by the card they are on
+const DependencyPicker: React.FC<DependencyPickerProps> = ({ value, options, onChange, excludeId, disabled = false }) => {
+  const optionsById = new Map(options.map(option => [option._id, option]));
+  const available = options.filter(option =>
+    option._id !== excludeId && !option.completed && !value.includes(option._id)
+  );
+  const groups = [...new Set(available.map(option => option.cardTitle || CURRENT_CARD_GROUP))];
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(taskId => {
+            const option = optionsById.get(taskId);
+            return (
+              <span
+                key={taskId}
+                className={`flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-full border ${
+                  option?.completed
+                    ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-700 dark:text-green-300'
+                    : 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800 text-orange-700 dark:text-orange-300'
+                }`}
+              >
+                {!option?.completed && <Lock className="w-3 h-3" />}
+                {option ? option.title : 'Unknown task'}
+                {option?.cardTitle && (
+                  <span className="text-gray-500 dark:text-gray-400">· {option.cardTitle}</span>
+                )}
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => onChange(value.filter(id => id !== taskId))}
+                    className="hover:text-red-600"
+                    title="Remove dependency"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChange([...value, e.target.value])}
+        disabled={disabled || available.length === 0}
+        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm disabled:opacity-60 disabled:cursor-not-allowed transition-opacity"
+      >
+        <option value="">{available.length === 0 ? 'No open tasks to depend on' : 'Add a dependency...'}</option>
+        {groups.map(group => (
+          <optgroup key={group} label={group}>
+            {available.filter(option => (option.cardTitle || CURRENT_CARD_GROUP) === group).map(option => (
+              <option key={option._id} value={option._id}>{option.title}</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default DependencyPicker;
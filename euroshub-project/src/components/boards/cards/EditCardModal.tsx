@@ -15,6 +15,9 @@ import {
 } from 'lucide-react';
 import Image from 'next/image';
 import { Card } from '../lists/ListContainer';
+import { BoardLabel } from '@/services/trelloBoardsApi';
+import LabelChip from '../labels/LabelChip';
+import LabelPicker from '../labels/LabelPicker';
 
 interface EditCardModalProps {
   card: Card;
@@ -24,6 +27,7 @@ interface EditCardModalProps {
   onDeleteCard: (cardId: string) => Promise<void>;
   canEdit: boolean;
   canDelete: boolean;
+  boardLabels?: BoardLabel[];
 }
 
 interface Comment {
@@ -46,6 +50,7 @@ const EditCardModal: React.FC<EditCardModalProps> = ({
   onDeleteCard,
   canEdit,
   canDelete,
+  boardLabels = [],
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState<Partial<Card>>(card);
@@ -139,28 +144,10 @@ const EditCardModal: React.FC<EditCardModalProps> = ({
     setNewComment('');
   };
 
-  const addLabel = (label: string) => {
-    if (label.trim() && !editData.labels?.includes(label.trim())) {
-      setEditData(prev => ({
-        ...prev,
-        labels: [...(prev.labels || []), label.trim()]
-      }));
-    }
-  };
-
-  const removeLabel = (labelToRemove: string) => {
-    setEditData(prev => ({
-      ...prev,
-      labels: prev.labels?.filter(label => label !== labelToRemove) || []
-    }));
-  };
-
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleString();
   };
 
-  const predefinedLabels = ['Frontend', 'Backend', 'Design', 'Bug', 'Feature', 'Urgent', 'Testing'];
-
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl max-h-screen overflow-hidden">
@@ -310,40 +297,16 @@ const EditCardModal: React.FC<EditCardModalProps> = ({
             {/* Labels */}
             <div className="mb-6">
               <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Labels</h3>
-              <div className="flex flex-wrap gap-1 mb-2">
-                {editData.labels?.map((label, index) => (
-                  <span
-                    key={index}
-                    className="inline-flex items-center px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-xs rounded-full"
-                  >
-                    {label}
-                    {isEditing && canEdit && (
-                      <button
-                        onClick={() => removeLabel(label)}
-                        className="ml-1 text-blue-500 hover:text-blue-700"
-                      >
-                        <X className="w-3 h-3" />
-                      </button>
-                    )}
-                  </span>
-                ))}
-              </div>
-
-              {isEditing && canEdit && (
-                <div className="flex flex-wrap gap-1">
-                  {predefinedLabels.map((label) => (
-                    <button
-                      key={label}
-                      onClick={() => addLabel(label)}
-                      disabled={editData.labels?.includes(label)}
-                      className={`px-2 py-1 text-xs rounded-full border transition-colors ${
-                        editData.labels?.includes(label)
-                          ? 'bg-gray-200 dark:bg-gray-600 text-gray-400 cursor-not-allowed'
-                          : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
-                      }`}
-                    >
-                      {label}
-                    </button>
+              {isEditing && canEdit ? (
+                <LabelPicker
+                  boardLabels={boardLabels}
+                  selected={editData.labels || []}
+                  onChange={(labels) => setEditData(prev => ({ ...prev, labels }))}
+                />
+              ) : (
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {editData.labels?.map((label, index) => (
+                    <LabelChip key={index} label={label} />
                   ))}
                 </div>
               )}
@@ -12,6 +12,7 @@ interface User {
   email: string;
   avatar?: string;
   role: string;
+  department?: string;
 }
 
 interface ProjectMember {
@@ -42,6 +43,7 @@ const MemberAssignmentModal: React.FC<MemberAssignmentModalProps> = ({
   currentUserId
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [departmentFilter, setDepartmentFilter] = useState('all');
   const [selectedRole, setSelectedRole] = useState('member');
   const [availableUsers, setAvailableUsers] = useState<User[]>([]);
 
@@ -103,8 +105,10 @@ const MemberAssignmentModal: React.FC<MemberAssignmentModalProps> = ({
 
   if (!isOpen) return null;
 
+  const departments = [...new Set(boardMembers.map(user => user.department).filter((name): name is string => Boolean(name)))].sort();
   const filteredUsers = availableUsers.filter(user =>
-    `${user.firstName} ${user.lastName} ${user.email}`.toLowerCase().includes(searchTerm.toLowerCase())
+    `${user.firstName} ${user.lastName} ${user.email}`.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (departmentFilter === 'all' || user.department === departmentFilter)
   );
 
   const handleAddMember = (userId: string) => {
@@ -289,15 +293,29 @@ const MemberAssignmentModal: React.FC<MemberAssignmentModalProps> = ({
             </div>
 
             {/* Search Box */}
-            <div className="relative mb-4">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
-              <input
-                type="text"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                placeholder="Search board members..."
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-              />
+            <div className="flex gap-2 mb-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <input
+                  type="text"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Search board members..."
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+              {departments.length > 0 && (
+                <select
+                  value={departmentFilter}
+                  onChange={(e) => setDepartmentFilter(e.target.value)}
+                  className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  <option value="all">All departments</option>
+                  {departments.map(department => (
+                    <option key={department} value={department}>{department}</option>
+                  ))}
+                </select>
+              )}
             </div>
 
             {/* Available Users */}
@@ -31,20 +31,35 @@ import {
   Smile,
   SmilePlus,
   Lock,
-  Lightbulb
+  Lightbulb,
+  GitBranch,
+  Network,
+  UsersRound,
+  Eye,
+  EyeOff
 } from 'lucide-react';
 import EmojiPicker, { EmojiClickData } from 'emoji-picker-react';
 import { Card } from '../lists/ListContainer';
 import { Task as ProjectTask, Subtask } from '../../../types/project';
 import TaskModal from './TaskModal';
+import WorkflowTab from './WorkflowTab';
+import TimeTab from './TimeTab';
+import DependencyPicker, { DependencyOption } from './DependencyPicker';
+import TaskDependencyGraph from './TaskDependencyGraph';
 import Portal from '../../shared/Portal';
-import { cardsApi } from '../../../services/trelloBoardsApi';
+import { cardsApi, BoardLabel, BoardTask, ClientFeedbackType, CustomFieldDefinition } from '../../../services/trelloBoardsApi';
 import { folderApi, fileApi } from '../../../services/filesApi';
-import { commentsApi } from '../../../services/commentsApi';
+import { commentsApi, CommentVisibility } from '../../../services/commentsApi';
 import { activityService, Activity } from '../../../lib/activityService';
 import { useAuth } from '@/hooks/useAuth';
 import { useSocketContext } from '@/contexts/SocketContext';
 import FolderTree from './FolderTree';
+import CustomFieldValueInput from '../customFields/CustomFieldValueInput';
+import LabelChip from '../labels/LabelChip';
+import LabelPicker from '../labels/LabelPicker';
+import ClientSharingSection, { BoardClient } from '../client/ClientSharingSection';
+import ClientFeedbackBadge from '../client/ClientFeedbackBadge';
+import { CustomFieldValue, formatFieldValue, getFieldOption, isEmptyFieldValue } from '../customFields/customFieldUtils';
 
 interface User {
   _id: string;
@@ -55,6 +70,8 @@ interface User {
   role: string;
 }
 
+export type ProjectModalTab = 'overview' | 'tasks' | 'workflow' | 'time' | 'files' | 'comments' | 'activity';
+
 interface ProjectModalProps {
   card: Card;
   isOpen: boolean;
@@ -63,7 +80,19 @@ interface ProjectModalProps {
   onDeleteCard: (cardId: string) => Promise<void>;
   canEdit: boolean;
   canDelete: boolean;
+  canComment: boolean;
+  canViewFiles: boolean;
+  canUploadFiles: boolean;
   boardMembers?: User[];
+  boardLists?: Array<{ _id: string; name: string }>;
+  boardCustomFields?: CustomFieldDefinition[];
+  boardLabels?: BoardLabel[];
+  boardTeams?: Array<{ _id: string; name: string; members: string[] }>;
+  // Clients on the board, who the card can be shared with
+  boardClients?: BoardClient[];
+  // Reflect changes saved outside onUpdateCard, such as client sharing, on the board
+  onCardChange?: (cardId: string, changes: Partial<Card>) => void;
+  initialTab?: ProjectModalTab;
 }
 
 interface LocalTask {
@@ -85,10 +114,11 @@ interface LocalTask {
     title: string;
     completed: boolean;
   }>;
-  dependsOn?: string;
+  dependsOn?: string[];
   isLocked?: boolean;
   lockedReason?: string;
   unlockedAt?: Date | string;
+  estimatedHours?: number | null;
   autoAssignOnUnlock?: boolean;
   assignToOnUnlock?: string[];
   assignToOnUnlockUsers?: Array<{
@@ -121,6 +151,8 @@ interface Comment {
   }>;
   isEdited?: boolean;
   editedAt?: Date;
+  visibility?: CommentVisibility;
+  clientFeedback?: ClientFeedbackType | null;
   createdAt: Date;
   updatedAt?: Date;
 }
@@ -143,6 +175,7 @@ interface ProjectFile {
   uploadedAt: Date;
   createdAt: Date;
   isDeleted: boolean;
+  sharedWithClient?: boolean;
 }
 
 interface FolderNode {
@@ -159,6 +192,12 @@ interface FolderNode {
   children?: FolderNode[];
 }
 
+// The card's custom field values by field id
+const getCustomFieldValues = (card: Card): Record<string, CustomFieldValue> =>
+  Object.fromEntries((card.customFields || [])
+    .filter(entry => entry.fieldId)
+    .map(entry => [entry.fieldId as string, entry.value]));
+
 const ProjectModal: React.FC<ProjectModalProps> = ({
   card,
   isOpen,
@@ -167,15 +206,27 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
   onDeleteCard,
   canEdit,
   canDelete,
+  canComment,
+  canViewFiles,
+  canUploadFiles,
   boardMembers = [],
+  boardLists = [],
+  boardCustomFields = [],
+  boardLabels = [],
+  boardTeams = [],
+  boardClients = [],
+  onCardChange,
+  initialTab = 'overview',
 }) => {
   const { user } = useAuth();
   const { socket, isConnected, joinCard, leaveCard } = useSocketContext();
-  const [activeTab, setActiveTab] = useState<'overview' | 'tasks' | 'files' | 'comments' | 'activity'>('overview');
+  const [activeTab, setActiveTab] = useState<ProjectModalTab>(initialTab);
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState<Partial<Card>>(card);
   const [editTitle, setEditTitle] = useState(card.title);
+  const [fieldValues, setFieldValues] = useState<Record<string, CustomFieldValue>>(() => getCustomFieldValues(card));
   const [newComment, setNewComment] = useState('');
+  const [newCommentVisibility, setNewCommentVisibility] = useState<CommentVisibility>('internal');
   const [comments, setComments] = useState<Comment[]>([]);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [showReactionPicker, setShowReactionPicker] = useState<string | null>(null);
@@ -195,9 +246,12 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
   const [showTaskModal, setShowTaskModal] = useState(false);
   const [error, setError] = useState<string | null>(null);
   // NEW: Task dependency state
-  const [newTaskDependsOn, setNewTaskDependsOn] = useState<string | null>(null);
+  const [newTaskDependsOn, setNewTaskDependsOn] = useState<string[]>([]);
   const [newTaskAutoAssign, setNewTaskAutoAssign] = useState(false);
   const [newTaskAssignTo, setNewTaskAssignTo] = useState<string[]>([]);
+  const [newTaskTeam, setNewTaskTeam] = useState<string | null>(null);
+  const [boardTasks, setBoardTasks] = useState<BoardTask[]>([]);
+  const [showDependencyGraph, setShowDependencyGraph] = useState(false);
   // Member search state
   const [memberSearchQuery, setMemberSearchQuery] = useState('');
   const [showMemberDropdown, setShowMemberDropdown] = useState(false);
@@ -221,6 +275,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
   // Load real data when card changes
   useEffect(() => {
     setEditData(card);
+    setFieldValues(getCustomFieldValues(card));
     setIsEditing(false);
 
     // Update project data when card changes
@@ -247,10 +302,26 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
     if (isOpen && card._id) {
       setError(null); // Clear any previous errors
       setTasks([]); // Clear existing tasks to prevent stale data
+      setActiveTab(initialTab);
       loadCardData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, card._id]);
+  }, [isOpen, card._id, initialTab]);
+
+  // Tasks on the board's other cards, for cross-card dependencies and the dependency graph
+  const loadBoardTasks = useCallback(async () => {
+    try {
+      setBoardTasks(await cardsApi.getBoardTasks(card._id));
+    } catch (error) {
+      console.error('Error loading board tasks:', error);
+    }
+  }, [card._id]);
+
+  useEffect(() => {
+    if (isOpen && activeTab === 'tasks') {
+      loadBoardTasks();
+    }
+  }, [isOpen, activeTab, loadBoardTasks]);
 
   // Close emoji picker when clicking outside
   useEffect(() => {
@@ -341,10 +412,11 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
           dueDate?: Date;
           priority?: string;
           createdAt?: Date;
-          dependsOn?: string;
+          dependsOn?: string[];
           isLocked?: boolean;
           lockedReason?: string;
           unlockedAt?: Date;
+          estimatedHours?: number | null;
           autoAssignOnUnlock?: boolean;
           assignToOnUnlock?: string[];
           subtasks?: Array<{
@@ -370,6 +442,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
           uploadedAt?: Date;
           createdAt?: Date;
           isDeleted?: boolean;
+          sharedWithClient?: boolean;
         }>;
       };
 
@@ -407,6 +480,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
             isLocked: task.isLocked,
             lockedReason: task.lockedReason,
             unlockedAt: task.unlockedAt,
+            estimatedHours: task.estimatedHours,
             autoAssignOnUnlock: task.autoAssignOnUnlock,
             assignToOnUnlock: task.assignToOnUnlock,
             assignToOnUnlockUsers: resolvedAssignToOnUnlock,
@@ -449,7 +523,8 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
           uploadedBy: attachment.uploadedBy as { _id: string; firstName: string; lastName: string; },
           uploadedAt: attachment.uploadedAt || attachment.createdAt || new Date(),
           createdAt: attachment.createdAt || new Date(),
-          isDeleted: attachment.isDeleted || false
+          isDeleted: attachment.isDeleted || false,
+          sharedWithClient: attachment.sharedWithClient || false
         }));
         setFiles(formattedFiles.filter((f) => !f.isDeleted));
       } else {
@@ -491,6 +566,14 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
   if (!isOpen) return null;
 
   const handleSave = async () => {
+    const missingField = boardCustomFields.find(field =>
+      field.required && isEmptyFieldValue(fieldValues[field._id] ?? null)
+    );
+    if (missingField) {
+      setError(`"${missingField.name}" is required`);
+      return;
+    }
+
     setIsLoading(true);
     try {
       // Combine basic card data with project data
@@ -505,7 +588,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
         progress: projectData.progress,
         category: projectData.category,
         estimatedHours: projectData.estimatedHours,
-        actualHours: projectData.actualHours,
+        customFields: boardCustomFields.map(field => ({ fieldId: field._id, value: fieldValues[field._id] ?? null })),
       };
 
       console.log('Saving card with data:', updateData);
@@ -523,6 +606,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
   const handleCancel = () => {
     setEditData(card);
     setEditTitle(card.title);
+    setFieldValues(getCustomFieldValues(card));
     setProjectData({
       budget: card.budget || 0,
       status: card.status || 'planning',
@@ -560,7 +644,8 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
       // Add comment via API
       const result = await commentsApi.addComment(card._id, {
         text: newComment.trim(),
-        mentions: [] // TODO: Extract mentions from comment text
+        mentions: [], // TODO: Extract mentions from comment text
+        visibility: newCommentVisibility
       });
 
       // Add the new comment to state
@@ -618,23 +703,24 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
         priority: 'low' | 'medium' | 'high';
         description?: string;
         assignedTo?: string[];
-        dependsOn?: string;
+        dependsOn?: string[];
         autoAssignOnUnlock?: boolean;
         assignToOnUnlock?: string[];
+        assignedTeam?: string;
       } = {
         title: newTask.trim(),
         priority: 'medium' as const
       };
 
-      // Add dependency if selected
-      if (newTaskDependsOn) {
+      // Add dependencies if selected
+      if (newTaskDependsOn.length > 0) {
         taskData.dependsOn = newTaskDependsOn;
       }
 
       // Add assignments if users are selected
       if (newTaskAssignTo.length > 0) {
         // If there's a dependency AND auto-assign is enabled
-        if (newTaskDependsOn && newTaskAutoAssign) {
+        if (newTaskDependsOn.length > 0 && newTaskAutoAssign) {
           // Configure auto-assignment (assign when unlocked)
           taskData.autoAssignOnUnlock = true;
           taskData.assignToOnUnlock = newTaskAssignTo;
@@ -644,6 +730,11 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
         }
       }
 
+      // The server adds the team's members, including anyone who joins it later
+      if (newTaskTeam) {
+        taskData.assignedTeam = newTaskTeam;
+      }
+
       console.log('🚀 FRONTEND - Sending task data to API:', {
         cardId: card._id,
         taskData,
@@ -732,9 +823,10 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
       });
 
       setNewTask('');
-      setNewTaskDependsOn(null);
+      setNewTaskDependsOn([]);
       setNewTaskAutoAssign(false);
       setNewTaskAssignTo([]);
+      setNewTaskTeam(null);
       setShowTaskForm(false);
       setError(null); // Clear any previous errors
     } catch (error) {
@@ -760,6 +852,8 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
     try {
       await cardsApi.updateTask(card._id, taskId, { completed: newCompletedState });
       setError(null); // Clear any previous errors
+      // Tasks on other cards may have been locked or unlocked
+      loadBoardTasks();
     } catch (error) {
       console.error('Error updating task:', error);
       setError('Failed to update task. Please try again.');
@@ -805,12 +899,14 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
       assignedTo?: string[];
       priority?: 'low' | 'medium' | 'high';
       dueDate?: Date | string;
+      estimatedHours?: number | null;
     } = {
       title: updates.title,
       description: updates.description,
       completed: updates.completed,
       priority: updates.priority,
       dueDate: updates.dueDate,
+      estimatedHours: updates.estimatedHours,
       // Convert assignedTo array of user objects to array of user IDs
       assignedTo: updates.assignedTo && Array.isArray(updates.assignedTo)
         ? updates.assignedTo.map(user => typeof user === 'string' ? user : user._id)
@@ -879,6 +975,21 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
     }
   };
 
+  // Errors are left to the caller so the cycle or not-found message reaches the user
+  const handleUpdateTaskDependencies = async (taskId: string, dependsOn: string[]) => {
+    const updatedTask = await cardsApi.updateTask(card._id, taskId, { dependsOn });
+    const dependencyUpdates = {
+      dependsOn: updatedTask.dependsOn,
+      isLocked: updatedTask.isLocked,
+      lockedReason: updatedTask.lockedReason,
+      assignedTo: updatedTask.assignedTo
+    };
+
+    setTasks(prev => prev.map(task => (task._id === taskId ? { ...task, ...dependencyUpdates } : task)));
+    setSelectedTask(prev => (prev && prev._id === taskId ? { ...prev, ...dependencyUpdates } : prev));
+    loadBoardTasks();
+  };
+
   const handleDeleteTask = async (taskId: string) => {
     const originalTasks = [...tasks];
 
@@ -888,6 +999,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
     try {
       await cardsApi.deleteTask(card._id, taskId);
       setError(null); // Clear any previous errors
+      loadBoardTasks();
     } catch (error) {
       console.error('Error deleting task:', error);
       setError('Failed to delete task. Please try again.');
@@ -1011,6 +1123,11 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
   };
 
   const completedTasks = tasks.filter(task => task.completed).length;
+
+  const dependencyOptions: DependencyOption[] = [
+    ...tasks.map(task => ({ _id: task._id, title: task.title, completed: task.completed })),
+    ...boardTasks.map(task => ({ _id: task._id, title: task.title, completed: task.completed, cardTitle: task.cardTitle }))
+  ];
   const progressPercentage = tasks.length > 0 ? (completedTasks / tasks.length) * 100 : 0;
 
   const renderOverviewTab = () => (
@@ -1349,6 +1466,43 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
         </div>
       </div>
 
+      {/* Board custom fields */}
+      {boardCustomFields.length > 0 && (
+        <div>
+          <h4 className="font-medium text-gray-900 dark:text-white mb-3">Custom Fields</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {boardCustomFields.map(field => {
+              const value = fieldValues[field._id] ?? null;
+              const option = getFieldOption(field, value);
+              return (
+                <div key={field._id}>
+                  <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                    {field.name}
+                    {field.required && <span className="text-red-500"> *</span>}
+                  </label>
+                  {isEditing ? (
+                    <CustomFieldValueInput
+                      field={field}
+                      value={value}
+                      onChange={(next) => setFieldValues(prev => ({ ...prev, [field._id]: next }))}
+                    />
+                  ) : option ? (
+                    <span
+                      className="inline-block px-2 py-0.5 rounded-full text-xs font-medium text-white"
+                      style={{ backgroundColor: option.color }}
+                    >
+                      {option.name}
+                    </span>
+                  ) : (
+                    <span className="text-sm text-gray-900 dark:text-white">{formatFieldValue(field, value) || 'Not set'}</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Additional Project Fields */}
       {isEditing && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -1380,15 +1534,15 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                 />
               </div>
               <div>
-                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Actual</label>
-                <input
-                  type="number"
-                  value={projectData.actualHours}
-                  onChange={(e) => setProjectData(prev => ({ ...prev, actualHours: parseFloat(e.target.value) || 0 }))}
-                  className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  min="0"
-                  step="0.5"
-                />
+                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Logged</label>
+                <button
+                  type="button"
+                  onClick={() => setActiveTab('time')}
+                  className="w-full px-2 py-1 border border-gray-200 dark:border-gray-700 rounded text-sm text-left bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white hover:border-blue-400"
+                  title="Log time on the Time tab"
+                >
+                  {projectData.actualHours}
+                </button>
               </div>
             </div>
           </div>
@@ -1423,20 +1577,34 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
         </div>
       </div>
 
+      {/* Client Portal */}
+      {boardClients.length > 0 && (
+        <ClientSharingSection
+          cardId={card._id}
+          clients={boardClients}
+          sharedWith={card.sharedWithClients || []}
+          canEdit={canEdit}
+          onChange={(sharedWithClients) => onCardChange?.(card._id, { sharedWithClients })}
+        />
+      )}
+
       {/* Labels */}
-      {card.labels.length > 0 && (
+      {(isEditing || card.labels.length > 0) && (
         <div>
           <h4 className="font-medium text-gray-900 dark:text-white mb-3">Labels</h4>
-          <div className="flex flex-wrap gap-2">
-            {card.labels.map((label, index) => (
-              <span
-                key={index}
-                className="px-3 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-sm rounded-full"
-              >
-                {label}
-              </span>
-            ))}
-          </div>
+          {isEditing ? (
+            <LabelPicker
+              boardLabels={boardLabels}
+              selected={editData.labels || []}
+              onChange={(labels) => setEditData(prev => ({ ...prev, labels }))}
+            />
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {card.labels.map((label, index) => (
+                <LabelChip key={index} label={label} size="md" />
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -1448,17 +1616,43 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
           Tasks ({completedTasks}/{tasks.length})
         </h3>
-        {canEdit && (
+        <div className="flex items-center gap-2">
           <button
-            onClick={() => setShowTaskForm(!showTaskForm)}
-            className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm"
+            onClick={() => setShowDependencyGraph(!showDependencyGraph)}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm border ${
+              showDependencyGraph
+                ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
+            }`}
           >
-            <Plus className="w-4 h-4" />
-            Add Task
+            <Network className="w-4 h-4" />
+            Dependencies
           </button>
-        )}
+          {canEdit && (
+            <button
+              onClick={() => setShowTaskForm(!showTaskForm)}
+              className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              Add Task
+            </button>
+          )}
+        </div>
       </div>
 
+      {showDependencyGraph && (
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+          <TaskDependencyGraph
+            tasks={tasks}
+            boardTasks={boardTasks}
+            onTaskClick={(taskId) => {
+              const task = tasks.find(item => item._id === taskId);
+              if (task) handleTaskClick(task);
+            }}
+          />
+        </div>
+      )}
+
       {/* Add Task Form */}
       {showTaskForm && (
         <div className={`bg-gray-50 dark:bg-gray-800 rounded-lg p-4 space-y-3 relative ${isAddingTask ? 'overflow-hidden' : ''}`}>
@@ -1481,7 +1675,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
             placeholder="Enter task title..."
             disabled={isAddingTask}
             className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-60 disabled:cursor-not-allowed transition-opacity"
-            onKeyPress={(e) => e.key === 'Enter' && !newTaskDependsOn && !isAddingTask && handleAddTask()}
+            onKeyPress={(e) => e.key === 'Enter' && newTaskDependsOn.length === 0 && !isAddingTask && handleAddTask()}
           />
 
           {/* Assign To - Always visible for all tasks */}
@@ -1507,6 +1701,47 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
             {/* Dropdown with members */}
             {showMemberDropdown && (
               <div className="absolute z-50 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+                {boardTeams
+                  .filter(team => team.name.toLowerCase().includes(memberSearchQuery.toLowerCase()))
+                  .map(team => {
+                    const isSelected = newTaskTeam === team._id;
+                    return (
+                      <div
+                        key={team._id}
+                        onClick={() => {
+                          if (isSelected) {
+                            setNewTaskTeam(null);
+                          } else {
+                            setNewTaskTeam(team._id);
+                            setNewTaskAssignTo(prev => [...new Set([...prev, ...team.members])]);
+                          }
+                        }}
+                        className={`flex items-center gap-3 p-3 cursor-pointer transition-colors hover:bg-teal-50 dark:hover:bg-teal-900/20 border-b border-gray-100 dark:border-gray-700 ${
+                          isSelected ? 'bg-teal-50 dark:bg-teal-900/30' : ''
+                        }`}
+                      >
+                        <div className="flex-shrink-0">
+                          <input
+                            type="checkbox"
+                            checked={isSelected}
+                            onChange={() => {}}
+                            className="w-4 h-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"
+                          />
+                        </div>
+                        <div className="w-8 h-8 rounded-full flex-shrink-0 flex items-center justify-center bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300">
+                          <UsersRound className="w-4 h-4" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                            {team.name}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                            Team · {team.members.length} member{team.members.length === 1 ? '' : 's'}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })}
                 {boardMembers
                   ?.filter(member => {
                     const searchLower = memberSearchQuery.toLowerCase();
@@ -1592,9 +1827,23 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
               />
             )}
 
-            {/* Show selected users */}
-            {newTaskAssignTo.length > 0 && (
+            {/* Show selected team and users */}
+            {(newTaskTeam || newTaskAssignTo.length > 0) && (
               <div className="flex flex-wrap gap-2 mt-2">
+                {newTaskTeam && (
+                  <div className="flex items-center gap-2 px-3 py-1.5 bg-teal-100 dark:bg-teal-900/40 border border-teal-300 dark:border-teal-600 rounded-lg group transition-colors">
+                    <UsersRound className="w-3.5 h-3.5 text-teal-700 dark:text-teal-300" />
+                    <span className="text-xs font-medium text-teal-700 dark:text-teal-300">
+                      {boardTeams.find(team => team._id === newTaskTeam)?.name || 'Team'}
+                    </span>
+                    <button
+                      onClick={() => setNewTaskTeam(null)}
+                      className="ml-1 text-teal-600 dark:text-teal-400 hover:text-teal-800 dark:hover:text-teal-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
                 {newTaskAssignTo.map(userId => {
                   const member = boardMembers.find(m => m._id === userId);
                   return member ? (
@@ -1638,26 +1887,19 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
               Depends on (Optional)
             </label>
-            <select
-              value={newTaskDependsOn || ''}
-              onChange={(e) => setNewTaskDependsOn(e.target.value || null)}
+            <DependencyPicker
+              value={newTaskDependsOn}
+              options={dependencyOptions}
+              onChange={setNewTaskDependsOn}
               disabled={isAddingTask}
-              className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm disabled:opacity-60 disabled:cursor-not-allowed transition-opacity"
-            >
-              <option value="">No dependency</option>
-              {tasks.filter(t => !t.completed).map(task => (
-                <option key={task._id} value={task._id}>
-                  {task.title}
-                </option>
-              ))}
-            </select>
+            />
             <p className="text-xs text-gray-500 dark:text-gray-400">
-              Task will be locked until the selected task is completed
+              Task will be locked until every selected task is completed
             </p>
           </div>
 
           {/* Auto-assignment on unlock - Only show if there's a dependency */}
-          {newTaskDependsOn && (
+          {newTaskDependsOn.length > 0 && (
             <div className="space-y-2">
               <label className="flex items-center gap-2">
                 <input
@@ -1705,9 +1947,10 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
               onClick={() => {
                 setShowTaskForm(false);
                 setNewTask('');
-                setNewTaskDependsOn(null);
+                setNewTaskDependsOn([]);
                 setNewTaskAutoAssign(false);
                 setNewTaskAssignTo([]);
+                setNewTaskTeam(null);
               }}
               disabled={isAddingTask}
               className="px-4 py-2 bg-gray-500 hover:bg-gray-600 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg text-sm transition-all duration-200"
@@ -1999,13 +2242,20 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
     }
   };
 
-  const renderFilesTab = () => {
-    // Check if current user can upload files based on their role or creator status
-    const currentUserMember = card.members.find(m => m.userId._id === user?.id);
-    const currentUserRole = currentUserMember?.role || 'viewer';
-    const isCreator = canEdit; // Board/project creator has edit access
-    const canUploadFiles = isCreator || ['project-manager', 'lead', 'contributor'].includes(currentUserRole);
+  const handleToggleFileSharing = async (file: ProjectFile) => {
+    setIsLoading(true);
+    try {
+      await fileApi.setClientSharing(card._id, file._id, !file.sharedWithClient);
+      setFiles(prev => prev.map(f => (f._id === file._id ? { ...f, sharedWithClient: !file.sharedWithClient } : f)));
+    } catch (error) {
+      console.error('Error updating file sharing:', error);
+      setError('Failed to update file sharing');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
+  const renderFilesTab = () => {
     // Get current folder files
     const currentFolderFiles = files.filter(f =>
       !f.isDeleted && (
@@ -2038,7 +2288,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                 (Click to navigate)
               </span>
             </h4>
-            {canEdit && canUploadFiles && (
+            {canUploadFiles && (
               <button
                 onClick={() => setShowCreateFolderModal(true)}
                 disabled={isLoading}
@@ -2056,7 +2306,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
             onFolderClick={setCurrentFolderId}
             onFolderRename={handleFolderRename}
             onFolderDelete={handleFolderDelete}
-            canEdit={canEdit && canUploadFiles}
+            canEdit={canUploadFiles}
           />
         </div>
 
@@ -2095,7 +2345,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                   </button>
                 </div>
 
-                {canEdit && canUploadFiles && (
+                {canUploadFiles && (
                   <label className={`flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm cursor-pointer transition-all ${
                     isLoading ? 'opacity-50 cursor-not-allowed' : ''
                   }`}>
@@ -2120,8 +2370,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
             {/* Files list/grid */}
             <div className={fileViewMode === 'grid' ? 'grid grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4' : 'space-y-3'}>
               {currentFolderFiles.map((file) => {
-                const canDeleteFile = isCreator || ['project-manager', 'lead'].includes(currentUserRole) ||
-                                     file.uploadedBy._id === user?.id;
+                const canDeleteFile = canDelete || file.uploadedBy._id === user?.id;
 
                 // Grid View
                 if (fileViewMode === 'grid') {
@@ -2161,6 +2410,19 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                           Download
                         </button>
 
+                        {canEdit && (
+                          <button
+                            onClick={() => handleToggleFileSharing(file)}
+                            disabled={isLoading}
+                            className={`p-1.5 rounded disabled:opacity-50 disabled:cursor-not-allowed transition-all ${
+                              file.sharedWithClient ? 'text-[#17b6b2] hover:bg-[#17b6b2]/10' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'
+                            }`}
+                            title={file.sharedWithClient ? 'Shared with clients. Click to make internal' : 'Internal. Click to share with clients'}
+                          >
+                            {file.sharedWithClient ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+                          </button>
+                        )}
+
                         {canDeleteFile && (
                           <button
                             onClick={() => {
@@ -2220,6 +2482,19 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                         Download
                       </button>
 
+                      {canEdit && (
+                        <button
+                          onClick={() => handleToggleFileSharing(file)}
+                          disabled={isLoading}
+                          className={`px-2 py-1 text-sm rounded disabled:opacity-50 disabled:cursor-not-allowed transition-all ${
+                            file.sharedWithClient ? 'text-[#17b6b2] hover:bg-[#17b6b2]/10' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'
+                          }`}
+                          title={file.sharedWithClient ? 'Shared with clients. Click to make internal' : 'Internal. Click to share with clients'}
+                        >
+                          {file.sharedWithClient ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                        </button>
+                      )}
+
                       {canDeleteFile && (
                         <button
                           onClick={() => {
@@ -2304,11 +2579,10 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
   };
 
   const renderCommentsTab = () => {
-    // Check if current user can comment based on their role or creator status
+    // The card role is shown next to comments; whether the user may comment comes from their board role
     const currentUserMember = card.members.find(m => m.userId._id === user?.id);
     const isCreator = canEdit; // Board/project creator has edit access
     const currentUserRole = isCreator ? 'owner' : (currentUserMember?.role || 'viewer');
-    const canComment = isCreator || ['project-manager', 'lead', 'contributor', 'commenter'].includes(currentUserRole);
 
     return (
       <div className="space-y-4">
@@ -2338,9 +2612,13 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                 <textarea
                   value={newComment}
                   onChange={(e) => setNewComment(e.target.value)}
-                  placeholder="Write a comment..."
+                  placeholder={newCommentVisibility === 'internal' ? 'Write an internal note for the team...' : 'Write a comment the client can see...'}
                   rows={3}
-                  className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white resize-none"
+                  className={`w-full p-3 border rounded-lg text-gray-900 dark:text-white resize-none ${
+                    newCommentVisibility === 'internal'
+                      ? 'border-dashed border-slate-400 dark:border-slate-500 bg-slate-50 dark:bg-slate-800'
+                      : 'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700'
+                  }`}
                 />
                 <div className="flex justify-between items-center mt-2">
                   <div className="flex items-center gap-2">
@@ -2363,14 +2641,44 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                       )}
                     </div>
                   </div>
-                  <button
-                    type="submit"
-                    disabled={!newComment.trim() || isLoading}
-                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg text-sm"
-                  >
-                    <Send className="w-4 h-4" />
-                    Comment
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <div className="flex items-center p-0.5 bg-gray-200 dark:bg-gray-700 rounded-lg text-xs font-medium">
+                      <button
+                        type="button"
+                        onClick={() => setNewCommentVisibility('internal')}
+                        className={`flex items-center gap-1 px-2.5 py-1.5 rounded-md transition-colors ${
+                          newCommentVisibility === 'internal'
+                            ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm'
+                            : 'text-gray-600 dark:text-gray-400'
+                        }`}
+                        title="Only the team sees this comment"
+                      >
+                        <Lock className="w-3.5 h-3.5" />
+                        Internal
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setNewCommentVisibility('client')}
+                        className={`flex items-center gap-1 px-2.5 py-1.5 rounded-md transition-colors ${
+                          newCommentVisibility === 'client'
+                            ? 'bg-white dark:bg-gray-600 text-[#17b6b2] shadow-sm'
+                            : 'text-gray-600 dark:text-gray-400'
+                        }`}
+                        title="Clients the card is shared with see this comment too"
+                      >
+                        <Eye className="w-3.5 h-3.5" />
+                        Shared with client
+                      </button>
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={!newComment.trim() || isLoading}
+                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg text-sm"
+                    >
+                      <Send className="w-4 h-4" />
+                      Comment
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
@@ -2397,6 +2705,8 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
             const commentUserRole = isCommentAuthorOwner ? 'owner' : (commentUserMember?.role || 'viewer');
             const canDeleteComment = isCreator || ['project-manager', 'lead'].includes(currentUserRole) ||
                                    comment.author._id === user?.id;
+            // Comments from before visibility existed are internal
+            const isInternal = comment.visibility !== 'client' && !comment.clientFeedback;
 
             return (
               <div key={comment._id} className="flex gap-3">
@@ -2415,22 +2725,43 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                   )}
                 </div>
                 <div className="flex-1">
-                  <div className="bg-white dark:bg-gray-800 rounded-lg p-3 border border-gray-200 dark:border-gray-700">
+                  <div className={`rounded-lg p-3 border ${
+                    comment.clientFeedback
+                      ? 'bg-white dark:bg-gray-800 border-amber-300 dark:border-amber-700'
+                      : isInternal
+                        ? 'bg-slate-50 dark:bg-slate-800/60 border-dashed border-slate-300 dark:border-slate-600'
+                        : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700'
+                  }`}>
                     <div className="flex items-center justify-between mb-1">
                       <div className="flex items-center gap-2">
                         <span className="text-sm font-medium text-gray-900 dark:text-white">
                           {comment.author.firstName} {comment.author.lastName}
                         </span>
-                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${{
-                          'owner': 'text-indigo-600 bg-indigo-100 dark:text-indigo-400 dark:bg-indigo-900',
-                          'project-manager': 'text-purple-600 bg-purple-100 dark:text-purple-400 dark:bg-purple-900',
-                          'lead': 'text-blue-600 bg-blue-100 dark:text-blue-400 dark:bg-blue-900',
-                          'contributor': 'text-green-600 bg-green-100 dark:text-green-400 dark:bg-green-900',
-                          'commenter': 'text-yellow-600 bg-yellow-100 dark:text-yellow-400 dark:bg-yellow-900',
-                          'viewer': 'text-gray-600 bg-gray-100 dark:text-gray-400 dark:bg-gray-700'
-                        }[commentUserRole] || 'text-gray-600 bg-gray-100'}`}>
-                          {commentUserRole}
-                        </span>
+                        {comment.clientFeedback ? (
+                          <ClientFeedbackBadge type={comment.clientFeedback} />
+                        ) : (
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${{
+                            'owner': 'text-indigo-600 bg-indigo-100 dark:text-indigo-400 dark:bg-indigo-900',
+                            'project-manager': 'text-purple-600 bg-purple-100 dark:text-purple-400 dark:bg-purple-900',
+                            'lead': 'text-blue-600 bg-blue-100 dark:text-blue-400 dark:bg-blue-900',
+                            'contributor': 'text-green-600 bg-green-100 dark:text-green-400 dark:bg-green-900',
+                            'commenter': 'text-yellow-600 bg-yellow-100 dark:text-yellow-400 dark:bg-yellow-900',
+                            'viewer': 'text-gray-600 bg-gray-100 dark:text-gray-400 dark:bg-gray-700'
+                          }[commentUserRole] || 'text-gray-600 bg-gray-100'}`}>
+                            {commentUserRole}
+                          </span>
+                        )}
+                        {isInternal ? (
+                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-slate-600 bg-slate-200 dark:text-slate-300 dark:bg-slate-700">
+                            <Lock className="w-3 h-3" />
+                            Internal
+                          </span>
+                        ) : !comment.clientFeedback && (
+                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-[#17b6b2] bg-[#17b6b2]/10">
+                            <Eye className="w-3 h-3" />
+                            Shared with client
+                          </span>
+                        )}
                         <span className="text-xs text-gray-500 dark:text-gray-400">
                           {formatDateTime(comment.createdAt)}
                         </span>
@@ -2568,7 +2899,15 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
       case 'card_member_added':
         return User;
       case 'card_moved':
+      case 'card_auto_moved':
+      case 'card_archived':
+      case 'card_restored':
         return Archive;
+      case 'card_wip_limit_overridden':
+        return Lock;
+      case 'card_workflow_updated':
+      case 'card_workflow_progressed':
+        return GitBranch;
       case 'card_deleted':
       case 'card_file_deleted':
       case 'card_attachment_deleted':
@@ -2824,13 +3163,15 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
               {[
                 { id: 'overview', label: 'Overview', icon: Target },
                 { id: 'tasks', label: 'Tasks', icon: CheckSquare },
+                { id: 'workflow', label: 'Workflow', icon: GitBranch },
+                { id: 'time', label: 'Time', icon: Clock },
                 { id: 'files', label: 'Files', icon: FileText },
                 { id: 'comments', label: 'Comments', icon: MessageCircle },
                 { id: 'activity', label: 'Activity', icon: History },
-              ].map((tab) => (
+              ].filter(tab => tab.id !== 'files' || canViewFiles).map((tab) => (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id as 'overview' | 'tasks' | 'files' | 'comments' | 'activity')}
+                  onClick={() => setActiveTab(tab.id as ProjectModalTab)}
                   className={`flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-lg transition-all duration-200 ${
                     activeTab === tab.id
                       ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
@@ -2849,7 +3190,26 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
             <div className="max-w-full">
               {activeTab === 'overview' && renderOverviewTab()}
               {activeTab === 'tasks' && renderTasksTab()}
-              {activeTab === 'files' && renderFilesTab()}
+              {activeTab === 'workflow' && (
+                <WorkflowTab
+                  cardId={card._id}
+                  tasks={tasks}
+                  members={boardMembers}
+                  teams={boardTeams}
+                  lists={boardLists}
+                  canEdit={canEdit}
+                />
+              )}
+              {activeTab === 'time' && (
+                <TimeTab
+                  cardId={card._id}
+                  tasks={tasks}
+                  currentUserId={user?.id}
+                  isAdmin={['superadmin', 'admin'].includes(user?.role || '')}
+                  canEdit={canEdit}
+                />
+              )}
+              {activeTab === 'files' && canViewFiles && renderFilesTab()}
               {activeTab === 'comments' && renderCommentsTab()}
               {activeTab === 'activity' && renderActivityTab()}
             </div>
@@ -2912,6 +3272,8 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
           autoAssignOnUnlock: selectedTask.autoAssignOnUnlock || false,
           assignToOnUnlock: selectedTask.assignToOnUnlock || [],
           isLocked: selectedTask.isLocked || false,
+          lockedReason: selectedTask.lockedReason,
+          estimatedHours: selectedTask.estimatedHours,
           position: 0,
           subtasks: (selectedTask.subtasks || []).map(st => ({
             _id: st._id,
@@ -2939,6 +3301,8 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
         onAddSubtask={handleAddSubtask}
         onUpdateSubtask={handleUpdateSubtask}
         onDeleteSubtask={handleDeleteSubtask}
+        dependencyOptions={dependencyOptions}
+        onUpdateDependencies={handleUpdateTaskDependencies}
         projectMembers={boardMembers.map((member: { _id: string; firstName?: string; lastName?: string; email?: string; role: string; avatar?: string }) => ({
           userId: {
             _id: member._id,
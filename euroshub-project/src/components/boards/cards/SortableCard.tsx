@@ -3,13 +3,20 @@
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { Card } from '../lists/ListContainer';
+import { CustomFieldDefinition } from '@/services/trelloBoardsApi';
+import { formatFieldValue, getCardFieldValue, getFieldOption } from '../customFields/customFieldUtils';
+import LabelChip from '../labels/LabelChip';
 
 interface SortableCardProps {
   card: Card;
   onClick: (cardId: string) => void;
+  customFields?: CustomFieldDefinition[];
+  dimmed?: boolean;
+  // Cards the user may not move stay put
+  disabled?: boolean;
 }
 
-const SortableCard: React.FC<SortableCardProps> = ({ card, onClick }) => {
+const SortableCard: React.FC<SortableCardProps> = ({ card, onClick, customFields = [], dimmed = false, disabled = false }) => {
   const {
     attributes,
     
@@ -24,12 +31,13 @@ const SortableCard: React.FC<SortableCardProps> = ({ card, onClick }) => {
       type: 'card',
       card,
     },
+    disabled,
   });
 
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
-    opacity: isDragging ? 0.5 : 1,
+    opacity: isDragging ? 0.5 : dimmed ? 0.3 : 1,
   };
 
   const handleClick = () => {
@@ -57,6 +65,19 @@ const SortableCard: React.FC<SortableCardProps> = ({ card, onClick }) => {
   const tintedBorder = rgb ? `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0.25)` : undefined;
   const hasMeta = (card.labels?.length || 0) > 0 || !!card.dueDate || (card.members?.length || 0) > 0;
 
+  // Board fields marked "show on card" that this card has a value for
+  const fieldBadges = customFields
+    .filter(field => field.showOnCard)
+    .map(field => {
+      const value = getCardFieldValue(card.customFields, field._id);
+      return {
+        field,
+        text: field.type === 'boolean' ? (value === true ? field.name : '') : formatFieldValue(field, value),
+        color: getFieldOption(field, value)?.color
+      };
+    })
+    .filter(badge => badge.text);
+
   return (
     <div
       ref={setNodeRef}
@@ -108,6 +129,22 @@ const SortableCard: React.FC<SortableCardProps> = ({ card, onClick }) => {
         </div>
       )}
 
+      {/* Custom field badges */}
+      {fieldBadges.length > 0 && (
+        <div className="px-4 pb-3 -mt-1 flex flex-wrap gap-1">
+          {fieldBadges.map(({ field, text, color }) => (
+            <span
+              key={field._id}
+              title={field.name}
+              className={`max-w-full truncate px-2 py-0.5 text-xs rounded ${color ? 'text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}
+              style={color ? { backgroundColor: color } : undefined}
+            >
+              {field.type === 'select' || field.type === 'boolean' ? text : `${field.name}: ${text}`}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Content - Only show for cards without cover image/color */}
       {!card.coverImage && !card.color && hasMeta && (
         <div className="px-4 pt-2 pb-3">
@@ -115,12 +152,7 @@ const SortableCard: React.FC<SortableCardProps> = ({ card, onClick }) => {
           {card.labels.length > 0 && (
             <div className="flex flex-wrap gap-1 mb-3">
               {card.labels.slice(0, 2).map((label, index) => (
-                <span
-                  key={index}
-                  className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 text-xs rounded-full"
-                >
-                  {label}
-                </span>
+                <LabelChip key={index} label={label} />
               ))}
               {card.labels.length > 2 && (
                 <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-500 text-xs rounded-full">
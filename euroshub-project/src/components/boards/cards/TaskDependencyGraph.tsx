@@ -0,0 +1,173 @@
+'use client';
+
+import { Check, Lock } from 'lucide-react';
+import { BoardTask } from '@/services/trelloBoardsApi';
+
+interface GraphTask {
+  _id: string;
+  title: string;
+  completed: boolean;
+  isLocked?: boolean;
+  dependsOn?: string[];
+}
+
+interface TaskDependencyGraphProps {
+  tasks: GraphTask[];
+  boardTasks: BoardTask[];
+  onTaskClick?: (taskId: string) => void;
+}
+
+interface GraphNode extends GraphTask {
+  cardTitle?: string;
+  level: number;
+  row: number;
+}
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 56;
+const ROW_GAP = 16;
+
+/**
+ * Layered drawing of the card's task dependencies: each task sits one column
+ * right of its furthest predecessor. Tasks on other cards that this card's
+ * tasks wait on, or that wait on them, are shown with a dashed border.
+ */
+const TaskDependencyGraph: React.FC<TaskDependencyGraphProps> = ({ tasks, boardTasks, onTaskClick }) => {
+  const localIds = new Set(tasks.map(task => task._id));
+  const boardTasksById = new Map(boardTasks.map(task => [task._id, task]));
+
+  const edges: Array<{ from: string; to: string }> = [];
+  tasks.forEach(task => (task.dependsOn || []).forEach(predecessorId => {
+    if (localIds.has(predecessorId) || boardTasksById.has(predecessorId)) {
+      edges.push({ from: predecessorId, to: task._id });
+    }
+  }));
+  boardTasks.forEach(task => task.dependsOn.forEach(predecessorId => {
+    if (localIds.has(predecessorId)) edges.push({ from: predecessorId, to: task._id });
+  }));
+
+  if (edges.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+        No task on this card depends on another task yet
+      </p>
+    );
+  }
+
+  const nodeIds = [...new Set(edges.flatMap(edge => [edge.from, edge.to]))];
+  const predecessors = new Map<string, string[]>();
+  edges.forEach(edge => predecessors.set(edge.to, [...(predecessors.get(edge.to) || []), edge.from]));
+
+  // The server rejects cycles; the visiting guard only keeps bad data from hanging the page
+  const levels = new Map<string, number>();
+  const visiting = new Set<string>();
+  const getLevel = (taskId: string): number => {
+    const cached = levels.get(taskId);
+    if (cached !== undefined) return cached;
+    if (visiting.has(taskId)) return 0;
+    visiting.add(taskId);
+    const level = Math.max(-1, ...(predecessors.get(taskId) || []).map(getLevel)) + 1;
+    visiting.delete(taskId);
+    levels.set(taskId, level);
+    return level;
+  };
+
+  const rowsPerLevel = new Map<number, number>();
+  const nodes = new Map<string, GraphNode>();
+  nodeIds
+    .map(taskId => {
+      const local = tasks.find(task => task._id === taskId);
+      const external = boardTasksById.get(taskId);
+      return local ? { ...local } : { ...(external as BoardTask) };
+    })
+    // This card's tasks first in each column, then tasks from other cards
+    .sort((a, b) => Number(!localIds.has(a._id)) - Number(!localIds.has(b._id)))
+    .forEach(task => {
+      const level = getLevel(task._id);
+      const row = rowsPerLevel.get(level) || 0;
+      rowsPerLevel.set(level, row + 1);
+      nodes.set(task._id, { ...task, level, row });
+    });
+
+  const columnCount = Math.max(...[...nodes.values()].map(node => node.level)) + 1;
+  const rowCount = Math.max(...rowsPerLevel.values());
+  const width = columnCount * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+  const height = rowCount * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+  const getX = (node: GraphNode) => node.level * (NODE_WIDTH + COLUMN_GAP);
+  const getY = (node: GraphNode) => node.row * (NODE_HEIGHT + ROW_GAP);
+
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div className="relative" style={{ width, height }}>
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+          <defs>
+            <marker id="dependency-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M 0 0 L 8 4 L 0 8 z" className="fill-gray-400" />
+            </marker>
+            <marker id="dependency-arrow-done" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M 0 0 L 8 4 L 0 8 z" className="fill-green-500" />
+            </marker>
+          </defs>
+          {edges.map(edge => {
+            const from = nodes.get(edge.from);
+            const to = nodes.get(edge.to);
+            if (!from || !to) return null;
+
+            const x1 = getX(from) + NODE_WIDTH;
+            const y1 = getY(from) + NODE_HEIGHT / 2;
+            const x2 = getX(to);
+            const y2 = getY(to) + NODE_HEIGHT / 2;
+            const bend = Math.max((x2 - x1) / 2, 24);
+            return (
+              <path
+                key={`${edge.from}-${edge.to}`}
+                d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                fill="none"
+                strokeWidth={1.5}
+                className={from.completed ? 'stroke-green-500' : 'stroke-gray-400'}
+                markerEnd={`url(#${from.completed ? 'dependency-arrow-done' : 'dependency-arrow'})`}
+              />
+            );
+          })}
+        </svg>
+
+        {[...nodes.values()].map(node => {
+          const isLocal = localIds.has(node._id);
+          return (
+            <button
+              key={node._id}
+              type="button"
+              onClick={() => isLocal && onTaskClick?.(node._id)}
+              disabled={!isLocal}
+              className={`absolute flex flex-col justify-center px-3 text-left rounded-lg border text-xs transition-shadow ${
+                isLocal ? 'hover:shadow-md' : 'border-dashed cursor-default'
+              } ${
+                node.completed
+                  ? 'bg-green-50 dark:bg-green-900/20 border-green-300 dark:border-green-700'
+                  : node.isLocked
+                    ? 'bg-orange-50 dark:bg-orange-900/10 border-orange-300 dark:border-orange-700'
+                    : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600'
+              }`}
+              style={{ left: getX(node), top: getY(node), width: NODE_WIDTH, height: NODE_HEIGHT }}
+              title={node.title}
+            >
+              <span className={`flex items-center gap-1.5 font-medium truncate ${
+                node.completed ? 'text-gray-500 dark:text-gray-400 line-through' : 'text-gray-900 dark:text-white'
+              }`}>
+                {node.completed && <Check className="w-3 h-3 flex-shrink-0 text-green-600" />}
+                {node.isLocked && !node.completed && <Lock className="w-3 h-3 flex-shrink-0 text-orange-500" />}
+                <span className="truncate">{node.title}</span>
+              </span>
+              {!isLocal && node.cardTitle && (
+                <span className="text-gray-500 dark:text-gray-400 truncate">{node.cardTitle}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TaskDependencyGraph;
@@ -2,10 +2,13 @@
 
 import { useState, useEffect } from 'react';
 import Image from 'next/image';
-import { X, AlertCircle, Save, Trash2, Plus } from 'lucide-react';
+import { X, AlertCircle, Save, Trash2, Plus, Lock, Play, Square } from 'lucide-react';
 import Portal from '../../shared/Portal';
 import { Task, Subtask, User } from '../../../types/project';
 import toast from 'react-hot-toast';
+import DependencyPicker, { DependencyOption } from './DependencyPicker';
+import { useTimer } from '@/contexts/TimerContext';
+import { formatHours } from '../time/timeUtils';
 
 interface TaskModalProps {
   task: Task | null;
@@ -17,6 +20,8 @@ interface TaskModalProps {
   onAddSubtask?: (taskId: string, subtaskData: { title: string }) => Promise<void>;
   onUpdateSubtask?: (taskId: string, subtaskId: string, updates: Partial<Subtask>) => Promise<void>;
   onDeleteSubtask?: (taskId: string, subtaskId: string) => Promise<void>;
+  dependencyOptions?: DependencyOption[];
+  onUpdateDependencies?: (taskId: string, dependsOn: string[]) => Promise<void>;
   projectMembers: Array<{
     userId: User;
     role: string;
@@ -26,6 +31,7 @@ interface TaskModalProps {
 
 const TaskModal: React.FC<TaskModalProps> = ({
   task,
+  cardId,
   isOpen,
   onClose,
   onUpdateTask,
@@ -33,6 +39,8 @@ const TaskModal: React.FC<TaskModalProps> = ({
   onAddSubtask,
   onUpdateSubtask,
   onDeleteSubtask,
+  dependencyOptions = [],
+  onUpdateDependencies,
   projectMembers,
   canEdit
 }) => {
@@ -40,6 +48,9 @@ const TaskModal: React.FC<TaskModalProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
   const [isAddingSubtask, setIsAddingSubtask] = useState(false);
+  const [isSavingDependencies, setIsSavingDependencies] = useState(false);
+  const [isTimerBusy, setIsTimerBusy] = useState(false);
+  const { activeTimer, startTimer, stopTimer } = useTimer();
 
   useEffect(() => {
     if (task && isOpen) {
@@ -48,7 +59,8 @@ const TaskModal: React.FC<TaskModalProps> = ({
         description: task.description,
         priority: task.priority,
         dueDate: task.dueDate,
-        assignedTo: task.assignedTo
+        assignedTo: task.assignedTo,
+        estimatedHours: task.estimatedHours
       });
     }
   }, [task?._id, isOpen]); // Only reset when modal opens or task ID changes
@@ -79,6 +91,44 @@ const TaskModal: React.FC<TaskModalProps> = ({
     }
   };
 
+  const isTimerRunning = !!activeTimer && activeTimer.taskId === task._id;
+
+  const handleToggleTimer = async () => {
+    setIsTimerBusy(true);
+    try {
+      if (isTimerRunning) {
+        const { entry, notice } = await stopTimer();
+        if (notice) toast(notice, { icon: '⚠️' });
+        else toast.success(entry ? `Logged ${formatHours(entry.hours)}` : 'Timer stopped; under a minute was not logged');
+      } else {
+        const notice = await startTimer(cardId, task._id);
+        if (notice) toast(notice, { icon: '⚠️' });
+        toast.success('Timer started');
+      }
+    } catch (error) {
+      console.error('Error toggling timer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update timer');
+    } finally {
+      setIsTimerBusy(false);
+    }
+  };
+
+  // Saved straight away rather than with the form, so a circular dependency is reported right when it is picked
+  const handleDependenciesChange = async (dependsOn: string[]) => {
+    if (!onUpdateDependencies || !task) return;
+
+    setIsSavingDependencies(true);
+    try {
+      await onUpdateDependencies(task._id, dependsOn);
+      toast.success('Dependencies updated');
+    } catch (error) {
+      console.error('Error updating dependencies:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update dependencies');
+    } finally {
+      setIsSavingDependencies(false);
+    }
+  };
+
   const handleAddSubtask = async () => {
     if (!newSubtaskTitle.trim() || !onAddSubtask || !task || isAddingSubtask) return;
 
@@ -351,6 +401,63 @@ const TaskModal: React.FC<TaskModalProps> = ({
             />
           </div>
 
+          {/* Time */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Estimated Hours
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={editData.estimatedHours ?? ''}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setEditData(prev => ({ ...prev, estimatedHours: value === '' ? null : parseFloat(value) }));
+                }}
+                disabled={!canEdit}
+                placeholder="Not estimated"
+                className="flex-1 p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:bg-gray-100 dark:disabled:bg-gray-800"
+              />
+              {canEdit && (
+                <button
+                  onClick={handleToggleTimer}
+                  disabled={isTimerBusy}
+                  className={`flex items-center gap-2 px-4 py-3 rounded-lg text-sm text-white disabled:opacity-50 ${
+                    isTimerRunning ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                  }`}
+                  title={isTimerRunning ? 'Stop the timer and log the time' : 'Track time on this task'}
+                >
+                  {isTimerRunning ? <Square className="w-4 h-4 fill-current" /> : <Play className="w-4 h-4" />}
+                  {isTimerRunning ? 'Stop timer' : 'Start timer'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Dependencies */}
+          {onUpdateDependencies && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Depends on
+              </label>
+              <DependencyPicker
+                value={task.dependsOn || []}
+                options={dependencyOptions}
+                onChange={handleDependenciesChange}
+                excludeId={task._id}
+                disabled={!canEdit || isSavingDependencies}
+              />
+              {task.isLocked && task.lockedReason && (
+                <p className="flex items-center gap-1.5 mt-2 text-xs text-orange-600 dark:text-orange-400">
+                  <Lock className="w-3 h-3" />
+                  {task.lockedReason}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Task Status & Progress */}
           <div className="mb-6">
             <div className="flex items-center justify-between mb-3">
@@ -359,7 +466,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
                   type="checkbox"
                   checked={task.completed}
                   onChange={(e) => canEdit && onUpdateTask(task._id, { completed: e.target.checked })}
-                  disabled={!canEdit}
+                  disabled={!canEdit || (task.isLocked && !task.completed)}
                   className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
                 />
                 <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
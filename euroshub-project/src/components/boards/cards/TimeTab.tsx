@@ -0,0 +1,491 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Play, Square, Plus, Pencil, Trash2, Timer, Clock, Check, X, Lock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { timeTrackingApi, CardTimeData, TimeEntry } from '@/services/trelloBoardsApi';
+import { useTimer } from '@/contexts/TimerContext';
+import {
+  formatHours,
+  formatElapsed,
+  toDateInputValue,
+  fromDateInputValue,
+  getBudgetState,
+  BUDGET_BAR_COLORS
+} from '../time/timeUtils';
+
+interface TimeTabProps {
+  cardId: string;
+  tasks: Array<{ _id: string; title: string; completed: boolean }>;
+  currentUserId?: string;
+  // Admins may change anyone's entries
+  isAdmin: boolean;
+  canEdit: boolean;
+}
+
+interface EntryDraft {
+  hours: string;
+  date: string;
+  taskId: string;
+  description: string;
+}
+
+const inputClass = 'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const emptyDraft = (): EntryDraft => ({
+  hours: '',
+  date: toDateInputValue(new Date()),
+  taskId: '',
+  description: ''
+});
+
+const toDraft = (entry: TimeEntry): EntryDraft => ({
+  hours: String(entry.hours),
+  date: toDateInputValue(new Date(entry.date)),
+  taskId: entry.taskId || '',
+  description: entry.description || ''
+});
+
+const TimeTab: React.FC<TimeTabProps> = ({ cardId, tasks, currentUserId, isAdmin, canEdit }) => {
+  const { activeTimer, loggedAt, startTimer, stopTimer } = useTimer();
+  const [timeData, setTimeData] = useState<CardTimeData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [timerTaskId, setTimerTaskId] = useState('');
+  const [newEntry, setNewEntry] = useState<EntryDraft>(emptyDraft);
+  const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<EntryDraft>(emptyDraft);
+  const [now, setNow] = useState(() => Date.now());
+
+  const timerOnThisCard = activeTimer && activeTimer.cardId === cardId ? activeTimer : null;
+
+  const loadTimeData = useCallback(async () => {
+    try {
+      setTimeData(await timeTrackingApi.getCardTime(cardId));
+    } catch (error) {
+      console.error('Error loading time entries:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load time entries');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cardId]);
+
+  // Reload after a timer stops, wherever it was stopped from
+  useEffect(() => {
+    loadTimeData();
+  }, [loadTimeData, loggedAt]);
+
+  useEffect(() => {
+    if (!timerOnThisCard) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timerOnThisCard]);
+
+  const taskTitle = (taskId?: string | null) => tasks.find(task => task._id === taskId)?.title;
+
+  const handleStartTimer = async () => {
+    setIsSaving(true);
+    try {
+      const notice = await startTimer(cardId, timerTaskId || null);
+      if (notice) toast(notice, { icon: '⚠️' });
+      setNow(Date.now());
+      loadTimeData();
+    } catch (error) {
+      console.error('Error starting timer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start timer');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStopTimer = async () => {
+    setIsSaving(true);
+    try {
+      const { entry, notice } = await stopTimer();
+      if (notice) toast(notice, { icon: '⚠️' });
+      else toast.success(entry ? `Logged ${formatHours(entry.hours)}` : 'Timer stopped; under a minute was not logged');
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to stop timer');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLogTime = async () => {
+    const hours = parseFloat(newEntry.hours);
+    if (!hours || hours <= 0) {
+      toast.error('Enter the hours to log');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      setTimeData(await timeTrackingApi.logTime(cardId, {
+        hours,
+        date: fromDateInputValue(newEntry.date).toISOString(),
+        taskId: newEntry.taskId || null,
+        description: newEntry.description.trim()
+      }));
+      setNewEntry(emptyDraft());
+      toast.success(`Logged ${formatHours(hours)}`);
+    } catch (error) {
+      console.error('Error logging time:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to log time');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveEntry = async (entryId: string) => {
+    const hours = parseFloat(editDraft.hours);
+    if (!hours || hours <= 0) {
+      toast.error('Enter the hours for this entry');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      setTimeData(await timeTrackingApi.updateTimeEntry(cardId, entryId, {
+        hours,
+        date: fromDateInputValue(editDraft.date).toISOString(),
+        taskId: editDraft.taskId || null,
+        description: editDraft.description.trim()
+      }));
+      setEditingEntryId(null);
+      toast.success('Time entry updated');
+    } catch (error) {
+      console.error('Error updating time entry:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update time entry');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteEntry = async (entryId: string) => {
+    if (!window.confirm('Delete this time entry?')) return;
+
+    setIsSaving(true);
+    try {
+      setTimeData(await timeTrackingApi.deleteTimeEntry(cardId, entryId));
+      toast.success('Time entry deleted');
+    } catch (error) {
+      console.error('Error deleting time entry:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete time entry');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderTaskSelect = (value: string, onChange: (taskId: string) => void, className = '') => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={isSaving}
+      className={`${inputClass} ${className}`}
+    >
+      <option value="">Whole card</option>
+      {tasks.map(task => (
+        <option key={task._id} value={task._id}>{task.title}</option>
+      ))}
+    </select>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const report = timeData?.report;
+  const budgetState = report ? getBudgetState(report.spent, report.estimated) : 'none';
+  const otherTimers = (timeData?.activeTimers || []).filter(timer => timer.user._id !== currentUserId);
+
+  return (
+    <div className="space-y-6">
+      {/* Estimate vs actual */}
+      {report && (
+        <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
+          <div className="flex flex-wrap items-end justify-between gap-3 mb-3">
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Logged</p>
+              <p className="text-2xl font-semibold text-gray-900 dark:text-white">{formatHours(report.spent)}</p>
+            </div>
+            <div className="text-right text-sm">
+              {report.estimated > 0 ? (
+                <>
+                  <p className="text-gray-600 dark:text-gray-300">of {formatHours(report.estimated)} estimated</p>
+                  <p className={report.variance > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}>
+                    {report.variance > 0 ? `${formatHours(report.variance)} over estimate` : `${formatHours(report.remaining)} remaining`}
+                  </p>
+                </>
+              ) : (
+                <p className="text-gray-500 dark:text-gray-400">No estimate set (Overview → Time Tracking)</p>
+              )}
+            </div>
+          </div>
+          {report.estimated > 0 && (
+            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full transition-all duration-300 ${BUDGET_BAR_COLORS[budgetState]}`}
+                style={{ width: `${Math.min(100, (report.spent / report.estimated) * 100)}%` }}
+              />
+            </div>
+          )}
+
+          {report.tasks.length > 0 && (
+            <div className="mt-4 space-y-1.5">
+              {report.tasks.map(task => (
+                <div key={task.taskId} className="flex items-center justify-between gap-3 text-sm">
+                  <span className={`truncate ${task.completed ? 'line-through text-gray-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {task.title}
+                  </span>
+                  <span className={`flex-shrink-0 ${task.estimated && task.spent > task.estimated ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                    {formatHours(task.spent)}{task.estimated ? ` / ${formatHours(task.estimated)}` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Timer */}
+      {canEdit && (
+        <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+          <h4 className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white mb-3">
+            <Timer className="w-4 h-4" />
+            Timer
+          </h4>
+          {timerOnThisCard ? (
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" />
+                <span className="font-mono text-xl text-gray-900 dark:text-white">
+                  {formatElapsed(now - new Date(timerOnThisCard.startedAt).getTime())}
+                </span>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {timerOnThisCard.taskTitle || 'Whole card'}
+                </span>
+              </div>
+              <button
+                onClick={handleStopTimer}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm disabled:opacity-50"
+              >
+                <Square className="w-4 h-4 fill-current" />
+                Stop
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              {renderTaskSelect(timerTaskId, setTimerTaskId, 'flex-1 min-w-40')}
+              <button
+                onClick={handleStartTimer}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm disabled:opacity-50"
+              >
+                <Play className="w-4 h-4" />
+                Start
+              </button>
+              {activeTimer && (
+                <p className="w-full text-xs text-gray-500 dark:text-gray-400">
+                  Your timer on &quot;{activeTimer.taskTitle || activeTimer.cardTitle}&quot; will be stopped and logged
+                </p>
+              )}
+            </div>
+          )}
+          {otherTimers.length > 0 && (
+            <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+              Also tracking now: {otherTimers.map(timer =>
+                `${timer.user.firstName} ${timer.user.lastName}${timer.taskId && taskTitle(timer.taskId) ? ` (${taskTitle(timer.taskId)})` : ''}`
+              ).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Manual entry */}
+      {canEdit && (
+        <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+          <h4 className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white mb-3">
+            <Plus className="w-4 h-4" />
+            Log time
+          </h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <input
+              type="number"
+              min="0"
+              max="24"
+              step="0.25"
+              placeholder="Hours"
+              value={newEntry.hours}
+              onChange={(e) => setNewEntry(prev => ({ ...prev, hours: e.target.value }))}
+              disabled={isSaving}
+              className={inputClass}
+            />
+            <input
+              type="date"
+              value={newEntry.date}
+              onChange={(e) => setNewEntry(prev => ({ ...prev, date: e.target.value || toDateInputValue(new Date()) }))}
+              disabled={isSaving}
+              className={inputClass}
+            />
+            {renderTaskSelect(newEntry.taskId, taskId => setNewEntry(prev => ({ ...prev, taskId })), 'col-span-2')}
+            <input
+              type="text"
+              placeholder="What did you work on? (optional)"
+              value={newEntry.description}
+              onChange={(e) => setNewEntry(prev => ({ ...prev, description: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && !isSaving && handleLogTime()}
+              disabled={isSaving}
+              className={`${inputClass} col-span-2 md:col-span-3`}
+            />
+            <button
+              onClick={handleLogTime}
+              disabled={isSaving || !newEntry.hours}
+              className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm disabled:opacity-50 col-span-2 md:col-span-1"
+            >
+              Log time
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Entries */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+          Time entries ({timeData?.entries.length || 0})
+        </h4>
+        {!timeData || timeData.entries.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            <Clock className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No time logged on this card yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {timeData.entries.map(entry => {
+              const canManage = canEdit && !entry.locked && (entry.user?._id === currentUserId || isAdmin);
+              const isEditingEntry = editingEntryId === entry._id;
+
+              if (isEditingEntry) {
+                return (
+                  <div key={entry._id} className="p-3 rounded-lg border border-blue-300 dark:border-blue-700 grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      max="24"
+                      step="0.25"
+                      value={editDraft.hours}
+                      onChange={(e) => setEditDraft(prev => ({ ...prev, hours: e.target.value }))}
+                      disabled={isSaving}
+                      className={inputClass}
+                    />
+                    <input
+                      type="date"
+                      value={editDraft.date}
+                      onChange={(e) => e.target.value && setEditDraft(prev => ({ ...prev, date: e.target.value }))}
+                      disabled={isSaving}
+                      className={inputClass}
+                    />
+                    {renderTaskSelect(editDraft.taskId, taskId => setEditDraft(prev => ({ ...prev, taskId })), 'col-span-2')}
+                    <input
+                      type="text"
+                      value={editDraft.description}
+                      onChange={(e) => setEditDraft(prev => ({ ...prev, description: e.target.value }))}
+                      disabled={isSaving}
+                      className={`${inputClass} col-span-2 md:col-span-3`}
+                    />
+                    <div className="flex items-center justify-end gap-1 col-span-2 md:col-span-1">
+                      <button
+                        onClick={() => handleSaveEntry(entry._id)}
+                        disabled={isSaving}
+                        className="p-2 text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20 rounded-lg disabled:opacity-50"
+                        title="Save"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditingEntryId(null)}
+                        disabled={isSaving}
+                        className="p-2 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg disabled:opacity-50"
+                        title="Cancel"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              }
+
+              return (
+                <div key={entry._id} className="group flex items-start justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-semibold text-gray-900 dark:text-white">{formatHours(entry.hours)}</span>
+                      <span className="text-gray-600 dark:text-gray-300">
+                        {entry.user ? `${entry.user.firstName} ${entry.user.lastName}` : 'Unknown user'}
+                      </span>
+                      <span className="text-gray-400">·</span>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {new Date(entry.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </span>
+                      {entry.source === 'timer' && (
+                        <span className="flex items-center gap-1 px-1.5 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400">
+                          <Timer className="w-3 h-3" />
+                          Timer
+                        </span>
+                      )}
+                      {entry.locked && (
+                        <span
+                          className="flex items-center gap-1 px-1.5 py-0.5 text-xs rounded bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400"
+                          title="This week's timesheet has been approved"
+                        >
+                          <Lock className="w-3 h-3" />
+                          Approved
+                        </span>
+                      )}
+                    </div>
+                    {entry.taskId && taskTitle(entry.taskId) && (
+                      <p className="text-xs text-blue-600 dark:text-blue-400 mt-0.5">{taskTitle(entry.taskId)}</p>
+                    )}
+                    {entry.description && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{entry.description}</p>
+                    )}
+                  </div>
+                  {canManage && (
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => {
+                          setEditingEntryId(entry._id);
+                          setEditDraft(toDraft(entry));
+                        }}
+                        disabled={isSaving}
+                        className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+                        title="Edit entry"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteEntry(entry._id)}
+                        disabled={isSaving}
+                        className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+                        title="Delete entry"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimeTab;
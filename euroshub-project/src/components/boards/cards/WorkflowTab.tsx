@@ -0,0 +1,480 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Check, ChevronUp, ChevronDown, Plus, Trash2, ArrowLeft, ArrowRight, GitBranch, Settings } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { cardsApi, CardWorkflow, CardWorkflowInput, WorkflowStage } from '@/services/trelloBoardsApi';
+
+interface WorkflowTabProps {
+  cardId: string;
+  tasks: Array<{ _id: string; title: string; completed: boolean }>;
+  members: Array<{ _id: string; firstName: string; lastName: string }>;
+  teams: Array<{ _id: string; name: string }>;
+  lists: Array<{ _id: string; name: string }>;
+  canEdit: boolean;
+}
+
+const inputClass = 'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const toDraft = (workflow: CardWorkflow): CardWorkflowInput => ({
+  workflowEnabled: workflow.workflowEnabled,
+  autoProgressEnabled: workflow.autoProgressEnabled,
+  moveListOnProgress: workflow.moveListOnProgress,
+  stages: workflow.workflowStages.map(stage => ({
+    _id: stage._id,
+    name: stage.name || '',
+    assignedToType: stage.assignedToType || 'user',
+    assignedTo: stage.assignedTo,
+    taskIds: stage.taskIds
+  })),
+  stageListMapping: { ...workflow.stageListMapping }
+});
+
+// Mapping keys are stage indexes, so they follow the stages when one is moved or removed
+const remapStageLists = (mapping: Record<string, string>, order: number[]) =>
+  order.reduce<Record<string, string>>((result, oldIndex, newIndex) => {
+    if (mapping[oldIndex]) result[newIndex] = mapping[oldIndex];
+    return result;
+  }, {});
+
+const WorkflowTab: React.FC<WorkflowTabProps> = ({ cardId, tasks, members, teams, lists, canEdit }) => {
+  const [workflow, setWorkflow] = useState<CardWorkflow | null>(null);
+  const [draft, setDraft] = useState<CardWorkflowInput | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadWorkflow = useCallback(async () => {
+    try {
+      setWorkflow(await cardsApi.getWorkflow(cardId));
+    } catch (error) {
+      console.error('Error loading workflow:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load workflow');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cardId]);
+
+  useEffect(() => {
+    setDraft(null);
+    loadWorkflow();
+  }, [loadWorkflow]);
+
+  const assigneeName = (stage: Pick<WorkflowStage, 'assignedToType' | 'assignedTo'>) => {
+    if (stage.assignedToType === 'team') {
+      const team = teams.find(item => item._id === stage.assignedTo);
+      return team ? `Team ${team.name}` : 'Deleted team';
+    }
+    const member = members.find(item => item._id === stage.assignedTo);
+    return member ? `${member.firstName} ${member.lastName}` : 'Unknown member';
+  };
+
+  const stageName = (name: string | undefined, index: number) => name?.trim() || `Stage ${index + 1}`;
+
+  const handleChangeStage = async (direction: 'next' | 'previous') => {
+    setIsSaving(true);
+    try {
+      setWorkflow(await cardsApi.changeWorkflowStage(cardId, direction));
+    } catch (error) {
+      console.error('Error changing workflow stage:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change stage');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (draft.stages.some(stage => !stage.assignedTo)) {
+      toast.error('Every stage needs an assignee');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      setWorkflow(await cardsApi.updateWorkflow(cardId, {
+        ...draft,
+        workflowEnabled: draft.workflowEnabled && draft.stages.length > 0
+      }));
+      setDraft(null);
+      toast.success('Workflow saved');
+    } catch (error) {
+      console.error('Error saving workflow:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save workflow');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateStage = (index: number, changes: Partial<CardWorkflowInput['stages'][number]>) => {
+    setDraft(prev => prev && ({
+      ...prev,
+      stages: prev.stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage))
+    }));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const order = prev.stages.map((_, i) => i);
+      [order[index], order[index + offset]] = [order[index + offset], order[index]];
+      return {
+        ...prev,
+        stages: order.map(i => prev.stages[i]),
+        stageListMapping: remapStageLists(prev.stageListMapping, order)
+      };
+    });
+  };
+
+  const removeStage = (index: number) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const order = prev.stages.map((_, i) => i).filter(i => i !== index);
+      return {
+        ...prev,
+        stages: order.map(i => prev.stages[i]),
+        stageListMapping: remapStageLists(prev.stageListMapping, order)
+      };
+    });
+  };
+
+  const toggleStageTask = (index: number, taskId: string) => {
+    const stage = draft?.stages[index];
+    if (!stage) return;
+    updateStage(index, {
+      taskIds: stage.taskIds.includes(taskId)
+        ? stage.taskIds.filter(id => id !== taskId)
+        : [...stage.taskIds, taskId]
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-6 h-6 border-2 border-blue-200 dark:border-blue-700 border-t-blue-600 dark:border-t-blue-400 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!workflow) return null;
+
+  // Stage editor
+  if (draft) {
+    return (
+      <div className="space-y-5">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Edit Workflow</h3>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.workflowEnabled}
+              onChange={(e) => setDraft({ ...draft, workflowEnabled: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            Enable workflow for this card
+          </label>
+          <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.autoProgressEnabled}
+              onChange={(e) => setDraft({ ...draft, autoProgressEnabled: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            Advance automatically when all of a stage&apos;s tasks are done
+          </label>
+          <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.moveListOnProgress}
+              onChange={(e) => setDraft({ ...draft, moveListOnProgress: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            Move the card to the stage&apos;s list when a stage starts
+          </label>
+        </div>
+
+        <div className="space-y-3">
+          {draft.stages.map((stage, index) => (
+            <div key={stage._id || `new-${index}`} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="w-6 h-6 rounded-full bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 text-xs font-semibold flex items-center justify-center flex-shrink-0">
+                  {index + 1}
+                </span>
+                <input
+                  type="text"
+                  value={stage.name || ''}
+                  onChange={(e) => updateStage(index, { name: e.target.value })}
+                  placeholder={`Stage ${index + 1}`}
+                  maxLength={100}
+                  className={`${inputClass} flex-1`}
+                />
+                <button
+                  onClick={() => moveStage(index, -1)}
+                  disabled={index === 0}
+                  className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => moveStage(index, 1)}
+                  disabled={index === draft.stages.length - 1}
+                  className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => removeStage(index)}
+                  className="p-1.5 text-gray-400 hover:text-red-600"
+                  title="Remove stage"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-3 pl-8">
+                <select
+                  value={stage.assignedTo ? `${stage.assignedToType}:${stage.assignedTo}` : ''}
+                  onChange={(e) => {
+                    const [assignedToType, assignedTo = ''] = e.target.value.split(':');
+                    updateStage(index, { assignedToType: assignedToType === 'team' ? 'team' : 'user', assignedTo });
+                  }}
+                  className={inputClass}
+                >
+                  <option value="">Assign to...</option>
+                  {stage.assignedToType === 'team' && stage.assignedTo && !teams.some(team => team._id === stage.assignedTo) && (
+                    <option value={`team:${stage.assignedTo}`}>Deleted team</option>
+                  )}
+                  {teams.length > 0 && (
+                    <optgroup label="Teams">
+                      {teams.map(team => (
+                        <option key={team._id} value={`team:${team._id}`}>{team.name}</option>
+                      ))}
+                    </optgroup>
+                  )}
+                  <optgroup label="Members">
+                    {members.map(member => (
+                      <option key={member._id} value={`user:${member._id}`}>{member.firstName} {member.lastName}</option>
+                    ))}
+                  </optgroup>
+                </select>
+                {draft.moveListOnProgress && (
+                  <select
+                    value={draft.stageListMapping[index] || ''}
+                    onChange={(e) => {
+                      const stageListMapping = { ...draft.stageListMapping };
+                      if (e.target.value) {
+                        stageListMapping[index] = e.target.value;
+                      } else {
+                        delete stageListMapping[index];
+                      }
+                      setDraft({ ...draft, stageListMapping });
+                    }}
+                    className={inputClass}
+                  >
+                    <option value="">Stay in current list</option>
+                    {lists.map(list => (
+                      <option key={list._id} value={list._id}>Move to {list.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              {tasks.length > 0 && (
+                <div className="pl-8 flex flex-wrap gap-2">
+                  {tasks.map(task => {
+                    const ownerIndex = draft.stages.findIndex(item => item.taskIds.includes(task._id));
+                    const isOwnedElsewhere = ownerIndex !== -1 && ownerIndex !== index;
+                    const isSelected = ownerIndex === index;
+                    return (
+                      <button
+                        key={task._id}
+                        onClick={() => toggleStageTask(index, task._id)}
+                        disabled={isOwnedElsewhere}
+                        title={isOwnedElsewhere ? `In ${stageName(draft.stages[ownerIndex].name, ownerIndex)}` : undefined}
+                        className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${
+                          isSelected
+                            ? 'bg-blue-600 border-blue-600 text-white'
+                            : isOwnedElsewhere
+                              ? 'border-gray-200 dark:border-gray-700 text-gray-300 dark:text-gray-600 cursor-not-allowed'
+                              : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-blue-400'
+                        }`}
+                      >
+                        {task.title}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <button
+            onClick={() => setDraft({
+              ...draft,
+              stages: [...draft.stages, { name: '', assignedToType: 'user', assignedTo: '', taskIds: [] }]
+            })}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+          >
+            <Plus className="w-4 h-4" />
+            Add stage
+          </button>
+          {tasks.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Add tasks to this card to attach them to stages. Stages without tasks only advance by hand.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={() => setDraft(null)}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Workflow'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const stages = workflow.workflowStages;
+  const isFinished = stages.length > 0 && stages[stages.length - 1].status === 'completed';
+  const position = isFinished ? stages.length : workflow.currentStageIndex;
+  const currentStage = isFinished ? null : stages[workflow.currentStageIndex];
+  const currentStageTasks = currentStage ? tasks.filter(task => currentStage.taskIds.includes(task._id)) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Workflow</h3>
+        {canEdit && (
+          <button
+            onClick={() => setDraft(toDraft(workflow))}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm"
+          >
+            <Settings className="w-4 h-4" />
+            {stages.length > 0 ? 'Edit Stages' : 'Set Up Workflow'}
+          </button>
+        )}
+      </div>
+
+      {!workflow.workflowEnabled || stages.length === 0 ? (
+        <div className="py-10 text-center">
+          <GitBranch className="w-8 h-8 mx-auto text-gray-300 dark:text-gray-600 mb-2" />
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {stages.length > 0 ? 'The workflow is turned off for this card' : 'This card has no workflow stages yet'}
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Stepper */}
+          <ol className="flex items-start overflow-x-auto pb-2">
+            {stages.map((stage, index) => {
+              const stageTasks = tasks.filter(task => stage.taskIds.includes(task._id));
+              const mappedList = workflow.moveListOnProgress
+                ? lists.find(list => list._id === workflow.stageListMapping[index])
+                : undefined;
+              return (
+                <li key={stage._id || index} className="flex items-start flex-1 min-w-[140px]">
+                  <div className="flex flex-col items-center text-center flex-1 px-1">
+                    <div
+                      className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold ${
+                        stage.status === 'completed'
+                          ? 'bg-green-500 text-white'
+                          : stage.status === 'active'
+                            ? 'bg-blue-600 text-white ring-4 ring-blue-100 dark:ring-blue-900/50'
+                            : 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
+                      }`}
+                    >
+                      {stage.status === 'completed' ? <Check className="w-4 h-4" /> : index + 1}
+                    </div>
+                    <p className={`mt-2 text-sm font-medium ${stage.status === 'active' ? 'text-blue-700 dark:text-blue-300' : 'text-gray-900 dark:text-white'}`}>
+                      {stageName(stage.name, index)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{assigneeName(stage)}</p>
+                    {stageTasks.length > 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {stageTasks.filter(task => task.completed).length}/{stageTasks.length} tasks
+                      </p>
+                    )}
+                    {mappedList && (
+                      <p className="text-xs text-gray-400 dark:text-gray-500 truncate max-w-full">→ {mappedList.name}</p>
+                    )}
+                  </div>
+                  {index < stages.length - 1 && (
+                    <div className={`h-0.5 flex-1 mt-4 ${stage.status === 'completed' ? 'bg-green-500' : 'bg-gray-200 dark:bg-gray-700'}`} />
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+
+          {/* Current stage */}
+          <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+            {currentStage ? (
+              <>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  Current stage: {stageName(currentStage.name, workflow.currentStageIndex)}
+                </p>
+                {currentStageTasks.length > 0 ? (
+                  <ul className="mt-2 space-y-1">
+                    {currentStageTasks.map(task => (
+                      <li key={task._id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <span className={`w-4 h-4 rounded border flex items-center justify-center ${task.completed ? 'bg-green-500 border-green-500' : 'border-gray-300 dark:border-gray-600'}`}>
+                          {task.completed && <Check className="w-3 h-3 text-white" />}
+                        </span>
+                        <span className={task.completed ? 'line-through text-gray-400' : ''}>{task.title}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">No tasks attached; advance this stage by hand.</p>
+                )}
+                {workflow.autoProgressEnabled && currentStageTasks.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Moves on automatically once these tasks are done.</p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm font-medium text-green-700 dark:text-green-400">All stages are complete</p>
+            )}
+          </div>
+
+          {canEdit && (
+            <div className="flex justify-between">
+              <button
+                onClick={() => handleChangeStage('previous')}
+                disabled={isSaving || position === 0}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Roll Back
+              </button>
+              <button
+                onClick={() => handleChangeStage('next')}
+                disabled={isSaving || isFinished}
+                className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50"
+              >
+                {position === stages.length - 1 ? 'Complete Workflow' : 'Advance Stage'}
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WorkflowTab;
@@ -0,0 +1,176 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Calendar, Eye } from 'lucide-react';
+import { boardsApi } from '@/services/trelloBoardsApi';
+import LabelChip from '../labels/LabelChip';
+import ClientCardModal from './ClientCardModal';
+import { ClientCard, formatDate, formatStatus, statusClassName } from './clientCardUtils';
+
+interface ClientBoardViewProps {
+  boardId: string;
+  baseUrl: string;
+}
+
+interface ClientList {
+  _id: string;
+  name: string;
+  color?: string;
+  cards: ClientCard[];
+}
+
+/**
+ * The client portal's read-only board. The server sends only the cards shared
+ * with the client, grouped by the lists they sit in, with internal fields left out.
+ */
+export default function ClientBoardView({ boardId, baseUrl }: ClientBoardViewProps) {
+  const router = useRouter();
+  const [boardName, setBoardName] = useState('');
+  const [boardDescription, setBoardDescription] = useState('');
+  const [lists, setLists] = useState<ClientList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedCard, setSelectedCard] = useState<ClientCard | null>(null);
+
+  useEffect(() => {
+    const loadBoard = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const board = await boardsApi.getBoard(boardId);
+        setBoardName(board.name);
+        setBoardDescription(board.description || '');
+        setLists((board.lists || []) as unknown as ClientList[]);
+      } catch (err) {
+        console.error('Error loading board:', err);
+        setError('Failed to load board');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBoard();
+  }, [boardId]);
+
+  const handleBack = () => {
+    router.push(`${baseUrl}/boards`);
+  };
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center space-y-4">
+          <div className="w-12 h-12 border-2 border-gray-200 border-t-[#17b6b2] rounded-full animate-spin mx-auto"></div>
+          <p className="text-gray-500 dark:text-gray-400">Loading board...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="h-full flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center space-y-4 max-w-md">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Board not found</h3>
+          <p className="text-gray-500 dark:text-gray-400">{error}</p>
+          <button
+            onClick={handleBack}
+            className="px-6 py-2 bg-[#17b6b2] text-white rounded-lg hover:bg-[#15a09d] transition-colors"
+          >
+            Back to Boards
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-900">
+      <div className="flex items-center gap-3 px-6 py-4 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800">
+        <button
+          onClick={handleBack}
+          className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          title="Back to Boards"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="min-w-0">
+          <h1 className="text-xl font-semibold text-gray-900 dark:text-white truncate">{boardName}</h1>
+          {boardDescription && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{boardDescription}</p>
+          )}
+        </div>
+        <span className="ml-auto flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-[#17b6b2] bg-[#17b6b2]/10 rounded-full">
+          <Eye className="w-3.5 h-3.5" />
+          Client view
+        </span>
+      </div>
+
+      {lists.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center p-6">
+          <div className="text-center max-w-sm">
+            <Eye className="w-10 h-10 mx-auto text-gray-300 dark:text-gray-600 mb-3" />
+            <h3 className="font-medium text-gray-900 dark:text-white">Nothing shared yet</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Cards the team shares with you will show up here.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-x-auto p-6">
+          <div className="flex gap-4 items-start w-max">
+            {lists.map(list => (
+              <div key={list._id} className="w-72 flex-shrink-0 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+                <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+                  {list.color && <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: list.color }} />}
+                  <h2 className="font-medium text-gray-900 dark:text-white truncate">{list.name}</h2>
+                  <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">{list.cards.length}</span>
+                </div>
+                <div className="p-3 space-y-2">
+                  {list.cards.map(card => (
+                    <button
+                      key={card._id}
+                      onClick={() => setSelectedCard(card)}
+                      className="w-full p-3 text-left bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg hover:border-[#17b6b2]/60 transition-colors"
+                      style={card.color ? { borderLeft: `4px solid ${card.color}` } : undefined}
+                    >
+                      {card.labels.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {card.labels.map((label, index) => (
+                            <LabelChip key={index} label={label} />
+                          ))}
+                        </div>
+                      )}
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{card.title}</p>
+                      <div className="flex items-center gap-2 mt-2">
+                        {card.status && (
+                          <span className={`px-2 py-0.5 rounded text-[11px] font-medium ${statusClassName(card.status)}`}>
+                            {formatStatus(card.status)}
+                          </span>
+                        )}
+                        {card.dueDate && (
+                          <span className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                            <Calendar className="w-3 h-3" />
+                            {formatDate(card.dueDate)}
+                          </span>
+                        )}
+                      </div>
+                      <div className="h-1 mt-3 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                        <div className="h-full bg-[#17b6b2] rounded-full" style={{ width: `${card.projectProgress ?? 0}%` }} />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {selectedCard && (
+        <ClientCardModal card={selectedCard} onClose={() => setSelectedCard(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Calendar, CheckCircle2, Download, FileText, MessageSquare, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Portal from '../../shared/Portal';
+import { cardsApi, ClientFeedbackType } from '@/services/trelloBoardsApi';
+import { commentsApi } from '@/services/commentsApi';
+import { fileApi } from '@/services/filesApi';
+import LabelChip from '../labels/LabelChip';
+import ClientFeedbackBadge from './ClientFeedbackBadge';
+import { ClientCard, formatDate, formatStatus, statusClassName } from './clientCardUtils';
+
+interface FeedbackComment {
+  _id: string;
+  text: string;
+  author: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+  };
+  clientFeedback?: ClientFeedbackType | null;
+  createdAt: string;
+}
+
+interface SharedFile {
+  _id: string;
+  originalName: string;
+  size: number;
+}
+
+interface ClientCardModalProps {
+  card: ClientCard;
+  onClose: () => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// A shared card as a client sees it, with its shared files, the comments shared
+// with the client and their feedback
+export default function ClientCardModal({ card, onClose }: ClientCardModalProps) {
+  const [feedback, setFeedback] = useState<FeedbackComment[]>([]);
+  const [files, setFiles] = useState<SharedFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState<ClientFeedbackType | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([commentsApi.getComments(card._id), fileApi.getFiles(card._id)])
+      .then(([comments, sharedFiles]) => {
+        if (cancelled) return;
+        setFeedback(comments || []);
+        setFiles(sharedFiles || []);
+      })
+      .catch(error => console.error('Error loading shared card:', error))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [card._id]);
+
+  const handleSend = async (type: ClientFeedbackType) => {
+    setSending(type);
+    try {
+      const comment = await cardsApi.sendClientFeedback(card._id, { type, text: text.trim() });
+      setFeedback(prev => [...prev, comment]);
+      setText('');
+      toast.success(type === 'approval' ? 'Approval sent to the team' : 'Feedback sent to the team');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send feedback');
+    } finally {
+      setSending(null);
+    }
+  };
+
+  const handleDownload = async (file: SharedFile) => {
+    try {
+      await fileApi.downloadFile(file._id, card._id, file.originalName);
+    } catch (error) {
+      console.error('Error downloading file:', error);
+      toast.error('Failed to download file');
+    }
+  };
+
+  const progress = card.projectProgress ?? 0;
+
+  return (
+    <Portal>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden border border-gray-200 dark:border-gray-800">
+          <div className="flex items-start justify-between gap-4 p-6 border-b border-gray-200 dark:border-gray-800">
+            <div className="min-w-0">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{card.title}</h2>
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                {card.status && (
+                  <span className={`px-2.5 py-1 rounded-lg text-xs font-medium ${statusClassName(card.status)}`}>
+                    {formatStatus(card.status)}
+                  </span>
+                )}
+                {card.labels.map((label, index) => (
+                  <LabelChip key={index} label={label} />
+                ))}
+              </div>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">Start</p>
+                <p className="text-gray-900 dark:text-white flex items-center gap-1.5 mt-0.5">
+                  <Calendar className="w-4 h-4 text-gray-400" />
+                  {formatDate(card.startDate) || 'Not set'}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">Due</p>
+                <p className="text-gray-900 dark:text-white flex items-center gap-1.5 mt-0.5">
+                  <Calendar className="w-4 h-4 text-gray-400" />
+                  {formatDate(card.dueDate) || 'Not set'}
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between text-sm mb-1.5">
+                <span className="text-gray-500 dark:text-gray-400">Progress</span>
+                <span className="font-medium text-gray-900 dark:text-white">{progress}%</span>
+              </div>
+              <div className="h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-[#17b6b2] rounded-full transition-all" style={{ width: `${progress}%` }} />
+              </div>
+            </div>
+
+            {card.description && (
+              <div>
+                <h3 className="font-medium text-gray-900 dark:text-white mb-2">Description</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap">{card.description}</p>
+              </div>
+            )}
+
+            <div>
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">Deliverables</h3>
+              {loading ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+              ) : files.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No files have been shared yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {files.map(file => (
+                    <button
+                      key={file._id}
+                      onClick={() => handleDownload(file)}
+                      className="w-full flex items-center gap-3 p-3 text-left border border-gray-200 dark:border-gray-700 rounded-lg hover:border-[#17b6b2]/60 transition-colors"
+                    >
+                      <FileText className="w-5 h-5 text-[#17b6b2] flex-shrink-0" />
+                      <span className="flex-1 min-w-0 text-sm text-gray-900 dark:text-white truncate">{file.originalName}</span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(file.size)}</span>
+                      <Download className="w-4 h-4 text-gray-400" />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">Comments &amp; Feedback</h3>
+              {!loading && feedback.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                  Approve the work or tell the team what should change. They are notified either way.
+                </p>
+              )}
+              <div className="space-y-3 mb-4">
+                {feedback.map(comment => (
+                  <div key={comment._id} className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">
+                        {comment.author.firstName} {comment.author.lastName}
+                      </span>
+                      {comment.clientFeedback && <ClientFeedbackBadge type={comment.clientFeedback} />}
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{formatDate(comment.createdAt)}</span>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap">{comment.text}</p>
+                  </div>
+                ))}
+              </div>
+
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Leave feedback for the team..."
+                maxLength={2000}
+                rows={3}
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#17b6b2] focus:border-transparent resize-none"
+              />
+              <div className="flex justify-end gap-3 mt-3">
+                <button
+                  onClick={() => handleSend('feedback')}
+                  disabled={!text.trim() || sending !== null}
+                  className="flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <MessageSquare className="w-4 h-4" />
+                  {sending === 'feedback' ? 'Sending...' : 'Send Feedback'}
+                </button>
+                <button
+                  onClick={() => handleSend('approval')}
+                  disabled={sending !== null}
+                  className="flex items-center gap-2 px-4 py-2 text-sm bg-[#17b6b2] text-white font-medium rounded-lg hover:bg-[#15a09d] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <CheckCircle2 className="w-4 h-4" />
+                  {sending === 'approval' ? 'Sending...' : 'Approve'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Portal>
+  );
+}
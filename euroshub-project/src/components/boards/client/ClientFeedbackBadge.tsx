@@ -0,0 +1,19 @@
+'use client';
+
+import { CheckCircle2, MessageSquareQuote } from 'lucide-react';
+import { ClientFeedbackType } from '@/services/trelloBoardsApi';
+
+// Marks a comment a client left through the client portal
+export default function ClientFeedbackBadge({ type }: { type: ClientFeedbackType }) {
+  return type === 'approval' ? (
+    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-green-700 bg-green-100 dark:text-green-300 dark:bg-green-900/40">
+      <CheckCircle2 className="w-3 h-3" />
+      Client approval
+    </span>
+  ) : (
+    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-amber-700 bg-amber-100 dark:text-amber-300 dark:bg-amber-900/40">
+      <MessageSquareQuote className="w-3 h-3" />
+      Client feedback
+    </span>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Eye } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { cardsApi } from '@/services/trelloBoardsApi';
+
+export interface BoardClient {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+}
+
+interface ClientSharingSectionProps {
+  cardId: string;
+  clients: BoardClient[];
+  sharedWith: string[];
+  canEdit: boolean;
+  onChange: (sharedWith: string[]) => void;
+}
+
+// Which of the board's clients see a card in the client portal
+export default function ClientSharingSection({ cardId, clients, sharedWith, canEdit, onChange }: ClientSharingSectionProps) {
+  const [saving, setSaving] = useState(false);
+
+  const toggleClient = async (clientId: string) => {
+    const next = sharedWith.includes(clientId)
+      ? sharedWith.filter(id => id !== clientId)
+      : [...sharedWith, clientId];
+
+    setSaving(true);
+    try {
+      onChange(await cardsApi.updateClientSharing(cardId, next));
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update client sharing');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="font-medium text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+        <Eye className="w-4 h-4 text-[#17b6b2]" />
+        Client Portal
+      </h4>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Shared clients see the card&apos;s status, dates, shared files, comments marked as shared and their own feedback. Internal comments, other files and budget stay internal.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {clients.map(client => {
+          const isShared = sharedWith.includes(client._id);
+          return (
+            <button
+              key={client._id}
+              onClick={() => toggleClient(client._id)}
+              disabled={!canEdit || saving}
+              className={`flex items-center gap-2 rounded-full px-3 py-1 text-sm border transition-colors disabled:cursor-default ${
+                isShared
+                  ? 'bg-[#17b6b2]/10 border-[#17b6b2] text-[#17b6b2]'
+                  : 'bg-gray-100 dark:bg-gray-700 border-transparent text-gray-700 dark:text-gray-300'
+              } ${canEdit ? 'hover:border-[#17b6b2]/60' : ''}`}
+            >
+              {isShared && <Check className="w-3.5 h-3.5" />}
+              {client.firstName} {client.lastName}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
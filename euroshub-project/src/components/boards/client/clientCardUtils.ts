@@ -0,0 +1,19 @@
+import { Card } from '../lists/ListContainer';
+
+// A card as the client portal receives it: internal fields are left out and
+// overall progress comes precomputed
+export type ClientCard = Card & { projectProgress?: number };
+
+export const formatStatus = (status: NonNullable<Card['status']>) =>
+  status.replace('_', ' ').split(' ').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export const statusClassName = (status: Card['status']) => {
+  if (status === 'completed') return 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300';
+  if (status === 'in_progress') return 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300';
+  if (status === 'review') return 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300';
+  if (status === 'on_hold' || status === 'blocked') return 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300';
+  return 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300';
+};
+
+export const formatDate = (date?: Date | string) =>
+  date ? new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : null;
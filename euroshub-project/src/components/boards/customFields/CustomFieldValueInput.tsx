@@ -0,0 +1,74 @@
+'use client';
+
+import { CustomFieldDefinition } from '@/services/trelloBoardsApi';
+import { CustomFieldValue, toDateInputValue } from './customFieldUtils';
+
+interface CustomFieldValueInputProps {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue;
+  onChange: (value: CustomFieldValue) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+
+// Editor for one card's value of a custom field; an empty input clears the value
+const CustomFieldValueInput: React.FC<CustomFieldValueInputProps> = ({ field, value, onChange }) => {
+  switch (field.type) {
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={value === null ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+          className={inputClass}
+          step="any"
+        />
+      );
+    case 'date':
+      return (
+        <input
+          type="date"
+          value={toDateInputValue(value)}
+          onChange={(e) => onChange(e.target.value ? new Date(`${e.target.value}T00:00:00`).toISOString() : null)}
+          className={inputClass}
+        />
+      );
+    case 'boolean':
+      return (
+        <label className="flex items-center gap-2 py-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            className="rounded border-gray-300 text-[#17b6b2] focus:ring-[#17b6b2]"
+          />
+          {field.name}
+        </label>
+      );
+    case 'select':
+      return (
+        <select
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          className={inputClass}
+        >
+          <option value="">{field.required ? 'Select...' : 'None'}</option>
+          {field.options.map(option => (
+            <option key={option._id} value={option._id}>{option.name}</option>
+          ))}
+        </select>
+      );
+    default:
+      return (
+        <input
+          type="text"
+          value={value === null ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={500}
+          className={inputClass}
+        />
+      );
+  }
+};
+
+export default CustomFieldValueInput;
@@ -0,0 +1,379 @@
+'use client';
+
+import { useState } from 'react';
+import { X, SlidersHorizontal, Plus, Pencil, Trash2, ArrowLeft, ArrowUp, ArrowDown, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Portal from '../../shared/Portal';
+import { customFieldsApi, CustomFieldDefinition, CustomFieldInput, CustomFieldType } from '@/services/trelloBoardsApi';
+import {
+  CUSTOM_FIELD_TYPE_OPTIONS,
+  DEFAULT_OPTION_COLOR,
+  MAX_CUSTOM_FIELDS,
+  createFieldDraft,
+  getFieldTypeLabel
+} from './customFieldUtils';
+
+interface CustomFieldsModalProps {
+  boardId: string;
+  fields: CustomFieldDefinition[];
+  onFieldsChange: (fields: CustomFieldDefinition[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30 focus:border-[#17b6b2]';
+
+// Returns an error message for an incomplete field, or null
+const getDraftError = (draft: CustomFieldInput, fields: CustomFieldDefinition[], editingId: string | null) => {
+  const name = draft.name.trim().toLowerCase();
+  if (!name) return 'Give the field a name';
+  if (fields.some(field => field._id !== editingId && field.name.toLowerCase() === name)) {
+    return 'This board already has a field with that name';
+  }
+  if (draft.type === 'select') {
+    if (draft.options.length === 0) return 'Add at least one option';
+    const optionNames = draft.options.map(option => option.name.trim().toLowerCase());
+    if (optionNames.some(optionName => !optionName)) return 'Every option needs a name';
+    if (new Set(optionNames).size !== optionNames.length) return 'Option names must be unique';
+  }
+  return null;
+};
+
+/**
+ * Board admins define the board's custom fields here; values are filled in on each card
+ */
+const CustomFieldsModal: React.FC<CustomFieldsModalProps> = ({ boardId, fields, onFieldsChange, onClose }) => {
+  const [editing, setEditing] = useState<{ field: CustomFieldDefinition | null } | null>(null);
+  const [draft, setDraft] = useState<CustomFieldInput>(createFieldDraft);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (field: CustomFieldDefinition | null) => {
+    setDraft(field
+      ? { name: field.name, type: field.type, options: field.options.map(option => ({ ...option })), required: field.required, showOnCard: field.showOnCard }
+      : createFieldDraft());
+    setError(null);
+    setEditing({ field });
+  };
+
+  const setType = (type: CustomFieldType) => {
+    setDraft(prev => ({
+      ...prev,
+      type,
+      options: type === 'select' && prev.options.length === 0 ? [{ name: '', color: DEFAULT_OPTION_COLOR }] : prev.options,
+      required: type === 'boolean' ? false : prev.required
+    }));
+  };
+
+  const updateOption = (index: number, changes: { name?: string; color?: string }) => {
+    setDraft(prev => ({
+      ...prev,
+      options: prev.options.map((option, i) => (i === index ? { ...option, ...changes } : option))
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const draftError = getDraftError(draft, fields, editing.field?._id || null);
+    if (draftError) {
+      setError(draftError);
+      return;
+    }
+
+    const input: CustomFieldInput = {
+      ...draft,
+      name: draft.name.trim(),
+      options: draft.type === 'select' ? draft.options.map(option => ({ ...option, name: option.name.trim() })) : []
+    };
+
+    setError(null);
+    setIsSaving(true);
+    try {
+      if (editing.field) {
+        onFieldsChange(await customFieldsApi.updateField(boardId, editing.field._id, input));
+        toast.success('Field updated');
+      } else {
+        onFieldsChange(await customFieldsApi.createField(boardId, input));
+        toast.success('Field added');
+      }
+      setEditing(null);
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save field');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: CustomFieldDefinition) => {
+    if (!confirm(`Delete the field "${field.name}"? Its value will be removed from every card.`)) return;
+
+    try {
+      onFieldsChange(await customFieldsApi.deleteField(boardId, field._id));
+      toast.success('Field deleted');
+    } catch (error) {
+      console.error('Error deleting custom field:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete field');
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...fields];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + direction, 0, moved);
+
+    // Optimistic update
+    onFieldsChange(reordered);
+    try {
+      onFieldsChange(await customFieldsApi.reorderFields(boardId, reordered.map(field => field._id)));
+    } catch (error) {
+      console.error('Error reordering custom fields:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reorder fields');
+      onFieldsChange(fields);
+    }
+  };
+
+  const removedOptionCount = editing?.field
+    ? editing.field.options.filter(option => !draft.options.some(item => item._id === option._id)).length
+    : 0;
+
+  return (
+    <Portal>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow-2xl w-full max-w-xl max-h-[90vh] overflow-hidden border border-gray-200 dark:border-gray-800 animate-in slide-in-from-bottom-4 duration-300">
+          {/* Header */}
+          <div className="border-b border-gray-200 dark:border-gray-800 px-6 py-4">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 min-w-0">
+                {editing && (
+                  <button
+                    onClick={() => setEditing(null)}
+                    disabled={isSaving}
+                    className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+                    title="Back to fields"
+                  >
+                    <ArrowLeft className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+                  </button>
+                )}
+                <div className="min-w-0">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white truncate">
+                    {editing ? (editing.field ? 'Edit Field' : 'New Field') : 'Custom Fields'}
+                  </h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    Extra details every card on this board can fill in
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                disabled={isSaving}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 overflow-y-auto max-h-[calc(90vh-100px)]">
+            {editing ? (
+              <form onSubmit={handleSubmit} className="space-y-5">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">Name</label>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g. Story points"
+                    maxLength={50}
+                    className={inputClass}
+                    autoFocus
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">Type</label>
+                  <select
+                    value={draft.type}
+                    onChange={(e) => setType(e.target.value as CustomFieldType)}
+                    disabled={!!editing.field}
+                    className={`${inputClass} disabled:opacity-60`}
+                  >
+                    {CUSTOM_FIELD_TYPE_OPTIONS.map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                  {editing.field && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">A field&apos;s type cannot be changed</p>
+                  )}
+                </div>
+
+                {draft.type === 'select' && (
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Options</label>
+                    {draft.options.map((option, index) => (
+                      <div key={option._id || `new-${index}`} className="flex items-center gap-2">
+                        <input
+                          type="color"
+                          value={option.color || DEFAULT_OPTION_COLOR}
+                          onChange={(e) => updateOption(index, { color: e.target.value })}
+                          className="w-10 h-9 rounded-md border border-gray-300 dark:border-gray-700 cursor-pointer flex-shrink-0"
+                          title="Option color"
+                        />
+                        <input
+                          type="text"
+                          value={option.name}
+                          onChange={(e) => updateOption(index, { name: e.target.value })}
+                          placeholder={`Option ${index + 1}`}
+                          maxLength={50}
+                          className={inputClass}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setDraft(prev => ({ ...prev, options: prev.options.filter((_, i) => i !== index) }))}
+                          className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                          title="Remove option"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setDraft(prev => ({ ...prev, options: [...prev.options, { name: '', color: DEFAULT_OPTION_COLOR }] }))}
+                      className="flex items-center gap-1.5 text-sm font-medium text-[#17b6b2] hover:underline"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add option
+                    </button>
+                    {removedOptionCount > 0 && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400">
+                        Cards set to a removed option will have this field cleared.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  {draft.type !== 'boolean' && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={draft.required}
+                        onChange={(e) => setDraft(prev => ({ ...prev, required: e.target.checked }))}
+                        className="rounded border-gray-300 text-[#17b6b2] focus:ring-[#17b6b2]"
+                      />
+                      Required when editing a card
+                    </label>
+                  )}
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={draft.showOnCard}
+                      onChange={(e) => setDraft(prev => ({ ...prev, showOnCard: e.target.checked }))}
+                      className="rounded border-gray-300 text-[#17b6b2] focus:ring-[#17b6b2]"
+                    />
+                    Show on the card front
+                  </label>
+                </div>
+
+                {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+                <div className="flex justify-end gap-2 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setEditing(null)}
+                    disabled={isSaving}
+                    className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="px-4 py-2 text-sm bg-[#17b6b2] text-white rounded-lg hover:bg-[#15a09d] disabled:opacity-50 transition-colors flex items-center gap-2"
+                  >
+                    {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {editing.field ? 'Save Field' : 'Add Field'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="space-y-3">
+                {fields.length === 0 && (
+                  <div className="py-8 text-center">
+                    <SlidersHorizontal className="w-8 h-8 mx-auto text-gray-300 dark:text-gray-600 mb-2" />
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No custom fields on this board yet</p>
+                  </div>
+                )}
+
+                {fields.map((field, index) => (
+                  <div key={field._id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate">{field.name}</h3>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                        {[
+                          getFieldTypeLabel(field.type),
+                          field.type === 'select' ? `${field.options.length} option${field.options.length === 1 ? '' : 's'}` : null,
+                          field.required ? 'Required' : null,
+                          field.showOnCard ? 'Shown on cards' : null
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Move up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === fields.length - 1}
+                        className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => startEditing(field)}
+                        className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                        title="Edit field"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(field)}
+                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                        title="Delete field"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                {fields.length < MAX_CUSTOM_FIELDS ? (
+                  <button
+                    onClick={() => startEditing(null)}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2.5 border border-dashed border-gray-300 dark:border-gray-700 text-sm font-medium text-[#17b6b2] rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    New Field
+                  </button>
+                ) : (
+                  <p className="text-xs text-center text-gray-500 dark:text-gray-400">A board can have at most {MAX_CUSTOM_FIELDS} custom fields</p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </Portal>
+  );
+};
+
+export default CustomFieldsModal;
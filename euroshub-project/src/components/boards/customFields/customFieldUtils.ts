@@ -0,0 +1,133 @@
+import {
+  CardCustomFieldValue,
+  CustomFieldDefinition,
+  CustomFieldInput,
+  CustomFieldType
+} from '@/services/trelloBoardsApi';
+
+export type CustomFieldValue = CardCustomFieldValue['value'];
+
+export const CUSTOM_FIELD_TYPE_OPTIONS: Array<{ id: CustomFieldType; label: string }> = [
+  { id: 'text', label: 'Text' },
+  { id: 'number', label: 'Number' },
+  { id: 'date', label: 'Date' },
+  { id: 'boolean', label: 'Checkbox' },
+  { id: 'select', label: 'Dropdown' }
+];
+
+export const DEFAULT_OPTION_COLOR = '#6b7280';
+
+export const MAX_CUSTOM_FIELDS = 20;
+
+export const createFieldDraft = (): CustomFieldInput => ({
+  name: '',
+  type: 'text',
+  options: [],
+  required: false,
+  showOnCard: false
+});
+
+export const getFieldTypeLabel = (type: CustomFieldType) =>
+  CUSTOM_FIELD_TYPE_OPTIONS.find(option => option.id === type)?.label || type;
+
+// The card's value for a field, or null when it has none
+export const getCardFieldValue = (
+  customFields: CardCustomFieldValue[] | undefined,
+  fieldId: string
+): CustomFieldValue => {
+  const entry = (customFields || []).find(item => item.fieldId === fieldId);
+  return entry && entry.value !== undefined ? entry.value : null;
+};
+
+export const isEmptyFieldValue = (value: CustomFieldValue) =>
+  value === null || (typeof value === 'string' && !value.trim());
+
+export const getFieldOption = (field: CustomFieldDefinition, value: CustomFieldValue) =>
+  field.type === 'select' ? field.options.find(option => option._id === value) || null : null;
+
+// Human readable value; empty string when the card has no value
+export const formatFieldValue = (field: CustomFieldDefinition, value: CustomFieldValue) => {
+  if (isEmptyFieldValue(value)) return '';
+
+  switch (field.type) {
+    case 'number':
+      return Number(value).toLocaleString('en-US');
+    case 'date':
+      return new Date(String(value)).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    case 'boolean':
+      return value === true ? 'Yes' : 'No';
+    case 'select':
+      return getFieldOption(field, value)?.name || '';
+    default:
+      return String(value);
+  }
+};
+
+// Value used to sort cards by a field; null sorts last
+export const getFieldSortValue = (field: CustomFieldDefinition, value: CustomFieldValue): number | string | null => {
+  if (isEmptyFieldValue(value)) return null;
+
+  switch (field.type) {
+    case 'number':
+      return Number(value);
+    case 'date':
+      return new Date(String(value)).getTime();
+    case 'boolean':
+      return value === true ? 1 : 0;
+    case 'select':
+      // Options sort in the order the board admin listed them
+      return field.options.findIndex(option => option._id === value);
+    default:
+      return String(value).toLowerCase();
+  }
+};
+
+// Date inputs work with YYYY-MM-DD in local time
+export const toDateInputValue = (value: CustomFieldValue) => {
+  if (isEmptyFieldValue(value)) return '';
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) return '';
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Filter choices for a field. Select fields filter by option, checkboxes by
+ * checked or not, and the other types by whether a value is set.
+ */
+export const getFieldFilterChoices = (field: CustomFieldDefinition): Array<{ id: string; label: string; color?: string }> => {
+  switch (field.type) {
+    case 'select':
+      return field.options
+        .filter(option => option._id)
+        .map(option => ({ id: option._id as string, label: option.name, color: option.color }));
+    case 'boolean':
+      return [
+        { id: 'true', label: 'Checked' },
+        { id: 'false', label: 'Not checked' }
+      ];
+    default:
+      return [
+        { id: 'set', label: 'Has a value' },
+        { id: 'empty', label: 'Is empty' }
+      ];
+  }
+};
+
+// Whether a card's value matches one of the chosen filter choices
+export const fieldValueMatches = (value: CustomFieldValue, choices: string[]) =>
+  choices.some(choice => {
+    switch (choice) {
+      case 'set':
+        return !isEmptyFieldValue(value);
+      case 'empty':
+        return isEmptyFieldValue(value);
+      case 'true':
+        return value === true;
+      case 'false':
+        return value !== true;
+      default:
+        return value === choice;
+    }
+  });
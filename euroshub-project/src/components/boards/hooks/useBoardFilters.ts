@@ -0,0 +1,230 @@
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Card } from '../lists/ListContainer';
+import { fieldValueMatches, getCardFieldValue } from '../customFields/customFieldUtils';
+
+export type BoardFilterMode = 'dim' | 'hide';
+
+export interface BoardFilters {
+  members: string[];
+  labels: string[];
+  dueFrom: string;
+  dueTo: string;
+  overdue: boolean;
+  unfinishedTasks: boolean;
+  stage: string;
+  keyword: string;
+  // Chosen filter choices per custom field id
+  fields: Record<string, string[]>;
+  mode: BoardFilterMode;
+}
+
+export const EMPTY_BOARD_FILTERS: BoardFilters = {
+  members: [],
+  labels: [],
+  dueFrom: '',
+  dueTo: '',
+  overdue: false,
+  unfinishedTasks: false,
+  stage: '',
+  keyword: '',
+  fields: {},
+  mode: 'dim'
+};
+
+// URL query parameter used for each filter
+const PARAMS = {
+  members: 'members',
+  labels: 'labels',
+  dueFrom: 'dueFrom',
+  dueTo: 'dueTo',
+  overdue: 'overdue',
+  unfinishedTasks: 'unfinished',
+  stage: 'stage',
+  keyword: 'q',
+  mode: 'filterMode'
+} as const;
+
+// Custom field filters use one parameter per field: cf_<fieldId>=choice,choice
+const FIELD_PARAM_PREFIX = 'cf_';
+
+const splitList = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+
+const parseFieldFilters = (params: URLSearchParams) => {
+  const fields: Record<string, string[]> = {};
+  params.forEach((value, key) => {
+    if (!key.startsWith(FIELD_PARAM_PREFIX)) return;
+    const choices = splitList(value);
+    if (choices.length > 0) fields[key.slice(FIELD_PARAM_PREFIX.length)] = choices;
+  });
+  return fields;
+};
+
+export const parseBoardFilters = (params: URLSearchParams): BoardFilters => ({
+  members: splitList(params.get(PARAMS.members)),
+  labels: splitList(params.get(PARAMS.labels)),
+  dueFrom: params.get(PARAMS.dueFrom) || '',
+  dueTo: params.get(PARAMS.dueTo) || '',
+  overdue: params.get(PARAMS.overdue) === '1',
+  unfinishedTasks: params.get(PARAMS.unfinishedTasks) === '1',
+  stage: params.get(PARAMS.stage) || '',
+  keyword: params.get(PARAMS.keyword) || '',
+  fields: parseFieldFilters(params),
+  mode: params.get(PARAMS.mode) === 'hide' ? 'hide' : 'dim'
+});
+
+/**
+ * Serialize filters into a query string, keeping any unrelated parameters
+ */
+export const serializeBoardFilters = (filters: BoardFilters, base?: URLSearchParams): string => {
+  const params = new URLSearchParams(base);
+  Object.values(PARAMS).forEach(param => params.delete(param));
+  [...params.keys()]
+    .filter(key => key.startsWith(FIELD_PARAM_PREFIX))
+    .forEach(key => params.delete(key));
+
+  if (filters.members.length > 0) params.set(PARAMS.members, filters.members.join(','));
+  if (filters.labels.length > 0) params.set(PARAMS.labels, filters.labels.join(','));
+  if (filters.dueFrom) params.set(PARAMS.dueFrom, filters.dueFrom);
+  if (filters.dueTo) params.set(PARAMS.dueTo, filters.dueTo);
+  if (filters.overdue) params.set(PARAMS.overdue, '1');
+  if (filters.unfinishedTasks) params.set(PARAMS.unfinishedTasks, '1');
+  if (filters.stage) params.set(PARAMS.stage, filters.stage);
+  if (filters.keyword.trim()) params.set(PARAMS.keyword, filters.keyword.trim());
+  Object.entries(filters.fields).forEach(([fieldId, choices]) => {
+    if (choices.length > 0) params.set(`${FIELD_PARAM_PREFIX}${fieldId}`, choices.join(','));
+  });
+  if (filters.mode === 'hide') params.set(PARAMS.mode, 'hide');
+
+  return params.toString();
+};
+
+export const hasActiveBoardFilters = (filters: BoardFilters) =>
+  filters.members.length > 0 ||
+  filters.labels.length > 0 ||
+  !!filters.dueFrom ||
+  !!filters.dueTo ||
+  filters.overdue ||
+  filters.unfinishedTasks ||
+  !!filters.stage ||
+  !!filters.keyword.trim() ||
+  Object.values(filters.fields).some(choices => choices.length > 0);
+
+const toId = (value: string | { _id: string } | null | undefined) =>
+  (typeof value === 'string' ? value : value?._id) || '';
+
+export const getCardMemberIds = (card: Card) => {
+  const ids = new Set<string>();
+  (card.members || []).forEach(member => member.userId?._id && ids.add(member.userId._id));
+  (card.assignedTo || []).forEach(user => ids.add(toId(user)));
+  (card.tasks || []).forEach(task => {
+    (task.assignedTo || []).forEach((user: string | { _id: string }) => ids.add(toId(user)));
+  });
+  ids.delete('');
+  return ids;
+};
+
+export const getStageName = (stage: { name?: string; order: number }) =>
+  stage.name?.trim() || `Stage ${stage.order + 1}`;
+
+export const getCurrentStageName = (card: Card) => {
+  if (!card.workflowEnabled || !card.workflowStages || card.workflowStages.length === 0) return null;
+  const stage = card.workflowStages[card.currentStageIndex || 0];
+  return stage ? getStageName(stage) : null;
+};
+
+// Date inputs give YYYY-MM-DD; compare against the start and end of those days
+const startOfDay = (value: string) => new Date(`${value}T00:00:00`);
+const endOfDay = (value: string) => new Date(`${value}T23:59:59.999`);
+
+/**
+ * Check a card against the filters. Values inside one filter are OR-ed
+ * (any selected member), different filters are AND-ed.
+ */
+export const cardMatchesFilters = (card: Card, filters: BoardFilters, now = new Date()) => {
+  if (filters.members.length > 0) {
+    const memberIds = getCardMemberIds(card);
+    if (!filters.members.some(id => memberIds.has(id))) return false;
+  }
+
+  if (filters.labels.length > 0) {
+    if (!(card.labels || []).some(label => filters.labels.includes(label.name))) return false;
+  }
+
+  if (filters.dueFrom || filters.dueTo) {
+    if (!card.dueDate) return false;
+    const dueDate = new Date(card.dueDate);
+    if (filters.dueFrom && dueDate < startOfDay(filters.dueFrom)) return false;
+    if (filters.dueTo && dueDate > endOfDay(filters.dueTo)) return false;
+  }
+
+  if (filters.overdue) {
+    if (!card.dueDate || new Date(card.dueDate) >= now || card.status === 'completed') return false;
+  }
+
+  if (filters.unfinishedTasks) {
+    if (!(card.tasks || []).some(task => !task.completed)) return false;
+  }
+
+  if (filters.stage && getCurrentStageName(card) !== filters.stage) return false;
+
+  for (const [fieldId, choices] of Object.entries(filters.fields)) {
+    if (choices.length > 0 && !fieldValueMatches(getCardFieldValue(card.customFields, fieldId), choices)) return false;
+  }
+
+  const keyword = filters.keyword.trim().toLowerCase();
+  if (keyword) {
+    const haystack = [
+      card.title,
+      card.description || '',
+      ...(card.labels || []).map(label => label.name),
+      ...(card.tasks || []).map(task => task.title || '')
+    ].join(' ').toLowerCase();
+    if (!haystack.includes(keyword)) return false;
+  }
+
+  return true;
+};
+
+/**
+ * Board card filters backed by the URL, so a filtered board can be shared by link
+ */
+export const useBoardFilters = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = useMemo(
+    () => parseBoardFilters(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  const setFilters = useCallback((next: BoardFilters) => {
+    const query = serializeBoardFilters(next, new URLSearchParams(searchParams.toString()));
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [router, pathname, searchParams]);
+
+  const updateFilters = useCallback((updates: Partial<BoardFilters>) => {
+    setFilters({ ...filters, ...updates });
+  }, [filters, setFilters]);
+
+  const clearFilters = useCallback(() => {
+    setFilters({ ...EMPTY_BOARD_FILTERS, mode: filters.mode });
+  }, [filters.mode, setFilters]);
+
+  const isActive = hasActiveBoardFilters(filters);
+
+  const matchesCard = useCallback(
+    (card: Card) => !isActive || cardMatchesFilters(card, filters),
+    [filters, isActive]
+  );
+
+  return {
+    filters,
+    isActive,
+    setFilters,
+    updateFilters,
+    clearFilters,
+    matchesCard
+  };
+};
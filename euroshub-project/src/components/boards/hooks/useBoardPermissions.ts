@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import { BoardAction, BoardPermissions, getBoardPermissions, getBoardRole } from '@/lib/boardPermissions';
+import { UserRole } from '@/lib/permissions';
+import { Board } from '../BoardManagement';
+
+// What the current user may do on a board, from the shared board permission matrix
+export const useBoardPermissions = (board: Board | null, userId: string | undefined, userRole: UserRole) => {
+  const boardRole = useMemo(() => getBoardRole(board, userId, userRole), [board, userId, userRole]);
+  const permissions: BoardPermissions = useMemo(() => getBoardPermissions(boardRole), [boardRole]);
+
+  const can = (action: BoardAction) => permissions[action];
+
+  return { boardRole, permissions, can };
+};
@@ -0,0 +1,221 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Tag, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Portal from '../../shared/Portal';
+import { labelsApi, BoardLabel, BoardLabelChange, CardLabel } from '@/services/trelloBoardsApi';
+import LabelChip from './LabelChip';
+import { DEFAULT_LABEL_COLOR, LABEL_COLOR_PRESETS, MAX_BOARD_LABELS } from './labelUtils';
+
+interface BoardLabelsModalProps {
+  boardId: string;
+  labels: BoardLabel[];
+  onLabelsChange: (labels: BoardLabel[], change?: BoardLabelChange) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30 focus:border-[#17b6b2]';
+
+/**
+ * The board's label palette. Renaming, recoloring or deleting a label also
+ * changes every card that carries it.
+ */
+const BoardLabelsModal: React.FC<BoardLabelsModalProps> = ({ boardId, labels, onLabelsChange, onClose }) => {
+  // null: not editing; { label: null }: adding a new label
+  const [editing, setEditing] = useState<{ label: BoardLabel | null } | null>(null);
+  const [draft, setDraft] = useState<CardLabel>({ name: '', color: DEFAULT_LABEL_COLOR });
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (label: BoardLabel | null) => {
+    setDraft(label ? { name: label.name, color: label.color } : { name: '', color: DEFAULT_LABEL_COLOR });
+    setError(null);
+    setEditing({ label });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const name = draft.name.trim();
+    if (!name) {
+      setError('Give the label a name');
+      return;
+    }
+    if (labels.some(label => label._id !== editing.label?._id && label.name.toLowerCase() === name.toLowerCase())) {
+      setError('This board already has a label with that name');
+      return;
+    }
+
+    setError(null);
+    setIsSaving(true);
+    try {
+      if (editing.label) {
+        const updated = await labelsApi.updateLabel(boardId, editing.label._id, { name, color: draft.color });
+        onLabelsChange(updated, { type: 'updated', from: editing.label.name, label: { name, color: draft.color } });
+        toast.success('Label updated');
+      } else {
+        onLabelsChange(await labelsApi.createLabel(boardId, { name, color: draft.color }));
+        toast.success('Label added');
+      }
+      setEditing(null);
+    } catch (error) {
+      console.error('Error saving label:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save label');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (label: BoardLabel) => {
+    if (!confirm(`Delete the label "${label.name}"? It will be removed from every card.`)) return;
+
+    try {
+      onLabelsChange(await labelsApi.deleteLabel(boardId, label._id), { type: 'deleted', name: label.name });
+      toast.success('Label deleted');
+    } catch (error) {
+      console.error('Error deleting label:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete label');
+    }
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit} className="p-3 rounded-lg border border-[#17b6b2]/40 bg-gray-50 dark:bg-gray-800/50 space-y-3">
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={draft.color}
+          onChange={(e) => setDraft(prev => ({ ...prev, color: e.target.value }))}
+          className="w-10 h-9 rounded-md border border-gray-300 dark:border-gray-700 cursor-pointer flex-shrink-0"
+          title="Label color"
+        />
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="e.g. Bug"
+          maxLength={50}
+          className={inputClass}
+          autoFocus
+        />
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {LABEL_COLOR_PRESETS.map(color => (
+          <button
+            key={color}
+            type="button"
+            onClick={() => setDraft(prev => ({ ...prev, color }))}
+            className={`w-6 h-6 rounded-full transition-transform hover:scale-110 ${draft.color.toLowerCase() === color.toLowerCase() ? 'ring-2 ring-offset-2 ring-gray-400 dark:ring-offset-gray-900' : ''}`}
+            style={{ backgroundColor: color }}
+            title={color}
+          />
+        ))}
+      </div>
+      {draft.name.trim() && <LabelChip label={{ name: draft.name.trim(), color: draft.color }} size="md" />}
+      {editing?.label && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Cards with this label will be updated too.</p>
+      )}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setEditing(null)}
+          disabled={isSaving}
+          className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-3 py-1.5 text-sm bg-[#17b6b2] text-white rounded-lg hover:bg-[#15a09d] disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+          {editing?.label ? 'Save Label' : 'Add Label'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <Portal>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden border border-gray-200 dark:border-gray-800 animate-in slide-in-from-bottom-4 duration-300">
+          {/* Header */}
+          <div className="border-b border-gray-200 dark:border-gray-800 px-6 py-4">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white truncate">Labels</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  The labels cards on this board can use
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                disabled={isSaving}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 overflow-y-auto max-h-[calc(90vh-100px)] space-y-2">
+            {labels.length === 0 && !editing && (
+              <div className="py-8 text-center">
+                <Tag className="w-8 h-8 mx-auto text-gray-300 dark:text-gray-600 mb-2" />
+                <p className="text-sm text-gray-500 dark:text-gray-400">No labels on this board yet</p>
+              </div>
+            )}
+
+            {labels.map(label => (
+              editing?.label?._id === label._id ? (
+                <div key={label._id}>{renderForm()}</div>
+              ) : (
+                <div key={label._id} className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3">
+                  <LabelChip label={label} size="md" className="min-w-0" />
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => startEditing(label)}
+                      disabled={isSaving}
+                      className="p-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+                      title="Edit label"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(label)}
+                      disabled={isSaving}
+                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+                      title="Delete label"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )
+            ))}
+
+            {editing && !editing.label ? (
+              renderForm()
+            ) : labels.length < MAX_BOARD_LABELS ? (
+              <button
+                onClick={() => startEditing(null)}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2.5 border border-dashed border-gray-300 dark:border-gray-700 text-sm font-medium text-[#17b6b2] rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                New Label
+              </button>
+            ) : (
+              <p className="text-xs text-center text-gray-500 dark:text-gray-400">A board can have at most {MAX_BOARD_LABELS} labels</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </Portal>
+  );
+};
+
+export default BoardLabelsModal;
@@ -0,0 +1,35 @@
+'use client';
+
+import { X } from 'lucide-react';
+import { CardLabel } from '@/services/trelloBoardsApi';
+import { DEFAULT_LABEL_COLOR } from './labelUtils';
+
+interface LabelChipProps {
+  label: CardLabel;
+  size?: 'sm' | 'md';
+  onRemove?: () => void;
+  className?: string;
+}
+
+// A label in its color, as shown on card faces, tables and pickers
+const LabelChip: React.FC<LabelChipProps> = ({ label, size = 'sm', onRemove, className = '' }) => (
+  <span
+    className={`inline-flex items-center gap-1 max-w-full rounded-full text-white font-medium ${size === 'sm' ? 'px-2 py-0.5 text-xs' : 'px-2.5 py-1 text-sm'} ${className}`}
+    style={{ backgroundColor: label.color || DEFAULT_LABEL_COLOR }}
+    title={label.name}
+  >
+    <span className="truncate">{label.name}</span>
+    {onRemove && (
+      <button
+        type="button"
+        onClick={onRemove}
+        className="flex-shrink-0 opacity-80 hover:opacity-100"
+        title={`Remove ${label.name}`}
+      >
+        <X className="w-3 h-3" />
+      </button>
+    )}
+  </span>
+);
+
+export default LabelChip;
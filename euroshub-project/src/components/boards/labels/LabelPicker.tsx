@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Plus } from 'lucide-react';
+import { BoardLabel, CardLabel } from '@/services/trelloBoardsApi';
+import LabelChip from './LabelChip';
+import { DEFAULT_LABEL_COLOR, hasLabel, toCardLabel } from './labelUtils';
+
+interface LabelPickerProps {
+  boardLabels: BoardLabel[];
+  selected: CardLabel[];
+  onChange: (labels: CardLabel[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Pick a card's labels from the board's palette. A label typed in here that
+ * the palette does not have yet is added to the palette when the card is saved.
+ */
+const LabelPicker: React.FC<LabelPickerProps> = ({ boardLabels, selected, onChange, disabled = false }) => {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(DEFAULT_LABEL_COLOR);
+
+  const toggle = (label: BoardLabel) => {
+    onChange(hasLabel(selected, label.name)
+      ? selected.filter(item => item.name.toLowerCase() !== label.name.toLowerCase())
+      : [...selected, toCardLabel(label)]);
+  };
+
+  const addNew = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (!hasLabel(selected, name)) {
+      const existing = boardLabels.find(label => label.name.toLowerCase() === name.toLowerCase());
+      onChange([...selected, existing ? toCardLabel(existing) : { name, color: newColor }]);
+    }
+    setNewName('');
+  };
+
+  // Labels on the card that are not on the palette (yet)
+  const extraLabels = selected.filter(label => !hasLabel(boardLabels, label.name));
+
+  return (
+    <div className="space-y-2">
+      {(boardLabels.length > 0 || extraLabels.length > 0) && (
+        <div className="flex flex-wrap gap-1.5">
+          {boardLabels.map(label => {
+            const isSelected = hasLabel(selected, label.name);
+            return (
+              <button
+                key={label._id}
+                type="button"
+                onClick={() => toggle(label)}
+                disabled={disabled}
+                className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-white transition-opacity disabled:cursor-not-allowed ${isSelected ? 'ring-2 ring-offset-1 ring-gray-400 dark:ring-offset-gray-800' : 'opacity-50 hover:opacity-80'}`}
+                style={{ backgroundColor: label.color }}
+              >
+                {isSelected && <Check className="w-3 h-3" />}
+                {label.name}
+              </button>
+            );
+          })}
+          {extraLabels.map(label => (
+            <LabelChip
+              key={label.name}
+              label={label}
+              onRemove={disabled ? undefined : () => onChange(selected.filter(item => item !== label))}
+            />
+          ))}
+        </div>
+      )}
+
+      {!disabled && (
+        <div className="flex items-center gap-2">
+          <input
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            className="w-9 h-8 rounded-md border border-gray-300 dark:border-gray-600 cursor-pointer flex-shrink-0"
+            title="New label color"
+          />
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addNew();
+              }
+            }}
+            placeholder="New label..."
+            maxLength={50}
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <button
+            type="button"
+            onClick={addNew}
+            disabled={!newName.trim()}
+            className="p-1.5 text-[#17b6b2] hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-40"
+            title="Add label"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LabelPicker;
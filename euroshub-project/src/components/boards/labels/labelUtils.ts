@@ -0,0 +1,57 @@
+import { BoardLabel, BoardLabelChange, CardLabel } from '@/services/trelloBoardsApi';
+
+// Keep in sync with MAX_LABELS_PER_BOARD and DEFAULT_LABEL_COLOR in server/services/labelService.js
+export const MAX_BOARD_LABELS = 50;
+export const DEFAULT_LABEL_COLOR = '#6B7280';
+
+// Quick picks offered when creating or recoloring a label
+export const LABEL_COLOR_PRESETS = [
+  '#EF4444',
+  '#F97316',
+  '#EAB308',
+  '#22C55E',
+  '#14B8A6',
+  '#3B82F6',
+  '#8B5CF6',
+  '#EC4899',
+  '#6B7280'
+];
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export const hasLabel = (labels: CardLabel[] | undefined, name: string) =>
+  (labels || []).some(label => sameName(label.name, name));
+
+export const findBoardLabel = (boardLabels: BoardLabel[], name: string) =>
+  boardLabels.find(label => sameName(label.name, name)) || null;
+
+export const toCardLabel = (label: CardLabel): CardLabel => ({ name: label.name, color: label.color });
+
+/**
+ * Carry a palette change over to a card's labels, the same way the server
+ * updates the cards it has stored. Returns the card's labels unchanged when
+ * the change does not touch them.
+ */
+export const applyLabelChange = (labels: CardLabel[], change: BoardLabelChange): CardLabel[] => {
+  if (change.type === 'deleted') {
+    return hasLabel(labels, change.name) ? labels.filter(label => !sameName(label.name, change.name)) : labels;
+  }
+  return hasLabel(labels, change.from)
+    ? labels.map(label => (sameName(label.name, change.from) ? toCardLabel(change.label) : label))
+    : labels;
+};
+
+// Apply a palette change to every loaded card, keyed by list id
+export const applyLabelChangeToCards = <T extends { labels: CardLabel[] }>(
+  cardsByList: Record<string, T[]>,
+  change: BoardLabelChange
+): Record<string, T[]> => {
+  const next: Record<string, T[]> = {};
+  for (const listId in cardsByList) {
+    next[listId] = cardsByList[listId].map(card => {
+      const labels = applyLabelChange(card.labels || [], change);
+      return labels === card.labels ? card : { ...card, labels };
+    });
+  }
+  return next;
+};
@@ -0,0 +1,261 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2, Eye, ArrowRight } from 'lucide-react';
+import { AutoMoveField, AutoMovePreview, AutoMoveSettings, listsApi } from '@/services/trelloBoardsApi';
+import { ListData } from './ListContainer';
+import {
+  AUTO_MOVE_FIELDS,
+  AUTO_MOVE_OPERATORS,
+  createCondition,
+  getOperatorOption,
+  validateAutoMove
+} from './autoMoveRules';
+
+interface AutoMoveRuleBuilderProps {
+  listId: string;
+  value: AutoMoveSettings;
+  onChange: (value: AutoMoveSettings) => void;
+  boardLists: ListData[];
+  boardMembers: Array<{ _id: string; firstName: string; lastName: string }>;
+  disabled?: boolean;
+}
+
+const inputClass = 'p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const AutoMoveRuleBuilder: React.FC<AutoMoveRuleBuilderProps> = ({
+  listId,
+  value,
+  onChange,
+  boardLists,
+  boardMembers,
+  disabled = false
+}) => {
+  const [preview, setPreview] = useState<AutoMovePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const targetLists = boardLists.filter(list => list._id !== listId);
+
+  const update = (changes: Partial<AutoMoveSettings>) => {
+    setPreview(null);
+    setPreviewError(null);
+    onChange({ ...value, ...changes });
+  };
+
+  const updateCondition = (index: number, changes: Partial<AutoMoveSettings['conditions'][number]>) => {
+    update({
+      conditions: value.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition))
+    });
+  };
+
+  const handleFieldChange = (index: number, field: AutoMoveField) => {
+    update({
+      conditions: value.conditions.map((condition, i) => (i === index ? createCondition(field) : condition))
+    });
+  };
+
+  const handlePreview = async () => {
+    const validationError = validateAutoMove(value, listId);
+    if (validationError) {
+      setPreviewError(validationError);
+      return;
+    }
+
+    setIsPreviewing(true);
+    setPreviewError(null);
+    try {
+      setPreview(await listsApi.previewAutoMove(listId, value));
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : 'Failed to preview rule');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          id="autoMoveEnabled"
+          checked={value.enabled}
+          onChange={(e) => update({
+            enabled: e.target.checked,
+            conditions: e.target.checked && value.conditions.length === 0 ? [createCondition()] : value.conditions
+          })}
+          className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
+          disabled={disabled}
+        />
+        <label htmlFor="autoMoveEnabled" className="text-sm text-gray-700 dark:text-gray-300">
+          Automatically move cards out of this list
+        </label>
+      </div>
+
+      {value.enabled && (
+        <div className="space-y-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-900/40 border border-gray-200 dark:border-gray-700">
+          {/* Target and match mode */}
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span>Move to</span>
+            <select
+              value={value.targetList || ''}
+              onChange={(e) => update({ targetList: e.target.value || null })}
+              className={inputClass}
+              disabled={disabled}
+            >
+              <option value="">Select a list...</option>
+              {targetLists.map(list => (
+                <option key={list._id} value={list._id}>{list.name}</option>
+              ))}
+            </select>
+            <span>when</span>
+            <select
+              value={value.match || 'all'}
+              onChange={(e) => update({ match: e.target.value as 'all' | 'any' })}
+              className={inputClass}
+              disabled={disabled}
+            >
+              <option value="all">all</option>
+              <option value="any">any</option>
+            </select>
+            <span>of these match:</span>
+          </div>
+
+          {/* Conditions */}
+          <div className="space-y-2">
+            {value.conditions.map((condition, index) => {
+              const operator = getOperatorOption(condition);
+
+              return (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={condition.field}
+                    onChange={(e) => handleFieldChange(index, e.target.value as AutoMoveField)}
+                    className={inputClass}
+                    disabled={disabled}
+                  >
+                    {AUTO_MOVE_FIELDS.map(field => (
+                      <option key={field.id} value={field.id}>{field.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={operator.id}
+                    onChange={(e) => {
+                      const next = AUTO_MOVE_OPERATORS[condition.field].find(option => option.id === e.target.value);
+                      updateCondition(index, {
+                        operator: next?.id || operator.id,
+                        value: next && next.valueKind === operator.valueKind ? condition.value : null
+                      });
+                    }}
+                    className={inputClass}
+                    disabled={disabled}
+                  >
+                    {AUTO_MOVE_OPERATORS[condition.field].map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+
+                  {operator.valueKind === 'member' && (
+                    <select
+                      value={String(condition.value || '')}
+                      onChange={(e) => updateCondition(index, { value: e.target.value || null })}
+                      className={inputClass}
+                      disabled={disabled}
+                    >
+                      <option value="">Select a member...</option>
+                      {boardMembers.map(member => (
+                        <option key={member._id} value={member._id}>
+                          {member.firstName} {member.lastName}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {operator.valueKind === 'label' && (
+                    <input
+                      type="text"
+                      value={String(condition.value || '')}
+                      onChange={(e) => updateCondition(index, { value: e.target.value })}
+                      placeholder="Label name"
+                      maxLength={50}
+                      className={`${inputClass} w-36`}
+                      disabled={disabled}
+                    />
+                  )}
+                  {operator.valueKind === 'days' && (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max="365"
+                        value={condition.value ?? ''}
+                        onChange={(e) => updateCondition(index, { value: e.target.value === '' ? null : parseInt(e.target.value) })}
+                        className={`${inputClass} w-20`}
+                        disabled={disabled}
+                      />
+                      <span className="text-sm text-gray-600 dark:text-gray-400">days</span>
+                    </div>
+                  )}
+
+                  <button
+                    onClick={() => update({ conditions: value.conditions.filter((_, i) => i !== index) })}
+                    className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    title="Remove condition"
+                    disabled={disabled}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => update({ conditions: [...value.conditions, createCondition()] })}
+              className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+              disabled={disabled}
+            >
+              <Plus className="w-4 h-4" />
+              Add condition
+            </button>
+            <button
+              onClick={handlePreview}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+              disabled={disabled || isPreviewing}
+            >
+              <Eye className="w-4 h-4" />
+              {isPreviewing ? 'Checking...' : 'Preview'}
+            </button>
+          </div>
+
+          {previewError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{previewError}</p>
+          )}
+
+          {preview && (
+            <div className="pt-3 border-t border-gray-200 dark:border-gray-700">
+              <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                {preview.cards.length === 0
+                  ? `None of the ${preview.totalCards} cards in this list would move right now`
+                  : `${preview.cards.length} of ${preview.totalCards} cards would move right now`}
+              </p>
+              {preview.cards.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto space-y-1">
+                  {preview.cards.map(card => (
+                    <li key={card._id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <span className="truncate">{card.title}</span>
+                      <ArrowRight className="w-3 h-3 flex-shrink-0 text-gray-400" />
+                      <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">{card.targetListName}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AutoMoveRuleBuilder;
@@ -14,12 +14,16 @@ import {
   GripVertical,
   ChevronDown,
   ChevronRight,
-  Filter
+  Filter,
+  AlertTriangle,
+  Lock
 } from 'lucide-react';
 import { useDroppable } from '@dnd-kit/core';
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import SortableCard from '../cards/SortableCard';
 import ListSettingsModal from './ListSettingsModal';
+import { AutoMoveSettings, CardCustomFieldValue, CardLabel, CustomFieldDefinition } from '@/services/trelloBoardsApi';
+import LabelChip from '../labels/LabelChip';
 
 export interface ListData {
   _id: string;
@@ -32,12 +36,9 @@ export interface ListData {
     wipLimit?: {
       enabled: boolean;
       limit: number;
+      mode?: 'warn' | 'block';
     };
-    autoMove?: {
-      enabled: boolean;
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      conditions: any[];
-    };
+    autoMove?: AutoMoveSettings;
     cardLimit?: number;
   };
   cardsCount?: number;
@@ -64,7 +65,7 @@ export interface Card {
     role: string;
     assignedAt?: Date;
   }>;
-  labels: string[];
+  labels: CardLabel[];
   dueDate?: Date;
   startDate?: Date;
   completedAt?: Date;
@@ -81,6 +82,18 @@ export interface Card {
   comments?: any[];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   attachments?: any[];
+  assignedTo?: Array<string | { _id: string }>;
+  workflowEnabled?: boolean;
+  workflowStages?: Array<{
+    _id?: string;
+    order: number;
+    name?: string;
+    status: 'pending' | 'active' | 'completed';
+  }>;
+  currentStageIndex?: number;
+  customFields?: CardCustomFieldValue[];
+  // Clients who see the card in the client portal
+  sharedWithClients?: string[];
   createdAt: Date;
   createdBy?: string | { _id: string; firstName: string; lastName: string; avatar?: string };
 }
@@ -94,8 +107,19 @@ export interface ListContainerProps {
   onDeleteList: (listId: string) => void;
   onArchiveList: (listId: string) => void;
   onCardClick: (cardId: string) => void;
+  // Managing and deleting the list itself
   canEdit: boolean;
   canDelete: boolean;
+  canAddCards?: boolean;
+  canMoveCards?: boolean;
+  // Other lists and members of the board, for the auto-move rule builder
+  boardLists?: ListData[];
+  boardMembers?: Array<{ _id: string; firstName: string; lastName: string }>;
+  // The board's custom fields; those marked showOnCard appear as card badges
+  customFields?: CustomFieldDefinition[];
+  // Board filter bar: cards that do not match are dimmed or hidden
+  matchesFilter?: (card: Card) => boolean;
+  filterMode?: 'dim' | 'hide';
   dragHandleProps?: {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     attributes: any;
@@ -178,12 +202,7 @@ const CardPreview: React.FC<{
       {card.labels.length > 0 && (
         <div className="flex flex-wrap gap-1 mb-2">
           {card.labels.slice(0, 3).map((label, index) => (
-            <span
-              key={index}
-              className="px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-xs rounded"
-            >
-              {label}
-            </span>
+            <LabelChip key={index} label={label} />
           ))}
           {card.labels.length > 3 && (
             <span className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 text-xs rounded">
@@ -254,6 +273,13 @@ const ListContainer: React.FC<ListContainerProps> = ({
   onCardClick,
   canEdit,
   canDelete,
+  canAddCards = true,
+  canMoveCards = true,
+  boardLists = [],
+  boardMembers = [],
+  customFields = [],
+  matchesFilter,
+  filterMode = 'dim',
   dragHandleProps,
 }) => {
   const { setNodeRef } = useDroppable({
@@ -393,9 +419,11 @@ const ListContainer: React.FC<ListContainerProps> = ({
 
   const { height, topMargin, bottomMargin, displayName } = getCollapsedDimensions();
 
-  // Check if WIP limit is reached
-  const isWIPLimitReached = list.settings.wipLimit?.enabled &&
-    cards.length >= (list.settings.wipLimit?.limit || 0);
+  // Check the WIP limit. Lists can go over it in warn mode or through an admin override.
+  const wipLimit = list.settings.wipLimit;
+  const isWIPLimitReached = !!wipLimit?.enabled && cards.length >= wipLimit.limit;
+  const isOverWIPLimit = !!wipLimit?.enabled && cards.length > wipLimit.limit;
+  const isWIPLimitBlocking = isWIPLimitReached && wipLimit?.mode === 'block';
 
   // Filter and sort cards
   const getFilteredCards = () => {
@@ -415,6 +443,10 @@ const ListContainer: React.FC<ListContainerProps> = ({
         break;
     }
 
+    if (matchesFilter && filterMode === 'hide') {
+      return sortedCards.filter(matchesFilter);
+    }
+
     return sortedCards;
   };
 
@@ -495,7 +527,7 @@ const ListContainer: React.FC<ListContainerProps> = ({
         )}
 
         {/* Drag Handle */}
-        {dragHandleProps && !isCollapsed && (
+        {dragHandleProps && canEdit && !isCollapsed && (
           <div
             className="cursor-grab active:cursor-grabbing p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors mr-2"
             {...dragHandleProps.attributes}
@@ -527,13 +559,22 @@ const ListContainer: React.FC<ListContainerProps> = ({
                 title={canEdit ? 'Click to edit list name' : ''}
               >
                 {list.name}
-                {list.settings.wipLimit?.enabled && (
-                  <span className={`ml-2 px-2 py-0.5 text-xs rounded ${
-                    isWIPLimitReached
-                      ? 'bg-red-100 dark:bg-red-900 text-red-600 dark:text-red-300'
-                      : 'bg-orange-100 dark:bg-orange-900 text-orange-600 dark:text-orange-300'
-                  }`}>
-                    {cards.length}/{list.settings.wipLimit.limit}
+                {wipLimit?.enabled && (
+                  <span
+                    className={`ml-2 px-2 py-0.5 text-xs rounded inline-flex items-center gap-1 align-middle ${
+                      isOverWIPLimit
+                        ? 'bg-red-600 text-white'
+                        : isWIPLimitReached
+                          ? 'bg-red-100 dark:bg-red-900 text-red-600 dark:text-red-300'
+                          : 'bg-orange-100 dark:bg-orange-900 text-orange-600 dark:text-orange-300'
+                    }`}
+                    title={isOverWIPLimit
+                      ? `Over WIP limit by ${cards.length - wipLimit.limit}`
+                      : `WIP limit: ${wipLimit.limit} cards${wipLimit.mode === 'block' ? ' (blocking)' : ''}`}
+                  >
+                    {isOverWIPLimit && <AlertTriangle className="w-3 h-3" />}
+                    {!isOverWIPLimit && wipLimit.mode === 'block' && <Lock className="w-3 h-3" />}
+                    {cards.length}/{wipLimit.limit}
                   </span>
                 )}
               </h3>
@@ -623,10 +664,20 @@ const ListContainer: React.FC<ListContainerProps> = ({
               key={card._id}
               card={card}
               onClick={onCardClick}
+              customFields={customFields}
+              dimmed={!!matchesFilter && filterMode === 'dim' && !matchesFilter(card)}
+              disabled={!canMoveCards}
             />
           ))}
         </SortableContext>
 
+        {/* Every card hidden by the board filter */}
+        {cards.length > 0 && filteredCards.length === 0 && (
+          <div className="flex items-center justify-center h-20 text-gray-400 dark:text-gray-500 text-sm">
+            No matching cards
+          </div>
+        )}
+
         {/* Empty state for dropping */}
         {cards.length === 0 && (
           <div className="flex items-center justify-center h-20 border-2 border-dashed border-gray-200 dark:border-gray-600 rounded-lg text-gray-400 dark:text-gray-500 text-sm">
@@ -637,20 +688,20 @@ const ListContainer: React.FC<ListContainerProps> = ({
       )}
 
       {/* Add Card Button - Hide when collapsed */}
-      {!isCollapsed && (!showCreateForm ? (
+      {!isCollapsed && canAddCards && (!showCreateForm ? (
         <div className="relative">
           <button
-            onClick={() => !isWIPLimitReached && setShowCreateForm(true)}
-            disabled={isWIPLimitReached}
+            onClick={() => !isWIPLimitBlocking && setShowCreateForm(true)}
+            disabled={isWIPLimitBlocking}
             className={`w-full py-2 px-3 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm border border-dashed ${
-              isWIPLimitReached
+              isWIPLimitBlocking
                 ? 'bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-500 border-gray-200 dark:border-gray-700 cursor-not-allowed'
                 : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
             }`}
-            title={isWIPLimitReached ? `WIP limit reached (${list.settings.wipLimit?.limit} cards maximum)` : 'Add a card'}
+            title={isWIPLimitReached ? `WIP limit reached (${wipLimit?.limit} cards maximum)` : 'Add a card'}
           >
             <Plus className="w-4 h-4" />
-            {isWIPLimitReached ? 'WIP Limit Reached' : 'Add a card'}
+            {isWIPLimitBlocking ? 'WIP Limit Reached' : 'Add a card'}
           </button>
         </div>
       ) : (
@@ -725,16 +776,18 @@ const ListContainer: React.FC<ListContainerProps> = ({
           }}
           onClick={(e) => e.stopPropagation()}
         >
-          <button
-            onClick={() => {
-              setShowCreateForm(true);
-              setShowMenu(false);
-            }}
-            className="w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center gap-2 text-sm"
-          >
-            <Plus className="w-4 h-4" />
-            Add Card
-          </button>
+          {canAddCards && (
+            <button
+              onClick={() => {
+                setShowCreateForm(true);
+                setShowMenu(false);
+              }}
+              className="w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center gap-2 text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              Add Card
+            </button>
+          )}
           <button
             onClick={() => {
               handleTitleEdit();
@@ -797,6 +850,8 @@ const ListContainer: React.FC<ListContainerProps> = ({
         isOpen={showSettingsModal}
         onClose={() => setShowSettingsModal(false)}
         onUpdateList={onUpdateList}
+        boardLists={boardLists}
+        boardMembers={boardMembers}
       />
       </div>
     </>
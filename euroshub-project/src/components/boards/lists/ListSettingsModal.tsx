@@ -3,12 +3,16 @@
 import { useState, useEffect } from 'react';
 import { X, Settings, Save, AlertCircle } from 'lucide-react';
 import { ListData } from './ListContainer';
+import AutoMoveRuleBuilder from './AutoMoveRuleBuilder';
+import { normalizeAutoMove, validateAutoMove } from './autoMoveRules';
 
 interface ListSettingsModalProps {
   list: ListData;
   isOpen: boolean;
   onClose: () => void;
   onUpdateList: (listId: string, updates: Partial<ListData>) => Promise<void>;
+  boardLists?: ListData[];
+  boardMembers?: Array<{ _id: string; firstName: string; lastName: string }>;
 }
 
 const ListSettingsModal: React.FC<ListSettingsModalProps> = ({
@@ -16,12 +20,15 @@ const ListSettingsModal: React.FC<ListSettingsModalProps> = ({
   isOpen,
   onClose,
   onUpdateList,
+  boardLists = [],
+  boardMembers = [],
 }) => {
   const [editData, setEditData] = useState<Partial<ListData>>({
     name: list.name,
     color: list.color || '#6B7280',
     settings: {
       ...list.settings,
+      autoMove: normalizeAutoMove(list.settings?.autoMove),
     }
   });
   const [isLoading, setIsLoading] = useState(false);
@@ -34,6 +41,7 @@ const ListSettingsModal: React.FC<ListSettingsModalProps> = ({
       color: list.color || '#6B7280',
       settings: {
         ...list.settings,
+        autoMove: normalizeAutoMove(list.settings?.autoMove),
       }
     });
     setError(null);
@@ -47,6 +55,13 @@ const ListSettingsModal: React.FC<ListSettingsModalProps> = ({
       return;
     }
 
+    const autoMove = editData.settings?.autoMove;
+    const autoMoveError = autoMove?.enabled ? validateAutoMove(autoMove, list._id) : null;
+    if (autoMoveError) {
+      setError(`Auto-move: ${autoMoveError}`);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -71,6 +86,7 @@ const ListSettingsModal: React.FC<ListSettingsModalProps> = ({
       color: list.color || '#6B7280',
       settings: {
         ...list.settings,
+        autoMove: normalizeAutoMove(list.settings?.autoMove),
       }
     });
     setError(null);
@@ -92,7 +108,7 @@ const ListSettingsModal: React.FC<ListSettingsModalProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md mx-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
           <div className="flex items-center gap-2">
@@ -111,7 +127,7 @@ const ListSettingsModal: React.FC<ListSettingsModalProps> = ({
         </div>
 
         {/* Content */}
-        <div className="p-4 space-y-4">
+        <div className="p-4 space-y-4 overflow-y-auto">
           {/* Error Message */}
           {error && (
             <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
@@ -235,10 +251,60 @@ const ListSettingsModal: React.FC<ListSettingsModalProps> = ({
                     className="w-24 p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
                     disabled={isLoading}
                   />
+
+                  <label className="block text-xs text-gray-600 dark:text-gray-400 mt-3 mb-1">
+                    When the limit is reached
+                  </label>
+                  <select
+                    value={editData.settings?.wipLimit?.mode || 'warn'}
+                    onChange={(e) => setEditData(prev => ({
+                      ...prev,
+                      settings: {
+                        ...prev.settings,
+                        wipLimit: {
+                          ...prev.settings?.wipLimit,
+                          enabled: prev.settings?.wipLimit?.enabled || false,
+                          limit: prev.settings?.wipLimit?.limit || 5,
+                          mode: e.target.value as 'warn' | 'block'
+                        }
+                      }
+                    }))}
+                    className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                    disabled={isLoading}
+                  >
+                    <option value="warn">Warn, but allow more cards</option>
+                    <option value="block">Block cards from being added or moved in</option>
+                  </select>
+                  {editData.settings?.wipLimit?.mode === 'block' && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Board admins can still override the limit by giving a reason.
+                    </p>
+                  )}
                 </div>
               )}
             </div>
           </div>
+
+          {/* Auto-move Rule */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Auto-move Rule
+            </label>
+            <AutoMoveRuleBuilder
+              listId={list._id}
+              value={editData.settings?.autoMove || normalizeAutoMove()}
+              onChange={(autoMove) => setEditData(prev => ({
+                ...prev,
+                settings: {
+                  ...prev.settings,
+                  autoMove
+                }
+              }))}
+              boardLists={boardLists}
+              boardMembers={boardMembers}
+              disabled={isLoading}
+            />
+          </div>
         </div>
 
         {/* Actions */}
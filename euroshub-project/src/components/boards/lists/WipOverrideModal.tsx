@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import Portal from '../../shared/Portal';
+
+interface WipOverrideModalProps {
+  listName: string;
+  limit: number;
+  cardTitle: string;
+  onConfirm: (reason: string) => void;
+  onCancel: () => void;
+}
+
+// Asks a board admin why a card should go past a list's blocking WIP limit
+const WipOverrideModal: React.FC<WipOverrideModalProps> = ({ listName, limit, cardTitle, onConfirm, onCancel }) => {
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reason.trim()) {
+      onConfirm(reason.trim());
+    }
+  };
+
+  return (
+    <Portal>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow-2xl w-full max-w-md overflow-hidden border border-gray-200 dark:border-gray-800 animate-in slide-in-from-bottom-4 duration-300">
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div className="flex items-start gap-3">
+              <div className="p-2 rounded-full bg-amber-100 dark:bg-amber-900/30">
+                <AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">WIP limit reached</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  &quot;{listName}&quot; already holds its limit of {limit} cards. As a board admin you can still
+                  move &quot;{cardTitle}&quot; in. The reason is recorded in the card&apos;s activity.
+                </p>
+              </div>
+            </div>
+
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why does this card need to go in now?"
+              maxLength={500}
+              rows={3}
+              autoFocus
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#17b6b2] focus:border-transparent resize-none"
+            />
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="flex-1 px-4 py-2 text-sm border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!reason.trim()}
+                className="flex-1 px-4 py-2 text-sm bg-amber-600 text-white font-medium rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Override Limit
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </Portal>
+  );
+};
+
+export default WipOverrideModal;
@@ -0,0 +1,91 @@
+import { AutoMoveCondition, AutoMoveField, AutoMoveOperator, AutoMoveSettings } from '@/services/trelloBoardsApi';
+
+type ValueKind = 'none' | 'member' | 'label' | 'days';
+
+export const AUTO_MOVE_FIELDS: Array<{ id: AutoMoveField; label: string }> = [
+  { id: 'dueDate', label: 'Due date' },
+  { id: 'assignee', label: 'Assignee' },
+  { id: 'labels', label: 'Labels' },
+  { id: 'checklist', label: 'Tasks' }
+];
+
+// Operators offered per field; mirrors the server-side validation
+export const AUTO_MOVE_OPERATORS: Record<AutoMoveField, Array<{ id: AutoMoveOperator; label: string; valueKind: ValueKind }>> = {
+  dueDate: [
+    { id: 'overdue', label: 'is overdue', valueKind: 'none' },
+    { id: 'dueWithin', label: 'is due within', valueKind: 'days' },
+    { id: 'isEmpty', label: 'is not set', valueKind: 'none' }
+  ],
+  assignee: [
+    { id: 'contains', label: 'includes', valueKind: 'member' },
+    { id: 'notContains', label: 'does not include', valueKind: 'member' },
+    { id: 'isEmpty', label: 'is nobody', valueKind: 'none' }
+  ],
+  labels: [
+    { id: 'contains', label: 'include', valueKind: 'label' },
+    { id: 'notContains', label: 'do not include', valueKind: 'label' },
+    { id: 'isEmpty', label: 'are empty', valueKind: 'none' }
+  ],
+  checklist: [
+    { id: 'completed', label: 'are all completed', valueKind: 'none' },
+    { id: 'notCompleted', label: 'are not all completed', valueKind: 'none' }
+  ]
+};
+
+export const getOperatorOption = (condition: AutoMoveCondition) => {
+  const options = AUTO_MOVE_OPERATORS[condition.field] || [];
+  // Older rules used "equals" for assignees, which behaves like "includes"
+  const operator = condition.field === 'assignee' && condition.operator === 'equals' ? 'contains' : condition.operator;
+  return options.find(option => option.id === operator) || options[0];
+};
+
+export const createCondition = (field: AutoMoveField = 'dueDate'): AutoMoveCondition => ({
+  field,
+  operator: AUTO_MOVE_OPERATORS[field][0].id,
+  value: null
+});
+
+/**
+ * Rules saved before the builder existed kept a target list on each condition.
+ * Lift the first one to the rule so the builder can edit it.
+ */
+export const normalizeAutoMove = (autoMove?: AutoMoveSettings): AutoMoveSettings => {
+  if (!autoMove) {
+    return { enabled: false, match: 'all', targetList: null, conditions: [] };
+  }
+
+  const legacyTarget = autoMove.conditions.find(condition => condition.targetList)?.targetList;
+  return {
+    enabled: autoMove.enabled,
+    match: autoMove.targetList || !legacyTarget ? autoMove.match || 'all' : 'any',
+    targetList: autoMove.targetList || legacyTarget || null,
+    conditions: autoMove.conditions.map(condition => {
+      const option = getOperatorOption(condition);
+      return {
+        field: condition.field,
+        operator: option.id,
+        value: option.valueKind === 'none' ? null : condition.value ?? null
+      };
+    })
+  };
+};
+
+// Client-side check so obvious mistakes are caught before saving
+export const validateAutoMove = (autoMove: AutoMoveSettings, listId: string): string | null => {
+  if (autoMove.conditions.length === 0) return 'Add at least one condition';
+  if (!autoMove.targetList) return 'Choose a list to move matching cards to';
+  if (autoMove.targetList === listId) return 'Cards cannot be moved to the list they are already in';
+
+  for (const condition of autoMove.conditions) {
+    const option = getOperatorOption(condition);
+    if (option.valueKind === 'none') continue;
+    if (condition.value === null || condition.value === undefined || String(condition.value).trim() === '') {
+      return `Fill in a value for every ${option.valueKind === 'days' ? 'due date' : option.valueKind} condition`;
+    }
+    if (option.valueKind === 'days' && !(Number(condition.value) >= 0)) {
+      return 'Days must be zero or more';
+    }
+  }
+
+  return null;
+};
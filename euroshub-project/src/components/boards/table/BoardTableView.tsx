@@ -0,0 +1,572 @@
+'use client';
+
+import { useState, useMemo, Fragment } from 'react';
+import { ArrowUp, ArrowDown, ChevronsUpDown, Archive, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { Card, ListData } from '../lists/ListContainer';
+import { getCurrentStageName } from '../hooks/useBoardFilters';
+import { BoardLabel, CardLabel, CustomFieldDefinition } from '@/services/trelloBoardsApi';
+import { formatFieldValue, getCardFieldValue, getFieldOption, getFieldSortValue } from '../customFields/customFieldUtils';
+import LabelChip from '../labels/LabelChip';
+
+// Custom field columns sort by `field:<fieldId>`
+type SortKey = 'list' | 'title' | 'members' | 'labels' | 'dueDate' | 'tasks' | 'stage' | 'createdAt' | `field:${string}`;
+type GroupBy = 'none' | 'list' | 'stage' | 'due';
+
+interface BoardTableViewProps {
+  lists: ListData[];
+  cards: Card[];
+  boardLabels?: BoardLabel[];
+  customFields?: CustomFieldDefinition[];
+  canEdit: boolean;
+  onOpenCard: (cardId: string) => void;
+  onUpdateCard: (cardId: string, updates: Partial<Card>) => Promise<void>;
+  onMoveCards: (cardIds: string[], toListId: string) => Promise<void>;
+  onBulkUpdate: (cardIds: string[], updates: { dueDate: Date }) => Promise<void>;
+  onApplyLabel: (cardIds: string[], label: CardLabel) => Promise<void>;
+  onArchiveCards: (cardIds: string[]) => Promise<void>;
+}
+
+const COLUMNS: Array<{ key: SortKey; label: string; className?: string }> = [
+  { key: 'title', label: 'Title', className: 'min-w-[16rem]' },
+  { key: 'list', label: 'List', className: 'min-w-[9rem]' },
+  { key: 'members', label: 'Members' },
+  { key: 'labels', label: 'Labels' },
+  { key: 'dueDate', label: 'Due Date' },
+  { key: 'tasks', label: 'Tasks' },
+  { key: 'stage', label: 'Stage' },
+  { key: 'createdAt', label: 'Created' }
+];
+
+const GROUP_OPTIONS: Array<{ id: GroupBy; label: string }> = [
+  { id: 'none', label: 'No grouping' },
+  { id: 'list', label: 'List' },
+  { id: 'stage', label: 'Workflow stage' },
+  { id: 'due', label: 'Due date' }
+];
+
+const DUE_GROUPS = ['Overdue', 'Due this week', 'Due later', 'No due date'];
+
+const getTaskProgress = (card: Card) => {
+  const tasks = card.tasks || [];
+  return { done: tasks.filter(task => task.completed).length, total: tasks.length };
+};
+
+const getDueGroup = (card: Card, now: Date) => {
+  if (!card.dueDate) return 'No due date';
+  const dueDate = new Date(card.dueDate);
+  if (dueDate < now && card.status !== 'completed') return 'Overdue';
+  const weekAhead = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+  return dueDate <= weekAhead ? 'Due this week' : 'Due later';
+};
+
+// YYYY-MM-DD in local time, for date inputs
+const toDateInputValue = (value?: Date | string) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Date picked in an input, keeping the time of day of the current due date
+const fromDateInputValue = (value: string, current?: Date | string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  const date = current ? new Date(current) : new Date(year, month - 1, day);
+  date.setFullYear(year, month - 1, day);
+  return date;
+};
+
+const formatDate = (value?: Date | string) =>
+  value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '';
+
+interface TitleCellProps {
+  card: Card;
+  canEdit: boolean;
+  onOpen: () => void;
+  onSave: (title: string) => Promise<void>;
+}
+
+const TitleCell: React.FC<TitleCellProps> = ({ card, canEdit, onOpen, onSave }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [value, setValue] = useState(card.title);
+
+  const save = async () => {
+    setIsEditing(false);
+    const title = value.trim();
+    if (title && title !== card.title) {
+      await onSave(title);
+    } else {
+      setValue(card.title);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <input
+        type="text"
+        value={value}
+        autoFocus
+        maxLength={200}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+          if (e.key === 'Escape') {
+            setValue(card.title);
+            setIsEditing(false);
+          }
+        }}
+        className="w-full px-2 py-1 text-sm border border-[#17b6b2] rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30"
+      />
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 group">
+      <button
+        onClick={onOpen}
+        className="text-left text-sm font-medium text-gray-900 dark:text-white hover:text-[#17b6b2] truncate"
+      >
+        {card.title}
+      </button>
+      {canEdit && (
+        <button
+          onClick={() => {
+            setValue(card.title);
+            setIsEditing(true);
+          }}
+          className="opacity-0 group-hover:opacity-100 text-xs text-gray-400 hover:text-[#17b6b2] transition-opacity"
+        >
+          Edit
+        </button>
+      )}
+    </div>
+  );
+};
+
+const BoardTableView: React.FC<BoardTableViewProps> = ({
+  lists,
+  cards,
+  boardLabels = [],
+  customFields = [],
+  canEdit,
+  onOpenCard,
+  onUpdateCard,
+  onMoveCards,
+  onBulkUpdate,
+  onApplyLabel,
+  onArchiveCards
+}) => {
+  const [sortKey, setSortKey] = useState<SortKey>('list');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [groupBy, setGroupBy] = useState<GroupBy>('none');
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkDueDate, setBulkDueDate] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+
+  const listOrder = useMemo(() => new Map(lists.map((list, index) => [list._id, index])), [lists]);
+  const listNames = useMemo(() => new Map(lists.map(list => [list._id, list.name])), [lists]);
+
+  const sortedCards = useMemo(() => {
+    // Empty values sort after everything else when ascending
+    const getValue = (card: Card): string | number => {
+      switch (sortKey) {
+        case 'list': return (listOrder.get(card.listId) ?? 0) * 100000 + card.position;
+        case 'title': return card.title.toLowerCase();
+        case 'members': {
+          const member = card.members?.[0]?.userId;
+          return member ? `${member.firstName} ${member.lastName}`.toLowerCase() : '\uffff';
+        }
+        case 'labels': return card.labels?.[0]?.name.toLowerCase() || '\uffff';
+        case 'dueDate': return card.dueDate ? new Date(card.dueDate).getTime() : Number.MAX_SAFE_INTEGER;
+        case 'tasks': {
+          const { done, total } = getTaskProgress(card);
+          return total > 0 ? done / total : -1;
+        }
+        case 'stage': return getCurrentStageName(card)?.toLowerCase() || '\uffff';
+        case 'createdAt': return new Date(card.createdAt).getTime();
+        default: {
+          const field = customFields.find(item => `field:${item._id}` === sortKey);
+          if (!field) return 0;
+          const value = getFieldSortValue(field, getCardFieldValue(card.customFields, field._id));
+          return value ?? (field.type === 'text' ? '\uffff' : Number.MAX_SAFE_INTEGER);
+        }
+      }
+    };
+
+    const direction = sortDirection === 'asc' ? 1 : -1;
+    return [...cards].sort((a, b) => {
+      const valueA = getValue(a);
+      const valueB = getValue(b);
+      if (valueA < valueB) return -direction;
+      if (valueA > valueB) return direction;
+      return 0;
+    });
+  }, [cards, customFields, sortKey, sortDirection, listOrder]);
+
+  const groups = useMemo(() => {
+    if (groupBy === 'none') return [{ name: '', cards: sortedCards }];
+
+    const now = new Date();
+    const grouped = new Map<string, Card[]>();
+    // Keep a stable, meaningful group order
+    if (groupBy === 'list') lists.forEach(list => grouped.set(list.name, []));
+    if (groupBy === 'due') DUE_GROUPS.forEach(name => grouped.set(name, []));
+
+    sortedCards.forEach(card => {
+      const name = groupBy === 'list'
+        ? listNames.get(card.listId) || 'Unknown list'
+        : groupBy === 'stage'
+          ? getCurrentStageName(card) || 'No workflow'
+          : getDueGroup(card, now);
+      grouped.set(name, [...(grouped.get(name) || []), card]);
+    });
+
+    return Array.from(grouped.entries())
+      .filter(([, groupCards]) => groupCards.length > 0)
+      .map(([name, groupCards]) => ({ name, cards: groupCards }));
+  }, [sortedCards, groupBy, lists, listNames]);
+
+  // Selection only covers cards that are still shown (e.g. after filtering or archiving)
+  const visibleSelectedIds = sortedCards.filter(card => selectedIds.has(card._id)).map(card => card._id);
+  const allSelected = sortedCards.length > 0 && visibleSelectedIds.length === sortedCards.length;
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(prev => (prev === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortKey(key);
+      setSortDirection('asc');
+    }
+  };
+
+  const toggleSelected = (cardId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(cardId)) {
+        next.delete(cardId);
+      } else {
+        next.add(cardId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(sortedCards.map(card => card._id)));
+  };
+
+  const toggleGroup = (name: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const runBulkAction = async (action: () => Promise<void>) => {
+    setIsApplying(true);
+    try {
+      await action();
+      setSelectedIds(new Set());
+      setBulkDueDate('');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const renderSortIcon = (key: SortKey) => {
+    if (key !== sortKey) return <ChevronsUpDown className="w-3 h-3 opacity-40" />;
+    return sortDirection === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />;
+  };
+
+  const renderRow = (card: Card) => {
+    const { done, total } = getTaskProgress(card);
+    const stage = getCurrentStageName(card);
+    const isOverdue = !!card.dueDate && new Date(card.dueDate) < new Date() && card.status !== 'completed';
+    const isSelected = selectedIds.has(card._id);
+
+    return (
+      <tr
+        key={card._id}
+        className={`border-b border-gray-100 dark:border-gray-800 transition-colors ${
+          isSelected ? 'bg-[#17b6b2]/5' : 'hover:bg-gray-50 dark:hover:bg-gray-800/50'
+        }`}
+      >
+        {canEdit && (
+          <td className="px-3 py-2 w-10">
+            <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={() => toggleSelected(card._id)}
+              className="w-4 h-4 rounded border-gray-300 text-[#17b6b2] focus:ring-[#17b6b2]"
+            />
+          </td>
+        )}
+        <td className="px-3 py-2 max-w-xs">
+          <TitleCell
+            card={card}
+            canEdit={canEdit}
+            onOpen={() => onOpenCard(card._id)}
+            onSave={(title) => onUpdateCard(card._id, { title })}
+          />
+        </td>
+        <td className="px-3 py-2">
+          {canEdit ? (
+            <select
+              value={card.listId}
+              onChange={(e) => onMoveCards([card._id], e.target.value)}
+              className="w-full px-2 py-1 text-sm bg-transparent border border-transparent hover:border-gray-300 dark:hover:border-gray-700 rounded text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30"
+            >
+              {lists.map(list => (
+                <option key={list._id} value={list._id}>{list.name}</option>
+              ))}
+            </select>
+          ) : (
+            <span className="text-sm text-gray-700 dark:text-gray-300">{listNames.get(card.listId)}</span>
+          )}
+        </td>
+        <td className="px-3 py-2">
+          <div className="flex -space-x-1">
+            {(card.members || []).slice(0, 4).map((member, index) => (
+              <div
+                key={member.userId?._id || index}
+                title={`${member.userId?.firstName || ''} ${member.userId?.lastName || ''}`}
+                className="w-7 h-7 rounded-full border-2 border-white dark:border-gray-900 bg-[#17b6b2] flex items-center justify-center text-[10px] font-semibold text-white overflow-hidden"
+              >
+                {member.userId?.avatar ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={member.userId.avatar} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  `${member.userId?.firstName?.charAt(0) || ''}${member.userId?.lastName?.charAt(0) || ''}`
+                )}
+              </div>
+            ))}
+            {(card.members?.length || 0) > 4 && (
+              <div className="w-7 h-7 rounded-full border-2 border-white dark:border-gray-900 bg-gray-100 dark:bg-gray-700 flex items-center justify-center text-[10px] font-semibold text-gray-600 dark:text-gray-300">
+                +{card.members.length - 4}
+              </div>
+            )}
+          </div>
+        </td>
+        <td className="px-3 py-2">
+          <div className="flex flex-wrap gap-1">
+            {(card.labels || []).map((label, index) => (
+              <LabelChip key={index} label={label} className="whitespace-nowrap" />
+            ))}
+          </div>
+        </td>
+        <td className="px-3 py-2">
+          {canEdit ? (
+            <input
+              type="date"
+              value={toDateInputValue(card.dueDate)}
+              onChange={(e) => e.target.value && onUpdateCard(card._id, { dueDate: fromDateInputValue(e.target.value, card.dueDate) })}
+              className={`px-2 py-1 text-sm bg-transparent border border-transparent hover:border-gray-300 dark:hover:border-gray-700 rounded focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30 ${
+                isOverdue ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-700 dark:text-gray-300'
+              }`}
+            />
+          ) : (
+            <span className={`text-sm ${isOverdue ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-700 dark:text-gray-300'}`}>
+              {formatDate(card.dueDate) || '—'}
+            </span>
+          )}
+        </td>
+        <td className="px-3 py-2">
+          {total > 0 ? (
+            <div className="flex items-center gap-2 min-w-[7rem]">
+              <div className="flex-1 h-1.5 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-[#17b6b2] rounded-full" style={{ width: `${(done / total) * 100}%` }} />
+              </div>
+              <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{done}/{total}</span>
+            </div>
+          ) : (
+            <span className="text-xs text-gray-400">—</span>
+          )}
+        </td>
+        <td className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+          {stage || <span className="text-xs text-gray-400">—</span>}
+        </td>
+        <td className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+          {formatDate(card.createdAt)}
+        </td>
+        {customFields.map(field => {
+          const value = getCardFieldValue(card.customFields, field._id);
+          const option = getFieldOption(field, value);
+          const text = formatFieldValue(field, value);
+          return (
+            <td key={field._id} className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+              {option ? (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium text-white" style={{ backgroundColor: option.color }}>
+                  {option.name}
+                </span>
+              ) : text || <span className="text-xs text-gray-400">—</span>}
+            </td>
+          );
+        })}
+      </tr>
+    );
+  };
+
+  const columns: Array<{ key: SortKey; label: string; className?: string }> = [
+    ...COLUMNS,
+    ...customFields.map(field => ({ key: `field:${field._id}` as SortKey, label: field.name }))
+  ];
+  const columnCount = columns.length + (canEdit ? 1 : 0);
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-gray-200 dark:border-gray-800">
+        {visibleSelectedIds.length > 0 ? (
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm font-medium text-gray-900 dark:text-white">
+              {visibleSelectedIds.length} selected
+            </span>
+            <select
+              value=""
+              disabled={isApplying}
+              onChange={(e) => e.target.value && runBulkAction(() => onMoveCards(visibleSelectedIds, e.target.value))}
+              className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30"
+            >
+              <option value="">Move to list...</option>
+              {lists.map(list => (
+                <option key={list._id} value={list._id}>{list.name}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-1">
+              <input
+                type="date"
+                value={bulkDueDate}
+                disabled={isApplying}
+                onChange={(e) => setBulkDueDate(e.target.value)}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30"
+              />
+              <button
+                disabled={!bulkDueDate || isApplying}
+                onClick={() => runBulkAction(() => onBulkUpdate(visibleSelectedIds, { dueDate: fromDateInputValue(bulkDueDate) }))}
+                className="px-3 py-1.5 text-sm font-medium bg-[#17b6b2] text-white rounded-lg hover:bg-[#15a09d] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Set due date
+              </button>
+            </div>
+            {boardLabels.length > 0 && (
+              <select
+                value=""
+                disabled={isApplying}
+                onChange={(e) => {
+                  const label = boardLabels.find(item => item._id === e.target.value);
+                  if (label) runBulkAction(() => onApplyLabel(visibleSelectedIds, { name: label.name, color: label.color }));
+                }}
+                className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30"
+              >
+                <option value="">Apply label...</option>
+                {boardLabels.map(label => (
+                  <option key={label._id} value={label._id}>{label.name}</option>
+                ))}
+              </select>
+            )}
+            <button
+              disabled={isApplying}
+              onClick={() => runBulkAction(() => onArchiveCards(visibleSelectedIds))}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50 transition-colors flex items-center gap-1.5"
+            >
+              <Archive className="w-4 h-4" />
+              Archive
+            </button>
+            <button
+              onClick={() => setSelectedIds(new Set())}
+              className="p-1.5 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+              title="Clear selection"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {cards.length} card{cards.length === 1 ? '' : 's'}
+          </span>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          Group by
+          <select
+            value={groupBy}
+            onChange={(e) => {
+              setGroupBy(e.target.value as GroupBy);
+              setCollapsedGroups(new Set());
+            }}
+            className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#17b6b2]/30"
+          >
+            {GROUP_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Table */}
+      <div className="flex-1 overflow-auto">
+        <table className="w-full border-collapse">
+          <thead className="sticky top-0 z-10 bg-gray-50 dark:bg-gray-800">
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              {canEdit && (
+                <th className="px-3 py-2 w-10 text-left">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    className="w-4 h-4 rounded border-gray-300 text-[#17b6b2] focus:ring-[#17b6b2]"
+                  />
+                </th>
+              )}
+              {columns.map(column => (
+                <th key={column.key} className={`px-3 py-2 text-left ${column.className || ''}`}>
+                  <button
+                    onClick={() => handleSort(column.key)}
+                    className="flex items-center gap-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                  >
+                    {column.label}
+                    {renderSortIcon(column.key)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedCards.length === 0 ? (
+              <tr>
+                <td colSpan={columnCount} className="px-4 py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+                  No cards to show
+                </td>
+              </tr>
+            ) : groups.map(group => (
+              <Fragment key={group.name || 'all'}>
+                {groupBy !== 'none' && (
+                  <tr className="bg-gray-50/70 dark:bg-gray-800/40 border-b border-gray-200 dark:border-gray-700">
+                    <td colSpan={columnCount} className="px-3 py-2">
+                      <button
+                        onClick={() => toggleGroup(group.name)}
+                        className="flex items-center gap-1.5 text-sm font-semibold text-gray-700 dark:text-gray-300"
+                      >
+                        {collapsedGroups.has(group.name) ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                        {group.name}
+                        <span className="font-normal text-gray-400">({group.cards.length})</span>
+                      </button>
+                    </td>
+                  </tr>
+                )}
+                {!collapsedGroups.has(group.name) && group.cards.map(renderRow)}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BoardTableView;
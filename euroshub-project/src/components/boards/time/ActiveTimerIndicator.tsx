@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Square, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useTimer } from '@/contexts/TimerContext';
+import { formatElapsed, formatHours } from './timeUtils';
+
+// The running timer with a live clock; shown in page headers while a timer runs
+const ActiveTimerIndicator: React.FC = () => {
+  const { activeTimer, stopTimer, discardTimer } = useTimer();
+  const [now, setNow] = useState(() => Date.now());
+  const [isStopping, setIsStopping] = useState(false);
+
+  useEffect(() => {
+    if (!activeTimer) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [activeTimer]);
+
+  if (!activeTimer) return null;
+
+  const label = activeTimer.taskTitle ? `${activeTimer.taskTitle} · ${activeTimer.cardTitle}` : activeTimer.cardTitle;
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    try {
+      const { entry, notice } = await stopTimer();
+      if (notice) toast(notice, { icon: '⚠️' });
+      else toast.success(entry ? `Logged ${formatHours(entry.hours)} on "${activeTimer.cardTitle}"` : 'Timer stopped; under a minute was not logged');
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to stop timer');
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!window.confirm('Discard this timer without logging the time?')) return;
+    try {
+      await discardTimer();
+    } catch (error) {
+      console.error('Error discarding timer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to discard timer');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 h-10 pl-3 pr-1 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+      <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse flex-shrink-0" />
+      <span className="font-mono text-sm font-medium text-red-700 dark:text-red-300">
+        {formatElapsed(now - new Date(activeTimer.startedAt).getTime())}
+      </span>
+      <span className="hidden lg:block max-w-48 truncate text-xs text-gray-600 dark:text-gray-300" title={label}>
+        {label}
+      </span>
+      <button
+        onClick={handleStop}
+        disabled={isStopping}
+        className="p-1.5 rounded-md text-red-600 hover:bg-red-100 dark:hover:bg-red-900/40 disabled:opacity-50 transition-colors"
+        title="Stop and log time"
+      >
+        <Square className="w-3.5 h-3.5 fill-current" />
+      </button>
+      <button
+        onClick={handleDiscard}
+        disabled={isStopping}
+        className="p-1.5 rounded-md text-gray-500 hover:bg-red-100 dark:hover:bg-red-900/40 disabled:opacity-50 transition-colors"
+        title="Discard timer"
+      >
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+export default ActiveTimerIndicator;
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useEffect, Fragment } from 'react';
+import { X, Clock, ChevronRight, ChevronDown, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Portal from '../../shared/Portal';
+import { timeTrackingApi, BoardTimeReport } from '@/services/trelloBoardsApi';
+import { formatHours, getBudgetState, BUDGET_BAR_COLORS } from './timeUtils';
+
+interface BoardTimeReportModalProps {
+  boardId: string;
+  boardName: string;
+  onClose: () => void;
+}
+
+const formatVariance = (variance: number) => {
+  if (variance === 0) return 'On estimate';
+  return variance > 0 ? `+${formatHours(variance)} over` : `${formatHours(-variance)} under`;
+};
+
+const varianceClass = (variance: number, estimated: number) => {
+  if (!estimated) return 'text-gray-500 dark:text-gray-400';
+  return variance > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400';
+};
+
+const BudgetBar: React.FC<{ spent: number; estimated: number }> = ({ spent, estimated }) => {
+  const state = getBudgetState(spent, estimated);
+  const width = estimated ? Math.min(100, (spent / estimated) * 100) : spent > 0 ? 100 : 0;
+  return (
+    <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5">
+      <div className={`h-1.5 rounded-full ${BUDGET_BAR_COLORS[state]}`} style={{ width: `${width}%` }} />
+    </div>
+  );
+};
+
+// Estimated vs logged hours for every open card on the board
+const BoardTimeReportModal: React.FC<BoardTimeReportModalProps> = ({ boardId, boardName, onClose }) => {
+  const [report, setReport] = useState<BoardTimeReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        setReport(await timeTrackingApi.getBoardReport(boardId));
+      } catch (error) {
+        console.error('Error loading time report:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load time report');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadReport();
+  }, [boardId]);
+
+  const toggleCard = (cardId: string) => {
+    setExpandedCards(prev => {
+      const next = new Set(prev);
+      if (next.has(cardId)) next.delete(cardId);
+      else next.add(cardId);
+      return next;
+    });
+  };
+
+  return (
+    <Portal>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden border border-gray-200 dark:border-gray-800 animate-in slide-in-from-bottom-4 duration-300">
+          {/* Header */}
+          <div className="border-b border-gray-200 dark:border-gray-800 px-6 py-4">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white truncate">Time Report</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 truncate">
+                  Estimated vs logged hours on {boardName}
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-[#17b6b2]" />
+              </div>
+            ) : !report || report.cards.length === 0 ? (
+              <div className="text-center py-12">
+                <Clock className="w-10 h-10 mx-auto mb-3 text-gray-300 dark:text-gray-600" />
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  No card on this board has an estimate or logged time yet
+                </p>
+              </div>
+            ) : (
+              <>
+                {/* Totals */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {[
+                    { label: 'Estimated', value: formatHours(report.totals.estimated) },
+                    { label: 'Logged', value: formatHours(report.totals.spent) },
+                    {
+                      label: 'Variance',
+                      value: formatVariance(report.totals.variance),
+                      className: varianceClass(report.totals.variance, report.totals.estimated)
+                    },
+                    { label: 'Cards over estimate', value: String(report.totals.overEstimateCount) }
+                  ].map(stat => (
+                    <div key={stat.label} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</p>
+                      <p className={`text-lg font-semibold ${stat.className || 'text-gray-900 dark:text-white'}`}>{stat.value}</p>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Cards */}
+                <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 dark:bg-gray-800 text-xs text-gray-500 dark:text-gray-400">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium">Card</th>
+                        <th className="px-3 py-2 text-right font-medium">Estimated</th>
+                        <th className="px-3 py-2 text-right font-medium">Logged</th>
+                        <th className="px-3 py-2 font-medium w-32">Progress</th>
+                        <th className="px-3 py-2 text-right font-medium">Variance</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                      {report.cards.map(card => {
+                        const isExpanded = expandedCards.has(card.cardId);
+                        return (
+                          <Fragment key={card.cardId}>
+                            <tr className="text-gray-900 dark:text-white">
+                              <td className="px-3 py-2">
+                                <button
+                                  onClick={() => toggleCard(card.cardId)}
+                                  disabled={card.tasks.length === 0}
+                                  className="flex items-center gap-1.5 text-left disabled:cursor-default"
+                                >
+                                  {card.tasks.length > 0 ? (
+                                    isExpanded ? <ChevronDown className="w-3.5 h-3.5 text-gray-400" /> : <ChevronRight className="w-3.5 h-3.5 text-gray-400" />
+                                  ) : (
+                                    <span className="w-3.5" />
+                                  )}
+                                  <span>
+                                    <span className="font-medium">{card.cardTitle}</span>
+                                    <span className="block text-xs text-gray-500 dark:text-gray-400">{card.listTitle}</span>
+                                  </span>
+                                </button>
+                              </td>
+                              <td className="px-3 py-2 text-right">{card.estimated ? formatHours(card.estimated) : '—'}</td>
+                              <td className="px-3 py-2 text-right">{formatHours(card.spent)}</td>
+                              <td className="px-3 py-2"><BudgetBar spent={card.spent} estimated={card.estimated} /></td>
+                              <td className={`px-3 py-2 text-right ${varianceClass(card.variance, card.estimated)}`}>
+                                {card.estimated ? formatVariance(card.variance) : '—'}
+                              </td>
+                            </tr>
+                            {isExpanded && card.tasks.map(task => (
+                              <tr key={task.taskId} className="bg-gray-50/60 dark:bg-gray-800/40 text-gray-700 dark:text-gray-300">
+                                <td className={`pl-10 pr-3 py-1.5 text-xs ${task.completed ? 'line-through text-gray-400' : ''}`}>{task.title}</td>
+                                <td className="px-3 py-1.5 text-right text-xs">{task.estimated ? formatHours(task.estimated) : '—'}</td>
+                                <td className="px-3 py-1.5 text-right text-xs">{formatHours(task.spent)}</td>
+                                <td className="px-3 py-1.5"><BudgetBar spent={task.spent} estimated={task.estimated} /></td>
+                                <td className={`px-3 py-1.5 text-right text-xs ${varianceClass(task.variance, task.estimated)}`}>
+                                  {task.estimated ? formatVariance(task.variance) : '—'}
+                                </td>
+                              </tr>
+                            ))}
+                          </Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* People */}
+                {report.byUser.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Logged by</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {report.byUser.map(({ user, hours }) => (
+                        <span
+                          key={user._id}
+                          className="px-3 py-1.5 text-xs rounded-full bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+                        >
+                          {user.firstName} {user.lastName} · {formatHours(hours)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </Portal>
+  );
+};
+
+export default BoardTimeReportModal;
@@ -0,0 +1,79 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { timeTrackingApi, Timesheet, TimesheetRow } from '@/services/trelloBoardsApi';
+import { useTimer } from '@/contexts/TimerContext';
+import TimesheetGrid from './TimesheetGrid';
+import TimesheetApprovalBanner from './TimesheetApprovalBanner';
+import WeekNavigator from './WeekNavigator';
+import { formatHours, getWeekStart } from './timeUtils';
+
+interface MyTimesheetProps {
+  role: string;
+}
+
+/**
+ * Personal weekly timesheet: the hours the current user logged on every board
+ */
+const MyTimesheet: React.FC<MyTimesheetProps> = ({ role }) => {
+  const router = useRouter();
+  const { loggedAt } = useTimer();
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    // Ignore responses for a week the user already navigated away from
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+
+    timeTrackingApi.getTimesheet(weekStart)
+      .then(data => {
+        if (requestId === requestIdRef.current) setTimesheet(data);
+      })
+      .catch(error => {
+        console.error('Error loading timesheet:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load timesheet');
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setIsLoading(false);
+      });
+  }, [weekStart, loggedAt]);
+
+  const handleRowClick = (row: TimesheetRow) => {
+    if (!row.boardId) return;
+    const params = new URLSearchParams({ card: row.cardId, tab: 'time' });
+    router.push(`/${role}/boards/${row.boardId}?${params.toString()}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <WeekNavigator weekStart={weekStart} onChange={setWeekStart} isLoading={isLoading} />
+        {timesheet && (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Total: <span className="font-semibold text-gray-900 dark:text-white">{formatHours(timesheet.total)}</span>
+          </p>
+        )}
+      </div>
+
+      {timesheet?.approval && <TimesheetApprovalBanner approval={timesheet.approval} />}
+
+      <div className="bg-white dark:bg-gray-900 rounded-lg">
+        {timesheet ? (
+          <TimesheetGrid timesheet={timesheet} onRowClick={handleRowClick} />
+        ) : (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyTimesheet;
@@ -0,0 +1,389 @@
+'use client';
+
+import { useState, useEffect, useRef, Fragment } from 'react';
+import { CheckCircle2, ChevronDown, ChevronRight, Download, Loader2, Search, Undo2, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { timeTrackingApi, TeamTimesheet, TeamTimesheets as TeamTimesheetsData, Timesheet, TimesheetApproval } from '@/services/trelloBoardsApi';
+import TimesheetGrid from './TimesheetGrid';
+import WeekNavigator from './WeekNavigator';
+import { addWeeks, formatHours, fromDateInputValue, getWeekStart, toDateInputValue } from './timeUtils';
+
+type StatusFilter = 'all' | 'pending' | TimesheetApproval['status'];
+
+const STATUS_FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'returned', label: 'Sent back' }
+];
+
+const STATUS_BADGES: Record<StatusFilter, { label: string; className: string }> = {
+  all: { label: '', className: '' },
+  pending: { label: 'Pending', className: 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300' },
+  approved: { label: 'Approved', className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400' },
+  returned: { label: 'Sent back', className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400' }
+};
+
+const getStatus = (timesheet: TeamTimesheet): StatusFilter => timesheet.approval?.status || 'pending';
+
+const inputClass = 'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * HR review of everyone's weekly hours: approve a week, which locks its time
+ * entries, or send it back with a comment, and export approved weeks for payroll
+ */
+const TeamTimesheets: React.FC = () => {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [data, setData] = useState<TeamTimesheetsData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [expandedUserId, setExpandedUserId] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, Timesheet>>({});
+  const [returnDraft, setReturnDraft] = useState<{ userId: string; comment: string } | null>(null);
+  const [reviewingUserId, setReviewingUserId] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [exportRange, setExportRange] = useState(() => ({
+    from: toDateInputValue(addWeeks(getWeekStart(new Date()), -3)),
+    to: toDateInputValue(getWeekStart(new Date()))
+  }));
+  const [isExporting, setIsExporting] = useState(false);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    // Ignore responses for a week the user already navigated away from
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setExpandedUserId(null);
+    setDetails({});
+    setReturnDraft(null);
+
+    timeTrackingApi.getTeamTimesheets(weekStart)
+      .then(result => {
+        if (requestId === requestIdRef.current) setData(result);
+      })
+      .catch(error => {
+        console.error('Error loading timesheets:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load timesheets');
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setIsLoading(false);
+      });
+  }, [weekStart]);
+
+  const toggleExpanded = async (userId: string) => {
+    if (expandedUserId === userId) {
+      setExpandedUserId(null);
+      return;
+    }
+
+    setExpandedUserId(userId);
+    if (details[userId]) return;
+
+    try {
+      const timesheet = await timeTrackingApi.getTimesheet(weekStart, userId);
+      setDetails(prev => ({ ...prev, [userId]: timesheet }));
+    } catch (error) {
+      console.error('Error loading timesheet:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load timesheet');
+    }
+  };
+
+  const handleReview = async (userId: string, status: TimesheetApproval['status'], comment?: string) => {
+    setReviewingUserId(userId);
+    try {
+      const approval = await timeTrackingApi.reviewTimesheet(userId, weekStart, status, comment);
+      setData(prev => prev && {
+        ...prev,
+        timesheets: prev.timesheets.map(timesheet =>
+          timesheet.user._id === userId ? { ...timesheet, approval } : timesheet
+        )
+      });
+      setDetails(prev => (prev[userId] ? { ...prev, [userId]: { ...prev[userId], approval } } : prev));
+      setReturnDraft(null);
+      toast.success(status === 'approved' ? 'Timesheet approved' : 'Timesheet sent back');
+    } catch (error) {
+      console.error('Error reviewing timesheet:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to review timesheet');
+    } finally {
+      setReviewingUserId(null);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!exportRange.from || !exportRange.to) {
+      toast.error('Pick the first and last week to export');
+      return;
+    }
+
+    const from = getWeekStart(fromDateInputValue(exportRange.from));
+    const to = addWeeks(getWeekStart(fromDateInputValue(exportRange.to)), 1);
+    if (from >= to) {
+      toast.error('The first week must come before the last week');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const blob = await timeTrackingApi.exportApprovedTimesheets(from, to);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `timesheets-${toDateInputValue(from)}-to-${toDateInputValue(addWeeks(to, -1))}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+      setShowExport(false);
+    } catch (error) {
+      console.error('Error exporting timesheets:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export timesheets');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const timesheets = (data?.timesheets || []).filter(timesheet => {
+    if (statusFilter !== 'all' && getStatus(timesheet) !== statusFilter) return false;
+    if (!query) return true;
+    const { firstName, lastName, email, department } = timesheet.user;
+    return `${firstName} ${lastName} ${email} ${department || ''}`.toLowerCase().includes(query);
+  });
+
+  const statusCounts = (data?.timesheets || []).reduce<Record<string, number>>((counts, timesheet) => {
+    const status = getStatus(timesheet);
+    counts[status] = (counts[status] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <WeekNavigator weekStart={weekStart} onChange={setWeekStart} isLoading={isLoading} />
+        <button
+          onClick={() => setShowExport(prev => !prev)}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm"
+        >
+          <Download className="w-4 h-4" />
+          Export approved
+        </button>
+      </div>
+
+      {showExport && (
+        <div className="flex flex-wrap items-end gap-3 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1">From week of</span>
+            <input
+              type="date"
+              value={exportRange.from}
+              onChange={(e) => setExportRange(prev => ({ ...prev, from: e.target.value }))}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1">To week of</span>
+            <input
+              type="date"
+              value={exportRange.to}
+              onChange={(e) => setExportRange(prev => ({ ...prev, to: e.target.value }))}
+              className={inputClass}
+            />
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Download CSV
+          </button>
+          <p className="w-full text-xs text-gray-500 dark:text-gray-400">
+            Only approved weeks are exported, with the hours as they were when approved.
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-48 max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search employees..."
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <div className="flex items-center gap-1">
+          {STATUS_FILTERS.map(filter => (
+            <button
+              key={filter.value}
+              onClick={() => setStatusFilter(filter.value)}
+              className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                statusFilter === filter.value
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              {filter.label}
+              {filter.value !== 'all' && statusCounts[filter.value] ? ` (${statusCounts[filter.value]})` : ''}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-900 rounded-lg">
+        {!data ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : timesheets.length === 0 ? (
+          <div className="text-center py-12">
+            <Users className="w-10 h-10 mx-auto mb-3 text-gray-300 dark:text-gray-600" />
+            <p className="text-sm text-gray-500 dark:text-gray-400">No timesheets match these filters</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800 text-xs text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Employee</th>
+                  <th className="px-3 py-2 text-left font-medium">Boards</th>
+                  <th className="px-3 py-2 text-right font-medium w-24">Total</th>
+                  <th className="px-3 py-2 text-left font-medium w-28">Status</th>
+                  <th className="px-3 py-2 text-right font-medium w-56">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                {timesheets.map(timesheet => {
+                  const userId = timesheet.user._id;
+                  const status = getStatus(timesheet);
+                  const isExpanded = expandedUserId === userId;
+                  const isReviewing = reviewingUserId === userId;
+                  const detail = details[userId];
+
+                  return (
+                    <Fragment key={userId}>
+                      <tr className="text-gray-900 dark:text-white">
+                        <td className="px-3 py-2">
+                          <button onClick={() => toggleExpanded(userId)} className="flex items-center gap-1.5 text-left">
+                            {isExpanded ? <ChevronDown className="w-3.5 h-3.5 text-gray-400" /> : <ChevronRight className="w-3.5 h-3.5 text-gray-400" />}
+                            <span>
+                              <span className="font-medium">{timesheet.user.firstName} {timesheet.user.lastName}</span>
+                              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                                {timesheet.user.department || timesheet.user.email}
+                              </span>
+                            </span>
+                          </button>
+                        </td>
+                        <td className="px-3 py-2">
+                          {timesheet.boards.length === 0 ? (
+                            <span className="text-xs text-gray-400">No time logged</span>
+                          ) : (
+                            <div className="flex flex-wrap gap-1">
+                              {timesheet.boards.map(board => (
+                                <span
+                                  key={board.boardId || 'none'}
+                                  className="px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+                                >
+                                  {board.boardTitle || 'Unknown board'} · {formatHours(board.hours)}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right font-medium">{formatHours(timesheet.total)}</td>
+                        <td className="px-3 py-2">
+                          <span
+                            className={`px-2 py-0.5 text-xs rounded-full ${STATUS_BADGES[status].className}`}
+                            title={timesheet.approval?.comment || undefined}
+                          >
+                            {STATUS_BADGES[status].label}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className="flex items-center justify-end gap-1">
+                            {status !== 'approved' && (
+                              <button
+                                onClick={() => handleReview(userId, 'approved')}
+                                disabled={isReviewing}
+                                className="flex items-center gap-1 px-2.5 py-1.5 text-xs rounded-lg text-green-700 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 disabled:opacity-50"
+                              >
+                                <CheckCircle2 className="w-3.5 h-3.5" />
+                                Approve
+                              </button>
+                            )}
+                            <button
+                              onClick={() => {
+                                setReturnDraft({ userId, comment: '' });
+                                if (!isExpanded) toggleExpanded(userId);
+                              }}
+                              disabled={isReviewing}
+                              className="flex items-center gap-1 px-2.5 py-1.5 text-xs rounded-lg text-amber-700 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/20 disabled:opacity-50"
+                            >
+                              <Undo2 className="w-3.5 h-3.5" />
+                              Send back
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr>
+                          <td colSpan={5} className="px-3 py-3 bg-gray-50/60 dark:bg-gray-800/40 space-y-3">
+                            {timesheet.approval?.comment && (
+                              <p className="text-xs text-gray-600 dark:text-gray-300">
+                                <span className="font-medium">Review comment:</span> {timesheet.approval.comment}
+                              </p>
+                            )}
+                            {returnDraft?.userId === userId && (
+                              <div className="flex flex-col gap-2">
+                                <textarea
+                                  value={returnDraft.comment}
+                                  onChange={(e) => setReturnDraft({ userId, comment: e.target.value })}
+                                  placeholder="What needs to be corrected?"
+                                  rows={2}
+                                  autoFocus
+                                  className={`${inputClass} w-full`}
+                                />
+                                <div className="flex justify-end gap-2">
+                                  <button
+                                    onClick={() => setReturnDraft(null)}
+                                    disabled={isReviewing}
+                                    className="px-3 py-1.5 text-sm rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                                  >
+                                    Cancel
+                                  </button>
+                                  <button
+                                    onClick={() => handleReview(userId, 'returned', returnDraft.comment)}
+                                    disabled={isReviewing || !returnDraft.comment.trim()}
+                                    className="px-3 py-1.5 text-sm rounded-lg bg-amber-600 hover:bg-amber-700 text-white disabled:opacity-50"
+                                  >
+                                    Send back
+                                  </button>
+                                </div>
+                              </div>
+                            )}
+                            {detail ? (
+                              <TimesheetGrid timesheet={detail} />
+                            ) : (
+                              <div className="flex justify-center py-6">
+                                <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeamTimesheets;
@@ -0,0 +1,37 @@
+'use client';
+
+import { CheckCircle2, Undo2 } from 'lucide-react';
+import { TimesheetApproval } from '@/services/trelloBoardsApi';
+
+interface TimesheetApprovalBannerProps {
+  approval: TimesheetApproval;
+}
+
+// How HR reviewed a timesheet week, with the comment left for the employee
+const TimesheetApprovalBanner: React.FC<TimesheetApprovalBannerProps> = ({ approval }) => {
+  const isApproved = approval.status === 'approved';
+  const reviewer = approval.reviewedBy ? `${approval.reviewedBy.firstName} ${approval.reviewedBy.lastName}` : 'HR';
+  const reviewedAt = new Date(approval.reviewedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  return (
+    <div
+      className={`flex items-start gap-3 p-3 rounded-lg border text-sm ${
+        isApproved
+          ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-300'
+          : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300'
+      }`}
+    >
+      {isApproved ? <CheckCircle2 className="w-4 h-4 mt-0.5 flex-shrink-0" /> : <Undo2 className="w-4 h-4 mt-0.5 flex-shrink-0" />}
+      <div className="min-w-0">
+        <p className="font-medium">
+          {isApproved
+            ? `Approved by ${reviewer} on ${reviewedAt}; entries in this week are locked`
+            : `Sent back by ${reviewer} on ${reviewedAt}`}
+        </p>
+        {approval.comment && <p className="mt-1 whitespace-pre-wrap">{approval.comment}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default TimesheetApprovalBanner;
@@ -0,0 +1,77 @@
+'use client';
+
+import { Timesheet, TimesheetRow } from '@/services/trelloBoardsApi';
+import { formatHours, getWeekDays } from './timeUtils';
+
+interface TimesheetGridProps {
+  timesheet: Timesheet;
+  onRowClick?: (row: TimesheetRow) => void;
+}
+
+const formatCell = (hours: number) => (hours > 0 ? formatHours(hours) : '');
+
+// A week of hours: one row per card (and task), one column per day
+const TimesheetGrid: React.FC<TimesheetGridProps> = ({ timesheet, onRowClick }) => {
+  const days = getWeekDays(new Date(timesheet.weekStart));
+  const todayKey = new Date().toDateString();
+
+  if (timesheet.rows.length === 0) {
+    return (
+      <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+        No time logged this week
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 dark:bg-gray-800 text-xs text-gray-500 dark:text-gray-400">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">Card</th>
+            {days.map(day => (
+              <th
+                key={day.toDateString()}
+                className={`px-2 py-2 text-center font-medium w-16 ${day.toDateString() === todayKey ? 'text-blue-600 dark:text-blue-400' : ''}`}
+              >
+                {day.toLocaleDateString('en-US', { weekday: 'short' })}
+                <span className="block font-normal">{day.getDate()}</span>
+              </th>
+            ))}
+            <th className="px-3 py-2 text-right font-medium w-20">Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+          {timesheet.rows.map(row => (
+            <tr
+              key={`${row.cardId}-${row.taskId || ''}`}
+              onClick={() => onRowClick?.(row)}
+              className={`text-gray-900 dark:text-white ${onRowClick ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50' : ''}`}
+            >
+              <td className="px-3 py-2">
+                <span className="font-medium">{row.cardTitle}</span>
+                {row.taskTitle && <span className="text-gray-500 dark:text-gray-400"> · {row.taskTitle}</span>}
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{row.boardTitle}</span>
+              </td>
+              {row.days.map((hours, index) => (
+                <td key={index} className="px-2 py-2 text-center text-gray-700 dark:text-gray-300">{formatCell(hours)}</td>
+              ))}
+              <td className="px-3 py-2 text-right font-medium">{formatHours(row.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="bg-gray-50 dark:bg-gray-800 font-medium text-gray-900 dark:text-white">
+          <tr>
+            <td className="px-3 py-2">Total</td>
+            {timesheet.dailyTotals.map((hours, index) => (
+              <td key={index} className="px-2 py-2 text-center">{formatCell(hours)}</td>
+            ))}
+            <td className="px-3 py-2 text-right">{formatHours(timesheet.total)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default TimesheetGrid;
@@ -0,0 +1,46 @@
+'use client';
+
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { addWeeks, formatWeekRange, getWeekStart } from './timeUtils';
+
+interface WeekNavigatorProps {
+  weekStart: Date;
+  onChange: (weekStart: Date) => void;
+  isLoading?: boolean;
+}
+
+// Previous / next week buttons with the week's date range
+const WeekNavigator: React.FC<WeekNavigatorProps> = ({ weekStart, onChange, isLoading = false }) => {
+  const isCurrentWeek = weekStart.getTime() === getWeekStart(new Date()).getTime();
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => onChange(addWeeks(weekStart, -1))}
+        className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        title="Previous week"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => onChange(addWeeks(weekStart, 1))}
+        className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        title="Next week"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{formatWeekRange(weekStart)}</h2>
+      {!isCurrentWeek && (
+        <button
+          onClick={() => onChange(getWeekStart(new Date()))}
+          className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+        >
+          This week
+        </button>
+      )}
+      {isLoading && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+    </div>
+  );
+};
+
+export default WeekNavigator;
@@ -0,0 +1,68 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 1.5 -> "1h 30m", 0.25 -> "15m"
+export const formatHours = (hours: number) => {
+  const totalMinutes = Math.round(hours * 60);
+  const wholeHours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (wholeHours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${wholeHours}h` : `${wholeHours}h ${minutes}m`;
+};
+
+// Running timer display: "0:04:09", "12:30:00"
+export const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+// Monday 00:00 local time of the week containing date
+export const getWeekStart = (date: Date) => {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const daysSinceMonday = (result.getDay() + 6) % 7;
+  result.setDate(result.getDate() - daysSinceMonday);
+  return result;
+};
+
+export const addWeeks = (date: Date, weeks: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + weeks * 7);
+  return result;
+};
+
+// "Mar 3 – Mar 9, 2025"
+export const formatWeekRange = (weekStart: Date) => {
+  const weekEnd = addWeeks(weekStart, 1);
+  weekEnd.setDate(weekEnd.getDate() - 1);
+  const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${format(weekStart)} – ${format(weekEnd)}, ${weekEnd.getFullYear()}`;
+};
+
+export const getWeekDays = (weekStart: Date) =>
+  Array.from({ length: 7 }, (_, index) => new Date(weekStart.getTime() + index * DAY_MS + DAY_MS / 2));
+
+// Value for a <input type="date"> in local time
+export const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Noon local time, so the entry stays on the picked day in any time zone the timesheet is read in
+export const fromDateInputValue = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day, 12);
+};
+
+// Logged time against an estimate: over budget, close to it, or fine
+export const getBudgetState = (spent: number, estimated: number): 'over' | 'warning' | 'ok' | 'none' => {
+  if (!estimated) return 'none';
+  if (spent > estimated) return 'over';
+  return spent >= estimated * 0.8 ? 'warning' : 'ok';
+};
+
+export const BUDGET_BAR_COLORS = {
+  over: 'bg-red-500',
+  warning: 'bg-amber-500',
+  ok: 'bg-green-500',
+  none: 'bg-blue-500'
+};
@@ -0,0 +1,362 @@
+'use client';
+
+import { useState, useMemo, useRef, useEffect } from 'react';
+import { CheckSquare, CreditCard, Lock, Route } from 'lucide-react';
+import { Card } from '../lists/ListContainer';
+import {
+  DAY_WIDTH,
+  ROW_HEIGHT,
+  TimelineRow,
+  TimelineZoom,
+  addDays,
+  buildTimelineRows,
+  daysBetween,
+  getCriticalPath,
+  getTimelineRange,
+  startOfDay
+} from './timelineUtils';
+
+const LABEL_WIDTH = 256;
+const HEADER_HEIGHT = 48;
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+  row: TimelineRow;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+interface TimelineViewProps {
+  cards: Card[];
+  canEdit: boolean;
+  onOpenCard: (cardId: string, tab: 'overview' | 'tasks') => void;
+  onChangeDates: (row: TimelineRow, dates: { startDate: Date; dueDate: Date }) => Promise<void>;
+}
+
+// Bar span while dragging, before the change is saved
+const getDraggedSpan = (row: TimelineRow, drag: DragState | null) => {
+  if (!drag || drag.row.key !== row.key || drag.deltaDays === 0) {
+    return { start: row.start, end: row.end };
+  }
+  const { mode, deltaDays } = drag;
+  const start = mode === 'end' ? row.start : addDays(row.start, deltaDays);
+  const end = mode === 'start' ? row.end : addDays(row.end, deltaDays);
+  // Resizing never flips the bar: it stays at least one day long
+  if (start > end) return mode === 'start' ? { start: end, end } : { start, end: start };
+  return { start, end };
+};
+
+// Shift the stored date when the bar shows it, keeping its time of day; derived ends start from the shown day
+const shiftDate = (stored: Date | null, shown: Date, days: number) =>
+  addDays(stored && startOfDay(stored).getTime() === shown.getTime() ? stored : shown, days);
+
+const TimelineView: React.FC<TimelineViewProps> = ({ cards, canEdit, onOpenCard, onChangeDates }) => {
+  const [zoom, setZoom] = useState<TimelineZoom>('day');
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const { rows, unscheduledCount } = useMemo(() => buildTimelineRows(cards), [cards]);
+  const criticalPath = useMemo(() => getCriticalPath(rows), [rows]);
+  const range = useMemo(() => getTimelineRange(rows), [rows]);
+
+  const dayWidth = DAY_WIDTH[zoom];
+  const totalDays = daysBetween(range.start, range.end) + 1;
+  const days = useMemo(
+    () => Array.from({ length: totalDays }, (_, i) => addDays(range.start, i)),
+    [range.start, totalDays]
+  );
+  const today = startOfDay(new Date());
+  const rowIndex = useMemo(() => new Map(rows.map((row, index) => [row.key, index])), [rows]);
+
+  const scrollToToday = () => {
+    if (!scrollRef.current) return;
+    const todayX = daysBetween(range.start, today) * dayWidth;
+    scrollRef.current.scrollLeft = Math.max(0, todayX - scrollRef.current.clientWidth / 3);
+  };
+
+  // Start near today, and again after changing zoom
+  useEffect(() => {
+    scrollToToday();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zoom]);
+
+  const handlePointerDown = (e: React.PointerEvent, row: TimelineRow, mode: DragMode) => {
+    if (!canEdit || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setDrag({ row, mode, originX: e.clientX, deltaDays: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const deltaDays = Math.round((e.clientX - drag.originX) / dayWidth);
+    if (deltaDays !== drag.deltaDays) {
+      setDrag({ ...drag, deltaDays });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const { row, deltaDays } = drag;
+    setDrag(null);
+
+    if (deltaDays === 0) {
+      // A click without movement opens the card
+      onOpenCard(row.cardId, row.type === 'task' ? 'tasks' : 'overview');
+      return;
+    }
+
+    const span = getDraggedSpan(row, drag);
+    onChangeDates(row, {
+      startDate: shiftDate(row.startDate, row.start, daysBetween(row.start, span.start)),
+      dueDate: shiftDate(row.dueDate, row.end, daysBetween(row.end, span.end))
+    });
+  };
+
+  const getBarX = (date: Date) => daysBetween(range.start, date) * dayWidth;
+
+  // Dependency arrows from the end of the predecessor to the start of the dependent row
+  const arrows = rows.flatMap(row => row.predecessors.flatMap(key => {
+    const fromIndex = rowIndex.get(key);
+    const toIndex = rowIndex.get(row.key);
+    if (fromIndex === undefined || toIndex === undefined) return [];
+
+    const from = rows[fromIndex];
+    const fromSpan = getDraggedSpan(from, drag);
+    const toSpan = getDraggedSpan(row, drag);
+    const x1 = getBarX(fromSpan.end) + dayWidth;
+    const y1 = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const x2 = getBarX(toSpan.start);
+    const y2 = toIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+    const path = x2 - x1 >= 16
+      ? `M ${x1} ${y1} H ${x1 + 8} V ${y2} H ${x2}`
+      : `M ${x1} ${y1} H ${x1 + 8} V ${y2 - ROW_HEIGHT / 2} H ${x2 - 8} V ${y2} H ${x2}`;
+
+    const isCritical = showCriticalPath && criticalPath.has(key) && criticalPath.has(row.key);
+    return [{ key: `${key}-${row.key}`, path, isCritical }];
+  }));
+
+  const gridWidth = totalDays * dayWidth;
+  const gridHeight = rows.length * ROW_HEIGHT;
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-gray-200 dark:border-gray-800">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={scrollToToday}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+          >
+            Today
+          </button>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showCriticalPath}
+              onChange={() => setShowCriticalPath(!showCriticalPath)}
+              className="w-4 h-4 rounded border-gray-300 text-[#17b6b2] focus:ring-[#17b6b2]"
+            />
+            <Route className="w-4 h-4 text-red-500" />
+            Critical path
+          </label>
+          {unscheduledCount > 0 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {unscheduledCount} item{unscheduledCount === 1 ? '' : 's'} without dates not shown
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg">
+          {(['day', 'week'] as TimelineZoom[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setZoom(option)}
+              className={`px-3 py-1 text-sm font-medium rounded-md capitalize transition-colors ${
+                zoom === option
+                  ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+              }`}
+            >
+              {option === 'day' ? 'Days' : 'Weeks'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center p-8 text-sm text-gray-500 dark:text-gray-400">
+          No cards or tasks have dates yet. Add start and due dates to see them on the timeline.
+        </div>
+      ) : (
+        <div
+          ref={scrollRef}
+          className="flex-1 overflow-auto select-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+        >
+          <div className="relative" style={{ width: LABEL_WIDTH + gridWidth, minHeight: HEADER_HEIGHT + gridHeight }}>
+            {/* Date header */}
+            <div className="sticky top-0 z-20 flex bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800" style={{ height: HEADER_HEIGHT }}>
+              <div className="sticky left-0 z-10 flex-shrink-0 px-4 flex items-center text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-800" style={{ width: LABEL_WIDTH }}>
+                Card / Task
+              </div>
+              {days.map(day => {
+                const isMonthStart = day.getDate() === 1;
+                const showLabel = zoom === 'day' || day.getDay() === 1;
+                return (
+                  <div
+                    key={day.getTime()}
+                    className={`flex-shrink-0 flex flex-col justify-end pb-1 text-[10px] border-r border-gray-100 dark:border-gray-800 ${
+                      isMonthStart ? 'border-l border-l-gray-300 dark:border-l-gray-600' : ''
+                    } ${day.getTime() === today.getTime() ? 'text-[#17b6b2] font-semibold' : 'text-gray-500 dark:text-gray-400'}`}
+                    style={{ width: dayWidth }}
+                  >
+                    {(isMonthStart || day.getTime() === range.start.getTime()) && (
+                      <span className="px-1 whitespace-nowrap font-medium text-gray-700 dark:text-gray-300">
+                        {day.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}
+                      </span>
+                    )}
+                    {showLabel && (
+                      <span className="px-1 whitespace-nowrap">
+                        {zoom === 'day' ? day.getDate() : day.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="relative flex">
+              {/* Row labels */}
+              <div className="sticky left-0 z-10 flex-shrink-0 bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-800" style={{ width: LABEL_WIDTH }}>
+                {rows.map(row => {
+                  const Icon = row.type === 'task' ? CheckSquare : CreditCard;
+                  return (
+                    <button
+                      key={row.key}
+                      onClick={() => onOpenCard(row.cardId, row.type === 'task' ? 'tasks' : 'overview')}
+                      className={`w-full flex items-center gap-2 pr-3 text-left border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/60 transition-colors ${
+                        row.type === 'task' ? 'pl-8' : 'pl-4 bg-gray-50/60 dark:bg-gray-800/30'
+                      }`}
+                      style={{ height: ROW_HEIGHT }}
+                      title={row.title}
+                    >
+                      <Icon className={`w-3.5 h-3.5 flex-shrink-0 ${row.type === 'task' ? 'text-gray-400' : 'text-[#17b6b2]'}`} />
+                      <span className="min-w-0 flex-1">
+                        <span className={`block truncate text-sm ${row.type === 'card' ? 'font-medium text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'} ${row.completed ? 'line-through opacity-60' : ''}`}>
+                          {row.title}
+                        </span>
+                        {row.subtitle && (
+                          <span className="block truncate text-[10px] text-gray-500 dark:text-gray-400">{row.subtitle}</span>
+                        )}
+                      </span>
+                      {row.isLocked && <Lock className="w-3 h-3 flex-shrink-0 text-amber-500" />}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* Bars */}
+              <div className="relative flex-shrink-0" style={{ width: gridWidth, height: gridHeight }}>
+                {/* Weekend shading and today marker */}
+                {days.map((day, index) => (day.getDay() === 0 || day.getDay() === 6) && (
+                  <div
+                    key={day.getTime()}
+                    className="absolute top-0 bottom-0 bg-gray-50 dark:bg-gray-800/40"
+                    style={{ left: index * dayWidth, width: dayWidth }}
+                  />
+                ))}
+                <div
+                  className="absolute top-0 bottom-0 w-0.5 bg-[#17b6b2]/60 z-[1]"
+                  style={{ left: getBarX(today) + dayWidth / 2 }}
+                />
+                {rows.map((row, index) => (
+                  <div
+                    key={`line-${row.key}`}
+                    className="absolute left-0 right-0 border-b border-gray-100 dark:border-gray-800"
+                    style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                  />
+                ))}
+
+                {/* Dependency arrows */}
+                <svg className="absolute inset-0 pointer-events-none z-[2]" width={gridWidth} height={gridHeight}>
+                  <defs>
+                    <marker id="timeline-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M 0 0 L 8 4 L 0 8 z" className="fill-gray-400" />
+                    </marker>
+                    <marker id="timeline-arrow-critical" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M 0 0 L 8 4 L 0 8 z" className="fill-red-500" />
+                    </marker>
+                  </defs>
+                  {arrows.map(arrow => (
+                    <path
+                      key={arrow.key}
+                      d={arrow.path}
+                      fill="none"
+                      strokeWidth={arrow.isCritical ? 2 : 1.5}
+                      className={arrow.isCritical ? 'stroke-red-500' : 'stroke-gray-400'}
+                      markerEnd={`url(#${arrow.isCritical ? 'timeline-arrow-critical' : 'timeline-arrow'})`}
+                    />
+                  ))}
+                </svg>
+
+                {rows.map((row, index) => {
+                  const span = getDraggedSpan(row, drag);
+                  const left = getBarX(span.start);
+                  const width = (daysBetween(span.start, span.end) + 1) * dayWidth;
+                  const isCritical = showCriticalPath && criticalPath.has(row.key);
+                  const isOverdue = !row.completed && row.end < today;
+                  const isDragging = drag?.row.key === row.key;
+
+                  return (
+                    <div
+                      key={row.key}
+                      onPointerDown={(e) => handlePointerDown(e, row, 'move')}
+                      onClick={() => !canEdit && onOpenCard(row.cardId, row.type === 'task' ? 'tasks' : 'overview')}
+                      title={`${row.title}: ${span.start.toLocaleDateString()} - ${span.end.toLocaleDateString()}`}
+                      className={`group absolute z-[3] flex items-center rounded-md text-xs font-medium text-white shadow-sm overflow-hidden ${
+                        canEdit ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+                      } ${row.completed ? 'opacity-50' : ''} ${isCritical ? 'ring-2 ring-red-500 ring-offset-1 dark:ring-offset-gray-900' : ''} ${
+                        isDragging ? 'shadow-lg' : ''
+                      }`}
+                      style={{
+                        left,
+                        width,
+                        top: index * ROW_HEIGHT + (row.type === 'card' ? 8 : 11),
+                        height: row.type === 'card' ? ROW_HEIGHT - 16 : ROW_HEIGHT - 22,
+                        backgroundColor: isOverdue ? '#ef4444' : row.color || (row.type === 'card' ? '#17b6b2' : '#64748b')
+                      }}
+                    >
+                      {canEdit && (
+                        <span
+                          onPointerDown={(e) => handlePointerDown(e, row, 'start')}
+                          className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize bg-black/0 group-hover:bg-black/20"
+                        />
+                      )}
+                      <span className="px-2 truncate">{width > 48 ? row.title : ''}</span>
+                      {canEdit && (
+                        <span
+                          onPointerDown={(e) => handlePointerDown(e, row, 'end')}
+                          className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize bg-black/0 group-hover:bg-black/20"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimelineView;
@@ -0,0 +1,212 @@
+import { Card } from '../lists/ListContainer';
+import { getCurrentStageName } from '../hooks/useBoardFilters';
+
+export type TimelineZoom = 'day' | 'week';
+
+export const DAY_WIDTH: Record<TimelineZoom, number> = {
+  day: 40,
+  week: 16
+};
+
+export const ROW_HEIGHT = 40;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TimelineRow {
+  key: string;
+  type: 'card' | 'task';
+  cardId: string;
+  taskId?: string;
+  title: string;
+  subtitle?: string;
+  // Whole days covered by the bar, both inclusive
+  start: Date;
+  end: Date;
+  // Dates as stored, so edits keep their time of day
+  startDate: Date | null;
+  dueDate: Date | null;
+  completed: boolean;
+  isLocked: boolean;
+  color?: string;
+  // Keys of the rows this one depends on
+  predecessors: string[];
+}
+
+export interface TimelineData {
+  rows: TimelineRow[];
+  unscheduledCount: number;
+}
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Whole days from a to b, ignoring daylight saving shifts
+export const daysBetween = (a: Date, b: Date) =>
+  Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / DAY_MS);
+
+const toDate = (value?: Date | string | null) => (value ? new Date(value) : null);
+
+const earliest = (dates: Date[]) => dates.reduce((min, date) => (date < min ? date : min));
+const latest = (dates: Date[]) => dates.reduce((max, date) => (date > max ? date : max));
+
+/**
+ * Turn cards and their tasks into timeline rows. Tasks need a due date to be placed;
+ * without a start date they start when their dependency is due, else when the card starts.
+ * Cards without dates take their span from their tasks.
+ */
+export const buildTimelineRows = (cards: Card[]): TimelineData => {
+  const rows: TimelineRow[] = [];
+  let unscheduledCount = 0;
+
+  // Tasks can depend on tasks on other cards, so due dates are collected board-wide
+  const taskDueDates = new Map<string, Date>();
+  cards.forEach(card => (card.tasks || []).forEach(task => {
+    const dueDate = toDate(task.dueDate);
+    if (dueDate) taskDueDates.set(task._id, dueDate);
+  }));
+
+  const scheduledCards = cards.map(card => {
+    const cardStartDate = toDate(card.startDate);
+    const cardDueDate = toDate(card.dueDate);
+    const tasks = card.tasks || [];
+
+    const taskRows: TimelineRow[] = [];
+    tasks.forEach(task => {
+      const dueDate = taskDueDates.get(task._id);
+      if (!dueDate) {
+        unscheduledCount += 1;
+        return;
+      }
+
+      const startDate = toDate(task.startDate);
+      const end = startOfDay(dueDate);
+      const predecessorIds: string[] = (task.dependsOn || []).filter((id: string) => taskDueDates.has(id));
+      const dependencyDues = predecessorIds.map(id => taskDueDates.get(id) as Date);
+      const dependencyDue = dependencyDues.length > 0 ? latest(dependencyDues) : undefined;
+      const fallbackStart = dependencyDue && dependencyDue < dueDate
+        ? addDays(startOfDay(dependencyDue), 1)
+        : cardStartDate && cardStartDate < dueDate ? cardStartDate : end;
+      const start = startOfDay(startDate && startDate <= dueDate ? startDate : fallbackStart);
+
+      taskRows.push({
+        key: `task-${task._id}`,
+        type: 'task',
+        cardId: card._id,
+        taskId: task._id,
+        title: task.title,
+        start: start > end ? end : start,
+        end,
+        startDate,
+        dueDate,
+        completed: !!task.completed,
+        isLocked: !!task.isLocked,
+        color: card.color,
+        predecessors: predecessorIds.map(id => `task-${id}`)
+      });
+    });
+
+    const spanStarts = [cardStartDate, cardDueDate, ...taskRows.map(row => row.start)].filter((date): date is Date => !!date);
+    const spanEnds = [cardDueDate, ...taskRows.map(row => row.end)].filter((date): date is Date => !!date);
+
+    if (spanEnds.length === 0) {
+      unscheduledCount += 1;
+      return null;
+    }
+
+    const end = startOfDay(cardDueDate || latest(spanEnds));
+    const start = startOfDay(earliest(spanStarts));
+
+    const cardRow: TimelineRow = {
+      key: `card-${card._id}`,
+      type: 'card',
+      cardId: card._id,
+      title: card.title,
+      subtitle: getCurrentStageName(card) || undefined,
+      start: start > end ? end : start,
+      end,
+      startDate: cardStartDate,
+      dueDate: cardDueDate,
+      completed: card.status === 'completed',
+      isLocked: false,
+      color: card.color,
+      predecessors: []
+    };
+
+    taskRows.sort((a, b) => a.start.getTime() - b.start.getTime() || a.end.getTime() - b.end.getTime());
+    return { cardRow, taskRows };
+  });
+
+  scheduledCards
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+    .sort((a, b) => a.cardRow.start.getTime() - b.cardRow.start.getTime())
+    .forEach(({ cardRow, taskRows }) => {
+      rows.push(cardRow, ...taskRows);
+    });
+
+  return { rows, unscheduledCount };
+};
+
+/**
+ * Critical path through the task dependency graph: a backward pass from the
+ * latest finish gives each task its latest allowed finish, and tasks with no
+ * slack left are critical.
+ */
+export const getCriticalPath = (rows: TimelineRow[]) => {
+  const tasks = rows.filter(row => row.type === 'task');
+  const critical = new Set<string>();
+  if (tasks.length === 0) return critical;
+
+  const byKey = new Map(tasks.map(row => [row.key, row]));
+  const successors = new Map<string, TimelineRow[]>();
+  tasks.forEach(row => {
+    row.predecessors.forEach(key => {
+      if (byKey.has(key)) successors.set(key, [...(successors.get(key) || []), row]);
+    });
+  });
+
+  const projectEnd = latest(tasks.map(row => row.end));
+  const latestStart = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  // Latest start in days relative to the project end (0); successors must start after this row ends
+  const getLatestStart = (row: TimelineRow): number => {
+    const cached = latestStart.get(row.key);
+    if (cached !== undefined) return cached;
+    if (visiting.has(row.key)) return 0;
+    visiting.add(row.key);
+
+    const next = successors.get(row.key) || [];
+    const latestFinish = next.length > 0
+      ? Math.min(...next.map(successor => getLatestStart(successor) - 1))
+      : 0;
+    const value = latestFinish - daysBetween(row.start, row.end);
+
+    visiting.delete(row.key);
+    latestStart.set(row.key, value);
+    return value;
+  };
+
+  tasks.forEach(row => {
+    const earliestStart = daysBetween(projectEnd, row.start);
+    if (getLatestStart(row) - earliestStart <= 0) {
+      critical.add(row.key);
+    }
+  });
+
+  return critical;
+};
+
+// Visible date range: a little padding around all bars, always including today
+export const getTimelineRange = (rows: TimelineRow[], today = startOfDay(new Date())) => {
+  const starts = [today, ...rows.map(row => row.start)];
+  const ends = [today, ...rows.map(row => row.end)];
+  return {
+    start: addDays(earliest(starts), -3),
+    end: addDays(latest(ends), 14)
+  };
+};
@@ -167,17 +167,6 @@ export interface BoardFilters {
   view: ViewMode;
 }
 
-// Permission Types
-export interface Permissions {
-  canView: boolean;
-  canEdit: boolean;
-  canDelete: boolean;
-  canArchive: boolean;
-  canCreateLists: boolean;
-  canManageMembers: boolean;
-  canStar: boolean;
-}
-
 // API Response Types
 export interface ApiResponse<T> {
   success: boolean;
@@ -1,7 +1,8 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { useSocket } from '@/hooks/useSocket';
+import type { AppNotification } from '@/lib/notificationService';
 import Cookies from 'js-cookie';
 
 interface SocketContextType {
@@ -17,8 +18,14 @@ interface SocketContextType {
   joinCard: (cardId: string) => void;
   leaveCard: (cardId: string) => void;
   disconnect: () => void;
+  onNotification: (handler: NotificationHandler) => () => void;
+  onNotificationRead: (handler: NotificationReadHandler) => () => void;
+  markNotificationRead: (notificationId: string) => void;
 }
 
+type NotificationHandler = (notification: AppNotification) => void;
+type NotificationReadHandler = (notificationId: string) => void;
+
 const SocketContext = createContext<SocketContextType | undefined>(undefined);
 
 // Export the context for direct use
@@ -38,6 +45,8 @@ interface SocketProviderProps {
 
 export const SocketProvider = ({ children }: SocketProviderProps) => {
   const [onlineUsers, setOnlineUsers] = useState<string[]>([]);
+  const notificationHandlers = useRef(new Set<NotificationHandler>());
+  const notificationReadHandlers = useRef(new Set<NotificationReadHandler>());
   const token = Cookies.get('token');
 
 
@@ -79,17 +88,50 @@ export const SocketProvider = ({ children }: SocketProviderProps) => {
       }
     };
 
+    // Fan live notifications out to every subscribed component
+    const handleNotification = (notification: AppNotification) => {
+      notificationHandlers.current.forEach(handler => handler(notification));
+    };
+
+    const handleNotificationRead = (data: { notificationId: string }) => {
+      notificationReadHandlers.current.forEach(handler => handler(data.notificationId));
+    };
+
     on('user_online', handleUserOnline);
     on('user_offline', handleUserOffline);
     on('user_status_change', handleUserStatusChange);
+    on('notification:new', handleNotification);
+    on('notification:read', handleNotificationRead);
 
     return () => {
       off('user_online', handleUserOnline);
       off('user_offline', handleUserOffline);
       off('user_status_change', handleUserStatusChange);
+      off('notification:new', handleNotification);
+      off('notification:read', handleNotificationRead);
     };
   }, [socket, isConnected, on, off]);
 
+  const onNotification = useCallback((handler: NotificationHandler) => {
+    notificationHandlers.current.add(handler);
+    return () => {
+      notificationHandlers.current.delete(handler);
+    };
+  }, []);
+
+  const onNotificationRead = useCallback((handler: NotificationReadHandler) => {
+    notificationReadHandlers.current.add(handler);
+    return () => {
+      notificationReadHandlers.current.delete(handler);
+    };
+  }, []);
+
+  const markNotificationRead = useCallback((notificationId: string) => {
+    if (socket?.connected) {
+      socket.emit('mark-notification-read', notificationId);
+    }
+  }, [socket]);
+
   const value: SocketContextType = {
     socket,
     isConnected,
@@ -101,7 +143,10 @@ export const SocketProvider = ({ children }: SocketProviderProps) => {
     leaveBoard,
     joinCard,
     leaveCard,
-    disconnect
+    disconnect,
+    onNotification,
+    onNotificationRead,
+    markNotificationRead
   };
 
   return (
@@ -0,0 +1,89 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { usePathname } from 'next/navigation';
+import Cookies from 'js-cookie';
+import { timeTrackingApi, ActiveTimer, TimeEntry } from '@/services/trelloBoardsApi';
+
+interface TimerContextType {
+  activeTimer: ActiveTimer | null;
+  // Changes whenever time is logged by a timer, so views showing logged time can reload
+  loggedAt: number;
+  // Both resolve with a notice when an approved timesheet week changed how the stopped timer was logged
+  startTimer: (cardId: string, taskId?: string | null) => Promise<string | null>;
+  stopTimer: () => Promise<{ entry: TimeEntry | null; notice: string | null }>;
+  discardTimer: () => Promise<void>;
+  refreshTimer: () => Promise<void>;
+}
+
+const TimerContext = createContext<TimerContextType | undefined>(undefined);
+
+export const useTimer = () => {
+  const context = useContext(TimerContext);
+  if (!context) {
+    throw new Error('useTimer must be used within a TimerProvider');
+  }
+  return context;
+};
+
+/**
+ * The current user's time tracking timer. It lives on the server, so it
+ * survives reloads and is picked up again on navigation (which covers signing
+ * in and out) and whenever the tab regains focus, since it may have been
+ * stopped or started in another tab or on another device.
+ */
+export const TimerProvider = ({ children }: { children: React.ReactNode }) => {
+  const [activeTimer, setActiveTimer] = useState<ActiveTimer | null>(null);
+  const [loggedAt, setLoggedAt] = useState(0);
+  const pathname = usePathname();
+
+  const refreshTimer = useCallback(async () => {
+    if (!Cookies.get('token')) {
+      setActiveTimer(null);
+      return;
+    }
+
+    try {
+      setActiveTimer(await timeTrackingApi.getActiveTimer());
+    } catch (error) {
+      console.error('Error loading timer:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshTimer();
+  }, [refreshTimer, pathname]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') refreshTimer();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [refreshTimer]);
+
+  const startTimer = useCallback(async (cardId: string, taskId?: string | null) => {
+    const { timer, stoppedEntry, stoppedNotice } = await timeTrackingApi.startTimer(cardId, taskId);
+    setActiveTimer(timer);
+    if (stoppedEntry) setLoggedAt(Date.now());
+    return stoppedNotice;
+  }, []);
+
+  const stopTimer = useCallback(async () => {
+    const { entry, notice } = await timeTrackingApi.stopTimer();
+    setActiveTimer(null);
+    setLoggedAt(Date.now());
+    return { entry, notice };
+  }, []);
+
+  const discardTimer = useCallback(async () => {
+    await timeTrackingApi.discardTimer();
+    setActiveTimer(null);
+  }, []);
+
+  return (
+    <TimerContext.Provider value={{ activeTimer, loggedAt, startTimer, stopTimer, discardTimer, refreshTimer }}>
+      {children}
+    </TimerContext.Provider>
+  );
+};
@@ -0,0 +1,32 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { organizationService, Department, Position } from '@/lib/organizationService';
+
+// Managed departments and positions, for pickers and filters
+export const useOrganization = () => {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const [fetchedDepartments, fetchedPositions] = await Promise.all([
+        organizationService.getDepartments(),
+        organizationService.getPositions()
+      ]);
+      setDepartments(fetchedDepartments);
+      setPositions(fetchedPositions);
+    } catch (error) {
+      console.error('Error loading departments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { departments, positions, loading, reload };
+};
@@ -2,6 +2,7 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
+import type { AppNotification } from '@/lib/notificationService';
 
 interface UseSocketOptions {
   url?: string;
@@ -78,6 +79,10 @@ interface UserTypingData {
   isTyping: boolean;
 }
 
+interface NotificationReadData {
+  notificationId: string;
+}
+
 interface SocketEvents {
   // Project events
   project_updated: (data: ProjectUpdatedData) => void;
@@ -114,6 +119,10 @@ interface SocketEvents {
   user_offline: (data: UserPresenceData) => void;
   user_typing: (data: UserTypingData) => void;
   user_status_change: (data: UserPresenceData) => void;
+
+  // Notification events
+  'notification:new': (data: AppNotification) => void;
+  'notification:read': (data: NotificationReadData) => void;
 }
 
 export const useSocket = (options: UseSocketOptions = {}) => {
@@ -68,13 +68,15 @@ export type ActivityType =
   // Board activities
   | 'board_created' | 'board_updated' | 'board_deleted' | 'board_archived'
   // List activities
-  | 'list_created' | 'list_updated' | 'list_deleted' | 'list_moved'
+  | 'list_created' | 'list_updated' | 'list_deleted' | 'list_moved' | 'list_archived' | 'list_restored'
   // Card activities
-  | 'card_created' | 'card_updated' | 'card_deleted' | 'card_moved'
+  | 'card_created' | 'card_updated' | 'card_deleted' | 'card_moved' | 'card_auto_moved' | 'card_wip_limit_overridden'
+  | 'card_archived' | 'card_restored'
   | 'card_assigned' | 'card_unassigned' | 'card_completed' | 'card_reopened'
   | 'card_due_date_set' | 'card_due_date_changed' | 'card_comment_added'
   | 'card_attachment_added' | 'card_attachment_removed' | 'card_label_added'
-  | 'card_label_removed' | 'card_checklist_item_completed';
+  | 'card_label_removed' | 'card_checklist_item_completed'
+  | 'card_workflow_updated' | 'card_workflow_progressed';
 
 export interface ActivityTypeInfo {
   type: ActivityType;
@@ -282,6 +284,18 @@ export const activityService = {
         return `${userName} commented on "${activity.card?.title || entityName}"`;
       case 'card_moved':
         return `${userName} moved card "${activity.card?.title || entityName}"`;
+      case 'card_auto_moved':
+        return `"${activity.card?.title || entityName}" was moved automatically by a list rule`;
+      case 'card_wip_limit_overridden':
+        return `${userName} moved "${activity.card?.title || entityName}" past a WIP limit${activity.data?.comment ? `: ${activity.data.comment}` : ''}`;
+      case 'card_archived':
+        return `${userName} archived card "${activity.card?.title || entityName}"`;
+      case 'card_restored':
+        return `${userName} restored card "${activity.card?.title || entityName}"`;
+      case 'card_workflow_updated':
+        return `${userName} updated the workflow of "${activity.card?.title || entityName}"`;
+      case 'card_workflow_progressed':
+        return `${userName} changed the workflow stage of "${activity.card?.title || entityName}"`;
       default:
         return `${userName} ${activity.description} ${entityName}`;
     }
@@ -306,6 +320,7 @@ export const activityService = {
       case 'card_updated':
         return '✏️';
       case 'card_moved':
+      case 'card_auto_moved':
         return '🔄';
       case 'card_assigned':
         return '👤';
@@ -313,6 +328,16 @@ export const activityService = {
         return '✅';
       case 'card_comment_added':
         return '💬';
+      case 'card_wip_limit_overridden':
+        return '⚠️';
+      case 'card_archived':
+      case 'card_restored':
+      case 'list_archived':
+      case 'list_restored':
+        return '🗄️';
+      case 'card_workflow_updated':
+      case 'card_workflow_progressed':
+        return '🔀';
       default:
         return '📌';
     }
@@ -340,9 +365,15 @@ export const activityService = {
       case 'card_assigned':
         return 'text-purple-600 bg-purple-100';
       case 'card_moved':
+      case 'card_auto_moved':
         return 'text-orange-600 bg-orange-100';
       case 'card_comment_added':
         return 'text-gray-600 bg-gray-100';
+      case 'card_wip_limit_overridden':
+        return 'text-amber-600 bg-amber-100';
+      case 'card_workflow_updated':
+      case 'card_workflow_progressed':
+        return 'text-blue-600 bg-blue-100';
       default:
         return 'text-gray-600 bg-gray-100';
     }
@@ -0,0 +1,82 @@
+import { UserRole } from './permissions';
+
+// Board permission matrix. Mirrors server/config/boardPermissions.js; keep the two in step.
+
+export type BoardRole = 'owner' | 'admin' | 'editor' | 'member' | 'viewer';
+
+export type BoardAction =
+  | 'view_board'
+  | 'edit_board'
+  | 'delete_board'
+  | 'manage_members'
+  | 'manage_lists'
+  | 'delete_lists'
+  | 'create_cards'
+  | 'edit_cards'
+  | 'move_cards'
+  | 'delete_cards'
+  | 'purge_cards'
+  | 'manage_labels'
+  | 'manage_custom_fields'
+  | 'edit_automations'
+  | 'override_wip_limit'
+  | 'view_files'
+  | 'upload_files'
+  | 'comment';
+
+export type BoardPermissions = Record<BoardAction, boolean>;
+
+export const BOARD_PERMISSIONS: Record<BoardAction, BoardRole[]> = {
+  view_board: ['owner', 'admin', 'editor', 'member', 'viewer'],
+  edit_board: ['owner', 'admin'],
+  delete_board: ['owner'],
+  manage_members: ['owner', 'admin'],
+  // Create, rename, reorder and archive lists
+  manage_lists: ['owner', 'admin', 'editor'],
+  delete_lists: ['owner', 'admin'],
+  create_cards: ['owner', 'admin', 'editor', 'member'],
+  edit_cards: ['owner', 'admin', 'editor', 'member'],
+  move_cards: ['owner', 'admin', 'editor', 'member'],
+  delete_cards: ['owner', 'admin', 'editor'],
+  // Permanently delete archived cards and their stored files
+  purge_cards: ['owner', 'admin'],
+  manage_labels: ['owner', 'admin', 'editor', 'member'],
+  manage_custom_fields: ['owner', 'admin'],
+  edit_automations: ['owner', 'admin'],
+  override_wip_limit: ['owner', 'admin'],
+  view_files: ['owner', 'admin', 'editor', 'member', 'viewer'],
+  upload_files: ['owner', 'admin', 'editor', 'member'],
+  comment: ['owner', 'admin', 'editor', 'member', 'viewer'],
+};
+
+// Superadmins and admins act as owners on every board
+const APP_ROLES_WITH_FULL_ACCESS: UserRole[] = ['superadmin', 'admin'];
+
+interface BoardMembership {
+  createdBy?: { _id: string };
+  members?: Array<{ userId?: { _id: string }; role: string }>;
+}
+
+export const getBoardRole = (board: BoardMembership | null, userId: string | undefined, userRole: UserRole): BoardRole | null => {
+  if (APP_ROLES_WITH_FULL_ACCESS.includes(userRole)) return 'owner';
+  if (!board || !userId) return null;
+  if (board.createdBy?._id === userId) return 'owner';
+
+  // Clients only ever view boards, through the client portal
+  if (userRole === 'client') return 'viewer';
+
+  // Anyone else who can open the board sees it as a viewer
+  const member = board.members?.find(m => m.userId?._id === userId);
+  return member ? (member.role as BoardRole) : 'viewer';
+};
+
+export const canOnBoard = (boardRole: BoardRole | null, action: BoardAction): boolean => {
+  return !!boardRole && BOARD_PERMISSIONS[action].includes(boardRole);
+};
+
+export const getBoardPermissions = (boardRole: BoardRole | null): BoardPermissions => {
+  return (Object.keys(BOARD_PERMISSIONS) as BoardAction[]).reduce((permissions, action) => {
+    permissions[action] = canOnBoard(boardRole, action);
+    return permissions;
+  }, {} as BoardPermissions);
+};
@@ -0,0 +1,107 @@
+import axios from 'axios';
+import { getAuthToken } from './auth';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001/api';
+
+// Types
+export interface DashboardWorkItem {
+  _id: string;
+  type: 'task' | 'card';
+  title: string;
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+  dueDate: string | null;
+  completed: boolean;
+  isLocked?: boolean;
+  isOverdue: boolean;
+  cardId: string;
+  cardTitle: string;
+  listName: string;
+  boardId: string | null;
+  boardName: string;
+}
+
+export interface DashboardSummary {
+  boards: number;
+  cards: number;
+  openTasks: number;
+  myOpenTasks: number;
+  overdue: number;
+  dueSoon: number;
+  completedThisWeek: number;
+}
+
+export interface TeamWorkloadEntry {
+  user: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    avatar?: string;
+  };
+  openTasks: number;
+  overdueTasks: number;
+  completedThisWeek: number;
+}
+
+export interface DashboardUserStats {
+  total: number;
+  active: number;
+  inactive: number;
+  newThisMonth: number;
+  byRole: Record<string, number>;
+  byDepartment: Array<{
+    department: string;
+    count: number;
+  }>;
+}
+
+export interface DashboardActivity {
+  _id: string;
+  type: string;
+  user?: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    avatar?: string;
+  };
+  card?: {
+    _id: string;
+    title: string;
+  } | null;
+  description?: string;
+  createdAt: string;
+}
+
+export interface DashboardOverview {
+  summary: DashboardSummary;
+  myTasks: DashboardWorkItem[];
+  overdue: DashboardWorkItem[];
+  dueSoon: DashboardWorkItem[];
+  teamWorkload: TeamWorkloadEntry[] | null;
+  userStats: DashboardUserStats | null;
+  recentActivity: DashboardActivity[];
+}
+
+const getAuthHeaders = () => {
+  const token = getAuthToken();
+  return {
+    'Authorization': `Bearer ${token}`,
+    'Content-Type': 'application/json',
+  };
+};
+
+export const dashboardService = {
+  async getOverview(): Promise<DashboardOverview> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/dashboard/overview`, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data;
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      throw new Error(err.response?.data?.message || 'Failed to fetch dashboard overview');
+    }
+  },
+};
+
+export default dashboardService;
@@ -27,7 +27,133 @@ export interface EmailNotificationRequest {
   data: any;
 }
 
+export type NotificationType =
+  | 'task_assigned'
+  | 'card_assigned'
+  | 'mention'
+  | 'due_soon'
+  | 'task_unlocked'
+  | 'board_invite'
+  | 'timesheet_reviewed'
+  | 'client_feedback';
+
+export interface AppNotification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  actor?: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    avatar?: string;
+  } | null;
+  board?: {
+    _id: string;
+    name: string;
+  } | null;
+  card?: {
+    _id: string;
+    title: string;
+  } | null;
+  taskId?: string | null;
+  isRead: boolean;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+export interface NotificationListOptions {
+  limit?: number;
+  skip?: number;
+  types?: NotificationType[];
+  unreadOnly?: boolean;
+}
+
+export interface NotificationListResponse {
+  notifications: AppNotification[];
+  total: number;
+  unreadCount: number;
+}
+
+export const notificationTypeLabels: Record<NotificationType, string> = {
+  task_assigned: 'Task assignments',
+  card_assigned: 'Card assignments',
+  mention: 'Mentions',
+  due_soon: 'Due soon',
+  task_unlocked: 'Unlocked tasks',
+  board_invite: 'Board invites',
+  timesheet_reviewed: 'Timesheet reviews',
+  client_feedback: 'Client feedback',
+};
+
 export const notificationService = {
+  // Get the current user's notifications
+  async getNotifications(options?: NotificationListOptions): Promise<NotificationListResponse> {
+    try {
+      const params = new URLSearchParams();
+      if (options) {
+        if (options.limit) params.append('limit', options.limit.toString());
+        if (options.skip) params.append('skip', options.skip.toString());
+        if (options.types && options.types.length > 0) params.append('types', options.types.join(','));
+        if (options.unreadOnly) params.append('unreadOnly', 'true');
+      }
+
+      const response = await axios.get(`${API_BASE_URL}/notifications?${params.toString()}`, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return {
+        notifications: response.data.data || [],
+        total: response.data.total || 0,
+        unreadCount: response.data.unreadCount || 0,
+      };
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      throw new Error(err.response?.data?.message || 'Failed to fetch notifications');
+    }
+  },
+
+  // Get the number of unread notifications
+  async getUnreadCount(): Promise<number> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/notifications/unread-count`, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data?.unreadCount || 0;
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      throw new Error(err.response?.data?.message || 'Failed to fetch unread notification count');
+    }
+  },
+
+  // Mark a single notification as read
+  async markAsRead(notificationId: string): Promise<AppNotification> {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/notifications/${notificationId}/read`, {}, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data;
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      throw new Error(err.response?.data?.message || 'Failed to mark notification as read');
+    }
+  },
+
+  // Mark all notifications as read
+  async markAllAsRead(): Promise<void> {
+    try {
+      await axios.put(`${API_BASE_URL}/notifications/read-all`, {}, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      throw new Error(err.response?.data?.message || 'Failed to mark notifications as read');
+    }
+  },
+
   // Send task assignment notification
   async sendTaskAssignmentNotification(notificationData: TaskAssignmentNotification): Promise<boolean> {
     try {
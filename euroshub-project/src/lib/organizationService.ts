@@ -0,0 +1,197 @@
+import axios from 'axios';
+import { getAuthToken } from './auth';
+import { UserRole } from './permissions';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001/api';
+
+export interface DepartmentHead {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+  email?: string;
+}
+
+export interface Department {
+  _id: string;
+  name: string;
+  description: string;
+  head: DepartmentHead | null;
+  userCount: number;
+  createdAt: string;
+}
+
+export interface DepartmentInput {
+  name: string;
+  description?: string;
+  head?: string | null;
+}
+
+export interface Position {
+  _id: string;
+  title: string;
+  // null when the position is open to every department
+  department: { _id: string; name: string } | null;
+  description: string;
+}
+
+export interface PositionInput {
+  title: string;
+  department?: string | null;
+  description?: string;
+}
+
+export interface OrgChartPerson {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  avatar?: string;
+  role: UserRole;
+  department: string;
+  position: string;
+  reportsTo: string | null;
+}
+
+export interface OrgChart {
+  departments: Array<Omit<Department, 'userCount'>>;
+  people: OrgChartPerson[];
+}
+
+const getAuthHeaders = () => {
+  const token = getAuthToken();
+  return {
+    'Authorization': `Bearer ${token}`,
+    'Content-Type': 'application/json',
+  };
+};
+
+const toError = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string; errors?: Array<{ msg?: string }> } } };
+  return new Error(err.response?.data?.errors?.[0]?.msg || err.response?.data?.message || fallback);
+};
+
+export const organizationService = {
+  async getDepartments(): Promise<Department[]> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/organization/departments`, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data || [];
+    } catch (error: unknown) {
+      throw toError(error, 'Failed to fetch departments');
+    }
+  },
+
+  async createDepartment(department: DepartmentInput): Promise<Department> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/organization/departments`, department, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toError(error, 'Failed to create department');
+    }
+  },
+
+  async updateDepartment(departmentId: string, department: Partial<DepartmentInput>): Promise<Department> {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/organization/departments/${departmentId}`, department, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toError(error, 'Failed to update department');
+    }
+  },
+
+  async deleteDepartment(departmentId: string): Promise<void> {
+    try {
+      await axios.delete(`${API_BASE_URL}/organization/departments/${departmentId}`, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+    } catch (error: unknown) {
+      throw toError(error, 'Failed to delete department');
+    }
+  },
+
+  async getPositions(): Promise<Position[]> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/organization/positions`, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data || [];
+    } catch (error: unknown) {
+      throw toError(error, 'Failed to fetch positions');
+    }
+  },
+
+  async createPosition(position: PositionInput): Promise<Position> {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/organization/positions`, position, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toError(error, 'Failed to create position');
+    }
+  },
+
+  async updatePosition(positionId: string, position: Partial<PositionInput>): Promise<Position> {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/organization/positions/${positionId}`, position, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toError(error, 'Failed to update position');
+    }
+  },
+
+  async deletePosition(positionId: string): Promise<void> {
+    try {
+      await axios.delete(`${API_BASE_URL}/organization/positions/${positionId}`, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+    } catch (error: unknown) {
+      throw toError(error, 'Failed to delete position');
+    }
+  },
+
+  async getOrgChart(): Promise<OrgChart> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/organization/chart`, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toError(error, 'Failed to fetch org chart');
+    }
+  },
+
+  async updateReportsTo(userId: string, reportsTo: string | null): Promise<void> {
+    try {
+      await axios.put(`${API_BASE_URL}/organization/users/${userId}/reports-to`, { reportsTo }, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+    } catch (error: unknown) {
+      throw toError(error, 'Failed to update reporting line');
+    }
+  },
+};
+
+// Positions a user in the given department can hold
+export const getPositionsForDepartment = (positions: Position[], departments: Department[], departmentName: string) => {
+  const department = departments.find(item => item.name === departmentName);
+  return positions.filter(position => !position.department || (department && position.department._id === department._id));
+};
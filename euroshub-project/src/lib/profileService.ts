@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { getAuthToken } from './auth';
+import { NotificationType } from './notificationService';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001/api';
 
@@ -35,6 +36,31 @@ export interface UserProfile {
   avatar?: string;
 }
 
+export type NotificationChannel = 'inApp' | 'email' | 'slack';
+
+export type DigestFrequency = 'none' | 'daily' | 'weekly';
+
+export type NotificationEventChannels = Record<NotificationChannel, boolean>;
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timezone: string;
+}
+
+export interface NotificationPreferences {
+  events: Record<NotificationType, NotificationEventChannels>;
+  quietHours: QuietHours;
+  digestFrequency: DigestFrequency;
+}
+
+export interface NotificationPreferencesUpdateRequest {
+  events?: Partial<Record<NotificationType, Partial<NotificationEventChannels>>>;
+  quietHours?: Partial<QuietHours>;
+  digestFrequency?: DigestFrequency;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   message?: string;
@@ -136,4 +162,31 @@ export const profileService = {
       throw new Error(err.response?.data?.message || 'Failed to delete avatar');
     }
   },
+
+  async getNotificationPreferences(): Promise<NotificationPreferences> {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/profile/notification-preferences`, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data.preferences;
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      throw new Error(err.response?.data?.message || 'Failed to fetch notification preferences');
+    }
+  },
+
+  async updateNotificationPreferences(preferences: NotificationPreferencesUpdateRequest): Promise<NotificationPreferences> {
+    try {
+      const response = await axios.put(`${API_BASE_URL}/profile/notification-preferences`, preferences, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+      });
+      return response.data.data.preferences;
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string; errors?: Array<{ field?: string; path?: string; msg?: string; message?: string }> } } };
+      const firstError = err.response?.data?.errors?.[0];
+      throw new Error(firstError?.msg || firstError?.message || err.response?.data?.message || 'Failed to update notification preferences');
+    }
+  },
 };
\ No newline at end of file
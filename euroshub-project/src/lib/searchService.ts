@@ -0,0 +1,91 @@
+import axios from 'axios';
+import { getAuthToken } from './auth';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001/api';
+
+const getAuthHeaders = () => {
+  const token = getAuthToken();
+  return {
+    'Authorization': `Bearer ${token}`,
+    'Content-Type': 'application/json',
+  };
+};
+
+export type SearchResultType = 'board' | 'card' | 'task' | 'subtask' | 'comment' | 'file';
+
+export type SearchResultGroup = 'boards' | 'cards' | 'tasks' | 'comments' | 'files';
+
+// ProjectModal tab a result opens on
+export type SearchResultTab = 'overview' | 'tasks' | 'files' | 'comments';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  snippet: string;
+  boardId: string;
+  boardName: string;
+  cardId?: string;
+  cardTitle?: string;
+  taskId?: string;
+  tab?: SearchResultTab;
+  author?: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    avatar?: string;
+  } | null;
+  mimetype?: string;
+  size?: number;
+  score: number;
+  updatedAt: string;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: Record<SearchResultGroup, SearchResult[]>;
+  total: number;
+}
+
+export const SEARCH_MIN_QUERY_LENGTH = 2;
+
+export const searchGroupLabels: Record<SearchResultGroup, string> = {
+  boards: 'Boards',
+  cards: 'Cards',
+  tasks: 'Tasks',
+  comments: 'Comments',
+  files: 'Files',
+};
+
+// Board link for a result, opening the card on the matching tab when there is one
+export const getSearchResultHref = (result: SearchResult, role: string): string => {
+  const boardHref = `/${role}/boards/${result.boardId}`;
+  if (!result.cardId) return boardHref;
+
+  const params = new URLSearchParams({ card: result.cardId });
+  if (result.tab) params.set('tab', result.tab);
+  return `${boardHref}?${params.toString()}`;
+};
+
+export const searchService = {
+  // Search everything the current user can access
+  async search(query: string, options?: { limit?: number; signal?: AbortSignal }): Promise<SearchResponse> {
+    try {
+      const params = new URLSearchParams({ q: query });
+      if (options?.limit) params.append('limit', options.limit.toString());
+
+      const response = await axios.get(`${API_BASE_URL}/search?${params.toString()}`, {
+        headers: getAuthHeaders(),
+        withCredentials: true,
+        signal: options?.signal,
+      });
+      return response.data.data;
+    } catch (error: unknown) {
+      if (axios.isCancel(error)) throw error;
+      const err = error as { response?: { data?: { message?: string } } };
+      throw new Error(err.response?.data?.message || 'Failed to search');
+    }
+  },
+};
+
+export default searchService;
@@ -13,6 +13,7 @@ export interface CreateUserRequest {
   phone?: string;
   department?: string;
   position?: string;
+  reportsTo?: string | null;
 }
 
 export interface UpdateUserRequest {
@@ -25,6 +26,7 @@ export interface UpdateUserRequest {
   phone?: string;
   department?: string;
   position?: string;
+  reportsTo?: string | null;
   isActive?: boolean;
 }
 
@@ -38,6 +40,7 @@ export interface User {
   phone?: string;
   department?: string;
   position?: string;
+  reportsTo?: string | null;
   isActive: boolean;
   isEmailVerified: boolean;
   lastLogin?: string;
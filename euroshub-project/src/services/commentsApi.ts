@@ -11,9 +11,12 @@ const apiClient = axios.create({
   },
 });
 
+// Internal notes stay with the team; client comments are also shown to the card's clients
+export type CommentVisibility = 'internal' | 'client';
+
 export const commentsApi = {
   // Add comment
-  addComment: async (cardId: string, data: { text: string; mentions?: string[] }) => {
+  addComment: async (cardId: string, data: { text: string; mentions?: string[]; visibility?: CommentVisibility }) => {
     const response = await apiClient.post(`/cards/${cardId}/comments`, data);
     return response.data;
   },
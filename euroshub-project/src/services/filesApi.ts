@@ -91,6 +91,12 @@ export const fileApi = {
     return response.data.data;
   },
 
+  // Share a file with the card's clients, or make it internal again
+  setClientSharing: async (cardId: string, fileId: string, shared: boolean) => {
+    const response = await apiClient.put(`/cards/${cardId}/files/${fileId}/client-sharing`, { shared });
+    return response.data.data;
+  },
+
   // Delete file
   deleteFile: async (fileId: string, cardId: string) => {
     const response = await apiClient.delete(`/files/${fileId}`, {
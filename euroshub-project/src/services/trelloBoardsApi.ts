@@ -9,6 +9,8 @@ export interface User {
   email: string;
   avatar?: string;
   role: string;
+  department?: string;
+  position?: string;
 }
 export interface Board {
   _id: string;
@@ -23,10 +25,14 @@ export interface Board {
       firstName: string;
       lastName: string;
       avatar?: string;
+      role?: string;
     };
-    role: 'owner' | 'admin' | 'member' | 'viewer';
+    role: 'owner' | 'admin' | 'editor' | 'member' | 'viewer';
     joinedAt: Date;
+    direct?: boolean;
+    viaTeams?: Array<{ _id: string; name: string }>;
   }>;
+  teams?: BoardTeam[];
   createdBy?: {
     _id: string;
     id: string;
@@ -39,10 +45,88 @@ export interface Board {
   isStarred: boolean;
   listsCount: number;
   cardsCount: number;
+  labels?: BoardLabel[];
+  customFields?: CustomFieldDefinition[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface TeamUser {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  avatar?: string;
+  department?: string;
+  position?: string;
+}
+
+export interface Team {
+  _id: string;
+  name: string;
+  description: string;
+  department: string;
+  lead: TeamUser | null;
+  members: TeamUser[];
+  boardCount: number;
+  createdAt: string;
+}
+
+export interface TeamInput {
+  name: string;
+  description?: string;
+  department?: string;
+  lead?: string | null;
+  members: string[];
+}
+
+export type BoardTeamRole = 'admin' | 'editor' | 'member' | 'viewer';
+
+// A team added to a board; the board loads it with member ids only
+export interface BoardTeam {
+  teamId: {
+    _id: string;
+    name: string;
+    department?: string;
+    lead?: string | null;
+    members: string[];
+  } | null;
+  role: BoardTeamRole;
+  addedAt: string;
+}
+
+export type AutoMoveField = 'dueDate' | 'assignee' | 'labels' | 'checklist';
+
+export type AutoMoveOperator =
+  | 'equals' | 'contains' | 'notContains' | 'completed' | 'notCompleted'
+  | 'overdue' | 'dueWithin' | 'isEmpty';
+
+export interface AutoMoveCondition {
+  field: AutoMoveField;
+  operator: AutoMoveOperator;
+  value?: string | number | null;
+  // Older rules kept a target per condition
+  targetList?: string | null;
+}
+
+export interface AutoMoveSettings {
+  enabled: boolean;
+  match?: 'all' | 'any';
+  targetList?: string | null;
+  conditions: AutoMoveCondition[];
+}
+
+export interface AutoMovePreview {
+  cards: Array<{
+    _id: string;
+    title: string;
+    dueDate?: string;
+    targetListId: string;
+    targetListName: string;
+  }>;
+  totalCards: number;
+}
+
 export interface List {
   _id: string;
   boardId: string;
@@ -54,12 +138,9 @@ export interface List {
     wipLimit?: {
       enabled: boolean;
       limit: number;
+      mode?: 'warn' | 'block';
     };
-    autoMove?: {
-      enabled: boolean;
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      conditions: any[];
-    };
+    autoMove?: AutoMoveSettings;
     cardLimit?: number;
   };
   cardsCount?: number;
@@ -67,6 +148,205 @@ export interface List {
   updatedAt: Date;
 }
 
+export interface BoardTemplate {
+  _id: string;
+  name: string;
+  description: string;
+  background: string;
+  isBuiltIn: boolean;
+  isShared: boolean;
+  createdBy: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    avatar?: string;
+  } | null;
+  lists: Array<{
+    name: string;
+    color?: string;
+  }>;
+  cardsCount: number;
+  tasksCount: number;
+  createdAt: string | null;
+}
+
+export interface BoardCopyOptions {
+  includeCards: boolean;
+  includeTasks: boolean;
+  includeMembers: boolean;
+  includeAttachments: boolean;
+  resetProgress: boolean;
+}
+
+export interface BoardCopySummary {
+  lists: number;
+  cards: number;
+  tasks: number;
+  folders: number;
+  attachments: number;
+  skippedAttachments: number;
+}
+
+export interface BoardCopyProgress {
+  copyId: string;
+  phase: 'board' | 'lists' | 'cards' | 'done';
+  completed: number;
+  total: number;
+}
+
+export interface SavedBoardFilter {
+  _id: string;
+  name: string;
+  query: string;
+  createdAt: string;
+}
+
+export type AutomationTriggerType =
+  | 'card_moved_to_list' | 'all_tasks_completed' | 'due_date_passed' | 'label_added' | 'member_assigned';
+
+export type AutomationActionType =
+  | 'move_card' | 'assign_member' | 'add_label' | 'post_comment' | 'notify_slack' | 'set_due_date';
+
+export interface AutomationAction {
+  type: AutomationActionType;
+  listId?: string;
+  userId?: string;
+  label?: { name: string; color?: string };
+  text?: string;
+  channel?: string;
+  dueInDays?: number;
+}
+
+export interface BoardAutomation {
+  _id: string;
+  boardId: string;
+  name: string;
+  enabled: boolean;
+  trigger: {
+    type: AutomationTriggerType;
+    listId?: string;
+    label?: string;
+    userId?: string;
+  };
+  actions: AutomationAction[];
+  createdBy?: { _id: string; firstName: string; lastName: string; avatar?: string };
+  runCount: number;
+  lastRunAt?: string;
+  createdAt: string;
+}
+
+export type BoardAutomationInput = Pick<BoardAutomation, 'name' | 'enabled' | 'trigger' | 'actions'>;
+
+export interface AutomationRun {
+  _id: string;
+  card?: string;
+  cardTitle?: string;
+  status: 'success' | 'failed';
+  actions: Array<{
+    type: AutomationActionType;
+    status: 'success' | 'failed' | 'skipped';
+    message?: string;
+  }>;
+  ranAt: string;
+}
+
+// A label on the board's palette. Cards carry copies of the name and color.
+export interface BoardLabel {
+  _id: string;
+  name: string;
+  color: string;
+}
+
+export interface CardLabel {
+  name: string;
+  color: string;
+}
+
+// How a palette change carries over to cards, sent with 'board:labels-updated'
+export type BoardLabelChange =
+  | { type: 'updated'; from: string; label: CardLabel }
+  | { type: 'deleted'; name: string };
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'boolean' | 'select';
+
+export interface CustomFieldOption {
+  _id?: string;
+  name: string;
+  color: string;
+}
+
+export interface CustomFieldDefinition {
+  _id: string;
+  name: string;
+  type: CustomFieldType;
+  options: CustomFieldOption[];
+  required: boolean;
+  showOnCard: boolean;
+}
+
+export type CustomFieldInput = Omit<CustomFieldDefinition, '_id'>;
+
+// A card's value for one of the board's fields. Select values are option ids,
+// dates are ISO strings.
+export interface CardCustomFieldValue {
+  fieldId?: string | null;
+  value: string | number | boolean | null;
+}
+
+export interface ArchivedByUser {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+}
+
+// An archived card as listed in the board's archive. `list` is null when the
+// card's list has been deleted.
+export interface ArchivedCardItem {
+  _id: string;
+  title: string;
+  description?: string;
+  labels: CardLabel[];
+  color?: string | null;
+  coverImage?: string | null;
+  attachmentCount: number;
+  archivedAt: string | null;
+  archivedBy: ArchivedByUser | null;
+  list: { _id: string; name: string; isArchived: boolean } | null;
+}
+
+export interface ArchivedListItem {
+  _id: string;
+  name: string;
+  color?: string;
+  cardCount: number;
+  archivedAt: string | null;
+  archivedBy: ArchivedByUser | null;
+}
+
+export interface ArchivedItems {
+  cards: ArchivedCardItem[];
+  lists: ArchivedListItem[];
+}
+
+export interface CalendarEntry {
+  type: 'card' | 'task';
+  id: string;
+  cardId: string;
+  taskId?: string;
+  listId: string;
+  boardId: string;
+  boardName: string;
+  title: string;
+  cardTitle?: string;
+  dueDate: string;
+  completed: boolean;
+  priority?: string;
+  color?: string | null;
+}
+
+export type ClientFeedbackType = 'approval' | 'feedback';
+
 export interface Card {
   _id: string;
   listId: string;
@@ -85,11 +365,208 @@ export interface Card {
     };
     role: string;
   }>;
-  labels: string[];
+  labels: CardLabel[];
   dueDate?: Date;
+  status?: 'planning' | 'open' | 'in_progress' | 'review' | 'blocked' | 'completed' | 'on_hold';
+  workflowEnabled?: boolean;
+  workflowStages?: WorkflowStage[];
+  currentStageIndex?: number;
+  autoProgressEnabled?: boolean;
+  moveListOnProgress?: boolean;
+  stageListMapping?: Record<string, string>;
+  customFields?: CardCustomFieldValue[];
+  sharedWithClients?: string[];
   createdAt: Date;
 }
 
+export interface WorkflowStage {
+  _id?: string;
+  order: number;
+  name?: string;
+  assignedToType: 'user' | 'team';
+  assignedTo: string;
+  status: 'pending' | 'active' | 'completed';
+  startedAt?: string | null;
+  completedAt?: string | null;
+  taskIds: string[];
+}
+
+export interface CardWorkflow {
+  workflowEnabled: boolean;
+  workflowStages: WorkflowStage[];
+  currentStageIndex: number;
+  autoProgressEnabled: boolean;
+  moveListOnProgress: boolean;
+  // Stage index -> list the card moves to when that stage becomes active
+  stageListMapping: Record<string, string>;
+  status: NonNullable<Card['status']>;
+  listId: string;
+}
+
+export interface CardWorkflowInput {
+  workflowEnabled: boolean;
+  autoProgressEnabled: boolean;
+  moveListOnProgress: boolean;
+  stages: Array<Pick<WorkflowStage, '_id' | 'name' | 'assignedToType' | 'assignedTo' | 'taskIds'>>;
+  stageListMapping: Record<string, string>;
+}
+
+export interface BoardTask {
+  _id: string;
+  title: string;
+  completed: boolean;
+  isLocked: boolean;
+  dependsOn: string[];
+  cardId: string;
+  cardTitle: string;
+}
+
+export interface TimeEntryUser {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+}
+
+export interface TimeEntry {
+  _id: string;
+  user: TimeEntryUser;
+  hours: number;
+  description?: string;
+  date: string;
+  taskId?: string | null;
+  source: 'manual' | 'timer';
+  startedAt?: string;
+  endedAt?: string;
+  // Inside an approved timesheet week, so it can no longer be changed
+  locked?: boolean;
+}
+
+export interface TimeEntryInput {
+  hours: number;
+  date?: string;
+  taskId?: string | null;
+  description?: string;
+}
+
+export interface TimeByUser {
+  user: TimeEntryUser;
+  hours: number;
+}
+
+// Estimated vs logged hours; variance is logged minus estimated
+export interface CardTimeReport {
+  cardId: string;
+  cardTitle: string;
+  estimated: number;
+  spent: number;
+  remaining: number;
+  variance: number;
+  tasks: Array<{
+    taskId: string;
+    title: string;
+    completed: boolean;
+    estimated: number;
+    spent: number;
+    variance: number;
+  }>;
+  byUser: TimeByUser[];
+}
+
+export interface CardTimeData {
+  report: CardTimeReport;
+  // Newest first
+  entries: TimeEntry[];
+  activeTimers: Array<{
+    user: TimeEntryUser;
+    taskId?: string | null;
+    startedAt: string;
+  }>;
+}
+
+export interface ActiveTimer {
+  _id: string;
+  cardId: string;
+  cardTitle: string;
+  boardId?: string;
+  taskId?: string | null;
+  taskTitle?: string | null;
+  description: string;
+  startedAt: string;
+}
+
+export interface TimesheetRow {
+  cardId: string;
+  cardTitle: string;
+  boardId: string | null;
+  boardTitle: string;
+  taskId: string | null;
+  taskTitle: string | null;
+  // Hours per day of the week, from weekStart
+  days: number[];
+  total: number;
+}
+
+export interface TimesheetApproval {
+  _id: string;
+  user: string;
+  weekStart: string;
+  weekEnd: string;
+  status: 'approved' | 'returned';
+  comment: string;
+  totalHours: number;
+  reviewedBy: { _id: string; firstName: string; lastName: string } | null;
+  reviewedAt: string;
+}
+
+export interface Timesheet {
+  user: TimeEntryUser & { email: string };
+  weekStart: string;
+  weekEnd: string;
+  rows: TimesheetRow[];
+  entries: Array<Omit<TimeEntry, 'user' | 'startedAt' | 'endedAt' | 'locked'> & {
+    cardId: string;
+    cardTitle: string;
+    boardTitle: string;
+    taskTitle: string | null;
+  }>;
+  dailyTotals: number[];
+  total: number;
+  // Null while the week has not been reviewed
+  approval: TimesheetApproval | null;
+}
+
+// One person's week on the HR review page
+export interface TeamTimesheet {
+  user: TimeEntryUser & {
+    email: string;
+    role: string;
+    employeeId?: string;
+    department?: string;
+  };
+  total: number;
+  dailyTotals: number[];
+  boards: Array<{ boardId: string | null; boardTitle: string; hours: number }>;
+  approval: TimesheetApproval | null;
+}
+
+export interface TeamTimesheets {
+  weekStart: string;
+  weekEnd: string;
+  timesheets: TeamTimesheet[];
+}
+
+export interface BoardTimeReport {
+  cards: Array<CardTimeReport & { listTitle: string }>;
+  totals: {
+    estimated: number;
+    spent: number;
+    variance: number;
+    overEstimateCount: number;
+  };
+  byUser: TimeByUser[];
+}
+
 // Get auth token from localStorage or cookies (same as useAuth)
 const getAuthToken = (): string | null => {
   if (typeof window === 'undefined') return null;
@@ -165,6 +642,7 @@ export const boardsApi = {
     background?: string;
     visibility?: 'private' | 'team' | 'public';
     createDefaultLists?: boolean;
+    templateId?: string;
   }): Promise<Board> => {
     const response = await apiCall('/trello-boards', {
       method: 'POST',
@@ -173,6 +651,19 @@ export const boardsApi = {
     return response.data;
   },
 
+  // Deep copy a board; progress arrives as 'board:copy-progress' socket events for copyId
+  copyBoard: async (boardId: string, copyData: {
+    name?: string;
+    copyId?: string;
+    options?: Partial<BoardCopyOptions>;
+  }): Promise<{ board: Board; summary: BoardCopySummary }> => {
+    const response = await apiCall(`/trello-boards/${boardId}/copy`, {
+      method: 'POST',
+      body: JSON.stringify(copyData),
+    });
+    return response.data;
+  },
+
   // Get board details
   getBoard: async (boardId: string): Promise<Board & { lists: (List & { cards: Card[] })[] }> => {
     const response = await apiCall(`/trello-boards/${boardId}`);
@@ -208,6 +699,12 @@ export const boardsApi = {
     return response.data;
   },
 
+  // Get archived cards and lists
+  getArchivedItems: async (boardId: string): Promise<ArchivedItems> => {
+    const response = await apiCall(`/trello-boards/${boardId}/archived`);
+    return response.data;
+  },
+
   // Toggle star
   toggleStar: async (boardId: string): Promise<{ isStarred: boolean }> => {
     const response = await apiCall(`/trello-boards/${boardId}/star`, {
@@ -217,7 +714,7 @@ export const boardsApi = {
   },
 
   // Add member
-  addMember: async (boardId: string, userId: string, role: 'owner' | 'admin' | 'editor' | 'viewer' = 'viewer'): Promise<void> => {
+  addMember: async (boardId: string, userId: string, role: 'owner' | 'admin' | 'editor' | 'member' | 'viewer' = 'viewer'): Promise<void> => {
     await apiCall(`/trello-boards/${boardId}/members`, {
       method: 'POST',
       body: JSON.stringify({ userId, role }),
@@ -225,7 +722,7 @@ export const boardsApi = {
   },
 
   // Update member role
-  updateMemberRole: async (boardId: string, userId: string, role: 'owner' | 'admin' | 'editor' | 'viewer'): Promise<void> => {
+  updateMemberRole: async (boardId: string, userId: string, role: 'owner' | 'admin' | 'editor' | 'member' | 'viewer'): Promise<void> => {
     await apiCall(`/trello-boards/${boardId}/members/${userId}/role`, {
       method: 'PUT',
       body: JSON.stringify({ role }),
@@ -239,6 +736,27 @@ export const boardsApi = {
     });
   },
 
+  // Add a team; its members get access with the team's role
+  addTeam: async (boardId: string, teamId: string, role: BoardTeamRole = 'member'): Promise<void> => {
+    await apiCall(`/trello-boards/${boardId}/teams`, {
+      method: 'POST',
+      body: JSON.stringify({ teamId, role }),
+    });
+  },
+
+  updateTeamRole: async (boardId: string, teamId: string, role: BoardTeamRole): Promise<void> => {
+    await apiCall(`/trello-boards/${boardId}/teams/${teamId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  },
+
+  removeTeam: async (boardId: string, teamId: string): Promise<void> => {
+    await apiCall(`/trello-boards/${boardId}/teams/${teamId}`, {
+      method: 'DELETE',
+    });
+  },
+
   // Upload background image
   uploadBackground: async (imageFile: File): Promise<{ url: string; publicId: string }> => {
     const formData = new FormData();
@@ -253,6 +771,158 @@ export const boardsApi = {
   },
 };
 
+// Board template API calls
+export const templatesApi = {
+  // Get built-in, own and shared templates
+  getTemplates: async (): Promise<BoardTemplate[]> => {
+    const response = await apiCall('/trello-boards/templates');
+    return response.data;
+  },
+
+  // Save a board's structure as a template
+  saveBoardAsTemplate: async (boardId: string, templateData: {
+    name?: string;
+    description?: string;
+    isShared?: boolean;
+  }): Promise<BoardTemplate> => {
+    const response = await apiCall(`/trello-boards/${boardId}/template`, {
+      method: 'POST',
+      body: JSON.stringify(templateData),
+    });
+    return response.data;
+  },
+
+  // Delete a saved template
+  deleteTemplate: async (templateId: string): Promise<void> => {
+    await apiCall(`/trello-boards/templates/${templateId}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// Saved card filter API calls
+export const filtersApi = {
+  // Get the current user's saved filters for a board
+  getSavedFilters: async (boardId: string): Promise<SavedBoardFilter[]> => {
+    const response = await apiCall(`/trello-boards/${boardId}/filters`);
+    return response.data;
+  },
+
+  // Save the current filter query under a name
+  saveFilter: async (boardId: string, name: string, query: string): Promise<SavedBoardFilter[]> => {
+    const response = await apiCall(`/trello-boards/${boardId}/filters`, {
+      method: 'POST',
+      body: JSON.stringify({ name, query }),
+    });
+    return response.data;
+  },
+
+  // Delete a saved filter
+  deleteFilter: async (boardId: string, filterId: string): Promise<SavedBoardFilter[]> => {
+    const response = await apiCall(`/trello-boards/${boardId}/filters/${filterId}`, {
+      method: 'DELETE',
+    });
+    return response.data;
+  },
+};
+
+// Board automation API calls
+export const automationsApi = {
+  // Get the board's automations and whether the current user may change them
+  getAutomations: async (boardId: string): Promise<{ automations: BoardAutomation[]; canManage: boolean }> => {
+    const response = await apiCall(`/trello-boards/${boardId}/automations`);
+    return { automations: response.data, canManage: !!response.canManage };
+  },
+
+  createAutomation: async (boardId: string, automation: BoardAutomationInput): Promise<BoardAutomation> => {
+    const response = await apiCall(`/trello-boards/${boardId}/automations`, {
+      method: 'POST',
+      body: JSON.stringify(automation),
+    });
+    return response.data;
+  },
+
+  updateAutomation: async (boardId: string, automationId: string, updates: Partial<BoardAutomationInput>): Promise<BoardAutomation> => {
+    const response = await apiCall(`/trello-boards/${boardId}/automations/${automationId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+    return response.data;
+  },
+
+  deleteAutomation: async (boardId: string, automationId: string): Promise<void> => {
+    await apiCall(`/trello-boards/${boardId}/automations/${automationId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Recent runs, newest first
+  getRuns: async (boardId: string, automationId: string): Promise<AutomationRun[]> => {
+    const response = await apiCall(`/trello-boards/${boardId}/automations/${automationId}/runs`);
+    return response.data;
+  },
+};
+
+// Board label palette API calls. Every change returns the board's labels in order.
+export const labelsApi = {
+  createLabel: async (boardId: string, label: CardLabel): Promise<BoardLabel[]> => {
+    const response = await apiCall(`/trello-boards/${boardId}/labels`, {
+      method: 'POST',
+      body: JSON.stringify(label),
+    });
+    return response.data;
+  },
+
+  updateLabel: async (boardId: string, labelId: string, updates: Partial<CardLabel>): Promise<BoardLabel[]> => {
+    const response = await apiCall(`/trello-boards/${boardId}/labels/${labelId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+    return response.data;
+  },
+
+  deleteLabel: async (boardId: string, labelId: string): Promise<BoardLabel[]> => {
+    const response = await apiCall(`/trello-boards/${boardId}/labels/${labelId}`, {
+      method: 'DELETE',
+    });
+    return response.data;
+  },
+};
+
+// Board custom field API calls. Every change returns the board's fields in order.
+export const customFieldsApi = {
+  createField: async (boardId: string, field: CustomFieldInput): Promise<CustomFieldDefinition[]> => {
+    const response = await apiCall(`/trello-boards/${boardId}/custom-fields`, {
+      method: 'POST',
+      body: JSON.stringify(field),
+    });
+    return response.data;
+  },
+
+  updateField: async (boardId: string, fieldId: string, updates: Partial<CustomFieldInput>): Promise<CustomFieldDefinition[]> => {
+    const response = await apiCall(`/trello-boards/${boardId}/custom-fields/${fieldId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+    return response.data;
+  },
+
+  deleteField: async (boardId: string, fieldId: string): Promise<CustomFieldDefinition[]> => {
+    const response = await apiCall(`/trello-boards/${boardId}/custom-fields/${fieldId}`, {
+      method: 'DELETE',
+    });
+    return response.data;
+  },
+
+  reorderFields: async (boardId: string, fieldIds: string[]): Promise<CustomFieldDefinition[]> => {
+    const response = await apiCall(`/trello-boards/${boardId}/custom-fields/reorder`, {
+      method: 'PUT',
+      body: JSON.stringify({ fieldIds }),
+    });
+    return response.data;
+  },
+};
+
 // List API calls
 export const listsApi = {
   // Get lists for board
@@ -284,12 +954,9 @@ export const listsApi = {
       wipLimit?: {
         enabled: boolean;
         limit: number;
+        mode?: 'warn' | 'block';
       };
-      autoMove?: {
-        enabled: boolean;
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        conditions: any[];
-      };
+      autoMove?: AutoMoveSettings;
       cardLimit?: number;
     };
   }): Promise<List> => {
@@ -300,6 +967,15 @@ export const listsApi = {
     return response.data;
   },
 
+  // Cards an auto-move rule would move right now, without saving the rule
+  previewAutoMove: async (listId: string, autoMove: AutoMoveSettings): Promise<AutoMovePreview> => {
+    const response = await apiCall(`/trello-lists/${listId}/auto-move/preview`, {
+      method: 'POST',
+      body: JSON.stringify({ autoMove }),
+    });
+    return response.data;
+  },
+
   // Delete list
   deleteList: async (listId: string): Promise<void> => {
     await apiCall(`/trello-lists/${listId}`, {
@@ -315,6 +991,14 @@ export const listsApi = {
     return response.data;
   },
 
+  // Permanently delete an archived list and its cards (board admins only)
+  deleteListPermanently: async (listId: string): Promise<{ cardCount: number }> => {
+    const response = await apiCall(`/trello-lists/${listId}/permanent`, {
+      method: 'DELETE',
+    });
+    return response.data;
+  },
+
   // Reorder list
   reorderList: async (listId: string, position: number, listOrder?: Array<{ listId: string }>): Promise<void> => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -347,13 +1031,20 @@ export const cardsApi = {
     return response.data;
   },
 
+  // Get the current user's cards and tasks due between two dates, across all boards
+  getMyCalendar: async (from: Date, to: Date): Promise<CalendarEntry[]> => {
+    const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+    const response = await apiCall(`/trello-cards/calendar?${params.toString()}`);
+    return response.data;
+  },
+
   // Create card
   createCard: async (listId: string, cardData: {
     title: string;
     description?: string;
     coverImage?: string;
     color?: string;
-    labels?: string[];
+    labels?: CardLabel[];
     dueDate?: Date;
     position?: number;
   }): Promise<Card> => {
@@ -377,7 +1068,7 @@ export const cardsApi = {
     description?: string;
     coverImage?: string;
     color?: string;
-    labels?: string[];
+    labels?: CardLabel[];
     dueDate?: Date;
     startDate?: Date;
     budget?: number;
@@ -386,7 +1077,6 @@ export const cardsApi = {
     status?: 'planning' | 'open' | 'in_progress' | 'review' | 'blocked' | 'completed' | 'on_hold';
     progress?: number;
     estimatedHours?: number;
-    actualHours?: number;
   }): Promise<Card> => {
     const response = await apiCall(`/trello-cards/${cardId}`, {
       method: 'PUT',
@@ -402,13 +1092,13 @@ export const cardsApi = {
     });
   },
 
-  // Move card to different list
-  moveCard: async (cardId: string, targetListId: string, position?: number): Promise<void> => {
+  // Move card to different list; wipOverrideReason lets a board admin move past a blocking WIP limit
+  moveCard: async (cardId: string, targetListId: string, position?: number, wipOverrideReason?: string): Promise<void> => {
     console.log('API call: moveCard', { cardId, targetListId, position });
     try {
       await apiCall(`/trello-cards/${cardId}/move`, {
         method: 'POST',
-        body: JSON.stringify({ targetListId, position }),
+        body: JSON.stringify({ targetListId, position, wipOverrideReason }),
       });
     } catch (error) {
       console.error('moveCard API error:', error);
@@ -416,6 +1106,28 @@ export const cardsApi = {
     }
   },
 
+  getWorkflow: async (cardId: string): Promise<CardWorkflow> => {
+    const response = await apiCall(`/trello-cards/${cardId}/workflow`);
+    return response.data;
+  },
+
+  updateWorkflow: async (cardId: string, workflow: CardWorkflowInput): Promise<CardWorkflow> => {
+    const response = await apiCall(`/trello-cards/${cardId}/workflow`, {
+      method: 'PUT',
+      body: JSON.stringify(workflow),
+    });
+    return response.data;
+  },
+
+  // Advance to the next stage or roll back to the previous one, regardless of task progress
+  changeWorkflowStage: async (cardId: string, direction: 'next' | 'previous'): Promise<CardWorkflow> => {
+    const response = await apiCall(`/trello-cards/${cardId}/workflow/stage`, {
+      method: 'POST',
+      body: JSON.stringify({ direction }),
+    });
+    return response.data;
+  },
+
   // Reorder card within list
   reorderCard: async (cardId: string, position: number): Promise<void> => {
     console.log('API call: reorderCard', { cardId, position });
@@ -461,13 +1173,30 @@ export const cardsApi = {
     return response.data;
   },
 
+  // Restore an archived card; listId is needed when its own list is gone or archived
+  restoreCard: async (cardId: string, listId?: string): Promise<Card> => {
+    const response = await apiCall(`/trello-cards/${cardId}/restore`, {
+      method: 'PUT',
+      body: JSON.stringify({ listId }),
+    });
+    return response.data;
+  },
+
+  // Permanently delete an archived card and its files (board admins only)
+  deleteCardPermanently: async (cardId: string): Promise<void> => {
+    await apiCall(`/trello-cards/${cardId}/permanent`, {
+      method: 'DELETE',
+    });
+  },
+
   // Task management APIs
   addTask: async (cardId: string, taskData: {
     title: string;
     description?: string;
     assignedTo?: string | string[];
+    assignedTeam?: string | null;
     priority?: 'low' | 'medium' | 'high';
-    dependsOn?: string;
+    dependsOn?: string[];
     autoAssignOnUnlock?: boolean;
     assignToOnUnlock?: string[];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -484,8 +1213,14 @@ export const cardsApi = {
     description?: string;
     completed?: boolean;
     assignedTo?: string | string[];
+    assignedTeam?: string | null;
     priority?: 'low' | 'medium' | 'high';
-    dueDate?: Date | string;
+    startDate?: Date | string | null;
+    dueDate?: Date | string | null;
+    dependsOn?: string[];
+    autoAssignOnUnlock?: boolean;
+    assignToOnUnlock?: string[];
+    estimatedHours?: number | null;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   }): Promise<any> => {
     const response = await apiCall(`/trello-cards/${cardId}/tasks/${taskId}`, {
@@ -501,6 +1236,12 @@ export const cardsApi = {
     });
   },
 
+  // Tasks on the board's other cards, which this card's tasks can depend on
+  getBoardTasks: async (cardId: string): Promise<BoardTask[]> => {
+    const response = await apiCall(`/trello-cards/${cardId}/tasks/dependencies`);
+    return response.data;
+  },
+
   reorderTask: async (cardId: string, taskId: string, newPosition: number): Promise<void> => {
     await apiCall(`/trello-cards/${cardId}/tasks/${taskId}/reorder`, {
       method: 'PUT',
@@ -543,9 +1284,169 @@ export const cardsApi = {
       method: 'DELETE',
     });
   },
+
+  // Choose which of the board's clients see the card in the client portal
+  updateClientSharing: async (cardId: string, clientIds: string[]): Promise<string[]> => {
+    const response = await apiCall(`/trello-cards/${cardId}/client-sharing`, {
+      method: 'PUT',
+      body: JSON.stringify({ clientIds }),
+    });
+    return response.data.sharedWithClients;
+  },
+
+  // Clients approve a shared card's deliverables or leave feedback on it
+  sendClientFeedback: async (cardId: string, feedback: { type: ClientFeedbackType; text?: string }) => {
+    const response = await apiCall(`/trello-cards/${cardId}/client-feedback`, {
+      method: 'POST',
+      body: JSON.stringify(feedback),
+    });
+    return response.data;
+  },
+};
+
+// Time tracking API calls
+export const timeTrackingApi = {
+  // A card's time entries, estimate vs actual and who has a timer running on it
+  getCardTime: async (cardId: string): Promise<CardTimeData> => {
+    const response = await apiCall(`/trello-cards/${cardId}/time`);
+    return response.data;
+  },
+
+  logTime: async (cardId: string, entry: TimeEntryInput): Promise<CardTimeData> => {
+    const response = await apiCall(`/trello-cards/${cardId}/time`, {
+      method: 'POST',
+      body: JSON.stringify(entry),
+    });
+    return response.data;
+  },
+
+  updateTimeEntry: async (cardId: string, entryId: string, updates: Partial<TimeEntryInput>): Promise<CardTimeData> => {
+    const response = await apiCall(`/trello-cards/${cardId}/time/${entryId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+    return response.data;
+  },
+
+  deleteTimeEntry: async (cardId: string, entryId: string): Promise<CardTimeData> => {
+    const response = await apiCall(`/trello-cards/${cardId}/time/${entryId}`, {
+      method: 'DELETE',
+    });
+    return response.data;
+  },
+
+  // Starting a timer stops (and logs) the one already running
+  startTimer: async (cardId: string, taskId?: string | null): Promise<{ timer: ActiveTimer; stoppedEntry: TimeEntry | null; stoppedNotice: string | null }> => {
+    const response = await apiCall(`/trello-cards/${cardId}/timer`, {
+      method: 'POST',
+      body: JSON.stringify({ taskId: taskId || null }),
+    });
+    return response.data;
+  },
+
+  getActiveTimer: async (): Promise<ActiveTimer | null> => {
+    const response = await apiCall('/time-tracking/timer');
+    return response.data;
+  },
+
+  // entry is null when the timer ran for less than a minute or only in approved weeks;
+  // notice explains when an approved week moved or kept out the time
+  stopTimer: async (description?: string): Promise<{ cardId: string | null; entry: TimeEntry | null; hours: number; notice: string | null }> => {
+    const response = await apiCall('/time-tracking/timer/stop', {
+      method: 'POST',
+      body: JSON.stringify(description !== undefined ? { description } : {}),
+    });
+    return response.data;
+  },
+
+  discardTimer: async (): Promise<void> => {
+    await apiCall('/time-tracking/timer', {
+      method: 'DELETE',
+    });
+  },
+
+  // The 7 days from weekStart; userId defaults to the current user
+  getTimesheet: async (weekStart: Date, userId?: string): Promise<Timesheet> => {
+    const params = new URLSearchParams({ weekStart: weekStart.toISOString() });
+    if (userId) params.set('userId', userId);
+    const response = await apiCall(`/time-tracking/timesheet?${params.toString()}`);
+    return response.data;
+  },
+
+  getBoardReport: async (boardId: string): Promise<BoardTimeReport> => {
+    const response = await apiCall(`/trello-boards/${boardId}/time-report`);
+    return response.data;
+  },
+
+  // Everyone's week for HR review
+  getTeamTimesheets: async (weekStart: Date): Promise<TeamTimesheets> => {
+    const params = new URLSearchParams({ weekStart: weekStart.toISOString() });
+    const response = await apiCall(`/time-tracking/timesheets?${params.toString()}`);
+    return response.data;
+  },
+
+  // A comment is required when sending a week back
+  reviewTimesheet: async (
+    userId: string,
+    weekStart: Date,
+    status: TimesheetApproval['status'],
+    comment?: string
+  ): Promise<TimesheetApproval> => {
+    const response = await apiCall(`/time-tracking/timesheets/${userId}/review`, {
+      method: 'PUT',
+      body: JSON.stringify({ weekStart: weekStart.toISOString(), status, comment }),
+    });
+    return response.data;
+  },
+
+  // CSV of the approved weeks starting in [from, to)
+  exportApprovedTimesheets: async (from: Date, to: Date): Promise<Blob> => {
+    const token = getAuthToken();
+    const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+    const response = await fetch(`${API_BASE_URL}/time-tracking/timesheets/export?${params.toString()}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Network error' }));
+      throw new Error(error.message || `HTTP error! status: ${response.status}`);
+    }
+
+    return response.blob();
+  },
 };
 
 // Users API calls
+// Team API calls
+export const teamsApi = {
+  getTeams: async (): Promise<Team[]> => {
+    const response = await apiCall('/teams');
+    return response.data;
+  },
+
+  createTeam: async (team: TeamInput): Promise<Team> => {
+    const response = await apiCall('/teams', {
+      method: 'POST',
+      body: JSON.stringify(team),
+    });
+    return response.data;
+  },
+
+  updateTeam: async (teamId: string, team: Partial<TeamInput>): Promise<Team> => {
+    const response = await apiCall(`/teams/${teamId}`, {
+      method: 'PUT',
+      body: JSON.stringify(team),
+    });
+    return response.data;
+  },
+
+  deleteTeam: async (teamId: string): Promise<void> => {
+    await apiCall(`/teams/${teamId}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
 export const usersApi = {
   // Get all registered users
   getAllUsers: async (): Promise<User[]> => {
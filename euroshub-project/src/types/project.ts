@@ -128,14 +128,16 @@ export interface Task {
   completedAt?: string;
   completedBy?: User;
   assignedTo?: Array<{ _id: string; firstName: string; lastName: string; avatar?: string }>;
+  startDate?: string;
   dueDate?: string;
   priority: 'low' | 'medium' | 'high';
-  dependsOn?: string;
+  dependsOn?: string[];
   autoAssignOnUnlock?: boolean;
   assignToOnUnlock?: string[];
   isLocked?: boolean;
   lockedReason?: string;
   unlockedAt?: string;
+  estimatedHours?: number | null;
   position?: number;
   subtasks?: Subtask[];
   createdAt?: string | Date;
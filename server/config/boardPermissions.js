@@ -0,0 +1,60 @@
+// Who can do what on a board, by board role.
+// Mirrored for the client in euroshub-project/src/lib/boardPermissions.ts; keep the two in step.
+
+const BOARD_ROLES = ['owner', 'admin', 'editor', 'member', 'viewer'];
+
+const BOARD_PERMISSIONS = {
+  view_board: ['owner', 'admin', 'editor', 'member', 'viewer'],
+  edit_board: ['owner', 'admin'],
+  delete_board: ['owner'],
+  manage_members: ['owner', 'admin'],
+  // Create, rename, reorder and archive lists
+  manage_lists: ['owner', 'admin', 'editor'],
+  delete_lists: ['owner', 'admin'],
+  create_cards: ['owner', 'admin', 'editor', 'member'],
+  edit_cards: ['owner', 'admin', 'editor', 'member'],
+  move_cards: ['owner', 'admin', 'editor', 'member'],
+  delete_cards: ['owner', 'admin', 'editor'],
+  // Permanently delete archived cards and their stored files
+  purge_cards: ['owner', 'admin'],
+  manage_labels: ['owner', 'admin', 'editor', 'member'],
+  manage_custom_fields: ['owner', 'admin'],
+  edit_automations: ['owner', 'admin'],
+  override_wip_limit: ['owner', 'admin'],
+  view_files: ['owner', 'admin', 'editor', 'member', 'viewer'],
+  upload_files: ['owner', 'admin', 'editor', 'member'],
+  comment: ['owner', 'admin', 'editor', 'member', 'viewer']
+};
+
+// Older callers ask for coarse actions; each maps onto one row of the matrix
+const LEGACY_ACTIONS = {
+  read: 'view_board',
+  write: 'edit_cards',
+  delete: 'delete_board',
+  manage_settings: 'edit_board'
+};
+
+// Superadmins and admins act as owners on every board
+const APP_ROLES_WITH_FULL_ACCESS = ['superadmin', 'admin'];
+
+const resolveAction = (action) => LEGACY_ACTIONS[action] || action;
+
+const roleCan = (boardRole, action) => {
+  const roles = BOARD_PERMISSIONS[resolveAction(action)];
+  return !!roles && roles.includes(boardRole);
+};
+
+// Everything a board role may do, as { action: boolean }
+const getRolePermissions = (boardRole) => Object.keys(BOARD_PERMISSIONS).reduce((permissions, action) => {
+  permissions[action] = roleCan(boardRole, action);
+  return permissions;
+}, {});
+
+module.exports = {
+  BOARD_ROLES,
+  BOARD_PERMISSIONS,
+  APP_ROLES_WITH_FULL_ACCESS,
+  resolveAction,
+  roleCan,
+  getRolePermissions
+};
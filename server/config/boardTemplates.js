@@ -0,0 +1,134 @@
+// Built-in board templates shown in every user's template gallery.
+// They use the same shape as saved BoardTemplate documents.
+
+const BUILT_IN_TEMPLATES = [
+  {
+    _id: 'builtin-kanban',
+    name: 'Kanban',
+    description: 'A classic flow from backlog to done, with WIP limits on the busy columns.',
+    background: '#3b82f6',
+    lists: [
+      { name: 'Backlog', color: '#6B7280', listType: 'todo' },
+      { name: 'To Do', color: '#EF4444', listType: 'todo' },
+      { name: 'In Progress', color: '#F59E0B', listType: 'in_progress', settings: { wipLimit: { enabled: true, limit: 5 } } },
+      { name: 'Review', color: '#8B5CF6', listType: 'review', settings: { wipLimit: { enabled: true, limit: 3 } } },
+      { name: 'Done', color: '#10B981', listType: 'done' }
+    ],
+    cards: [
+      {
+        listIndex: 0,
+        title: 'How to use this board',
+        description: 'Add new work to Backlog, pull it into To Do when it is ready, and keep In Progress and Review within their WIP limits.',
+        priority: 'low',
+        labels: [{ name: 'Guide', color: '#3b82f6' }],
+        tasks: []
+      }
+    ]
+  },
+  {
+    _id: 'builtin-sprint',
+    name: 'Sprint',
+    description: 'Two-week sprint board with planning, review and retrospective cards.',
+    background: '#8b5cf6',
+    lists: [
+      { name: 'Sprint Backlog', color: '#6B7280', listType: 'todo' },
+      { name: 'In Progress', color: '#F59E0B', listType: 'in_progress', settings: { wipLimit: { enabled: true, limit: 4 } } },
+      { name: 'Code Review', color: '#8B5CF6', listType: 'review', settings: { wipLimit: { enabled: true, limit: 3 } } },
+      { name: 'QA', color: '#06B6D4', listType: 'review' },
+      { name: 'Done', color: '#10B981', listType: 'done' }
+    ],
+    cards: [
+      {
+        listIndex: 0,
+        title: 'Sprint Planning',
+        priority: 'high',
+        labels: [{ name: 'Ceremony', color: '#8b5cf6' }],
+        tasks: [
+          { title: 'Agree on the sprint goal', priority: 'high' },
+          { title: 'Estimate backlog items', dependsOn: [{ cardIndex: 0, taskIndex: 0 }] },
+          { title: 'Commit to the sprint backlog', dependsOn: [{ cardIndex: 0, taskIndex: 1 }] }
+        ]
+      },
+      {
+        listIndex: 0,
+        title: 'Sprint Review',
+        labels: [{ name: 'Ceremony', color: '#8b5cf6' }],
+        tasks: [
+          { title: 'Prepare the demo' },
+          { title: 'Collect stakeholder feedback', dependsOn: [{ cardIndex: 1, taskIndex: 0 }] }
+        ]
+      },
+      {
+        listIndex: 0,
+        title: 'Retrospective',
+        labels: [{ name: 'Ceremony', color: '#8b5cf6' }],
+        tasks: [
+          {
+            title: 'Run the retrospective',
+            subtasks: [
+              { title: 'What went well' },
+              { title: 'What could be improved' },
+              { title: 'Action items' }
+            ]
+          }
+        ]
+      }
+    ]
+  },
+  {
+    _id: 'builtin-client-onboarding',
+    name: 'Client Onboarding',
+    description: 'Take a new client from signed contract to go-live, one step at a time.',
+    background: '#14b8a6',
+    lists: [
+      { name: 'New Clients', color: '#6B7280', listType: 'todo' },
+      { name: 'Kickoff', color: '#3B82F6', listType: 'in_progress' },
+      { name: 'Setup', color: '#F59E0B', listType: 'in_progress' },
+      { name: 'Training', color: '#8B5CF6', listType: 'review' },
+      { name: 'Live', color: '#10B981', listType: 'done' }
+    ],
+    cards: [
+      {
+        listIndex: 0,
+        title: 'New client onboarding',
+        description: 'Duplicate this card for each new client.',
+        priority: 'high',
+        labels: [{ name: 'Onboarding', color: '#14b8a6' }],
+        tasks: [
+          { title: 'Welcome call', priority: 'high' },
+          {
+            title: 'Collect requirements',
+            dependsOn: [{ cardIndex: 0, taskIndex: 0 }],
+            subtasks: [
+              { title: 'Business goals' },
+              { title: 'Key contacts' },
+              { title: 'Access and credentials' }
+            ]
+          },
+          {
+            title: 'Account setup',
+            dependsOn: [{ cardIndex: 0, taskIndex: 1 }],
+            subtasks: [
+              { title: 'Create client accounts' },
+              { title: 'Configure workspace' }
+            ]
+          },
+          { title: 'Training session', dependsOn: [{ cardIndex: 0, taskIndex: 2 }] },
+          { title: 'Go-live review', priority: 'high', dependsOn: [{ cardIndex: 0, taskIndex: 3 }] }
+        ]
+      }
+    ]
+  }
+];
+
+const BUILT_IN_PREFIX = 'builtin-';
+
+const isBuiltInTemplateId = (templateId) => typeof templateId === 'string' && templateId.startsWith(BUILT_IN_PREFIX);
+
+const getBuiltInTemplate = (templateId) => BUILT_IN_TEMPLATES.find(template => template._id === templateId) || null;
+
+module.exports = {
+  BUILT_IN_TEMPLATES,
+  isBuiltInTemplateId,
+  getBuiltInTemplate
+};
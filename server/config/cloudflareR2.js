@@ -1,4 +1,4 @@
-const { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } = require('@aws-sdk/client-s3');
+const { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, CopyObjectCommand } = require('@aws-sdk/client-s3');
 const { getSignedUrl } = require('@aws-sdk/s3-request-presigner');
 const multer = require('multer');
 const path = require('path');
@@ -120,6 +120,43 @@ const deleteFromR2 = async (key) => {
   }
 };
 
+/**
+ * Copy an existing R2 file to another card (used when duplicating boards)
+ * @param {string} sourceKey - Key of the file to copy
+ * @param {string} fileName - Original file name
+ * @param {string} cardId - Card ID the copy belongs to
+ * @param {string} folderId - Optional folder ID
+ * @returns {Promise<{key: string, url: string}>}
+ */
+const copyInR2 = async (sourceKey, fileName, cardId, folderId = null) => {
+  try {
+    const timestamp = Date.now();
+    const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
+    const folderPath = folderId ? `${folderId}/` : '';
+    const key = `cards/${cardId}/${folderPath}${timestamp}_${sanitizedFileName}`;
+
+    const command = new CopyObjectCommand({
+      Bucket: BUCKET_NAME,
+      CopySource: encodeURI(`${BUCKET_NAME}/${sourceKey}`),
+      Key: key,
+    });
+
+    await r2Client.send(command);
+
+    const publicUrl = (process.env.R2_PUBLIC_URL || process.env.CLOUDFLARE_R2_PUBLIC_URL)
+      ? `${process.env.R2_PUBLIC_URL || process.env.CLOUDFLARE_R2_PUBLIC_URL}/${key}`
+      : key;
+
+    return {
+      key: key,
+      url: publicUrl
+    };
+  } catch (error) {
+    console.error('Error copying file in R2:', error);
+    throw new Error('Failed to copy file in cloud storage');
+  }
+};
+
 /**
  * Generate signed download URL for file
  * @param {string} key - File key in R2
@@ -192,6 +229,7 @@ module.exports = {
   r2Client,
   upload,
   uploadToR2,
+  copyInR2,
   deleteFromR2,
   getSignedDownloadUrl,
   getFileMetadata,
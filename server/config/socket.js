@@ -1,6 +1,7 @@
 const { Server } = require('socket.io');
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const Notification = require('../models/Notification');
 
 class SocketManager {
   constructor(server) {
@@ -353,10 +354,15 @@ class SocketManager {
     }
   }
 
-  handleNotificationRead(socket, notificationId) {
-    // You can implement notification read status updates here
-    // This would typically update the database and notify relevant parties
-    console.log(`User ${socket.userId} marked notification ${notificationId} as read`);
+  async handleNotificationRead(socket, notificationId) {
+    try {
+      await Notification.markAsRead(socket.userId, [notificationId]);
+
+      // Keep the user's other tabs in sync
+      this.io.to(`user:${socket.userId}`).emit('notification:read', { notificationId });
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
   }
 
   broadcastUserStatus(userId, status) {
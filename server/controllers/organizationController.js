@@ -0,0 +1,412 @@
+const Department = require('../models/Department');
+const Position = require('../models/Position');
+const User = require('../models/User');
+const { validationResult } = require('express-validator');
+const organizationService = require('../services/organizationService');
+
+const sendValidationErrors = (req, res) => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+
+  res.status(400).json({
+    success: false,
+    message: 'Validation errors',
+    errors: errors.array()
+  });
+  return true;
+};
+
+const checkHead = async (headId) => {
+  if (!headId) return null;
+  const head = await User.findById(headId).select('isActive');
+  return head && head.isActive ? null : 'Department head must be an active user';
+};
+
+const withUserCount = (department, userCounts) => ({
+  ...department.toObject(),
+  userCount: userCounts.get(department.name) || 0
+});
+
+/**
+ * Get all departments with their heads and how many users are in each
+ */
+exports.getDepartments = async (req, res) => {
+  try {
+    const [departments, userCounts] = await Promise.all([
+      Department.find().populate('head', 'firstName lastName avatar email').sort({ name: 1 }),
+      organizationService.getDepartmentUserCounts()
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: departments.map(department => withUserCount(department, userCounts))
+    });
+  } catch (error) {
+    console.error('Get departments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching departments'
+    });
+  }
+};
+
+/**
+ * Create a department
+ */
+exports.createDepartment = async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { name, description, head } = req.body;
+
+    if (await organizationService.findDepartmentByName(name)) {
+      return res.status(409).json({
+        success: false,
+        message: 'A department with this name already exists'
+      });
+    }
+
+    const headError = await checkHead(head);
+    if (headError) {
+      return res.status(400).json({ success: false, message: headError });
+    }
+
+    const department = await Department.create({
+      name: name.trim(),
+      description: description?.trim() || '',
+      head: head || null,
+      createdBy: req.user._id
+    });
+    await department.populate('head', 'firstName lastName avatar email');
+
+    res.status(201).json({
+      success: true,
+      message: 'Department created successfully',
+      data: { ...department.toObject(), userCount: 0 }
+    });
+  } catch (error) {
+    console.error('Create department error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error creating department'
+    });
+  }
+};
+
+/**
+ * Update a department; a new name is carried over to its users and teams
+ */
+exports.updateDepartment = async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const department = await Department.findById(req.params.id);
+    if (!department) {
+      return res.status(404).json({
+        success: false,
+        message: 'Department not found'
+      });
+    }
+
+    const { name, description, head } = req.body;
+    const previousName = department.name;
+
+    if (name !== undefined && name.trim().toLowerCase() !== previousName.toLowerCase()) {
+      if (await organizationService.findDepartmentByName(name)) {
+        return res.status(409).json({
+          success: false,
+          message: 'A department with this name already exists'
+        });
+      }
+    }
+
+    if (head !== undefined) {
+      const headError = await checkHead(head);
+      if (headError) {
+        return res.status(400).json({ success: false, message: headError });
+      }
+      department.head = head || null;
+    }
+    if (name !== undefined) department.name = name.trim();
+    if (description !== undefined) department.description = description.trim();
+
+    await department.save();
+    await organizationService.renameDepartment(previousName, department.name);
+
+    await department.populate('head', 'firstName lastName avatar email');
+    const userCounts = await organizationService.getDepartmentUserCounts();
+
+    res.status(200).json({
+      success: true,
+      message: 'Department updated successfully',
+      data: withUserCount(department, userCounts)
+    });
+  } catch (error) {
+    console.error('Update department error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error updating department'
+    });
+  }
+};
+
+/**
+ * Delete a department that nobody is in any more, along with its positions
+ */
+exports.deleteDepartment = async (req, res) => {
+  try {
+    const department = await Department.findById(req.params.id);
+    if (!department) {
+      return res.status(404).json({
+        success: false,
+        message: 'Department not found'
+      });
+    }
+
+    const userCount = await User.countDocuments({ department: department.name });
+    if (userCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Move the ${userCount} user${userCount === 1 ? '' : 's'} in ${department.name} to another department first`
+      });
+    }
+
+    await Position.deleteMany({ department: department._id });
+    await department.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Department deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete department error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error deleting department'
+    });
+  }
+};
+
+/**
+ * Get positions, optionally only those open to one department
+ */
+exports.getPositions = async (req, res) => {
+  try {
+    const query = {};
+    if (req.query.department) {
+      query.department = { $in: [req.query.department, null] };
+    }
+
+    const positions = await Position.find(query)
+      .populate('department', 'name')
+      .sort({ title: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: positions
+    });
+  } catch (error) {
+    console.error('Get positions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching positions'
+    });
+  }
+};
+
+/**
+ * Create a position
+ */
+exports.createPosition = async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { title, department, description } = req.body;
+
+    if (department && !(await Department.exists({ _id: department }))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Department not found'
+      });
+    }
+
+    if (await Position.exists({ title: title.trim(), department: department || null })) {
+      return res.status(409).json({
+        success: false,
+        message: 'This position already exists'
+      });
+    }
+
+    const position = await Position.create({
+      title: title.trim(),
+      department: department || null,
+      description: description?.trim() || '',
+      createdBy: req.user._id
+    });
+    await position.populate('department', 'name');
+
+    res.status(201).json({
+      success: true,
+      message: 'Position created successfully',
+      data: position
+    });
+  } catch (error) {
+    console.error('Create position error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error creating position'
+    });
+  }
+};
+
+/**
+ * Update a position; a new title is carried over to the users holding it
+ */
+exports.updatePosition = async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const position = await Position.findById(req.params.id);
+    if (!position) {
+      return res.status(404).json({
+        success: false,
+        message: 'Position not found'
+      });
+    }
+
+    const { title, description } = req.body;
+    const previousTitle = position.title;
+
+    if (title !== undefined && title.trim() !== previousTitle) {
+      if (await Position.exists({ title: title.trim(), department: position.department, _id: { $ne: position._id } })) {
+        return res.status(409).json({
+          success: false,
+          message: 'This position already exists'
+        });
+      }
+      position.title = title.trim();
+    }
+    if (description !== undefined) position.description = description.trim();
+
+    await position.save();
+    await organizationService.renamePosition(position, previousTitle);
+    await position.populate('department', 'name');
+
+    res.status(200).json({
+      success: true,
+      message: 'Position updated successfully',
+      data: position
+    });
+  } catch (error) {
+    console.error('Update position error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error updating position'
+    });
+  }
+};
+
+/**
+ * Delete a position nobody holds
+ */
+exports.deletePosition = async (req, res) => {
+  try {
+    const position = await Position.findById(req.params.id).populate('department', 'name');
+    if (!position) {
+      return res.status(404).json({
+        success: false,
+        message: 'Position not found'
+      });
+    }
+
+    const query = { position: position.title };
+    if (position.department) query.department = position.department.name;
+    const userCount = await User.countDocuments(query);
+    if (userCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `${userCount} user${userCount === 1 ? ' holds' : 's hold'} this position; give them another one first`
+      });
+    }
+
+    await position.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Position deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete position error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error deleting position'
+    });
+  }
+};
+
+/**
+ * Get the org chart
+ */
+exports.getOrgChart = async (req, res) => {
+  try {
+    const chart = await organizationService.getChart();
+
+    res.status(200).json({
+      success: true,
+      data: chart
+    });
+  } catch (error) {
+    console.error('Get org chart error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching org chart'
+    });
+  }
+};
+
+/**
+ * Change who a user reports to
+ */
+exports.updateReportsTo = async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const user = await User.findById(req.params.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    // Same reach as editing users: HR only edits employees, and only superadmins edit superadmins
+    if ((req.user.role === 'hr' && user.role !== 'employee') ||
+        (user.role === 'superadmin' && req.user.role !== 'superadmin')) {
+      return res.status(403).json({
+        success: false,
+        message: 'Insufficient permissions to edit this user'
+      });
+    }
+
+    const reportsTo = req.body.reportsTo || null;
+    const reportsToError = await organizationService.validateReportsTo(user._id, reportsTo);
+    if (reportsToError) {
+      return res.status(400).json({ success: false, message: reportsToError });
+    }
+
+    user.reportsTo = reportsTo;
+    await user.save({ validateModifiedOnly: true });
+
+    res.status(200).json({
+      success: true,
+      message: 'Reporting line updated successfully',
+      data: { id: user._id, reportsTo: user.reportsTo }
+    });
+  } catch (error) {
+    console.error('Update reporting line error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error updating reporting line'
+    });
+  }
+};
@@ -2,6 +2,11 @@ const User = require('../models/User');
 const bcrypt = require('bcryptjs');
 const { validationResult } = require('express-validator');
 const { deleteFile } = require('../config/cloudinary');
+const {
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_CHANNELS,
+  getPreferences
+} = require('../utils/notificationPreferences');
 
 // Get current user profile
 exports.getProfile = async (req, res) => {
@@ -348,4 +353,112 @@ exports.deleteAvatar = async (req, res) => {
       message: 'Failed to delete avatar'
     });
   }
-};
\ No newline at end of file
+};
+
+// Get notification preferences
+exports.getNotificationPreferences = async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id).select('notificationPreferences');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        preferences: getPreferences(user)
+      }
+    });
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get notification preferences'
+    });
+  }
+};
+
+// Update notification preferences
+exports.updateNotificationPreferences = async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { events, quietHours, digestFrequency } = req.body;
+
+    // Only known events and channels are written, everything else is ignored
+    const updateData = {};
+    if (events) {
+      NOTIFICATION_EVENTS.forEach(event => {
+        if (!events[event]) return;
+        NOTIFICATION_CHANNELS.forEach(channel => {
+          if (typeof events[event][channel] === 'boolean') {
+            updateData[`notificationPreferences.events.${event}.${channel}`] = events[event][channel];
+          }
+        });
+      });
+    }
+
+    if (quietHours) {
+      ['enabled', 'start', 'end', 'timezone'].forEach(field => {
+        if (quietHours[field] !== undefined) {
+          updateData[`notificationPreferences.quietHours.${field}`] = quietHours[field];
+        }
+      });
+    }
+
+    if (digestFrequency !== undefined) {
+      updateData['notificationPreferences.digestFrequency'] = digestFrequency;
+    }
+
+    const updatedUser = await User.findByIdAndUpdate(
+      req.user.id,
+      { $set: updateData },
+      { new: true, runValidators: true }
+    ).select('notificationPreferences');
+
+    if (!updatedUser) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification preferences updated successfully',
+      data: {
+        preferences: getPreferences(updatedUser)
+      }
+    });
+  } catch (error) {
+    console.error('Update notification preferences error:', error);
+
+    if (error.name === 'ValidationError') {
+      const validationErrors = Object.values(error.errors).map(err => ({
+        field: err.path,
+        message: err.message
+      }));
+
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: validationErrors
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update notification preferences'
+    });
+  }
+};
@@ -4,6 +4,7 @@ const { validationResult } = require('express-validator');
 const emailService = require('../utils/emailService');
 const slackService = require('../utils/slackService');
 const { getSocketUtils } = require('../utils/socketUtils');
+const organizationService = require('../services/organizationService');
 
 /**
  * Get all users based on current user's permissions
@@ -11,7 +12,7 @@ const { getSocketUtils } = require('../utils/socketUtils');
 exports.getUsers = async (req, res) => {
   try {
     const currentUser = req.user;
-    const { page = 1, limit = 50, search, role, status } = req.query;
+    const { page = 1, limit = 50, search, role, status, department } = req.query;
 
     // Build query based on current user's permissions
     let query = {};
@@ -51,6 +52,10 @@ exports.getUsers = async (req, res) => {
       }
     }
 
+    if (department && department !== 'all') {
+      query.department = department === 'none' ? { $in: [null, ''] } : department;
+    }
+
     // Search functionality
     if (search) {
       query.$or = [
@@ -82,6 +87,7 @@ exports.getUsers = async (req, res) => {
       phone: user.phone,
       department: user.department,
       position: user.position,
+      reportsTo: user.reportsTo,
       avatar: user.avatar,
       isActive: user.isActive,
       isEmailVerified: user.isEmailVerified,
@@ -123,7 +129,7 @@ exports.createUser = async (req, res) => {
       });
     }
 
-    const { firstName, lastName, email, role, employeeId, phone, department, position } = req.body;
+    const { firstName, lastName, email, role, employeeId, phone, department, position, reportsTo } = req.body;
     const currentUser = req.user;
 
     // Check if current user can create this role
@@ -144,6 +150,15 @@ exports.createUser = async (req, res) => {
       });
     }
 
+    const assignment = await organizationService.resolveAssignment(department, position);
+    const assignmentError = assignment.error || await organizationService.validateReportsTo(null, reportsTo);
+    if (assignmentError) {
+      return res.status(400).json({
+        success: false,
+        message: assignmentError
+      });
+    }
+
     // Generate secure temporary password
     const tempPassword = generateSecurePassword();
     const emailVerificationToken = crypto.randomBytes(32).toString('hex');
@@ -157,8 +172,9 @@ exports.createUser = async (req, res) => {
       role,
       employeeId: employeeId?.trim() || undefined,
       phone: phone?.trim() || undefined,
-      department: department?.trim() || undefined,
-      position: position?.trim() || undefined,
+      department: assignment.department || undefined,
+      position: assignment.position || undefined,
+      reportsTo: reportsTo || null,
       createdBy: currentUser._id,
       emailVerificationToken,
       isEmailVerified: false
@@ -249,6 +265,7 @@ exports.createUser = async (req, res) => {
         phone: newUser.phone,
         department: newUser.department,
         position: newUser.position,
+        reportsTo: newUser.reportsTo,
         isActive: newUser.isActive,
         isEmailVerified: newUser.isEmailVerified,
         createdAt: newUser.createdAt
@@ -332,6 +349,38 @@ exports.updateUser = async (req, res) => {
       }
     });
 
+    // Departments and positions must be managed ones; only changed values are checked,
+    // so users still holding an old free-text title can be edited otherwise
+    if (updateData.department !== undefined || updateData.position !== undefined) {
+      const department = updateData.department !== undefined ? updateData.department : targetUser.department;
+      const position = updateData.position !== undefined ? updateData.position : targetUser.position;
+      const departmentChanged = (department || '') !== (targetUser.department || '');
+      const positionChanged = (position || '') !== (targetUser.position || '');
+
+      if (departmentChanged || positionChanged) {
+        const assignment = await organizationService.resolveAssignment(department, position);
+        if (assignment.error) {
+          return res.status(400).json({
+            success: false,
+            message: assignment.error
+          });
+        }
+        updateData.department = assignment.department;
+        updateData.position = assignment.position;
+      }
+    }
+
+    if (req.body.reportsTo !== undefined) {
+      const reportsToError = await organizationService.validateReportsTo(targetUser._id, req.body.reportsTo);
+      if (reportsToError) {
+        return res.status(400).json({
+          success: false,
+          message: reportsToError
+        });
+      }
+      updateData.reportsTo = req.body.reportsTo || null;
+    }
+
     // Handle role updates (only superadmin can change roles)
     if (req.body.role && req.body.role !== targetUser.role) {
       if (currentUser.role !== 'superadmin') {
@@ -392,6 +441,7 @@ exports.updateUser = async (req, res) => {
         phone: updatedUser.phone,
         department: updatedUser.department,
         position: updatedUser.position,
+        reportsTo: updatedUser.reportsTo,
         isActive: updatedUser.isActive,
         isEmailVerified: updatedUser.isEmailVerified,
         lastLogin: updatedUser.lastLogin,
@@ -448,6 +498,8 @@ exports.deleteUser = async (req, res) => {
     }
 
     // Clean up user references in other collections
+    await organizationService.detachUser(targetUser);
+
     const Project = require('../models/Project');
     const Board = require('../models/Board');
     const Card = require('../models/Card');
@@ -0,0 +1,103 @@
+const Board = require('../models/Board');
+const List = require('../models/List');
+const { resolveAction } = require('../config/boardPermissions');
+
+// What each action lets someone do, for 403 messages
+const ACTION_DESCRIPTIONS = {
+  view_board: 'view this board',
+  edit_board: 'edit this board',
+  delete_board: 'delete this board',
+  manage_members: 'manage members of this board',
+  manage_lists: 'manage lists on this board',
+  delete_lists: 'delete lists on this board',
+  create_cards: 'add cards to this board',
+  edit_cards: 'edit cards on this board',
+  move_cards: 'move cards on this board',
+  delete_cards: 'delete cards on this board',
+  purge_cards: 'permanently delete archived cards on this board',
+  manage_labels: 'manage this board\'s labels',
+  manage_custom_fields: 'manage this board\'s custom fields',
+  edit_automations: 'manage this board\'s automations',
+  override_wip_limit: 'override WIP limits on this board',
+  view_files: 'view files on this board',
+  upload_files: 'upload files to this board',
+  comment: 'comment on this board'
+};
+
+/**
+ * The board a request is about, from whatever an earlier access middleware
+ * loaded: the board itself, a list on it, or a card in one of its lists.
+ */
+const resolveBoard = async (req) => {
+  if (req.board && typeof req.board.hasPermission === 'function') {
+    return req.board;
+  }
+
+  let list = req.list || (req.card && req.card.listId);
+  if (!list) return null;
+
+  if (!list.boardId) {
+    list = await List.findById(list).select('boardId');
+    if (!list) return null;
+  }
+
+  // Some access checks populate the list's board already
+  if (typeof list.boardId.hasPermission === 'function') {
+    return list.boardId;
+  }
+  return Board.findById(list.boardId);
+};
+
+/**
+ * Middleware to check the user may perform an action on the board, per the
+ * board permission matrix. Runs after the route's access middleware.
+ */
+const requireBoardPermission = (action) => {
+  return async (req, res, next) => {
+    try {
+      const board = await resolveBoard(req);
+      if (!board) {
+        return res.status(404).json({
+          success: false,
+          message: 'Board not found'
+        });
+      }
+
+      const hasPermission = await board.hasPermission(req.user.id, action, req.user.role);
+      if (!hasPermission) {
+        return res.status(403).json({
+          success: false,
+          message: `You do not have permission to ${ACTION_DESCRIPTIONS[resolveAction(action)] || action}`
+        });
+      }
+
+      req.board = board;
+      next();
+    } catch (error) {
+      console.error('Board permission check error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Error checking board permissions'
+      });
+    }
+  };
+};
+
+/**
+ * Middleware for board views that only make sense to the team, such as
+ * archives, time reports and automations. Clients use the client portal.
+ */
+const staffOnly = (req, res, next) => {
+  if (req.user.role === 'client') {
+    return res.status(403).json({
+      success: false,
+      message: 'This is not available in the client portal'
+    });
+  }
+  next();
+};
+
+module.exports = {
+  requireBoardPermission,
+  staffOnly
+};
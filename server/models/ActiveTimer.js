@@ -0,0 +1,41 @@
+const mongoose = require('mongoose');
+
+// A running time tracking timer. Each user has at most one; stopping it turns it into a card time entry.
+const activeTimerSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  card: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Card',
+    required: true
+  },
+  board: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Board'
+  },
+  // Set when the timer runs for one of the card's tasks
+  taskId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot be more than 500 characters'],
+    default: ''
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+activeTimerSchema.index({ card: 1 });
+
+module.exports = mongoose.model('ActiveTimer', activeTimerSchema);
@@ -12,10 +12,11 @@ const activitySchema = new mongoose.Schema({
       'board_created', 'board_updated', 'board_deleted', 'board_archived',
 
       // List activities
-      'list_created', 'list_updated', 'list_deleted', 'list_moved',
+      'list_created', 'list_updated', 'list_deleted', 'list_moved', 'list_archived', 'list_restored',
 
       // Card activities
-      'card_created', 'card_updated', 'card_deleted', 'card_moved',
+      'card_created', 'card_updated', 'card_deleted', 'card_moved', 'card_auto_moved', 'card_wip_limit_overridden',
+      'card_archived', 'card_restored',
       'card_assigned', 'card_unassigned', 'card_completed', 'card_reopened',
       'card_due_date_set', 'card_due_date_changed', 'card_comment_added',
       'card_comment_edited', 'card_comment_deleted', 'card_comment_reacted',
@@ -25,7 +26,8 @@ const activitySchema = new mongoose.Schema({
       'card_file_uploaded', 'card_file_deleted', 'card_folder_created', 'card_folder_deleted',
       'card_task_added', 'card_task_completed', 'card_task_deleted', 'card_task_updated', 'card_task_unlocked',
       'card_subtask_added', 'card_subtask_completed', 'card_subtask_updated', 'card_subtask_deleted',
-      'card_member_added', 'card_member_removed', 'card_description_changed'
+      'card_member_added', 'card_member_removed', 'card_description_changed',
+      'card_workflow_updated', 'card_workflow_progressed'
     ],
     required: true
   },
@@ -98,11 +100,17 @@ activitySchema.virtual('description').get(function() {
     'list_updated': 'updated list',
     'list_deleted': 'deleted list',
     'list_moved': 'moved list',
+    'list_archived': 'archived list',
+    'list_restored': 'restored list',
 
     'card_created': 'created card',
     'card_updated': 'updated card',
     'card_deleted': 'deleted card',
     'card_moved': 'moved card',
+    'card_auto_moved': 'automatically moved card',
+    'card_wip_limit_overridden': 'moved card past a WIP limit',
+    'card_archived': 'archived card',
+    'card_restored': 'restored card',
     'card_assigned': 'assigned card',
     'card_unassigned': 'unassigned card',
     'card_completed': 'completed card',
@@ -134,7 +142,9 @@ activitySchema.virtual('description').get(function() {
     'card_subtask_deleted': 'deleted a subtask',
     'card_member_added': 'added a member',
     'card_member_removed': 'removed a member',
-    'card_description_changed': 'changed the description'
+    'card_description_changed': 'changed the description',
+    'card_workflow_updated': 'updated the workflow of card',
+    'card_workflow_progressed': 'changed the workflow stage of card'
   };
 
   return descriptions[this.type] || 'performed action';
@@ -1,4 +1,62 @@
 const mongoose = require('mongoose');
+const { APP_ROLES_WITH_FULL_ACCESS, roleCan, getRolePermissions } = require('../config/boardPermissions');
+
+const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'boolean', 'select'];
+
+// One choice of a select custom field; cards store the option's id
+const customFieldOptionSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Option name is required'],
+    trim: true,
+    maxlength: [50, 'Option name cannot be more than 50 characters']
+  },
+  color: {
+    type: String,
+    match: [/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Please provide a valid hex color'],
+    default: '#6b7280'
+  }
+});
+
+// A field every card on the board can fill in; cards keep their values by field id
+const customFieldSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Field name is required'],
+    trim: true,
+    maxlength: [50, 'Field name cannot be more than 50 characters']
+  },
+  type: {
+    type: String,
+    enum: CUSTOM_FIELD_TYPES,
+    required: true
+  },
+  options: [customFieldOptionSchema],
+  required: {
+    type: Boolean,
+    default: false
+  },
+  // Show the value as a badge on the card in the board view
+  showOnCard: {
+    type: Boolean,
+    default: false
+  }
+});
+
+// A label on the board's palette; cards carry copies of the name and color
+const boardLabelSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Label name is required'],
+    trim: true,
+    maxlength: [50, 'Label name cannot be more than 50 characters']
+  },
+  color: {
+    type: String,
+    required: true,
+    match: [/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Please provide a valid hex color']
+  }
+});
 
 const boardSchema = new mongoose.Schema({
   name: {
@@ -37,6 +95,37 @@ const boardSchema = new mongoose.Schema({
     joinedAt: {
       type: Date,
       default: Date.now
+    },
+    // Added to the board themselves, rather than only through its teams
+    direct: {
+      type: Boolean,
+      default: true
+    },
+    // Teams on the board this user belongs to
+    viaTeams: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Team'
+    }]
+  }],
+  // Teams added as a whole; their members are kept in `members` as they change
+  teams: [{
+    teamId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true
+    },
+    role: {
+      type: String,
+      enum: ['admin', 'editor', 'member', 'viewer'],
+      default: 'member'
+    },
+    addedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now
     }
   }],
   createdBy: {
@@ -82,6 +171,10 @@ const boardSchema = new mongoose.Schema({
       default: 0 // 0 means no limit
     }
   },
+  // Label palette, in display order
+  labels: [boardLabelSchema],
+  // Custom field definitions, in display order
+  customFields: [customFieldSchema],
   metadata: {
     totalLists: { type: Number, default: 0 },
     totalCards: { type: Number, default: 0 },
@@ -153,35 +246,37 @@ boardSchema.methods.hasAccess = async function(userId, userRole) {
   return false;
 };
 
-// Instance method to check specific permissions
+// Instance method to check specific permissions against the board permission matrix
 boardSchema.methods.hasPermission = async function(userId, action, userRole) {
   // First check if user has access to the board
   if (!await this.hasAccess(userId, userRole)) {
     return false;
   }
 
-  // Get user's role on this board
-  const boardRole = this.getUserRole(userId);
-
-  // Define permissions based on role and action
-  const permissions = {
-    owner: ['read', 'write', 'delete', 'manage_members', 'manage_settings'],
-    admin: ['read', 'write', 'manage_members'],
-    editor: ['read', 'write'],
-    member: ['read', 'write'],
-    viewer: ['read']
-  };
+  return roleCan(this.getUserRole(userId, userRole), action);
+};
 
-  return permissions[boardRole] && permissions[boardRole].includes(action);
+// Instance method to get everything the user may do on this board
+boardSchema.methods.getPermissions = function(userId, userRole) {
+  return getRolePermissions(this.getUserRole(userId, userRole));
 };
 
 // Instance method to get user's role on this board
-boardSchema.methods.getUserRole = function(userId) {
+boardSchema.methods.getUserRole = function(userId, userRole) {
+  if (APP_ROLES_WITH_FULL_ACCESS.includes(userRole)) {
+    return 'owner';
+  }
+
   // Check if user is the creator (always owner)
   if (this.createdBy.toString() === userId.toString()) {
     return 'owner';
   }
 
+  // Clients only ever view boards, through the client portal
+  if (userRole === 'client') {
+    return 'viewer';
+  }
+
   // Check user's role in members array
   if (this.members && Array.isArray(this.members)) {
     const member = this.members.find(member =>
@@ -201,8 +296,9 @@ boardSchema.methods.addMember = async function(userId, role = 'member') {
   );
 
   if (existingMember) {
-    // Update existing member's role
+    // Update existing member's role; someone who came in through a team is now on the board in their own right
     existingMember.role = role;
+    existingMember.direct = true;
   } else {
     // Add new member
     this.members.push({
@@ -224,6 +320,11 @@ boardSchema.methods.removeMember = async function(userId) {
   return await this.save();
 };
 
+// Instance method to check if a team has been added to this board
+boardSchema.methods.hasTeam = function(teamId) {
+  return (this.teams || []).some(team => team.teamId && (team.teamId._id || team.teamId).toString() === teamId.toString());
+};
+
 // Instance method to toggle star
 boardSchema.methods.toggleStar = async function(userId) {
   const userIdStr = userId.toString();
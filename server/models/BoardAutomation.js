@@ -0,0 +1,164 @@
+const mongoose = require('mongoose');
+
+const AUTOMATION_TRIGGERS = [
+  'card_moved_to_list',
+  'all_tasks_completed',
+  'due_date_passed',
+  'label_added',
+  'member_assigned'
+];
+
+const AUTOMATION_ACTIONS = [
+  'move_card',
+  'assign_member',
+  'add_label',
+  'post_comment',
+  'notify_slack',
+  'set_due_date'
+];
+
+// How many runs are kept per automation
+const MAX_AUTOMATION_RUNS = 50;
+
+const actionSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: AUTOMATION_ACTIONS,
+    required: true
+  },
+  listId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'List'
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  label: {
+    name: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Label name cannot be more than 50 characters']
+    },
+    color: {
+      type: String,
+      match: [/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Please provide a valid hex color']
+    }
+  },
+  text: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Action text cannot be more than 1000 characters']
+  },
+  channel: {
+    type: String,
+    trim: true
+  },
+  dueInDays: {
+    type: Number,
+    min: [0, 'Days cannot be negative'],
+    max: [365, 'Days cannot be more than 365']
+  }
+}, { _id: false });
+
+const runSchema = new mongoose.Schema({
+  card: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Card'
+  },
+  cardTitle: String,
+  status: {
+    type: String,
+    enum: ['success', 'failed'],
+    required: true
+  },
+  actions: [{
+    _id: false,
+    type: { type: String },
+    status: {
+      type: String,
+      enum: ['success', 'failed', 'skipped']
+    },
+    message: String
+  }],
+  ranAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const boardAutomationSchema = new mongoose.Schema({
+  boardId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Board',
+    required: [true, 'Board is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Automation name is required'],
+    trim: true,
+    maxlength: [100, 'Automation name cannot be more than 100 characters']
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  trigger: {
+    type: {
+      type: String,
+      enum: AUTOMATION_TRIGGERS,
+      required: [true, 'Trigger is required']
+    },
+    // Optional narrowing: only this list, label or member fires the trigger
+    listId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'List'
+    },
+    label: {
+      type: String,
+      trim: true
+    },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  actions: {
+    type: [actionSchema],
+    validate: [actions => actions.length > 0, 'Add at least one action']
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  runCount: {
+    type: Number,
+    default: 0
+  },
+  lastRunAt: Date,
+  // Due dates that passed after this moment have not been checked yet
+  dueDateCheckedAt: {
+    type: Date,
+    default: Date.now
+  },
+  runs: [runSchema]
+}, {
+  timestamps: true
+});
+
+// Record a run, keeping only the most recent ones
+boardAutomationSchema.statics.recordRun = function(automationId, run) {
+  return this.updateOne(
+    { _id: automationId },
+    {
+      $push: { runs: { $each: [run], $slice: -MAX_AUTOMATION_RUNS } },
+      $inc: { runCount: 1 },
+      $set: { lastRunAt: run.ranAt || new Date() }
+    }
+  );
+};
+
+boardAutomationSchema.index({ boardId: 1, enabled: 1, 'trigger.type': 1 });
+
+module.exports = mongoose.model('BoardAutomation', boardAutomationSchema);
@@ -0,0 +1,454 @@
+const mongoose = require('mongoose');
+
+// Templates store board structure only. Lists, tasks and workflow stages are
+// referenced by their index inside the template, and those indexes are turned
+// back into real ids when a board is created from the template.
+
+const templateLabelSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [50, 'Label name cannot be more than 50 characters']
+  },
+  color: {
+    type: String,
+    required: true,
+    match: [/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Please provide a valid hex color']
+  }
+}, { _id: false });
+
+const templateListSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [100, 'List name cannot be more than 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  color: {
+    type: String,
+    default: '#6B7280'
+  },
+  listType: {
+    type: String,
+    enum: ['todo', 'in_progress', 'review', 'done', 'custom'],
+    default: 'custom'
+  },
+  settings: {
+    cardLimit: {
+      type: Number,
+      default: 0
+    },
+    wipLimit: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      limit: {
+        type: Number,
+        default: 5
+      },
+      mode: {
+        type: String,
+        enum: ['warn', 'block'],
+        default: 'warn'
+      }
+    },
+    autoMove: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      match: {
+        type: String,
+        default: 'all'
+      },
+      targetListIndex: {
+        type: Number,
+        default: null
+      },
+      conditions: [{
+        _id: false,
+        field: String,
+        operator: String,
+        value: mongoose.Schema.Types.Mixed,
+        targetListIndex: {
+          type: Number,
+          default: null
+        }
+      }]
+    }
+  }
+}, { _id: false });
+
+const templateTaskSchema = new mongoose.Schema({
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [200, 'Task title cannot be more than 200 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
+  workflowStageIndex: {
+    type: Number,
+    default: null
+  },
+  // Predecessors as positions in the template, so links to other cards survive
+  dependsOn: [{
+    _id: false,
+    cardIndex: Number,
+    taskIndex: Number
+  }],
+  subtasks: [{
+    _id: false,
+    title: {
+      type: String,
+      required: true,
+      trim: true
+    }
+  }]
+}, { _id: false });
+
+const templateCardSchema = new mongoose.Schema({
+  listIndex: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [200, 'Card title cannot be more than 200 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high', 'urgent'],
+    default: 'medium'
+  },
+  color: {
+    type: String,
+    default: null
+  },
+  labels: [templateLabelSchema],
+  tasks: [templateTaskSchema],
+  workflowEnabled: {
+    type: Boolean,
+    default: false
+  },
+  workflowStages: [{
+    _id: false,
+    order: Number,
+    name: String,
+    assignedToType: {
+      type: String,
+      enum: ['user', 'team'],
+      default: 'user'
+    },
+    assignedTo: mongoose.Schema.Types.ObjectId,
+    taskIndexes: [Number]
+  }]
+}, { _id: false });
+
+const boardTemplateSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Template name is required'],
+    trim: true,
+    maxlength: [100, 'Template name cannot be more than 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Template description cannot be more than 500 characters'],
+    default: ''
+  },
+  background: {
+    type: String,
+    default: '#6366f1'
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  sourceBoard: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Board',
+    default: null
+  },
+  // Shared templates show up in everyone's gallery, otherwise only the creator sees it
+  isShared: {
+    type: Boolean,
+    default: false
+  },
+  lists: [templateListSchema],
+  cards: [templateCardSchema]
+}, {
+  timestamps: true
+});
+
+boardTemplateSchema.index({ createdBy: 1 });
+boardTemplateSchema.index({ isShared: 1 });
+
+// Static method to capture a board's structure as a template
+boardTemplateSchema.statics.fromBoard = async function(board, createdBy, { name, description, isShared = false } = {}) {
+  const List = mongoose.model('List');
+  const Card = mongoose.model('Card');
+
+  const lists = await List.find({ boardId: board._id, isArchived: false }).sort({ position: 1 });
+  const listIndexes = new Map(lists.map((list, index) => [list._id.toString(), index]));
+
+  const cards = await Card.find({
+    listId: { $in: lists.map(list => list._id) },
+    isArchived: false
+  }).sort({ position: 1 });
+
+  const templateLists = lists.map(list => ({
+    name: list.name,
+    description: list.description || '',
+    color: list.color,
+    listType: list.listType,
+    settings: {
+      cardLimit: list.settings?.cardLimit || 0,
+      wipLimit: {
+        enabled: !!list.settings?.wipLimit?.enabled,
+        limit: list.settings?.wipLimit?.limit || 5,
+        mode: list.settings?.wipLimit?.mode || 'warn'
+      },
+      autoMove: {
+        enabled: !!list.settings?.autoMove?.enabled,
+        match: list.settings?.autoMove?.match || 'all',
+        targetListIndex: list.settings?.autoMove?.targetList && listIndexes.has(list.settings.autoMove.targetList.toString())
+          ? listIndexes.get(list.settings.autoMove.targetList.toString())
+          : null,
+        conditions: (list.settings?.autoMove?.conditions || []).map(condition => ({
+          field: condition.field,
+          operator: condition.operator,
+          value: condition.value,
+          targetListIndex: condition.targetList && listIndexes.has(condition.targetList.toString())
+            ? listIndexes.get(condition.targetList.toString())
+            : null
+        }))
+      }
+    }
+  }));
+
+  const sortedTasks = cards.map(card => [...(card.tasks || [])].sort((a, b) => a.position - b.position));
+  const taskPositions = new Map();
+  sortedTasks.forEach((tasks, cardIndex) => {
+    tasks.forEach((task, taskIndex) => taskPositions.set(task._id.toString(), { cardIndex, taskIndex }));
+  });
+
+  const templateCards = cards.map((card, cardIndex) => {
+    const tasks = sortedTasks[cardIndex];
+    const taskIndexes = new Map(tasks.map((task, index) => [task._id.toString(), index]));
+
+    return {
+      listIndex: listIndexes.get(card.listId.toString()),
+      title: card.title,
+      description: card.description || '',
+      priority: card.priority,
+      color: card.color,
+      labels: (card.labels || []).map(label => ({ name: label.name, color: label.color })),
+      tasks: tasks.map(task => ({
+        title: task.title,
+        description: task.description || '',
+        priority: task.priority,
+        workflowStageIndex: task.workflowStageIndex,
+        dependsOn: (task.dependsOn || [])
+          .filter(taskId => taskPositions.has(taskId.toString()))
+          .map(taskId => taskPositions.get(taskId.toString())),
+        subtasks: [...(task.subtasks || [])]
+          .sort((a, b) => a.position - b.position)
+          .map(subtask => ({ title: subtask.title }))
+      })),
+      workflowEnabled: card.workflowEnabled,
+      // Stage assignees belong to this board's people, so they are left out
+      workflowStages: (card.workflowStages || []).map(stage => ({
+        order: stage.order,
+        name: stage.name,
+        taskIndexes: (stage.taskIds || [])
+          .filter(taskId => taskIndexes.has(taskId.toString()))
+          .map(taskId => taskIndexes.get(taskId.toString()))
+      }))
+    };
+  });
+
+  return this.create({
+    name: name || `${board.name} Template`,
+    description: description !== undefined ? description : board.description || '',
+    background: board.background,
+    createdBy,
+    sourceBoard: board._id,
+    isShared,
+    lists: templateLists,
+    cards: templateCards
+  });
+};
+
+// Static method to create a new board from a template. Accepts both saved
+// templates and the built-in ones from config/boardTemplates.
+boardTemplateSchema.statics.createBoard = async function(template, { name, description, background, visibility, createdBy }) {
+  const Board = mongoose.model('Board');
+  const List = mongoose.model('List');
+  const Card = mongoose.model('Card');
+
+  const board = new Board({
+    name: name.trim(),
+    description: description !== undefined ? description : template.description || '',
+    background: background || template.background || '#6366f1',
+    visibility: visibility || 'private',
+    createdBy
+  });
+  await board.save();
+
+  // Lists first, so auto-move targets and card placement can use the new ids
+  const lists = [];
+  for (const [index, templateList] of (template.lists || []).entries()) {
+    const list = new List({
+      name: templateList.name,
+      description: templateList.description || '',
+      color: templateList.color || '#6B7280',
+      listType: templateList.listType || 'custom',
+      boardId: board._id,
+      createdBy,
+      position: index + 1,
+      settings: {
+        cardLimit: templateList.settings?.cardLimit || 0,
+        wipLimit: {
+          enabled: !!templateList.settings?.wipLimit?.enabled,
+          limit: templateList.settings?.wipLimit?.limit || 5,
+          mode: templateList.settings?.wipLimit?.mode || 'warn'
+        },
+        autoMove: {
+          enabled: false,
+          conditions: []
+        }
+      }
+    });
+    await list.save();
+    lists.push(list);
+  }
+
+  for (const [index, templateList] of (template.lists || []).entries()) {
+    const autoMove = templateList.settings?.autoMove;
+    if (!autoMove || !autoMove.conditions || autoMove.conditions.length === 0) continue;
+
+    lists[index].settings.autoMove = {
+      enabled: !!autoMove.enabled,
+      match: autoMove.match || 'all',
+      targetList: lists[autoMove.targetListIndex] ? lists[autoMove.targetListIndex]._id : undefined,
+      conditions: autoMove.conditions.map(condition => ({
+        field: condition.field,
+        operator: condition.operator,
+        value: condition.value,
+        targetList: lists[condition.targetListIndex] ? lists[condition.targetListIndex]._id : undefined
+      }))
+    };
+    await lists[index].save();
+  }
+
+  // Task ids up front, so dependencies can point at tasks on cards created later.
+  // Cards whose list is gone are skipped and so are links to their tasks.
+  const templateCards = template.cards || [];
+  const cardTaskIds = templateCards.map(templateCard => (lists[templateCard.listIndex]
+    ? (templateCard.tasks || []).map(() => new mongoose.Types.ObjectId())
+    : []));
+
+  let cardCount = 0;
+  for (const [position, templateCard] of templateCards.entries()) {
+    const list = lists[templateCard.listIndex];
+    if (!list) continue;
+
+    const templateTasks = templateCard.tasks || [];
+    const taskIds = cardTaskIds[position];
+    const now = new Date();
+
+    const tasks = templateTasks.map((task, index) => {
+      const dependencies = (task.dependsOn || [])
+        .filter(link => cardTaskIds[link.cardIndex] && cardTaskIds[link.cardIndex][link.taskIndex])
+        .map(link => ({
+          _id: cardTaskIds[link.cardIndex][link.taskIndex],
+          title: templateCards[link.cardIndex].tasks[link.taskIndex].title
+        }));
+
+      return {
+        _id: taskIds[index],
+        title: task.title,
+        description: task.description || '',
+        priority: task.priority || 'medium',
+        position: index + 1,
+        createdBy,
+        workflowStageIndex: task.workflowStageIndex ?? null,
+        dependsOn: dependencies.map(dependency => dependency._id),
+        // Nothing is completed on a fresh board, so every dependent task starts locked
+        isLocked: dependencies.length > 0,
+        lockedReason: dependencies.length > 0 ? `Waiting for: ${dependencies.map(dependency => dependency.title).join(', ')}` : '',
+        unlockedAt: dependencies.length > 0 ? null : now,
+        subtasks: (task.subtasks || []).map((subtask, subtaskIndex) => ({
+          title: subtask.title,
+          position: subtaskIndex + 1
+        }))
+      };
+    });
+
+    // The new board starts with only its creator, who takes every stage until it is reassigned
+    // (templates saved before assignees were left out may still carry them)
+    const workflowStages = (templateCard.workflowStages || [])
+      .map((stage, index) => ({
+        order: stage.order ?? index,
+        name: stage.name || '',
+        assignedToType: 'user',
+        assignedTo: createdBy,
+        status: index === 0 ? 'active' : 'pending',
+        startedAt: index === 0 ? now : null,
+        taskIds: (stage.taskIndexes || []).map(taskIndex => taskIds[taskIndex]).filter(Boolean)
+      }));
+
+    const card = new Card({
+      title: templateCard.title,
+      description: templateCard.description || '',
+      listId: list._id,
+      boardId: board._id,
+      createdBy,
+      position: position + 1,
+      priority: templateCard.priority || 'medium',
+      color: templateCard.color || null,
+      labels: templateCard.labels || [],
+      tasks,
+      workflowEnabled: !!templateCard.workflowEnabled && workflowStages.length > 0,
+      workflowStages,
+      currentStageIndex: 0
+    });
+    await card.save();
+    cardCount++;
+  }
+
+  board.metadata.totalLists = lists.length;
+  board.metadata.totalCards = cardCount;
+  await board.save();
+
+  return board;
+};
+
+module.exports = mongoose.model('BoardTemplate', boardTemplateSchema);
@@ -58,6 +58,11 @@ const attachmentSchema = new mongoose.Schema({
   isDeleted: {
     type: Boolean,
     default: false
+  },
+  // Files are internal to the team until shared with the card's clients
+  sharedWithClient: {
+    type: Boolean,
+    default: false
   }
 }, {
   timestamps: true
@@ -78,6 +83,8 @@ const reactionSchema = new mongoose.Schema({
   timestamps: true
 });
 
+const COMMENT_VISIBILITIES = ['internal', 'client'];
+
 const commentSchema = new mongoose.Schema({
   text: {
     type: String,
@@ -103,6 +110,18 @@ const commentSchema = new mongoose.Schema({
   isDeleted: {
     type: Boolean,
     default: false
+  },
+  // Internal notes stay with the team; shared comments are shown to the card's clients too
+  visibility: {
+    type: String,
+    enum: COMMENT_VISIBILITIES,
+    default: 'internal'
+  },
+  // Set on comments a client left through the client portal
+  clientFeedback: {
+    type: String,
+    enum: ['approval', 'feedback'],
+    default: null
   }
 }, {
   timestamps: true
@@ -146,13 +165,26 @@ const timeTrackingSchema = new mongoose.Schema({
     hours: {
       type: Number,
       required: true,
-      min: [0.1, 'Time entry must be at least 0.1 hours']
+      min: [1 / 60, 'Time entry must be at least one minute']
     },
     description: String,
     date: {
       type: Date,
       default: Date.now
-    }
+    },
+    // Set when the time was spent on one of the card's tasks
+    taskId: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null
+    },
+    source: {
+      type: String,
+      enum: ['manual', 'timer'],
+      default: 'manual'
+    },
+    // Timer entries keep when they ran
+    startedAt: Date,
+    endedAt: Date
   }]
 });
 
@@ -207,6 +239,13 @@ const taskSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
   }],
+  // Team the task was given to; its members are also in assignedTo
+  assignedTeam: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Team',
+    default: null
+  },
+  startDate: Date,
   dueDate: Date,
   priority: {
     type: String,
@@ -228,11 +267,10 @@ const taskSchema = new mongoose.Schema({
     default: null
   },
   // NEW: Task Dependency System
-  dependsOn: {
-    type: mongoose.Schema.Types.ObjectId,
-    default: null,
-    ref: 'Task' // References another task in the same card
-  },
+  // Tasks this one waits on; they may sit on other cards of the same board
+  dependsOn: [{
+    type: mongoose.Schema.Types.ObjectId
+  }],
   isLocked: {
     type: Boolean,
     default: false
@@ -245,6 +283,11 @@ const taskSchema = new mongoose.Schema({
     type: String,
     default: ''
   },
+  estimatedHours: {
+    type: Number,
+    min: [0, 'Estimated time cannot be negative'],
+    default: null
+  },
   // Auto-assignment when unlocked
   autoAssignOnUnlock: {
     type: Boolean,
@@ -365,6 +408,11 @@ const cardSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
   }],
+  // Clients who see this card in the client portal
+  sharedWithClients: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
   position: {
     type: Number,
     required: true,
@@ -405,7 +453,13 @@ const cardSchema = new mongoose.Schema({
   // Tasks within the card/project
   tasks: [taskSchema],
   timeTracking: timeTrackingSchema,
+  // Values for the board's custom fields, by field id. Older cards carried their
+  // own name and type instead of a fieldId.
   customFields: [{
+    fieldId: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null
+    },
     name: String,
     value: mongoose.Schema.Types.Mixed,
     type: {
@@ -484,6 +538,15 @@ cardSchema.virtual('totalTimeSpent').get(function() {
   return this.timeTracking.entries.reduce((total, entry) => total + entry.hours, 0);
 });
 
+// Hour totals as the board clients show them
+cardSchema.virtual('estimatedHours').get(function() {
+  return this.timeTracking ? this.timeTracking.estimated || 0 : 0;
+});
+
+cardSchema.virtual('actualHours').get(function() {
+  return this.timeTracking ? this.timeTracking.spent || 0 : 0;
+});
+
 // Virtual for task completion percentage
 cardSchema.virtual('taskCompletion').get(function() {
   if (!this.tasks || this.tasks.length === 0) return 100;
@@ -511,8 +574,20 @@ cardSchema.virtual('projectProgress').get(function() {
   }
 });
 
+// Instance method to check if the card has been shared with a client
+cardSchema.methods.isSharedWithClient = function(userId) {
+  return (this.sharedWithClients || []).some(id =>
+    (id._id || id).toString() === userId.toString()
+  );
+};
+
 // Instance method to check if user has card access
 cardSchema.methods.hasAccess = async function(userId, userRole) {
+  // Clients only reach cards that have been shared with them
+  if (userRole === 'client' && !this.isSharedWithClient(userId)) {
+    return false;
+  }
+
   const List = mongoose.model('List');
   const list = await List.findById(this.listId);
 
@@ -522,6 +597,10 @@ cardSchema.methods.hasAccess = async function(userId, userRole) {
 
 // Instance method to check specific permissions
 cardSchema.methods.hasPermission = async function(userId, action, userRole) {
+  if (userRole === 'client' && !this.isSharedWithClient(userId)) {
+    return false;
+  }
+
   const List = mongoose.model('List');
   const list = await List.findById(this.listId);
 
@@ -552,11 +631,12 @@ cardSchema.methods.unassignUsers = function(userIds) {
 };
 
 // Instance method to add comment
-cardSchema.methods.addComment = function(text, authorId, mentions = []) {
+cardSchema.methods.addComment = function(text, authorId, mentions = [], visibility = 'internal') {
   const comment = {
     text,
     author: authorId,
-    mentions
+    mentions,
+    visibility
   };
 
   this.comments.push(comment);
@@ -607,8 +687,18 @@ cardSchema.methods.deleteComment = function(commentId, deleterId, deleterRole) {
   return this;
 };
 
+// Keep spent and remaining time in step when entries change by delta hours
+cardSchema.methods.adjustTimeSpent = function(delta) {
+  this.timeTracking.spent = Math.max(0, (this.timeTracking.spent || 0) + delta);
+
+  if (this.timeTracking.estimated) {
+    this.timeTracking.remaining = Math.max(0, this.timeTracking.estimated - this.timeTracking.spent);
+  }
+  return this;
+};
+
 // Instance method to add time entry
-cardSchema.methods.addTimeEntry = function(userId, hours, description = '') {
+cardSchema.methods.addTimeEntry = function(userId, hours, description = '', options = {}) {
   if (!this.timeTracking) {
     this.timeTracking = { entries: [] };
   }
@@ -617,16 +707,14 @@ cardSchema.methods.addTimeEntry = function(userId, hours, description = '') {
     user: userId,
     hours,
     description,
-    date: new Date()
+    date: options.date || new Date(),
+    taskId: options.taskId || null,
+    source: options.source || 'manual',
+    startedAt: options.startedAt,
+    endedAt: options.endedAt
   });
 
-  // Update spent time
-  this.timeTracking.spent = (this.timeTracking.spent || 0) + hours;
-
-  // Update remaining time if estimated time is set
-  if (this.timeTracking.estimated) {
-    this.timeTracking.remaining = Math.max(0, this.timeTracking.estimated - this.timeTracking.spent);
-  }
+  this.adjustTimeSpent(hours);
 
   // Add user as watcher
   const watcherIds = this.watchers.map(id => id.toString());
@@ -637,6 +725,36 @@ cardSchema.methods.addTimeEntry = function(userId, hours, description = '') {
   return this;
 };
 
+// Instance method to edit a time entry's hours, description, date or task
+cardSchema.methods.updateTimeEntry = function(entryId, updates) {
+  const entry = this.timeTracking && this.timeTracking.entries.id(entryId);
+  if (!entry) {
+    throw new Error('Time entry not found');
+  }
+
+  if (updates.hours !== undefined) {
+    this.adjustTimeSpent(updates.hours - entry.hours);
+    entry.hours = updates.hours;
+  }
+  if (updates.description !== undefined) entry.description = updates.description;
+  if (updates.date !== undefined) entry.date = updates.date;
+  if (updates.taskId !== undefined) entry.taskId = updates.taskId || null;
+
+  return entry;
+};
+
+// Instance method to remove a time entry
+cardSchema.methods.removeTimeEntry = function(entryId) {
+  const entry = this.timeTracking && this.timeTracking.entries.id(entryId);
+  if (!entry) {
+    throw new Error('Time entry not found');
+  }
+
+  this.adjustTimeSpent(-entry.hours);
+  this.timeTracking.entries.pull(entryId);
+  return this;
+};
+
 // Instance method to move to list
 cardSchema.methods.moveToList = async function(targetListId, position) {
   const List = mongoose.model('List');
@@ -709,28 +827,18 @@ cardSchema.methods.addTask = function(taskData, createdBy) {
   // Set position for new task
   const maxPosition = Math.max(...this.tasks.map(t => t.position), 0);
 
-  // Check if task has a dependency
-  let isLocked = false;
-  let lockedReason = '';
-
-  if (taskData.dependsOn) {
-    const dependencyTask = this.tasks.id(taskData.dependsOn);
-    if (dependencyTask) {
-      // Task is locked if dependency is not completed
-      isLocked = !dependencyTask.completed;
-      if (isLocked) {
-        lockedReason = `Waiting for: ${dependencyTask.title}`;
-      }
-    }
-  }
+  // Lock state depends on tasks that can live on other cards, so a task with
+  // dependencies starts locked and services/taskDependencyService settles it
+  const dependsOn = taskData.dependsOn || [];
 
   const task = {
     ...taskData,
+    dependsOn: dependsOn,
     position: maxPosition + 1,
     createdBy: createdBy,
-    isLocked: isLocked,
-    lockedReason: lockedReason,
-    unlockedAt: isLocked ? null : new Date(),
+    isLocked: dependsOn.length > 0,
+    lockedReason: '',
+    unlockedAt: dependsOn.length > 0 ? null : new Date(),
     autoAssignOnUnlock: taskData.autoAssignOnUnlock || false,
     assignToOnUnlock: taskData.assignToOnUnlock || []
   };
@@ -748,31 +856,21 @@ cardSchema.methods.updateTask = async function(taskId, updateData) {
 
   Object.assign(task, updateData);
 
-  // Handle completion
+  // Handle completion. Dependent tasks are locked and unlocked by
+  // services/taskDependencyService, since they may be on other cards.
   let shouldCheckWorkflowProgress = false;
-  let shouldUnlockDependentTasks = false;
 
   if (updateData.completed !== undefined) {
     if (updateData.completed && !task.completedAt) {
       task.completedAt = new Date();
       task.completedBy = updateData.completedBy || task.assignedTo || task.createdBy;
       shouldCheckWorkflowProgress = true;
-      shouldUnlockDependentTasks = true; // NEW: Unlock dependent tasks
     } else if (!updateData.completed) {
       task.completedAt = null;
       task.completedBy = null;
-      // Re-lock dependent tasks if this task is uncompleted
-      this.relockDependentTasks(taskId);
     }
   }
 
-  // NEW: Auto-unlock dependent tasks when this task is completed
-  if (shouldUnlockDependentTasks) {
-    const unlockedTasks = this.unlockDependentTasks(taskId);
-    // Store unlocked tasks info for notifications
-    this._unlockedTasks = unlockedTasks;
-  }
-
   // Check if workflow should auto-progress
   if (shouldCheckWorkflowProgress && this.workflowEnabled && this.autoProgressEnabled) {
     // Check if all tasks in current stage are now completed
@@ -960,8 +1058,9 @@ cardSchema.methods.progressToNextStage = async function() {
 
     // Move to "Done" list if exists
     const List = mongoose.model('List');
+    const currentList = this.boardId ? null : await List.findById(this.listId).select('boardId');
     const doneList = await List.findOne({
-      boardId: this.boardId,
+      boardId: this.boardId || (currentList && currentList.boardId),
       name: { $regex: /^done$/i }
     });
 
@@ -978,6 +1077,102 @@ cardSchema.methods.progressToNextStage = async function() {
   }
 };
 
+// Instance method to replace the workflow's stages. Stages that keep their _id keep
+// their progress; the current stage index is clamped to the new stage count and
+// tasks are tagged with the stage they belong to.
+cardSchema.methods.setWorkflowStages = function(stages) {
+  const now = new Date();
+
+  this.workflowStages = stages.map((stage, index) => {
+    const existing = stage._id ? this.workflowStages.id(stage._id) : null;
+    const definition = {
+      order: index,
+      name: stage.name || '',
+      assignedToType: stage.assignedToType || 'user',
+      assignedTo: stage.assignedTo,
+      taskIds: stage.taskIds || []
+    };
+    return existing
+      ? { ...definition, _id: existing._id, status: existing.status, startedAt: existing.startedAt, completedAt: existing.completedAt }
+      : definition;
+  });
+
+  if (this.workflowStages.length === 0) {
+    this.currentStageIndex = 0;
+  } else {
+    this.currentStageIndex = Math.min(this.currentStageIndex, this.workflowStages.length - 1);
+    const currentStage = this.workflowStages[this.currentStageIndex];
+    if (currentStage.status === 'pending') {
+      currentStage.status = 'active';
+      currentStage.startedAt = now;
+    }
+  }
+
+  this.tasks.forEach(task => {
+    const stageIndex = this.workflowStages.findIndex(stage =>
+      stage.taskIds.some(id => id.toString() === task._id.toString())
+    );
+    task.workflowStageIndex = stageIndex === -1 ? null : stageIndex;
+  });
+
+  return this;
+};
+
+// Instance method to put the workflow on a given stage by hand, skipping the task
+// check auto-progress does. A stageIndex equal to the stage count completes the
+// workflow. Returns the list the card moved to, if any.
+cardSchema.methods.goToWorkflowStage = async function(stageIndex) {
+  if (!this.workflowEnabled || this.workflowStages.length === 0) {
+    throw new Error('Workflow is not enabled for this card');
+  }
+  if (stageIndex < 0 || stageIndex > this.workflowStages.length) {
+    throw new Error('Workflow stage not found');
+  }
+
+  const now = new Date();
+  this.workflowStages.forEach((stage, index) => {
+    if (index < stageIndex) {
+      stage.status = 'completed';
+      stage.startedAt = stage.startedAt || now;
+      stage.completedAt = stage.completedAt || now;
+    } else if (index === stageIndex) {
+      stage.status = 'active';
+      stage.startedAt = now;
+      stage.completedAt = null;
+    } else {
+      stage.status = 'pending';
+      stage.startedAt = null;
+      stage.completedAt = null;
+    }
+  });
+
+  const completed = stageIndex === this.workflowStages.length;
+  this.currentStageIndex = Math.min(stageIndex, this.workflowStages.length - 1);
+
+  if (completed) {
+    this.status = 'completed';
+    this.completedAt = now;
+    return { completed, movedToListId: null };
+  }
+  if (this.status === 'completed') {
+    this.status = 'in_progress';
+    this.completedAt = null;
+  }
+
+  // Follow the stage's list mapping unless the list is at a blocking WIP limit
+  const targetListId = this.moveListOnProgress ? this.stageListMapping.get(stageIndex.toString()) : null;
+  if (targetListId && targetListId.toString() !== (this.listId._id || this.listId).toString()) {
+    const List = mongoose.model('List');
+    const targetList = await List.findOne({ _id: targetListId, isArchived: false });
+    if (targetList && !await targetList.isWipLimitBlocking(this._id)) {
+      await this.moveToList(targetList._id);
+      return { completed, movedToListId: targetList._id };
+    }
+  }
+
+  return { completed, movedToListId: null };
+};
+
 // NEW: Instance method to get current stage details
 cardSchema.methods.getCurrentStage = function() {
   if (!this.workflowEnabled || this.workflowStages.length === 0) {
@@ -1036,89 +1231,6 @@ cardSchema.methods.getWorkflowProgress = function() {
   };
 };
 
-// NEW: Instance method to unlock dependent tasks
-cardSchema.methods.unlockDependentTasks = function(completedTaskId) {
-  const unlockedTasks = [];
-
-  // Find all tasks that depend on this task
-  this.tasks.forEach(task => {
-    if (task.dependsOn && task.dependsOn.toString() === completedTaskId.toString() && task.isLocked) {
-      task.isLocked = false;
-      task.unlockedAt = new Date();
-      task.lockedReason = '';
-
-      // Auto-assign users if configured
-      if (task.autoAssignOnUnlock && task.assignToOnUnlock && task.assignToOnUnlock.length > 0) {
-        // Clear existing assignments and assign new users
-        task.assignedTo = [...task.assignToOnUnlock];
-      }
-
-      unlockedTasks.push({
-        taskId: task._id,
-        title: task.title,
-        assignedTo: task.assignedTo,
-        autoAssigned: task.autoAssignOnUnlock
-      });
-    }
-  });
-
-  return unlockedTasks;
-};
-
-// NEW: Instance method to re-lock dependent tasks
-cardSchema.methods.relockDependentTasks = function(taskId) {
-  const dependencyTask = this.tasks.id(taskId);
-  if (!dependencyTask) return;
-
-  // Find all tasks that depend on this task
-  this.tasks.forEach(task => {
-    if (task.dependsOn && task.dependsOn.toString() === taskId.toString()) {
-      task.isLocked = true;
-      task.unlockedAt = null;
-      task.lockedReason = `Waiting for: ${dependencyTask.title}`;
-    }
-  });
-};
-
-// NEW: Instance method to get task dependencies chain
-cardSchema.methods.getTaskDependencies = function(taskId) {
-  const task = this.tasks.id(taskId);
-  if (!task) return null;
-
-  const dependencies = [];
-  let currentTask = task;
-
-  // Traverse up the dependency chain
-  while (currentTask && currentTask.dependsOn) {
-    const dependencyTask = this.tasks.id(currentTask.dependsOn);
-    if (!dependencyTask) break;
-
-    dependencies.push({
-      taskId: dependencyTask._id,
-      title: dependencyTask.title,
-      completed: dependencyTask.completed,
-      assignedTo: dependencyTask.assignedTo
-    });
-
-    currentTask = dependencyTask;
-  }
-
-  return dependencies.reverse(); // Return in order from first to last
-};
-
-// NEW: Instance method to check if task can be started
-cardSchema.methods.canStartTask = function(taskId) {
-  const task = this.tasks.id(taskId);
-  if (!task) return false;
-
-  // If task has no dependency, it can always be started
-  if (!task.dependsOn) return true;
-
-  // Check if dependency is completed
-  const dependencyTask = this.tasks.id(task.dependsOn);
-  return dependencyTask && dependencyTask.completed;
-};
-
 // Pre-save middleware to set position and update metadata
 cardSchema.pre('save', async function(next) {
   if (this.isNew) {
@@ -1270,6 +1382,9 @@ cardSchema.index({ watchers: 1 });
 cardSchema.index({ isArchived: 1 });
 cardSchema.index({ 'labels.name': 1 });
 cardSchema.index({ 'members.userId': 1 });
+cardSchema.index({ sharedWithClients: 1 });
+cardSchema.index({ 'tasks.dependsOn': 1 });
+cardSchema.index({ 'timeTracking.entries.user': 1, 'timeTracking.entries.date': 1 });
 
 // Compound indexes
 cardSchema.index({
@@ -1284,4 +1399,5 @@ cardSchema.index({
   dueDate: 1
 });
 
-module.exports = mongoose.model('Card', cardSchema);
\ No newline at end of file
+module.exports = mongoose.model('Card', cardSchema);
+module.exports.COMMENT_VISIBILITIES = COMMENT_VISIBILITIES;
\ No newline at end of file
@@ -0,0 +1,33 @@
+const mongoose = require('mongoose');
+
+// A department HR manages. Users keep the department's name in `User.department`,
+// so renaming a department renames it on its users too.
+const departmentSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Department name is required'],
+    trim: true,
+    unique: true,
+    maxlength: [100, 'Department name cannot be more than 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Department description cannot be more than 500 characters'],
+    default: ''
+  },
+  head: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('Department', departmentSchema);
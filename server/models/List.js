@@ -51,6 +51,11 @@ const listSchema = new mongoose.Schema({
     type: Boolean,
     default: false
   },
+  archivedAt: Date,
+  archivedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
   settings: {
     cardLimit: {
       type: Number,
@@ -62,6 +67,16 @@ const listSchema = new mongoose.Schema({
         type: Boolean,
         default: false
       },
+      // Whether a card must meet all conditions or any one of them
+      match: {
+        type: String,
+        enum: ['all', 'any'],
+        default: 'all'
+      },
+      targetList: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'List'
+      },
       conditions: [{
         field: {
           type: String,
@@ -69,9 +84,10 @@ const listSchema = new mongoose.Schema({
         },
         operator: {
           type: String,
-          enum: ['equals', 'contains', 'completed', 'overdue']
+          enum: ['equals', 'contains', 'notContains', 'completed', 'notCompleted', 'overdue', 'dueWithin', 'isEmpty']
         },
         value: mongoose.Schema.Types.Mixed,
+        // Older rules kept a target per condition; used when the rule has no targetList
         targetList: {
           type: mongoose.Schema.Types.ObjectId,
           ref: 'List'
@@ -87,6 +103,12 @@ const listSchema = new mongoose.Schema({
         type: Number,
         min: [1, 'WIP limit must be at least 1'],
         default: 5
+      },
+      // warn: over-limit lists are flagged; block: moves past the limit are rejected
+      mode: {
+        type: String,
+        enum: ['warn', 'block'],
+        default: 'warn'
       }
     }
   },
@@ -114,6 +136,20 @@ listSchema.virtual('isWipLimitExceeded').get(function() {
   return this.metadata.cardCount > this.settings.wipLimit.limit;
 });
 
+// Instance method to check whether a blocking WIP limit keeps incoming cards out.
+// The card being moved is left out of the count so moves within the list pass.
+listSchema.methods.isWipLimitBlocking = async function(excludeCardId, incomingCount = 1) {
+  const wipLimit = this.settings.wipLimit;
+  if (!wipLimit || !wipLimit.enabled || wipLimit.mode !== 'block') return false;
+
+  const Card = mongoose.model('Card');
+  const query = { listId: this._id, isArchived: false };
+  if (excludeCardId) {
+    query._id = { $ne: excludeCardId };
+  }
+  return await Card.countDocuments(query) + incomingCount > wipLimit.limit;
+};
+
 // Static method to create default lists for a board
 listSchema.statics.createDefaultLists = async function(boardId, projectId, createdBy) {
   const defaultLists = [
@@ -162,15 +198,15 @@ listSchema.methods.moveAllCardsTo = async function(targetListId) {
   }
 
   // Get all cards in this list
-  const cards = await Card.find({ list: this._id }).sort({ position: 1 });
+  const cards = await Card.find({ listId: this._id }).sort({ position: 1 });
 
   // Get the highest position in target list
-  const lastCard = await Card.findOne({ list: targetListId }).sort({ position: -1 });
+  const lastCard = await Card.findOne({ listId: targetListId }).sort({ position: -1 });
   let nextPosition = lastCard ? lastCard.position + 1 : 1;
 
   // Move all cards to target list
   for (const card of cards) {
-    card.list = targetListId;
+    card.listId = targetListId;
     card.position = nextPosition++;
     await card.save();
   }
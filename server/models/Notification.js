@@ -0,0 +1,179 @@
+const mongoose = require('mongoose');
+const { shouldDeliver } = require('../utils/notificationPreferences');
+const { sendNotificationEmail } = require('../utils/emailService');
+const { sendNotificationDM } = require('../utils/slackService');
+
+const notificationSchema = new mongoose.Schema({
+  recipient: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  actor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  type: {
+    type: String,
+    enum: [
+      'task_assigned',
+      'card_assigned',
+      'mention',
+      'due_soon',
+      'task_unlocked',
+      'board_invite',
+      'timesheet_reviewed',
+      'client_feedback'
+    ],
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [200, 'Notification title cannot be more than 200 characters']
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notification message cannot be more than 1000 characters'],
+    default: ''
+  },
+  board: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Board',
+    default: null
+  },
+  card: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Card',
+    default: null
+  },
+  taskId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  // False when the recipient has switched in-app delivery off for this event.
+  // The record is kept so scheduled notifications are not sent twice.
+  inApp: {
+    type: Boolean,
+    default: true
+  },
+  isRead: {
+    type: Boolean,
+    default: false
+  },
+  readAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+notificationSchema.index({ recipient: 1, createdAt: -1 });
+notificationSchema.index({ recipient: 1, isRead: 1 });
+
+const POPULATE_FIELDS = [
+  { path: 'actor', select: 'firstName lastName avatar' },
+  { path: 'board', select: 'name' },
+  { path: 'card', select: 'title' }
+];
+
+// These events already get a richer Slack DM from the board notifications in
+// slackService, so they are not sent again from here
+const BOARD_SLACK_DM_EVENTS = ['task_assigned', 'task_unlocked', 'board_invite'];
+
+// Static method to deliver a notification on every channel the recipient has
+// enabled: stored and pushed in real time in-app, and sent by email / Slack DM
+notificationSchema.statics.notify = async function(notificationData) {
+  try {
+    const { recipient, actor, type, title, message, board } = notificationData;
+
+    // Nobody needs to be told about their own actions
+    if (!recipient || (actor && recipient.toString() === actor.toString())) {
+      return null;
+    }
+
+    const user = await mongoose.model('User')
+      .findById(recipient)
+      .select('firstName email role isActive notificationPreferences');
+    if (!user || !user.isActive) {
+      return null;
+    }
+
+    const link = type === 'timesheet_reviewed'
+      ? `/${user.role}/timesheet`
+      : board ? `/${user.role}/boards/${board}` : null;
+
+    sendNotificationEmail({ user, type, title, message, link })
+      .catch(error => console.error('❌ Failed to send notification email:', error));
+
+    if (!BOARD_SLACK_DM_EVENTS.includes(type)) {
+      sendNotificationDM({ user, type, title, message, link })
+        .catch(error => console.error('❌ Failed to send notification Slack DM:', error));
+    }
+
+    const notification = new this({
+      ...notificationData,
+      inApp: shouldDeliver(user, type, 'inApp')
+    });
+    await notification.save();
+
+    if (!notification.inApp) {
+      return null;
+    }
+
+    await notification.populate(POPULATE_FIELDS);
+
+    try {
+      const app = require('../server');
+      const socketManager = app.get('socketManager');
+
+      if (socketManager) {
+        socketManager.notifyUser(notification.recipient, 'notification:new', notification);
+      }
+    } catch (socketError) {
+      console.error('Error emitting notification socket event:', socketError);
+    }
+
+    return notification;
+  } catch (error) {
+    console.error('Error creating notification:', error);
+    return null;
+  }
+};
+
+// Static method to fan a notification out to several recipients
+notificationSchema.statics.notifyMany = async function(recipients, notificationData) {
+  const uniqueRecipients = [...new Set((recipients || []).filter(Boolean).map(id => id.toString()))];
+  return Promise.all(
+    uniqueRecipients.map(recipient => this.notify({ ...notificationData, recipient }))
+  );
+};
+
+// Static method to get a user's notifications
+notificationSchema.statics.getUserNotifications = async function(userId, options = {}) {
+  const { limit = 20, skip = 0, types = [], unreadOnly = false } = options;
+
+  const query = { recipient: userId, inApp: { $ne: false } };
+  if (types.length > 0) query.type = { $in: types };
+  if (unreadOnly) query.isRead = false;
+
+  return this.find(query)
+    .populate(POPULATE_FIELDS)
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .skip(skip);
+};
+
+// Static method to mark notifications as read for a user
+notificationSchema.statics.markAsRead = async function(userId, notificationIds = null) {
+  const query = { recipient: userId, isRead: false };
+  if (notificationIds) query._id = { $in: notificationIds };
+
+  return this.updateMany(query, { isRead: true, readAt: new Date() });
+};
+
+module.exports = mongoose.model('Notification', notificationSchema);
@@ -0,0 +1,35 @@
+const mongoose = require('mongoose');
+
+// A job title HR manages, optionally tied to one department. Users keep the
+// title in `User.position`.
+const positionSchema = new mongoose.Schema({
+  title: {
+    type: String,
+    required: [true, 'Position title is required'],
+    trim: true,
+    maxlength: [100, 'Position title cannot be more than 100 characters']
+  },
+  // null when the position can be held in any department
+  department: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Department',
+    default: null
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Position description cannot be more than 500 characters'],
+    default: ''
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+positionSchema.index({ title: 1, department: 1 }, { unique: true });
+
+module.exports = mongoose.model('Position', positionSchema);
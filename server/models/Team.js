@@ -0,0 +1,59 @@
+const mongoose = require('mongoose');
+
+// A group of users HR and admins put together. Teams can be added to boards as
+// a whole, and workflow stages and tasks can be assigned to them.
+const teamSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Team name is required'],
+    trim: true,
+    maxlength: [100, 'Team name cannot be more than 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Team description cannot be more than 500 characters'],
+    default: ''
+  },
+  department: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Department cannot be more than 100 characters'],
+    default: ''
+  },
+  lead: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  members: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// The lead is always one of the team's members
+teamSchema.pre('save', function(next) {
+  const memberIds = [...new Set(this.members.map(id => id.toString()))];
+  if (this.lead && !memberIds.includes(this.lead.toString())) {
+    memberIds.push(this.lead.toString());
+  }
+  this.members = memberIds;
+  next();
+});
+
+teamSchema.methods.getMemberIds = function() {
+  return this.members.map(member => (member._id || member).toString());
+};
+
+teamSchema.index({ name: 1 });
+teamSchema.index({ members: 1 });
+
+module.exports = mongoose.model('Team', teamSchema);
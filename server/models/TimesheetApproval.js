@@ -0,0 +1,88 @@
+const mongoose = require('mongoose');
+
+// What an approved week looked like, kept so payroll exports do not change
+// when a card is later renamed or deleted
+const approvedEntrySchema = new mongoose.Schema({
+  entryId: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  cardId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Card'
+  },
+  cardTitle: {
+    type: String,
+    default: ''
+  },
+  boardTitle: {
+    type: String,
+    default: ''
+  },
+  taskTitle: {
+    type: String,
+    default: null
+  },
+  date: {
+    type: Date,
+    required: true
+  },
+  hours: {
+    type: Number,
+    required: true
+  },
+  description: {
+    type: String,
+    default: ''
+  }
+}, { _id: false });
+
+// HR's review of one user's timesheet week. Weeks without a record are still
+// pending; approving a week locks its time entries until it is sent back.
+const timesheetApprovalSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  weekStart: {
+    type: Date,
+    required: true
+  },
+  weekEnd: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['approved', 'returned'],
+    required: true
+  },
+  // Why the week was sent back, or an optional note on approval
+  comment: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Comment cannot be more than 1000 characters'],
+    default: ''
+  },
+  totalHours: {
+    type: Number,
+    default: 0
+  },
+  entries: [approvedEntrySchema],
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  reviewedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+timesheetApprovalSchema.index({ user: 1, weekStart: 1 }, { unique: true });
+timesheetApprovalSchema.index({ status: 1, weekStart: 1 });
+
+module.exports = mongoose.model('TimesheetApproval', timesheetApprovalSchema);
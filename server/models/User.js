@@ -1,5 +1,22 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const {
+  DEFAULT_EVENT_CHANNELS,
+  DEFAULT_QUIET_HOURS,
+  DIGEST_FREQUENCIES,
+  TIME_PATTERN
+} = require('../utils/notificationPreferences');
+
+// One { inApp, email, slack } switch set per notification event
+const notificationEventsDefinition = Object.keys(DEFAULT_EVENT_CHANNELS).reduce((definition, event) => {
+  const defaults = DEFAULT_EVENT_CHANNELS[event];
+  definition[event] = {
+    inApp: { type: Boolean, default: defaults.inApp },
+    email: { type: Boolean, default: defaults.email },
+    slack: { type: Boolean, default: defaults.slack }
+  };
+  return definition;
+}, {});
 
 const userSchema = new mongoose.Schema({
   firstName: {
@@ -55,6 +72,12 @@ const userSchema = new mongoose.Schema({
     trim: true,
     maxlength: [100, 'Position cannot be more than 100 characters']
   },
+  // Manager in the org chart
+  reportsTo: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
   avatar: {
     type: String,
     default: null
@@ -99,6 +122,65 @@ const userSchema = new mongoose.Schema({
   projects: [{
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Project'
+  }],
+  notificationPreferences: {
+    events: notificationEventsDefinition,
+    quietHours: {
+      enabled: {
+        type: Boolean,
+        default: DEFAULT_QUIET_HOURS.enabled
+      },
+      start: {
+        type: String,
+        default: DEFAULT_QUIET_HOURS.start,
+        match: [TIME_PATTERN, 'Quiet hours start must be in HH:mm format']
+      },
+      end: {
+        type: String,
+        default: DEFAULT_QUIET_HOURS.end,
+        match: [TIME_PATTERN, 'Quiet hours end must be in HH:mm format']
+      },
+      timezone: {
+        type: String,
+        default: DEFAULT_QUIET_HOURS.timezone,
+        trim: true
+      }
+    },
+    digestFrequency: {
+      type: String,
+      enum: DIGEST_FREQUENCIES,
+      default: 'daily'
+    }
+  },
+  // A digest that came due during the user's quiet hours; it is sent once they end
+  pendingDigest: {
+    type: String,
+    enum: [...DIGEST_FREQUENCIES.filter(frequency => frequency !== 'none'), null],
+    default: null
+  },
+  // Named card filters saved from a board's filter bar. The query is the same
+  // query string used to share the filter through the board URL.
+  savedBoardFilters: [{
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [50, 'Filter name cannot be more than 50 characters']
+    },
+    board: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Board',
+      required: true
+    },
+    query: {
+      type: String,
+      required: true,
+      maxlength: [2000, 'Filter is too long']
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
   }]
 }, {
   timestamps: true,
@@ -169,6 +251,8 @@ userSchema.index({ email: 1 });
 userSchema.index({ role: 1 });
 userSchema.index({ isActive: 1 });
 userSchema.index({ createdBy: 1 });
+userSchema.index({ department: 1 });
+userSchema.index({ reportsTo: 1 });
 
 module.exports = mongoose.model('User', userSchema);
 
@@ -130,12 +130,20 @@ router.get('/types', protect, async (req, res) => {
       { type: 'list_updated', label: 'List Updated' },
       { type: 'list_deleted', label: 'List Deleted' },
       { type: 'list_moved', label: 'List Moved' },
+      { type: 'list_archived', label: 'List Archived' },
+      { type: 'list_restored', label: 'List Restored' },
 
       // Card activities
       { type: 'card_created', label: 'Card Created' },
       { type: 'card_updated', label: 'Card Updated' },
       { type: 'card_deleted', label: 'Card Deleted' },
       { type: 'card_moved', label: 'Card Moved' },
+      { type: 'card_auto_moved', label: 'Card Auto-Moved' },
+      { type: 'card_wip_limit_overridden', label: 'WIP Limit Overridden' },
+      { type: 'card_archived', label: 'Card Archived' },
+      { type: 'card_restored', label: 'Card Restored' },
+      { type: 'card_workflow_updated', label: 'Card Workflow Updated' },
+      { type: 'card_workflow_progressed', label: 'Card Workflow Stage Changed' },
       { type: 'card_assigned', label: 'Card Assigned' },
       { type: 'card_unassigned', label: 'Card Unassigned' },
       { type: 'card_completed', label: 'Card Completed' },
@@ -3,14 +3,18 @@ const router = express.Router();
 
 const Card = require('../models/Card');
 const List = require('../models/List');
+const Board = require('../models/Board');
 const User = require('../models/User');
 const Activity = require('../models/Activity');
+const Notification = require('../models/Notification');
 const automationService = require('../services/automationService');
+const clientPortalService = require('../services/clientPortalService');
 const { protect } = require('../middleware/auth');
 const {
   checkListAccess,
   checkCardAccess
 } = require('../middleware/projectAuth');
+const { requireBoardPermission, staffOnly } = require('../middleware/boardPermissions');
 const { upload, uploadImage, deleteFile } = require('../config/cloudinary');
 
 /**
@@ -84,7 +88,7 @@ router.get('/:cardId', protect, checkCardAccess, async (req, res) => {
 
     res.status(200).json({
       success: true,
-      data: card
+      data: clientPortalService.isClient(req.user) ? clientPortalService.toClientCard(card) : card
     });
   } catch (error) {
     console.error('Get card error:', error);
@@ -653,10 +657,17 @@ router.put('/:cardId/unassign', protect, checkCardAccess, async (req, res) => {
  * @desc    Add comment to card
  * @access  Private
  */
-router.post('/:cardId/comments', protect, checkCardAccess, async (req, res) => {
+router.post('/:cardId/comments', protect, checkCardAccess, requireBoardPermission('comment'), async (req, res) => {
   try {
     const card = req.card;
-    const { text, mentions = [] } = req.body;
+    const { text, mentions = [], visibility = 'internal' } = req.body;
+
+    if (clientPortalService.isClient(req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Clients leave feedback on cards through the client portal'
+      });
+    }
 
     if (!text || text.trim().length === 0) {
       return res.status(400).json({
@@ -665,22 +676,45 @@ router.post('/:cardId/comments', protect, checkCardAccess, async (req, res) => {
       });
     }
 
-    // Check if user has permission to comment
-    const hasPermission = await card.hasPermission(req.user.id, 'read');
-    if (!hasPermission && !['superadmin', 'admin'].includes(req.user.role)) {
-      return res.status(403).json({
+    if (!Card.COMMENT_VISIBILITIES.includes(visibility)) {
+      return res.status(400).json({
         success: false,
-        message: 'You do not have permission to comment on this card'
+        message: 'Comment visibility must be internal or client'
       });
     }
 
     // Add comment
-    card.addComment(text, req.user.id, mentions);
+    card.addComment(text, req.user.id, mentions, visibility);
     await card.save();
 
     // Log activity
     await logCardActivity(card, 'card_comment_added', req.user.id);
 
+    // Notify mentioned users who are on the board; an internal comment's text never goes to clients
+    if (mentions.length > 0) {
+      const list = await List.findById(card.listId).select('boardId');
+      const board = list ? await Board.findById(list.boardId).select('createdBy members.userId') : null;
+      const boardUserIds = new Set(board
+        ? [board.createdBy.toString(), ...board.members.map(member => member.userId.toString())]
+        : []);
+      let recipients = mentions.filter(userId => boardUserIds.has(String(userId)));
+
+      if (visibility === 'internal' && recipients.length > 0) {
+        const clients = await User.find({ _id: { $in: recipients }, role: 'client' }).select('_id');
+        const clientIds = new Set(clients.map(client => client._id.toString()));
+        recipients = recipients.filter(userId => !clientIds.has(String(userId)));
+      }
+
+      Notification.notifyMany(recipients, {
+        type: 'mention',
+        actor: req.user.id,
+        title: `${req.user.firstName} ${req.user.lastName} mentioned you on "${card.title}"`,
+        message: text.length > 200 ? `${text.substring(0, 200)}...` : text,
+        board: list ? list.boardId : null,
+        card: card._id
+      });
+    }
+
     // Trigger automation for comment notification
     automationService.handleTaskComment(
       card._id,
@@ -715,7 +749,7 @@ router.post('/:cardId/comments', protect, checkCardAccess, async (req, res) => {
 
 /**
  * @route   GET /api/cards/:cardId/comments
- * @desc    Get all comments for a card
+ * @desc    Get all comments for a card (clients only get the ones shared with them)
  * @access  Private
  */
 router.get('/:cardId/comments', protect, checkCardAccess, async (req, res) => {
@@ -734,8 +768,10 @@ router.get('/:cardId/comments', protect, checkCardAccess, async (req, res) => {
       }
     ]);
 
-    // Filter out deleted comments
-    const activeComments = card.comments.filter(comment => !comment.isDeleted);
+    // Filter out deleted comments, and internal ones for clients
+    const activeComments = clientPortalService.isClient(req.user)
+      ? card.comments.filter(comment => clientPortalService.isCommentVisible(comment))
+      : card.comments.filter(comment => !comment.isDeleted);
 
     res.status(200).json({
       success: true,
@@ -846,7 +882,7 @@ router.post('/:cardId/comments/:commentId/reactions', protect, checkCardAccess,
     const { emoji } = req.body;
 
     const comment = card.comments.id(commentId);
-    if (!comment) {
+    if (!comment || (clientPortalService.isClient(req.user) && !clientPortalService.isCommentVisible(comment))) {
       return res.status(404).json({
         success: false,
         message: 'Comment not found'
@@ -1568,9 +1604,9 @@ router.get('/:cardId/attachments/:attachmentId/download', protect, checkCardAcce
     const card = req.card;
     const { attachmentId } = req.params;
 
-    // Find the attachment
+    // Find the attachment (clients only reach the files shared with them)
     const attachment = card.attachments.id(attachmentId);
-    if (!attachment) {
+    if (!attachment || (clientPortalService.isClient(req.user) && !clientPortalService.isFileVisible(attachment))) {
       return res.status(404).json({
         success: false,
         message: 'Attachment not found'
@@ -1937,7 +1973,7 @@ router.delete('/:cardId/checklist/:itemId', protect, checkCardAccess, async (req
  * @desc    Get workflow progress for a card
  * @access  Private
  */
-router.get('/:cardId/workflow', protect, checkCardAccess, async (req, res) => {
+router.get('/:cardId/workflow', protect, checkCardAccess, staffOnly, async (req, res) => {
   try {
     const card = req.card;
 
@@ -0,0 +1,258 @@
+const express = require('express');
+const router = express.Router();
+
+const Board = require('../models/Board');
+const List = require('../models/List');
+const Card = require('../models/Card');
+const User = require('../models/User');
+const Activity = require('../models/Activity');
+const { protect } = require('../middleware/auth');
+const clientPortalService = require('../services/clientPortalService');
+
+const TEAM_ROLES = ['superadmin', 'admin', 'hr'];
+const DUE_SOON_DAYS = 3;
+const LIST_LIMIT = 10;
+
+// Monday 00:00 of the current week
+const getWeekStart = () => {
+  const date = new Date();
+  const day = date.getDay();
+  date.setDate(date.getDate() - (day === 0 ? 6 : day - 1));
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+const includesUser = (ids, userId) => (ids || []).some(id => id && id.toString() === userId);
+
+/**
+ * Load every non-archived card on the boards the user can reach, together with
+ * the list and board it lives on. Cards created through the Trello routes do not
+ * always carry a boardId, so the board is resolved through the list.
+ */
+const getAccessibleCards = async (user) => {
+  const boards = await Board.getAccessibleBoards(user.id, user.role);
+  const boardMap = new Map(boards.map(board => [board._id.toString(), board]));
+
+  const lists = await List.find({
+    boardId: { $in: boards.map(board => board._id) },
+    isArchived: false
+  }).select('name boardId');
+  const listMap = new Map(lists.map(list => [list._id.toString(), list]));
+
+  const cards = await Card.find({
+    listId: { $in: lists.map(list => list._id) },
+    isArchived: false,
+    // Clients only see the cards shared with them
+    ...(clientPortalService.isClient(user) && { sharedWithClients: user.id })
+  })
+    .select('title listId status priority dueDate completedAt assignedTo members tasks')
+    .populate('tasks.assignedTo', 'firstName lastName avatar');
+
+  return {
+    boards,
+    cards: cards.map(card => {
+      const list = listMap.get(card.listId.toString());
+      const board = list ? boardMap.get(list.boardId.toString()) : null;
+      return { card, list, board };
+    })
+  };
+};
+
+const toTaskItem = ({ card, list, board }, task, now) => ({
+  _id: task._id,
+  type: 'task',
+  title: task.title,
+  priority: task.priority,
+  dueDate: task.dueDate || null,
+  completed: task.completed,
+  isLocked: task.isLocked,
+  isOverdue: !task.completed && !!task.dueDate && task.dueDate < now,
+  cardId: card._id,
+  cardTitle: card.title,
+  listName: list ? list.name : '',
+  boardId: board ? board._id : null,
+  boardName: board ? board.name : ''
+});
+
+const toCardItem = ({ card, list, board }, now) => ({
+  _id: card._id,
+  type: 'card',
+  title: card.title,
+  priority: card.priority,
+  dueDate: card.dueDate || null,
+  completed: card.status === 'completed',
+  isOverdue: card.status !== 'completed' && !!card.dueDate && card.dueDate < now,
+  cardId: card._id,
+  cardTitle: card.title,
+  listName: list ? list.name : '',
+  boardId: board ? board._id : null,
+  boardName: board ? board.name : ''
+});
+
+const byDueDate = (a, b) => {
+  if (!a.dueDate) return 1;
+  if (!b.dueDate) return -1;
+  return new Date(a.dueDate) - new Date(b.dueDate);
+};
+
+/**
+ * @route   GET /api/dashboard/overview
+ * @desc    Get live dashboard data for the current user's role
+ * @access  Private
+ */
+router.get('/overview', protect, async (req, res) => {
+  try {
+    const userId = req.user.id;
+    const role = req.user.role;
+    const now = new Date();
+    const weekStart = getWeekStart();
+    const dueSoonLimit = new Date(now.getTime() + DUE_SOON_DAYS * 24 * 60 * 60 * 1000);
+
+    const { boards, cards } = await getAccessibleCards(req.user);
+
+    const myTasks = [];
+    const overdue = [];
+    const dueSoon = [];
+    let completedThisWeek = 0;
+    let openTasks = 0;
+    const workload = new Map();
+
+    cards.forEach(entry => {
+      const { card } = entry;
+      const cardAssignees = [
+        ...(card.assignedTo || []),
+        ...(card.members || []).map(member => member.userId)
+      ];
+
+      if (includesUser(cardAssignees, userId) && card.status !== 'completed' && card.dueDate) {
+        const item = toCardItem(entry, now);
+        if (item.isOverdue) overdue.push(item);
+        else if (card.dueDate <= dueSoonLimit) dueSoon.push(item);
+      }
+
+      (card.tasks || []).forEach(task => {
+        const assignees = task.assignedTo || [];
+        const assigneeIds = assignees.map(user => (user && user._id ? user._id : user));
+
+        if (!task.completed) openTasks++;
+
+        // Team workload is aggregated over all assignees, not just the viewer
+        assignees.forEach(user => {
+          if (!user || !user._id) return;
+          const key = user._id.toString();
+          if (!workload.has(key)) {
+            workload.set(key, {
+              user: {
+                _id: user._id,
+                firstName: user.firstName,
+                lastName: user.lastName,
+                avatar: user.avatar
+              },
+              openTasks: 0,
+              overdueTasks: 0,
+              completedThisWeek: 0
+            });
+          }
+          const stats = workload.get(key);
+          if (!task.completed) {
+            stats.openTasks++;
+            if (task.dueDate && task.dueDate < now) stats.overdueTasks++;
+          } else if (task.completedAt && task.completedAt >= weekStart) {
+            stats.completedThisWeek++;
+          }
+        });
+
+        if (!includesUser(assigneeIds, userId)) return;
+
+        if (task.completed) {
+          if (task.completedAt && task.completedAt >= weekStart) completedThisWeek++;
+          return;
+        }
+
+        const item = toTaskItem(entry, task, now);
+        myTasks.push(item);
+        if (item.isOverdue) overdue.push(item);
+        else if (task.dueDate && task.dueDate <= dueSoonLimit) dueSoon.push(item);
+      });
+    });
+
+    myTasks.sort(byDueDate);
+    overdue.sort(byDueDate);
+    dueSoon.sort(byDueDate);
+
+    const data = {
+      summary: {
+        boards: boards.length,
+        cards: cards.length,
+        openTasks,
+        myOpenTasks: myTasks.length,
+        overdue: overdue.length,
+        dueSoon: dueSoon.length,
+        completedThisWeek
+      },
+      myTasks: myTasks.slice(0, LIST_LIMIT),
+      overdue: overdue.slice(0, LIST_LIMIT),
+      dueSoon: dueSoon.slice(0, LIST_LIMIT),
+      teamWorkload: null,
+      userStats: null,
+      recentActivity: []
+    };
+
+    if (TEAM_ROLES.includes(role)) {
+      data.teamWorkload = Array.from(workload.values())
+        .sort((a, b) => b.openTasks - a.openTasks)
+        .slice(0, LIST_LIMIT);
+
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+      const [total, active, newThisMonth, byRole, byDepartment] = await Promise.all([
+        User.countDocuments(),
+        User.countDocuments({ isActive: true }),
+        User.countDocuments({ createdAt: { $gte: monthStart } }),
+        User.aggregate([{ $group: { _id: '$role', count: { $sum: 1 } } }]),
+        User.aggregate([
+          { $match: { department: { $nin: [null, ''] } } },
+          { $group: { _id: '$department', count: { $sum: 1 } } },
+          { $sort: { count: -1 } }
+        ])
+      ]);
+
+      data.userStats = {
+        total,
+        active,
+        inactive: total - active,
+        newThisMonth,
+        byRole: byRole.reduce((acc, item) => ({ ...acc, [item._id]: item.count }), {}),
+        byDepartment: byDepartment.map(item => ({ department: item._id, count: item.count }))
+      };
+    }
+
+    const boardIds = boards.map(board => board._id);
+    const cardIds = cards.map(entry => entry.card._id);
+    // Board-wide activity covers unshared cards too, so clients only get their cards' activity
+    data.recentActivity = await Activity.find(clientPortalService.isClient(req.user)
+      ? { card: { $in: cardIds } }
+      : {
+        $or: [
+          { board: { $in: boardIds } },
+          { card: { $in: cardIds } }
+        ]
+      })
+      .populate('user', 'firstName lastName avatar')
+      .populate('card', 'title')
+      .sort({ createdAt: -1 })
+      .limit(LIST_LIMIT);
+
+    res.status(200).json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    console.error('Get dashboard overview error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching dashboard overview'
+    });
+  }
+});
+
+module.exports = router;
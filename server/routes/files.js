@@ -6,6 +6,8 @@ const List = require('../models/List');
 const Folder = require('../models/Folder');
 const Activity = require('../models/Activity');
 const { protect } = require('../middleware/auth');
+const { requireBoardPermission } = require('../middleware/boardPermissions');
+const clientPortalService = require('../services/clientPortalService');
 const {
   upload,
   uploadToR2,
@@ -48,20 +50,11 @@ const getCardWithAccess = async (req, res, next) => {
  * @desc    Upload file(s) to card (with optional folder)
  * @access  Private
  */
-router.post('/cards/:cardId/files', protect, getCardWithAccess, upload.array('files', 10), async (req, res) => {
+router.post('/cards/:cardId/files', protect, getCardWithAccess, requireBoardPermission('upload_files'), upload.array('files', 10), async (req, res) => {
   try {
     const { folderId } = req.body;
     const card = req.card;
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to upload files to this card'
-      });
-    }
-
     // Verify folder exists if provided
     if (folderId) {
       const folder = await Folder.findById(folderId);
@@ -175,7 +168,7 @@ router.post('/cards/:cardId/files', protect, getCardWithAccess, upload.array('fi
  * @desc    Get all files for card (with folder structure)
  * @access  Private
  */
-router.get('/cards/:cardId/files', protect, getCardWithAccess, async (req, res) => {
+router.get('/cards/:cardId/files', protect, getCardWithAccess, requireBoardPermission('view_files'), async (req, res) => {
   try {
     const card = req.card;
     const { folderId } = req.query;
@@ -183,6 +176,14 @@ router.get('/cards/:cardId/files', protect, getCardWithAccess, async (req, res)
     // Populate attachments
     await card.populate('attachments.uploadedBy', 'firstName lastName avatar');
 
+    // Clients get the files shared with them, without the team's folders
+    if (clientPortalService.isClient(req.user)) {
+      return res.status(200).json({
+        success: true,
+        data: card.attachments.filter(att => clientPortalService.isFileVisible(att))
+      });
+    }
+
     // Filter out deleted files
     let files = card.attachments.filter(att => !att.isDeleted);
 
@@ -234,9 +235,9 @@ router.get('/files/:fileId/download', protect, async (req, res) => {
       });
     }
 
-    // Check access
-    const hasAccess = await card.hasAccess(req.user.id, req.user.role);
-    if (!hasAccess) {
+    // Check permission
+    const hasPermission = await card.hasPermission(req.user.id, 'view_files', req.user.role);
+    if (!hasPermission) {
       return res.status(403).json({
         success: false,
         message: 'Access denied to this file'
@@ -252,6 +253,13 @@ router.get('/files/:fileId/download', protect, async (req, res) => {
       });
     }
 
+    if (clientPortalService.isClient(req.user) && !clientPortalService.isFileVisible(attachment)) {
+      return res.status(404).json({
+        success: false,
+        message: 'File not found'
+      });
+    }
+
     // Generate signed download URL
     const downloadUrl = await getSignedDownloadUrl(attachment.cloudflareKey || attachment.filename);
 
@@ -299,7 +307,7 @@ router.delete('/files/:fileId', protect, async (req, res) => {
     }
 
     // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'delete', req.user.role);
+    const hasPermission = await card.hasPermission(req.user.id, 'delete_cards', req.user.role);
     if (!hasPermission) {
       // Check if user is the uploader
       const attachment = card.attachments.id(fileId);
@@ -364,18 +372,64 @@ router.delete('/files/:fileId', protect, async (req, res) => {
   }
 });
 
+/**
+ * @route   PUT /api/cards/:cardId/files/:fileId/client-sharing
+ * @desc    Share a file with the card's clients, or make it internal again
+ * @access  Private
+ */
+router.put('/cards/:cardId/files/:fileId/client-sharing', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
+  try {
+    const card = req.card;
+    const attachment = card.attachments.id(req.params.fileId);
+
+    if (!attachment || attachment.isDeleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'File not found'
+      });
+    }
+
+    attachment.sharedWithClient = !!req.body.shared;
+    await card.save();
+
+    res.status(200).json({
+      success: true,
+      data: attachment,
+      message: attachment.sharedWithClient ? 'File shared with clients' : 'File is internal again'
+    });
+  } catch (error) {
+    console.error('Update file sharing error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating file sharing'
+    });
+  }
+});
+
 /**
  * @route   GET /api/cards/:cardId/files/all
  * @desc    Get all files with folder information (organized view)
  * @access  Private
  */
-router.get('/cards/:cardId/files/all', protect, getCardWithAccess, async (req, res) => {
+router.get('/cards/:cardId/files/all', protect, getCardWithAccess, requireBoardPermission('view_files'), async (req, res) => {
   try {
     const card = req.card;
 
     // Populate attachments
     await card.populate('attachments.uploadedBy', 'firstName lastName avatar');
 
+    if (clientPortalService.isClient(req.user)) {
+      const sharedFiles = card.attachments.filter(att => clientPortalService.isFileVisible(att));
+      return res.status(200).json({
+        success: true,
+        data: {
+          folders: [],
+          files: { root: sharedFiles },
+          totalFiles: sharedFiles.length
+        }
+      });
+    }
+
     // Get all folders
     const folders = await Folder.find({
       cardId: req.params.cardId,
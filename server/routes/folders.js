@@ -6,6 +6,7 @@ const Card = require('../models/Card');
 const List = require('../models/List');
 const Activity = require('../models/Activity');
 const { protect } = require('../middleware/auth');
+const { requireBoardPermission, staffOnly } = require('../middleware/boardPermissions');
 
 // Middleware to get card and check access
 const getCardWithAccess = async (req, res, next) => {
@@ -79,19 +80,10 @@ const getFolderWithAccess = async (req, res, next) => {
  * @desc    Create new folder in card
  * @access  Private
  */
-router.post('/cards/:cardId/folders', protect, getCardWithAccess, async (req, res) => {
+router.post('/cards/:cardId/folders', protect, getCardWithAccess, requireBoardPermission('upload_files'), async (req, res) => {
   try {
     const { name, parentFolderId } = req.body;
 
-    // Check permission
-    const hasPermission = await req.card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to create folders in this card'
-      });
-    }
-
     // Validation
     if (!name || !name.trim()) {
       return res.status(400).json({
@@ -178,7 +170,7 @@ router.post('/cards/:cardId/folders', protect, getCardWithAccess, async (req, re
  * @desc    Get folder tree for card
  * @access  Private
  */
-router.get('/cards/:cardId/folders', protect, getCardWithAccess, async (req, res) => {
+router.get('/cards/:cardId/folders', protect, getCardWithAccess, staffOnly, requireBoardPermission('view_files'), async (req, res) => {
   try {
     // Get all folders for this card (not deleted)
     const folders = await Folder.find({
@@ -259,7 +251,7 @@ router.put('/folders/:folderId', protect, getFolderWithAccess, async (req, res)
 
     // Get the card to check permissions
     const card = await Card.findById(folder.cardId);
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
+    const hasPermission = await card.hasPermission(req.user.id, 'upload_files', req.user.role);
 
     if (!hasPermission) {
       return res.status(403).json({
@@ -320,7 +312,7 @@ router.delete('/folders/:folderId', protect, getFolderWithAccess, async (req, re
 
     // Get the card to check permissions
     const card = await Card.findById(folder.cardId);
-    const hasPermission = await card.hasPermission(req.user.id, 'delete', req.user.role);
+    const hasPermission = await card.hasPermission(req.user.id, 'delete_cards', req.user.role);
 
     if (!hasPermission) {
       return res.status(403).json({
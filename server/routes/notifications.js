@@ -4,9 +4,138 @@ const router = express.Router();
 const User = require('../models/User');
 const Card = require('../models/Card');
 const Project = require('../models/Project');
+const Notification = require('../models/Notification');
 const { protect } = require('../middleware/auth');
 // const emailService = require('../utils/emailService');
 
+/**
+ * @route   GET /api/notifications
+ * @desc    Get current user's notifications
+ * @access  Private
+ */
+router.get('/', protect, async (req, res) => {
+  try {
+    const { limit = 20, skip = 0, types = '', unreadOnly } = req.query;
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.getUserNotifications(req.user.id, {
+        limit: parseInt(limit),
+        skip: parseInt(skip),
+        types: types ? types.split(',') : [],
+        unreadOnly: unreadOnly === 'true'
+      }),
+      Notification.countDocuments({
+        recipient: req.user.id,
+        inApp: { $ne: false },
+        ...(types ? { type: { $in: types.split(',') } } : {}),
+        ...(unreadOnly === 'true' ? { isRead: false } : {})
+      }),
+      Notification.countDocuments({ recipient: req.user.id, inApp: { $ne: false }, isRead: false })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: notifications,
+      total,
+      unreadCount
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching notifications'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/notifications/unread-count
+ * @desc    Get current user's unread notification count
+ * @access  Private
+ */
+router.get('/unread-count', protect, async (req, res) => {
+  try {
+    const unreadCount = await Notification.countDocuments({
+      recipient: req.user.id,
+      inApp: { $ne: false },
+      isRead: false
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { unreadCount }
+    });
+  } catch (error) {
+    console.error('Get unread notification count error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching unread notification count'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/notifications/read-all
+ * @desc    Mark all of the current user's notifications as read
+ * @access  Private
+ */
+router.put('/read-all', protect, async (req, res) => {
+  try {
+    const result = await Notification.markAsRead(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: { updated: result.modifiedCount },
+      message: 'All notifications marked as read'
+    });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error marking notifications as read'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/notifications/:notificationId/read
+ * @desc    Mark a notification as read
+ * @access  Private
+ */
+router.put('/:notificationId/read', protect, async (req, res) => {
+  try {
+    const notification = await Notification.findOne({
+      _id: req.params.notificationId,
+      recipient: req.user.id
+    });
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
+    }
+
+    if (!notification.isRead) {
+      notification.isRead = true;
+      notification.readAt = new Date();
+      await notification.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      data: notification,
+      message: 'Notification marked as read'
+    });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error marking notification as read'
+    });
+  }
+});
+
 /**
  * @route   POST /api/notifications/task-assignment
  * @desc    Send task assignment notification
@@ -0,0 +1,169 @@
+const express = require('express');
+const { body } = require('express-validator');
+const router = express.Router();
+
+const {
+  getDepartments,
+  createDepartment,
+  updateDepartment,
+  deleteDepartment,
+  getPositions,
+  createPosition,
+  updatePosition,
+  deletePosition,
+  getOrgChart,
+  updateReportsTo
+} = require('../controllers/organizationController');
+
+const { protect, authorize } = require('../middleware/auth');
+
+// Validation rules
+const departmentValidation = (isUpdate) => [
+  (isUpdate ? body('name').optional() : body('name'))
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Department name must be between 1 and 100 characters'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot be more than 500 characters'),
+  body('head')
+    .optional({ nullable: true, checkFalsy: true })
+    .isMongoId()
+    .withMessage('Please provide a valid department head')
+];
+
+const positionValidation = (isUpdate) => [
+  (isUpdate ? body('title').optional() : body('title'))
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Position title must be between 1 and 100 characters'),
+  body('department')
+    .optional({ nullable: true, checkFalsy: true })
+    .isMongoId()
+    .withMessage('Please provide a valid department'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot be more than 500 characters')
+];
+
+const reportsToValidation = [
+  body('reportsTo')
+    .optional({ nullable: true, checkFalsy: true })
+    .isMongoId()
+    .withMessage('Please provide a valid manager')
+];
+
+// Routes
+
+/**
+ * @route   GET /api/organization/departments
+ * @desc    Get all departments
+ * @access  Private
+ */
+router.get('/departments', protect, getDepartments);
+
+/**
+ * @route   POST /api/organization/departments
+ * @desc    Create a department
+ * @access  Private (Admin, HR, Superadmin)
+ */
+router.post('/departments',
+  protect,
+  authorize('superadmin', 'admin', 'hr'),
+  departmentValidation(false),
+  createDepartment
+);
+
+/**
+ * @route   PUT /api/organization/departments/:id
+ * @desc    Update a department
+ * @access  Private (Admin, HR, Superadmin)
+ */
+router.put('/departments/:id',
+  protect,
+  authorize('superadmin', 'admin', 'hr'),
+  departmentValidation(true),
+  updateDepartment
+);
+
+/**
+ * @route   DELETE /api/organization/departments/:id
+ * @desc    Delete an empty department
+ * @access  Private (Admin, HR, Superadmin)
+ */
+router.delete('/departments/:id',
+  protect,
+  authorize('superadmin', 'admin', 'hr'),
+  deleteDepartment
+);
+
+/**
+ * @route   GET /api/organization/positions
+ * @desc    Get positions, optionally for one department
+ * @access  Private
+ */
+router.get('/positions', protect, getPositions);
+
+/**
+ * @route   POST /api/organization/positions
+ * @desc    Create a position
+ * @access  Private (Admin, HR, Superadmin)
+ */
+router.post('/positions',
+  protect,
+  authorize('superadmin', 'admin', 'hr'),
+  positionValidation(false),
+  createPosition
+);
+
+/**
+ * @route   PUT /api/organization/positions/:id
+ * @desc    Update a position
+ * @access  Private (Admin, HR, Superadmin)
+ */
+router.put('/positions/:id',
+  protect,
+  authorize('superadmin', 'admin', 'hr'),
+  positionValidation(true),
+  updatePosition
+);
+
+/**
+ * @route   DELETE /api/organization/positions/:id
+ * @desc    Delete a position nobody holds
+ * @access  Private (Admin, HR, Superadmin)
+ */
+router.delete('/positions/:id',
+  protect,
+  authorize('superadmin', 'admin', 'hr'),
+  deletePosition
+);
+
+/**
+ * @route   GET /api/organization/chart
+ * @desc    Get the org chart
+ * @access  Private (Admin, HR, Superadmin)
+ */
+router.get('/chart',
+  protect,
+  authorize('superadmin', 'admin', 'hr'),
+  getOrgChart
+);
+
+/**
+ * @route   PUT /api/organization/users/:userId/reports-to
+ * @desc    Change who a user reports to
+ * @access  Private (Admin, HR, Superadmin)
+ */
+router.put('/users/:userId/reports-to',
+  protect,
+  authorize('superadmin', 'admin', 'hr'),
+  reportsToValidation,
+  updateReportsTo
+);
+
+module.exports = router;
@@ -1,6 +1,11 @@
 const express = require('express');
 const { body } = require('express-validator');
 const profileController = require('../controllers/profileController');
+const {
+  DIGEST_FREQUENCIES,
+  TIME_PATTERN,
+  isValidTimezone
+} = require('../utils/notificationPreferences');
 const { protect } = require('../middleware/auth');
 const { CloudinaryStorage } = require('multer-storage-cloudinary');
 const { cloudinary } = require('../config/cloudinary');
@@ -98,6 +103,33 @@ const passwordValidation = [
     })
 ];
 
+const notificationPreferencesValidation = [
+  body('events')
+    .optional()
+    .isObject()
+    .withMessage('Events must be an object'),
+  body('quietHours.enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Quiet hours enabled must be true or false'),
+  body('quietHours.start')
+    .optional()
+    .matches(TIME_PATTERN)
+    .withMessage('Quiet hours start must be in HH:mm format'),
+  body('quietHours.end')
+    .optional()
+    .matches(TIME_PATTERN)
+    .withMessage('Quiet hours end must be in HH:mm format'),
+  body('quietHours.timezone')
+    .optional()
+    .custom(value => isValidTimezone(value))
+    .withMessage('Quiet hours timezone is not a valid IANA timezone'),
+  body('digestFrequency')
+    .optional()
+    .isIn(DIGEST_FREQUENCIES)
+    .withMessage(`Digest frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`)
+];
+
 // All routes require authentication
 router.use(protect);
 
@@ -108,6 +140,10 @@ router.put('/', profileValidation, profileController.updateProfile);
 // Password routes
 router.put('/password', passwordValidation, profileController.changePassword);
 
+// Notification preference routes
+router.get('/notification-preferences', profileController.getNotificationPreferences);
+router.put('/notification-preferences', notificationPreferencesValidation, profileController.updateNotificationPreferences);
+
 // Avatar routes
 router.post('/avatar', upload.single('avatar'), profileController.uploadAvatar);
 router.delete('/avatar', profileController.deleteAvatar);
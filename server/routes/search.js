@@ -0,0 +1,245 @@
+const express = require('express');
+const router = express.Router();
+
+const Board = require('../models/Board');
+const List = require('../models/List');
+const Card = require('../models/Card');
+const { protect } = require('../middleware/auth');
+const clientPortalService = require('../services/clientPortalService');
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 100;
+const DEFAULT_GROUP_LIMIT = 5;
+const MAX_GROUP_LIMIT = 20;
+const MAX_CARDS_SCANNED = 200;
+const SNIPPET_RADIUS = 60;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Exact matches rank above prefix matches, then word starts, then anything containing the query
+const scoreText = (text, query) => {
+  if (!text) return 0;
+  const value = text.toLowerCase();
+  const index = value.indexOf(query);
+
+  if (index === -1) return 0;
+  if (value === query) return 100;
+  if (index === 0) return 80;
+  if (/[\s\-_./([]/.test(value[index - 1])) return 60;
+  return 40;
+};
+
+// Short excerpt around the first match, for descriptions and comments
+const getSnippet = (text, query) => {
+  if (!text) return '';
+  const index = text.toLowerCase().indexOf(query);
+  if (index === -1) return text.slice(0, SNIPPET_RADIUS * 2);
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + query.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '...' : ''}${text.slice(start, end).trim()}${end < text.length ? '...' : ''}`;
+};
+
+// Highest score first, most recently updated first on ties
+const rankResults = (results, limit) => results
+  .sort((a, b) => b.score - a.score || new Date(b.updatedAt) - new Date(a.updatedAt))
+  .slice(0, limit);
+
+/**
+ * @route   GET /api/search
+ * @desc    Search boards, cards, tasks, comments and files the user can access
+ * @access  Private
+ */
+router.get('/', protect, async (req, res) => {
+  try {
+    const rawQuery = (req.query.q || '').toString().trim();
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || DEFAULT_GROUP_LIMIT, 1), MAX_GROUP_LIMIT);
+
+    const results = { boards: [], cards: [], tasks: [], comments: [], files: [] };
+
+    if (rawQuery.length < MIN_QUERY_LENGTH) {
+      return res.status(200).json({
+        success: true,
+        data: { query: rawQuery, results, total: 0 }
+      });
+    }
+
+    if (rawQuery.length > MAX_QUERY_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `Search query cannot be more than ${MAX_QUERY_LENGTH} characters`
+      });
+    }
+
+    const query = rawQuery.toLowerCase();
+    const isClient = clientPortalService.isClient(req.user);
+    const pattern = new RegExp(escapeRegex(rawQuery), 'i');
+
+    // Only boards the user is a member of (or all boards for admins)
+    const boards = await Board.getAccessibleBoards(req.user.id, req.user.role);
+    const boardIds = boards.map(board => board._id);
+    const boardNames = new Map(boards.map(board => [board._id.toString(), board.name]));
+
+    boards.forEach(board => {
+      const score = Math.max(scoreText(board.name, query), scoreText(board.description, query) / 2);
+      if (score > 0) {
+        results.boards.push({
+          type: 'board',
+          id: board._id,
+          title: board.name,
+          snippet: scoreText(board.name, query) > 0 ? '' : getSnippet(board.description, query),
+          boardId: board._id,
+          boardName: board.name,
+          score,
+          updatedAt: board.updatedAt
+        });
+      }
+    });
+
+    // Cards belong to boards through their list; cards in archived lists are not
+    // shown on the board, so leave them out
+    const lists = await List.find({ boardId: { $in: boardIds }, isArchived: false }).select('boardId');
+    const listBoards = new Map(lists.map(list => [list._id.toString(), list.boardId]));
+
+    const cards = await Card.find({
+      listId: { $in: lists.map(list => list._id) },
+      isArchived: false,
+      // Clients only see the cards shared with them
+      ...(isClient && { sharedWithClients: req.user.id }),
+      $or: [
+        { title: pattern },
+        { description: pattern },
+        { 'tasks.title': pattern },
+        { 'tasks.subtasks.title': pattern },
+        { comments: { $elemMatch: { text: pattern, isDeleted: { $ne: true } } } },
+        { attachments: { $elemMatch: { originalName: pattern, isDeleted: { $ne: true } } } }
+      ]
+    })
+      .select('title description listId tasks comments attachments updatedAt')
+      .populate('comments.author', 'firstName lastName avatar')
+      .sort({ updatedAt: -1 })
+      .limit(MAX_CARDS_SCANNED)
+      .lean();
+
+    cards.forEach(card => {
+      const boardId = listBoards.get(card.listId.toString());
+      const base = {
+        boardId,
+        boardName: boardNames.get(boardId.toString()) || '',
+        cardId: card._id,
+        cardTitle: card.title
+      };
+
+      const titleScore = scoreText(card.title, query);
+      const descriptionScore = scoreText(card.description, query) / 2;
+      if (titleScore > 0 || descriptionScore > 0) {
+        results.cards.push({
+          ...base,
+          type: 'card',
+          id: card._id,
+          title: card.title,
+          snippet: titleScore > 0 ? '' : getSnippet(card.description, query),
+          tab: 'overview',
+          score: Math.max(titleScore, descriptionScore),
+          updatedAt: card.updatedAt
+        });
+      }
+
+      // Clients see neither the task breakdown nor internal comments and files
+      const tasks = isClient ? [] : card.tasks || [];
+      const comments = (card.comments || []).filter(comment =>
+        isClient ? clientPortalService.isCommentVisible(comment) : !comment.isDeleted);
+      const files = (card.attachments || []).filter(file =>
+        isClient ? clientPortalService.isFileVisible(file) : !file.isDeleted);
+
+      tasks.forEach(task => {
+        const taskScore = scoreText(task.title, query);
+        if (taskScore > 0) {
+          results.tasks.push({
+            ...base,
+            type: 'task',
+            id: task._id,
+            taskId: task._id,
+            title: task.title,
+            snippet: '',
+            tab: 'tasks',
+            score: taskScore,
+            updatedAt: task.updatedAt || card.updatedAt
+          });
+        }
+
+        (task.subtasks || []).forEach(subtask => {
+          const subtaskScore = scoreText(subtask.title, query);
+          if (subtaskScore > 0) {
+            results.tasks.push({
+              ...base,
+              type: 'subtask',
+              id: subtask._id,
+              taskId: task._id,
+              title: subtask.title,
+              snippet: `Subtask of ${task.title}`,
+              tab: 'tasks',
+              // Subtasks rank just below tasks with an equally good match
+              score: subtaskScore - 5,
+              updatedAt: subtask.updatedAt || card.updatedAt
+            });
+          }
+        });
+      });
+
+      comments.forEach(comment => {
+        const commentScore = scoreText(comment.text, query);
+        if (commentScore > 0) {
+          results.comments.push({
+            ...base,
+            type: 'comment',
+            id: comment._id,
+            title: card.title,
+            snippet: getSnippet(comment.text, query),
+            author: comment.author || null,
+            tab: 'comments',
+            score: commentScore,
+            updatedAt: comment.updatedAt || comment.createdAt
+          });
+        }
+      });
+
+      files.forEach(file => {
+        const fileScore = scoreText(file.originalName, query);
+        if (fileScore > 0) {
+          results.files.push({
+            ...base,
+            type: 'file',
+            id: file._id,
+            title: file.originalName,
+            snippet: '',
+            mimetype: file.mimetype,
+            size: file.size,
+            tab: 'files',
+            score: fileScore,
+            updatedAt: file.updatedAt || file.createdAt
+          });
+        }
+      });
+    });
+
+    Object.keys(results).forEach(group => {
+      results[group] = rankResults(results[group], limit);
+    });
+
+    const total = Object.values(results).reduce((sum, group) => sum + group.length, 0);
+
+    res.status(200).json({
+      success: true,
+      data: { query: rawQuery, results, total }
+    });
+  } catch (error) {
+    console.error('Search error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error searching'
+    });
+  }
+});
+
+module.exports = router;
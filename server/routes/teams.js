@@ -0,0 +1,231 @@
+const express = require('express');
+const router = express.Router();
+
+const Team = require('../models/Team');
+const User = require('../models/User');
+const Board = require('../models/Board');
+const teamService = require('../services/teamService');
+const { protect } = require('../middleware/auth');
+
+// Roles that may create and edit teams
+const TEAM_MANAGER_ROLES = ['superadmin', 'admin', 'hr'];
+
+const TEAM_POPULATE = [
+  { path: 'lead', select: 'firstName lastName avatar email' },
+  { path: 'members', select: 'firstName lastName avatar email department position' }
+];
+
+const requireTeamManager = (req, res, next) => {
+  if (!TEAM_MANAGER_ROLES.includes(req.user.role)) {
+    return res.status(403).json({
+      success: false,
+      message: 'Only HR and admins can manage teams'
+    });
+  }
+  next();
+};
+
+const getTeam = async (req, res, next) => {
+  try {
+    const team = await Team.findById(req.params.teamId);
+    if (!team) {
+      return res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+    }
+
+    req.team = team;
+    next();
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching team'
+    });
+  }
+};
+
+// Check the members and lead sent for a team; returns an error message or null.
+// Users already on the team may stay on it after they are deactivated.
+const validateTeamUsers = async (memberIds, leadId, currentIds = []) => {
+  const ids = [...new Set([...memberIds, ...(leadId ? [leadId] : [])].map(id => id.toString()))]
+    .filter(id => !currentIds.includes(id));
+  const count = await User.countDocuments({ _id: { $in: ids }, isActive: true });
+  return count === ids.length ? null : 'Team members must be active users';
+};
+
+const sendValidationError = (res, error) => res.status(400).json({
+  success: false,
+  message: Object.values(error.errors).map(err => err.message).join(', ')
+});
+
+// How many boards each team is on
+const getBoardCounts = async (teamIds) => {
+  const counts = await Board.aggregate([
+    { $match: { 'teams.teamId': { $in: teamIds } } },
+    { $unwind: '$teams' },
+    { $match: { 'teams.teamId': { $in: teamIds } } },
+    { $group: { _id: '$teams.teamId', count: { $sum: 1 } } }
+  ]);
+  return new Map(counts.map(item => [item._id.toString(), item.count]));
+};
+
+const withBoardCount = (team, boardCounts) => ({
+  ...team.toObject(),
+  boardCount: boardCounts.get(team._id.toString()) || 0
+});
+
+/**
+ * @route   GET /api/teams
+ * @desc    Get all teams, with their members and how many boards each is on
+ * @access  Private
+ */
+router.get('/', protect, async (req, res) => {
+  try {
+    const teams = await Team.find().populate(TEAM_POPULATE).sort({ name: 1 });
+    const boardCounts = await getBoardCounts(teams.map(team => team._id));
+
+    res.status(200).json({
+      success: true,
+      data: teams.map(team => withBoardCount(team, boardCounts))
+    });
+  } catch (error) {
+    console.error('Get teams error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching teams'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/teams
+ * @desc    Create a team
+ * @access  Private (Superadmin, Admin, HR)
+ */
+router.post('/', protect, requireTeamManager, async (req, res) => {
+  try {
+    const { name, description, department, lead, members = [] } = req.body;
+
+    if (!Array.isArray(members)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Members must be a list'
+      });
+    }
+
+    const usersError = await validateTeamUsers(members, lead);
+    if (usersError) {
+      return res.status(400).json({
+        success: false,
+        message: usersError
+      });
+    }
+
+    const team = await Team.create({
+      name,
+      description,
+      department,
+      lead: lead || null,
+      members,
+      createdBy: req.user.id
+    });
+    await team.populate(TEAM_POPULATE);
+
+    res.status(201).json({
+      success: true,
+      data: { ...team.toObject(), boardCount: 0 },
+      message: 'Team created successfully'
+    });
+  } catch (error) {
+    console.error('Create team error:', error);
+    if (error.name === 'ValidationError') {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Error creating team'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/teams/:teamId
+ * @desc    Update a team; member changes are carried over to the team's boards
+ * @access  Private (Superadmin, Admin, HR)
+ */
+router.put('/:teamId', protect, requireTeamManager, getTeam, async (req, res) => {
+  try {
+    const team = req.team;
+    const { name, description, department, lead, members } = req.body;
+
+    if (members !== undefined && !Array.isArray(members)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Members must be a list'
+      });
+    }
+
+    const usersError = await validateTeamUsers(members || [], lead, team.getMemberIds());
+    if (usersError) {
+      return res.status(400).json({
+        success: false,
+        message: usersError
+      });
+    }
+
+    const previousMemberIds = team.getMemberIds();
+
+    if (name !== undefined) team.name = name;
+    if (description !== undefined) team.description = description;
+    if (department !== undefined) team.department = department;
+    if (lead !== undefined) team.lead = lead || null;
+    if (members !== undefined) team.members = members;
+
+    await team.save();
+    await teamService.syncTeamMembership(team, previousMemberIds, req.user.id);
+
+    await team.populate(TEAM_POPULATE);
+    const boardCounts = await getBoardCounts([team._id]);
+
+    res.status(200).json({
+      success: true,
+      data: withBoardCount(team, boardCounts),
+      message: 'Team updated successfully'
+    });
+  } catch (error) {
+    console.error('Update team error:', error);
+    if (error.name === 'ValidationError') {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Error updating team'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/teams/:teamId
+ * @desc    Delete a team and take it off its boards
+ * @access  Private (Superadmin, Admin, HR)
+ */
+router.delete('/:teamId', protect, requireTeamManager, getTeam, async (req, res) => {
+  try {
+    await teamService.detachTeam(req.team._id);
+    await req.team.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Team deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete team error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting team'
+    });
+  }
+});
+
+module.exports = router;
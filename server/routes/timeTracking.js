@@ -0,0 +1,337 @@
+const express = require('express');
+const router = express.Router();
+
+const User = require('../models/User');
+const Notification = require('../models/Notification');
+const timeTrackingService = require('../services/timeTrackingService');
+const { protect } = require('../middleware/auth');
+
+// Roles that may look at other people's timesheets
+const TIMESHEET_VIEWER_ROLES = ['superadmin', 'admin', 'hr'];
+
+const REVIEW_STATUSES = ['approved', 'returned'];
+
+const isValidDate = (value) => !!value && !isNaN(new Date(value).getTime());
+
+const requireTimesheetViewer = (req, res, next) => {
+  if (!TIMESHEET_VIEWER_ROLES.includes(req.user.role)) {
+    return res.status(403).json({
+      success: false,
+      message: 'Only HR and admins can review timesheets'
+    });
+  }
+  next();
+};
+
+// Quote a CSV field when it holds a comma, quote or line break. Text that a
+// spreadsheet would read as a formula is prefixed with ' so it stays text.
+const csvField = (value) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toIsoDate = (date) => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * @route   GET /api/time-tracking/timer
+ * @desc    Get the current user's running timer
+ * @access  Private
+ */
+router.get('/timer', protect, async (req, res) => {
+  try {
+    const timer = await timeTrackingService.getActiveTimer(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: timer
+    });
+  } catch (error) {
+    console.error('Get timer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching timer'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/time-tracking/timer/stop
+ * @desc    Stop the current user's timer and log the time on its card
+ * @access  Private
+ */
+router.post('/timer/stop', protect, async (req, res) => {
+  try {
+    const { description } = req.body;
+    const stopped = await timeTrackingService.stopTimer(req.user.id, {
+      description: description !== undefined ? String(description).trim() : undefined
+    });
+
+    if (!stopped) {
+      return res.status(404).json({
+        success: false,
+        message: 'No timer is running'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        cardId: stopped.card ? stopped.card._id : null,
+        entry: stopped.entry,
+        hours: stopped.hours,
+        notice: stopped.notice
+      },
+      message: stopped.notice || (stopped.entry ? 'Time logged successfully' : 'Timer stopped; under a minute was not logged')
+    });
+  } catch (error) {
+    console.error('Stop timer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error stopping timer'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/time-tracking/timer
+ * @desc    Discard the current user's timer without logging time
+ * @access  Private
+ */
+router.delete('/timer', protect, async (req, res) => {
+  try {
+    const discarded = await timeTrackingService.discardTimer(req.user.id);
+
+    if (!discarded) {
+      return res.status(404).json({
+        success: false,
+        message: 'No timer is running'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Timer discarded'
+    });
+  } catch (error) {
+    console.error('Discard timer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error discarding timer'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/time-tracking/timesheet
+ * @desc    Get a user's hours for the week starting at weekStart (defaults to the current user)
+ * @access  Private (other users: Admin, HR)
+ */
+router.get('/timesheet', protect, async (req, res) => {
+  try {
+    const { weekStart, userId = req.user.id } = req.query;
+
+    if (!isValidDate(weekStart)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A valid weekStart date is required'
+      });
+    }
+
+    if (userId !== req.user.id && !TIMESHEET_VIEWER_ROLES.includes(req.user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only view your own timesheet'
+      });
+    }
+
+    const user = await User.findById(userId).select('firstName lastName email avatar');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const timesheet = await timeTrackingService.getWeeklyTimesheet(user._id, weekStart);
+    const approval = await timeTrackingService.getApproval(user._id, weekStart);
+
+    res.status(200).json({
+      success: true,
+      data: { user, ...timesheet, approval }
+    });
+  } catch (error) {
+    console.error('Get timesheet error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching timesheet'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/time-tracking/timesheets
+ * @desc    Get every employee's hours and approval status for the week starting at weekStart
+ * @access  Private (Admin, HR)
+ */
+router.get('/timesheets', protect, requireTimesheetViewer, async (req, res) => {
+  try {
+    const { weekStart } = req.query;
+
+    if (!isValidDate(weekStart)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A valid weekStart date is required'
+      });
+    }
+
+    const teamTimesheets = await timeTrackingService.getTeamTimesheets(weekStart);
+
+    res.status(200).json({
+      success: true,
+      data: teamTimesheets
+    });
+  } catch (error) {
+    console.error('Get team timesheets error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching timesheets'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/time-tracking/timesheets/:userId/review
+ * @desc    Approve a user's week, locking its entries, or send it back with a comment
+ * @access  Private (Admin, HR)
+ */
+router.put('/timesheets/:userId/review', protect, requireTimesheetViewer, async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { weekStart, status } = req.body;
+    const comment = req.body.comment ? String(req.body.comment).trim() : '';
+
+    if (!isValidDate(weekStart)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A valid weekStart date is required'
+      });
+    }
+
+    if (!REVIEW_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Status must be approved or returned'
+      });
+    }
+
+    if (status === 'returned' && !comment) {
+      return res.status(400).json({
+        success: false,
+        message: 'Add a comment explaining why the timesheet is sent back'
+      });
+    }
+
+    const user = await User.findById(userId).select('firstName lastName');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const approval = await timeTrackingService.reviewTimesheet(user._id, weekStart, {
+      status,
+      comment,
+      reviewerId: req.user.id
+    });
+
+    const weekLabel = new Date(weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    await Notification.notify({
+      recipient: user._id,
+      actor: req.user.id,
+      type: 'timesheet_reviewed',
+      title: status === 'approved'
+        ? `Your timesheet for the week of ${weekLabel} was approved`
+        : `Your timesheet for the week of ${weekLabel} was sent back`,
+      message: comment
+    });
+
+    res.status(200).json({
+      success: true,
+      data: approval,
+      message: status === 'approved' ? 'Timesheet approved' : 'Timesheet sent back'
+    });
+  } catch (error) {
+    console.error('Review timesheet error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error reviewing timesheet'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/time-tracking/timesheets/export
+ * @desc    Download the approved timesheets for weeks starting between from and to as CSV for payroll
+ * @access  Private (Admin, HR)
+ */
+router.get('/timesheets/export', protect, requireTimesheetViewer, async (req, res) => {
+  try {
+    const { from, to } = req.query;
+
+    if (!isValidDate(from) || !isValidDate(to) || new Date(from) >= new Date(to)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A valid from and to date range is required'
+      });
+    }
+
+    const approvals = await timeTrackingService.getApprovedTimesheets(from, to);
+
+    const header = [
+      'Employee', 'Employee ID', 'Email', 'Department', 'Week Start', 'Date',
+      'Board', 'Card', 'Task', 'Description', 'Hours', 'Approved By', 'Approved At'
+    ];
+    const rows = [];
+    approvals.forEach(approval => {
+      const employee = approval.user || {};
+      const reviewer = approval.reviewedBy
+        ? `${approval.reviewedBy.firstName} ${approval.reviewedBy.lastName}`
+        : '';
+      approval.entries.forEach(entry => {
+        rows.push([
+          `${employee.firstName || ''} ${employee.lastName || ''}`.trim(),
+          employee.employeeId,
+          employee.email,
+          employee.department,
+          toIsoDate(approval.weekStart),
+          toIsoDate(entry.date),
+          entry.boardTitle,
+          entry.cardTitle,
+          entry.taskTitle,
+          entry.description,
+          entry.hours,
+          reviewer,
+          approval.reviewedAt.toISOString()
+        ]);
+      });
+    });
+
+    const csv = [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n');
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="timesheets-${toIsoDate(from)}-to-${toIsoDate(to)}.csv"`);
+    res.status(200).send(csv);
+  } catch (error) {
+    console.error('Export timesheets error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error exporting timesheets'
+    });
+  }
+});
+
+module.exports = router;
@@ -1,5 +1,6 @@
 const express = require('express');
 const router = express.Router();
+const mongoose = require('mongoose');
 const multer = require('multer');
 const { CloudinaryStorage } = require('multer-storage-cloudinary');
 const { cloudinary } = require('../config/cloudinary');
@@ -9,8 +10,23 @@ const List = require('../models/List');
 const Card = require('../models/Card');
 const Activity = require('../models/Activity');
 const User = require('../models/User');
+const Team = require('../models/Team');
+const Notification = require('../models/Notification');
+const BoardTemplate = require('../models/BoardTemplate');
+const BoardAutomation = require('../models/BoardAutomation');
+const { BUILT_IN_TEMPLATES, isBuiltInTemplateId, getBuiltInTemplate } = require('../config/boardTemplates');
+const { BOARD_ROLES } = require('../config/boardPermissions');
+const { copyBoard } = require('../utils/boardCopy');
 const slackService = require('../utils/slackService');
+const boardAutomationService = require('../services/boardAutomationService');
+const customFieldService = require('../services/customFieldService');
+const labelService = require('../services/labelService');
+const archiveService = require('../services/archiveService');
+const timeTrackingService = require('../services/timeTrackingService');
+const teamService = require('../services/teamService');
+const clientPortalService = require('../services/clientPortalService');
 const { protect } = require('../middleware/auth');
+const { requireBoardPermission, staffOnly } = require('../middleware/boardPermissions');
 
 // Configure Cloudinary storage for board backgrounds
 const boardBackgroundStorage = new CloudinaryStorage({
@@ -76,6 +92,38 @@ const getBoardWithAccess = async (req, res, next) => {
   }
 };
 
+// Find a built-in or saved template the user is allowed to use
+const findAccessibleTemplate = async (templateId, user) => {
+  if (isBuiltInTemplateId(templateId)) {
+    return getBuiltInTemplate(templateId);
+  }
+
+  if (!mongoose.Types.ObjectId.isValid(templateId)) {
+    return null;
+  }
+
+  const template = await BoardTemplate.findById(templateId);
+  if (!template) return null;
+
+  const isOwner = template.createdBy.toString() === user.id.toString();
+  return isOwner || template.isShared ? template : null;
+};
+
+// Summary of a template for the gallery
+const toTemplateSummary = (template, isBuiltIn = false) => ({
+  _id: template._id,
+  name: template.name,
+  description: template.description || '',
+  background: template.background,
+  isBuiltIn,
+  isShared: isBuiltIn ? true : !!template.isShared,
+  createdBy: isBuiltIn ? null : template.createdBy,
+  lists: (template.lists || []).map(list => ({ name: list.name, color: list.color })),
+  cardsCount: (template.cards || []).length,
+  tasksCount: (template.cards || []).reduce((total, card) => total + (card.tasks || []).length, 0),
+  createdAt: template.createdAt || null
+});
+
 /**
  * @route   GET /api/boards
  * @desc    Get user's accessible boards
@@ -130,6 +178,7 @@ router.post('/', protect, async (req, res) => {
       description,
       background,
       visibility,
+      templateId,
       createDefaultLists = true
     } = req.body;
 
@@ -141,19 +190,42 @@ router.post('/', protect, async (req, res) => {
       });
     }
 
-    // Create board
-    const board = new Board({
-      name: name.trim(),
-      description: description || '',
-      background: background || '#6366f1',
-      visibility: visibility || 'private',
-      createdBy: req.user.id
-    });
+    let template = null;
+    if (templateId) {
+      template = await findAccessibleTemplate(templateId, req.user);
+      if (!template) {
+        return res.status(404).json({
+          success: false,
+          message: 'Template not found'
+        });
+      }
+    }
 
-    await board.save();
+    let board;
+    if (template) {
+      // Lists, list settings and card skeletons all come from the template
+      board = await BoardTemplate.createBoard(template, {
+        name,
+        description: description || undefined,
+        background,
+        visibility,
+        createdBy: req.user.id
+      });
+    } else {
+      // Create board
+      board = new Board({
+        name: name.trim(),
+        description: description || '',
+        background: background || '#6366f1',
+        visibility: visibility || 'private',
+        createdBy: req.user.id
+      });
+
+      await board.save();
+    }
 
     // Create default lists if requested
-    if (createDefaultLists) {
+    if (!template && createDefaultLists) {
       const lists = await List.createDefaultLists(board._id, null, req.user.id);
 
       // Update board metadata
@@ -185,6 +257,105 @@ router.post('/', protect, async (req, res) => {
   }
 });
 
+/**
+ * @route   GET /api/boards/templates
+ * @desc    Get built-in templates plus the user's own and shared templates
+ * @access  Private
+ */
+router.get('/templates', protect, async (req, res) => {
+  try {
+    const savedTemplates = await BoardTemplate.find({
+      $or: [
+        { createdBy: req.user.id },
+        { isShared: true }
+      ]
+    })
+      .populate('createdBy', 'firstName lastName avatar')
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: [
+        ...BUILT_IN_TEMPLATES.map(template => toTemplateSummary(template, true)),
+        ...savedTemplates.map(template => toTemplateSummary(template))
+      ]
+    });
+  } catch (error) {
+    console.error('Get board templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching board templates'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/boards/templates/:templateId
+ * @desc    Delete a saved board template
+ * @access  Private (creator, admin, superadmin)
+ */
+router.delete('/templates/:templateId', protect, async (req, res) => {
+  try {
+    if (isBuiltInTemplateId(req.params.templateId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Built-in templates cannot be deleted'
+      });
+    }
+
+    const template = await BoardTemplate.findById(req.params.templateId);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+
+    const isOwner = template.createdBy.toString() === req.user.id.toString();
+    if (!isOwner && !['superadmin', 'admin'].includes(req.user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to delete this template'
+      });
+    }
+
+    await template.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Template deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete board template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting board template'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/boards/:boardId/archived
+ * @desc    Get the board's archived cards and lists
+ * @access  Private
+ */
+router.get('/:boardId/archived', protect, getBoardWithAccess, staffOnly, async (req, res) => {
+  try {
+    const items = await archiveService.getArchivedItems(req.board);
+
+    res.status(200).json({
+      success: true,
+      data: items
+    });
+  } catch (error) {
+    console.error('Get archived items error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching archived items'
+    });
+  }
+});
+
 /**
  * @route   GET /api/boards/:boardId
  * @desc    Get board details with lists and cards
@@ -215,7 +386,9 @@ router.get('/:boardId', protect, getBoardWithAccess, async (req, res) => {
     // Populate board details
     await board.populate([
       { path: 'createdBy', select: 'firstName lastName avatar' },
-      { path: 'members.userId', select: 'firstName lastName avatar' }
+      { path: 'members.userId', select: 'firstName lastName avatar role' },
+      { path: 'members.viaTeams', select: 'name' },
+      { path: 'teams.teamId', select: 'name department lead members' }
     ]);
 
     const boardObj = board.toObject();
@@ -230,7 +403,7 @@ router.get('/:boardId', protect, getBoardWithAccess, async (req, res) => {
 
     res.status(200).json({
       success: true,
-      data: boardObj
+      data: clientPortalService.isClient(req.user) ? clientPortalService.toClientBoard(boardObj, req.user.id) : boardObj
     });
   } catch (error) {
     console.error('Get board error:', error);
@@ -246,20 +419,11 @@ router.get('/:boardId', protect, getBoardWithAccess, async (req, res) => {
  * @desc    Update board
  * @access  Private
  */
-router.put('/:boardId', protect, getBoardWithAccess, async (req, res) => {
+router.put('/:boardId', protect, getBoardWithAccess, requireBoardPermission('edit_board'), async (req, res) => {
   try {
     const board = req.board;
     const { name, description, background, visibility } = req.body;
 
-    // Check permission
-    const hasPermission = await board.hasPermission(req.user.id, 'write');
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to update this board'
-      });
-    }
-
     // Update fields
     if (name && name.trim()) board.name = name.trim();
     if (description !== undefined) board.description = description;
@@ -291,19 +455,10 @@ router.put('/:boardId', protect, getBoardWithAccess, async (req, res) => {
  * @desc    Delete board
  * @access  Private
  */
-router.delete('/:boardId', protect, getBoardWithAccess, async (req, res) => {
+router.delete('/:boardId', protect, getBoardWithAccess, requireBoardPermission('delete_board'), async (req, res) => {
   try {
     const board = req.board;
 
-    // Check permission
-    const hasPermission = await board.hasPermission(req.user.id, 'delete');
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to delete this board'
-      });
-    }
-
     // Delete board (cascade will handle lists and cards)
     await board.deleteOne();
 
@@ -353,155 +508,1112 @@ router.post('/:boardId/star', protect, getBoardWithAccess, async (req, res) => {
 });
 
 /**
- * @route   POST /api/boards/:boardId/members
- * @desc    Add member to board
+ * @route   POST /api/boards/:boardId/template
+ * @desc    Save the board's lists, list settings and card skeletons as a template
  * @access  Private
  */
-router.post('/:boardId/members', protect, getBoardWithAccess, async (req, res) => {
+router.post('/:boardId/template', protect, getBoardWithAccess, staffOnly, requireBoardPermission('edit_board'), async (req, res) => {
   try {
-    const board = req.board;
-    const { userId, role = 'member' } = req.body;
+    const { name, description, isShared = false } = req.body;
 
-    // Check permission
-    const hasPermission = await board.hasPermission(req.user.id, 'manage_members');
-    if (!hasPermission) {
-      return res.status(403).json({
+    if (name !== undefined && !name.trim()) {
+      return res.status(400).json({
         success: false,
-        message: 'You do not have permission to manage board members'
+        message: 'Template name cannot be empty'
       });
     }
 
-    // Get user details for notifications
-    const newMember = await User.findById(userId).select('firstName lastName email');
-    const addedByUser = await User.findById(req.user.id).select('firstName lastName');
+    const template = await BoardTemplate.fromBoard(req.board, req.user.id, {
+      name: name ? name.trim() : undefined,
+      description,
+      isShared: !!isShared
+    });
 
-    if (!newMember) {
-      return res.status(404).json({
+    res.status(201).json({
+      success: true,
+      data: toTemplateSummary(template),
+      message: 'Board saved as template'
+    });
+  } catch (error) {
+    console.error('Save board as template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving board as template'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/boards/:boardId/copy
+ * @desc    Deep copy a board. Progress is sent to the requesting user as
+ *          'board:copy-progress' socket events tagged with the given copyId.
+ * @access  Private (board owners and admins)
+ */
+router.post('/:boardId/copy', protect, getBoardWithAccess, staffOnly, requireBoardPermission('edit_board'), async (req, res) => {
+  try {
+    const sourceBoard = req.board;
+    const { name, copyId, options = {} } = req.body;
+
+    if (name !== undefined && !name.trim()) {
+      return res.status(400).json({
         success: false,
-        message: 'User not found'
+        message: 'Board name cannot be empty'
       });
     }
 
-    await board.addMember(userId, role);
+    let socketManager = null;
+    try {
+      socketManager = require('../server').get('socketManager');
+    } catch (socketError) {
+      console.error('Error getting socket manager:', socketError);
+    }
 
-    // Send Slack notifications
-    if (newMember && addedByUser) {
-      const memberName = `${newMember.firstName} ${newMember.lastName}`;
-      const addedBy = `${addedByUser.firstName} ${addedByUser.lastName}`;
+    const { board, summary } = await copyBoard(sourceBoard, {
+      name: name || `${sourceBoard.name} (Copy)`,
+      createdBy: req.user.id,
+      options,
+      onProgress: (progress) => {
+        if (socketManager && copyId) {
+          socketManager.notifyUser(req.user.id, 'board:copy-progress', { copyId, ...progress });
+        }
+      }
+    });
 
-      // Send notification asynchronously (don't block the response)
-      slackService.notifyBoardMemberAdded({
-        boardName: board.name,
-        memberName: memberName,
-        memberEmail: newMember.email,
-        addedBy: addedBy,
-        role: role,
-        boardId: board._id
-      }).catch(error => {
-        console.error('❌ Failed to send board member added notification:', error);
-      });
-    }
+    await Activity.logActivity({
+      type: 'board_created',
+      user: req.user.id,
+      board: board._id,
+      data: {
+        comment: `Copied from "${sourceBoard.name}"`
+      },
+      metadata: {
+        entityName: board.name,
+        entityId: board._id
+      }
+    });
 
-    res.status(200).json({
+    const savedBoard = await Board.findById(board._id)
+      .populate('createdBy', 'firstName lastName avatar')
+      .populate('members.userId', 'firstName lastName avatar');
+
+    const boardObj = savedBoard.toObject();
+    boardObj.isStarred = false;
+    boardObj.listsCount = savedBoard.metadata?.totalLists || 0;
+    boardObj.cardsCount = savedBoard.metadata?.totalCards || 0;
+
+    res.status(201).json({
       success: true,
-      message: 'Member added successfully'
+      data: {
+        board: boardObj,
+        summary
+      },
+      message: 'Board copied successfully'
     });
   } catch (error) {
-    console.error('Add member error:', error);
+    console.error('Copy board error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error adding member'
+      message: 'Error copying board'
     });
   }
 });
 
+// Saved filters per user and board
+const MAX_SAVED_FILTERS_PER_BOARD = 20;
+
+const getSavedFilters = (user, boardId) => (user.savedBoardFilters || [])
+  .filter(filter => filter.board.toString() === boardId.toString())
+  .map(filter => ({
+    _id: filter._id,
+    name: filter.name,
+    query: filter.query,
+    createdAt: filter.createdAt
+  }));
+
 /**
- * @route   DELETE /api/boards/:boardId/members/:userId
- * @desc    Remove member from board
+ * @route   GET /api/boards/:boardId/time-report
+ * @desc    Estimated vs logged hours for the board's open cards and their tasks
  * @access  Private
  */
-router.delete('/:boardId/members/:userId', protect, getBoardWithAccess, async (req, res) => {
+router.get('/:boardId/time-report', protect, getBoardWithAccess, staffOnly, async (req, res) => {
   try {
-    const board = req.board;
-    const { userId } = req.params;
+    const report = await timeTrackingService.getBoardReport(req.board._id);
 
-    // Check permission
-    const hasPermission = await board.hasPermission(req.user.id, 'manage_members');
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to manage board members'
-      });
-    }
+    res.status(200).json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Get time report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching time report'
+    });
+  }
+});
 
-    await board.removeMember(userId);
+/**
+ * @route   GET /api/boards/:boardId/filters
+ * @desc    Get the current user's saved card filters for a board
+ * @access  Private
+ */
+router.get('/:boardId/filters', protect, getBoardWithAccess, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id).select('savedBoardFilters');
 
     res.status(200).json({
       success: true,
-      message: 'Member removed successfully'
+      data: getSavedFilters(user, req.board._id)
     });
   } catch (error) {
-    console.error('Remove member error:', error);
+    console.error('Get saved filters error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error removing member'
+      message: 'Error fetching saved filters'
     });
   }
 });
 
 /**
- * @route   PUT /api/boards/:boardId/members/:userId/role
- * @desc    Update member role on board
+ * @route   POST /api/boards/:boardId/filters
+ * @desc    Save a named card filter for the current user
  * @access  Private
  */
-router.put('/:boardId/members/:userId/role', protect, getBoardWithAccess, async (req, res) => {
+router.post('/:boardId/filters', protect, getBoardWithAccess, async (req, res) => {
   try {
-    const board = req.board;
-    const { userId } = req.params;
-    const { role } = req.body;
+    const { name, query } = req.body;
 
-    // Check permission - only board owners/admins can change roles
-    const userMember = board.members.find(m => m.userId && m.userId.toString() === req.user.id.toString());
-    const userRole = userMember?.role || 'viewer';
+    if (!name || !name.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Filter name is required'
+      });
+    }
 
-    if (!['owner', 'admin'].includes(userRole) && req.user.role !== 'superadmin') {
-      return res.status(403).json({
+    if (!query || typeof query !== 'string') {
+      return res.status(400).json({
         success: false,
-        message: 'You do not have permission to update member roles'
+        message: 'Filter is empty'
       });
     }
 
-    // Validate role
-    const validRoles = ['owner', 'admin', 'editor', 'viewer'];
-    if (!validRoles.includes(role)) {
+    const user = await User.findById(req.user.id).select('savedBoardFilters');
+
+    // Saving under an existing name replaces that filter
+    const existing = user.savedBoardFilters.find(filter =>
+      filter.board.toString() === req.board._id.toString() &&
+      filter.name.toLowerCase() === name.trim().toLowerCase()
+    );
+
+    if (existing) {
+      existing.query = query;
+    } else {
+      if (getSavedFilters(user, req.board._id).length >= MAX_SAVED_FILTERS_PER_BOARD) {
+        return res.status(400).json({
+          success: false,
+          message: `You can save up to ${MAX_SAVED_FILTERS_PER_BOARD} filters per board`
+        });
+      }
+
+      user.savedBoardFilters.push({
+        name: name.trim(),
+        board: req.board._id,
+        query
+      });
+    }
+
+    await user.save();
+
+    res.status(existing ? 200 : 201).json({
+      success: true,
+      data: getSavedFilters(user, req.board._id),
+      message: 'Filter saved'
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
       return res.status(400).json({
         success: false,
-        message: 'Invalid role specified'
+        message: Object.values(error.errors).map(err => err.message).join(', ')
       });
     }
 
-    // Find and update the member
-    const memberIndex = board.members.findIndex(m => m.userId && m.userId.toString() === userId);
-    if (memberIndex === -1) {
+    console.error('Save filter error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving filter'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/boards/:boardId/filters/:filterId
+ * @desc    Delete one of the current user's saved filters
+ * @access  Private
+ */
+router.delete('/:boardId/filters/:filterId', protect, getBoardWithAccess, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id).select('savedBoardFilters');
+    const filter = user.savedBoardFilters.id(req.params.filterId);
+
+    if (!filter || filter.board.toString() !== req.board._id.toString()) {
       return res.status(404).json({
         success: false,
-        message: 'Member not found in this board'
+        message: 'Saved filter not found'
       });
     }
 
-    board.members[memberIndex].role = role;
-    await board.save();
+    filter.deleteOne();
+    await user.save();
 
     res.status(200).json({
       success: true,
-      data: { member: board.members[memberIndex] },
-      message: 'Member role updated successfully'
+      data: getSavedFilters(user, req.board._id),
+      message: 'Filter deleted'
     });
   } catch (error) {
-    console.error('Update member role error:', error);
+    console.error('Delete filter error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error updating member role'
+      message: 'Error deleting filter'
+    });
+  }
+});
+
+// Lists and members an automation may refer to
+const getAutomationTargets = async (board) => {
+  const lists = await List.find({ boardId: board._id, isArchived: false }).select('_id');
+  return {
+    listIds: lists.map(list => list._id.toString()),
+    memberIds: [
+      board.createdBy.toString(),
+      ...board.members.filter(member => member.userId).map(member => member.userId.toString())
+    ]
+  };
+};
+
+const pickAutomationFields = ({ name, enabled, trigger, actions }) => ({
+  name: typeof name === 'string' ? name.trim() : name,
+  enabled,
+  trigger: trigger ? {
+    type: trigger.type,
+    listId: trigger.listId || undefined,
+    label: trigger.label || undefined,
+    userId: trigger.userId || undefined
+  } : undefined,
+  actions: Array.isArray(actions) ? actions.map(action => ({
+    type: action.type,
+    listId: action.listId || undefined,
+    userId: action.userId || undefined,
+    label: action.label?.name ? { name: action.label.name, color: action.label.color } : undefined,
+    text: action.text || undefined,
+    channel: action.channel || undefined,
+    dueInDays: action.dueInDays
+  })) : undefined
+});
+
+const AUTOMATION_POPULATE = [
+  { path: 'createdBy', select: 'firstName lastName avatar' }
+];
+
+/**
+ * @route   GET /api/boards/:boardId/automations
+ * @desc    Get the board's automations (without run history)
+ * @access  Private
+ */
+router.get('/:boardId/automations', protect, getBoardWithAccess, staffOnly, async (req, res) => {
+  try {
+    const automations = await BoardAutomation.find({ boardId: req.board._id })
+      .select('-runs')
+      .populate(AUTOMATION_POPULATE)
+      .sort({ createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: automations,
+      canManage: req.board.getPermissions(req.user.id, req.user.role).edit_automations
+    });
+  } catch (error) {
+    console.error('Get automations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching automations'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/boards/:boardId/automations
+ * @desc    Create an automation
+ * @access  Private
+ */
+router.post('/:boardId/automations', protect, getBoardWithAccess, requireBoardPermission('edit_automations'), async (req, res) => {
+  try {
+    const fields = pickAutomationFields(req.body);
+    const { listIds, memberIds } = await getAutomationTargets(req.board);
+    const validationError = boardAutomationService.validateAutomation(fields, listIds, memberIds);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    const automation = new BoardAutomation({
+      ...fields,
+      enabled: fields.enabled !== false,
+      boardId: req.board._id,
+      createdBy: req.user.id
+    });
+    await automation.save();
+    await automation.populate(AUTOMATION_POPULATE);
+
+    const data = automation.toObject();
+    delete data.runs;
+
+    res.status(201).json({
+      success: true,
+      data,
+      message: 'Automation created'
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    console.error('Create automation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating automation'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/boards/:boardId/automations/:automationId
+ * @desc    Update an automation, or enable/disable it
+ * @access  Private
+ */
+router.put('/:boardId/automations/:automationId', protect, getBoardWithAccess, requireBoardPermission('edit_automations'), async (req, res) => {
+  try {
+    const automation = await BoardAutomation.findOne({ _id: req.params.automationId, boardId: req.board._id }).select('-runs');
+    if (!automation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Automation not found'
+      });
+    }
+
+    const fields = pickAutomationFields(req.body);
+    const wasEnabled = automation.enabled;
+
+    if (fields.name !== undefined) automation.name = fields.name;
+    if (typeof fields.enabled === 'boolean') automation.enabled = fields.enabled;
+    if (fields.trigger) automation.trigger = fields.trigger;
+    if (fields.actions) automation.actions = fields.actions;
+
+    const { listIds, memberIds } = await getAutomationTargets(req.board);
+    const validationError = boardAutomationService.validateAutomation(automation, listIds, memberIds);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    // Due dates that passed while the automation was off should not all fire at once
+    if (!wasEnabled && automation.enabled) {
+      automation.dueDateCheckedAt = new Date();
+    }
+
+    await automation.save();
+    await automation.populate(AUTOMATION_POPULATE);
+
+    res.status(200).json({
+      success: true,
+      data: automation,
+      message: 'Automation updated'
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    console.error('Update automation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating automation'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/boards/:boardId/automations/:automationId
+ * @desc    Delete an automation and its run history
+ * @access  Private
+ */
+router.delete('/:boardId/automations/:automationId', protect, getBoardWithAccess, requireBoardPermission('edit_automations'), async (req, res) => {
+  try {
+    const result = await BoardAutomation.deleteOne({ _id: req.params.automationId, boardId: req.board._id });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Automation not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Automation deleted'
+    });
+  } catch (error) {
+    console.error('Delete automation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting automation'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/boards/:boardId/automations/:automationId/runs
+ * @desc    Get an automation's recent runs, newest first
+ * @access  Private
+ */
+router.get('/:boardId/automations/:automationId/runs', protect, getBoardWithAccess, staffOnly, async (req, res) => {
+  try {
+    const automation = await BoardAutomation.findOne({ _id: req.params.automationId, boardId: req.board._id })
+      .select('runs');
+    if (!automation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Automation not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: [...automation.runs].reverse()
+    });
+  } catch (error) {
+    console.error('Get automation runs error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching automation runs'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/boards/:boardId/labels
+ * @desc    Add a label to the board's palette
+ * @access  Private
+ */
+router.post('/:boardId/labels', protect, getBoardWithAccess, requireBoardPermission('manage_labels'), async (req, res) => {
+  try {
+    const board = req.board;
+
+    if (board.labels.length >= labelService.MAX_LABELS_PER_BOARD) {
+      return res.status(400).json({
+        success: false,
+        message: `A board can have at most ${labelService.MAX_LABELS_PER_BOARD} labels`
+      });
+    }
+
+    const { name, color } = req.body;
+    const validationError = labelService.validateLabel({ name, color }, board.labels);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    board.labels.push({ name: name.trim(), color: color || labelService.DEFAULT_LABEL_COLOR });
+    await board.save();
+    labelService.notifyLabelsUpdated(board);
+
+    res.status(201).json({
+      success: true,
+      data: board.labels,
+      message: 'Label added'
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    console.error('Create label error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error adding label'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/boards/:boardId/labels/:labelId
+ * @desc    Rename or recolor a label, on the palette and on every card that has it
+ * @access  Private
+ */
+router.put('/:boardId/labels/:labelId', protect, getBoardWithAccess, requireBoardPermission('manage_labels'), async (req, res) => {
+  try {
+    const board = req.board;
+
+    const label = board.labels.id(req.params.labelId);
+    if (!label) {
+      return res.status(404).json({
+        success: false,
+        message: 'Label not found'
+      });
+    }
+
+    const name = req.body.name !== undefined ? req.body.name : label.name;
+    const color = req.body.color !== undefined ? req.body.color : label.color;
+    const otherLabels = board.labels.filter(item => !item._id.equals(label._id));
+    const validationError = labelService.validateLabel({ name, color }, otherLabels);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    const previousName = label.name;
+    label.name = name.trim();
+    label.color = color;
+    await board.save();
+    await labelService.updateOnCards(board._id, previousName, { name: label.name, color: label.color });
+    labelService.notifyLabelsUpdated(board, {
+      type: 'updated',
+      from: previousName,
+      label: { name: label.name, color: label.color }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: board.labels,
+      message: 'Label updated'
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    console.error('Update label error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating label'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/boards/:boardId/labels/:labelId
+ * @desc    Delete a label from the palette and from every card that has it
+ * @access  Private
+ */
+router.delete('/:boardId/labels/:labelId', protect, getBoardWithAccess, requireBoardPermission('manage_labels'), async (req, res) => {
+  try {
+    const board = req.board;
+
+    const label = board.labels.id(req.params.labelId);
+    if (!label) {
+      return res.status(404).json({
+        success: false,
+        message: 'Label not found'
+      });
+    }
+
+    const { name } = label;
+    label.deleteOne();
+    await board.save();
+    await labelService.removeFromCards(board._id, name);
+    labelService.notifyLabelsUpdated(board, { type: 'deleted', name });
+
+    res.status(200).json({
+      success: true,
+      data: board.labels,
+      message: 'Label deleted'
+    });
+  } catch (error) {
+    console.error('Delete label error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting label'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/boards/:boardId/custom-fields
+ * @desc    Add a custom field to the board
+ * @access  Private
+ */
+router.post('/:boardId/custom-fields', protect, getBoardWithAccess, requireBoardPermission('manage_custom_fields'), async (req, res) => {
+  try {
+    const board = req.board;
+
+    if (board.customFields.length >= customFieldService.MAX_CUSTOM_FIELDS_PER_BOARD) {
+      return res.status(400).json({
+        success: false,
+        message: `A board can have at most ${customFieldService.MAX_CUSTOM_FIELDS_PER_BOARD} custom fields`
+      });
+    }
+
+    const definition = customFieldService.pickDefinition(req.body);
+    const validationError = customFieldService.validateDefinition(definition, board.customFields);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    board.customFields.push(definition);
+    await board.save();
+    customFieldService.notifyFieldsUpdated(board);
+
+    res.status(201).json({
+      success: true,
+      data: board.customFields,
+      message: 'Custom field added'
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    console.error('Create custom field error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error adding custom field'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/boards/:boardId/custom-fields/reorder
+ * @desc    Change the order custom fields are shown in
+ * @access  Private
+ */
+router.put('/:boardId/custom-fields/reorder', protect, getBoardWithAccess, requireBoardPermission('manage_custom_fields'), async (req, res) => {
+  try {
+    const board = req.board;
+
+    const { fieldIds } = req.body;
+    const currentIds = board.customFields.map(field => field._id.toString());
+    if (!Array.isArray(fieldIds) ||
+      fieldIds.length !== currentIds.length ||
+      !currentIds.every(id => fieldIds.includes(id))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Field ids must list every custom field on the board'
+      });
+    }
+
+    board.customFields = fieldIds.map(id => board.customFields.id(id));
+    await board.save();
+    customFieldService.notifyFieldsUpdated(board);
+
+    res.status(200).json({
+      success: true,
+      data: board.customFields,
+      message: 'Custom fields reordered'
+    });
+  } catch (error) {
+    console.error('Reorder custom fields error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error reordering custom fields'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/boards/:boardId/custom-fields/:fieldId
+ * @desc    Update a custom field. Removing a select option clears it from cards.
+ * @access  Private
+ */
+router.put('/:boardId/custom-fields/:fieldId', protect, getBoardWithAccess, requireBoardPermission('manage_custom_fields'), async (req, res) => {
+  try {
+    const board = req.board;
+
+    const field = board.customFields.id(req.params.fieldId);
+    if (!field) {
+      return res.status(404).json({
+        success: false,
+        message: 'Custom field not found'
+      });
+    }
+
+    const definition = customFieldService.pickDefinition({ ...field.toObject(), ...req.body });
+    const otherFields = board.customFields.filter(item => !item._id.equals(field._id));
+    const validationError = customFieldService.validateDefinition(definition, otherFields, field);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    const keptOptionIds = definition.options.filter(option => option._id).map(option => option._id.toString());
+    const removedOptionIds = field.options
+      .map(option => option._id.toString())
+      .filter(id => !keptOptionIds.includes(id));
+
+    field.set(definition);
+    await board.save();
+
+    if (removedOptionIds.length > 0) {
+      await customFieldService.clearCardValues(board._id, field._id, removedOptionIds);
+    }
+    customFieldService.notifyFieldsUpdated(board);
+
+    res.status(200).json({
+      success: true,
+      data: board.customFields,
+      message: 'Custom field updated'
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    console.error('Update custom field error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating custom field'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/boards/:boardId/custom-fields/:fieldId
+ * @desc    Delete a custom field and its values on every card
+ * @access  Private
+ */
+router.delete('/:boardId/custom-fields/:fieldId', protect, getBoardWithAccess, requireBoardPermission('manage_custom_fields'), async (req, res) => {
+  try {
+    const board = req.board;
+
+    const field = board.customFields.id(req.params.fieldId);
+    if (!field) {
+      return res.status(404).json({
+        success: false,
+        message: 'Custom field not found'
+      });
+    }
+
+    field.deleteOne();
+    await board.save();
+    await customFieldService.clearCardValues(board._id, field._id);
+    customFieldService.notifyFieldsUpdated(board);
+
+    res.status(200).json({
+      success: true,
+      data: board.customFields,
+      message: 'Custom field deleted'
+    });
+  } catch (error) {
+    console.error('Delete custom field error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting custom field'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/boards/:boardId/members
+ * @desc    Add member to board
+ * @access  Private
+ */
+router.post('/:boardId/members', protect, getBoardWithAccess, requireBoardPermission('manage_members'), async (req, res) => {
+  try {
+    const board = req.board;
+    const { userId, role = 'member' } = req.body;
+
+    // Get user details for notifications
+    const newMember = await User.findById(userId).select('firstName lastName email');
+    const addedByUser = await User.findById(req.user.id).select('firstName lastName');
+
+    if (!newMember) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    await board.addMember(userId, role);
+
+    Notification.notify({
+      recipient: userId,
+      actor: req.user.id,
+      type: 'board_invite',
+      title: `You were added to the board "${board.name}"`,
+      message: addedByUser ? `${addedByUser.firstName} ${addedByUser.lastName} added you as ${role}` : `Added as ${role}`,
+      board: board._id
+    });
+
+    // Send Slack notifications
+    if (newMember && addedByUser) {
+      const memberName = `${newMember.firstName} ${newMember.lastName}`;
+      const addedBy = `${addedByUser.firstName} ${addedByUser.lastName}`;
+
+      // Send notification asynchronously (don't block the response)
+      slackService.notifyBoardMemberAdded({
+        boardName: board.name,
+        memberName: memberName,
+        memberEmail: newMember.email,
+        addedBy: addedBy,
+        role: role,
+        boardId: board._id
+      }).catch(error => {
+        console.error('❌ Failed to send board member added notification:', error);
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Member added successfully'
+    });
+  } catch (error) {
+    console.error('Add member error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error adding member'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/boards/:boardId/members/:userId
+ * @desc    Remove member from board
+ * @access  Private
+ */
+router.delete('/:boardId/members/:userId', protect, getBoardWithAccess, requireBoardPermission('manage_members'), async (req, res) => {
+  try {
+    const board = req.board;
+    const { userId } = req.params;
+
+    // Someone who also belongs to one of the board's teams keeps the access that team gives them
+    const member = teamService.findMember(board, userId);
+    if (member && member.viaTeams.length > 0) {
+      if (!member.direct) {
+        return res.status(400).json({
+          success: false,
+          message: 'This member has access through a team on this board. Remove them from the team or remove the team from the board.'
+        });
+      }
+      member.direct = false;
+      await board.save();
+
+      return res.status(200).json({
+        success: true,
+        message: 'Member keeps access through their team'
+      });
+    }
+
+    await board.removeMember(userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Member removed successfully'
+    });
+  } catch (error) {
+    console.error('Remove member error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error removing member'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/boards/:boardId/members/:userId/role
+ * @desc    Update member role on board
+ * @access  Private
+ */
+router.put('/:boardId/members/:userId/role', protect, getBoardWithAccess, requireBoardPermission('manage_members'), async (req, res) => {
+  try {
+    const board = req.board;
+    const { userId } = req.params;
+    const { role } = req.body;
+
+    // Validate role
+    if (!BOARD_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid role specified'
+      });
+    }
+
+    // Find and update the member
+    const memberIndex = board.members.findIndex(m => m.userId && m.userId.toString() === userId);
+    if (memberIndex === -1) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found in this board'
+      });
+    }
+
+    board.members[memberIndex].role = role;
+    await board.save();
+
+    res.status(200).json({
+      success: true,
+      data: { member: board.members[memberIndex] },
+      message: 'Member role updated successfully'
+    });
+  } catch (error) {
+    console.error('Update member role error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating member role'
+    });
+  }
+});
+
+const TEAM_ROLES = ['admin', 'editor', 'member', 'viewer'];
+
+/**
+ * @route   POST /api/boards/:boardId/teams
+ * @desc    Add a team to the board; its members get access with the team's role
+ * @access  Private
+ */
+router.post('/:boardId/teams', protect, getBoardWithAccess, requireBoardPermission('manage_members'), async (req, res) => {
+  try {
+    const board = req.board;
+    const { teamId, role = 'member' } = req.body;
+
+    if (!TEAM_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid role specified'
+      });
+    }
+
+    const team = await Team.findById(teamId);
+    if (!team) {
+      return res.status(404).json({
+        success: false,
+        message: 'Team not found'
+      });
+    }
+    if (board.hasTeam(team._id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This team is already on the board'
+      });
+    }
+
+    const joined = await teamService.addTeamToBoard(board, team, role, req.user.id);
+    teamService.notifyJoined(board, team, joined, req.user.id);
+    teamService.notifyMembersUpdated(board);
+
+    res.status(200).json({
+      success: true,
+      data: { joinedCount: joined.length },
+      message: `${team.name} added to the board`
+    });
+  } catch (error) {
+    console.error('Add board team error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error adding team'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/boards/:boardId/teams/:teamId
+ * @desc    Change the role a team has on the board
+ * @access  Private
+ */
+router.put('/:boardId/teams/:teamId', protect, getBoardWithAccess, requireBoardPermission('manage_members'), async (req, res) => {
+  try {
+    const board = req.board;
+    const { role } = req.body;
+
+    if (!TEAM_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid role specified'
+      });
+    }
+
+    const team = await Team.findById(req.params.teamId);
+    if (!team || !board.hasTeam(team._id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Team not found on this board'
+      });
+    }
+
+    const joined = await teamService.addTeamToBoard(board, team, role, req.user.id);
+    teamService.notifyJoined(board, team, joined, req.user.id);
+    teamService.notifyMembersUpdated(board);
+
+    res.status(200).json({
+      success: true,
+      message: 'Team role updated successfully'
+    });
+  } catch (error) {
+    console.error('Update board team error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating team role'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/boards/:boardId/teams/:teamId
+ * @desc    Remove a team from the board, with the access it gave its members
+ * @access  Private
+ */
+router.delete('/:boardId/teams/:teamId', protect, getBoardWithAccess, requireBoardPermission('manage_members'), async (req, res) => {
+  try {
+    const board = req.board;
+
+    if (!board.hasTeam(req.params.teamId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Team not found on this board'
+      });
+    }
+
+    const removed = await teamService.removeTeamFromBoard(board, req.params.teamId);
+    teamService.notifyMembersUpdated(board);
+
+    res.status(200).json({
+      success: true,
+      data: { removedCount: removed.length },
+      message: 'Team removed from the board'
+    });
+  } catch (error) {
+    console.error('Remove board team error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error removing team'
     });
   }
 });
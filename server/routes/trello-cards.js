@@ -6,8 +6,19 @@ const List = require('../models/List');
 const Board = require('../models/Board');
 const Activity = require('../models/Activity');
 const User = require('../models/User');
+const Team = require('../models/Team');
+const Notification = require('../models/Notification');
 const slackService = require('../utils/slackService');
+const automationService = require('../services/automationService');
+const boardAutomationService = require('../services/boardAutomationService');
+const customFieldService = require('../services/customFieldService');
+const labelService = require('../services/labelService');
+const archiveService = require('../services/archiveService');
+const taskDependencyService = require('../services/taskDependencyService');
+const timeTrackingService = require('../services/timeTrackingService');
+const clientPortalService = require('../services/clientPortalService');
 const { protect } = require('../middleware/auth');
+const { requireBoardPermission, staffOnly } = require('../middleware/boardPermissions');
 
 // Middleware to get list and check access
 const getListWithAccess = async (req, res, next) => {
@@ -72,6 +83,110 @@ const getCardWithAccess = async (req, res, next) => {
   }
 };
 
+// Archived cards may have lost their list, so access is checked on the board they were archived from
+const getArchivedCardWithAccess = async (req, res, next) => {
+  try {
+    const card = await Card.findById(req.params.cardId);
+
+    if (!card || !card.isArchived) {
+      return res.status(404).json({
+        success: false,
+        message: 'Archived card not found'
+      });
+    }
+
+    const boardId = await archiveService.getCardBoardId(card);
+    const board = boardId ? await Board.findById(boardId) : null;
+    if (!board || !await board.hasAccess(req.user.id, req.user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied to this card'
+      });
+    }
+
+    req.card = card;
+    req.board = board;
+    next();
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Error checking card access'
+    });
+  }
+};
+
+/**
+ * Resolve the labels sent for a card against its board's palette, saving the
+ * palette when new labels were added to it. Returns { labels } or { error }.
+ */
+const resolveBoardLabels = async (boardId, labels) => {
+  const board = await Board.findById(boardId);
+  if (!board) {
+    return { error: 'Board not found' };
+  }
+
+  const result = labelService.resolveCardLabels(board, labels);
+  if (!result.error && result.paletteChanged) {
+    await board.save();
+    labelService.notifyLabelsUpdated(board);
+  }
+  return result;
+};
+
+const labelKey = (labels) => JSON.stringify(labels.map(label => [label.name, label.color]));
+
+/**
+ * A list at a blocking WIP limit only takes another card when a board admin
+ * overrides the limit and gives a reason. Returns { blocked, canOverride,
+ * message } when the card must stay out, otherwise { overrideReason } (null
+ * when the limit did not apply).
+ */
+const checkWipLimit = async (list, user, { cardId, overrideReason } = {}) => {
+  if (!await list.isWipLimitBlocking(cardId)) {
+    return { blocked: false, overrideReason: null };
+  }
+
+  const board = await Board.findById(list.boardId);
+  const canOverride = !!board && await board.hasPermission(user.id, 'override_wip_limit', user.role);
+  const reason = typeof overrideReason === 'string' ? overrideReason.trim() : '';
+
+  if (!canOverride || !reason) {
+    const limitMessage = `"${list.name}" has reached its WIP limit of ${list.settings.wipLimit.limit} cards`;
+    return {
+      blocked: true,
+      canOverride,
+      message: canOverride ? `${limitMessage}. A reason is required to override it.` : limitMessage
+    };
+  }
+
+  return { blocked: false, overrideReason: reason };
+};
+
+// Record who pushed a card past a blocking WIP limit and why
+const logWipLimitOverride = (list, card, user, reason) => Activity.logActivity({
+  type: 'card_wip_limit_overridden',
+  user: user.id,
+  project: list.project || null,
+  board: list.boardId,
+  list: list._id,
+  card: card._id,
+  data: {
+    comment: reason,
+    additionalInfo: { limit: list.settings.wipLimit.limit }
+  },
+  metadata: {
+    entityName: card.title,
+    entityId: card._id
+  }
+});
+
+const sendWipLimitError = (res, wipCheck) => res.status(409).json({
+  success: false,
+  code: 'WIP_LIMIT_REACHED',
+  canOverride: wipCheck.canOverride,
+  message: wipCheck.message
+});
+
 /**
  * @route   GET /api/lists/:listId/cards
  * @desc    Get all cards in a list
@@ -79,9 +194,11 @@ const getCardWithAccess = async (req, res, next) => {
  */
 router.get('/:listId/cards', protect, getListWithAccess, async (req, res) => {
   try {
+    const isClient = clientPortalService.isClient(req.user);
     const cards = await Card.find({
       listId: req.params.listId,
-      isArchived: false
+      isArchived: false,
+      ...(isClient && { sharedWithClients: req.user.id })
     })
     .populate('createdBy', 'firstName lastName avatar')
     .populate('members.userId', 'firstName lastName avatar')
@@ -89,7 +206,7 @@ router.get('/:listId/cards', protect, getListWithAccess, async (req, res) => {
 
     res.status(200).json({
       success: true,
-      data: cards
+      data: isClient ? cards.map(card => clientPortalService.toClientCard(card)) : cards
     });
   } catch (error) {
     console.error('Get cards error:', error);
@@ -105,7 +222,7 @@ router.get('/:listId/cards', protect, getListWithAccess, async (req, res) => {
  * @desc    Create new card in list
  * @access  Private
  */
-router.post('/:listId/cards', protect, getListWithAccess, async (req, res) => {
+router.post('/:listId/cards', protect, getListWithAccess, requireBoardPermission('create_cards'), async (req, res) => {
   try {
     const {
       title,
@@ -114,18 +231,10 @@ router.post('/:listId/cards', protect, getListWithAccess, async (req, res) => {
       color,
       labels,
       dueDate,
-      position
+      position,
+      wipOverrideReason
     } = req.body;
 
-    // Check permission
-    const hasPermission = await req.list.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to create cards in this list'
-      });
-    }
-
     // Validation
     if (!title || !title.trim()) {
       return res.status(400).json({
@@ -134,6 +243,23 @@ router.post('/:listId/cards', protect, getListWithAccess, async (req, res) => {
       });
     }
 
+    const wipCheck = await checkWipLimit(req.list, req.user, { overrideReason: wipOverrideReason });
+    if (wipCheck.blocked) {
+      return sendWipLimitError(res, wipCheck);
+    }
+
+    let cardLabels = [];
+    if (labels !== undefined) {
+      const labelResult = await resolveBoardLabels(req.list.boardId, labels);
+      if (labelResult.error) {
+        return res.status(400).json({
+          success: false,
+          message: labelResult.error
+        });
+      }
+      cardLabels = labelResult.labels;
+    }
+
     // Get next position if not provided
     let cardPosition = position;
     if (typeof position !== 'number') {
@@ -153,7 +279,7 @@ router.post('/:listId/cards', protect, getListWithAccess, async (req, res) => {
       position: cardPosition,
       coverImage: coverImage || null,
       color: color || null,
-      labels: labels || [],
+      labels: cardLabels,
       dueDate: dueDate || null
     });
 
@@ -186,6 +312,10 @@ router.post('/:listId/cards', protect, getListWithAccess, async (req, res) => {
         }
       });
 
+      if (wipCheck.overrideReason) {
+        await logWipLimitOverride(req.list, card, req.user, wipCheck.overrideReason);
+      }
+
       // Emit socket event for card creation
       if (req.io && list.boardId) {
         req.io.to(`board:${list.boardId.toString()}`).emit('card:created', {
@@ -214,6 +344,117 @@ router.post('/:listId/cards', protect, getListWithAccess, async (req, res) => {
   }
 });
 
+const MAX_CALENDAR_RANGE_DAYS = 62;
+
+/**
+ * @route   GET /api/cards/calendar
+ * @desc    Get cards and tasks assigned to the current user that are due in a date range, across all boards
+ * @access  Private
+ */
+router.get('/calendar', protect, async (req, res) => {
+  try {
+    const from = new Date(req.query.from);
+    const to = new Date(req.query.to);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      return res.status(400).json({
+        success: false,
+        message: 'A valid from and to date are required'
+      });
+    }
+
+    if ((to - from) / (24 * 60 * 60 * 1000) > MAX_CALENDAR_RANGE_DAYS) {
+      return res.status(400).json({
+        success: false,
+        message: `Calendar range cannot be more than ${MAX_CALENDAR_RANGE_DAYS} days`
+      });
+    }
+
+    const userId = req.user.id;
+    const boards = await Board.getAccessibleBoards(userId, req.user.role);
+    const boardsById = new Map(boards.map(board => [board._id.toString(), board]));
+    // Cards belong to boards through their list; archived lists are not shown on the board
+    const lists = await List.find({ boardId: { $in: boards.map(board => board._id) }, isArchived: false }).select('boardId');
+    const listBoards = new Map(lists.map(list => [list._id.toString(), list.boardId]));
+
+    const cards = await Card.find({
+      listId: { $in: lists.map(list => list._id) },
+      isArchived: false,
+      // Clients only see the cards shared with them
+      ...(clientPortalService.isClient(req.user) && { sharedWithClients: userId }),
+      $or: [
+        { dueDate: { $gte: from, $lte: to } },
+        { tasks: { $elemMatch: { dueDate: { $gte: from, $lte: to }, assignedTo: userId } } }
+      ]
+    })
+      .select('title listId dueDate status priority color members assignedTo tasks')
+      .lean();
+
+    const userIdStr = userId.toString();
+    const isDueInRange = (date) => date && date >= from && date <= to;
+    const items = [];
+
+    cards.forEach(card => {
+      const boardId = listBoards.get(card.listId.toString());
+      const board = boardsById.get(boardId.toString());
+      const base = {
+        cardId: card._id,
+        listId: card.listId,
+        boardId,
+        boardName: board ? board.name : ''
+      };
+
+      // Cards show up when the user is a card member or assignee
+      const isCardMember = (card.members || []).some(member => member.userId && member.userId.toString() === userIdStr) ||
+        (card.assignedTo || []).some(id => id.toString() === userIdStr);
+
+      if (isCardMember && isDueInRange(card.dueDate)) {
+        items.push({
+          ...base,
+          type: 'card',
+          id: card._id,
+          title: card.title,
+          dueDate: card.dueDate,
+          completed: card.status === 'completed',
+          priority: card.priority,
+          color: card.color || null
+        });
+      }
+
+      (card.tasks || []).forEach(task => {
+        const isAssigned = (task.assignedTo || []).some(id => id.toString() === userIdStr);
+        if (isAssigned && isDueInRange(task.dueDate)) {
+          items.push({
+            ...base,
+            type: 'task',
+            id: task._id,
+            taskId: task._id,
+            title: task.title,
+            cardTitle: card.title,
+            dueDate: task.dueDate,
+            completed: !!task.completed,
+            priority: task.priority,
+            color: card.color || null
+          });
+        }
+      });
+    });
+
+    items.sort((a, b) => new Date(a.dueDate) - new Date(b.dueDate));
+
+    res.status(200).json({
+      success: true,
+      data: items
+    });
+  } catch (error) {
+    console.error('Get calendar error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching calendar'
+    });
+  }
+});
+
 /**
  * @route   GET /api/cards/:cardId
  * @desc    Get single card details
@@ -229,6 +470,13 @@ router.get('/:cardId', protect, getCardWithAccess, async (req, res) => {
       select: 'firstName lastName avatar'
     });
 
+    if (clientPortalService.isClient(req.user)) {
+      return res.status(200).json({
+        success: true,
+        data: clientPortalService.toClientCard(card)
+      });
+    }
+
     // Get activities for this card
     const activities = await Activity.find({ cardId: card._id })
       .populate('userId', 'firstName lastName avatar')
@@ -261,19 +509,10 @@ router.get('/:cardId', protect, getCardWithAccess, async (req, res) => {
  * @desc    Update card
  * @access  Private
  */
-router.put('/:cardId', protect, getCardWithAccess, async (req, res) => {
+router.put('/:cardId', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
   try {
     const card = req.card;
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to update this card'
-      });
-    }
-
     const {
       title,
       description,
@@ -288,11 +527,12 @@ router.put('/:cardId', protect, getCardWithAccess, async (req, res) => {
       status,
       progress,
       estimatedHours,
-      actualHours
+      customFields
     } = req.body;
 
     // Track changes for activity log
     const changes = [];
+    const previousLabelNames = card.labels.map(label => label.name.toLowerCase());
 
     // Update fields and track changes
     if (title && title.trim() && title.trim() !== card.title) {
@@ -311,9 +551,18 @@ router.put('/:cardId', protect, getCardWithAccess, async (req, res) => {
       changes.push({ field: 'color', oldValue: card.color, newValue: color });
       card.color = color;
     }
-    if (labels && JSON.stringify(labels) !== JSON.stringify(card.labels)) {
-      changes.push({ field: 'labels', oldValue: [...card.labels], newValue: labels });
-      card.labels = labels;
+    if (labels) {
+      const labelResult = await resolveBoardLabels(card.listId.boardId, labels);
+      if (labelResult.error) {
+        return res.status(400).json({
+          success: false,
+          message: labelResult.error
+        });
+      }
+      if (labelKey(labelResult.labels) !== labelKey(card.labels)) {
+        changes.push({ field: 'labels', oldValue: [...card.labels], newValue: labelResult.labels });
+        card.labels = labelResult.labels;
+      }
     }
     if (dueDate !== undefined) {
       const newDueDate = dueDate ? new Date(dueDate) : null;
@@ -358,12 +607,17 @@ router.put('/:cardId', protect, getCardWithAccess, async (req, res) => {
         card.timeTracking.estimated = estimatedHours;
       }
     }
-    if (actualHours !== undefined) {
-      if (!card.timeTracking) card.timeTracking = {};
-      if (actualHours !== card.timeTracking.spent) {
-        changes.push({ field: 'actualHours', oldValue: card.timeTracking.spent, newValue: actualHours });
-        card.timeTracking.spent = actualHours;
+    // Spent time is the sum of the card's time entries; it is not set directly
+    if (customFields !== undefined) {
+      const board = await Board.findById(card.listId.boardId).select('customFields');
+      const result = customFieldService.applyCardValues(card, board ? board.customFields : [], customFields);
+      if (result.error) {
+        return res.status(400).json({
+          success: false,
+          message: result.error
+        });
       }
+      changes.push(...result.changes);
     }
 
     await card.save();
@@ -388,6 +642,15 @@ router.put('/:cardId', protect, getCardWithAccess, async (req, res) => {
       });
     }
 
+    // The change may satisfy the list's auto-move rule
+    await automationService.applyListAutomationRules(card._id, req.user.id);
+
+    card.labels
+      .filter(label => !previousLabelNames.includes(label.name.toLowerCase()))
+      .forEach(label => {
+        boardAutomationService.handleEvent('label_added', card._id, { label: label.name, userId: req.user.id });
+      });
+
     res.status(200).json({
       success: true,
       data: card,
@@ -407,19 +670,10 @@ router.put('/:cardId', protect, getCardWithAccess, async (req, res) => {
  * @desc    Delete card
  * @access  Private
  */
-router.delete('/:cardId', protect, getCardWithAccess, async (req, res) => {
+router.delete('/:cardId', protect, getCardWithAccess, requireBoardPermission('delete_cards'), async (req, res) => {
   try {
     const card = req.card;
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'delete', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to delete this card'
-      });
-    }
-
     // Store card info before deletion for activity log
     const cardTitle = card.title;
     const cardId = card._id;
@@ -443,8 +697,15 @@ router.delete('/:cardId', protect, getCardWithAccess, async (req, res) => {
       }
     });
 
+    // Tasks on other cards may be waiting on this card's tasks
+    if (card.tasks.length > 0) {
+      const lockChanges = await taskDependencyService.removeTasks(card, card.tasks.map(task => task._id));
+      await reportTaskLockChanges(req, lockChanges, { boardId: list ? list.boardId : null, reason: `"${cardTitle}" was deleted` });
+    }
+
     // Delete card (pre-remove middleware will handle cleanup)
     await card.deleteOne();
+    await timeTrackingService.clearCardTimers(cardId);
 
     res.status(200).json({
       success: true,
@@ -464,19 +725,10 @@ router.delete('/:cardId', protect, getCardWithAccess, async (req, res) => {
  * @desc    Move card to different list
  * @access  Private
  */
-router.post('/:cardId/move', protect, getCardWithAccess, async (req, res) => {
+router.post('/:cardId/move', protect, getCardWithAccess, requireBoardPermission('move_cards'), async (req, res) => {
   try {
     const card = req.card;
-    const { targetListId, position } = req.body;
-
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to move this card'
-      });
-    }
+    const { targetListId, position, wipOverrideReason } = req.body;
 
     if (!targetListId) {
       return res.status(400).json({
@@ -502,6 +754,11 @@ router.post('/:cardId/move', protect, getCardWithAccess, async (req, res) => {
       });
     }
 
+    const wipCheck = await checkWipLimit(targetList, req.user, { cardId: card._id, overrideReason: wipOverrideReason });
+    if (wipCheck.blocked) {
+      return sendWipLimitError(res, wipCheck);
+    }
+
     const oldListId = card.listId;
 
     // Move card
@@ -526,6 +783,15 @@ router.post('/:cardId/move', protect, getCardWithAccess, async (req, res) => {
       });
     }
 
+    if (wipCheck.overrideReason) {
+      await logWipLimitOverride(targetList, card, req.user, wipCheck.overrideReason);
+    }
+
+    // The change may satisfy the list's auto-move rule
+    await automationService.applyListAutomationRules(card._id, req.user.id);
+
+    boardAutomationService.handleEvent('card_moved_to_list', card._id, { listId: targetListId, userId: req.user.id });
+
     res.status(200).json({
       success: true,
       message: 'Card moved successfully'
@@ -544,20 +810,11 @@ router.post('/:cardId/move', protect, getCardWithAccess, async (req, res) => {
  * @desc    Reorder card position within list
  * @access  Private
  */
-router.put('/:cardId/reorder', protect, getCardWithAccess, async (req, res) => {
+router.put('/:cardId/reorder', protect, getCardWithAccess, requireBoardPermission('move_cards'), async (req, res) => {
   try {
     const card = req.card;
     const { position } = req.body;
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to reorder this card'
-      });
-    }
-
     if (typeof position !== 'number') {
       return res.status(400).json({
         success: false,
@@ -586,20 +843,11 @@ router.put('/:cardId/reorder', protect, getCardWithAccess, async (req, res) => {
  * @desc    Add member to card
  * @access  Private
  */
-router.post('/:cardId/members', protect, getCardWithAccess, async (req, res) => {
+router.post('/:cardId/members', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
   try {
     const card = req.card;
     const { userId, role = 'member' } = req.body;
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to add members to this card'
-      });
-    }
-
     if (!userId) {
       return res.status(400).json({
         success: false,
@@ -643,6 +891,17 @@ router.post('/:cardId/members', protect, getCardWithAccess, async (req, res) =>
 
     await card.save();
 
+    const memberList = await List.findById(card.listId).select('boardId');
+    Notification.notify({
+      recipient: userId,
+      actor: req.user.id,
+      type: 'card_assigned',
+      title: `You were added to "${card.title}"`,
+      message: `Added as ${role}`,
+      board: memberList ? memberList.boardId : null,
+      card: card._id
+    });
+
     // Populate member details for response
     await card.populate('members.userId', 'firstName lastName avatar');
 
@@ -654,6 +913,11 @@ router.post('/:cardId/members', protect, getCardWithAccess, async (req, res) =>
       data: { addedUserId: userId, role: role }
     });
 
+    // The change may satisfy the list's auto-move rule
+    await automationService.applyListAutomationRules(card._id, req.user.id);
+
+    boardAutomationService.handleEvent('member_assigned', card._id, { memberId: userId, userId: req.user.id });
+
     res.status(200).json({
       success: true,
       data: card.members,
@@ -673,20 +937,11 @@ router.post('/:cardId/members', protect, getCardWithAccess, async (req, res) =>
  * @desc    Remove member from card
  * @access  Private
  */
-router.delete('/:cardId/members/:userId', protect, getCardWithAccess, async (req, res) => {
+router.delete('/:cardId/members/:userId', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
   try {
     const card = req.card;
     const { userId } = req.params;
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to remove members from this card'
-      });
-    }
-
     await card.removeMember(userId);
 
     // Create activity
@@ -697,6 +952,9 @@ router.delete('/:cardId/members/:userId', protect, getCardWithAccess, async (req
       data: { removedUserId: userId }
     });
 
+    // The change may satisfy the list's auto-move rule
+    await automationService.applyListAutomationRules(card._id, req.user.id);
+
     res.status(200).json({
       success: true,
       message: 'Member removed successfully'
@@ -776,107 +1034,648 @@ router.put('/:cardId/members/:userId/role', protect, getCardWithAccess, async (r
 });
 
 /**
- * @route   PUT /api/cards/:cardId/archive
- * @desc    Archive/Unarchive card
+ * @route   PUT /api/cards/:cardId/client-sharing
+ * @desc    Choose which of the board's clients see the card in the client portal
  * @access  Private
  */
-router.put('/:cardId/archive', protect, getCardWithAccess, async (req, res) => {
+router.put('/:cardId/client-sharing', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
   try {
     const card = req.card;
+    const { clientIds } = req.body;
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
+    if (!Array.isArray(clientIds)) {
+      return res.status(400).json({
         success: false,
-        message: 'You do not have permission to archive this card'
+        message: 'Client ids must be a list'
       });
     }
 
-    card.isArchived = !card.isArchived;
+    const uniqueIds = [...new Set(clientIds.map(id => id.toString()))];
+    const clients = await User.find({ _id: { $in: uniqueIds }, role: 'client' }).select('_id');
+    const notOnBoard = clients.length !== uniqueIds.length ||
+      !uniqueIds.every(id => req.board.members.some(member => member.userId && member.userId.toString() === id));
+
+    if (notOnBoard) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cards can only be shared with clients who are members of this board'
+      });
+    }
+
+    card.sharedWithClients = uniqueIds;
     await card.save();
 
-    // Create activity
-    await Activity.create({
-      type: card.isArchived ? 'card_archived' : 'card_unarchived',
-      cardId: card._id,
-      userId: req.user.id
+    res.status(200).json({
+      success: true,
+      data: { sharedWithClients: card.sharedWithClients },
+      message: uniqueIds.length > 0 ? 'Card shared with clients' : 'Card is no longer shared with clients'
+    });
+  } catch (error) {
+    console.error('Update client sharing error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating client sharing'
     });
+  }
+});
 
-    res.status(200).json({
+/**
+ * @route   POST /api/cards/:cardId/client-feedback
+ * @desc    Approve a shared card's deliverables or leave feedback on it
+ * @access  Private (clients)
+ */
+router.post('/:cardId/client-feedback', protect, getCardWithAccess, async (req, res) => {
+  try {
+    if (!clientPortalService.isClient(req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only clients can leave client feedback'
+      });
+    }
+
+    const card = req.card;
+    const result = await clientPortalService.addFeedback(card, req.user, req.body);
+    if (result.error) {
+      return res.status(400).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    await card.populate({
+      path: 'comments.author',
+      select: 'firstName lastName avatar'
+    });
+
+    res.status(201).json({
       success: true,
-      data: { isArchived: card.isArchived },
-      message: `Card ${card.isArchived ? 'archived' : 'unarchived'} successfully`
+      data: card.comments.id(result.comment._id),
+      message: req.body.type === 'approval' ? 'Approval sent' : 'Feedback sent'
     });
   } catch (error) {
-    console.error('Archive card error:', error);
+    console.error('Add client feedback error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error archiving card'
+      message: 'Error sending feedback'
     });
   }
 });
 
-// ====== TASK MANAGEMENT APIS ======
+// Workflow fields the card's Workflow tab works with
+const getWorkflowData = (card) => ({
+  workflowEnabled: card.workflowEnabled,
+  workflowStages: card.workflowStages,
+  currentStageIndex: card.currentStageIndex,
+  autoProgressEnabled: card.autoProgressEnabled,
+  moveListOnProgress: card.moveListOnProgress,
+  stageListMapping: Object.fromEntries(card.stageListMapping || []),
+  status: card.status,
+  listId: card.listId._id || card.listId
+});
+
+// Push stage and list changes to everyone viewing the board
+const notifyWorkflowUpdated = (boardId, card) => {
+  try {
+    const socketManager = require('../server').get('socketManager');
+    if (socketManager) {
+      socketManager.notifyBoard(boardId.toString(), 'card:workflow-updated', {
+        cardId: card._id,
+        workflow: getWorkflowData(card)
+      });
+    }
+  } catch (socketError) {
+    console.error('Error emitting workflow update:', socketError);
+  }
+};
 
 /**
- * @route   POST /api/cards/:cardId/tasks
- * @desc    Add task to card
+ * @route   GET /api/cards/:cardId/workflow
+ * @desc    Get a card's workflow stages and settings
  * @access  Private
  */
-router.post('/:cardId/tasks', protect, getCardWithAccess, async (req, res) => {
+router.get('/:cardId/workflow', protect, getCardWithAccess, staffOnly, async (req, res) => {
   try {
-    const card = req.card;
-    const {
-      title,
-      description,
-      assignedTo,
-      dueDate,
-      priority = 'medium',
-      dependsOn = null,
-      autoAssignOnUnlock = false,
-      assignToOnUnlock = []
-    } = req.body;
-
-    console.log('ADD TASK DEBUG - RAW REQUEST:', {
-      cardId: req.params.cardId,
-      body: req.body,
-      assignedToRaw: assignedTo,
-      assignedToType: typeof assignedTo,
-      isArray: Array.isArray(assignedTo)
+    res.status(200).json({
+      success: true,
+      data: getWorkflowData(req.card)
+    });
+  } catch (error) {
+    console.error('Get workflow error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching workflow'
     });
+  }
+});
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
+/**
+ * @route   PUT /api/cards/:cardId/workflow
+ * @desc    Define a card's workflow stages, their tasks and list mapping
+ * @access  Private
+ */
+router.put('/:cardId/workflow', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
+  try {
+    const card = req.card;
+    const { workflowEnabled, autoProgressEnabled, moveListOnProgress, stages, stageListMapping } = req.body;
+
+    if (!Array.isArray(stages)) {
+      return res.status(400).json({
         success: false,
-        message: 'You do not have permission to add tasks to this card'
+        message: 'Stages are required'
       });
     }
-
-    // Validation
-    if (!title || !title.trim()) {
+    if (workflowEnabled && stages.length === 0) {
       return res.status(400).json({
         success: false,
-        message: 'Task title is required'
+        message: 'Add at least one stage to enable the workflow'
       });
     }
 
-    // Verify dependency task exists if provided
-    if (dependsOn) {
-      const dependencyTask = card.tasks.id(dependsOn);
-      if (!dependencyTask) {
-        return res.status(404).json({
+    const board = await Board.findById(card.listId.boardId);
+    const boardMemberIds = board
+      ? [board.createdBy.toString(), ...board.members.filter(m => m.userId).map(m => m.userId.toString())]
+      : [];
+    const cardTaskIds = card.tasks.map(task => task._id.toString());
+    const claimedTaskIds = new Set();
+
+    for (const [index, stage] of stages.entries()) {
+      if (stage.assignedToType === 'team') {
+        if (!stage.assignedTo || !board || !board.hasTeam(stage.assignedTo)) {
+          return res.status(400).json({
+            success: false,
+            message: `Stage ${index + 1} needs a team that is on this board`
+          });
+        }
+      } else if (!stage.assignedTo || !boardMemberIds.includes(stage.assignedTo.toString())) {
+        return res.status(400).json({
           success: false,
-          message: 'Dependency task not found'
+          message: `Stage ${index + 1} needs an assignee who is on this board`
         });
       }
-    }
-
-    // Verify assigned user(s) exist if provided
-    const User = require('../models/User');
-    if (assignedTo) {
+      for (const taskId of stage.taskIds || []) {
+        if (!cardTaskIds.includes(taskId.toString())) {
+          return res.status(400).json({
+            success: false,
+            message: `Stage ${index + 1} refers to a task that is not on this card`
+          });
+        }
+        if (claimedTaskIds.has(taskId.toString())) {
+          return res.status(400).json({
+            success: false,
+            message: 'A task can only belong to one stage'
+          });
+        }
+        claimedTaskIds.add(taskId.toString());
+      }
+    }
+
+    // Stage indexes map to lists on the same board
+    const mapping = new Map();
+    if (stageListMapping) {
+      const boardLists = await List.find({ boardId: card.listId.boardId, isArchived: false }).select('_id');
+      const boardListIds = boardLists.map(list => list._id.toString());
+      for (const [stageIndex, listId] of Object.entries(stageListMapping)) {
+        if (!listId) continue;
+        if (Number(stageIndex) >= stages.length || !boardListIds.includes(listId.toString())) {
+          return res.status(400).json({
+            success: false,
+            message: 'Stage lists must be lists on this board'
+          });
+        }
+        mapping.set(String(stageIndex), listId);
+      }
+    }
+
+    card.setWorkflowStages(stages.map(stage => ({
+      _id: stage._id,
+      name: typeof stage.name === 'string' ? stage.name.trim() : '',
+      assignedToType: stage.assignedToType === 'team' ? 'team' : 'user',
+      assignedTo: stage.assignedTo,
+      taskIds: stage.taskIds || []
+    })));
+    card.stageListMapping = mapping;
+    if (workflowEnabled !== undefined) card.workflowEnabled = !!workflowEnabled && stages.length > 0;
+    if (autoProgressEnabled !== undefined) card.autoProgressEnabled = !!autoProgressEnabled;
+    if (moveListOnProgress !== undefined) card.moveListOnProgress = !!moveListOnProgress;
+
+    await card.save();
+
+    await Activity.logActivity({
+      type: 'card_workflow_updated',
+      user: req.user.id,
+      project: card.project || null,
+      board: card.listId.boardId,
+      list: card.listId._id,
+      card: card._id,
+      metadata: {
+        entityName: card.title,
+        entityId: card._id
+      }
+    });
+
+    notifyWorkflowUpdated(card.listId.boardId, card);
+
+    res.status(200).json({
+      success: true,
+      data: getWorkflowData(card),
+      message: 'Workflow updated successfully'
+    });
+  } catch (error) {
+    console.error('Update workflow error:', error);
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Error updating workflow'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/cards/:cardId/workflow/stage
+ * @desc    Advance the workflow to the next stage or roll it back to the previous one
+ * @access  Private
+ */
+router.post('/:cardId/workflow/stage', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
+  try {
+    const card = req.card;
+    const { direction } = req.body;
+
+    if (!card.workflowEnabled || card.workflowStages.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Workflow is not enabled for this card'
+      });
+    }
+    if (!['next', 'previous'].includes(direction)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Direction must be next or previous'
+      });
+    }
+
+    // A finished workflow sits one step past its last stage
+    const stageCount = card.workflowStages.length;
+    const isFinished = card.workflowStages[stageCount - 1].status === 'completed';
+    const position = isFinished ? stageCount : card.currentStageIndex;
+    const targetIndex = direction === 'next' ? position + 1 : position - 1;
+
+    if (targetIndex < 0 || targetIndex > stageCount) {
+      return res.status(400).json({
+        success: false,
+        message: direction === 'next' ? 'The workflow is already complete' : 'The workflow is already at its first stage'
+      });
+    }
+
+    const fromList = card.listId;
+    const fromStageName = isFinished ? 'Complete' : (card.workflowStages[position].name || `Stage ${position + 1}`);
+    const { completed, movedToListId } = await card.goToWorkflowStage(targetIndex);
+    await card.save();
+
+    const toStageName = completed ? 'Complete' : (card.workflowStages[targetIndex].name || `Stage ${targetIndex + 1}`);
+    const changes = [{ field: 'stage', oldValue: fromStageName, newValue: toStageName }];
+    if (movedToListId) {
+      const toList = await List.findById(movedToListId).select('name');
+      changes.push({ field: 'list', oldValue: fromList.name, newValue: toList ? toList.name : '' });
+    }
+
+    await Activity.logActivity({
+      type: 'card_workflow_progressed',
+      user: req.user.id,
+      project: card.project || null,
+      board: fromList.boardId,
+      list: movedToListId || fromList._id,
+      card: card._id,
+      data: {
+        additionalInfo: { direction, fromStage: position, toStage: targetIndex, completed }
+      },
+      metadata: {
+        entityName: card.title,
+        entityId: card._id,
+        changes
+      }
+    });
+
+    notifyWorkflowUpdated(fromList.boardId, card);
+
+    res.status(200).json({
+      success: true,
+      data: getWorkflowData(card),
+      message: completed ? 'Workflow completed' : `Moved to ${toStageName}`
+    });
+  } catch (error) {
+    console.error('Change workflow stage error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error changing workflow stage'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/cards/:cardId/archive
+ * @desc    Archive/Unarchive card
+ * @access  Private
+ */
+router.put('/:cardId/archive', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
+  try {
+    const card = req.card;
+
+    card.isArchived = !card.isArchived;
+    if (card.isArchived) {
+      card.archivedAt = new Date();
+      card.archivedBy = req.user.id;
+      // Remember the board so the card can still be found if its list is deleted
+      card.boardId = card.listId.boardId;
+    } else {
+      card.archivedAt = undefined;
+      card.archivedBy = undefined;
+    }
+    await card.save();
+
+    await Activity.logActivity({
+      type: card.isArchived ? 'card_archived' : 'card_restored',
+      user: req.user.id,
+      project: card.project || null,
+      board: card.listId.boardId,
+      list: card.listId._id,
+      card: card._id,
+      metadata: {
+        entityName: card.title,
+        entityId: card._id
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { isArchived: card.isArchived },
+      message: `Card ${card.isArchived ? 'archived' : 'unarchived'} successfully`
+    });
+  } catch (error) {
+    console.error('Archive card error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error archiving card'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/cards/:cardId/restore
+ * @desc    Restore an archived card to its list, or to another list on the board
+ *          when its own list was deleted or archived
+ * @access  Private
+ */
+router.put('/:cardId/restore', protect, getArchivedCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
+  try {
+    const { card, board } = req;
+    const { listId } = req.body;
+
+    const targetList = await List.findOne({ _id: listId || card.listId, boardId: board._id, isArchived: false });
+    if (!targetList) {
+      return res.status(400).json({
+        success: false,
+        message: listId
+          ? 'Choose an open list on this board'
+          : 'This card\'s list was deleted or archived. Choose a list to restore it to.'
+      });
+    }
+
+    const wipCheck = await checkWipLimit(targetList, req.user);
+    if (wipCheck.blocked) {
+      return sendWipLimitError(res, wipCheck);
+    }
+
+    const lastCard = await Card.findOne({ listId: targetList._id }, {}, { sort: { position: -1 } });
+    card.listId = targetList._id;
+    card.position = lastCard ? lastCard.position + 1 : 1;
+    card.isArchived = false;
+    card.archivedAt = undefined;
+    card.archivedBy = undefined;
+    await card.save();
+    await card.populate([
+      { path: 'createdBy', select: 'firstName lastName avatar' },
+      { path: 'members.userId', select: 'firstName lastName avatar' }
+    ]);
+
+    await Activity.logActivity({
+      type: 'card_restored',
+      user: req.user.id,
+      project: card.project || null,
+      board: board._id,
+      list: targetList._id,
+      card: card._id,
+      metadata: {
+        entityName: card.title,
+        entityId: card._id,
+        listName: targetList.name
+      }
+    });
+
+    if (req.io) {
+      req.io.to(`board:${board._id.toString()}`).emit('card:restored', {
+        listId: targetList._id,
+        card
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: card,
+      message: `Card restored to "${targetList.name}"`
+    });
+  } catch (error) {
+    console.error('Restore card error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error restoring card'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/cards/:cardId/permanent
+ * @desc    Permanently delete an archived card and its stored files
+ * @access  Private
+ */
+router.delete('/:cardId/permanent', protect, getArchivedCardWithAccess, requireBoardPermission('purge_cards'), async (req, res) => {
+  try {
+    const { card, board } = req;
+
+    await Activity.logActivity({
+      type: 'card_deleted',
+      user: req.user.id,
+      project: card.project || null,
+      board: board._id,
+      list: card.listId,
+      card: card._id,
+      metadata: {
+        entityName: card.title,
+        entityId: card._id
+      }
+    });
+
+    const lockChanges = await archiveService.purgeCard(card);
+    await reportTaskLockChanges(req, lockChanges, { boardId: board._id, reason: `"${card.title}" was deleted` });
+
+    res.status(200).json({
+      success: true,
+      message: 'Card permanently deleted'
+    });
+  } catch (error) {
+    console.error('Permanently delete card error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting card'
+    });
+  }
+});
+
+// ====== TASK MANAGEMENT APIS ======
+
+/**
+ * Log, notify and broadcast tasks whose lock changed because of a dependency
+ * (see services/taskDependencyService). Unlocked tasks get an activity entry
+ * and their assignees are told; every changed task is pushed to the board so
+ * open cards pick up the new state.
+ */
+const reportTaskLockChanges = async (req, changes, { boardId, reason }) => {
+  if (changes.length === 0) return;
+
+  const assigneeIds = [...new Set(changes.flatMap(change => (change.assignedTo || []).map(id => id.toString())))];
+  const assignees = await User.find({ _id: { $in: assigneeIds } }).select('firstName lastName avatar email');
+  const assigneesById = new Map(assignees.map(user => [user._id.toString(), user]));
+  const board = boardId ? await Board.findById(boardId) : null;
+  const actor = await User.findById(req.user.id).select('firstName lastName');
+
+  for (const change of changes) {
+    const changeAssignees = (change.assignedTo || [])
+      .map(id => assigneesById.get(id.toString()))
+      .filter(Boolean);
+
+    if (change.state === 'unlocked') {
+      await Activity.logActivity({
+        type: 'card_task_unlocked',
+        user: req.user.id,
+        board: boardId,
+        card: change.cardId,
+        metadata: {
+          entityName: change.cardTitle,
+          entityId: change.cardId,
+          taskTitle: change.title,
+          taskId: change.taskId,
+          unlockedBy: reason
+        }
+      });
+
+      Notification.notifyMany(change.assignedTo, {
+        type: 'task_unlocked',
+        actor: req.user.id,
+        title: `"${change.title}" is ready to start`,
+        message: `${reason} on "${change.cardTitle}"`,
+        board: boardId,
+        card: change.cardId,
+        taskId: change.taskId
+      });
+
+      if (board && actor && changeAssignees.length > 0) {
+        slackService.notifyBoardTaskUnlocked({
+          taskTitle: change.title,
+          assignedTo: changeAssignees.map(user => `${user.firstName} ${user.lastName}`),
+          boardName: board.name,
+          cardName: change.cardTitle,
+          unlockedBy: `${actor.firstName} ${actor.lastName}`,
+          assignedToEmails: changeAssignees.map(user => user.email)
+        }).catch(error => {
+          console.error('❌ Failed to send board task unlocked notification:', error);
+        });
+      }
+    }
+  }
+
+  try {
+    const socketManager = require('../server').get('socketManager');
+    if (socketManager && boardId) {
+      const cards = await Card.find({ _id: { $in: changes.map(change => change.cardId) } })
+        .populate('tasks.assignedTo', 'firstName lastName avatar');
+      const cardsById = new Map(cards.map(card => [card._id.toString(), card]));
+
+      changes.forEach(change => {
+        const task = cardsById.get(change.cardId.toString())?.tasks.id(change.taskId);
+        if (!task) return;
+        socketManager.notifyBoard(boardId.toString(), 'task:updated', {
+          cardId: change.cardId,
+          taskId: change.taskId,
+          task
+        });
+      });
+    }
+  } catch (socketError) {
+    console.error('Error emitting task lock changes:', socketError);
+  }
+};
+
+/**
+ * Look up a team a task is being given to. The team has to be on the card's
+ * board; returns { team, memberIds } or { error }.
+ */
+const getTaskTeam = async (card, teamId) => {
+  const board = await Board.findById(card.listId.boardId).select('teams');
+  if (!board || !board.hasTeam(teamId)) {
+    return { error: 'Tasks can only be assigned to teams on this board' };
+  }
+
+  const team = await Team.findById(teamId);
+  if (!team) {
+    return { error: 'Team not found' };
+  }
+  return { team, memberIds: team.getMemberIds() };
+};
+
+/**
+ * @route   POST /api/cards/:cardId/tasks
+ * @desc    Add task to card
+ * @access  Private
+ */
+router.post('/:cardId/tasks', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
+  try {
+    const card = req.card;
+    const {
+      title,
+      description,
+      assignedTo,
+      assignedTeam,
+      dueDate,
+      priority = 'medium',
+      dependsOn = [],
+      autoAssignOnUnlock = false,
+      assignToOnUnlock = []
+    } = req.body;
+
+    // Validation
+    if (!title || !title.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Task title is required'
+      });
+    }
+
+    // Predecessors may be on any card of the board
+    const dependencies = await taskDependencyService.validateDependencies(card, null, dependsOn);
+    if (dependencies.error) {
+      return res.status(400).json({
+        success: false,
+        message: dependencies.error
+      });
+    }
+
+    // Verify assigned user(s) exist if provided
+    const User = require('../models/User');
+    if (assignedTo) {
       // Handle both single user (string) and multiple users (array)
       const userIds = Array.isArray(assignedTo) ? assignedTo : [assignedTo];
       for (const userId of userIds) {
@@ -909,52 +1708,43 @@ router.post('/:cardId/tasks', protect, getCardWithAccess, async (req, res) => {
       assignedToArray = Array.isArray(assignedTo) ? assignedTo : [assignedTo];
     }
 
+    // A task given to a team is assigned to each of its members as well
+    let taskTeam = null;
+    if (assignedTeam) {
+      const teamResult = await getTaskTeam(card, assignedTeam);
+      if (teamResult.error) {
+        return res.status(400).json({
+          success: false,
+          message: teamResult.error
+        });
+      }
+      taskTeam = teamResult.team;
+      assignedToArray = [...new Set([...assignedToArray.map(id => id.toString()), ...teamResult.memberIds])];
+    }
+
     const taskData = {
       title: title.trim(),
       description: description || '',
       assignedTo: assignedToArray,
+      assignedTeam: taskTeam ? taskTeam._id : null,
       dueDate: dueDate ? new Date(dueDate) : null,
       priority: priority,
-      dependsOn: dependsOn,
+      dependsOn: dependencies.dependsOn,
       autoAssignOnUnlock: autoAssignOnUnlock,
       assignToOnUnlock: assignToOnUnlock
     };
 
-    console.log('Processed task data BEFORE addTask:', {
-      taskData,
-      assignedToArray,
-      assignedToLength: assignedToArray.length
-    });
-
     card.addTask(taskData, req.user.id);
-
-    console.log('Task added to card, BEFORE save:', {
-      lastTask: card.tasks[card.tasks.length - 1],
-      assignedToCount: card.tasks[card.tasks.length - 1].assignedTo?.length
-    });
+    await taskDependencyService.refreshTask(card, card.tasks[card.tasks.length - 1]._id);
 
     await card.save();
 
-    console.log('Card saved, BEFORE populate:', {
-      lastTask: card.tasks[card.tasks.length - 1],
-      assignedToCount: card.tasks[card.tasks.length - 1].assignedTo?.length
-    });
-
     // Populate the card to get user details
     await card.populate('tasks.assignedTo tasks.assignToOnUnlock');
 
     // Get the newly added task (it will be the last one)
     const addedTask = card.tasks[card.tasks.length - 1];
 
-    console.log('AFTER populate - FINAL RESULT:', {
-      taskId: addedTask._id,
-      taskTitle: addedTask.title,
-      assignedTo: addedTask.assignedTo,
-      assignedToCount: addedTask.assignedTo?.length,
-      assignToOnUnlock: addedTask.assignToOnUnlock,
-      totalTasks: card.tasks.length
-    });
-
     // Log activity for task creation
     const list = await List.findById(card.listId).populate('boardId');
     await Activity.logActivity({
@@ -975,6 +1765,16 @@ router.post('/:cardId/tasks', protect, getCardWithAccess, async (req, res) => {
     // Send Slack notification for initial task assignment
     if (addedTask.assignedTo && addedTask.assignedTo.length > 0 && list && list.boardId) {
       const board = list.boardId;
+
+      Notification.notifyMany(addedTask.assignedTo, {
+        type: 'task_assigned',
+        actor: req.user.id,
+        title: `You were assigned to "${addedTask.title}"`,
+        message: `On "${card.title}" in ${board.name}`,
+        board: board._id,
+        card: card._id,
+        taskId: addedTask._id
+      });
       const createdByUser = await User.findById(req.user.id).select('firstName lastName');
 
       for (const userId of addedTask.assignedTo) {
@@ -1034,43 +1834,68 @@ router.post('/:cardId/tasks', protect, getCardWithAccess, async (req, res) => {
  * @desc    Update task in card
  * @access  Private
  */
-router.put('/:cardId/tasks/:taskId', protect, getCardWithAccess, async (req, res) => {
+router.put('/:cardId/tasks/:taskId', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
   try {
     const card = req.card;
     const { taskId } = req.params;
-    const { title, description, completed, assignedTo, dueDate, priority } = req.body;
+    const {
+      title,
+      description,
+      completed,
+      assignedTo,
+      assignedTeam,
+      startDate,
+      dueDate,
+      priority,
+      dependsOn,
+      autoAssignOnUnlock,
+      assignToOnUnlock,
+      estimatedHours
+    } = req.body;
 
-    console.log('UPDATE TASK DEBUG - RAW REQUEST:', {
-      cardId: req.params.cardId,
-      taskId: taskId,
-      updateData: { title, description, completed, assignedTo, dueDate, priority },
-      assignedToType: typeof assignedTo,
-      assignedToIsArray: Array.isArray(assignedTo),
-      assignedToLength: Array.isArray(assignedTo) ? assignedTo.length : 'N/A'
-    });
+    // Find task
+    const task = card.tasks.id(taskId);
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        message: 'Task not found'
+      });
+    }
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
+    if (completed === true && !task.completed && task.isLocked) {
+      return res.status(400).json({
         success: false,
-        message: 'You do not have permission to update tasks in this card'
+        message: task.lockedReason || 'This task is locked until its dependencies are completed'
       });
     }
 
-    // Find task
-    const task = card.tasks.id(taskId);
-    if (!task) {
-      return res.status(404).json({
+    const hasEstimate = estimatedHours !== undefined && estimatedHours !== null && estimatedHours !== '';
+    if (hasEstimate && (isNaN(Number(estimatedHours)) || Number(estimatedHours) < 0)) {
+      return res.status(400).json({
         success: false,
-        message: 'Task not found'
+        message: 'Estimated hours must be a positive number'
       });
     }
 
+    // Predecessors may be on any card of the board, but must not lead back to this task
+    let dependencies = null;
+    if (dependsOn !== undefined) {
+      dependencies = await taskDependencyService.validateDependencies(card, taskId, dependsOn);
+      if (dependencies.error) {
+        return res.status(400).json({
+          success: false,
+          message: dependencies.error
+        });
+      }
+    }
+
     // Verify assigned users exist if provided
-    if (assignedTo) {
+    if (assignedTo || (Array.isArray(assignToOnUnlock) && assignToOnUnlock.length > 0)) {
       const User = require('../models/User');
-      const userIds = Array.isArray(assignedTo) ? assignedTo : [assignedTo];
+      const userIds = [
+        ...(Array.isArray(assignedTo) ? assignedTo : assignedTo ? [assignedTo] : []),
+        ...(Array.isArray(assignToOnUnlock) ? assignToOnUnlock : [])
+      ];
 
       for (const userId of userIds) {
         if (userId) {
@@ -1085,6 +1910,21 @@ router.put('/:cardId/tasks/:taskId', protect, getCardWithAccess, async (req, res
       }
     }
 
+    let teamResult = null;
+    if (assignedTeam) {
+      teamResult = await getTaskTeam(card, assignedTeam);
+      if (teamResult.error) {
+        return res.status(400).json({
+          success: false,
+          message: teamResult.error
+        });
+      }
+    }
+
+    const previousAssignees = (task.assignedTo || []).map(id => id.toString());
+    const hadOpenTasks = card.tasks.some(item => !item.completed);
+    const wasCompleted = task.completed;
+
     const updateData = {};
     if (title !== undefined && title.trim()) updateData.title = title.trim();
     if (description !== undefined) updateData.description = description;
@@ -1096,43 +1936,63 @@ router.put('/:cardId/tasks/:taskId', protect, getCardWithAccess, async (req, res
       // Convert to array if not already
       updateData.assignedTo = Array.isArray(assignedTo) ? assignedTo : (assignedTo ? [assignedTo] : []);
     }
+    if (assignedTeam !== undefined) {
+      updateData.assignedTeam = teamResult ? teamResult.team._id : null;
+      if (teamResult) {
+        const assignees = updateData.assignedTo || task.assignedTo;
+        updateData.assignedTo = [...new Set([...assignees.map(id => id.toString()), ...teamResult.memberIds])];
+      }
+    }
+    if (startDate !== undefined) {
+      updateData.startDate = startDate ? new Date(startDate) : null;
+    }
     if (dueDate !== undefined) {
       updateData.dueDate = dueDate ? new Date(dueDate) : null;
     }
     if (priority !== undefined) updateData.priority = priority;
-
-    console.log('BEFORE updateTask:', {
-      taskId,
-      updateData,
-      assignedToInUpdate: updateData.assignedTo
-    });
+    if (dependencies) updateData.dependsOn = dependencies.dependsOn;
+    if (autoAssignOnUnlock !== undefined) updateData.autoAssignOnUnlock = !!autoAssignOnUnlock;
+    if (Array.isArray(assignToOnUnlock)) updateData.assignToOnUnlock = assignToOnUnlock;
+    if (estimatedHours !== undefined) updateData.estimatedHours = hasEstimate ? Number(estimatedHours) : null;
 
     await card.updateTask(taskId, updateData);
 
-    console.log('AFTER updateTask, BEFORE save:', {
-      updatedTask: card.tasks.id(taskId),
-      assignedToCount: card.tasks.id(taskId)?.assignedTo?.length
-    });
+    // Completing or reopening the task can unlock or lock the tasks waiting on it
+    const completionChanged = completed !== undefined && !!completed !== !!wasCompleted;
+    const lockChanges = [
+      ...(dependencies ? await taskDependencyService.refreshTask(card, taskId) : []),
+      ...(completionChanged ? await taskDependencyService.cascade(card, [taskId]) : [])
+    ];
+    const unlockedTasks = lockChanges.filter(change => change.state === 'unlocked');
 
     await card.save();
 
-    console.log('AFTER save:', {
-      savedTask: card.tasks.id(taskId),
-      assignedToCount: card.tasks.id(taskId)?.assignedTo?.length
-    });
-
     // Check if workflow progressed (set by card.updateTask method)
     const workflowProgressed = card._workflowProgressed;
-    const unlockedTasks = card._unlockedTasks || [];
 
     // Send Slack notifications for task assignments
-    if (assignedTo !== undefined && assignedTo && assignedTo.length > 0) {
+    if (updateData.assignedTo && updateData.assignedTo.length > 0) {
       const list = await List.findById(card.listId).populate('boardId');
       const board = list ? list.boardId : null;
       const assignedByUser = await User.findById(req.user.id).select('firstName lastName');
 
       if (board && assignedByUser) {
-        const userIds = Array.isArray(assignedTo) ? assignedTo : [assignedTo];
+        const userIds = updateData.assignedTo;
+        const assignedTask = card.tasks.id(taskId);
+
+        // Only people who were not already on the task get an in-app notification
+        Notification.notifyMany(
+          userIds.filter(id => id && !previousAssignees.includes(id.toString())),
+          {
+            type: 'task_assigned',
+            actor: req.user.id,
+            title: `You were assigned to "${assignedTask.title}"`,
+            message: `On "${card.title}" in ${board.name}`,
+            board: board._id,
+            card: card._id,
+            taskId: assignedTask._id
+          }
+        );
 
         for (const userId of userIds) {
           if (userId) {
@@ -1172,16 +2032,9 @@ router.put('/:cardId/tasks/:taskId', protect, getCardWithAccess, async (req, res
     // Get the updated task
     const updatedTask = card.tasks.id(taskId);
 
-    console.log('AFTER populate - RETURNING TO CLIENT:', {
-      taskId: updatedTask._id,
-      title: updatedTask.title,
-      assignedTo: updatedTask.assignedTo,
-      assignedToCount: updatedTask.assignedTo?.length
-    });
-
     // Log activity for task completion
     const list = await List.findById(card.listId).select('boardId');
-    if (completed !== undefined && completed !== task.completed) {
+    if (completionChanged) {
       await Activity.logActivity({
         type: completed ? 'card_task_completed' : 'card_updated',
         user: req.user.id,
@@ -1198,65 +2051,13 @@ router.put('/:cardId/tasks/:taskId', protect, getCardWithAccess, async (req, res
       });
     }
 
-    // NEW: Log and notify for unlocked tasks
-    if (unlockedTasks.length > 0) {
-      const board = await Board.findById(list.boardId);
-      const unlockedByUser = await User.findById(req.user.id).select('firstName lastName');
-
-      for (const unlockedTask of unlockedTasks) {
-        await Activity.logActivity({
-          type: 'card_task_unlocked',
-          user: req.user.id,
-          project: card.project || null,
-          board: list ? list.boardId : null,
-          list: card.listId,
-          card: card._id,
-          metadata: {
-            entityName: card.title,
-            entityId: card._id,
-            taskTitle: unlockedTask.title,
-            taskId: unlockedTask.taskId,
-            unlockedBy: task.title
-          }
-        });
-
-        // Send Slack notifications for unlocked tasks
-        if (board && unlockedByUser && unlockedTask.assignedTo && unlockedTask.assignedTo.length > 0) {
-          const assignedUserIds = unlockedTask.assignedTo;
-          const assignedUsers = await User.find({ _id: { $in: assignedUserIds } }).select('firstName lastName email');
-
-          if (assignedUsers.length > 0) {
-            const assignedUserNames = assignedUsers.map(u => `${u.firstName} ${u.lastName}`);
-            const assignedUserEmails = assignedUsers.map(u => u.email);
-            const unlockedBy = `${unlockedByUser.firstName} ${unlockedByUser.lastName}`;
-
-            // Send Slack notification asynchronously
-            slackService.notifyBoardTaskUnlocked({
-              taskTitle: unlockedTask.title,
-              assignedTo: assignedUserNames,
-              boardName: board.name,
-              cardName: card.title,
-              unlockedBy: unlockedBy,
-              assignedToEmails: assignedUserEmails
-            }).catch(error => {
-              console.error('❌ Failed to send board task unlocked notification:', error);
-            });
-          }
-        }
-      }
-
-      // Emit socket event for unlocked tasks
-      if (req.io) {
-        req.io.to(list.boardId.toString()).emit('card:tasks:unlocked', {
-          cardId: card._id,
-          unlockedTasks: unlockedTasks,
-          completedTask: {
-            id: task._id,
-            title: task.title
-          }
-        });
-      }
-    }
+    // Log and notify for tasks this change locked or unlocked
+    await reportTaskLockChanges(req, lockChanges, {
+      boardId: list ? list.boardId : null,
+      reason: completionChanged
+        ? `"${task.title}" was ${completed ? 'completed' : 'reopened'}`
+        : `The dependencies of "${task.title}" changed`
+    });
 
     // Log workflow progression if it happened
     if (workflowProgressed) {
@@ -1316,6 +2117,13 @@ router.put('/:cardId/tasks/:taskId', protect, getCardWithAccess, async (req, res
       successMessage = 'Task completed successfully!';
     }
 
+    // The change may satisfy the list's auto-move rule
+    await automationService.applyListAutomationRules(card._id, req.user.id);
+
+    if (hadOpenTasks && card.tasks.every(item => item.completed)) {
+      boardAutomationService.handleEvent('all_tasks_completed', card._id, { userId: req.user.id });
+    }
+
     res.status(200).json({
       success: true,
       data: updatedTask,
@@ -1337,20 +2145,11 @@ router.put('/:cardId/tasks/:taskId', protect, getCardWithAccess, async (req, res
  * @desc    Delete task from card
  * @access  Private
  */
-router.delete('/:cardId/tasks/:taskId', protect, getCardWithAccess, async (req, res) => {
+router.delete('/:cardId/tasks/:taskId', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
   try {
     const card = req.card;
     const { taskId } = req.params;
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to delete tasks from this card'
-      });
-    }
-
     // Find task
     const task = card.tasks.id(taskId);
     if (!task) {
@@ -1362,10 +2161,16 @@ router.delete('/:cardId/tasks/:taskId', protect, getCardWithAccess, async (req,
 
     const taskTitle = task.title;
     card.deleteTask(taskId);
+    const lockChanges = await taskDependencyService.removeTasks(card, [taskId]);
     await card.save();
+    await timeTrackingService.clearTaskTimers(card._id, taskId);
 
     // Log activity for task deletion
     const list = await List.findById(card.listId).select('boardId');
+    await reportTaskLockChanges(req, lockChanges, {
+      boardId: list ? list.boardId : null,
+      reason: `"${taskTitle}" was deleted`
+    });
     await Activity.logActivity({
       type: 'card_task_deleted',
       user: req.user.id,
@@ -1406,26 +2211,39 @@ router.delete('/:cardId/tasks/:taskId', protect, getCardWithAccess, async (req,
   }
 });
 
+/**
+ * @route   GET /api/cards/:cardId/tasks/dependencies
+ * @desc    Get tasks on the board's other cards, for cross-card dependencies and the dependency graph
+ * @access  Private
+ */
+router.get('/:cardId/tasks/dependencies', protect, getCardWithAccess, staffOnly, async (req, res) => {
+  try {
+    const boardTasks = await taskDependencyService.getBoardTasks(req.card);
+
+    res.status(200).json({
+      success: true,
+      data: boardTasks
+    });
+  } catch (error) {
+    console.error('Get task dependencies error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching task dependencies'
+    });
+  }
+});
+
 /**
  * @route   PUT /api/cards/:cardId/tasks/:taskId/reorder
  * @desc    Reorder task position within card
  * @access  Private
  */
-router.put('/:cardId/tasks/:taskId/reorder', protect, getCardWithAccess, async (req, res) => {
+router.put('/:cardId/tasks/:taskId/reorder', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
   try {
     const card = req.card;
     const { taskId } = req.params;
     const { newPosition } = req.body;
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to reorder tasks in this card'
-      });
-    }
-
     if (typeof newPosition !== 'number' || newPosition < 0) {
       return res.status(400).json({
         success: false,
@@ -1449,28 +2267,281 @@ router.put('/:cardId/tasks/:taskId/reorder', protect, getCardWithAccess, async (
   }
 });
 
-// ====== SUBTASK MANAGEMENT APIS ======
+// ====== TIME TRACKING APIS ======
+
+const TIME_ENTRY_ADMIN_ROLES = ['superadmin', 'admin'];
+
+const APPROVED_WEEK_MESSAGE = 'This week\'s timesheet has been approved; ask HR to send it back before changing it';
+
+// Check the hours, date and task of a time entry body; returns { error } or the parsed values
+const parseTimeEntryInput = (card, { hours, date, taskId }, { partial = false } = {}) => {
+  const values = {};
+
+  if (hours !== undefined || !partial) {
+    const parsedHours = Number(hours);
+    if (!hours || isNaN(parsedHours) || parsedHours < 1 / 60 || parsedHours > 24) {
+      return { error: 'Hours must be between one minute and 24 hours' };
+    }
+    values.hours = Math.round(parsedHours * 100) / 100;
+  }
+
+  if (date !== undefined) {
+    const parsedDate = new Date(date);
+    if (!date || isNaN(parsedDate.getTime())) {
+      return { error: 'Invalid date' };
+    }
+    values.date = parsedDate;
+  }
+
+  if (taskId !== undefined) {
+    if (taskId && !card.tasks.id(taskId)) {
+      return { error: 'Task not found on this card' };
+    }
+    values.taskId = taskId || null;
+  }
+
+  return values;
+};
 
 /**
- * @route   POST /api/cards/:cardId/tasks/:taskId/subtasks
- * @desc    Add subtask to task
+ * @route   GET /api/cards/:cardId/time
+ * @desc    Get a card's time entries, estimate vs actual and running timers
+ * @access  Private
+ */
+router.get('/:cardId/time', protect, getCardWithAccess, staffOnly, async (req, res) => {
+  try {
+    const timeData = await timeTrackingService.getCardTimeData(req.card);
+
+    res.status(200).json({
+      success: true,
+      data: timeData
+    });
+  } catch (error) {
+    console.error('Get card time error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching time entries'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/cards/:cardId/time
+ * @desc    Log time on a card or one of its tasks by hand
  * @access  Private
  */
-router.post('/:cardId/tasks/:taskId/subtasks', protect, getCardWithAccess, async (req, res) => {
+router.post('/:cardId/time', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
   try {
     const card = req.card;
-    const { taskId } = req.params;
-    const { title } = req.body;
+    const { description = '' } = req.body;
+
+    const input = parseTimeEntryInput(card, req.body);
+    if (input.error) {
+      return res.status(400).json({
+        success: false,
+        message: input.error
+      });
+    }
+
+    if (await timeTrackingService.findLockingApproval(req.user.id, input.date || new Date())) {
+      return res.status(403).json({
+        success: false,
+        message: APPROVED_WEEK_MESSAGE
+      });
+    }
+
+    card.addTimeEntry(req.user.id, input.hours, description.trim(), {
+      date: input.date,
+      taskId: input.taskId
+    });
+    await card.save();
+
+    const timeData = await timeTrackingService.getCardTimeData(card);
+
+    res.status(201).json({
+      success: true,
+      data: timeData,
+      message: 'Time logged successfully'
+    });
+  } catch (error) {
+    console.error('Add time entry error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error logging time'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/cards/:cardId/time/:entryId
+ * @desc    Edit a time entry (your own, or anyone's for admins)
+ * @access  Private
+ */
+router.put('/:cardId/time/:entryId', protect, getCardWithAccess, async (req, res) => {
+  try {
+    const card = req.card;
+    const { entryId } = req.params;
+    const { description } = req.body;
+
+    const entry = card.timeTracking && card.timeTracking.entries.id(entryId);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: 'Time entry not found'
+      });
+    }
+
+    if (entry.user.toString() !== req.user.id && !TIME_ENTRY_ADMIN_ROLES.includes(req.user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only edit your own time entries'
+      });
+    }
+
+    const input = parseTimeEntryInput(card, req.body, { partial: true });
+    if (input.error) {
+      return res.status(400).json({
+        success: false,
+        message: input.error
+      });
+    }
+
+    // Neither the entry's current week nor the one it moves to may be approved
+    const lockedBy = await timeTrackingService.findLockingApproval(entry.user, entry.date) ||
+      (input.date && await timeTrackingService.findLockingApproval(entry.user, input.date));
+    if (lockedBy) {
+      return res.status(403).json({
+        success: false,
+        message: APPROVED_WEEK_MESSAGE
+      });
+    }
+
+    card.updateTimeEntry(entryId, {
+      ...input,
+      description: description !== undefined ? String(description).trim() : undefined
+    });
+    await card.save();
+
+    const timeData = await timeTrackingService.getCardTimeData(card);
+
+    res.status(200).json({
+      success: true,
+      data: timeData,
+      message: 'Time entry updated successfully'
+    });
+  } catch (error) {
+    console.error('Update time entry error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating time entry'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/cards/:cardId/time/:entryId
+ * @desc    Delete a time entry (your own, or anyone's for admins)
+ * @access  Private
+ */
+router.delete('/:cardId/time/:entryId', protect, getCardWithAccess, async (req, res) => {
+  try {
+    const card = req.card;
+    const { entryId } = req.params;
+
+    const entry = card.timeTracking && card.timeTracking.entries.id(entryId);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: 'Time entry not found'
+      });
+    }
+
+    if (entry.user.toString() !== req.user.id && !TIME_ENTRY_ADMIN_ROLES.includes(req.user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only delete your own time entries'
+      });
+    }
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
+    if (await timeTrackingService.findLockingApproval(entry.user, entry.date)) {
       return res.status(403).json({
         success: false,
-        message: 'You do not have permission to add subtasks to this card'
+        message: APPROVED_WEEK_MESSAGE
+      });
+    }
+
+    card.removeTimeEntry(entryId);
+    await card.save();
+
+    const timeData = await timeTrackingService.getCardTimeData(card);
+
+    res.status(200).json({
+      success: true,
+      data: timeData,
+      message: 'Time entry deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete time entry error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting time entry'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/cards/:cardId/timer
+ * @desc    Start a timer on the card or one of its tasks, stopping and logging any timer already running
+ * @access  Private
+ */
+router.post('/:cardId/timer', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
+  try {
+    const card = req.card;
+    const { taskId = null, description = '' } = req.body;
+
+    if (taskId && !card.tasks.id(taskId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Task not found'
       });
     }
 
+    const { timer, stopped } = await timeTrackingService.startTimer(req.user.id, card, {
+      taskId,
+      description: String(description).trim()
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        timer,
+        stoppedEntry: stopped ? stopped.entry : null,
+        stoppedNotice: stopped ? stopped.notice : null
+      },
+      message: 'Timer started'
+    });
+  } catch (error) {
+    console.error('Start timer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error starting timer'
+    });
+  }
+});
+
+// ====== SUBTASK MANAGEMENT APIS ======
+
+/**
+ * @route   POST /api/cards/:cardId/tasks/:taskId/subtasks
+ * @desc    Add subtask to task
+ * @access  Private
+ */
+router.post('/:cardId/tasks/:taskId/subtasks', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
+  try {
+    const card = req.card;
+    const { taskId } = req.params;
+    const { title } = req.body;
+
     // Validation
     if (!title || !title.trim()) {
       return res.status(400).json({
@@ -1495,17 +2566,6 @@ router.post('/:cardId/tasks/:taskId/subtasks', protect, getCardWithAccess, async
     const addedSubtask = await card.addSubtask(taskId, subtaskData);
     await card.save();
 
-    console.log('Added subtask debug:', {
-      subtaskData,
-      addedSubtask: {
-        _id: addedSubtask._id,
-        title: addedSubtask.title,
-        completed: addedSubtask.completed
-      },
-      cardId: card._id,
-      taskId: taskId
-    });
-
     // Log activity for subtask creation
     const list = await List.findById(card.listId).select('boardId');
     await Activity.logActivity({
@@ -1544,21 +2604,12 @@ router.post('/:cardId/tasks/:taskId/subtasks', protect, getCardWithAccess, async
  * @desc    Update subtask in task
  * @access  Private
  */
-router.put('/:cardId/tasks/:taskId/subtasks/:subtaskId', protect, getCardWithAccess, async (req, res) => {
+router.put('/:cardId/tasks/:taskId/subtasks/:subtaskId', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
   try {
     const card = req.card;
     const { taskId, subtaskId } = req.params;
     const { title, completed } = req.body;
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to update subtasks in this card'
-      });
-    }
-
     // Find task
     const task = card.tasks.id(taskId);
     if (!task) {
@@ -1627,20 +2678,11 @@ router.put('/:cardId/tasks/:taskId/subtasks/:subtaskId', protect, getCardWithAcc
  * @desc    Delete subtask from task
  * @access  Private
  */
-router.delete('/:cardId/tasks/:taskId/subtasks/:subtaskId', protect, getCardWithAccess, async (req, res) => {
+router.delete('/:cardId/tasks/:taskId/subtasks/:subtaskId', protect, getCardWithAccess, requireBoardPermission('edit_cards'), async (req, res) => {
   try {
     const card = req.card;
     const { taskId, subtaskId } = req.params;
 
-    // Check permission
-    const hasPermission = await card.hasPermission(req.user.id, 'write', req.user.role);
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to delete subtasks from this card'
-      });
-    }
-
     // Find task
     const task = card.tasks.id(taskId);
     if (!task) {
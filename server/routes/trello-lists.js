@@ -4,7 +4,11 @@ const router = express.Router();
 const List = require('../models/List');
 const Card = require('../models/Card');
 const Board = require('../models/Board');
+const Activity = require('../models/Activity');
 const { protect } = require('../middleware/auth');
+const { requireBoardPermission } = require('../middleware/boardPermissions');
+const { getAutoMoveTarget, validateAutoMove } = require('../utils/listAutoMove');
+const archiveService = require('../services/archiveService');
 
 // Middleware to get board and check access
 const getBoardWithAccess = async (req, res, next) => {
@@ -36,6 +40,36 @@ const getBoardWithAccess = async (req, res, next) => {
   }
 };
 
+// Middleware to get list and check access
+const getListWithAccess = async (req, res, next) => {
+  try {
+    const list = await List.findById(req.params.listId);
+
+    if (!list) {
+      return res.status(404).json({
+        success: false,
+        message: 'List not found'
+      });
+    }
+
+    const hasAccess = await list.hasAccess(req.user.id, req.user.role);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied to this list'
+      });
+    }
+
+    req.list = list;
+    next();
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Error checking list access'
+    });
+  }
+};
+
 /**
  * @route   GET /api/boards/:boardId/lists
  * @desc    Get all lists in a board
@@ -68,19 +102,10 @@ router.get('/:boardId/lists', protect, getBoardWithAccess, async (req, res) => {
  * @desc    Create new list in board
  * @access  Private
  */
-router.post('/:boardId/lists', protect, getBoardWithAccess, async (req, res) => {
+router.post('/:boardId/lists', protect, getBoardWithAccess, requireBoardPermission('manage_lists'), async (req, res) => {
   try {
     const { name, description, color, position } = req.body;
 
-    // Check permission
-    const hasPermission = await req.board.hasPermission(req.user.id, 'write');
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to create lists in this board'
-      });
-    }
-
     // Validation
     if (!name || !name.trim()) {
       return res.status(400).json({
@@ -131,37 +156,23 @@ router.post('/:boardId/lists', protect, getBoardWithAccess, async (req, res) =>
  * @desc    Update list
  * @access  Private
  */
-router.put('/:listId', protect, async (req, res) => {
+router.put('/:listId', protect, getListWithAccess, requireBoardPermission('manage_lists'), async (req, res) => {
   try {
-    const list = await List.findById(req.params.listId);
-
-    if (!list) {
-      return res.status(404).json({
-        success: false,
-        message: 'List not found'
-      });
-    }
+    const list = req.list;
 
-    // Check access through board
-    const hasAccess = await list.hasAccess(req.user.id, req.user.role);
-    if (!hasAccess) {
-      return res.status(403).json({
-        success: false,
-        message: 'Access denied to this list'
-      });
-    }
+    const { name, description, color, settings } = req.body;
 
-    // Check permission
-    const hasPermission = await list.hasPermission(req.user.id, 'write');
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to update this list'
-      });
+    if (settings?.autoMove) {
+      const boardLists = await List.find({ boardId: list.boardId, isArchived: false }).select('_id');
+      const autoMoveError = validateAutoMove(settings.autoMove, list._id, boardLists.map(item => item._id.toString()));
+      if (autoMoveError) {
+        return res.status(400).json({
+          success: false,
+          message: autoMoveError
+        });
+      }
     }
 
-    const { name, description, color, settings } = req.body;
-
     // Update fields
     if (name && name.trim()) list.name = name.trim();
     if (description !== undefined) list.description = description;
@@ -185,29 +196,67 @@ router.put('/:listId', protect, async (req, res) => {
 });
 
 /**
- * @route   DELETE /api/lists/:listId
- * @desc    Delete list
+ * @route   POST /api/lists/:listId/auto-move/preview
+ * @desc    Preview which cards in the list an auto-move rule would move right now
  * @access  Private
  */
-router.delete('/:listId', protect, async (req, res) => {
+router.post('/:listId/auto-move/preview', protect, getListWithAccess, requireBoardPermission('manage_lists'), async (req, res) => {
   try {
-    const list = await List.findById(req.params.listId);
+    const list = req.list;
 
-    if (!list) {
-      return res.status(404).json({
+    // Preview the rule as if it were enabled, so it can be checked before switching it on
+    const autoMove = { ...(req.body.autoMove || {}), enabled: true };
+    const boardLists = await List.find({ boardId: list.boardId, isArchived: false }).select('name');
+    const autoMoveError = validateAutoMove(autoMove, list._id, boardLists.map(item => item._id.toString()));
+    if (autoMoveError) {
+      return res.status(400).json({
         success: false,
-        message: 'List not found'
+        message: autoMoveError
       });
     }
 
-    // Check permission
-    const hasPermission = await list.hasPermission(req.user.id, 'delete');
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to delete this list'
-      });
-    }
+    const draftList = { _id: list._id, boardId: list.boardId, settings: { autoMove } };
+    const listNames = new Map(boardLists.map(item => [item._id.toString(), item.name]));
+    const cards = await Card.find({ listId: list._id, isArchived: false })
+      .select('title dueDate status labels assignedTo members tasks checklist position')
+      .sort({ position: 1 });
+
+    const now = new Date();
+    const matches = cards.flatMap(card => {
+      const targetListId = getAutoMoveTarget(card, draftList, now);
+      return targetListId ? [{
+        _id: card._id,
+        title: card.title,
+        dueDate: card.dueDate,
+        targetListId,
+        targetListName: listNames.get(targetListId.toString()) || ''
+      }] : [];
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        cards: matches,
+        totalCards: cards.length
+      }
+    });
+  } catch (error) {
+    console.error('Preview auto-move error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error previewing auto-move rule'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/lists/:listId
+ * @desc    Delete list
+ * @access  Private
+ */
+router.delete('/:listId', protect, getListWithAccess, requireBoardPermission('delete_lists'), async (req, res) => {
+  try {
+    const list = req.list;
 
     // Delete list (pre-remove middleware will handle cards cleanup)
     await list.deleteOne();
@@ -226,33 +275,80 @@ router.delete('/:listId', protect, async (req, res) => {
 });
 
 /**
- * @route   PUT /api/lists/:listId/archive
- * @desc    Archive/Unarchive list
+ * @route   DELETE /api/lists/:listId/permanent
+ * @desc    Permanently delete an archived list with its cards and their stored files
  * @access  Private
  */
-router.put('/:listId/archive', protect, async (req, res) => {
+router.delete('/:listId/permanent', protect, getListWithAccess, requireBoardPermission('delete_lists'), async (req, res) => {
   try {
-    const list = await List.findById(req.params.listId);
+    const list = req.list;
 
-    if (!list) {
+    if (!list.isArchived) {
       return res.status(404).json({
         success: false,
-        message: 'List not found'
+        message: 'Archived list not found'
       });
     }
 
-    // Check permission
-    const hasPermission = await list.hasPermission(req.user.id, 'write');
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to archive this list'
-      });
-    }
+    await Activity.logActivity({
+      type: 'list_deleted',
+      user: req.user.id,
+      project: list.project || null,
+      board: list.boardId,
+      list: list._id,
+      metadata: {
+        entityName: list.name,
+        entityId: list._id
+      }
+    });
+
+    const cardCount = await archiveService.purgeList(list);
+
+    res.status(200).json({
+      success: true,
+      data: { cardCount },
+      message: 'List permanently deleted'
+    });
+  } catch (error) {
+    console.error('Permanently delete list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting list'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/lists/:listId/archive
+ * @desc    Archive/Unarchive list
+ * @access  Private
+ */
+router.put('/:listId/archive', protect, getListWithAccess, requireBoardPermission('manage_lists'), async (req, res) => {
+  try {
+    const list = req.list;
 
     list.isArchived = !list.isArchived;
+    if (list.isArchived) {
+      list.archivedAt = new Date();
+      list.archivedBy = req.user.id;
+    } else {
+      list.archivedAt = undefined;
+      list.archivedBy = undefined;
+    }
     await list.save();
 
+    await Activity.logActivity({
+      type: list.isArchived ? 'list_archived' : 'list_restored',
+      user: req.user.id,
+      project: list.project || null,
+      board: list.boardId,
+      list: list._id,
+      metadata: {
+        entityName: list.name,
+        entityId: list._id
+      }
+    });
+
     // Emit socket event for real-time update
     const io = req.app.get('io');
     if (io) {
@@ -282,25 +378,9 @@ router.put('/:listId/archive', protect, async (req, res) => {
  * @desc    Reorder list position
  * @access  Private
  */
-router.put('/:listId/reorder', protect, async (req, res) => {
+router.put('/:listId/reorder', protect, getListWithAccess, requireBoardPermission('manage_lists'), async (req, res) => {
   try {
-    const list = await List.findById(req.params.listId);
-
-    if (!list) {
-      return res.status(404).json({
-        success: false,
-        message: 'List not found'
-      });
-    }
-
-    // Check permission
-    const hasPermission = await list.hasPermission(req.user.id, 'write');
-    if (!hasPermission) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to reorder this list'
-      });
-    }
+    const list = req.list;
 
     const { position, listOrder } = req.body;
 
@@ -345,36 +425,39 @@ router.put('/:listId/reorder', protect, async (req, res) => {
  * @desc    Move all cards from this list to another list
  * @access  Private
  */
-router.post('/:listId/move-cards', protect, async (req, res) => {
+router.post('/:listId/move-cards', protect, getListWithAccess, requireBoardPermission('move_cards'), async (req, res) => {
   try {
-    const list = await List.findById(req.params.listId);
+    const list = req.list;
 
-    if (!list) {
-      return res.status(404).json({
+    const { targetListId } = req.body;
+
+    if (!targetListId) {
+      return res.status(400).json({
         success: false,
-        message: 'List not found'
+        message: 'Target list ID is required'
       });
     }
 
-    // Check permission
-    const hasPermission = await list.hasPermission(req.user.id, 'write');
-    if (!hasPermission) {
-      return res.status(403).json({
+    const targetList = await List.findOne({ _id: targetListId, boardId: list.boardId, isArchived: false });
+    if (!targetList) {
+      return res.status(404).json({
         success: false,
-        message: 'You do not have permission to move cards from this list'
+        message: 'Target list not found'
       });
     }
 
-    const { targetListId } = req.body;
-
-    if (!targetListId) {
-      return res.status(400).json({
+    // A blocking WIP limit has to leave room for every card coming in
+    const incomingCount = await Card.countDocuments({ listId: list._id, isArchived: false });
+    if (!targetList._id.equals(list._id) && await targetList.isWipLimitBlocking(null, incomingCount)) {
+      return res.status(409).json({
         success: false,
-        message: 'Target list ID is required'
+        code: 'WIP_LIMIT_REACHED',
+        canOverride: false,
+        message: `"${targetList.name}" has a WIP limit of ${targetList.settings.wipLimit.limit} cards and cannot take ${incomingCount} more`
       });
     }
 
-    const movedCardsCount = await list.moveAllCardsTo(targetListId);
+    const movedCardsCount = await list.moveAllCardsTo(targetList._id);
 
     res.status(200).json({
       success: true,
@@ -47,7 +47,11 @@ const createUserValidation = [
     .optional()
     .trim()
     .isLength({ max: 100 })
-    .withMessage('Position cannot be more than 100 characters')
+    .withMessage('Position cannot be more than 100 characters'),
+  body('reportsTo')
+    .optional({ nullable: true, checkFalsy: true })
+    .isMongoId()
+    .withMessage('Please provide a valid manager')
 ];
 
 const updateUserValidation = [
@@ -87,6 +91,10 @@ const updateUserValidation = [
     .trim()
     .isLength({ max: 100 })
     .withMessage('Position cannot be more than 100 characters'),
+  body('reportsTo')
+    .optional({ nullable: true, checkFalsy: true })
+    .isMongoId()
+    .withMessage('Please provide a valid manager'),
   body('isActive')
     .optional()
     .isBoolean()
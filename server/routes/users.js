@@ -12,7 +12,7 @@ router.get('/', protect, async (req, res) => {
   try {
     // Only return basic user info needed for member assignment
     const users = await User.find({ isActive: true })
-      .select('firstName lastName email avatar role')
+      .select('firstName lastName email avatar role department position')
       .sort({ firstName: 1, lastName: 1 });
 
     res.status(200).json({
@@ -63,7 +63,7 @@ router.get('/search', protect, async (req, res) => {
         }
       ]
     })
-    .select('firstName lastName email avatar role')
+    .select('firstName lastName email avatar role department position')
     .sort({ firstName: 1, lastName: 1 })
     .limit(50); // Limit results to prevent too much data
 
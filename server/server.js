@@ -27,6 +27,8 @@ const connectDB = require('./config/database');
 const authRoutes = require('./routes/auth');
 const userManagementRoutes = require('./routes/userManagement');
 const usersRoutes = require('./routes/users');
+const teamRoutes = require('./routes/teams');
+const organizationRoutes = require('./routes/organization');
 const profileRoutes = require('./routes/profile');
 const passwordResetRoutes = require('./routes/passwordReset');
 const projectRoutes = require('./routes/projects');
@@ -40,6 +42,9 @@ const trelloCardRoutes = require('./routes/trello-cards');
 const activityRoutes = require('./routes/activities');
 const automationRoutes = require('./routes/automation');
 const notificationRoutes = require('./routes/notifications');
+const dashboardRoutes = require('./routes/dashboard');
+const searchRoutes = require('./routes/search');
+const timeTrackingRoutes = require('./routes/timeTracking');
 const testEmailRoutes = require('./routes/test-email');
 // File and folder management routes
 const folderRoutes = require('./routes/folders');
@@ -237,6 +242,8 @@ app.get('/api/health', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/user-management', userManagementRoutes);
 app.use('/api/users', usersRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/organization', organizationRoutes);
 app.use('/api/profile', profileRoutes);
 app.use('/api/password-reset', passwordResetRoutes);
 
@@ -254,6 +261,9 @@ app.use('/api/trello-cards', trelloCardRoutes);
 app.use('/api/activities', activityRoutes);
 app.use('/api/automation', automationRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/time-tracking', timeTrackingRoutes);
 app.use('/api/test', testEmailRoutes);
 
 // File and folder management routes
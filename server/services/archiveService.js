@@ -0,0 +1,136 @@
+const Card = require('../models/Card');
+const List = require('../models/List');
+const { deleteFromR2 } = require('../config/cloudflareR2');
+const { deleteFile: deleteFromCloudinary } = require('../config/cloudinary');
+const taskDependencyService = require('./taskDependencyService');
+const timeTrackingService = require('./timeTrackingService');
+
+const ARCHIVED_BY_FIELDS = 'firstName lastName avatar';
+
+// Cloudinary delivery URLs look like .../upload/[transformations/][v123/]<public id>.<ext>
+const CLOUDINARY_PUBLIC_ID = /res\.cloudinary\.com\/[^/]+\/\w+\/upload\/(?:[^/]*,[^/]*\/)*(?:v\d+\/)?(.+?)(?:\.\w+)?$/;
+
+/**
+ * Archived cards and lists of a board: listing them for the archive panel,
+ * and permanently deleting them together with their stored files.
+ */
+class ArchiveService {
+  // A card's board, also for cards whose list has since been deleted
+  async getCardBoardId(card) {
+    const list = await List.findById(card.listId).select('boardId');
+    return list ? list.boardId : card.boardId;
+  }
+
+  getCloudinaryPublicId(url) {
+    const match = typeof url === 'string' ? url.match(CLOUDINARY_PUBLIC_ID) : null;
+    return match ? decodeURIComponent(match[1]) : null;
+  }
+
+  /**
+   * Archived cards and lists on a board, newest first. Cards remember their
+   * board when archived, so ones whose list was deleted are found as well.
+   */
+  async getArchivedItems(board) {
+    const lists = await List.find({ boardId: board._id }).select('name color isArchived archivedAt archivedBy updatedAt');
+    const listsById = new Map(lists.map(list => [list._id.toString(), list]));
+
+    const cards = await Card.find({
+      isArchived: true,
+      $or: [{ listId: { $in: lists.map(list => list._id) } }, { boardId: board._id }]
+    })
+      .select('title description labels color coverImage listId archivedAt archivedBy attachments updatedAt')
+      .populate('archivedBy', ARCHIVED_BY_FIELDS)
+      .sort({ archivedAt: -1, updatedAt: -1 });
+
+    const archivedLists = lists.filter(list => list.isArchived);
+    await List.populate(archivedLists, { path: 'archivedBy', select: ARCHIVED_BY_FIELDS });
+    const cardCounts = await Card.aggregate([
+      { $match: { listId: { $in: archivedLists.map(list => list._id) }, isArchived: false } },
+      { $group: { _id: '$listId', count: { $sum: 1 } } }
+    ]);
+    const countsByList = new Map(cardCounts.map(item => [item._id.toString(), item.count]));
+
+    return {
+      cards: cards.map(card => {
+        const list = listsById.get(card.listId.toString());
+        return {
+          _id: card._id,
+          title: card.title,
+          description: card.description,
+          labels: card.labels,
+          color: card.color,
+          coverImage: card.coverImage,
+          attachmentCount: card.attachments.filter(attachment => !attachment.isDeleted).length,
+          archivedAt: card.archivedAt || null,
+          archivedBy: card.archivedBy || null,
+          list: list ? { _id: list._id, name: list.name, isArchived: list.isArchived } : null
+        };
+      }),
+      lists: archivedLists
+        .map(list => ({
+          _id: list._id,
+          name: list.name,
+          color: list.color,
+          cardCount: countsByList.get(list._id.toString()) || 0,
+          archivedAt: list.archivedAt || null,
+          archivedBy: list.archivedBy || null
+        }))
+        .sort((a, b) => (b.archivedAt ? b.archivedAt.getTime() : 0) - (a.archivedAt ? a.archivedAt.getTime() : 0))
+    };
+  }
+
+  /**
+   * Remove a card's attachments from R2 and its cover image from Cloudinary.
+   * A file that fails to delete is logged and skipped so the card can still
+   * be removed.
+   */
+  async deleteCardFiles(card) {
+    for (const attachment of card.attachments || []) {
+      if (attachment.isDeleted) continue;
+      try {
+        await deleteFromR2(attachment.cloudflareKey || attachment.filename);
+      } catch (error) {
+        console.error(`Error deleting attachment ${attachment._id} of card ${card._id}:`, error);
+      }
+    }
+
+    const coverId = this.getCloudinaryPublicId(card.coverImage);
+    if (coverId) {
+      try {
+        await deleteFromCloudinary(coverId);
+      } catch (error) {
+        console.error(`Error deleting cover image of card ${card._id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Delete a card for good: its files, timers and the dependencies other
+   * tasks had on its tasks. Returns the task lock changes that caused.
+   */
+  async purgeCard(card) {
+    const lockChanges = card.tasks.length > 0
+      ? await taskDependencyService.removeTasks(card, card.tasks.map(task => task._id))
+      : [];
+
+    await this.deleteCardFiles(card);
+    await card.deleteOne();
+    await timeTrackingService.clearCardTimers(card._id);
+
+    return lockChanges;
+  }
+
+  // Delete an archived list with every card in it; returns how many cards went with it
+  async purgeList(list) {
+    const cards = await Card.find({ listId: list._id });
+
+    for (const card of cards) {
+      await this.purgeCard(card);
+    }
+    await list.deleteOne();
+
+    return cards.length;
+  }
+}
+
+module.exports = new ArchiveService();
@@ -3,6 +3,12 @@ const User = require('../models/User');
 const Card = require('../models/Card');
 const List = require('../models/List');
 const Project = require('../models/Project');
+const Notification = require('../models/Notification');
+const Activity = require('../models/Activity');
+const { sendDigestEmail } = require('../utils/emailService');
+const { shouldDeliver, isWithinQuietHours } = require('../utils/notificationPreferences');
+const { getAutoMoveTarget } = require('../utils/listAutoMove');
+const boardAutomationService = require('./boardAutomationService');
 const mongoose = require('mongoose');
 const cron = require('node-cron');
 
@@ -15,12 +21,25 @@ class AutomationService {
   setupCronJobs() {
     // Daily digest at 9 AM
     cron.schedule('0 9 * * *', () => {
-      this.sendDailyDigest();
+      this.sendDigest('daily');
     });
 
-    // Check for due date reminders every hour
+    // Weekly digest every Monday at 9 AM
+    cron.schedule('0 9 * * 1', () => {
+      this.sendDigest('weekly');
+    });
+
+    // Check for due date reminders and digests held back by quiet hours every hour
     cron.schedule('0 * * * *', () => {
+      this.sendPendingDigests();
       this.checkDueDateReminders();
+      this.notifyDueSoonItems();
+      boardAutomationService.runDueDateTriggers();
+    });
+
+    // Apply list auto-move rules every 15 minutes
+    cron.schedule('*/15 * * * *', () => {
+      this.runScheduledListAutomation();
     });
 
     // Weekly project summary every Monday at 10 AM
@@ -201,7 +220,7 @@ class AutomationService {
         assignedTo: { $exists: true, $ne: [] }
       })
         .populate('project', 'title')
-        .populate('assignedTo', 'firstName lastName email')
+        .populate('assignedTo', 'firstName lastName email notificationPreferences')
         .populate('listId', 'name'); // Fixed: listId instead of list, and name instead of title
 
       for (const task of dueTasks) {
@@ -217,6 +236,7 @@ class AutomationService {
         if (daysUntilDue <= 0 || daysUntilDue === 1 || daysUntilDue === 3) {
           for (const assignee of task.assignedTo) {
             if (assignee && assignee.email && assignee.firstName && assignee.lastName) {
+              if (!shouldDeliver(assignee, 'due_soon', 'email')) continue;
               // await emailService.sendDueDateReminderNotification(
               //   assignee.email,
               //   `${assignee.firstName} ${assignee.lastName}`,
@@ -236,6 +256,67 @@ class AutomationService {
     }
   }
 
+  // In-app "due soon" notifications for cards and tasks due within the next 24 hours.
+  // Each recipient is told once per card or task.
+  async notifyDueSoonItems() {
+    try {
+      const now = new Date();
+      const windowEnd = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+      const isDueSoon = (date) => date && date > now && date <= windowEnd;
+
+      const cards = await Card.find({
+        isArchived: false,
+        $or: [
+          { dueDate: { $gt: now, $lte: windowEnd }, status: { $ne: 'completed' } },
+          { tasks: { $elemMatch: { completed: false, dueDate: { $gt: now, $lte: windowEnd } } } }
+        ]
+      }).populate('listId', 'boardId');
+
+      const notifyOnce = async (recipients, data) => {
+        for (const recipient of new Set(recipients.filter(Boolean).map(id => id.toString()))) {
+          const alreadyNotified = await Notification.exists({
+            recipient,
+            type: 'due_soon',
+            card: data.card,
+            taskId: data.taskId || null
+          });
+          if (!alreadyNotified) {
+            await Notification.notify({ ...data, recipient, type: 'due_soon' });
+          }
+        }
+      };
+
+      for (const card of cards) {
+        const board = card.listId ? card.listId.boardId : null;
+
+        if (card.status !== 'completed' && isDueSoon(card.dueDate)) {
+          await notifyOnce(
+            [...card.assignedTo, ...card.members.map(member => member.userId)],
+            {
+              title: `Card due soon: ${card.title}`,
+              message: `Due ${card.dueDate.toLocaleString()}`,
+              board,
+              card: card._id
+            }
+          );
+        }
+
+        for (const task of card.tasks) {
+          if (task.completed || !isDueSoon(task.dueDate)) continue;
+          await notifyOnce(task.assignedTo, {
+            title: `Task due soon: ${task.title}`,
+            message: `On "${card.title}", due ${task.dueDate.toLocaleString()}`,
+            board,
+            card: card._id,
+            taskId: task._id
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Error sending due soon notifications:', error);
+    }
+  }
+
   async sendDailyDigest() {
     try {
       console.log('Sending daily digest...');
@@ -367,48 +448,112 @@ class AutomationService {
       }
 
       // Check for list-specific automation rules
-      await this.processListAutomationRules(card, targetList);
+      await this.processListAutomationRules(card, targetList, { userId: movedById, trigger: 'card_moved' });
 
     } catch (error) {
       console.error('Error handling card movement automation:', error);
     }
   }
 
-  async processListAutomationRules(card, list) {
+  /**
+   * Apply the auto-move rule of the card's list. Moves are logged as
+   * activity and pushed to everyone viewing the board. Returns the list the
+   * card moved to, or null.
+   */
+  async processListAutomationRules(card, list, { userId, trigger = 'card_update' } = {}) {
     try {
-      if (!list.settings?.autoMove?.enabled || !list.settings.autoMove.conditions) {
-        return;
+      const targetListId = getAutoMoveTarget(card, list);
+      if (!targetListId) {
+        return null;
       }
 
-      for (const condition of list.settings.autoMove.conditions) {
-        let shouldMove = false;
+      const targetList = await List.findOne({ _id: targetListId, boardId: list.boardId, isArchived: false });
+      // Rules never push a card past a blocking WIP limit; the card moves once there is room
+      if (!targetList || await targetList.isWipLimitBlocking(card._id)) {
+        return null;
+      }
 
-        switch (condition.field) {
-          case 'dueDate':
-            if (condition.operator === 'overdue' && card.dueDate && card.dueDate < new Date()) {
-              shouldMove = true;
-            }
-            break;
-          case 'checklist':
-            if (condition.operator === 'completed' && card.checklistCompletion === 100) {
-              shouldMove = true;
-            }
-            break;
-          case 'assignee':
-            if (condition.operator === 'equals' && card.assignedTo.includes(condition.value)) {
-              shouldMove = true;
-            }
-            break;
+      await card.moveToList(targetList._id);
+      await card.save();
+
+      await Activity.logActivity({
+        type: 'card_auto_moved',
+        // Scheduled runs have no acting user, so the move is credited to the list's owner
+        user: userId || list.createdBy,
+        project: card.project || null,
+        board: list.boardId,
+        list: targetList._id,
+        card: card._id,
+        data: {
+          additionalInfo: { trigger, fromList: list._id, toList: targetList._id }
+        },
+        metadata: {
+          entityName: card.title,
+          entityId: card._id,
+          changes: [{ field: 'list', oldValue: list.name, newValue: targetList.name }]
         }
+      });
 
-        if (shouldMove && condition.targetList) {
-          await card.moveToList(condition.targetList);
-          await card.save();
-          console.log(`Card ${card.title} auto-moved to list ${condition.targetList} due to automation rule`);
+      try {
+        const app = require('../server');
+        const socketManager = app.get('socketManager');
+        if (socketManager) {
+          socketManager.notifyBoard(list.boardId.toString(), 'card:auto-moved', {
+            cardId: card._id,
+            fromListId: list._id,
+            toListId: targetList._id,
+            position: card.position
+          });
         }
+      } catch (socketError) {
+        console.error('Error emitting auto-move event:', socketError);
       }
+
+      boardAutomationService.handleEvent('card_moved_to_list', card._id, { listId: targetList._id, userId });
+
+      console.log(`Card ${card.title} auto-moved from ${list.name} to ${targetList.name} (${trigger})`);
+      return targetList;
     } catch (error) {
       console.error('Error processing list automation rules:', error);
+      return null;
+    }
+  }
+
+  // Re-check a card against its list's rule after it was changed
+  async applyListAutomationRules(cardId, userId) {
+    try {
+      const card = await Card.findById(cardId);
+      if (!card || card.isArchived) return null;
+
+      const list = await List.findById(card.listId);
+      if (!list || list.isArchived) return null;
+
+      return await this.processListAutomationRules(card, list, { userId, trigger: 'card_update' });
+    } catch (error) {
+      console.error('Error applying list automation rules:', error);
+      return null;
+    }
+  }
+
+  // Time-based conditions (overdue, due within) need a periodic sweep
+  async runScheduledListAutomation() {
+    try {
+      const lists = await List.find({ 'settings.autoMove.enabled': true, isArchived: false });
+      let moved = 0;
+
+      for (const list of lists) {
+        const cards = await Card.find({ listId: list._id, isArchived: false });
+        for (const card of cards) {
+          const targetList = await this.processListAutomationRules(card, list, { trigger: 'schedule' });
+          if (targetList) moved += 1;
+        }
+      }
+
+      if (moved > 0) {
+        console.log(`Scheduled list automation moved ${moved} card(s)`);
+      }
+    } catch (error) {
+      console.error('Error running scheduled list automation:', error);
     }
   }
 
@@ -730,112 +875,111 @@ class AutomationService {
     }
   }
 
-  async sendDailyDigest() {
+  // Summary digest email for users whose digest frequency matches. Covers the
+  // unread notifications from the period and open tasks due in the period ahead.
+  // Users in their quiet hours get theirs once the quiet hours end.
+  async sendDigest(frequency = 'daily') {
     try {
-      console.log('Sending daily digest emails...');
+      console.log(`Sending ${frequency} digest emails...`);
 
-      // Get all active users
+      // Users who never saved preferences get the daily digest
       const users = await User.find({
         isActive: true,
-        emailVerified: true
-      }).select('firstName lastName email');
+        isEmailVerified: true,
+        'notificationPreferences.digestFrequency': frequency === 'daily' ? { $in: ['daily', null] } : frequency
+      }).select('firstName lastName email notificationPreferences');
 
+      let sent = 0;
+      let deferred = 0;
       for (const user of users) {
         try {
-          // Get user's assigned tasks
-          const assignedTasks = await Card.find({
-            assignedTo: user._id,
-            status: { $nin: ['completed'] },
-            isArchived: false
-          })
-            .populate('project', 'title')
-            .select('title project dueDate');
-
-          // Get tasks due soon (next 7 days)
-          const now = new Date();
-          const weekFromNow = new Date(now);
-          weekFromNow.setDate(weekFromNow.getDate() + 7);
-
-          const dueTasks = assignedTasks.filter(task =>
-            task.dueDate && task.dueDate <= weekFromNow
-          );
-
-          // Get completed tasks from yesterday
-          const yesterday = new Date(now);
-          yesterday.setDate(yesterday.getDate() - 1);
-          yesterday.setHours(0, 0, 0, 0);
-          const todayStart = new Date(now);
-          todayStart.setHours(0, 0, 0, 0);
-
-          const completedTasks = await Card.find({
-            assignedTo: user._id,
-            status: 'completed',
-            updatedAt: { $gte: yesterday, $lt: todayStart }
-          })
-            .populate('project', 'title')
-            .select('title project');
-
-          // Get recent comments on user's tasks (last 24 hours)
-          const userTaskIds = assignedTasks.map(task => task._id);
-          const tasksWithComments = await Card.find({
-            _id: { $in: userTaskIds },
-            'comments.createdAt': { $gte: yesterday }
-          })
-            .populate('comments.author', 'firstName lastName')
-            .select('title comments');
-
-          const newComments = [];
-          tasksWithComments.forEach(task => {
-            task.comments.forEach(comment => {
-              if (comment.createdAt >= yesterday && comment.author._id.toString() !== user._id.toString()) {
-                newComments.push({
-                  task: task.title,
-                  author: `${comment.author.firstName} ${comment.author.lastName}`,
-                  text: comment.text
-                });
-              }
-            });
-          });
-
-          const digestData = {
-            assignedTasks: assignedTasks.map(task => ({
-              title: task.title,
-              project: task.project.title
-            })),
-            dueTasks: dueTasks.map(task => ({
-              title: task.title,
-              project: task.project.title,
-              dueDate: task.dueDate
-            })),
-            completedTasks: completedTasks.map(task => ({
-              title: task.title,
-              project: task.project.title
-            })),
-            newComments: newComments.slice(0, 5) // Limit to 5 most recent
-          };
-
-          // Only send digest if there's meaningful content
-          // if (assignedTasks.length > 0 || dueTasks.length > 0 || completedTasks.length > 0 || newComments.length > 0) {
-          //   await emailService.sendDigestNotification(
-          //     user.email,
-          //     `${user.firstName} ${user.lastName}`,
-          //     digestData
-          //   );
+          if (isWithinQuietHours(user)) {
+            await User.updateOne({ _id: user._id }, { $set: { pendingDigest: frequency } });
+            deferred++;
+            continue;
+          }
 
-          //   console.log(`Daily digest sent to ${user.email}`);
-          // }
+          if (await this.sendUserDigest(user, frequency)) sent++;
         } catch (userError) {
           console.error(`Error sending digest to ${user.email}:`, userError);
           // Continue with other users
         }
       }
 
-      console.log('Daily digest batch completed');
+      console.log(`${frequency} digest batch completed, ${sent} sent, ${deferred} deferred until quiet hours end`);
     } catch (error) {
-      console.error('Error sending daily digest:', error);
+      console.error(`Error sending ${frequency} digest:`, error);
+    }
+  }
+
+  // Digests held back during quiet hours, sent once the user's quiet hours are over
+  async sendPendingDigests() {
+    try {
+      const users = await User.find({
+        isActive: true,
+        isEmailVerified: true,
+        pendingDigest: { $ne: null }
+      }).select('firstName lastName email notificationPreferences pendingDigest');
+
+      for (const user of users) {
+        if (isWithinQuietHours(user)) continue;
+
+        try {
+          await this.sendUserDigest(user, user.pendingDigest);
+          await User.updateOne({ _id: user._id }, { $set: { pendingDigest: null } });
+        } catch (userError) {
+          console.error(`Error sending pending digest to ${user.email}:`, userError);
+        }
+      }
+    } catch (error) {
+      console.error('Error sending pending digests:', error);
     }
   }
 
+  // One user's digest; returns null when there was nothing to send
+  async sendUserDigest(user, frequency) {
+    const periodMs = (frequency === 'weekly' ? 7 : 1) * 24 * 60 * 60 * 1000;
+    const now = new Date();
+    const since = new Date(now.getTime() - periodMs);
+    const until = new Date(now.getTime() + periodMs);
+
+    const notifications = await Notification.find({
+      recipient: user._id,
+      inApp: { $ne: false },
+      isRead: false,
+      createdAt: { $gte: since }
+    })
+      .sort({ createdAt: -1 })
+      .limit(10)
+      .select('title');
+
+    const cards = await Card.find({
+      isArchived: false,
+      tasks: { $elemMatch: { assignedTo: user._id, completed: false, dueDate: { $lte: until } } }
+    }).select('title tasks');
+
+    const dueItems = [];
+    cards.forEach(card => {
+      card.tasks.forEach(task => {
+        const isAssigned = (task.assignedTo || []).some(id => id.toString() === user._id.toString());
+        if (isAssigned && !task.completed && task.dueDate && task.dueDate <= until) {
+          dueItems.push({ title: task.title, cardTitle: card.title, dueDate: task.dueDate });
+        }
+      });
+    });
+    dueItems.sort((a, b) => a.dueDate - b.dueDate);
+
+    // Only send digest if there's meaningful content
+    if (notifications.length === 0 && dueItems.length === 0) return null;
+
+    return sendDigestEmail({
+      user,
+      frequency,
+      notifications,
+      dueItems: dueItems.slice(0, 10)
+    });
+  }
+
   async sendWeeklyProjectSummary() {
     try {
       console.log('Sending weekly project summaries...');
@@ -0,0 +1,279 @@
+const Board = require('../models/Board');
+const BoardAutomation = require('../models/BoardAutomation');
+const Card = require('../models/Card');
+const List = require('../models/List');
+const slackService = require('../utils/slackService');
+const labelService = require('./labelService');
+
+// Actions can fire further triggers (a move fires "moved to list"); stop chains this deep
+const MAX_CHAIN_DEPTH = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Slack channel types an automation may post to (see utils/slackService)
+const SLACK_CHANNELS = ['boards', 'tasks', 'alerts', 'default'];
+
+const idKey = (value) => (value && value._id ? value._id.toString() : value ? value.toString() : '');
+
+/**
+ * Board automations: "when <trigger>, then <actions>" rules that board admins
+ * set up per board. Routes report what happened to a card and every enabled
+ * rule on that board whose trigger matches runs its actions in order.
+ */
+class BoardAutomationService {
+  // Does the rule's optional narrowing (a list, label or member) match the event?
+  matchesTrigger(automation, event) {
+    const trigger = automation.trigger;
+    switch (trigger.type) {
+      case 'card_moved_to_list':
+        return !trigger.listId || idKey(trigger.listId) === idKey(event.listId);
+      case 'label_added':
+        return !trigger.label || trigger.label.toLowerCase() === String(event.label || '').toLowerCase();
+      case 'member_assigned':
+        return !trigger.userId || idKey(trigger.userId) === idKey(event.memberId);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Report an event on a card. event: { listId, label, memberId } depending on
+   * the trigger, plus userId of whoever caused it.
+   */
+  async handleEvent(triggerType, cardId, event = {}, depth = 0) {
+    if (depth >= MAX_CHAIN_DEPTH) return;
+
+    try {
+      const card = await Card.findById(cardId);
+      if (!card || card.isArchived) return;
+
+      const list = await List.findById(card.listId).select('boardId');
+      if (!list) return;
+
+      const automations = await BoardAutomation.find({
+        boardId: list.boardId,
+        enabled: true,
+        'trigger.type': triggerType
+      }).select('-runs');
+
+      for (const automation of automations) {
+        if (this.matchesTrigger(automation, event)) {
+          await this.runAutomation(automation, card._id, depth);
+        }
+      }
+    } catch (error) {
+      console.error(`Error handling automation trigger ${triggerType}:`, error);
+    }
+  }
+
+  async runAutomation(automation, cardId, depth = 0) {
+    const results = [];
+    // Triggers fired by the actions, handled once this run is recorded
+    const followUps = [];
+    let card = null;
+
+    for (const action of automation.actions) {
+      try {
+        // Reload so each action sees the changes made by the previous one
+        card = await Card.findById(cardId);
+        if (!card || card.isArchived) {
+          results.push({ type: action.type, status: 'skipped', message: 'Card no longer available' });
+          continue;
+        }
+
+        const message = await this.runAction(automation, action, card, followUps);
+        results.push({ type: action.type, status: message ? 'success' : 'skipped', message: message || 'Nothing to change' });
+      } catch (error) {
+        console.error(`Automation "${automation.name}" action ${action.type} failed:`, error);
+        results.push({ type: action.type, status: 'failed', message: error.message });
+      }
+    }
+
+    const run = {
+      card: cardId,
+      cardTitle: card ? card.title : '',
+      status: results.some(result => result.status === 'failed') ? 'failed' : 'success',
+      actions: results,
+      ranAt: new Date()
+    };
+    await BoardAutomation.recordRun(automation._id, run);
+
+    this.notifyBoard(automation.boardId, { automationId: automation._id, cardId, status: run.status });
+
+    for (const followUp of followUps) {
+      await this.handleEvent(followUp.trigger, cardId, followUp.event, depth + 1);
+    }
+
+    return run;
+  }
+
+  // Apply one action; returns a short description, or null when nothing changed
+  async runAction(automation, action, card, followUps) {
+    switch (action.type) {
+      case 'move_card': {
+        if (!action.listId || idKey(action.listId) === idKey(card.listId)) return null;
+        const targetList = await List.findOne({ _id: action.listId, boardId: automation.boardId, isArchived: false });
+        if (!targetList) throw new Error('Target list not found on this board');
+        if (await targetList.isWipLimitBlocking(card._id)) throw new Error(`${targetList.name} has reached its WIP limit`);
+
+        await card.moveToList(targetList._id);
+        await card.save();
+        followUps.push({ trigger: 'card_moved_to_list', event: { listId: targetList._id } });
+        return `Moved to ${targetList.name}`;
+      }
+      case 'assign_member': {
+        if (!action.userId) throw new Error('No member chosen');
+        const board = await Board.findById(automation.boardId).select('createdBy members');
+        const isBoardMember = board && (idKey(board.createdBy) === idKey(action.userId) ||
+          board.members.some(member => idKey(member.userId) === idKey(action.userId)));
+        if (!isBoardMember) throw new Error('Member is no longer on this board');
+        if (card.members.some(member => idKey(member.userId) === idKey(action.userId))) return null;
+
+        await card.addMember(action.userId);
+        followUps.push({ trigger: 'member_assigned', event: { memberId: action.userId } });
+        return 'Member assigned';
+      }
+      case 'add_label': {
+        const name = action.label?.name?.trim();
+        if (!name) throw new Error('No label chosen');
+        if (card.labels.some(label => label.name.toLowerCase() === name.toLowerCase())) return null;
+
+        // Use the palette's color, adding the label to the palette if it is new
+        const board = await Board.findById(automation.boardId);
+        if (!board) throw new Error('Board not found');
+        const resolved = labelService.resolveCardLabels(board, [{ name, color: action.label.color }]);
+        if (resolved.error) throw new Error(resolved.error);
+        if (resolved.paletteChanged) {
+          await board.save();
+          labelService.notifyLabelsUpdated(board);
+        }
+
+        card.labels.push(resolved.labels[0]);
+        await card.save();
+        followUps.push({ trigger: 'label_added', event: { label: name } });
+        return `Label "${name}" added`;
+      }
+      case 'post_comment': {
+        if (!action.text) throw new Error('Comment text is empty');
+        // Comments are posted in the name of the automation's author
+        card.addComment(this.fillPlaceholders(action.text, card), automation.createdBy);
+        await card.save();
+        return 'Comment posted';
+      }
+      case 'notify_slack': {
+        const channel = SLACK_CHANNELS.includes(action.channel) ? action.channel : 'boards';
+        const text = action.text
+          ? this.fillPlaceholders(action.text, card)
+          : `Automation "${automation.name}" ran on card "${card.title}"`;
+        const result = await slackService.sendCustomNotification(channel, text);
+        if (!result) return null;
+        if (result.success === false) throw new Error(result.error || 'Slack notification failed');
+        return `Posted to Slack (${channel})`;
+      }
+      case 'set_due_date': {
+        const days = Number(action.dueInDays) || 0;
+        card.dueDate = new Date(Date.now() + days * DAY_MS);
+        await card.save();
+        return `Due date set to ${card.dueDate.toDateString()}`;
+      }
+      default:
+        throw new Error(`Unknown action ${action.type}`);
+    }
+  }
+
+  // {card} in comment and Slack text is replaced by the card title
+  fillPlaceholders(text, card) {
+    return text.replace(/\{card\}/g, card.title);
+  }
+
+  notifyBoard(boardId, data) {
+    try {
+      const app = require('../server');
+      const socketManager = app.get('socketManager');
+      if (socketManager) {
+        socketManager.notifyBoard(idKey(boardId), 'automation:ran', data);
+      }
+    } catch (error) {
+      console.error('Error emitting automation event:', error);
+    }
+  }
+
+  // Fire "due date passed" for cards whose due date passed since each rule last looked
+  async runDueDateTriggers() {
+    try {
+      const now = new Date();
+      const automations = await BoardAutomation.find({
+        enabled: true,
+        'trigger.type': 'due_date_passed'
+      }).select('-runs');
+
+      for (const automation of automations) {
+        const lists = await List.find({ boardId: automation.boardId, isArchived: false }).select('_id');
+        const cards = await Card.find({
+          listId: { $in: lists.map(list => list._id) },
+          isArchived: false,
+          status: { $ne: 'completed' },
+          dueDate: { $gt: automation.dueDateCheckedAt || automation.createdAt, $lte: now }
+        }).select('_id');
+
+        await BoardAutomation.updateOne({ _id: automation._id }, { $set: { dueDateCheckedAt: now } });
+
+        for (const card of cards) {
+          await this.runAutomation(automation, card._id);
+        }
+      }
+    } catch (error) {
+      console.error('Error running due date automations:', error);
+    }
+  }
+
+  /**
+   * Check an automation before it is saved. Returns an error message, or null.
+   * boardListIds and boardMemberIds are the lists and members of the board.
+   */
+  validateAutomation({ trigger, actions }, boardListIds, boardMemberIds) {
+    const triggerTypes = BoardAutomation.schema.path('trigger.type').enumValues;
+    if (!trigger || !triggerTypes.includes(trigger.type)) {
+      return 'Choose what triggers the automation';
+    }
+    if (trigger.listId && !boardListIds.includes(idKey(trigger.listId))) {
+      return 'Trigger list must be on this board';
+    }
+    if (trigger.userId && !boardMemberIds.includes(idKey(trigger.userId))) {
+      return 'Trigger member must be on this board';
+    }
+
+    if (!Array.isArray(actions) || actions.length === 0) {
+      return 'Add at least one action';
+    }
+
+    for (const action of actions) {
+      switch (action.type) {
+        case 'move_card':
+          if (!action.listId || !boardListIds.includes(idKey(action.listId))) return 'Choose a list on this board to move cards to';
+          break;
+        case 'assign_member':
+          if (!action.userId || !boardMemberIds.includes(idKey(action.userId))) return 'Choose a board member to assign';
+          break;
+        case 'add_label':
+          if (!action.label?.name?.trim()) return 'Choose a label to add';
+          break;
+        case 'post_comment':
+          if (!action.text?.trim()) return 'Comment text is required';
+          break;
+        case 'notify_slack':
+          if (action.channel && !SLACK_CHANNELS.includes(action.channel)) return 'Unknown Slack channel';
+          break;
+        case 'set_due_date':
+          if (!(Number(action.dueInDays) >= 0)) return 'Days until due must be zero or more';
+          break;
+        default:
+          return `Unknown action "${action.type}"`;
+      }
+    }
+
+    return null;
+  }
+}
+
+module.exports = new BoardAutomationService();
@@ -0,0 +1,119 @@
+const Notification = require('../models/Notification');
+
+const FEEDBACK_TYPES = ['approval', 'feedback'];
+
+// Card fields that stay with the team: money, internal categorisation, hours and
+// the task and workflow stage breakdown (clients see overall progress instead)
+const MASKED_CARD_FIELDS = [
+  'budget',
+  'category',
+  'customFields',
+  'timeTracking',
+  'estimatedHours',
+  'actualHours',
+  'totalTimeSpent',
+  'tasks',
+  'workflowStages',
+  'stageListMapping',
+  'sharedWithClients'
+];
+
+// Board settings clients have no use for
+const MASKED_BOARD_FIELDS = ['customFields', 'teams', 'settings', 'metadata', 'starredBy'];
+
+const idKey = (value) => (value && value._id ? value._id.toString() : value ? value.toString() : '');
+
+/**
+ * The client portal. Users with the `client` app role see only the cards that
+ * have been shared with them, with internal comments, internal files and
+ * budget fields left out, and can approve deliverables or leave feedback,
+ * which lands on the card as a flagged comment.
+ */
+class ClientPortalService {
+  isClient(user) {
+    return !!user && user.role === 'client';
+  }
+
+  isCommentVisible(comment) {
+    return !comment.isDeleted && (comment.visibility === 'client' || !!comment.clientFeedback);
+  }
+
+  isFileVisible(attachment) {
+    return !attachment.isDeleted && !!attachment.sharedWithClient;
+  }
+
+  /**
+   * A card as a client sees it, as a plain object.
+   */
+  toClientCard(card) {
+    const cardObj = typeof card.toObject === 'function' ? card.toObject() : { ...card };
+
+    MASKED_CARD_FIELDS.forEach(field => delete cardObj[field]);
+    cardObj.comments = (cardObj.comments || []).filter(comment => this.isCommentVisible(comment));
+    cardObj.attachments = (cardObj.attachments || []).filter(attachment => this.isFileVisible(attachment));
+
+    return cardObj;
+  }
+
+  /**
+   * A board object as a client sees it: only the lists holding cards shared
+   * with them, and only those cards.
+   */
+  toClientBoard(boardObj, userId) {
+    MASKED_BOARD_FIELDS.forEach(field => delete boardObj[field]);
+
+    boardObj.lists = (boardObj.lists || [])
+      .filter(list => !list.isArchived)
+      .map(list => ({
+        ...list,
+        cards: (list.cards || [])
+          .filter(card => card.isSharedWithClient(userId))
+          .map(card => this.toClientCard(card))
+      }))
+      .filter(list => list.cards.length > 0);
+
+    return boardObj;
+  }
+
+  /**
+   * Record a client's approval or feedback as a flagged comment and let the
+   * card's team know. Returns { comment } or { error }.
+   */
+  async addFeedback(card, user, { type, text }) {
+    if (!FEEDBACK_TYPES.includes(type)) {
+      return { error: 'Feedback must be an approval or feedback' };
+    }
+
+    const body = String(text || '').trim() || (type === 'approval' ? 'Approved' : '');
+    if (!body) {
+      return { error: 'Feedback text is required' };
+    }
+
+    card.addComment(body, user.id, [], 'client');
+    const comment = card.comments[card.comments.length - 1];
+    comment.clientFeedback = type;
+    await card.save();
+
+    const recipients = [
+      card.createdBy,
+      ...(card.members || []).map(member => member.userId),
+      ...(card.assignedTo || [])
+    ].map(idKey);
+
+    Notification.notifyMany(recipients, {
+      type: 'client_feedback',
+      actor: user.id,
+      title: type === 'approval'
+        ? `${user.firstName} ${user.lastName} approved "${card.title}"`
+        : `${user.firstName} ${user.lastName} left feedback on "${card.title}"`,
+      message: body.length > 200 ? `${body.substring(0, 200)}...` : body,
+      board: card.boardId || (card.listId && card.listId.boardId) || null,
+      card: card._id
+    }).catch(error => console.error('Client feedback notification error:', error));
+
+    return { comment };
+  }
+}
+
+module.exports = new ClientPortalService();
+module.exports.FEEDBACK_TYPES = FEEDBACK_TYPES;
@@ -0,0 +1,211 @@
+const Board = require('../models/Board');
+const Card = require('../models/Card');
+const List = require('../models/List');
+
+const MAX_CUSTOM_FIELDS_PER_BOARD = 20;
+
+const MAX_TEXT_LENGTH = 500;
+
+const idKey = (value) => (value && value._id ? value._id.toString() : value ? value.toString() : '');
+
+const isEmptyValue = (value) => value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+/**
+ * Board-level custom fields: board admins define the fields (name, type,
+ * select options, required, shown on the card face) and every card on the
+ * board stores its values by field id.
+ */
+class CustomFieldService {
+  get fieldTypes() {
+    return Board.schema.path('customFields').schema.path('type').enumValues;
+  }
+
+  /**
+   * Check a field definition against the board's other fields. Returns an
+   * error message, or null when the definition is fine.
+   */
+  validateDefinition({ name, type, options }, otherFields, existing = null) {
+    if (!name || !String(name).trim()) {
+      return 'Field name is required';
+    }
+    if (!this.fieldTypes.includes(type)) {
+      return 'Choose a field type';
+    }
+    if (existing && existing.type !== type) {
+      return 'A field\'s type cannot be changed; create a new field instead';
+    }
+
+    const normalizedName = String(name).trim().toLowerCase();
+    if (otherFields.some(field => field.name.toLowerCase() === normalizedName)) {
+      return `This board already has a field named "${String(name).trim()}"`;
+    }
+
+    if (type === 'select') {
+      if (!Array.isArray(options) || options.length === 0) {
+        return 'Add at least one option';
+      }
+      const optionNames = options.map(option => String(option.name || '').trim().toLowerCase());
+      if (optionNames.some(optionName => !optionName)) {
+        return 'Every option needs a name';
+      }
+      if (new Set(optionNames).size !== optionNames.length) {
+        return 'Option names must be unique';
+      }
+    }
+
+    return null;
+  }
+
+  // Definition fields taken from a request body
+  pickDefinition({ name, type, options, required, showOnCard }) {
+    return {
+      name: typeof name === 'string' ? name.trim() : name,
+      type,
+      options: type === 'select' && Array.isArray(options)
+        ? options.map(option => ({
+          // Existing options keep their id so card values stay attached
+          ...(option._id ? { _id: option._id } : {}),
+          name: typeof option.name === 'string' ? option.name.trim() : option.name,
+          color: option.color || undefined
+        }))
+        : [],
+      // A checkbox always has a value, so it cannot be missing
+      required: type === 'boolean' ? false : !!required,
+      showOnCard: !!showOnCard
+    };
+  }
+
+  /**
+   * Convert a value from the client into what is stored for the field.
+   * Returns { value } (null clears the field) or { error }.
+   */
+  normalizeValue(field, value) {
+    if (isEmptyValue(value)) {
+      return { value: null };
+    }
+
+    switch (field.type) {
+      case 'text': {
+        const text = String(value).trim();
+        if (text.length > MAX_TEXT_LENGTH) {
+          return { error: `"${field.name}" cannot be more than ${MAX_TEXT_LENGTH} characters` };
+        }
+        return { value: text };
+      }
+      case 'number': {
+        const number = Number(value);
+        if (!Number.isFinite(number)) {
+          return { error: `"${field.name}" must be a number` };
+        }
+        return { value: number };
+      }
+      case 'date': {
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return { error: `"${field.name}" must be a valid date` };
+        }
+        return { value: date };
+      }
+      case 'boolean':
+        return { value: value === true || value === 'true' };
+      case 'select': {
+        const option = field.options.find(item => idKey(item._id) === String(value));
+        if (!option) {
+          return { error: `Choose one of the options for "${field.name}"` };
+        }
+        return { value: idKey(option._id) };
+      }
+      default:
+        return { error: `Unknown field type "${field.type}"` };
+    }
+  }
+
+  /**
+   * Set a card's custom field values from [{ fieldId, value }]. Fields that are
+   * not listed keep their value; values for fields the board no longer has are
+   * dropped, while older entries without a fieldId are left alone. Returns
+   * { error } or { changes } for the activity log.
+   */
+  applyCardValues(card, fields, values) {
+    if (!Array.isArray(values)) {
+      return { error: 'Custom fields must be a list of values' };
+    }
+
+    const fieldsById = new Map(fields.map(field => [idKey(field._id), field]));
+    const current = new Map((card.customFields || [])
+      .filter(entry => entry.fieldId && fieldsById.has(idKey(entry.fieldId)))
+      .map(entry => [idKey(entry.fieldId), entry.value]));
+    const next = new Map(current);
+
+    for (const { fieldId, value } of values) {
+      const field = fieldsById.get(idKey(fieldId));
+      if (!field) {
+        return { error: 'Custom field not found on this board' };
+      }
+
+      const normalized = this.normalizeValue(field, value);
+      if (normalized.error) return { error: normalized.error };
+
+      if (normalized.value === null) {
+        next.delete(idKey(field._id));
+      } else {
+        next.set(idKey(field._id), normalized.value);
+      }
+    }
+
+    const missing = fields.find(field => field.required && !next.has(idKey(field._id)));
+    if (missing) {
+      return { error: `"${missing.name}" is required` };
+    }
+
+    const changes = [];
+    fields.forEach(field => {
+      const key = idKey(field._id);
+      const oldValue = current.has(key) ? current.get(key) : null;
+      const newValue = next.has(key) ? next.get(key) : null;
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        changes.push({ field: `customField:${field.name}`, oldValue, newValue });
+      }
+    });
+
+    card.customFields = [
+      ...(card.customFields || []).filter(entry => !entry.fieldId),
+      ...fields
+        .filter(field => next.has(idKey(field._id)))
+        .map(field => ({ fieldId: field._id, value: next.get(idKey(field._id)) }))
+    ];
+
+    return { changes };
+  }
+
+  // Drop every value of a field (or of some of a select field's options) from the board's cards
+  async clearCardValues(boardId, fieldId, optionIds = null) {
+    const lists = await List.find({ boardId }).select('_id');
+    const match = optionIds
+      ? { fieldId, value: { $in: optionIds.map(idKey) } }
+      : { fieldId };
+
+    await Card.updateMany(
+      { listId: { $in: lists.map(list => list._id) } },
+      { $pull: { customFields: match } }
+    );
+  }
+
+  // Push the board's field definitions to everyone viewing it
+  notifyFieldsUpdated(board) {
+    try {
+      const socketManager = require('../server').get('socketManager');
+      if (socketManager) {
+        socketManager.notifyBoard(idKey(board._id), 'board:custom-fields-updated', {
+          boardId: board._id,
+          customFields: board.customFields
+        });
+      }
+    } catch (socketError) {
+      console.error('Error emitting custom field update:', socketError);
+    }
+  }
+}
+
+module.exports = new CustomFieldService();
+module.exports.MAX_CUSTOM_FIELDS_PER_BOARD = MAX_CUSTOM_FIELDS_PER_BOARD;
@@ -0,0 +1,124 @@
+const Card = require('../models/Card');
+const List = require('../models/List');
+
+const MAX_LABELS_PER_BOARD = 50;
+
+const DEFAULT_LABEL_COLOR = '#6B7280';
+
+const HEX_COLOR = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
+
+const idKey = (value) => (value && value._id ? value._id.toString() : value ? value.toString() : '');
+
+const sameName = (a, b) => a.toLowerCase() === b.toLowerCase();
+
+// Matches a label name in queries the way sameName does
+const nameMatcher = (name) => new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i');
+
+/**
+ * Board label palettes. Cards keep their own copy of each label's name and
+ * color (automations and list rules match labels by name), so renaming,
+ * recoloring or deleting a palette label is carried over to the board's cards.
+ */
+class LabelService {
+  /**
+   * Check a palette label against the board's other labels. Returns an error
+   * message, or null when the label is fine.
+   */
+  validateLabel({ name, color }, otherLabels) {
+    if (!name || !String(name).trim()) {
+      return 'Label name is required';
+    }
+    if (color !== undefined && !HEX_COLOR.test(color)) {
+      return 'Please provide a valid hex color';
+    }
+    if (otherLabels.some(label => sameName(label.name, String(name).trim()))) {
+      return `This board already has a label named "${String(name).trim()}"`;
+    }
+    return null;
+  }
+
+  findLabel(board, name) {
+    return (board.labels || []).find(label => sameName(label.name, name)) || null;
+  }
+
+  /**
+   * Turn the labels sent for a card (names, or { name, color }) into the
+   * card's labels, using the palette's colors. Labels the palette does not
+   * have yet are added to it. Returns { labels, paletteChanged } or { error }.
+   */
+  resolveCardLabels(board, labels) {
+    if (!Array.isArray(labels)) {
+      return { error: 'Labels must be a list' };
+    }
+
+    const resolved = [];
+    let paletteChanged = false;
+
+    for (const label of labels) {
+      const name = String(typeof label === 'string' ? label : label?.name || '').trim();
+      if (!name) return { error: 'Label name is required' };
+      if (resolved.some(item => sameName(item.name, name))) continue;
+
+      let paletteLabel = this.findLabel(board, name);
+      if (!paletteLabel) {
+        if (board.labels.length >= MAX_LABELS_PER_BOARD) {
+          return { error: `A board can have at most ${MAX_LABELS_PER_BOARD} labels` };
+        }
+        const color = typeof label === 'object' && HEX_COLOR.test(label.color) ? label.color : DEFAULT_LABEL_COLOR;
+        board.labels.push({ name, color });
+        paletteLabel = board.labels[board.labels.length - 1];
+        paletteChanged = true;
+      }
+
+      resolved.push({ name: paletteLabel.name, color: paletteLabel.color });
+    }
+
+    return { labels: resolved, paletteChanged };
+  }
+
+  async getBoardListIds(boardId) {
+    const lists = await List.find({ boardId }).select('_id');
+    return lists.map(list => list._id);
+  }
+
+  // Carry a renamed or recolored palette label over to the board's cards
+  async updateOnCards(boardId, previousName, { name, color }) {
+    const previous = nameMatcher(previousName);
+    await Card.updateMany(
+      { listId: { $in: await this.getBoardListIds(boardId) }, 'labels.name': previous },
+      { $set: { 'labels.$[label].name': name, 'labels.$[label].color': color } },
+      { arrayFilters: [{ 'label.name': previous }] }
+    );
+  }
+
+  async removeFromCards(boardId, name) {
+    await Card.updateMany(
+      { listId: { $in: await this.getBoardListIds(boardId) } },
+      { $pull: { labels: { name: nameMatcher(name) } } }
+    );
+  }
+
+  /**
+   * Push the palette to everyone viewing the board. `change` tells clients how
+   * to update the cards they have loaded: { type: 'updated', from, label } or
+   * { type: 'deleted', name }.
+   */
+  notifyLabelsUpdated(board, change = null) {
+    try {
+      const socketManager = require('../server').get('socketManager');
+      if (socketManager) {
+        socketManager.notifyBoard(idKey(board._id), 'board:labels-updated', {
+          boardId: board._id,
+          labels: board.labels,
+          change
+        });
+      }
+    } catch (socketError) {
+      console.error('Error emitting label update:', socketError);
+    }
+  }
+}
+
+module.exports = new LabelService();
+module.exports.MAX_LABELS_PER_BOARD = MAX_LABELS_PER_BOARD;
+module.exports.DEFAULT_LABEL_COLOR = DEFAULT_LABEL_COLOR;
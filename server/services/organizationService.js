@@ -0,0 +1,147 @@
+const User = require('../models/User');
+const Department = require('../models/Department');
+const Position = require('../models/Position');
+const Team = require('../models/Team');
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Departments, positions and reporting lines. Users keep their department
+ * name and position title as plain strings, so renames are written through
+ * to them here; reporting lines are `User.reportsTo` and must not loop.
+ */
+class OrganizationService {
+  findDepartmentByName(name) {
+    return Department.findOne({ name: new RegExp(`^${escapeRegex(name.trim())}$`, 'i') });
+  }
+
+  /**
+   * Check a department and position given to a user. Returns the canonical
+   * names to store, or an error message.
+   */
+  async resolveAssignment(departmentName, positionTitle) {
+    let department = null;
+    if (departmentName && departmentName.trim()) {
+      department = await this.findDepartmentByName(departmentName);
+      if (!department) {
+        return { error: `Department "${departmentName.trim()}" does not exist` };
+      }
+    }
+
+    let position = null;
+    if (positionTitle && positionTitle.trim()) {
+      const positions = await Position.find({
+        title: new RegExp(`^${escapeRegex(positionTitle.trim())}$`, 'i')
+      });
+      position = positions.find(item => !item.department ||
+        (department && item.department.toString() === department._id.toString()));
+      if (!position) {
+        return {
+          error: department
+            ? `Position "${positionTitle.trim()}" does not exist in ${department.name}`
+            : `Position "${positionTitle.trim()}" does not exist`
+        };
+      }
+    }
+
+    return {
+      department: department ? department.name : '',
+      position: position ? position.title : ''
+    };
+  }
+
+  /**
+   * Check a user's new manager. Returns an error message, or null when the
+   * reporting line is fine.
+   */
+  async validateReportsTo(userId, managerId) {
+    if (!managerId) return null;
+    if (userId && managerId.toString() === userId.toString()) {
+      return 'A user cannot report to themselves';
+    }
+
+    const manager = await User.findById(managerId).select('isActive reportsTo');
+    if (!manager || !manager.isActive) {
+      return 'Manager must be an active user';
+    }
+
+    // Walk up from the manager; reaching the user means the line would loop
+    if (userId) {
+      const seen = new Set();
+      let current = manager;
+      while (current && current.reportsTo && !seen.has(current._id.toString())) {
+        seen.add(current._id.toString());
+        if (current.reportsTo.toString() === userId.toString()) {
+          return 'This reporting line would loop back to the user';
+        }
+        current = await User.findById(current.reportsTo).select('reportsTo');
+      }
+    }
+
+    return null;
+  }
+
+  async renameDepartment(oldName, newName) {
+    if (oldName === newName) return;
+    await User.updateMany({ department: oldName }, { $set: { department: newName } });
+    await Team.updateMany({ department: oldName }, { $set: { department: newName } });
+  }
+
+  async renamePosition(position, oldTitle) {
+    if (oldTitle === position.title) return;
+
+    const query = { position: oldTitle };
+    if (position.department) {
+      const department = await Department.findById(position.department).select('name');
+      if (department) query.department = department.name;
+    }
+    await User.updateMany(query, { $set: { position: position.title } });
+  }
+
+  // How many users are in each department, keyed by department name
+  async getDepartmentUserCounts() {
+    const counts = await User.aggregate([
+      { $match: { department: { $nin: [null, ''] } } },
+      { $group: { _id: '$department', count: { $sum: 1 } } }
+    ]);
+    return new Map(counts.map(item => [item._id, item.count]));
+  }
+
+  /**
+   * Everyone in the org chart: active staff (clients are left out) with
+   * their reporting line, plus the departments and their heads.
+   */
+  async getChart() {
+    const [people, departments] = await Promise.all([
+      User.find({ isActive: true, role: { $ne: 'client' } })
+        .select('firstName lastName email avatar role department position reportsTo')
+        .sort({ firstName: 1, lastName: 1 }),
+      Department.find().populate('head', 'firstName lastName avatar').sort({ name: 1 })
+    ]);
+
+    const ids = new Set(people.map(person => person._id.toString()));
+    return {
+      departments,
+      people: people.map(person => ({
+        id: person._id,
+        firstName: person.firstName,
+        lastName: person.lastName,
+        email: person.email,
+        avatar: person.avatar,
+        role: person.role,
+        department: person.department || '',
+        position: person.position || '',
+        // Managers who have left the chart are dropped so their reports show as roots
+        reportsTo: person.reportsTo && ids.has(person.reportsTo.toString()) ? person.reportsTo : null
+      }))
+    };
+  }
+
+  // Before a user is deleted: their reports move up to their manager and they stop heading departments
+  async detachUser(user) {
+    await User.updateMany({ reportsTo: user._id }, { $set: { reportsTo: user.reportsTo || null } });
+    await Department.updateMany({ head: user._id }, { $set: { head: null } });
+  }
+}
+
+module.exports = new OrganizationService();
@@ -0,0 +1,225 @@
+const Card = require('../models/Card');
+const List = require('../models/List');
+
+const idKey = (value) => (value && value._id ? value._id.toString() : value ? value.toString() : '');
+
+// Older tasks stored a single id (or null) rather than a list
+const getDependencyIds = (task) => (task.dependsOn || []).map(idKey).filter(Boolean);
+
+/**
+ * Task dependencies: a task can wait on any number of other tasks on the same
+ * board, on its own card or another one. A task stays locked until every
+ * predecessor is completed, and reopening a predecessor locks its open
+ * dependents again so the next unlock re-runs auto-assignment.
+ *
+ * Callers pass the card they are working on; it is used in place of the
+ * stored copy so unsaved changes count, and saving it stays with the caller.
+ * Other cards this service changes are saved here.
+ */
+class TaskDependencyService {
+  async getBoardId(card) {
+    if (card.listId && card.listId.boardId) return card.listId.boardId;
+    const list = await List.findById(card.listId).select('boardId');
+    return list ? list.boardId : card.boardId;
+  }
+
+  // Map of task id -> { task, card } for every task on the card's board, archived cards included
+  async getBoardTaskIndex(card) {
+    const boardId = await this.getBoardId(card);
+    const lists = await List.find({ boardId }).select('_id');
+    const cards = await Card.find({
+      _id: { $ne: card._id },
+      listId: { $in: lists.map(list => list._id) }
+    });
+
+    const index = new Map();
+    [card, ...cards].forEach(boardCard => {
+      (boardCard.tasks || []).forEach(task => index.set(idKey(task._id), { task, card: boardCard }));
+    });
+    return index;
+  }
+
+  // Walks predecessors from dependsOnIds; returns the path back to taskId if one exists
+  findCycle(index, taskId, dependsOnIds) {
+    const target = idKey(taskId);
+    const visited = new Set();
+
+    const visit = (currentId, path) => {
+      if (currentId === target) return path;
+      if (visited.has(currentId)) return null;
+      visited.add(currentId);
+
+      const entry = index.get(currentId);
+      if (!entry) return null;
+      for (const predecessorId of getDependencyIds(entry.task)) {
+        const cycle = visit(predecessorId, [...path, predecessorId]);
+        if (cycle) return cycle;
+      }
+      return null;
+    };
+
+    for (const dependencyId of dependsOnIds) {
+      const cycle = visit(dependencyId, [target, dependencyId]);
+      if (cycle) return cycle;
+    }
+    return null;
+  }
+
+  /**
+   * Check a task's new predecessor list. taskId is null for a task that does
+   * not exist yet, which cannot close a cycle. Returns { dependsOn } with the
+   * cleaned ids, or { error } with a message for the client.
+   */
+  async validateDependencies(card, taskId, dependsOn) {
+    if (!Array.isArray(dependsOn) && dependsOn !== null && typeof dependsOn !== 'string') {
+      return { error: 'Dependencies must be a list of task ids' };
+    }
+
+    const ids = [...new Set((Array.isArray(dependsOn) ? dependsOn : [dependsOn]).map(idKey).filter(Boolean))];
+    if (ids.length === 0) return { dependsOn: [] };
+
+    if (taskId && ids.includes(idKey(taskId))) {
+      return { error: 'A task cannot depend on itself' };
+    }
+
+    const index = await this.getBoardTaskIndex(card);
+    const missing = ids.find(id => !index.has(id));
+    if (missing) {
+      return { error: 'Dependency task not found on this board' };
+    }
+
+    if (taskId) {
+      const cycle = this.findCycle(index, taskId, ids);
+      if (cycle) {
+        const titles = cycle.map(id => index.get(id).task.title);
+        return { error: `This would create a circular dependency: ${titles.join(' → ')}` };
+      }
+    }
+
+    return { dependsOn: ids };
+  }
+
+  /**
+   * Lock or unlock a task to match its predecessors. Completed tasks are never
+   * locked. Returns 'locked', 'unlocked' or null when nothing changed.
+   */
+  applyLockState(task, index) {
+    const waitingOn = getDependencyIds(task)
+      .map(id => index.get(id))
+      // Predecessors that no longer exist do not hold anything up
+      .filter(entry => entry && !entry.task.completed)
+      .map(entry => entry.task.title);
+
+    if (waitingOn.length > 0 && !task.completed) {
+      task.lockedReason = `Waiting for: ${waitingOn.join(', ')}`;
+      if (task.isLocked) return null;
+      task.isLocked = true;
+      task.unlockedAt = null;
+      return 'locked';
+    }
+
+    if (!task.isLocked) return null;
+    task.isLocked = false;
+    task.lockedReason = '';
+    task.unlockedAt = new Date();
+    if (task.autoAssignOnUnlock && task.assignToOnUnlock && task.assignToOnUnlock.length > 0) {
+      task.assignedTo = [...task.assignToOnUnlock];
+    }
+    return 'unlocked';
+  }
+
+
+  // Save other cards touched while settling locks and describe the tasks whose lock changed
+  async settle(card, index, shouldCheck) {
+    const changes = [];
+    index.forEach(({ task, card: taskCard }) => {
+      if (!shouldCheck(task)) return;
+
+      const state = this.applyLockState(task, index);
+      if (!state) return;
+      changes.push({
+        cardId: taskCard._id,
+        cardTitle: taskCard.title,
+        taskId: task._id,
+        title: task.title,
+        assignedTo: task.assignedTo,
+        autoAssigned: state === 'unlocked' && !!task.autoAssignOnUnlock,
+        state
+      });
+    });
+
+    const otherCards = new Map();
+    index.forEach(({ card: taskCard }) => {
+      if (idKey(taskCard._id) !== idKey(card._id) && taskCard.isModified()) {
+        otherCards.set(idKey(taskCard._id), taskCard);
+      }
+    });
+    for (const otherCard of otherCards.values()) {
+      await otherCard.save();
+    }
+
+    return changes;
+  }
+
+  // Bring one task on the caller's card in line with its predecessors (after adding it or changing them)
+  async refreshTask(card, taskId) {
+    const index = await this.getBoardTaskIndex(card);
+    return this.settle(card, index, task => idKey(task._id) === idKey(taskId));
+  }
+
+  /**
+   * Re-check taskIds and every task that depends on them after they were
+   * completed or reopened (a reopened task can itself be waiting again).
+   * Returns the tasks whose lock changed as
+   * { cardId, cardTitle, taskId, title, assignedTo, autoAssigned, state }.
+   */
+  async cascade(card, taskIds) {
+    const changedIds = new Set(taskIds.map(idKey));
+    const index = await this.getBoardTaskIndex(card);
+    return this.settle(card, index, task =>
+      changedIds.has(idKey(task._id)) || getDependencyIds(task).some(id => changedIds.has(id))
+    );
+  }
+
+  /**
+   * Drop tasks that are going away from every dependency list and unlock
+   * whatever they were holding up. The tasks may already be gone from the
+   * caller's card (a deleted task) or be about to go with it (a deleted card).
+   */
+  async removeTasks(card, taskIds) {
+    const removedIds = new Set(taskIds.map(idKey));
+    const index = await this.getBoardTaskIndex(card);
+    removedIds.forEach(id => index.delete(id));
+
+    const affected = new Set();
+    index.forEach(({ task }) => {
+      const ids = getDependencyIds(task);
+      if (!ids.some(id => removedIds.has(id))) return;
+      task.dependsOn = ids.filter(id => !removedIds.has(id));
+      affected.add(task);
+    });
+
+    return this.settle(card, index, task => affected.has(task));
+  }
+
+  // Tasks on the card's other board cards, for picking cross-card dependencies and drawing the graph
+  async getBoardTasks(card) {
+    const index = await this.getBoardTaskIndex(card);
+    const tasks = [];
+    index.forEach(({ task, card: taskCard }) => {
+      if (idKey(taskCard._id) === idKey(card._id) || taskCard.isArchived) return;
+      tasks.push({
+        _id: task._id,
+        title: task.title,
+        completed: task.completed,
+        isLocked: task.isLocked,
+        dependsOn: getDependencyIds(task),
+        cardId: taskCard._id,
+        cardTitle: taskCard.title
+      });
+    });
+    return tasks;
+  }
+}
+
+module.exports = new TaskDependencyService();
@@ -0,0 +1,168 @@
+const Board = require('../models/Board');
+const Card = require('../models/Card');
+const Notification = require('../models/Notification');
+
+const idKey = (value) => (value && value._id ? value._id.toString() : value ? value.toString() : '');
+
+/**
+ * Teams on boards. A team's members are written into the board's `members`
+ * (so access checks and member pickers keep working off one list) and tagged
+ * with the teams that brought them in; when a team's membership changes the
+ * boards it is on are brought up to date.
+ */
+class TeamService {
+  findMember(board, userId) {
+    return board.members.find(member => member.userId && idKey(member.userId) === idKey(userId)) || null;
+  }
+
+  /**
+   * Give a user access through a team. Returns true when they were not on the
+   * board before.
+   */
+  grantAccess(board, userId, teamId, role) {
+    const member = this.findMember(board, userId);
+    if (member) {
+      if (!member.viaTeams.some(id => idKey(id) === idKey(teamId))) {
+        member.viaTeams.push(teamId);
+      }
+      return false;
+    }
+
+    board.members.push({ userId, role, joinedAt: new Date(), direct: false, viaTeams: [teamId] });
+    return true;
+  }
+
+  /**
+   * Take away the access a team gave a user. They stay on the board if they
+   * were added directly, through another team, or created it. Returns true
+   * when they were removed.
+   */
+  revokeAccess(board, userId, teamId) {
+    const member = this.findMember(board, userId);
+    if (!member) return false;
+
+    member.viaTeams = member.viaTeams.filter(id => idKey(id) !== idKey(teamId));
+    if (member.direct || member.viaTeams.length > 0 || idKey(board.createdBy) === idKey(userId)) {
+      return false;
+    }
+
+    board.members = board.members.filter(item => item !== member);
+    return true;
+  }
+
+  getTeamRole(board, teamId) {
+    const entry = board.teams.find(team => idKey(team.teamId) === idKey(teamId));
+    return entry ? entry.role : 'member';
+  }
+
+  /**
+   * Add a team to a board, or change the role it has there. Members who are on
+   * the board only through teams take the team's role. Returns the ids of
+   * users who joined the board.
+   */
+  async addTeamToBoard(board, team, role, addedBy) {
+    const entry = board.teams.find(item => idKey(item.teamId) === idKey(team._id));
+    if (entry) {
+      entry.role = role;
+    } else {
+      board.teams.push({ teamId: team._id, role, addedBy, addedAt: new Date() });
+    }
+
+    const joined = team.getMemberIds().filter(userId => this.grantAccess(board, userId, team._id, role));
+
+    board.members.forEach(member => {
+      const onlyThroughTeams = !member.direct && idKey(board.createdBy) !== idKey(member.userId);
+      if (onlyThroughTeams && member.viaTeams.some(id => idKey(id) === idKey(team._id))) {
+        member.role = role;
+      }
+    });
+
+    await board.save();
+    return joined;
+  }
+
+  // Returns the ids of users who lost access to the board
+  async removeTeamFromBoard(board, teamId) {
+    board.teams = board.teams.filter(team => idKey(team.teamId) !== idKey(teamId));
+
+    const memberIds = board.members.map(member => idKey(member.userId));
+    const removed = memberIds.filter(userId => this.revokeAccess(board, userId, teamId));
+
+    await board.save();
+    return removed;
+  }
+
+  /**
+   * Carry a change to a team's members over to every board it is on, and add
+   * new members to the open tasks assigned to the team.
+   */
+  async syncTeamMembership(team, previousMemberIds, actorId) {
+    const currentIds = team.getMemberIds();
+    const added = currentIds.filter(id => !previousMemberIds.includes(id));
+    const removed = previousMemberIds.filter(id => !currentIds.includes(id));
+    if (added.length === 0 && removed.length === 0) return;
+
+    const boards = await Board.find({ 'teams.teamId': team._id });
+    for (const board of boards) {
+      const role = this.getTeamRole(board, team._id);
+      const joined = added.filter(userId => this.grantAccess(board, userId, team._id, role));
+      removed.forEach(userId => this.revokeAccess(board, userId, team._id));
+      await board.save();
+
+      this.notifyJoined(board, team, joined, actorId);
+      this.notifyMembersUpdated(board);
+    }
+
+    if (added.length > 0) {
+      await Card.updateMany(
+        { 'tasks.assignedTeam': team._id },
+        { $addToSet: { 'tasks.$[task].assignedTo': { $each: added } } },
+        { arrayFilters: [{ 'task.assignedTeam': team._id, 'task.completed': false }] }
+      );
+    }
+  }
+
+  /**
+   * Take a deleted team off its boards and tasks. Workflow stages assigned to
+   * it keep the id and show as a deleted team until they are reassigned.
+   */
+  async detachTeam(teamId) {
+    const boards = await Board.find({ 'teams.teamId': teamId });
+    for (const board of boards) {
+      await this.removeTeamFromBoard(board, teamId);
+      this.notifyMembersUpdated(board);
+    }
+
+    await Card.updateMany(
+      { 'tasks.assignedTeam': teamId },
+      { $set: { 'tasks.$[task].assignedTeam': null } },
+      { arrayFilters: [{ 'task.assignedTeam': teamId }] }
+    );
+  }
+
+  notifyJoined(board, team, userIds, actorId) {
+    if (userIds.length === 0) return;
+
+    Notification.notifyMany(userIds, {
+      type: 'board_invite',
+      actor: actorId,
+      title: `You were added to the board "${board.name}"`,
+      message: `Through the team ${team.name}`,
+      board: board._id
+    });
+  }
+
+  // Tell everyone viewing the board to reload its members
+  notifyMembersUpdated(board) {
+    try {
+      const socketManager = require('../server').get('socketManager');
+      if (socketManager) {
+        socketManager.notifyBoard(idKey(board._id), 'board:members-updated', { boardId: board._id });
+      }
+    } catch (socketError) {
+      console.error('Error emitting board members update:', socketError);
+    }
+  }
+}
+
+module.exports = new TeamService();
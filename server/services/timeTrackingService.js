@@ -0,0 +1,479 @@
+const ActiveTimer = require('../models/ActiveTimer');
+const Board = require('../models/Board');
+const Card = require('../models/Card');
+const List = require('../models/List');
+const TimesheetApproval = require('../models/TimesheetApproval');
+const User = require('../models/User');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const idKey = (value) => (value && value._id ? value._id.toString() : value ? value.toString() : '');
+
+// Whole minutes, as hours; shorter timers are not worth an entry
+const elapsedHours = (startedAt, endedAt) => Math.round((endedAt - startedAt) / 60000) / 60;
+
+const roundHours = (hours) => Math.round(hours * 100) / 100;
+
+const findTask = (card, taskId) => (taskId && card.tasks ? card.tasks.id(taskId) : null);
+
+/**
+ * Time tracking on board cards: a start/stop timer per user (kept in the
+ * database so it survives reloads and follows the user between devices),
+ * weekly timesheets built from card time entries, and estimate-vs-actual
+ * reports per card and per board.
+ */
+class TimeTrackingService {
+  async getBoardId(card) {
+    if (card.listId && card.listId.boardId) return card.listId.boardId;
+    const list = await List.findById(card.listId).select('boardId');
+    return list ? list.boardId : card.boardId;
+  }
+
+  // The running timer as the client shows it, or null
+  async getActiveTimer(userId) {
+    const timer = await ActiveTimer.findOne({ user: userId });
+    if (!timer) return null;
+
+    const card = await Card.findById(timer.card).select('title tasks._id tasks.title');
+    const task = card ? findTask(card, timer.taskId) : null;
+    return {
+      _id: timer._id,
+      cardId: timer.card,
+      cardTitle: card ? card.title : 'Deleted card',
+      boardId: timer.board,
+      taskId: timer.taskId,
+      taskTitle: task ? task.title : null,
+      description: timer.description,
+      startedAt: timer.startedAt
+    };
+  }
+
+  /**
+   * Start a timer on a card, or one of its tasks. A timer the user already has
+   * running is stopped first and logged. Returns { timer, stopped } where
+   * stopped is the result of stopTimer for the previous one, if any.
+   */
+  async startTimer(userId, card, { taskId = null, description = '' } = {}) {
+    if (taskId && !findTask(card, taskId)) {
+      throw new Error('Task not found');
+    }
+
+    const stopped = await this.stopTimer(userId);
+    await ActiveTimer.create({
+      user: userId,
+      card: card._id,
+      board: await this.getBoardId(card),
+      taskId: taskId || null,
+      description,
+      startedAt: new Date()
+    });
+
+    return { timer: await this.getActiveTimer(userId), stopped };
+  }
+
+  /**
+   * Stop the user's timer and log the time on its card. Returns null when no
+   * timer was running, otherwise { card, entry, hours, notice } where entry is
+   * null if the timer ran under a minute, its card is gone or the time falls in
+   * approved weeks only. notice tells the user when the time was logged on
+   * another day than the timer started, or not at all, because of an approval.
+   */
+  async stopTimer(userId, { description } = {}) {
+    const timer = await ActiveTimer.findOneAndDelete({ user: userId });
+    if (!timer) return null;
+
+    const endedAt = new Date();
+    const hours = elapsedHours(timer.startedAt, endedAt);
+    const card = await Card.findById(timer.card);
+    if (!card || hours <= 0) {
+      return { card, entry: null, hours, notice: null };
+    }
+
+    // Approved weeks are closed, so a timer started in one is logged today instead
+    let date = timer.startedAt;
+    let notice = null;
+    if (await this.findLockingApproval(userId, timer.startedAt)) {
+      if (await this.findLockingApproval(userId, endedAt)) {
+        return { card, entry: null, hours, notice: 'This week\'s timesheet has been approved, so the timer\'s time was not logged' };
+      }
+      date = endedAt;
+      notice = 'The timer started in a week whose timesheet has been approved, so its time was logged today';
+    }
+
+    // The task may have been deleted while the timer ran; the time still counts for the card
+    const taskId = findTask(card, timer.taskId) ? timer.taskId : null;
+    card.addTimeEntry(userId, hours, description !== undefined ? description : timer.description, {
+      taskId,
+      source: 'timer',
+      date,
+      startedAt: timer.startedAt,
+      endedAt
+    });
+    await card.save();
+
+    const entries = card.timeTracking.entries;
+    return { card, entry: entries[entries.length - 1], hours, notice };
+  }
+
+  async discardTimer(userId) {
+    const timer = await ActiveTimer.findOneAndDelete({ user: userId });
+    return !!timer;
+  }
+
+  // Timers for tasks that no longer exist are moved up to their card
+  async clearTaskTimers(cardId, taskId) {
+    await ActiveTimer.updateMany({ card: cardId, taskId }, { $set: { taskId: null } });
+  }
+
+  async clearCardTimers(cardId) {
+    await ActiveTimer.deleteMany({ card: cardId });
+  }
+
+  /**
+   * One user's hours for the 7 days from weekStart, one row per card and task
+   * with a value per day. weekStart comes from the client so the week starts
+   * at midnight in the user's own time zone.
+   */
+  async getWeeklyTimesheet(userId, weekStart) {
+    const start = new Date(weekStart);
+    const end = new Date(start.getTime() + 7 * DAY_MS);
+
+    const cards = await Card.find({
+      'timeTracking.entries': {
+        $elemMatch: { user: userId, date: { $gte: start, $lt: end } }
+      }
+    })
+      .select('title listId tasks._id tasks.title timeTracking isArchived')
+      .populate('listId', 'boardId');
+
+    const boardIds = [...new Set(cards.map(card => idKey(card.listId && card.listId.boardId)).filter(Boolean))];
+    const boards = await Board.find({ _id: { $in: boardIds } }).select('name');
+    const boardTitles = new Map(boards.map(board => [idKey(board._id), board.name]));
+
+    const rows = new Map();
+    const entries = [];
+    const dailyTotals = Array(7).fill(0);
+
+    cards.forEach(card => {
+      const boardId = card.listId ? card.listId.boardId : null;
+      card.timeTracking.entries.forEach(entry => {
+        if (idKey(entry.user) !== idKey(userId) || entry.date < start || entry.date >= end) return;
+
+        const day = Math.min(6, Math.floor((entry.date - start) / DAY_MS));
+        const task = findTask(card, entry.taskId);
+        const rowKey = `${idKey(card._id)}:${task ? idKey(task._id) : ''}`;
+        if (!rows.has(rowKey)) {
+          rows.set(rowKey, {
+            cardId: card._id,
+            cardTitle: card.title,
+            boardId,
+            boardTitle: boardTitles.get(idKey(boardId)) || '',
+            taskId: task ? task._id : null,
+            taskTitle: task ? task.title : null,
+            days: Array(7).fill(0),
+            total: 0
+          });
+        }
+
+        const row = rows.get(rowKey);
+        row.days[day] += entry.hours;
+        row.total += entry.hours;
+        dailyTotals[day] += entry.hours;
+        entries.push({
+          _id: entry._id,
+          cardId: card._id,
+          cardTitle: card.title,
+          boardTitle: boardTitles.get(idKey(boardId)) || '',
+          taskId: task ? task._id : null,
+          taskTitle: task ? task.title : null,
+          hours: entry.hours,
+          description: entry.description || '',
+          date: entry.date,
+          source: entry.source || 'manual'
+        });
+      });
+    });
+
+    const sortedRows = [...rows.values()]
+      .map(row => ({ ...row, days: row.days.map(roundHours), total: roundHours(row.total) }))
+      .sort((a, b) => a.boardTitle.localeCompare(b.boardTitle) || a.cardTitle.localeCompare(b.cardTitle));
+
+    return {
+      weekStart: start,
+      weekEnd: end,
+      rows: sortedRows,
+      entries: entries.sort((a, b) => a.date - b.date),
+      dailyTotals: dailyTotals.map(roundHours),
+      total: roundHours(dailyTotals.reduce((sum, hours) => sum + hours, 0))
+    };
+  }
+
+  // Everything the card's time tab shows: the report, every entry (newest first) and who has a timer running
+  async getCardTimeData(card) {
+    await card.populate('timeTracking.entries.user', 'firstName lastName avatar');
+    const timers = await ActiveTimer.find({ card: card._id }).populate('user', 'firstName lastName avatar');
+    const entries = card.timeTracking ? card.timeTracking.entries : [];
+    const lockedIds = await this.getLockedEntryIds(entries);
+
+    return {
+      report: this.getCardReport(card),
+      entries: [...entries]
+        .sort((a, b) => b.date - a.date)
+        .map(entry => ({ ...entry.toObject(), locked: lockedIds.has(idKey(entry._id)) })),
+      activeTimers: timers.map(timer => ({
+        user: timer.user,
+        taskId: timer.taskId,
+        startedAt: timer.startedAt
+      }))
+    };
+  }
+
+  // Estimate vs actual for one card, with its tasks and who logged the time
+  getCardReport(card) {
+    const timeTracking = card.timeTracking || {};
+    const entries = timeTracking.entries || [];
+    const estimated = timeTracking.estimated || 0;
+    const spent = timeTracking.spent || 0;
+
+    const taskSpent = new Map();
+    const userSpent = new Map();
+    entries.forEach(entry => {
+      const taskKey = idKey(entry.taskId);
+      if (taskKey) taskSpent.set(taskKey, (taskSpent.get(taskKey) || 0) + entry.hours);
+
+      const user = entry.user;
+      const userKey = idKey(user);
+      const current = userSpent.get(userKey) || { user, hours: 0 };
+      current.hours += entry.hours;
+      userSpent.set(userKey, current);
+    });
+
+    return {
+      cardId: card._id,
+      cardTitle: card.title,
+      estimated: roundHours(estimated),
+      spent: roundHours(spent),
+      remaining: roundHours(Math.max(0, estimated - spent)),
+      variance: roundHours(spent - estimated),
+      tasks: (card.tasks || [])
+        .filter(task => task.estimatedHours || taskSpent.has(idKey(task._id)))
+        .map(task => {
+          const taskEstimated = task.estimatedHours || 0;
+          const taskActual = taskSpent.get(idKey(task._id)) || 0;
+          return {
+            taskId: task._id,
+            title: task.title,
+            completed: task.completed,
+            estimated: roundHours(taskEstimated),
+            spent: roundHours(taskActual),
+            variance: roundHours(taskActual - taskEstimated)
+          };
+        }),
+      byUser: [...userSpent.values()]
+        .map(({ user, hours }) => ({ user, hours: roundHours(hours) }))
+        .sort((a, b) => b.hours - a.hours)
+    };
+  }
+
+  // Estimate vs actual for every open card on a board, plus board totals
+  async getBoardReport(boardId) {
+    const lists = await List.find({ boardId }).select('_id name');
+    const listTitles = new Map(lists.map(list => [idKey(list._id), list.name]));
+    const cards = await Card.find({
+      listId: { $in: lists.map(list => list._id) },
+      isArchived: { $ne: true }
+    })
+      .select('title listId position tasks timeTracking')
+      .populate('timeTracking.entries.user', 'firstName lastName avatar')
+      .sort({ position: 1 });
+
+    const cardReports = cards
+      .map(card => ({ ...this.getCardReport(card), listTitle: listTitles.get(idKey(card.listId)) || '' }))
+      .filter(report => report.estimated > 0 || report.spent > 0);
+
+    const userTotals = new Map();
+    cardReports.forEach(report => report.byUser.forEach(({ user, hours }) => {
+      const userKey = idKey(user);
+      const current = userTotals.get(userKey) || { user, hours: 0 };
+      current.hours += hours;
+      userTotals.set(userKey, current);
+    }));
+
+    const estimated = cardReports.reduce((sum, report) => sum + report.estimated, 0);
+    const spent = cardReports.reduce((sum, report) => sum + report.spent, 0);
+    return {
+      cards: cardReports,
+      totals: {
+        estimated: roundHours(estimated),
+        spent: roundHours(spent),
+        variance: roundHours(spent - estimated),
+        overEstimateCount: cardReports.filter(report => report.estimated > 0 && report.spent > report.estimated).length
+      },
+      byUser: [...userTotals.values()]
+        .map(({ user, hours }) => ({ user, hours: roundHours(hours) }))
+        .sort((a, b) => b.hours - a.hours)
+    };
+  }
+
+  // The approved week covering this user's date, if any; its entries can no longer change
+  async findLockingApproval(userId, date) {
+    return TimesheetApproval.findOne({
+      user: userId,
+      status: 'approved',
+      weekStart: { $lte: date },
+      weekEnd: { $gt: date }
+    }).select('weekStart weekEnd');
+  }
+
+  // Ids of the given time entries that fall inside an approved week of their author
+  async getLockedEntryIds(entries) {
+    if (entries.length === 0) return new Set();
+
+    const dates = entries.map(entry => entry.date.getTime());
+    const approvals = await TimesheetApproval.find({
+      user: { $in: [...new Set(entries.map(entry => idKey(entry.user)))] },
+      status: 'approved',
+      weekStart: { $lte: new Date(Math.max(...dates)) },
+      weekEnd: { $gt: new Date(Math.min(...dates)) }
+    }).select('user weekStart weekEnd');
+
+    return new Set(entries
+      .filter(entry => approvals.some(approval =>
+        idKey(approval.user) === idKey(entry.user) &&
+        approval.weekStart <= entry.date &&
+        approval.weekEnd > entry.date
+      ))
+      .map(entry => idKey(entry._id)));
+  }
+
+  async getApproval(userId, weekStart) {
+    return TimesheetApproval.findOne({ user: userId, weekStart: new Date(weekStart) })
+      .select('-entries')
+      .populate('reviewedBy', 'firstName lastName');
+  }
+
+  /**
+   * Everyone's hours for the 7 days from weekStart, for HR review: one summary
+   * per active non-client user (and anyone else who logged time that week) with
+   * their hours per board and the week's approval, if it has been reviewed.
+   */
+  async getTeamTimesheets(weekStart) {
+    const start = new Date(weekStart);
+    const end = new Date(start.getTime() + 7 * DAY_MS);
+
+    const cards = await Card.find({
+      'timeTracking.entries': { $elemMatch: { date: { $gte: start, $lt: end } } }
+    })
+      .select('listId timeTracking.entries')
+      .populate('listId', 'boardId');
+
+    const boardIds = [...new Set(cards.map(card => idKey(card.listId && card.listId.boardId)).filter(Boolean))];
+    const boards = await Board.find({ _id: { $in: boardIds } }).select('name');
+    const boardTitles = new Map(boards.map(board => [idKey(board._id), board.name]));
+
+    const summaries = new Map();
+    cards.forEach(card => {
+      const boardKey = idKey(card.listId && card.listId.boardId);
+      card.timeTracking.entries.forEach(entry => {
+        if (entry.date < start || entry.date >= end) return;
+
+        const userKey = idKey(entry.user);
+        if (!summaries.has(userKey)) {
+          summaries.set(userKey, { total: 0, dailyTotals: Array(7).fill(0), boards: new Map() });
+        }
+        const summary = summaries.get(userKey);
+        const day = Math.min(6, Math.floor((entry.date - start) / DAY_MS));
+        summary.total += entry.hours;
+        summary.dailyTotals[day] += entry.hours;
+
+        const board = summary.boards.get(boardKey) || { boardId: boardKey || null, boardTitle: boardTitles.get(boardKey) || '', hours: 0 };
+        board.hours += entry.hours;
+        summary.boards.set(boardKey, board);
+      });
+    });
+
+    const users = await User.find({
+      $or: [
+        { isActive: true, role: { $ne: 'client' } },
+        { _id: { $in: [...summaries.keys()] } }
+      ]
+    })
+      .select('firstName lastName email avatar role employeeId department')
+      .sort({ firstName: 1, lastName: 1 });
+
+    const approvals = await TimesheetApproval.find({ weekStart: start, user: { $in: users.map(user => user._id) } })
+      .select('-entries')
+      .populate('reviewedBy', 'firstName lastName');
+    const approvalsByUser = new Map(approvals.map(approval => [idKey(approval.user), approval]));
+
+    return {
+      weekStart: start,
+      weekEnd: end,
+      timesheets: users.map(user => {
+        const summary = summaries.get(idKey(user._id));
+        return {
+          user,
+          total: summary ? roundHours(summary.total) : 0,
+          dailyTotals: summary ? summary.dailyTotals.map(roundHours) : Array(7).fill(0),
+          boards: summary
+            ? [...summary.boards.values()]
+              .map(board => ({ ...board, hours: roundHours(board.hours) }))
+              .sort((a, b) => b.hours - a.hours)
+            : [],
+          approval: approvalsByUser.get(idKey(user._id)) || null
+        };
+      })
+    };
+  }
+
+  /**
+   * Approve a user's week, which snapshots its entries for payroll and locks
+   * them, or send it back with a comment, which unlocks them again.
+   */
+  async reviewTimesheet(userId, weekStart, { status, comment = '', reviewerId }) {
+    const start = new Date(weekStart);
+    const timesheet = status === 'approved' ? await this.getWeeklyTimesheet(userId, start) : null;
+
+    await TimesheetApproval.findOneAndUpdate(
+      { user: userId, weekStart: start },
+      {
+        $set: {
+          weekEnd: new Date(start.getTime() + 7 * DAY_MS),
+          status,
+          comment,
+          totalHours: timesheet ? timesheet.total : 0,
+          entries: timesheet
+            ? timesheet.entries.map(entry => ({
+              entryId: entry._id,
+              cardId: entry.cardId,
+              cardTitle: entry.cardTitle,
+              boardTitle: entry.boardTitle,
+              taskTitle: entry.taskTitle,
+              date: entry.date,
+              hours: entry.hours,
+              description: entry.description
+            }))
+            : [],
+          reviewedBy: reviewerId,
+          reviewedAt: new Date()
+        }
+      },
+      { upsert: true, runValidators: true }
+    );
+
+    return this.getApproval(userId, start);
+  }
+
+  // Approved weeks starting in [from, to), oldest first, with the snapshot of their entries
+  async getApprovedTimesheets(from, to) {
+    return TimesheetApproval.find({
+      status: 'approved',
+      weekStart: { $gte: new Date(from), $lt: new Date(to) }
+    })
+      .populate('user', 'firstName lastName email employeeId department')
+      .populate('reviewedBy', 'firstName lastName')
+      .sort({ weekStart: 1 });
+  }
+}
+
+module.exports = new TimeTrackingService();
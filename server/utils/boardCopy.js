@@ -0,0 +1,424 @@
+/**
+ * Deep copy of a Trello-style board.
+ *
+ * Lists, cards, tasks, subtasks and card folders are always copied. Board and
+ * card members and file attachments are optional, and completion state can
+ * either be kept or reset so the copy starts fresh. Archived lists and cards
+ * are left behind.
+ */
+
+const mongoose = require('mongoose');
+const Board = require('../models/Board');
+const List = require('../models/List');
+const Card = require('../models/Card');
+const Folder = require('../models/Folder');
+const { copyInR2 } = require('../config/cloudflareR2');
+
+const DEFAULT_COPY_OPTIONS = {
+  includeCards: true,
+  includeTasks: true,
+  includeMembers: false,
+  includeAttachments: false,
+  resetProgress: true
+};
+
+// Report progress at most this often while cards are being copied
+const PROGRESS_INTERVAL = 5;
+
+const newId = () => new mongoose.Types.ObjectId();
+
+const idKey = (id) => (id ? id.toString() : null);
+
+const remapId = (idMap, id) => (id && idMap.has(idKey(id)) ? idMap.get(idKey(id)) : null);
+
+/**
+ * Resolve copy options from a request body, filling anything unset with the defaults
+ */
+const getCopyOptions = (options = {}) => {
+  const resolved = {};
+  Object.keys(DEFAULT_COPY_OPTIONS).forEach(option => {
+    resolved[option] = options[option] !== undefined ? !!options[option] : DEFAULT_COPY_OPTIONS[option];
+  });
+
+  // Tasks, members and attachments all live on cards
+  if (!resolved.includeCards) {
+    resolved.includeTasks = false;
+    resolved.includeAttachments = false;
+  }
+
+  return resolved;
+};
+
+const copyBoardMembers = (sourceBoard, createdBy) => sourceBoard.members
+  .filter(member => member.userId && idKey(member.userId) !== idKey(createdBy))
+  .map(member => ({
+    userId: member.userId,
+    // The person copying owns the new board, so the old owner becomes an admin
+    role: member.role === 'owner' ? 'admin' : member.role,
+    joinedAt: new Date(),
+    direct: member.direct !== false,
+    viaTeams: member.viaTeams || []
+  }));
+
+// Teams come along with the members, so their later membership changes reach the copy too
+const copyBoardTeams = (sourceBoard, createdBy) => (sourceBoard.teams || []).map(team => ({
+  teamId: team.teamId,
+  role: team.role,
+  addedBy: createdBy,
+  addedAt: new Date()
+}));
+
+const copyListSettings = (settings = {}) => ({
+  cardLimit: settings.cardLimit || 0,
+  wipLimit: {
+    enabled: !!settings.wipLimit?.enabled,
+    limit: settings.wipLimit?.limit || 5,
+    mode: settings.wipLimit?.mode || 'warn'
+  },
+  autoMove: {
+    enabled: false,
+    conditions: []
+  }
+});
+
+// taskIdMap and sourceTasksById cover the whole board, so dependencies on other
+// copied cards carry over; links to tasks that are not copied are dropped
+const copyTasks = (sourceTasks, taskIdMap, sourceTasksById, { createdBy, includeMembers, resetProgress }) => {
+  const now = new Date();
+
+  return sourceTasks.map(task => {
+    const dependencies = (task.dependsOn || [])
+      .map(taskId => sourceTasksById.get(idKey(taskId)))
+      .filter(Boolean);
+    const copy = {
+      _id: taskIdMap.get(idKey(task._id)),
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      estimatedHours: task.estimatedHours,
+      position: task.position,
+      startDate: task.startDate,
+      dueDate: task.dueDate,
+      createdBy,
+      workflowStageIndex: task.workflowStageIndex,
+      dependsOn: dependencies.map(dependency => taskIdMap.get(idKey(dependency._id))),
+      assignedTo: includeMembers ? task.assignedTo : [],
+      autoAssignOnUnlock: includeMembers ? task.autoAssignOnUnlock : false,
+      assignToOnUnlock: includeMembers ? task.assignToOnUnlock : [],
+      subtasks: (task.subtasks || []).map(subtask => ({
+        title: subtask.title,
+        position: subtask.position,
+        completed: resetProgress ? false : subtask.completed,
+        completedAt: resetProgress ? undefined : subtask.completedAt,
+        completedBy: resetProgress ? undefined : subtask.completedBy
+      }))
+    };
+
+    if (resetProgress) {
+      // Nothing is completed after a reset, so every dependent task starts locked
+      copy.completed = false;
+    } else {
+      copy.completed = task.completed;
+      copy.completedAt = task.completedAt;
+      copy.completedBy = task.completedBy;
+    }
+
+    // Dropped links can free a task, so the lock is worked out again
+    const waitingOn = copy.completed ? [] : dependencies.filter(dependency => resetProgress || !dependency.completed);
+    copy.isLocked = waitingOn.length > 0;
+    copy.lockedReason = waitingOn.length > 0 ? `Waiting for: ${waitingOn.map(dependency => dependency.title).join(', ')}` : '';
+    copy.unlockedAt = waitingOn.length > 0 ? null : (!resetProgress && task.unlockedAt) || now;
+
+    return copy;
+  });
+};
+
+const copyWorkflowStages = (sourceStages, taskIdMap, resetProgress) => {
+  const now = new Date();
+
+  return (sourceStages || []).map((stage, index) => ({
+    order: stage.order,
+    name: stage.name,
+    assignedToType: stage.assignedToType,
+    assignedTo: stage.assignedTo,
+    status: resetProgress ? (index === 0 ? 'active' : 'pending') : stage.status,
+    startedAt: resetProgress ? (index === 0 ? now : null) : stage.startedAt,
+    completedAt: resetProgress ? null : stage.completedAt,
+    taskIds: (stage.taskIds || []).map(taskId => remapId(taskIdMap, taskId)).filter(Boolean)
+  }));
+};
+
+// Copy the card's folder tree, returning a map of old folder ids to new ones
+const copyFolders = async (sourceCardId, cardId, createdBy) => {
+  const folders = await Folder.find({ cardId: sourceCardId, isDeleted: false });
+  const folderIdMap = new Map(folders.map(folder => [idKey(folder._id), newId()]));
+
+  if (folders.length > 0) {
+    await Folder.insertMany(folders.map(folder => ({
+      _id: folderIdMap.get(idKey(folder._id)),
+      name: folder.name,
+      cardId,
+      parentFolder: remapId(folderIdMap, folder.parentFolder),
+      createdBy
+    })));
+  }
+
+  return folderIdMap;
+};
+
+// Files stored in R2 are copied so deleting one board's file never removes the other's
+const copyAttachments = async (sourceAttachments, cardId, folderIdMap, summary) => {
+  const attachments = [];
+
+  for (const attachment of sourceAttachments || []) {
+    if (attachment.isDeleted) continue;
+
+    if (!attachment.cloudflareKey) {
+      summary.skippedAttachments++;
+      continue;
+    }
+
+    const folderId = remapId(folderIdMap, attachment.folderId);
+    try {
+      const { key, url } = await copyInR2(attachment.cloudflareKey, attachment.originalName, cardId, folderId);
+      attachments.push({
+        filename: key,
+        originalName: attachment.originalName,
+        mimetype: attachment.mimetype,
+        size: attachment.size,
+        url,
+        cloudflareKey: key,
+        folderId,
+        uploadedBy: attachment.uploadedBy,
+        isDeleted: false
+      });
+      summary.attachments++;
+    } catch (error) {
+      console.error(`Error copying attachment ${attachment.originalName}:`, error);
+      summary.skippedAttachments++;
+    }
+  }
+
+  return attachments;
+};
+
+const copyCard = async (sourceCard, { boardId, listId, listIdMap, taskIdMap, sourceTasksById, createdBy, options, summary }) => {
+  const { includeTasks, includeMembers, includeAttachments, resetProgress } = options;
+  const cardId = newId();
+
+  const sourceTasks = includeTasks ? [...(sourceCard.tasks || [])] : [];
+  const tasks = copyTasks(sourceTasks, taskIdMap, sourceTasksById, { createdBy, includeMembers, resetProgress });
+  summary.tasks += tasks.length;
+
+  const folderIdMap = await copyFolders(sourceCard._id, cardId, createdBy);
+  summary.folders += folderIdMap.size;
+
+  const attachments = includeAttachments
+    ? await copyAttachments(sourceCard.attachments, cardId, folderIdMap, summary)
+    : [];
+
+  const stageListMapping = new Map();
+  if (sourceCard.stageListMapping) {
+    for (const [stage, mappedListId] of sourceCard.stageListMapping) {
+      const newListId = remapId(listIdMap, mappedListId);
+      if (newListId) stageListMapping.set(stage, newListId);
+    }
+  }
+
+  const workflowStages = includeTasks ? copyWorkflowStages(sourceCard.workflowStages, taskIdMap, resetProgress) : [];
+  const keepCompletion = !resetProgress && sourceCard.status === 'completed';
+
+  const card = new Card({
+    _id: cardId,
+    title: sourceCard.title,
+    description: sourceCard.description,
+    listId,
+    boardId,
+    createdBy,
+    position: sourceCard.position,
+    priority: sourceCard.priority,
+    status: resetProgress ? undefined : sourceCard.status,
+    completedAt: keepCompletion ? sourceCard.completedAt : undefined,
+    completedBy: keepCompletion ? sourceCard.completedBy : undefined,
+    dueDate: sourceCard.dueDate,
+    startDate: sourceCard.startDate,
+    budget: sourceCard.budget,
+    category: sourceCard.category,
+    color: sourceCard.color,
+    coverImage: sourceCard.coverImage,
+    labels: (sourceCard.labels || []).map(label => ({ name: label.name, color: label.color })),
+    checklist: (sourceCard.checklist || []).map(item => ({
+      text: item.text,
+      completed: resetProgress ? false : item.completed,
+      completedAt: resetProgress ? undefined : item.completedAt,
+      completedBy: resetProgress ? undefined : item.completedBy
+    })),
+    customFields: (sourceCard.customFields || []).map(field => ({
+      fieldId: field.fieldId,
+      name: field.name,
+      value: field.value,
+      type: field.type
+    })),
+    timeTracking: sourceCard.timeTracking ? { estimated: sourceCard.timeTracking.estimated || 0 } : undefined,
+    assignedTo: includeMembers ? sourceCard.assignedTo : [],
+    members: includeMembers
+      ? sourceCard.members.map(member => ({ userId: member.userId, role: member.role }))
+      : [],
+    watchers: includeMembers ? sourceCard.watchers : [],
+    tasks,
+    attachments,
+    workflowEnabled: sourceCard.workflowEnabled && workflowStages.length > 0,
+    workflowStages,
+    currentStageIndex: resetProgress ? 0 : Math.min(sourceCard.currentStageIndex || 0, Math.max(workflowStages.length - 1, 0)),
+    autoProgressEnabled: sourceCard.autoProgressEnabled,
+    moveListOnProgress: sourceCard.moveListOnProgress,
+    stageListMapping
+  });
+
+  await card.save();
+
+  // The completion date is copied as-is, so the save hook does not count it
+  if (keepCompletion) {
+    await List.findByIdAndUpdate(listId, {
+      $inc: { 'metadata.completedCards': 1 }
+    });
+  }
+
+  return card;
+};
+
+/**
+ * Copy a board with its lists and, depending on the options, its cards.
+ *
+ * @param {Object} sourceBoard - Board document to copy
+ * @param {Object} params
+ * @param {string} params.name - Name of the new board
+ * @param {string} params.createdBy - User creating the copy; becomes the owner
+ * @param {Object} params.options - See DEFAULT_COPY_OPTIONS
+ * @param {Function} params.onProgress - Called with { phase, completed, total }
+ * @returns {Promise<{board: Object, summary: Object}>}
+ */
+const copyBoard = async (sourceBoard, { name, createdBy, options = {}, onProgress = () => {} }) => {
+  const copyOptions = getCopyOptions(options);
+
+  const sourceLists = await List.find({ boardId: sourceBoard._id, isArchived: false }).sort({ position: 1 });
+  const sourceCards = copyOptions.includeCards
+    ? await Card.find({ listId: { $in: sourceLists.map(list => list._id) }, isArchived: false }).sort({ position: 1 })
+    : [];
+
+  const total = sourceLists.length + sourceCards.length;
+  let completed = 0;
+  onProgress({ phase: 'board', completed, total });
+
+  const board = new Board({
+    name: name.trim(),
+    description: sourceBoard.description,
+    background: sourceBoard.background,
+    visibility: sourceBoard.visibility,
+    settings: sourceBoard.settings,
+    labels: (sourceBoard.labels || []).map(label => ({ name: label.name, color: label.color })),
+    // Field ids stay the same, so copied card values still point at their fields
+    customFields: (sourceBoard.customFields || []).map(field => ({
+      _id: field._id,
+      name: field.name,
+      type: field.type,
+      options: field.options.map(option => ({ _id: option._id, name: option.name, color: option.color })),
+      required: field.required,
+      showOnCard: field.showOnCard
+    })),
+    members: copyOptions.includeMembers ? copyBoardMembers(sourceBoard, createdBy) : [],
+    teams: copyOptions.includeMembers ? copyBoardTeams(sourceBoard, createdBy) : [],
+    createdBy
+  });
+  await board.save();
+
+  // Lists first, so auto-move targets and stage mappings can use the new ids
+  const listIdMap = new Map();
+  const lists = [];
+  for (const sourceList of sourceLists) {
+    const list = new List({
+      name: sourceList.name,
+      description: sourceList.description,
+      color: sourceList.color,
+      listType: sourceList.listType,
+      boardId: board._id,
+      createdBy,
+      position: sourceList.position,
+      settings: copyListSettings(sourceList.settings)
+    });
+    await list.save();
+
+    listIdMap.set(idKey(sourceList._id), list._id);
+    lists.push(list);
+    onProgress({ phase: 'lists', completed: ++completed, total });
+  }
+
+  for (const [index, sourceList] of sourceLists.entries()) {
+    const autoMove = sourceList.settings?.autoMove;
+    if (!autoMove || !autoMove.conditions || autoMove.conditions.length === 0) continue;
+
+    lists[index].settings.autoMove = {
+      enabled: !!autoMove.enabled,
+      match: autoMove.match || 'all',
+      targetList: remapId(listIdMap, autoMove.targetList) || undefined,
+      conditions: autoMove.conditions.map(condition => ({
+        field: condition.field,
+        operator: condition.operator,
+        value: condition.value,
+        targetList: remapId(listIdMap, condition.targetList) || undefined
+      }))
+    };
+    await lists[index].save();
+  }
+
+  const summary = {
+    lists: lists.length,
+    cards: 0,
+    tasks: 0,
+    folders: 0,
+    attachments: 0,
+    skippedAttachments: 0
+  };
+
+  // Task ids for the whole board up front, so dependencies can point across cards
+  const sourceTasks = copyOptions.includeTasks ? sourceCards.flatMap(sourceCard => sourceCard.tasks || []) : [];
+  const taskIdMap = new Map(sourceTasks.map(task => [idKey(task._id), newId()]));
+  const sourceTasksById = new Map(sourceTasks.map(task => [idKey(task._id), task]));
+
+  let completedCards = 0;
+  for (const sourceCard of sourceCards) {
+    const card = await copyCard(sourceCard, {
+      boardId: board._id,
+      listId: listIdMap.get(idKey(sourceCard.listId)),
+      listIdMap,
+      taskIdMap,
+      sourceTasksById,
+      createdBy,
+      options: copyOptions,
+      summary
+    });
+
+    summary.cards++;
+    if (card.status === 'completed') completedCards++;
+
+    completed++;
+    if (summary.cards % PROGRESS_INTERVAL === 0 || completed === total) {
+      onProgress({ phase: 'cards', completed, total });
+    }
+  }
+
+  board.metadata.totalLists = lists.length;
+  board.metadata.totalCards = summary.cards;
+  board.metadata.completedCards = completedCards;
+  await board.save();
+
+  onProgress({ phase: 'done', completed: total, total });
+
+  return { board, summary };
+};
+
+module.exports = {
+  DEFAULT_COPY_OPTIONS,
+  getCopyOptions,
+  copyBoard
+};
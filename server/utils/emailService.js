@@ -1,6 +1,7 @@
 const { Resend } = require('resend');
 const nodemailer = require('nodemailer');
 const { sendVerificationDM } = require('./slackService');
+const { shouldDeliver, getPreferences } = require('./notificationPreferences');
 
 // Initialize Resend
 const resend = new Resend(process.env.RESEND_API_KEY);
@@ -18,6 +19,14 @@ if (process.env.EMAIL_USERNAME && process.env.EMAIL_PASSWORD) {
   console.log('✅ Nodemailer fallback configured');
 }
 
+// User-written text (card titles, comments, client feedback) goes into emails as text, not markup
+const escapeHtml = (value) => String(value == null ? '' : value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
 /**
  * Send email with Resend, fallback to Nodemailer if it fails
  */
@@ -469,11 +478,142 @@ const sendPasswordResetRejected = async ({ email, firstName, lastName, reason, p
   }
 };
 
+/**
+ * Send a notification event by email, if the recipient has opted in for it
+ * and is outside their quiet hours. Returns null when the email was skipped.
+ */
+const sendNotificationEmail = async ({ user, type, title, message, link }) => {
+  try {
+    if (!user || !user.email || !shouldDeliver(user, type, 'email')) {
+      return null;
+    }
+
+    const actionUrl = link ? `${process.env.CLIENT_URL || 'http://localhost:3000'}${link}` : null;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #17b6b2; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+          .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${escapeHtml(title)}</h1>
+          </div>
+          <div class="content">
+            <p>Hello <strong>${escapeHtml(user.firstName)}</strong>,</p>
+
+            ${message ? `<p>${escapeHtml(message)}</p>` : ''}
+
+            ${actionUrl ? `
+            <div style="text-align: center;">
+              <a href="${escapeHtml(actionUrl)}" style="display: inline-block; padding: 12px 24px; background-color: #17b6b2; color: white !important; text-decoration: none; border-radius: 6px; margin: 20px 0;">Open in ${process.env.APP_NAME || 'EUROSHUB'}</a>
+            </div>` : ''}
+
+            <div class="footer">
+              <p>You can change which emails you receive in your notification preferences.</p>
+              <p>© ${new Date().getFullYear()} ${process.env.APP_NAME || 'EUROSHUB'}. All rights reserved.</p>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return await sendEmailWithFallback({
+      to: user.email,
+      subject: `${title} - ${process.env.APP_NAME || 'EUROSHUB'}`,
+      html
+    });
+  } catch (error) {
+    console.error('Error sending notification email:', error);
+    throw error;
+  }
+};
+
+/**
+ * Send the daily or weekly summary digest, if it matches the recipient's
+ * chosen digest frequency. Callers hold digests back during quiet hours.
+ * Returns null when the email was skipped.
+ */
+const sendDigestEmail = async ({ user, frequency, notifications = [], dueItems = [] }) => {
+  try {
+    if (!user || !user.email) return null;
+    if (getPreferences(user).digestFrequency !== frequency) {
+      return null;
+    }
+
+    const period = frequency === 'weekly' ? 'Weekly' : 'Daily';
+    const renderList = (items) => items.map(item => `<li>${item}</li>`).join('');
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #17b6b2; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+          .section { background-color: white; padding: 15px 20px; border-radius: 6px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Your ${period} Digest</h1>
+          </div>
+          <div class="content">
+            <p>Hello <strong>${escapeHtml(user.firstName)}</strong>,</p>
+
+            ${notifications.length > 0 ? `
+            <div class="section">
+              <h3>Unread notifications (${notifications.length})</h3>
+              <ul>${renderList(notifications.map(notification => escapeHtml(notification.title)))}</ul>
+            </div>` : ''}
+
+            ${dueItems.length > 0 ? `
+            <div class="section">
+              <h3>Coming up</h3>
+              <ul>${renderList(dueItems.map(item => `<strong>${escapeHtml(item.title)}</strong> on ${escapeHtml(item.cardTitle)} &mdash; due ${new Date(item.dueDate).toLocaleString()}`))}</ul>
+            </div>` : ''}
+
+            <div class="footer">
+              <p>You can change how often you receive this digest in your notification preferences.</p>
+              <p>© ${new Date().getFullYear()} ${process.env.APP_NAME || 'EUROSHUB'}. All rights reserved.</p>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return await sendEmailWithFallback({
+      to: user.email,
+      subject: `Your ${period} Digest - ${process.env.APP_NAME || 'EUROSHUB'}`,
+      html
+    });
+  } catch (error) {
+    console.error('Error sending digest email:', error);
+    throw error;
+  }
+};
+
 module.exports = {
   sendWelcomeEmail,
   sendVerificationEmail,
   sendPasswordResetEmail,
   notifyAdminsPasswordResetRequest,
   sendPasswordResetSuccess,
-  sendPasswordResetRejected
+  sendPasswordResetRejected,
+  sendNotificationEmail,
+  sendDigestEmail
 };
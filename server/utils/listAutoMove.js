@@ -0,0 +1,147 @@
+/**
+ * List auto-move rules.
+ *
+ * A list can carry one rule: when a card in the list meets all (or any) of the
+ * rule's conditions it is moved to the rule's target list. Rules are checked
+ * whenever a card changes and on a schedule, so time-based conditions such as
+ * "overdue" fire without anyone touching the card.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Operators each field supports; anything else is rejected when a rule is saved
+const AUTO_MOVE_OPERATORS = {
+  dueDate: ['overdue', 'dueWithin', 'isEmpty'],
+  assignee: ['equals', 'contains', 'notContains', 'isEmpty'],
+  labels: ['contains', 'notContains', 'isEmpty'],
+  checklist: ['completed', 'notCompleted']
+};
+
+// Operators that compare against condition.value
+const VALUE_OPERATORS = ['equals', 'contains', 'notContains', 'dueWithin'];
+
+const idKey = (value) => (value && value._id ? value._id.toString() : value ? value.toString() : '');
+
+const getAssigneeIds = (card) => {
+  const ids = new Set();
+  (card.assignedTo || []).forEach(user => ids.add(idKey(user)));
+  (card.members || []).forEach(member => ids.add(idKey(member.userId)));
+  ids.delete('');
+  return ids;
+};
+
+// Labels are stored as { name, color }; compare on the name only
+const getLabelNames = (card) =>
+  (card.labels || []).map(label => (typeof label === 'string' ? label : label.name || '').toLowerCase());
+
+// Tasks and legacy checklist items both count towards "checklist"
+const getChecklistItems = (card) => [...(card.tasks || []), ...(card.checklist || [])];
+
+const matchesCondition = (card, condition, now = new Date()) => {
+  const value = condition.value;
+
+  switch (condition.field) {
+    case 'dueDate': {
+      const dueDate = card.dueDate ? new Date(card.dueDate) : null;
+      if (condition.operator === 'isEmpty') return !dueDate;
+      if (!dueDate || card.status === 'completed') return false;
+      if (condition.operator === 'overdue') return dueDate < now;
+      if (condition.operator === 'dueWithin') {
+        const days = Number(value);
+        return Number.isFinite(days) && dueDate >= now && dueDate.getTime() <= now.getTime() + days * DAY_MS;
+      }
+      return false;
+    }
+    case 'assignee': {
+      const assignees = getAssigneeIds(card);
+      if (condition.operator === 'isEmpty') return assignees.size === 0;
+      if (condition.operator === 'notContains') return !assignees.has(idKey(value));
+      return assignees.has(idKey(value));
+    }
+    case 'labels': {
+      const labels = getLabelNames(card);
+      const name = String(value || '').trim().toLowerCase();
+      if (condition.operator === 'isEmpty') return labels.length === 0;
+      if (condition.operator === 'notContains') return !labels.includes(name);
+      return labels.includes(name);
+    }
+    case 'checklist': {
+      const items = getChecklistItems(card);
+      const allDone = items.length > 0 && items.every(item => item.completed);
+      return condition.operator === 'notCompleted' ? items.length > 0 && !allDone : allDone;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * The list a card should move to under its list's auto-move rule, or null.
+ * Older rules without a rule-level target move to the target of the first
+ * condition that matches.
+ */
+const getAutoMoveTarget = (card, list, now = new Date()) => {
+  const autoMove = list.settings?.autoMove;
+  if (!autoMove?.enabled || !autoMove.conditions || autoMove.conditions.length === 0) {
+    return null;
+  }
+
+  let targetList = null;
+  if (autoMove.targetList) {
+    const results = autoMove.conditions.map(condition => matchesCondition(card, condition, now));
+    const matched = autoMove.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+    targetList = matched ? autoMove.targetList : null;
+  } else {
+    const condition = autoMove.conditions.find(item => item.targetList && matchesCondition(card, item, now));
+    targetList = condition ? condition.targetList : null;
+  }
+
+  return targetList && idKey(targetList) !== idKey(list._id) ? targetList : null;
+};
+
+/**
+ * Check a rule before it is saved. Returns an error message, or null when the
+ * rule is valid. boardListIds are the ids of the other lists on the board.
+ */
+const validateAutoMove = (autoMove, listId, boardListIds) => {
+  if (!autoMove || !autoMove.enabled) return null;
+
+  if (autoMove.match && !['all', 'any'].includes(autoMove.match)) {
+    return 'Rule match must be "all" or "any"';
+  }
+
+  const conditions = autoMove.conditions || [];
+  if (conditions.length === 0) {
+    return 'Add at least one condition to enable auto-move';
+  }
+
+  const targets = autoMove.targetList ? [autoMove.targetList] : conditions.map(condition => condition.targetList);
+  for (const target of targets) {
+    if (!target) return 'Choose a list to move matching cards to';
+    if (idKey(target) === idKey(listId)) return 'Cards cannot be moved to the list they are already in';
+    if (!boardListIds.includes(idKey(target))) return 'Target list must be on the same board';
+  }
+
+  for (const condition of conditions) {
+    const operators = AUTO_MOVE_OPERATORS[condition.field];
+    if (!operators) return `Unknown condition field "${condition.field}"`;
+    if (!operators.includes(condition.operator)) {
+      return `Operator "${condition.operator}" cannot be used with ${condition.field}`;
+    }
+    if (VALUE_OPERATORS.includes(condition.operator) && (condition.value === undefined || condition.value === null || condition.value === '')) {
+      return `A value is required for ${condition.field} ${condition.operator}`;
+    }
+    if (condition.operator === 'dueWithin' && !(Number(condition.value) >= 0)) {
+      return 'Days for "due within" must be zero or more';
+    }
+  }
+
+  return null;
+};
+
+module.exports = {
+  AUTO_MOVE_OPERATORS,
+  matchesCondition,
+  getAutoMoveTarget,
+  validateAutoMove
+};
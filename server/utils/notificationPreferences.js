@@ -0,0 +1,147 @@
+/**
+ * Per-user notification preferences.
+ *
+ * Every notification event can be delivered in-app, by email and as a Slack DM.
+ * Users choose the channels per event, a quiet-hours window during which email
+ * and Slack stay silent, and how often they want the summary digest.
+ */
+
+const NOTIFICATION_EVENTS = [
+  'task_assigned',
+  'card_assigned',
+  'mention',
+  'due_soon',
+  'task_unlocked',
+  'board_invite',
+  'timesheet_reviewed',
+  'client_feedback'
+];
+
+const NOTIFICATION_CHANNELS = ['inApp', 'email', 'slack'];
+
+const DIGEST_FREQUENCIES = ['none', 'daily', 'weekly'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Defaults mirror what users received before preferences existed:
+// everything in-app, Slack DMs for assignments, unlocks and board invites
+const DEFAULT_EVENT_CHANNELS = {
+  task_assigned: { inApp: true, email: false, slack: true },
+  card_assigned: { inApp: true, email: false, slack: false },
+  mention: { inApp: true, email: false, slack: false },
+  due_soon: { inApp: true, email: false, slack: false },
+  task_unlocked: { inApp: true, email: false, slack: true },
+  board_invite: { inApp: true, email: false, slack: true },
+  timesheet_reviewed: { inApp: true, email: true, slack: false },
+  client_feedback: { inApp: true, email: true, slack: false }
+};
+
+const DEFAULT_QUIET_HOURS = {
+  enabled: false,
+  start: '22:00',
+  end: '08:00',
+  timezone: 'UTC'
+};
+
+const isValidTimezone = (timezone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+const toPlainObject = (value) => (value && typeof value.toObject === 'function' ? value.toObject() : value || {});
+
+/**
+ * Resolve a user's preferences, filling anything unset with the defaults
+ */
+const getPreferences = (user) => {
+  const stored = toPlainObject(user && user.notificationPreferences);
+  const storedEvents = toPlainObject(stored.events);
+
+  const events = {};
+  NOTIFICATION_EVENTS.forEach(event => {
+    events[event] = { ...DEFAULT_EVENT_CHANNELS[event], ...toPlainObject(storedEvents[event]) };
+  });
+
+  return {
+    events,
+    quietHours: { ...DEFAULT_QUIET_HOURS, ...toPlainObject(stored.quietHours) },
+    digestFrequency: stored.digestFrequency || 'daily'
+  };
+};
+
+/**
+ * Check whether a user wants a given event on a given channel
+ */
+const isChannelEnabled = (user, event, channel) => {
+  const preferences = getPreferences(user);
+  const channels = preferences.events[event];
+  return channels ? !!channels[channel] : channel === 'inApp';
+};
+
+// Minutes since midnight in the given timezone
+const getLocalMinutes = (date, timezone) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: isValidTimezone(timezone) ? timezone : 'UTC',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const hour = Number(parts.find(part => part.type === 'hour').value);
+  const minute = Number(parts.find(part => part.type === 'minute').value);
+  return hour * 60 + minute;
+};
+
+const parseTime = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Check whether the given moment falls inside the user's quiet hours.
+ * Windows that cross midnight (e.g. 22:00 - 08:00) are supported.
+ */
+const isWithinQuietHours = (user, date = new Date()) => {
+  const { quietHours } = getPreferences(user);
+  if (!quietHours.enabled || !TIME_PATTERN.test(quietHours.start) || !TIME_PATTERN.test(quietHours.end)) {
+    return false;
+  }
+
+  const now = getLocalMinutes(date, quietHours.timezone);
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+
+  if (start === end) return false;
+  return start < end
+    ? now >= start && now < end
+    : now >= start || now < end;
+};
+
+/**
+ * Decide whether an event should be delivered to a user on a channel right now.
+ * In-app notifications are always recorded when enabled; email and Slack are
+ * held back during quiet hours.
+ */
+const shouldDeliver = (user, event, channel, date = new Date()) => {
+  if (!isChannelEnabled(user, event, channel)) return false;
+  if (channel === 'inApp') return true;
+  return !isWithinQuietHours(user, date);
+};
+
+module.exports = {
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_CHANNELS,
+  DIGEST_FREQUENCIES,
+  DEFAULT_EVENT_CHANNELS,
+  DEFAULT_QUIET_HOURS,
+  TIME_PATTERN,
+  isValidTimezone,
+  getPreferences,
+  isChannelEnabled,
+  isWithinQuietHours,
+  shouldDeliver
+};
@@ -1,4 +1,6 @@
 const { WebClient } = require('@slack/web-api');
+const User = require('../models/User');
+const { shouldDeliver } = require('./notificationPreferences');
 
 // Initialize Slack client (only if token is provided)
 const slackToken = process.env.SLACK_BOT_TOKEN;
@@ -393,14 +395,24 @@ const sendCustomNotification = async (channelType = 'default', message) => {
 
 /**
  * Send direct message to a Slack user (requires Bot API)
+ * @param {object} options - Pass { eventType } for notification DMs so the
+ *   recipient's notification preferences and quiet hours are respected
  */
-const sendDirectMessage = async (userEmail, message) => {
+const sendDirectMessage = async (userEmail, message, options = {}) => {
   try {
     if (!slackClient) {
       console.log('⚠️ Slack Bot not configured, cannot send DM');
       return null;
     }
 
+    if (options.eventType) {
+      const recipient = await User.findOne({ email: userEmail.toLowerCase() }).select('notificationPreferences');
+      if (recipient && !shouldDeliver(recipient, options.eventType, 'slack')) {
+        console.log(`🔕 Skipping Slack DM to ${userEmail} (${options.eventType}) per notification preferences`);
+        return { success: false, skipped: true };
+      }
+    }
+
     // Look up user by email
     const userResult = await slackClient.users.lookupByEmail({ email: userEmail });
 
@@ -816,7 +828,7 @@ const notifyBoardMemberAdded = async ({ boardName, memberName, memberEmail, adde
         ]
       };
 
-      const dmResult = await sendDirectMessage(memberEmail, welcomeMessage);
+      const dmResult = await sendDirectMessage(memberEmail, welcomeMessage, { eventType: 'board_invite' });
 
       return {
         channelNotification: channelResult,
@@ -952,7 +964,7 @@ const notifyBoardTaskAssigned = async ({ taskTitle, assignedTo, assignedBy, dueD
         ]
       };
 
-      const dmResult = await sendDirectMessage(assignedToEmail, taskNotificationMessage);
+      const dmResult = await sendDirectMessage(assignedToEmail, taskNotificationMessage, { eventType: 'task_assigned' });
 
       return {
         channelNotification: channelResult,
@@ -1099,7 +1111,7 @@ const notifyBoardTaskUnlocked = async ({ taskTitle, assignedTo, boardName, cardN
           ]
         };
 
-        const dmResult = await sendDirectMessage(email, taskUnlockedMessage);
+        const dmResult = await sendDirectMessage(email, taskUnlockedMessage, { eventType: 'task_unlocked' });
         dmResults.push(dmResult);
       }
     }
@@ -1408,6 +1420,47 @@ const notifyPasswordResetRejected = async ({ email, firstName, lastName, reason,
   }
 };
 
+/**
+ * Send an in-app notification event as a Slack DM, respecting the
+ * recipient's notification preferences and quiet hours
+ */
+const sendNotificationDM = async ({ user, type, title, message, link }) => {
+  try {
+    if (!slackClient || !user || !user.email || !shouldDeliver(user, type, 'slack')) {
+      return null;
+    }
+
+    const actionUrl = link ? `${process.env.CLIENT_URL || 'http://localhost:3000'}${link}` : null;
+
+    const dm = {
+      text: title,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*${title}*${message ? `\n${message}` : ''}`
+          }
+        },
+        ...(actionUrl ? [{
+          type: 'context',
+          elements: [
+            {
+              type: 'mrkdwn',
+              text: `<${actionUrl}|Open in ${process.env.APP_NAME || 'EUROSHUB'}>`
+            }
+          ]
+        }] : [])
+      ]
+    };
+
+    return await sendDirectMessage(user.email, dm);
+  } catch (error) {
+    console.error('❌ Error sending notification DM:', error);
+    return { success: false, error: error.message };
+  }
+};
+
 module.exports = {
   notifyNewUserSignup,
   notifyUserDeleted,
@@ -1416,6 +1469,7 @@ module.exports = {
   sendAlert,
   sendCustomNotification,
   sendDirectMessage,
+  sendNotificationDM,
   sendWelcomeDM,
   notifyUserLogin,
   notifyUserLogout,